@@ -18,11 +18,15 @@
  * 
  * Body:
  *   {
- *     "prompt": "AI prompt text"
+ *     "prompt": "AI prompt text",
+ *     "stream": true (optional)
  *   }
  * 
  * Response:
  *   - 200 OK: { success: true, content: string, provider: string }
+ *     With "stream": true the response is a text/event-stream of
+ *     { content } deltas followed by { done: true, content, provider }
+ *     with the full response, or { error, errorType } if the provider fails
  *   - 400 Bad Request: Invalid request (missing prompt, non-diabetes prompt)
  *   - 401 Unauthorized: Invalid or missing token
  *   - 403 Forbidden: Not a Pro user or rate limit exceeded
@@ -34,12 +38,14 @@ import { app, HttpRequest, HttpResponseInit, InvocationContext } from "@azure/fu
 import { extractUserInfoFromToken, getTableClient, isNotFoundError, getSecretFromKeyVault } from "../utils/azureUtils";
 import { createRequestLogger } from "../utils/logger";
 import { AI_SYSTEM_PROMPT } from "../utils/aiPrompts";
+import { createProviderEventStream } from "../utils/providerStream";
 
 /**
  * Request body interface
  */
 interface AIQueryRequest {
   prompt: string;
+  stream?: boolean;
 }
 
 /**
@@ -315,58 +321,65 @@ function addProUserMarker(content: string): string {
 }
 
 /**
- * Send the prompt to a configured AI provider and return the provider's generated text.
+ * Provider HTTP request built for a prompt
+ */
+interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Build the HTTP request for a configured AI provider.
  *
- * @param config - AI provider selection and API key used for the request (`provider` is one of 'perplexity' | 'gemini' | 'grok' | 'deepseek'; `apiKey` is the secret used for authentication)
+ * @param config - AI provider selection and API key used for the request
  * @param prompt - The user prompt to send to the AI provider
- * @returns An object with `success: true` and `content` containing the provider's response on success; on failure `success: false` with `error` describing the failure and `errorType` categorizing the failure as one of: `configuration`, `provider`, `request`, or `network`
+ * @param stream - Whether the provider should stream its response as server-sent events
+ * @returns The provider request, or `null` if the provider is not supported
  */
-async function callAIProvider(
-  config: AIProviderConfig,
-  prompt: string,
-  context: InvocationContext
-): Promise<{ success: boolean; content?: string; error?: string; errorType?: string }> {
+function buildProviderRequest(config: AIProviderConfig, prompt: string, stream: boolean): ProviderRequest | null {
   const { provider, apiKey } = config;
-  
-  try {
-    // Build request based on provider
-    let url: string;
-    let requestBody: unknown;
-    let headers: Record<string, string>;
-    
-    switch (provider) {
-      case 'perplexity':
-        url = 'https://api.perplexity.ai/chat/completions';
-        headers = {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        };
-        requestBody = {
-          model: 'sonar',
-          messages: [
-            {
-              role: 'system',
-              content: AI_SYSTEM_PROMPT,
-            },
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-          max_tokens: 4000,
-          temperature: 0.2,
-        };
-        break;
-        
-      case 'gemini':
-        // Gemini API supports authentication via x-goog-api-key header
-        // This is more secure than URL parameters as it prevents key exposure in logs
-        url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent`;
-        headers = {
+  const openAIHeaders = {
+    'Authorization': `Bearer ${apiKey}`,
+    'Content-Type': 'application/json',
+  };
+  const openAIBody = (model: string) => ({
+    model,
+    messages: [
+      {
+        role: 'system',
+        content: AI_SYSTEM_PROMPT,
+      },
+      {
+        role: 'user',
+        content: prompt,
+      },
+    ],
+    max_tokens: 4000,
+    temperature: 0.2,
+    ...(stream && { stream: true }),
+  });
+
+  switch (provider) {
+    case 'perplexity':
+      return {
+        url: 'https://api.perplexity.ai/chat/completions',
+        headers: openAIHeaders,
+        body: openAIBody('sonar'),
+      };
+
+    case 'gemini':
+      // Gemini API supports authentication via x-goog-api-key header
+      // This is more secure than URL parameters as it prevents key exposure in logs
+      return {
+        url: stream
+          ? 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:streamGenerateContent?alt=sse'
+          : 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent',
+        headers: {
           'Content-Type': 'application/json',
           'x-goog-api-key': apiKey,
-        };
-        requestBody = {
+        },
+        body: {
           contents: [
             {
               parts: [
@@ -382,68 +395,58 @@ async function callAIProvider(
             topP: 0.8,
             topK: 40,
           },
-        };
-        break;
-        
-      case 'grok':
-        url = 'https://api.x.ai/v1/chat/completions';
-        headers = {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        };
-        requestBody = {
-          model: 'grok-beta',
-          messages: [
-            {
-              role: 'system',
-              content: AI_SYSTEM_PROMPT,
-            },
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-          max_tokens: 4000,
-          temperature: 0.2,
-        };
-        break;
-        
-      case 'deepseek':
-        url = 'https://api.deepseek.com/chat/completions';
-        headers = {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        };
-        requestBody = {
-          model: 'deepseek-chat',
-          messages: [
-            {
-              role: 'system',
-              content: AI_SYSTEM_PROMPT,
-            },
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-          max_tokens: 4000,
-          temperature: 0.2,
-        };
-        break;
-        
-      default:
-        return {
-          success: false,
-          error: `Unsupported provider: ${provider}`,
-          errorType: 'configuration',
-        };
+        },
+      };
+
+    case 'grok':
+      return {
+        url: 'https://api.x.ai/v1/chat/completions',
+        headers: openAIHeaders,
+        body: openAIBody('grok-beta'),
+      };
+
+    case 'deepseek':
+      return {
+        url: 'https://api.deepseek.com/chat/completions',
+        headers: openAIHeaders,
+        body: openAIBody('deepseek-chat'),
+      };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Send the prompt to a configured AI provider and return the provider's generated text.
+ *
+ * @param config - AI provider selection and API key used for the request (`provider` is one of 'perplexity' | 'gemini' | 'grok' | 'deepseek'; `apiKey` is the secret used for authentication)
+ * @param prompt - The user prompt to send to the AI provider
+ * @returns An object with `success: true` and `content` containing the provider's response on success; on failure `success: false` with `error` describing the failure and `errorType` categorizing the failure as one of: `configuration`, `provider`, `request`, or `network`
+ */
+async function callAIProvider(
+  config: AIProviderConfig,
+  prompt: string,
+  context: InvocationContext
+): Promise<{ success: boolean; content?: string; error?: string; errorType?: string }> {
+  const { provider } = config;
+  
+  try {
+    const providerRequest = buildProviderRequest(config, prompt, false);
+    
+    if (!providerRequest) {
+      return {
+        success: false,
+        error: `Unsupported provider: ${provider}`,
+        errorType: 'configuration',
+      };
     }
     
     // Make the API call
-    const response = await fetch(url, {
+    const response = await fetch(providerRequest.url, {
       method: 'POST',
-      headers,
-      body: JSON.stringify(requestBody),
+      headers: providerRequest.headers,
+      body: JSON.stringify(providerRequest.body),
     });
     
     if (!response.ok) {
@@ -493,13 +496,78 @@ async function callAIProvider(
   }
 }
 
+/**
+ * Send the prompt to a configured AI provider and relay its streamed response.
+ *
+ * The returned stream emits server-sent events to the client: `{ content }` with
+ * each text delta, then `{ done: true, content, provider }` with the full response
+ * including the Pro user marker, or `{ error, errorType }` if the provider stream fails.
+ *
+ * @param config - AI provider selection and API key used for the request
+ * @param prompt - The user prompt to send to the AI provider
+ * @param onComplete - Called with the length of the full response once the stream has finished
+ * @returns An object with `success: true` and the event `stream`; on failure before the stream starts `success: false` with `error` and `errorType` as in `callAIProvider`
+ */
+async function streamAIProvider(
+  config: AIProviderConfig,
+  prompt: string,
+  context: InvocationContext,
+  onComplete: (responseLength: number) => void
+): Promise<{ success: boolean; stream?: ReadableStream<Uint8Array>; error?: string; errorType?: string }> {
+  const { provider } = config;
+  
+  try {
+    const providerRequest = buildProviderRequest(config, prompt, true);
+    
+    if (!providerRequest) {
+      return {
+        success: false,
+        error: `Unsupported provider: ${provider}`,
+        errorType: 'configuration',
+      };
+    }
+    
+    const response = await fetch(providerRequest.url, {
+      method: 'POST',
+      headers: providerRequest.headers,
+      body: JSON.stringify(providerRequest.body),
+    });
+    
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      context.warn(`AI provider ${provider} returned error: ${response.status} ${errorText}`);
+      
+      return {
+        success: false,
+        error: `AI provider error: ${response.status}`,
+        errorType: response.status >= 500 ? 'provider' : 'request',
+      };
+    }
+    
+    const stream = createProviderEventStream(provider, response.body, context, addProUserMarker, onComplete);
+    
+    return {
+      success: true,
+      stream,
+    };
+    
+  } catch (error) {
+    context.error(`Error calling AI provider ${provider}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      errorType: 'network',
+    };
+  }
+}
+
 /**
  * Handle POST /api/ai/query by authenticating a Pro user, validating a diabetes-related prompt,
  * enforcing per-user rate limits, invoking the configured AI provider, and returning the generated content.
  *
- * @param request - Incoming HTTP request; body must be JSON with a `prompt` string and optional `provider`
+ * @param request - Incoming HTTP request; body must be JSON with a `prompt` string and optional `stream` flag
  * @param context - Azure Functions invocation context used for logging and telemetry
- * @returns An HTTP response object containing `{ success: true, content, provider }` on success, or an error status and message on failure
+ * @returns An HTTP response object containing `{ success: true, content, provider }` on success (an event stream when `stream` is set), or an error status and message on failure
  */
 async function aiQuery(request: HttpRequest, context: InvocationContext): Promise<HttpResponseInit> {
   const requestLogger = createRequestLogger(request, context);
@@ -612,7 +680,40 @@ async function aiQuery(request: HttpRequest, context: InvocationContext): Promis
       );
     }
     
-    requestLogger.logInfo('Calling AI provider', { provider: aiConfig.provider, userId });
+    requestLogger.logInfo('Calling AI provider', { provider: aiConfig.provider, userId, stream: requestBody.stream === true });
+    
+    if (requestBody.stream === true) {
+      const streamResult = await streamAIProvider(aiConfig, prompt, context, responseLength => {
+        requestLogger.logInfo('AI query stream completed successfully', {
+          userId,
+          provider: aiConfig.provider,
+          promptLength: prompt.length,
+          responseLength,
+        });
+      });
+      
+      if (!streamResult.success || !streamResult.stream) {
+        requestLogger.logError(
+          `AI provider call failed: ${streamResult.error}`,
+          503,
+          streamResult.errorType || 'provider'
+        );
+        return requestLogger.logError(
+          'AI service error. Please try again later.',
+          503,
+          'provider'
+        );
+      }
+      
+      return requestLogger.logSuccess({
+        status: 200,
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+        },
+        body: streamResult.stream,
+      });
+    }
     
     // Call AI provider
     const aiResult = await callAIProvider(aiConfig, prompt, context);
@@ -41,6 +41,32 @@ interface CloudUserSettings {
     low: number;
     veryLow: number;
   };
+  reportTabs?: Array<{ id: string; visible: boolean }>;
+  timeZone?: {
+    sourceTimeZone: string;
+    analysisMode: 'wallClock' | 'homeTimeZone';
+  };
+  insulinModel?: {
+    model: 'linear' | 'exponential' | 'biexponential';
+    preset: 'rapidActing' | 'ultraRapid' | 'custom';
+    peakMinutes: number;
+  };
+  sleepWindow?: {
+    startHour: number;
+    endHour: number;
+  };
+  timeOfDaySegments?: Array<{
+    name: string;
+    startHour: number;
+    endHour: number;
+  }>;
+  annotations?: Record<string, Array<{
+    id: string;
+    date: string;
+    time?: string;
+    tag: 'sick' | 'pizza' | 'siteChange' | 'alcohol' | 'stress' | 'other';
+    note: string;
+  }>>;
 }
 
 /**
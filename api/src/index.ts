@@ -14,6 +14,11 @@
  * - Functions not appearing in the Azure portal
  */
 
+import { app } from '@azure/functions';
+
+// Allow HTTP responses to be streamed (used by the ai/query stream mode)
+app.setup({ enableHttpStream: true });
+
 // Import all function modules to trigger their registration
 // The imported modules execute their app.http() calls, registering the HTTP endpoints
 import './functions/checkFirstLogin';
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for relaying streamed AI provider responses
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createProviderEventStream } from './providerStream';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// OpenAI-compatible server-sent event with a text delta
+function providerEvent(content: string): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`);
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = stream.getReader();
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return text;
+    text += decoder.decode(value);
+  }
+}
+
+describe('createProviderEventStream', () => {
+  it('should relay the deltas and the finalized full response', async () => {
+    const providerBody = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(providerEvent('Hello'));
+        controller.enqueue(providerEvent(' world'));
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      },
+    });
+    const context = { warn: vi.fn(), error: vi.fn() };
+    const onComplete = vi.fn();
+
+    const text = await readAll(createProviderEventStream('grok', providerBody, context, content => `${content}!`, onComplete));
+
+    expect(text).toBe([
+      'data: {"content":"Hello"}\n\n',
+      'data: {"content":" world"}\n\n',
+      'data: {"done":true,"content":"Hello world!","provider":"grok"}\n\n',
+    ].join(''));
+    expect(onComplete).toHaveBeenCalledWith(12);
+  });
+
+  it('should cancel the provider response when the client cancels mid-stream', async () => {
+    const cancelProvider = vi.fn();
+    // The provider sends one delta and then keeps generating
+    const providerBody = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(providerEvent('Hello'));
+      },
+      cancel: cancelProvider,
+    });
+    const context = { warn: vi.fn(), error: vi.fn() };
+    const onComplete = vi.fn();
+
+    const reader = createProviderEventStream('grok', providerBody, context, content => content, onComplete).getReader();
+    const first = await reader.read();
+    await reader.cancel();
+    // Let the relay finish after the provider stream ends
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(decoder.decode(first.value)).toBe('data: {"content":"Hello"}\n\n');
+    expect(cancelProvider).toHaveBeenCalledTimes(1);
+    expect(context.error).not.toHaveBeenCalled();
+    expect(context.warn).not.toHaveBeenCalled();
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+});
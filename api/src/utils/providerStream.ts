@@ -0,0 +1,131 @@
+/**
+ * Streamed AI Provider Responses
+ *
+ * This module relays the server-sent event stream of an AI provider
+ * (Gemini or OpenAI-compatible) to the client as a stream of its own events.
+ */
+
+import type { InvocationContext } from "@azure/functions";
+
+/**
+ * Streamed provider chunk (Gemini or OpenAI-compatible format)
+ */
+interface ProviderStreamChunk {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+  choices?: Array<{ delta?: { content?: string } }>;
+}
+
+/**
+ * Read the `data:` payloads of a server-sent event stream.
+ *
+ * @param reader - Reader of the provider response body
+ * @param onData - Called with each payload except the `[DONE]` terminator
+ */
+async function readProviderEvents(reader: ReadableStreamDefaultReader<Uint8Array>, onData: (data: string) => void): Promise<void> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return;
+    const data = trimmed.slice(5).trim();
+    if (data && data !== '[DONE]') {
+      onData(data);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode());
+}
+
+/**
+ * Extract the text delta from a streamed provider chunk.
+ *
+ * @param provider - The provider that sent the chunk
+ * @param chunk - Parsed JSON payload of one server-sent event
+ * @returns The new text of the chunk (empty if it carries none)
+ */
+function extractStreamDelta(provider: string, chunk: ProviderStreamChunk): string {
+  if (provider === 'gemini') {
+    const parts = chunk.candidates?.[0]?.content?.parts ?? [];
+    return parts.map(part => part.text ?? '').join('');
+  }
+  // OpenAI-compatible format (Perplexity, Grok, DeepSeek)
+  return chunk.choices?.[0]?.delta?.content ?? '';
+}
+
+/**
+ * Relay the streamed response of an AI provider as server-sent events.
+ *
+ * The returned stream emits `{ content }` with each text delta, then
+ * `{ done: true, content, provider }` with the full response, or
+ * `{ error, errorType }` if the provider stream fails. Cancelling the returned
+ * stream (the client disconnected or stopped the analysis) cancels the provider
+ * response, so the provider stops generating.
+ *
+ * @param provider - The provider that sends the stream
+ * @param providerBody - Response body of the provider
+ * @param context - Logger for warnings and errors
+ * @param finalizeContent - Turns the full response into the content of the final event
+ * @param onComplete - Called with the length of the final content once the stream has finished
+ * @returns The event stream for the client
+ */
+export function createProviderEventStream(
+  provider: string,
+  providerBody: ReadableStream<Uint8Array>,
+  context: Pick<InvocationContext, 'warn' | 'error'>,
+  finalizeContent: (content: string) => string,
+  onComplete: (responseLength: number) => void
+): ReadableStream<Uint8Array> {
+  const reader = providerBody.getReader();
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+      let content = '';
+
+      try {
+        await readProviderEvents(reader, data => {
+          const delta = extractStreamDelta(provider, JSON.parse(data) as ProviderStreamChunk);
+          if (delta && !cancelled) {
+            content += delta;
+            send({ content: delta });
+          }
+        });
+
+        // The client is gone; nothing is left to send
+        if (cancelled) return;
+
+        if (!content) {
+          context.warn(`Could not extract content from ${provider} stream`);
+          send({ error: 'Invalid response format from AI provider', errorType: 'provider' });
+        } else {
+          const finalContent = finalizeContent(content);
+          send({ done: true, content: finalContent, provider });
+          onComplete(finalContent.length);
+        }
+      } catch (error) {
+        if (cancelled) return;
+        context.error(`Error streaming from AI provider ${provider}:`, error);
+        send({ error: 'AI service error. Please try again later.', errorType: 'provider' });
+      }
+      controller.close();
+    },
+    cancel() {
+      // The client disconnected; stop reading from the provider
+      cancelled = true;
+      return reader.cancel();
+    },
+  });
+}
@@ -27,20 +27,28 @@ import { usePerplexityApiKey } from './hooks/usePerplexityApiKey'
 import { useGeminiApiKey } from './hooks/useGeminiApiKey'
 import { useGrokApiKey } from './hooks/useGrokApiKey'
 import { useDeepSeekApiKey } from './hooks/useDeepSeekApiKey'
+import { useCustomAIProvider } from './hooks/useCustomAIProvider'
 import { useActiveAIProvider } from './hooks/useActiveAIProvider'
 import { useInsulinDuration } from './hooks/useInsulinDuration'
+import { useInsulinModel } from './hooks/useInsulinModel'
+import { useSleepWindow } from './hooks/useSleepWindow'
+import { useTimeOfDaySegments } from './hooks/useTimeOfDaySegments'
 import { useCookieConsent } from './hooks/useCookieConsent'
 import { useAuth } from './hooks/useAuth'
 import { useProUserCheck } from './hooks/useProUserCheck'
 import { useUserSettings } from './hooks/useUserSettings'
+import { useReportTabs } from './hooks/useReportTabs'
+import { useTimeZoneSettings } from './hooks/useTimeZoneSettings'
 import { useDayNightShading } from './hooks/useDayNightShading'
 import { useGeekStats } from './hooks/useGeekStats'
 import { useProKeys } from './hooks/useProKeys'
-import type { UploadedFile, AIAnalysisResult, CloudUserSettings } from './types'
+import { useAnnotations } from './hooks/useAnnotations'
+import type { UploadedFile, AIAnalysisResult, AIAnalysisTab, AIConversation, CloudUserSettings, DataAnnotation } from './types'
 import type { AIProvider } from './utils/api'
 import { getProviderDisplayName } from './utils/api'
 import { extractZipMetadata } from './features/dataUpload/utils'
 import { loadCachedFiles } from './utils/fileCache'
+import { getDatasetKey, selectAnnotationsForSync } from './utils/data/annotationUtils'
 
 /**
  * Render the application shell and coordinate global state, routing, and user interactions.
@@ -83,9 +91,17 @@ function App() {
   const { responseLanguage, setResponseLanguage, syncWithUILanguage, setSyncWithUILanguage } = useResponseLanguage(uiLanguage)
   const { glucoseUnit, setGlucoseUnit } = useGlucoseUnit()
   const { insulinDuration, setInsulinDuration } = useInsulinDuration()
+  const { insulinModel, setInsulinModel, setInsulinModelType, setInsulinPeakPreset, setInsulinPeakMinutes } = useInsulinModel()
+  const { sleepWindow, setSleepWindow, setSleepStartHour, setSleepEndHour } = useSleepWindow()
+  const { timeOfDaySegments, setTimeOfDaySegments, addTimeOfDaySegment, updateTimeOfDaySegment, removeTimeOfDaySegment } = useTimeOfDaySegments()
   const { thresholds: glucoseThresholds, setThresholds: setGlucoseThresholds } = useGlucoseThresholds()
   const { showDayNightShading, setShowDayNightShading } = useDayNightShading()
   const { showGeekStats, setShowGeekStats } = useGeekStats()
+  const { reportTabs, setReportTabs, setReportTabVisible, moveReportTab, resetReportTabs } = useReportTabs()
+  const { timeZoneSettings, setTimeZoneSettings, setSourceTimeZone, setAnalysisMode } = useTimeZoneSettings()
+  
+  // User annotations of all datasets (stored in IndexedDB)
+  const { annotations, allAnnotations, addAnnotation, removeAnnotation, mergeCloudAnnotations } = useAnnotations()
   
   // Pro user API key preference (for Pro users only)
   const [proKeysEnabled, setProKeysEnabled] = useProKeys()
@@ -98,6 +114,7 @@ function App() {
   const { apiKey: geminiApiKey, setApiKey: setGeminiApiKey } = useGeminiApiKey()
   const { apiKey: grokApiKey, setApiKey: setGrokApiKey } = useGrokApiKey()
   const { apiKey: deepseekApiKey, setApiKey: setDeepSeekApiKey } = useDeepSeekApiKey()
+  const { customProvider, updateCustomProvider } = useCustomAIProvider()
   const { selectedProvider, setSelectedProvider } = useActiveAIProvider()
   
   // User settings cloud sync
@@ -115,6 +132,7 @@ function App() {
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([])
   const [selectedFileId, setSelectedFileId] = useState<string | null>(null)
   const [aiAnalysisResults, setAiAnalysisResults] = useState<Record<string, AIAnalysisResult>>({})
+  const [aiConversations, setAiConversations] = useState<Record<string, Partial<Record<AIAnalysisTab, AIConversation>>>>({})
 
   // Toast notifications
   const toasterId = 'app-toaster'
@@ -145,8 +163,14 @@ function App() {
       glucoseUnit,
       insulinDuration,
       glucoseThresholds,
+      reportTabs,
+      timeZone: timeZoneSettings,
+      insulinModel,
+      sleepWindow,
+      timeOfDaySegments,
+      annotations: selectAnnotationsForSync(allAnnotations),
     }
-  }, [themeMode, exportFormat, responseLanguage, glucoseUnit, insulinDuration, glucoseThresholds])
+  }, [themeMode, exportFormat, responseLanguage, glucoseUnit, insulinDuration, glucoseThresholds, reportTabs, timeZoneSettings, insulinModel, sleepWindow, timeOfDaySegments, allAnnotations])
 
   // Apply loaded settings to local state
   const applyCloudSettings = useCallback((settings: CloudUserSettings) => {
@@ -156,7 +180,13 @@ function App() {
     if (settings.glucoseUnit) setGlucoseUnit(settings.glucoseUnit)
     if (settings.insulinDuration) setInsulinDuration(settings.insulinDuration)
     if (settings.glucoseThresholds) setGlucoseThresholds(settings.glucoseThresholds)
-  }, [setThemeMode, setExportFormat, setResponseLanguage, setGlucoseUnit, setInsulinDuration, setGlucoseThresholds])
+    if (settings.reportTabs) setReportTabs(settings.reportTabs)
+    if (settings.timeZone) setTimeZoneSettings(settings.timeZone)
+    if (settings.insulinModel) setInsulinModel(settings.insulinModel)
+    if (settings.sleepWindow) setSleepWindow(settings.sleepWindow)
+    if (settings.timeOfDaySegments) setTimeOfDaySegments(settings.timeOfDaySegments)
+    if (settings.annotations) mergeCloudAnnotations(settings.annotations)
+  }, [setThemeMode, setExportFormat, setResponseLanguage, setGlucoseUnit, setInsulinDuration, setGlucoseThresholds, setReportTabs, setTimeZoneSettings, setInsulinModel, setSleepWindow, setTimeOfDaySegments, mergeCloudAnnotations])
 
   // Reset loaded flag when user logs out
   useEffect(() => {
@@ -240,6 +270,17 @@ function App() {
     }))
   }, [])
 
+  // Save follow-up conversations per file and AI Analysis tab
+  const handleAIConversationChange = useCallback((fileId: string, tab: AIAnalysisTab, conversation: AIConversation) => {
+    setAiConversations(prev => ({
+      ...prev,
+      [fileId]: {
+        ...prev[fileId],
+        [tab]: conversation,
+      }
+    }))
+  }, [])
+
   // Toggle between light and dark theme (skips system option when using quick toggle)
   const handleThemeToggle = useCallback(() => {
     // Determine current effective theme and toggle to the opposite explicit mode
@@ -352,12 +393,18 @@ function App() {
       delete updated[id]
       return updated
     })
+    setAiConversations(prev => {
+      const updated = { ...prev }
+      delete updated[id]
+      return updated
+    })
   }
 
   const handleClearAll = () => {
     setUploadedFiles([])
     setSelectedFileId(null)
     setAiAnalysisResults({})
+    setAiConversations({})
   }
 
   const handleSelectFile = (id: string | null) => {
@@ -377,6 +424,18 @@ function App() {
 
   // Get AI analysis result for selected file
   const currentAIAnalysis = selectedFileId ? aiAnalysisResults[selectedFileId] : undefined
+  // The extractors read the active time zone settings, so pages holding extracted data remount when they change
+  const timeZoneKey = `${timeZoneSettings.sourceTimeZone}|${timeZoneSettings.analysisMode}`
+
+  // Annotations of the selected file's dataset
+  const selectedDatasetKey = selectedFile ? getDatasetKey(selectedFile) : null
+  const selectedAnnotations = selectedDatasetKey ? annotations[selectedDatasetKey] : undefined
+  const handleAddAnnotation = useCallback((annotation: Omit<DataAnnotation, 'id'>) => {
+    if (selectedDatasetKey) addAnnotation(selectedDatasetKey, annotation)
+  }, [selectedDatasetKey, addAnnotation])
+  const handleRemoveAnnotation = useCallback((id: string) => {
+    if (selectedDatasetKey) removeAnnotation(selectedDatasetKey, id)
+  }, [selectedDatasetKey, removeAnnotation])
 
   const renderPage = () => {
     switch (currentPage) {
@@ -399,16 +458,27 @@ function App() {
       case 'reports':
         return (
           <Reports
+            // Remount so every report extracts its data again with the new time zone settings
+            key={timeZoneKey}
             selectedFile={selectedFile}
             exportFormat={exportFormat}
             glucoseUnit={glucoseUnit}
             insulinDuration={insulinDuration}
+            insulinModel={insulinModel}
+            sleepWindow={sleepWindow}
+            timeZoneSettings={timeZoneSettings}
+            timeOfDaySegments={timeOfDaySegments}
             showDayNightShading={showDayNightShading}
             showGeekStats={showGeekStats}
+            reportTabs={reportTabs}
+            annotations={selectedAnnotations}
+            onAddAnnotation={handleAddAnnotation}
+            onRemoveAnnotation={handleRemoveAnnotation}
             perplexityApiKey={perplexityApiKey}
             geminiApiKey={geminiApiKey}
             grokApiKey={grokApiKey}
             deepseekApiKey={deepseekApiKey}
+            customProvider={customProvider}
             selectedProvider={selectedProvider}
             responseLanguage={responseLanguage}
             isProUser={isProUser}
@@ -419,17 +489,26 @@ function App() {
       case 'ai':
         return (
           <AIAnalysis
+            // Remount so the prompts are built from data read with the new time zone settings
+            key={timeZoneKey}
             selectedFile={selectedFile}
             perplexityApiKey={perplexityApiKey}
             geminiApiKey={geminiApiKey}
             grokApiKey={grokApiKey}
             deepseekApiKey={deepseekApiKey}
+            customProvider={customProvider}
             selectedProvider={selectedProvider}
             responseLanguage={responseLanguage}
             glucoseUnit={glucoseUnit}
             showGeekStats={showGeekStats}
+            insulinDuration={insulinDuration}
+            insulinModel={insulinModel}
+            sleepWindow={sleepWindow}
+            annotations={selectedAnnotations}
             existingAnalysis={currentAIAnalysis}
             onAnalysisComplete={handleAIAnalysisComplete}
+            conversations={selectedFileId ? aiConversations[selectedFileId] : undefined}
+            onConversationChange={handleAIConversationChange}
             isProUser={isProUser}
             idToken={idToken}
             useProKeys={proKeysEnabled}
@@ -457,6 +536,24 @@ function App() {
           onGlucoseThresholdsChange={setGlucoseThresholds}
           insulinDuration={insulinDuration}
           onInsulinDurationChange={setInsulinDuration}
+          insulinModel={insulinModel}
+          onInsulinModelTypeChange={setInsulinModelType}
+          onInsulinPeakPresetChange={setInsulinPeakPreset}
+          onInsulinPeakMinutesChange={setInsulinPeakMinutes}
+          sleepWindow={sleepWindow}
+          onSleepStartHourChange={setSleepStartHour}
+          onSleepEndHourChange={setSleepEndHour}
+          timeOfDaySegments={timeOfDaySegments}
+          onTimeOfDaySegmentAdd={addTimeOfDaySegment}
+          onTimeOfDaySegmentChange={updateTimeOfDaySegment}
+          onTimeOfDaySegmentRemove={removeTimeOfDaySegment}
+          reportTabs={reportTabs}
+          onReportTabVisibleChange={setReportTabVisible}
+          onReportTabMove={moveReportTab}
+          onReportTabsReset={resetReportTabs}
+          timeZoneSettings={timeZoneSettings}
+          onSourceTimeZoneChange={setSourceTimeZone}
+          onAnalysisModeChange={setAnalysisMode}
           perplexityApiKey={perplexityApiKey}
           onPerplexityApiKeyChange={setPerplexityApiKey}
           geminiApiKey={geminiApiKey}
@@ -465,6 +562,8 @@ function App() {
           onGrokApiKeyChange={setGrokApiKey}
           deepseekApiKey={deepseekApiKey}
           onDeepSeekApiKeyChange={setDeepSeekApiKey}
+          customProvider={customProvider}
+          onCustomProviderChange={updateCustomProvider}
           selectedProvider={selectedProvider}
           onSelectedProviderChange={setSelectedProvider}
           onProviderAutoSwitch={handleProviderAutoSwitch}
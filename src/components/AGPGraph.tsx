@@ -19,9 +19,11 @@ import {
   Tooltip,
   ResponsiveContainer,
   ReferenceLine,
+  ReferenceArea,
 } from 'recharts';
-import type { AGPTimeSlotStats, GlucoseUnit } from '../types';
+import type { AGPTimeSlotStats, ChartFocus, GlucoseUnit } from '../types';
 import { convertGlucoseValue, getUnitLabel } from '../utils/data';
+import { focusTimeToDecimal, getFocusTimeRanges } from '../utils/data/chartFocusUtils';
 import { formatGlucoseNumber } from '../utils/formatting/formatters';
 
 const useStyles = makeStyles({
@@ -73,12 +75,17 @@ const useStyles = makeStyles({
   },
 });
 
+// Time window highlighted via a chart focus link (e.g. from an AI recommendation)
+const FOCUS_COLOR = '#7E57C2';
+
 interface AGPGraphProps {
   data: AGPTimeSlotStats[];
   glucoseUnit: GlucoseUnit;
+  /** Time window of the day to highlight */
+  focus?: ChartFocus | null;
 }
 
-export function AGPGraph({ data, glucoseUnit }: AGPGraphProps) {
+export function AGPGraph({ data, glucoseUnit, focus = null }: AGPGraphProps) {
   const styles = useStyles();
 
   // Detect mobile viewport for responsive margins (using 768px to match other components)
@@ -144,6 +151,13 @@ export function AGPGraph({ data, glucoseUnit }: AGPGraphProps) {
     };
   });
 
+  // Highlighted time window, widened to the hourly times shown on the chart
+  const chartTimes = chartData.map(point => point.time);
+  const focusAreas = getFocusTimeRanges(focus ?? {}).map(range => ({
+    x1: chartTimes.filter(time => focusTimeToDecimal(time) <= range.start).pop() ?? chartTimes[0],
+    x2: chartTimes.find(time => focusTimeToDecimal(time) >= range.end) ?? chartTimes[chartTimes.length - 1],
+  }));
+
   // Target range (stored internally in mmol/L, converted for display)
   const targetMin = convertGlucoseValue(3.9, glucoseUnit);
   const targetMax = convertGlucoseValue(10.0, glucoseUnit);
@@ -279,6 +293,20 @@ export function AGPGraph({ data, glucoseUnit }: AGPGraphProps) {
               dot={false}
             />
             
+            {/* Time window opened via a chart focus link */}
+            {focusAreas.map(area => (
+              <ReferenceArea
+                key={area.x1}
+                x1={area.x1}
+                x2={area.x2}
+                fill={FOCUS_COLOR}
+                fillOpacity={0.12}
+                stroke={FOCUS_COLOR}
+                strokeOpacity={0.6}
+                strokeDasharray="4 4"
+              />
+            ))}
+            
             {/* Target range reference lines - both upper and lower target */}
             <ReferenceLine 
               y={targetMin} 
@@ -316,6 +344,12 @@ export function AGPGraph({ data, glucoseUnit }: AGPGraphProps) {
           <div className={styles.medianColor} />
           <Text>Median</Text>
         </div>
+        {focusAreas.length > 0 && (
+          <div className={styles.legendItem}>
+            <div className={styles.legendColor} style={{ backgroundColor: FOCUS_COLOR, opacity: 0.3 }} />
+            <Text>Highlighted time window</Text>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -21,8 +21,9 @@ import {
   Tab,
   Input,
 } from '@fluentui/react-components';
-import type { UploadedFile, GlucoseDataSource, AGPTimeSlotStats, AGPDayOfWeekFilter, GlucoseReading, GlucoseUnit } from '../types';
+import type { UploadedFile, GlucoseDataSource, AGPTimeSlotStats, AGPDayOfWeekFilter, GlucoseReading, GlucoseUnit, ChartFocus } from '../types';
 import type { ExportFormat } from '../utils/data';
+import type { DataQualityScope } from '../features/dataQuality';
 import { extractGlucoseReadings, displayGlucoseValue, getUnitLabel } from '../utils/data';
 import { calculateAGPStats, filterReadingsByDayOfWeek } from '../utils/visualization';
 import { AGPGraph } from './AGPGraph';
@@ -129,9 +130,13 @@ interface AGPReportProps {
   selectedFile?: UploadedFile;
   exportFormat: ExportFormat;
   glucoseUnit: GlucoseUnit;
+  /** Time window of the day to highlight on the graph, e.g. from an AI recommendation */
+  focus?: ChartFocus | null;
+  /** Called with the data source and date range shown, for the data quality banner */
+  onDataScopeChange?: (scope: DataQualityScope) => void;
 }
 
-export function AGPReport({ selectedFile, exportFormat, glucoseUnit }: AGPReportProps) {
+export function AGPReport({ selectedFile, exportFormat, glucoseUnit, focus, onDataScopeChange }: AGPReportProps) {
   const styles = useStyles();
 
   const [dataSource, setDataSource] = useState<GlucoseDataSource>('cgm');
@@ -146,6 +151,12 @@ export function AGPReport({ selectedFile, exportFormat, glucoseUnit }: AGPReport
     setDateRange,
     clearDateRange
   } = useDateRange(selectedFile?.id);
+
+  // Let the data quality banner assess the data this report shows
+  useEffect(() => {
+    onDataScopeChange?.({ dataSource, startDate, endDate });
+  }, [onDataScopeChange, dataSource, startDate, endDate]);
+
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [agpStats, setAgpStats] = useState<AGPTimeSlotStats[]>([]);
@@ -366,7 +377,7 @@ export function AGPReport({ selectedFile, exportFormat, glucoseUnit }: AGPReport
               {!loading && !error && statsWithData.length > 0 && (
                 <>
                   <Text className={styles.reportTitle}>Ambulatory Glucose Profile (AGP)</Text>
-                  <AGPGraph data={agpStats} glucoseUnit={glucoseUnit} />
+                  <AGPGraph data={agpStats} glucoseUnit={glucoseUnit} focus={focus} />
                 </>
               )}
 
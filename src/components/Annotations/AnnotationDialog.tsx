@@ -0,0 +1,103 @@
+/**
+ * AnnotationDialog component
+ * Attaches a tagged note to the point a user clicked on a report chart
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogSurface,
+  DialogTitle,
+  DialogBody,
+  DialogActions,
+  DialogContent,
+  Dropdown,
+  Option,
+  Input,
+  Label,
+  Text,
+} from '@fluentui/react-components';
+import { useTranslation } from 'react-i18next';
+import type { AnnotationTag } from '../../types';
+import { ANNOTATION_TAGS, MAX_ANNOTATION_NOTE_LENGTH } from '../../utils/data';
+import { useAnnotationStyles } from './styles';
+import type { AnnotationDialogProps } from './types';
+
+/**
+ * Render the dialog to add an annotation.
+ *
+ * @param target - Date and optional time to annotate; the dialog is open while set
+ * @param onSave - Called with the new annotation when the user saves it
+ * @param onClose - Called when the dialog is closed
+ * @returns The annotation dialog
+ */
+export function AnnotationDialog({ target, onSave, onClose }: AnnotationDialogProps) {
+  const styles = useAnnotationStyles();
+  const { t } = useTranslation('reports');
+
+  const [tag, setTag] = useState<AnnotationTag>('sick');
+  const [note, setNote] = useState('');
+
+  // Start with an empty note for every new target
+  useEffect(() => {
+    if (target) {
+      setNote('');
+    }
+  }, [target]);
+
+  const handleSave = () => {
+    if (!target) return;
+    onSave({ ...target, tag, note: note.trim() });
+    onClose();
+  };
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(_, data) => !data.open && onClose()}>
+      <DialogSurface>
+        <DialogBody>
+          <DialogTitle>{t('reports.annotations.dialog.title')}</DialogTitle>
+          <DialogContent className={styles.dialogContent}>
+            {target && (
+              <Text>
+                {target.time
+                  ? t('reports.annotations.dialog.at', { date: target.date, time: target.time })
+                  : t('reports.annotations.dialog.onDay', { date: target.date })}
+              </Text>
+            )}
+            <div className={styles.field}>
+              <Label id="annotation-tag">{t('reports.annotations.dialog.tag')}</Label>
+              <Dropdown
+                aria-labelledby="annotation-tag"
+                value={t(`reports.annotations.tags.${tag}`)}
+                selectedOptions={[tag]}
+                onOptionSelect={(_, data) => data.optionValue && setTag(data.optionValue as AnnotationTag)}
+              >
+                {ANNOTATION_TAGS.map(option => (
+                  <Option key={option} value={option}>{t(`reports.annotations.tags.${option}`)}</Option>
+                ))}
+              </Dropdown>
+            </div>
+            <div className={styles.field}>
+              <Label htmlFor="annotation-note">{t('reports.annotations.dialog.note')}</Label>
+              <Input
+                id="annotation-note"
+                value={note}
+                maxLength={MAX_ANNOTATION_NOTE_LENGTH}
+                onChange={(_, data) => setNote(data.value)}
+              />
+            </div>
+          </DialogContent>
+          <DialogActions>
+            <Button appearance="secondary" onClick={onClose}>
+              {t('reports.annotations.dialog.cancel')}
+            </Button>
+            <Button appearance="primary" onClick={handleSave}>
+              {t('reports.annotations.dialog.save')}
+            </Button>
+          </DialogActions>
+        </DialogBody>
+      </DialogSurface>
+    </Dialog>
+  );
+}
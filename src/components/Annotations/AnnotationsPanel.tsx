@@ -0,0 +1,95 @@
+/**
+ * AnnotationsPanel component
+ * Filters the annotations shown in the reports by tag and lists them
+ */
+
+import {
+  Text,
+  Button,
+  ToggleButton,
+  Tooltip,
+} from '@fluentui/react-components';
+import { DismissRegular } from '@fluentui/react-icons';
+import { useTranslation } from 'react-i18next';
+import type { AnnotationTag } from '../../types';
+import { ANNOTATION_TAGS, filterAnnotationsByTags } from '../../utils/data';
+import { useAnnotationStyles } from './styles';
+import { ANNOTATION_TAG_COLORS, type AnnotationsPanelProps } from './types';
+
+/**
+ * Render tag filter buttons and the annotations with a selected tag.
+ *
+ * @param annotations - All annotations of the selected dataset
+ * @param selectedTags - Tags whose annotations are shown
+ * @param onSelectedTagsChange - Called with the new tag selection when a tag is toggled
+ * @param onRemoveAnnotation - Called with the ID of the annotation the user removes
+ * @returns The annotations panel
+ */
+export function AnnotationsPanel({
+  annotations,
+  selectedTags,
+  onSelectedTagsChange,
+  onRemoveAnnotation,
+}: AnnotationsPanelProps) {
+  const styles = useAnnotationStyles();
+  const { t } = useTranslation('reports');
+
+  const visibleAnnotations = filterAnnotationsByTags(annotations, selectedTags);
+
+  const toggleTag = (tag: AnnotationTag) => {
+    onSelectedTagsChange(
+      selectedTags.includes(tag)
+        ? selectedTags.filter(selected => selected !== tag)
+        : ANNOTATION_TAGS.filter(option => option === tag || selectedTags.includes(option))
+    );
+  };
+
+  return (
+    <div className={styles.panel}>
+      <div className={styles.panelHeader}>
+        <Text className={styles.panelTitle}>{t('reports.annotations.title')}</Text>
+        {ANNOTATION_TAGS.map(tag => (
+          <ToggleButton
+            key={tag}
+            className={styles.tagButton}
+            size="small"
+            checked={selectedTags.includes(tag)}
+            onClick={() => toggleTag(tag)}
+            icon={<span className={styles.tagDot} style={{ backgroundColor: ANNOTATION_TAG_COLORS[tag] }} />}
+          >
+            {t(`reports.annotations.tags.${tag}`)}
+          </ToggleButton>
+        ))}
+      </div>
+
+      {annotations.length === 0 ? (
+        <Text className={styles.hint}>{t('reports.annotations.hint')}</Text>
+      ) : visibleAnnotations.length === 0 ? (
+        <Text className={styles.hint}>{t('reports.annotations.noneForTags')}</Text>
+      ) : (
+        <div className={styles.annotationList}>
+          {visibleAnnotations.map(annotation => (
+            <div key={annotation.id} className={styles.annotationItem}>
+              <span className={styles.tagDot} style={{ backgroundColor: ANNOTATION_TAG_COLORS[annotation.tag] }} />
+              <span>
+                {annotation.date}
+                {annotation.time && ` ${annotation.time}`}
+                {' · '}
+                {t(`reports.annotations.tags.${annotation.tag}`)}
+                {annotation.note && ` – ${annotation.note}`}
+              </span>
+              <Tooltip content={t('reports.annotations.remove')} relationship="label">
+                <Button
+                  appearance="subtle"
+                  size="small"
+                  icon={<DismissRegular />}
+                  onClick={() => onRemoveAnnotation(annotation.id)}
+                />
+              </Tooltip>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+/**
+ * Annotations Module
+ * Exports the annotation dialog, the tag filter panel and shared constants
+ */
+
+export { AnnotationDialog } from './AnnotationDialog';
+export { AnnotationsPanel } from './AnnotationsPanel';
+export { useAnnotationMarkers } from './useAnnotationMarkers';
+export { useAnnotationStyles } from './styles';
+export * from './types';
@@ -0,0 +1,66 @@
+/**
+ * Styles for annotation components
+ */
+
+import { makeStyles, tokens, shorthands } from '@fluentui/react-components';
+
+export const useAnnotationStyles = makeStyles({
+  panel: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap('8px'),
+    ...shorthands.padding('12px', '16px'),
+    marginBottom: '16px',
+    backgroundColor: tokens.colorNeutralBackground2,
+    ...shorthands.borderRadius(tokens.borderRadiusMedium),
+  },
+  panelHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    ...shorthands.gap('8px'),
+  },
+  panelTitle: {
+    fontSize: tokens.fontSizeBase300,
+    fontWeight: tokens.fontWeightSemibold,
+    marginRight: '8px',
+  },
+  hint: {
+    fontSize: tokens.fontSizeBase200,
+    color: tokens.colorNeutralForeground2,
+  },
+  tagButton: {
+    minWidth: 'auto',
+  },
+  tagDot: {
+    display: 'inline-block',
+    width: '8px',
+    height: '8px',
+    ...shorthands.borderRadius('50%'),
+  },
+  annotationList: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    ...shorthands.gap('8px'),
+  },
+  annotationItem: {
+    display: 'flex',
+    alignItems: 'center',
+    ...shorthands.gap('6px'),
+    ...shorthands.padding('2px', '4px', '2px', '8px'),
+    backgroundColor: tokens.colorNeutralBackground1,
+    ...shorthands.border('1px', 'solid', tokens.colorNeutralStroke2),
+    ...shorthands.borderRadius(tokens.borderRadiusMedium),
+    fontSize: tokens.fontSizeBase200,
+  },
+  dialogContent: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap('12px'),
+  },
+  field: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap('4px'),
+  },
+});
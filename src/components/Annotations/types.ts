@@ -0,0 +1,68 @@
+/**
+ * Types and constants for annotation components
+ */
+
+import type { AnnotationTag, DataAnnotation } from '../../types';
+
+/**
+ * Marker color of each annotation tag
+ */
+export const ANNOTATION_TAG_COLORS: Record<AnnotationTag, string> = {
+  sick: '#C62828',
+  pizza: '#EF6C00',
+  siteChange: '#00838F',
+  alcohol: '#6A1B9A',
+  stress: '#AD1457',
+  other: '#546E7A',
+};
+
+/**
+ * Stable empty list for components without annotations
+ */
+export const NO_ANNOTATIONS: DataAnnotation[] = [];
+
+/**
+ * Annotation placed on a chart
+ */
+export interface AnnotationMarker {
+  id: string;
+  /** Date in YYYY-MM-DD format */
+  date: string;
+  /** Hours since midnight, or null for whole-day annotations */
+  timeDecimal: number | null;
+  /** Translated tag, followed by the note when there is one */
+  label: string;
+  color: string;
+}
+
+/**
+ * Point a new annotation is attached to
+ */
+export interface AnnotationTarget {
+  /** Date in YYYY-MM-DD format */
+  date: string;
+  /** Time of day in HH:mm format; omitted for the whole day */
+  time?: string;
+}
+
+/**
+ * Props for the AnnotationDialog component
+ */
+export interface AnnotationDialogProps {
+  /** Point to annotate; the dialog is open while set */
+  target: AnnotationTarget | null;
+  onSave: (annotation: Omit<DataAnnotation, 'id'>) => void;
+  onClose: () => void;
+}
+
+/**
+ * Props for the AnnotationsPanel component
+ */
+export interface AnnotationsPanelProps {
+  /** All annotations of the selected dataset */
+  annotations: DataAnnotation[];
+  /** Tags whose annotations are shown in the reports */
+  selectedTags: AnnotationTag[];
+  onSelectedTagsChange: (tags: AnnotationTag[]) => void;
+  onRemoveAnnotation: (id: string) => void;
+}
@@ -0,0 +1,30 @@
+/**
+ * Hook that turns annotations into labelled chart markers
+ */
+
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { DataAnnotation } from '../../types';
+import { getAnnotationTimeDecimal } from '../../utils/data';
+import { ANNOTATION_TAG_COLORS, type AnnotationMarker } from './types';
+
+/**
+ * Build chart markers for annotations, labelled with the translated tag and the note
+ *
+ * @param annotations - Annotations to mark
+ * @returns Markers in the order of the annotations
+ */
+export function useAnnotationMarkers(annotations: DataAnnotation[]): AnnotationMarker[] {
+  const { t } = useTranslation('reports');
+
+  return useMemo(() => annotations.map(annotation => {
+    const tagLabel = t(`reports.annotations.tags.${annotation.tag}`);
+    return {
+      id: annotation.id,
+      date: annotation.date,
+      timeDecimal: getAnnotationTimeDecimal(annotation),
+      label: annotation.note ? `${tagLabel}: ${annotation.note}` : tagLabel,
+      color: ANNOTATION_TAG_COLORS[annotation.tag],
+    };
+  }), [annotations, t]);
+}
@@ -0,0 +1,124 @@
+/**
+ * Advanced Variability Card Component
+ * Displays MAGE, MODD, CONGA, MAG, GRADE and GRI with the GRI zone grid
+ */
+
+import {
+  Text,
+  Card,
+  Tooltip,
+} from '@fluentui/react-components';
+import { PulseRegular } from '@fluentui/react-icons';
+import { useTranslation } from 'react-i18next';
+import type { GlucoseUnit } from '../../types';
+import { displayGlucoseValue, getUnitLabel, type GRIZone } from '../../utils/data';
+import { formatNumber } from '../../utils/formatting/formatters';
+import { GRIZoneChart } from './GRIZoneChart';
+import { useBGOverviewStyles } from './styles';
+import type { VariabilityStats } from './types';
+
+interface AdvancedVariabilityCardProps {
+  variabilityStats: VariabilityStats;
+  glucoseUnit: GlucoseUnit;
+}
+
+export function AdvancedVariabilityCard({ variabilityStats, glucoseUnit }: AdvancedVariabilityCardProps) {
+  const styles = useBGOverviewStyles();
+  const { t } = useTranslation('reports');
+  const { mage, modd, conga, mag, grade, gri } = variabilityStats;
+
+  // Don't render if no variability data available
+  if (mage === null && modd === null && conga === null && mag === null && grade === null && gri === null) {
+    return null;
+  }
+
+  const unit = getUnitLabel(glucoseUnit);
+
+  const getZoneStyleClass = (zone: GRIZone): string => {
+    switch (zone) {
+      case 'A':
+      case 'B':
+        return styles.riskLow;
+      case 'C':
+        return styles.riskModerate;
+      case 'D':
+      case 'E':
+        return styles.riskHigh;
+    }
+  };
+
+  const amplitudeItems: Array<{ key: 'mage' | 'modd' | 'conga' | 'mag'; value: number | null; unitLabel: string }> = [
+    { key: 'mage', value: mage, unitLabel: unit },
+    { key: 'modd', value: modd, unitLabel: unit },
+    { key: 'conga', value: conga, unitLabel: unit },
+    { key: 'mag', value: mag, unitLabel: t('reports.bgOverview.variability.perHour', { unit }) },
+  ];
+
+  return (
+    <Card className={styles.riskCard}>
+      <Text className={styles.cardTitle}>
+        <PulseRegular className={styles.cardIcon} />
+        {t('reports.bgOverview.variability.title')}
+      </Text>
+
+      <div className={styles.riskGrid}>
+        {amplitudeItems.map(({ key, value, unitLabel }) => value !== null && (
+          <Tooltip key={key} content={t(`reports.bgOverview.variability.${key}Tooltip`)} relationship="description">
+            <div className={styles.riskItem}>
+              <Text className={styles.riskLabel}>{t(`reports.bgOverview.variability.${key}`)}</Text>
+              <Text className={styles.riskValue}>{displayGlucoseValue(value, glucoseUnit)}</Text>
+              <Text className={styles.riskLabel}>{unitLabel}</Text>
+            </div>
+          </Tooltip>
+        ))}
+
+        {grade !== null && (
+          <Tooltip content={t('reports.bgOverview.variability.gradeTooltip')} relationship="description">
+            <div className={styles.riskItem}>
+              <Text className={styles.riskLabel}>{t('reports.bgOverview.variability.grade')}</Text>
+              <Text className={styles.riskValue}>{formatNumber(grade.grade, 1)}</Text>
+              <Text className={styles.riskLabel}>
+                {t('reports.bgOverview.variability.gradeBreakdown', {
+                  hypo: formatNumber(grade.hypoPercent, 0),
+                  eu: formatNumber(grade.euPercent, 0),
+                  hyper: formatNumber(grade.hyperPercent, 0),
+                })}
+              </Text>
+            </div>
+          </Tooltip>
+        )}
+
+        {gri !== null && (
+          <Tooltip content={t('reports.bgOverview.variability.griTooltip')} relationship="description">
+            <div className={styles.riskItem}>
+              <Text className={styles.riskLabel}>{t('reports.bgOverview.variability.gri')}</Text>
+              <Text className={styles.riskValue}>{formatNumber(gri.gri, 1)}</Text>
+              <Text className={`${styles.riskInterpretation} ${getZoneStyleClass(gri.zone)}`}>
+                {t('reports.bgOverview.variability.griZone', { zone: gri.zone })}
+              </Text>
+            </div>
+          </Tooltip>
+        )}
+      </div>
+
+      {gri !== null && (
+        <div className={styles.griChartContainer}>
+          <Text weight="semibold">{t('reports.bgOverview.variability.griChartTitle')}</Text>
+          <GRIZoneChart
+            gri={gri}
+            hypoAxisLabel={t('reports.bgOverview.variability.hypoAxis')}
+            hyperAxisLabel={t('reports.bgOverview.variability.hyperAxis')}
+          />
+          <Text className={styles.griCaption}>
+            {t('reports.bgOverview.variability.griComponents', {
+              hypo: formatNumber(gri.hypoComponent, 1),
+              hyper: formatNumber(gri.hyperComponent, 1),
+            })}
+          </Text>
+        </div>
+      )}
+
+      <div className={styles.riskDescription}>{t('reports.bgOverview.variability.description')}</div>
+    </Card>
+  );
+}
@@ -21,9 +21,13 @@ import type {
   WeeklyReport,
   TimePeriodTIRStats,
   HourlyTIRStats,
+  SleepWindow,
+  TimeOfDaySegment,
+  DataAnnotation,
 } from '../../types';
 import type { ResponseLanguage } from '../../hooks/useResponseLanguage';
-import type { AIProvider } from '../../utils/api';
+import type { AIProvider, CustomProviderSettings } from '../../utils/api';
+import type { DataQualityScope } from '../../features/dataQuality';
 import {
   extractGlucoseReadings,
   groupByWeek,
@@ -44,62 +48,95 @@ import {
   calculateFlux,
   calculateWakeupAverage,
   calculateBedtimeAverage,
+  calculateMAGE,
+  calculateMODD,
+  calculateCONGA,
+  calculateMAG,
+  calculateGRADE,
+  calculateGRI,
+  DEFAULT_SLEEP_WINDOW,
+  getAnnotationsInRange,
 } from '../../utils/data';
 import { calculateAGPStats, filterReadingsByDayOfWeek } from '../../utils/visualization';
-import { getActiveProvider } from '../../utils/api';
+import { getActiveProvider, DEFAULT_CUSTOM_PROVIDER_SETTINGS } from '../../utils/api';
 import { useGlucoseThresholds } from '../../hooks/useGlucoseThresholds';
 import { useDateRange } from '../../hooks/useDateRange';
 import { AGPGraph } from '../AGPGraph';
+import { ClinicianReportButton } from '../../features/export/components';
+import { NO_ANNOTATIONS } from '../Annotations';
 import { useBGOverviewStyles } from './styles';
 import { ControlBar } from './ControlBar';
 import { TimeInRangeCard } from './TimeInRangeCard';
 import { TimeInRangeDetailsCard } from './TimeInRangeDetailsCard';
 import { HbA1cEstimateCard } from './HbA1cEstimateCard';
 import { RiskAssessmentCard } from './RiskAssessmentCard';
+import { AdvancedVariabilityCard } from './AdvancedVariabilityCard';
+import { NocturnalAnalysisCard } from './NocturnalAnalysisCard';
+import { TimeOfDaySegmentsCard } from './TimeOfDaySegmentsCard';
 import { SugarmateStatsCard } from './SugarmateStatsCard';
 import { DetailedBreakdownAccordion } from './DetailedBreakdownAccordion';
-import type { TIRStats, HbA1cStats, RiskStats } from './types';
+import { PeriodComparisonCard } from './PeriodComparisonCard';
+import type { TIRStats, HbA1cStats, RiskStats, VariabilityStats } from './types';
 
 interface BGOverviewReportProps {
   selectedFile?: UploadedFile;
   glucoseUnit: GlucoseUnit;
   showGeekStats: boolean;
+  /** Usual sleep window for the nocturnal analysis */
+  sleepWindow?: SleepWindow;
+  /** Named time-of-day segments for the TIR and AGP breakdown */
+  timeOfDaySegments?: TimeOfDaySegment[];
+  /** User annotations, added to the AI prompt for the selected date range */
+  annotations?: DataAnnotation[];
   // AI configuration props
   perplexityApiKey?: string;
   geminiApiKey?: string;
   grokApiKey?: string;
   deepseekApiKey?: string;
+  /** Base URL, model and optional API key of the custom OpenAI-compatible provider */
+  customProvider?: CustomProviderSettings;
   selectedProvider?: AIProvider | null;
   responseLanguage?: ResponseLanguage;
   // Pro user props for backend AI routing
   isProUser?: boolean;
   idToken?: string | null;
   useProKeys?: boolean;
+  /** Called with the data source and date range shown, for the data quality banner */
+  onDataScopeChange?: (scope: DataQualityScope) => void;
 }
 
+// Stable default so the segment statistics are not recalculated on every render
+const NO_TIME_OF_DAY_SEGMENTS: TimeOfDaySegment[] = [];
+
 export function BGOverviewReport({ 
   selectedFile, 
   glucoseUnit, 
   showGeekStats,
+  sleepWindow = DEFAULT_SLEEP_WINDOW,
+  timeOfDaySegments = NO_TIME_OF_DAY_SEGMENTS,
+  annotations = NO_ANNOTATIONS,
   perplexityApiKey = '',
   geminiApiKey = '',
   grokApiKey = '',
   deepseekApiKey = '',
+  customProvider = DEFAULT_CUSTOM_PROVIDER_SETTINGS,
   selectedProvider = null,
   responseLanguage = 'english',
   isProUser = false,
   idToken = null,
   useProKeys = false,
+  onDataScopeChange,
 }: BGOverviewReportProps) {
   const styles = useBGOverviewStyles();
   const { thresholds } = useGlucoseThresholds();
 
   // Determine which AI provider to use
-  const activeProvider = getActiveProvider(selectedProvider, perplexityApiKey, geminiApiKey, grokApiKey, deepseekApiKey);
+  const activeProvider = getActiveProvider(selectedProvider, perplexityApiKey, geminiApiKey, grokApiKey, deepseekApiKey, customProvider);
   const hasApiKey = activeProvider !== null;
   
   // Get the appropriate API key for the active provider
-  const apiKey = activeProvider === 'perplexity' ? perplexityApiKey : 
+  const apiKey = activeProvider === 'custom' ? customProvider.apiKey :
+                  activeProvider === 'perplexity' ? perplexityApiKey : 
                   activeProvider === 'grok' ? grokApiKey :
                   activeProvider === 'deepseek' ? deepseekApiKey : geminiApiKey;
 
@@ -130,6 +167,11 @@ export function BGOverviewReport({
     clearDateRange
   } = useDateRange(selectedFile?.id);
 
+  // Let the data quality banner assess the data this report shows
+  useEffect(() => {
+    onDataScopeChange?.({ dataSource, startDate, endDate });
+  }, [onDataScopeChange, dataSource, startDate, endDate]);
+
   // Load data when file or filters change
   useEffect(() => {
     if (!selectedFile) {
@@ -337,6 +379,16 @@ export function BGOverviewReport({
     };
   };
 
+  // Calculate advanced variability stats from filtered readings
+  const calculateVariabilityStats = (filteredReadings: GlucoseReading[]): VariabilityStats => ({
+    mage: calculateMAGE(filteredReadings),
+    modd: calculateMODD(filteredReadings),
+    conga: calculateCONGA(filteredReadings),
+    mag: calculateMAG(filteredReadings),
+    grade: calculateGRADE(filteredReadings),
+    gri: calculateGRI(filteredReadings),
+  });
+
   // Calculate Sugarmate-style stats from filtered readings and TIR stats
   const calculateSugarmateStats = (filteredReadings: GlucoseReading[], tirStats: TIRStats) => {
     if (filteredReadings.length === 0 || tirStats.total === 0) {
@@ -361,6 +413,7 @@ export function BGOverviewReport({
   const tirStats = calculateTIRStats(filteredReadings);
   const hba1cStats = calculateHbA1cStats(filteredReadings);
   const riskStats = calculateRiskStats(filteredReadings);
+  const variabilityStats = calculateVariabilityStats(filteredReadings);
   const sugarmateStats = calculateSugarmateStats(filteredReadings, tirStats);
 
   if (!selectedFile) {
@@ -393,6 +446,16 @@ export function BGOverviewReport({
         />
       </div>
 
+      {/* Clinician PDF export for the selected period */}
+      {!loading && !error && filteredReadings.length > 0 && (
+        <ClinicianReportButton
+          selectedFile={selectedFile}
+          readings={filteredReadings}
+          thresholds={thresholds}
+          glucoseUnit={glucoseUnit}
+        />
+      )}
+
       {/* Loading/Error states */}
       {loading && <Text className={styles.loading}>Loading glucose data...</Text>}
       {error && <Text className={styles.error}>{error}</Text>}
@@ -409,7 +472,9 @@ export function BGOverviewReport({
           hasApiKey={hasApiKey}
           activeProvider={activeProvider}
           apiKey={apiKey}
+          customProvider={customProvider}
           responseLanguage={responseLanguage}
+          annotations={getAnnotationsInRange(annotations, startDate, endDate)}
           isProUser={isProUser}
           idToken={idToken}
           useProKeys={useProKeys}
@@ -427,6 +492,17 @@ export function BGOverviewReport({
         />
       )}
 
+      {/* Time of Day Segments Card */}
+      {!loading && !error && tirStats.total > 0 && (
+        <TimeOfDaySegmentsCard
+          readings={filteredReadings}
+          segments={timeOfDaySegments}
+          thresholds={thresholds}
+          categoryMode={categoryMode}
+          glucoseUnit={glucoseUnit}
+        />
+      )}
+
       {/* HbA1c Estimate Card */}
       {!loading && !error && (
         <HbA1cEstimateCard hba1cStats={hba1cStats} glucoseUnit={glucoseUnit} />
@@ -437,6 +513,21 @@ export function BGOverviewReport({
         <RiskAssessmentCard riskStats={riskStats} />
       )}
 
+      {/* Advanced Variability Card */}
+      {!loading && !error && (
+        <AdvancedVariabilityCard variabilityStats={variabilityStats} glucoseUnit={glucoseUnit} />
+      )}
+
+      {/* Nocturnal Analysis Card (needs continuous CGM coverage) */}
+      {!loading && !error && dataSource === 'cgm' && (
+        <NocturnalAnalysisCard
+          readings={filteredReadings}
+          sleepWindow={sleepWindow}
+          thresholds={thresholds}
+          glucoseUnit={glucoseUnit}
+        />
+      )}
+
       {/* Sugarmate Stats Card */}
       {!loading && !error && sugarmateStats && (
         <SugarmateStatsCard
@@ -464,6 +555,20 @@ export function BGOverviewReport({
         </Card>
       )}
 
+      {/* Period Comparison Card */}
+      {!loading && !error && filteredReadings.length > 0 && minDate && maxDate && startDate && endDate && (
+        <PeriodComparisonCard
+          readings={readings}
+          startDate={startDate}
+          endDate={endDate}
+          minDate={minDate}
+          maxDate={maxDate}
+          dayFilter={dayFilter}
+          thresholds={thresholds}
+          glucoseUnit={glucoseUnit}
+        />
+      )}
+
       {/* Detailed Breakdown Accordion */}
       {!loading && !error && tirStats.total > 0 && showGeekStats && (
         <DetailedBreakdownAccordion
@@ -0,0 +1,106 @@
+/**
+ * GRI Zone Chart Component
+ * Plots the GRI hypo and hyper components on the standard GRI zone grid
+ */
+
+import { tokens } from '@fluentui/react-components';
+import { GRI_ZONE_LIMITS, type GRIResult } from '../../utils/data';
+import { formatNumber } from '../../utils/formatting/formatters';
+
+interface GRIZoneChartProps {
+  gri: GRIResult;
+  hypoAxisLabel: string;
+  hyperAxisLabel: string;
+}
+
+/** Axis ranges of the standard GRI grid (%) */
+const HYPO_AXIS_MAX = 30;
+const HYPO_AXIS_TICKS = [0, 10, 20, 30];
+const HYPER_AXIS_MAX = 60;
+const HYPER_AXIS_TICKS = [0, 20, 40, 60];
+
+/** Zone colours from lowest (A) to highest (E) risk */
+const GRI_ZONE_COLORS = ['#C8E6C9', '#F0F4C3', '#FFF9C4', '#FFE0B2', '#FFCDD2'];
+const GRI_ZONE_NAMES = ['A', 'B', 'C', 'D', 'E'];
+
+const WIDTH = 340;
+const HEIGHT = 260;
+const PADDING = { top: 10, right: 10, bottom: 40, left: 46 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+const toX = (hypo: number) => PADDING.left + (Math.min(hypo, HYPO_AXIS_MAX) / HYPO_AXIS_MAX) * PLOT_WIDTH;
+const toY = (hyper: number) => PADDING.top + PLOT_HEIGHT - (Math.min(hyper, HYPER_AXIS_MAX) / HYPER_AXIS_MAX) * PLOT_HEIGHT;
+
+export function GRIZoneChart({ gri, hypoAxisLabel, hyperAxisLabel }: GRIZoneChartProps) {
+  // Zones are bounded by the lines 3.0 × hypo + 1.6 × hyper = limit; within the
+  // plotted axes each zone below E is the triangle under its limit line
+  const zoneTriangles = [...GRI_ZONE_LIMITS].reverse().map(limit => (
+    `${toX(0)},${toY(0)} ${toX(limit / 3)},${toY(0)} ${toX(0)},${toY(limit / 1.6)}`
+  ));
+  const labelColor = tokens.colorNeutralForeground2;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} width="100%" style={{ maxWidth: `${WIDTH * 1.5}px` }} role="img">
+      <rect x={PADDING.left} y={PADDING.top} width={PLOT_WIDTH} height={PLOT_HEIGHT} fill={GRI_ZONE_COLORS[4]} />
+      {zoneTriangles.map((points, index) => (
+        <polygon key={points} points={points} fill={GRI_ZONE_COLORS[3 - index]} />
+      ))}
+
+      {/* Zone letters along the diagonal, placed mid-band */}
+      {GRI_ZONE_NAMES.map((zone, index) => {
+        const lower = index === 0 ? 0 : GRI_ZONE_LIMITS[index - 1];
+        const upper = GRI_ZONE_LIMITS[index] ?? 100;
+        const middle = (lower + upper) / 2;
+        return (
+          <text
+            key={zone}
+            x={toX(middle / 3 / 2)}
+            y={toY(middle / 1.6 / 2) + 4}
+            fontSize="12"
+            fontWeight="600"
+            textAnchor="middle"
+            fill={labelColor}
+          >
+            {zone}
+          </text>
+        );
+      })}
+
+      {HYPO_AXIS_TICKS.map(tick => (
+        <text key={`x${tick}`} x={toX(tick)} y={PADDING.top + PLOT_HEIGHT + 14} fontSize="10" textAnchor="middle" fill={labelColor}>
+          {tick}
+        </text>
+      ))}
+      {HYPER_AXIS_TICKS.map(tick => (
+        <text key={`y${tick}`} x={PADDING.left - 6} y={toY(tick) + 3} fontSize="10" textAnchor="end" fill={labelColor}>
+          {tick}
+        </text>
+      ))}
+      <text x={PADDING.left + PLOT_WIDTH / 2} y={HEIGHT - 6} fontSize="11" textAnchor="middle" fill={labelColor}>
+        {hypoAxisLabel}
+      </text>
+      <text
+        x={12}
+        y={PADDING.top + PLOT_HEIGHT / 2}
+        fontSize="11"
+        textAnchor="middle"
+        fill={labelColor}
+        transform={`rotate(-90 12 ${PADDING.top + PLOT_HEIGHT / 2})`}
+      >
+        {hyperAxisLabel}
+      </text>
+
+      <circle
+        cx={toX(gri.hypoComponent)}
+        cy={toY(gri.hyperComponent)}
+        r="6"
+        fill={tokens.colorBrandBackground}
+        stroke={tokens.colorNeutralBackground1}
+        strokeWidth="2"
+      >
+        <title>{`GRI ${formatNumber(gri.gri, 1)} (${gri.zone})`}</title>
+      </circle>
+    </svg>
+  );
+}
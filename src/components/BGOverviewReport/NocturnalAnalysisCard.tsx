@@ -0,0 +1,115 @@
+/**
+ * Nocturnal Analysis Card Component
+ * Displays night classifications, dawn rise and typical nadir time for the usual sleep window
+ */
+
+import {
+  Text,
+  Card,
+  Tooltip,
+} from '@fluentui/react-components';
+import { WeatherMoonRegular } from '@fluentui/react-icons';
+import { useTranslation } from 'react-i18next';
+import type { GlucoseUnit, GlucoseReading, GlucoseThresholds, SleepWindow } from '../../types';
+import {
+  analyzeNights,
+  summarizeNights,
+  displayGlucoseValue,
+  getUnitLabel,
+  NIGHT_CLASSIFICATIONS,
+  DAWN_RISE_THRESHOLD,
+} from '../../utils/data';
+import { formatNumber } from '../../utils/formatting/formatters';
+import { useBGOverviewStyles } from './styles';
+
+interface NocturnalAnalysisCardProps {
+  readings: GlucoseReading[];
+  sleepWindow: SleepWindow;
+  thresholds: GlucoseThresholds;
+  glucoseUnit: GlucoseUnit;
+}
+
+/**
+ * Format minutes after midnight as HH:MM
+ */
+function formatMinutesOfDay(minutes: number): string {
+  const rounded = Math.round(minutes) % (24 * 60);
+  return `${String(Math.floor(rounded / 60)).padStart(2, '0')}:${String(rounded % 60).padStart(2, '0')}`;
+}
+
+export function NocturnalAnalysisCard({ readings, sleepWindow, thresholds, glucoseUnit }: NocturnalAnalysisCardProps) {
+  const styles = useBGOverviewStyles();
+  const { t } = useTranslation('reports');
+
+  const nights = analyzeNights(readings, sleepWindow, { lowThreshold: thresholds.low, highThreshold: thresholds.high });
+  const summary = summarizeNights(nights);
+
+  // Don't render without any complete night
+  if (summary.nightCount === 0) {
+    return null;
+  }
+
+  const unit = getUnitLabel(glucoseUnit);
+  const window = `${formatMinutesOfDay(sleepWindow.startHour * 60)}–${formatMinutesOfDay(sleepWindow.endHour * 60)}`;
+
+  return (
+    <Card className={styles.riskCard}>
+      <Text className={styles.cardTitle}>
+        <WeatherMoonRegular className={styles.cardIcon} />
+        {t('reports.bgOverview.nocturnal.title', { window })}
+      </Text>
+
+      <div className={styles.riskGrid}>
+        {NIGHT_CLASSIFICATIONS.map(classification => (
+          <Tooltip key={classification} content={t(`reports.bgOverview.nocturnal.${classification}Tooltip`)} relationship="description">
+            <div className={styles.riskItem}>
+              <Text className={styles.riskLabel}>{t(`reports.bgOverview.nocturnal.${classification}`)}</Text>
+              <Text className={styles.riskValue}>{summary.classificationCounts[classification]}</Text>
+              <Text className={styles.riskLabel}>
+                {t('reports.bgOverview.nocturnal.ofNights', { nights: summary.nightCount })}
+              </Text>
+            </div>
+          </Tooltip>
+        ))}
+
+        {summary.meanDawnSlope !== null && (
+          <Tooltip
+            content={t('reports.bgOverview.nocturnal.dawnRiseTooltip', {
+              threshold: displayGlucoseValue(DAWN_RISE_THRESHOLD, glucoseUnit),
+              unit,
+            })}
+            relationship="description"
+          >
+            <div className={styles.riskItem}>
+              <Text className={styles.riskLabel}>{t('reports.bgOverview.nocturnal.dawnRise')}</Text>
+              <Text className={styles.riskValue}>{displayGlucoseValue(summary.meanDawnSlope, glucoseUnit)}</Text>
+              <Text className={styles.riskLabel}>
+                {t('reports.bgOverview.nocturnal.dawnRiseNights', {
+                  unit,
+                  rising: summary.dawnRiseNightCount,
+                  nights: summary.dawnNightCount,
+                })}
+              </Text>
+            </div>
+          </Tooltip>
+        )}
+
+        {summary.medianNadirMinutes !== null && (
+          <Tooltip content={t('reports.bgOverview.nocturnal.nadirTooltip')} relationship="description">
+            <div className={styles.riskItem}>
+              <Text className={styles.riskLabel}>{t('reports.bgOverview.nocturnal.nadirTime')}</Text>
+              <Text className={styles.riskValue}>{formatMinutesOfDay(summary.medianNadirMinutes)}</Text>
+              <Text className={styles.riskLabel}>
+                {t('reports.bgOverview.nocturnal.lowNights', {
+                  percent: formatNumber((nights.filter(night => night.hadLow).length / summary.nightCount) * 100, 0),
+                })}
+              </Text>
+            </div>
+          </Tooltip>
+        )}
+      </div>
+
+      <div className={styles.riskDescription}>{t('reports.bgOverview.nocturnal.description')}</div>
+    </Card>
+  );
+}
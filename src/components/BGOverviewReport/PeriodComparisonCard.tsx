@@ -0,0 +1,240 @@
+/**
+ * Period Comparison Card Component
+ * Compares the selected date range with a second range, e.g. before and after a pump settings change
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  Text,
+  Card,
+  Switch,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHeaderCell,
+  TableBody,
+  TableCell,
+} from '@fluentui/react-components';
+import { ArrowSwapRegular } from '@fluentui/react-icons';
+import { useTranslation } from 'react-i18next';
+import type {
+  AGPDayOfWeekFilter,
+  GlucoseReading,
+  GlucoseThresholds,
+  GlucoseUnit,
+} from '../../types';
+import {
+  comparePeriods,
+  formatDate,
+  type ComparisonSignificance,
+  type MetricComparison,
+  type PeriodMetrics,
+} from '../../utils/data';
+import { filterReadingsByDayOfWeek } from '../../utils/visualization';
+import { formatNumber } from '../../utils/formatting/formatters';
+import { AGPGraph } from '../AGPGraph';
+import { DateRangePicker } from '../shared/DateRangePicker';
+import { useBGOverviewStyles } from './styles';
+
+interface PeriodComparisonCardProps {
+  /** All readings of the selected data source */
+  readings: GlucoseReading[];
+  /** Selected date range (period B) in YYYY-MM-DD format */
+  startDate: string;
+  endDate: string;
+  /** Available data range in YYYY-MM-DD format */
+  minDate: string;
+  maxDate: string;
+  dayFilter: AGPDayOfWeekFilter;
+  thresholds: GlucoseThresholds;
+  glucoseUnit: GlucoseUnit;
+}
+
+/** Metrics shown as percentages */
+const PERCENTAGE_METRICS = new Set(['timeInRange', 'timeBelowRange', 'timeAboveRange', 'gmi', 'cv']);
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00`);
+  shifted.setDate(shifted.getDate() + days);
+  return formatDate(shifted);
+}
+
+/**
+ * Default period A: the range of the same length right before the selected range, clamped to the available data
+ */
+function getDefaultPeriodA(startDate: string, endDate: string, minDate: string): [string, string] {
+  const lengthDays = Math.round(
+    (new Date(`${endDate}T00:00:00`).getTime() - new Date(`${startDate}T00:00:00`).getTime()) / 86400000
+  );
+  const end = shiftDate(startDate, -1) < minDate ? minDate : shiftDate(startDate, -1);
+  const start = shiftDate(end, -lengthDays) < minDate ? minDate : shiftDate(end, -lengthDays);
+  return [start, end];
+}
+
+/**
+ * Keep readings between two YYYY-MM-DD dates (inclusive)
+ */
+function filterReadingsByDateRange(readings: GlucoseReading[], startDate: string, endDate: string): GlucoseReading[] {
+  const start = new Date(`${startDate}T00:00:00`).getTime();
+  const end = new Date(`${endDate}T23:59:59.999`).getTime();
+  return readings.filter(r => r.timestamp.getTime() >= start && r.timestamp.getTime() <= end);
+}
+
+export function PeriodComparisonCard({
+  readings,
+  startDate,
+  endDate,
+  minDate,
+  maxDate,
+  dayFilter,
+  thresholds,
+  glucoseUnit,
+}: PeriodComparisonCardProps) {
+  const styles = useBGOverviewStyles();
+  const { t } = useTranslation('reports');
+  const [enabled, setEnabled] = useState(false);
+  const [periodA, setPeriodA] = useState<[string, string] | null>(null);
+
+  // Fall back to the default range until the user picks one, or when the data range no longer contains it
+  const [startA, endA] = periodA && periodA[0] >= minDate && periodA[1] <= maxDate
+    ? periodA
+    : getDefaultPeriodA(startDate, endDate, minDate);
+
+  const comparison = useMemo(() => {
+    if (!enabled) return null;
+    return comparePeriods(
+      filterReadingsByDayOfWeek(filterReadingsByDateRange(readings, startA, endA), dayFilter),
+      filterReadingsByDayOfWeek(filterReadingsByDateRange(readings, startDate, endDate), dayFilter),
+      thresholds
+    );
+  }, [enabled, readings, startA, endA, startDate, endDate, dayFilter, thresholds]);
+
+  const formatValue = (metric: MetricComparison, value: number | null): string => {
+    if (value === null) return '-';
+    return PERCENTAGE_METRICS.has(metric.key) ? `${formatNumber(value, 1)}%` : formatNumber(value, 1);
+  };
+
+  const formatDelta = (metric: MetricComparison): string => {
+    if (metric.delta === null) return '-';
+    const sign = metric.delta > 0 ? '+' : '';
+    return `${sign}${formatNumber(metric.delta, 1)}${PERCENTAGE_METRICS.has(metric.key) ? ` ${t('reports.bgOverview.comparison.percentagePoints')}` : ''}`;
+  };
+
+  // Only colour deltas that are unlikely to be noise
+  const getDeltaClass = (metric: MetricComparison): string | undefined => {
+    if (metric.delta === null || metric.delta === 0 || metric.significance !== 'significant') return undefined;
+    return (metric.delta > 0) === metric.higherIsBetter ? styles.deltaImproved : styles.deltaWorsened;
+  };
+
+  const getSignificanceClass = (significance: ComparisonSignificance): string => {
+    switch (significance) {
+      case 'significant': return styles.riskLow;
+      case 'notSignificant': return styles.riskModerate;
+      case 'insufficientData': return '';
+    }
+  };
+
+  const renderPeriodSummary = (label: string, start: string, end: string, metrics: PeriodMetrics) => (
+    <Text className={styles.comparisonPeriodSummary}>
+      {label}: {start} – {end} ·{' '}
+      {t('reports.bgOverview.comparison.summary', {
+        days: metrics.daysWithData,
+        readings: metrics.readingCount,
+        hypos: metrics.hypoCount,
+        severe: metrics.severeHypoCount,
+      })}
+    </Text>
+  );
+
+  return (
+    <Card className={styles.comparisonCard}>
+      <Text className={styles.cardTitle}>
+        <ArrowSwapRegular className={styles.cardIcon} />
+        {t('reports.bgOverview.comparison.title')}
+      </Text>
+      <Switch
+        checked={enabled}
+        onChange={(_, data) => setEnabled(data.checked)}
+        label={t('reports.bgOverview.comparison.enable')}
+      />
+
+      {enabled && comparison && (
+        <>
+          <Text className={styles.chartDescription}>{t('reports.bgOverview.comparison.description')}</Text>
+
+          <div className={styles.comparisonPeriods}>
+            <div className={styles.comparisonPeriod}>
+              <Text weight="semibold">{t('reports.bgOverview.comparison.periodA')}</Text>
+              <DateRangePicker
+                startDate={startA}
+                endDate={endA}
+                minDate={minDate}
+                maxDate={maxDate}
+                onStartDateChange={date => setPeriodA([date, endA])}
+                onEndDateChange={date => setPeriodA(prev => [prev?.[0] ?? startA, date])}
+              />
+            </div>
+            <div className={styles.comparisonPeriod}>
+              <Text weight="semibold">{t('reports.bgOverview.comparison.periodB')}</Text>
+              <Text className={styles.comparisonPeriodSummary}>
+                {t('reports.bgOverview.comparison.periodBHint')}
+              </Text>
+            </div>
+          </div>
+
+          {renderPeriodSummary(t('reports.bgOverview.comparison.periodA'), startA, endA, comparison.periodA)}
+          {renderPeriodSummary(t('reports.bgOverview.comparison.periodB'), startDate, endDate, comparison.periodB)}
+
+          {comparison.periodA.readingCount === 0 ? (
+            <Text className={styles.noData}>{t('reports.bgOverview.comparison.noDataA')}</Text>
+          ) : (
+            <>
+              <Table size="small" aria-label={t('reports.bgOverview.comparison.title')}>
+                <TableHeader>
+                  <TableRow>
+                    <TableHeaderCell>{t('reports.bgOverview.comparison.metric')}</TableHeaderCell>
+                    <TableHeaderCell>{t('reports.bgOverview.comparison.periodA')}</TableHeaderCell>
+                    <TableHeaderCell>{t('reports.bgOverview.comparison.periodB')}</TableHeaderCell>
+                    <TableHeaderCell>{t('reports.bgOverview.comparison.delta')}</TableHeaderCell>
+                    <TableHeaderCell>{t('reports.bgOverview.comparison.significance')}</TableHeaderCell>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {comparison.metrics.map(metric => (
+                    <TableRow key={metric.key}>
+                      <TableCell>{t(`reports.bgOverview.comparison.metrics.${metric.key}`)}</TableCell>
+                      <TableCell>{formatValue(metric, metric.valueA)}</TableCell>
+                      <TableCell>{formatValue(metric, metric.valueB)}</TableCell>
+                      <TableCell className={getDeltaClass(metric)}>{formatDelta(metric)}</TableCell>
+                      <TableCell>
+                        <Text className={`${styles.riskInterpretation} ${getSignificanceClass(metric.significance)}`}>
+                          {t(`reports.bgOverview.comparison.significanceLevels.${metric.significance}`)}
+                        </Text>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className={styles.riskDescription}>{t('reports.bgOverview.comparison.significanceNote')}</div>
+
+              <div className={styles.comparisonAgpGrid}>
+                <div>
+                  <Text weight="semibold">{t('reports.bgOverview.comparison.agpTitle', { period: t('reports.bgOverview.comparison.periodA') })}</Text>
+                  <AGPGraph data={comparison.agpA} glucoseUnit={glucoseUnit} />
+                </div>
+                <div>
+                  <Text weight="semibold">{t('reports.bgOverview.comparison.agpTitle', { period: t('reports.bgOverview.comparison.periodB') })}</Text>
+                  <AGPGraph data={comparison.agpB} glucoseUnit={glucoseUnit} />
+                </div>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
@@ -23,9 +23,9 @@ import {
   ErrorCircleRegular,
 } from '@fluentui/react-icons';
 import { useTranslation } from 'react-i18next';
-import type { RangeCategoryMode, GlucoseUnit, GlucoseThresholds, AGPDayOfWeekFilter } from '../../types';
+import type { RangeCategoryMode, GlucoseUnit, GlucoseThresholds, AGPDayOfWeekFilter, DataAnnotation } from '../../types';
 import type { ResponseLanguage } from '../../hooks/useResponseLanguage';
-import type { AIProvider } from '../../utils/api';
+import type { AIProvider, CustomProviderSettings } from '../../utils/api';
 import { calculatePercentage, convertPercentageToTime, GLUCOSE_RANGE_COLORS } from '../../utils/data';
 import { callAIWithRouting } from '../../utils/api';
 import { generateBGOverviewTIRPrompt } from '../../features/aiAnalysis/prompts';
@@ -48,7 +48,11 @@ interface TimeInRangeCardProps {
   hasApiKey: boolean;
   activeProvider: AIProvider | null;
   apiKey: string;
+  /** Base URL, model and optional API key of the custom OpenAI-compatible provider */
+  customProvider?: CustomProviderSettings;
   responseLanguage: ResponseLanguage;
+  /** User annotations added to the prompt */
+  annotations?: DataAnnotation[];
   // Pro user props for backend AI routing
   isProUser?: boolean;
   idToken?: string | null;
@@ -77,7 +81,9 @@ export function TimeInRangeCard({
   hasApiKey,
   activeProvider,
   apiKey,
+  customProvider,
   responseLanguage,
+  annotations,
   isProUser = false,
   idToken = null,
   useProKeys = false,
@@ -145,12 +151,14 @@ export function TimeInRangeCard({
         responseLanguage,
         glucoseUnit,
         promptProvider,
-        dayFilter
+        dayFilter,
+        annotations
       );
 
       // Call the AI API with routing - handles Pro backend or client-side API
       const result = await callAIWithRouting(activeProvider, prompt, {
         apiKey,
+        customProvider,
         idToken: idToken ?? undefined,
         isProUser,
         useProKeys,
@@ -396,7 +404,8 @@ export function TimeInRangeCard({
                     responseLanguage,
                     glucoseUnit,
                     promptProvider,
-                    dayFilter
+                    dayFilter,
+                    annotations
                   )}
                 </pre>
               </div>
@@ -0,0 +1,116 @@
+/**
+ * Time of Day Segments Card Component
+ * Displays TIR, mean, CV, hypo counts and AGP bands for the user's named time-of-day segments
+ */
+
+import { useMemo } from 'react';
+import {
+  Text,
+  Card,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHeaderCell,
+  TableBody,
+  TableCell,
+} from '@fluentui/react-components';
+import { ClockRegular } from '@fluentui/react-icons';
+import { useTranslation } from 'react-i18next';
+import type {
+  GlucoseReading,
+  GlucoseThresholds,
+  GlucoseUnit,
+  RangeCategoryMode,
+  TimeOfDaySegment,
+} from '../../types';
+import {
+  calculateTimeOfDaySegmentStats,
+  calculatePercentage,
+  displayGlucoseValue,
+  getUnitLabel,
+} from '../../utils/data';
+import { formatNumber } from '../../utils/formatting/formatters';
+import { useBGOverviewStyles } from './styles';
+
+interface TimeOfDaySegmentsCardProps {
+  /** Readings filtered by date range and day of week */
+  readings: GlucoseReading[];
+  segments: TimeOfDaySegment[];
+  thresholds: GlucoseThresholds;
+  categoryMode: RangeCategoryMode;
+  glucoseUnit: GlucoseUnit;
+}
+
+export function TimeOfDaySegmentsCard({ readings, segments, thresholds, categoryMode, glucoseUnit }: TimeOfDaySegmentsCardProps) {
+  const styles = useBGOverviewStyles();
+  const { t } = useTranslation('reports');
+
+  const segmentStats = useMemo(
+    () => calculateTimeOfDaySegmentStats(readings, segments, thresholds, categoryMode),
+    [readings, segments, thresholds, categoryMode]
+  );
+
+  // Don't render until the user has defined segments
+  if (segments.length === 0) {
+    return null;
+  }
+
+  const unit = getUnitLabel(glucoseUnit);
+  const formatGlucose = (value: number) => displayGlucoseValue(value, glucoseUnit);
+
+  return (
+    <Card className={styles.riskCard}>
+      <Text className={styles.cardTitle}>
+        <ClockRegular className={styles.cardIcon} />
+        {t('reports.bgOverview.segments.title')}
+      </Text>
+
+      <Table size="small" aria-label={t('reports.bgOverview.segments.title')}>
+        <TableHeader>
+          <TableRow>
+            <TableHeaderCell>{t('reports.bgOverview.segments.segment')}</TableHeaderCell>
+            <TableHeaderCell>{t('reports.bgOverview.segments.below')}</TableHeaderCell>
+            <TableHeaderCell>{t('reports.bgOverview.segments.inRange')}</TableHeaderCell>
+            <TableHeaderCell>{t('reports.bgOverview.segments.above')}</TableHeaderCell>
+            <TableHeaderCell>{t('reports.bgOverview.segments.mean', { unit })}</TableHeaderCell>
+            <TableHeaderCell>{t('reports.bgOverview.segments.cv')}</TableHeaderCell>
+            <TableHeaderCell>{t('reports.bgOverview.segments.hypos')}</TableHeaderCell>
+            <TableHeaderCell>{t('reports.bgOverview.segments.median', { unit })}</TableHeaderCell>
+            <TableHeaderCell>{t('reports.bgOverview.segments.iqr', { unit })}</TableHeaderCell>
+            <TableHeaderCell>{t('reports.bgOverview.segments.range', { unit })}</TableHeaderCell>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {segmentStats.map(({ segment, label, stats, mean, cv, hypoCount, severeHypoCount, agp }, index) => (
+            <TableRow key={index}>
+              <TableCell>
+                <Text weight="semibold">{segment.name}</Text> <Text className={styles.comparisonPeriodSummary}>{label}</Text>
+              </TableCell>
+              {stats.total === 0 || !agp || mean === null ? (
+                <TableCell colSpan={9}>{t('reports.bgOverview.segments.noData')}</TableCell>
+              ) : (
+                <>
+                  <TableCell>{formatNumber(calculatePercentage(stats.low + (stats.veryLow ?? 0), stats.total), 1)}%</TableCell>
+                  <TableCell>{formatNumber(calculatePercentage(stats.inRange, stats.total), 1)}%</TableCell>
+                  <TableCell>{formatNumber(calculatePercentage(stats.high + (stats.veryHigh ?? 0), stats.total), 1)}%</TableCell>
+                  <TableCell>{formatGlucose(mean)}</TableCell>
+                  <TableCell>{cv !== null ? `${formatNumber(cv, 1)}%` : '–'}</TableCell>
+                  <TableCell>
+                    {severeHypoCount > 0
+                      ? t('reports.bgOverview.segments.hyposWithSevere', { hypos: hypoCount, severe: severeHypoCount })
+                      : hypoCount}
+                  </TableCell>
+                  <TableCell>{formatGlucose(agp.p50)}</TableCell>
+                  <TableCell>{formatGlucose(agp.p25)}–{formatGlucose(agp.p75)}</TableCell>
+                  <TableCell>{formatGlucose(agp.p10)}–{formatGlucose(agp.p90)}</TableCell>
+                </>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className={styles.riskDescription}>{t('reports.bgOverview.segments.description')}</div>
+    </Card>
+  );
+}
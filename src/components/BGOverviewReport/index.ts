@@ -8,10 +8,14 @@ export { TimeInRangeCard } from './TimeInRangeCard';
 export { TimeInRangeDetailsCard } from './TimeInRangeDetailsCard';
 export { HbA1cEstimateCard } from './HbA1cEstimateCard';
 export { RiskAssessmentCard } from './RiskAssessmentCard';
+export { AdvancedVariabilityCard } from './AdvancedVariabilityCard';
+export { NocturnalAnalysisCard } from './NocturnalAnalysisCard';
+export { TimeOfDaySegmentsCard } from './TimeOfDaySegmentsCard';
 export { SugarmateStatsCard } from './SugarmateStatsCard';
 export { ControlBar } from './ControlBar';
 export { TimeInRangeByPeriodSection } from './TimeInRangeByPeriodSection';
 export { TimeInRangeByTimeOfDaySection } from './TimeInRangeByTimeOfDaySection';
 export { DetailedBreakdownAccordion } from './DetailedBreakdownAccordion';
+export { PeriodComparisonCard } from './PeriodComparisonCard';
 export { useBGOverviewStyles } from './styles';
 export * from './types';
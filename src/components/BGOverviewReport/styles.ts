@@ -445,6 +445,16 @@ export const useBGOverviewStyles = makeStyles({
     fontSize: tokens.fontSizeBase200,
     color: tokens.colorNeutralForeground2,
   },
+  griChartContainer: {
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    ...shorthands.gap('8px'),
+  },
+  griCaption: {
+    fontSize: tokens.fontSizeBase200,
+    color: tokens.colorNeutralForeground2,
+  },
   baseCard: {
     ...cardBaseStyle,
   },
@@ -454,6 +464,42 @@ export const useBGOverviewStyles = makeStyles({
   agpCard: {
     ...cardBaseStyle,
   },
+  comparisonCard: {
+    ...cardBaseStyle,
+  },
+  comparisonPeriods: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fit, minmax(280px, 1fr))',
+    ...shorthands.gap('16px'),
+  },
+  comparisonPeriod: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap('8px'),
+    ...shorthands.padding('12px'),
+    ...shorthands.borderRadius(tokens.borderRadiusMedium),
+    backgroundColor: tokens.colorNeutralBackground3,
+  },
+  comparisonPeriodSummary: {
+    fontSize: tokens.fontSizeBase200,
+    color: tokens.colorNeutralForeground2,
+  },
+  comparisonAgpGrid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fit, minmax(360px, 1fr))',
+    ...shorthands.gap('16px'),
+    '@media (max-width: 767px)': {
+      gridTemplateColumns: '1fr',
+    },
+  },
+  deltaImproved: {
+    color: tokens.colorStatusSuccessForeground1,
+    fontWeight: tokens.fontWeightSemibold,
+  },
+  deltaWorsened: {
+    color: tokens.colorStatusDangerForeground1,
+    fontWeight: tokens.fontWeightSemibold,
+  },
   accordion: {
     ...shorthands.borderRadius(tokens.borderRadiusMedium),
     ...shorthands.border('1px', 'solid', tokens.colorNeutralStroke1),
@@ -11,6 +11,8 @@ import type {
   QuartileStats,
   HighLowIncidents,
   FluxResult,
+  GRADEResult,
+  GRIResult,
 } from '../../utils/data/glucoseRangeUtils';
 
 /** Statistics for TIR (Time in Range) data */
@@ -39,6 +41,17 @@ export interface RiskStats {
   jIndex: number | null;
 }
 
+/** Advanced variability statistics (amplitudes in mmol/L) */
+export interface VariabilityStats {
+  mage: number | null;
+  modd: number | null;
+  conga: number | null;
+  /** Mean absolute glucose change in mmol/L per hour */
+  mag: number | null;
+  grade: GRADEResult | null;
+  gri: GRIResult | null;
+}
+
 /** Risk thresholds for LBGI, HBGI, and J-Index */
 export const LBGI_THRESHOLDS = { low: 2.5, moderate: 5 };
 export const HBGI_THRESHOLDS = { low: 4.5, moderate: 9 };
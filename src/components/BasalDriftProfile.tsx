@@ -0,0 +1,347 @@
+/**
+ * BasalDriftProfile component
+ * Displays the 24-hour glucose drift during fasting windows with confidence bands
+ * and an assessment of each basal segment
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  makeStyles,
+  Text,
+  tokens,
+  shorthands,
+  Switch,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHeaderCell,
+  TableBody,
+  TableCell,
+} from '@fluentui/react-components';
+import {
+  ComposedChart,
+  Line,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import type { CarbEntry, GlucoseReading, GlucoseUnit, InsulinReading } from '../types';
+import {
+  findFastingWindows,
+  calculateHourlyDriftProfile,
+  estimateBasalSegments,
+  assessBasalSegments,
+  convertGlucoseValue,
+  displayGlucoseValue,
+  formatDate,
+  BASAL_DRIFT_TOLERANCE,
+  DEFAULT_FASTING_WASHOUT_HOURS,
+  type BasalSegmentStatus,
+} from '../utils/data';
+import { formatInsulinDose } from '../utils/formatting/formatters';
+
+const DRIFT_COLORS = {
+  mean: '#6A1B9A',
+  band: '#CE93D8',
+  tolerance: '#9E9E9E',
+} as const;
+
+const STATUS_LABELS: Record<BasalSegmentStatus, string> = {
+  tooLow: 'Basal may be too low',
+  tooHigh: 'Basal may be too high',
+  ok: 'Looks right',
+  insufficientData: 'Not enough fasting data',
+};
+
+const STATUS_COLORS: Record<BasalSegmentStatus, string> = {
+  tooLow: '#E65100',
+  tooHigh: '#C62828',
+  ok: '#2E7D32',
+  insufficientData: tokens.colorNeutralForeground3,
+};
+
+const useStyles = makeStyles({
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap('16px'),
+  },
+  header: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    ...shorthands.gap('8px'),
+  },
+  title: {
+    fontSize: tokens.fontSizeBase500,
+    fontWeight: tokens.fontWeightSemibold,
+  },
+  description: {
+    fontSize: tokens.fontSizeBase300,
+    color: tokens.colorNeutralForeground2,
+  },
+  chartContainer: {
+    width: '100%',
+    height: '300px',
+  },
+  legendContainer: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    ...shorthands.gap('16px'),
+    ...shorthands.padding('12px', '16px'),
+    backgroundColor: tokens.colorNeutralBackground2,
+    ...shorthands.borderRadius(tokens.borderRadiusMedium),
+    fontSize: tokens.fontSizeBase200,
+  },
+  legendItem: {
+    display: 'flex',
+    alignItems: 'center',
+    ...shorthands.gap('8px'),
+  },
+  legendLine: {
+    width: '20px',
+    height: '2px',
+  },
+  legendBand: {
+    width: '20px',
+    height: '10px',
+    opacity: 0.5,
+  },
+  tableCard: {
+    overflowX: 'auto',
+  },
+  numericCell: {
+    textAlign: 'right',
+  },
+  noDataMessage: {
+    textAlign: 'center',
+    ...shorthands.padding('24px'),
+    color: tokens.colorNeutralForeground3,
+  },
+});
+
+interface BasalDriftProfileProps {
+  cgmReadings: GlucoseReading[];
+  insulinReadings: InsulinReading[];
+  carbEntries: CarbEntry[];
+  glucoseUnit: GlucoseUnit;
+}
+
+/**
+ * Format an hour of day as HH:00
+ */
+function formatHour(hour: number): string {
+  return `${String(hour % 24).padStart(2, '0')}:00`;
+}
+
+export function BasalDriftProfile({ cgmReadings, insulinReadings, carbEntries, glucoseUnit }: BasalDriftProfileProps) {
+  const styles = useStyles();
+  const [includeDaytime, setIncludeDaytime] = useState(false);
+
+  const windows = useMemo(
+    () => findFastingWindows(cgmReadings, insulinReadings, carbEntries, { overnightOnly: !includeDaytime }),
+    [cgmReadings, insulinReadings, carbEntries, includeDaytime]
+  );
+  const profile = useMemo(() => calculateHourlyDriftProfile(windows), [windows]);
+  const assessments = useMemo(
+    () => assessBasalSegments(estimateBasalSegments(insulinReadings), windows),
+    [insulinReadings, windows]
+  );
+
+  const fastingDays = useMemo(() => new Set(windows.map(w => formatDate(w.start))).size, [windows]);
+
+  // Chart values in the display unit; the band is drawn as a range area
+  const chartData = useMemo(() => profile.map(point => {
+    const toUnit = (value: number | null) => {
+      if (value === null) return null;
+      const converted = convertGlucoseValue(value, glucoseUnit);
+      return glucoseUnit === 'mg/dL' ? Math.round(converted * 10) / 10 : Math.round(converted * 100) / 100;
+    };
+    const lower = toUnit(point.lower);
+    const upper = toUnit(point.upper);
+    return {
+      hour: point.hour,
+      meanDrift: toUnit(point.meanDrift),
+      band: lower !== null && upper !== null ? [lower, upper] : null,
+      sampleCount: point.sampleCount,
+      raw: point,
+    };
+  }), [profile, glucoseUnit]);
+
+  const tolerance = convertGlucoseValue(BASAL_DRIFT_TOLERANCE, glucoseUnit);
+  const driftUnit = `${glucoseUnit}/h`;
+
+  const formatDrift = (value: number | null) => {
+    if (value === null) return '—';
+    const formatted = displayGlucoseValue(Math.abs(value), glucoseUnit);
+    return `${value < 0 ? '−' : '+'}${formatted}`;
+  };
+
+  // Custom tooltip
+  const DriftTooltip = ({ active, payload }: {
+    active?: boolean;
+    payload?: Array<{ payload: (typeof chartData)[number] }>;
+  }) => {
+    if (!active || !payload || payload.length === 0) return null;
+    const { raw } = payload[0].payload;
+    return (
+      <div style={{
+        backgroundColor: tokens.colorNeutralBackground1,
+        padding: '12px',
+        border: `1px solid ${tokens.colorNeutralStroke1}`,
+        borderRadius: tokens.borderRadiusMedium,
+        fontSize: tokens.fontSizeBase200,
+      }}>
+        <div style={{ fontWeight: tokens.fontWeightSemibold, marginBottom: '4px' }}>
+          {formatHour(raw.hour)}–{formatHour(raw.hour + 1)}
+        </div>
+        {raw.meanDrift !== null ? (
+          <>
+            <div style={{ color: DRIFT_COLORS.mean }}>
+              Mean drift: {formatDrift(raw.meanDrift)} {driftUnit}
+            </div>
+            {raw.lower !== null && raw.upper !== null && (
+              <div>95% range: {formatDrift(raw.lower)} to {formatDrift(raw.upper)} {driftUnit}</div>
+            )}
+            <div>Fasting hours: {raw.sampleCount}</div>
+          </>
+        ) : (
+          <div>No fasting data</div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <Text className={styles.title}>Basal Check from Fasting Windows</Text>
+        <Switch
+          checked={includeDaytime}
+          onChange={(_, data) => setIncludeDaytime(data.checked)}
+          label="Include daytime fasting"
+        />
+      </div>
+      <Text className={styles.description}>
+        Glucose drift per hour while no carbs or bolus were logged for at least {DEFAULT_FASTING_WASHOUT_HOURS} hours
+        ({includeDaytime ? 'day and night' : 'overnight only'}), pooled across {windows.length} fasting
+        windows on {fastingDays} days. Rising glucose suggests too little basal, falling glucose too much.
+        Basal changes usually show in glucose 1–2 hours later.
+      </Text>
+
+      {windows.length === 0 ? (
+        <Text className={styles.noDataMessage}>
+          No fasting windows found. Try including daytime fasting.
+        </Text>
+      ) : (
+        <>
+          <div className={styles.chartContainer}>
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={tokens.colorNeutralStroke2} />
+                <XAxis
+                  type="number"
+                  dataKey="hour"
+                  domain={[0, 23]}
+                  ticks={[0, 3, 6, 9, 12, 15, 18, 21]}
+                  tickFormatter={formatHour}
+                  stroke={tokens.colorNeutralForeground2}
+                  style={{ fontSize: tokens.fontSizeBase200 }}
+                />
+                <YAxis
+                  label={{
+                    value: `Drift (${driftUnit})`,
+                    angle: -90,
+                    position: 'insideLeft',
+                    style: { fontSize: tokens.fontSizeBase200 },
+                  }}
+                  stroke={tokens.colorNeutralForeground2}
+                  style={{ fontSize: tokens.fontSizeBase200 }}
+                />
+                <Tooltip content={<DriftTooltip />} />
+                <ReferenceLine y={0} stroke={tokens.colorNeutralForeground2} />
+                <ReferenceLine y={tolerance} stroke={DRIFT_COLORS.tolerance} strokeDasharray="4 4" />
+                <ReferenceLine y={-tolerance} stroke={DRIFT_COLORS.tolerance} strokeDasharray="4 4" />
+                <Area
+                  type="monotone"
+                  dataKey="band"
+                  name="95% range"
+                  stroke="none"
+                  fill={DRIFT_COLORS.band}
+                  fillOpacity={0.4}
+                  isAnimationActive={false}
+                  connectNulls
+                />
+                <Line
+                  type="monotone"
+                  dataKey="meanDrift"
+                  name="Mean drift"
+                  stroke={DRIFT_COLORS.mean}
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                  isAnimationActive={false}
+                  connectNulls
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className={styles.legendContainer}>
+            <div className={styles.legendItem}>
+              <div className={styles.legendLine} style={{ backgroundColor: DRIFT_COLORS.mean }} />
+              <Text>Mean drift while fasting</Text>
+            </div>
+            <div className={styles.legendItem}>
+              <div className={styles.legendBand} style={{ backgroundColor: DRIFT_COLORS.band }} />
+              <Text>95% confidence range</Text>
+            </div>
+            <div className={styles.legendItem}>
+              <div className={styles.legendLine} style={{ backgroundColor: DRIFT_COLORS.tolerance }} />
+              <Text>±{displayGlucoseValue(BASAL_DRIFT_TOLERANCE, glucoseUnit)} {driftUnit} tolerance</Text>
+            </div>
+          </div>
+
+          <div className={styles.tableCard}>
+            <Table size="small" aria-label="Basal segments">
+              <TableHeader>
+                <TableRow>
+                  <TableHeaderCell>Time</TableHeaderCell>
+                  <TableHeaderCell className={styles.numericCell}>Basal (U/h)</TableHeaderCell>
+                  <TableHeaderCell className={styles.numericCell}>Mean drift ({driftUnit})</TableHeaderCell>
+                  <TableHeaderCell className={styles.numericCell}>95% range</TableHeaderCell>
+                  <TableHeaderCell className={styles.numericCell}>Fasting hours</TableHeaderCell>
+                  <TableHeaderCell>Assessment</TableHeaderCell>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {assessments.map(segment => (
+                  <TableRow key={segment.startHour}>
+                    <TableCell>{formatHour(segment.startHour)}–{formatHour(segment.endHour)}</TableCell>
+                    <TableCell className={styles.numericCell}>
+                      {segment.rate !== null ? formatInsulinDose(segment.rate, 2) : '—'}
+                    </TableCell>
+                    <TableCell className={styles.numericCell}>{formatDrift(segment.meanDrift)}</TableCell>
+                    <TableCell className={styles.numericCell}>
+                      {segment.lower !== null && segment.upper !== null
+                        ? `${formatDrift(segment.lower)} to ${formatDrift(segment.upper)}`
+                        : '—'}
+                    </TableCell>
+                    <TableCell className={styles.numericCell}>{segment.sampleCount}</TableCell>
+                    <TableCell style={{ color: STATUS_COLORS[segment.status] }}>
+                      {STATUS_LABELS[segment.status]}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -18,6 +18,15 @@ vi.mock('../utils/data', () => ({
   formatGlucoseValue: vi.fn().mockReturnValue('5.0'),
   prepareInsulinTimelineData: vi.fn().mockReturnValue([]),
   prepareHourlyIOBData: vi.fn().mockReturnValue([]),
+  extractCarbEntries: vi.fn().mockResolvedValue([]),
+  estimateForecastSensitivity: vi.fn().mockReturnValue({ isf: 2, icr: 10, csf: 0.2, source: 'default' }),
+  calculateGlucoseForecast: vi.fn().mockReturnValue([]),
+  detectForecastDeviations: vi.fn().mockReturnValue([]),
+  extractExerciseSessions: vi.fn().mockResolvedValue([]),
+  analyzeExerciseImpact: vi.fn().mockReturnValue([]),
+  groupExerciseImpact: vi.fn().mockReturnValue([]),
+  getExerciseEndTime: vi.fn(),
+  formatDate: vi.fn(),
   getUniqueDates: vi.fn().mockReturnValue([]),
   filterReadingsByDate: vi.fn().mockReturnValue([]),
   calculateGlucoseRangeStats: vi.fn().mockReturnValue({ low: 0, inRange: 0, high: 0, total: 0 }),
@@ -59,6 +68,14 @@ vi.mock('../utils/data', () => ({
     hypoPeriods: [],
   }),
   formatHypoDuration: vi.fn().mockReturnValue('0m'),
+  // Annotation functions
+  getAnnotationsForDate: vi.fn().mockReturnValue([]),
+  getAnnotationTimeDecimal: vi.fn().mockReturnValue(null),
+  formatAnnotationTime: vi.fn().mockReturnValue('00:00'),
+  // Time zone functions
+  DEFAULT_TIME_ZONE_SETTINGS: { sourceTimeZone: 'auto', analysisMode: 'wallClock' },
+  resolveSourceTimeZone: vi.fn().mockReturnValue('UTC'),
+  getDayLengthHours: vi.fn().mockReturnValue(24),
 }));
 
 // Mock the hooks
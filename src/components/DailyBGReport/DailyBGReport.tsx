@@ -8,15 +8,21 @@
  * - Insulin summary cards and timeline graph (from Detailed Insulin)
  * - IOB graph (from IOB report)
  * - RoC summary bar and stats (from RoC report)
- * - Hypo stats cards (from Hypos report)
+ * - Hypo stats cards (from Hypos report), noting hypos that follow exercise
+ * - Exercise markers on the glucose graph and exercise impact by activity
+ * - Note on 23-hour and 25-hour days when clocks change for DST
+ * - User annotations on the glucose graph; clicking the graph adds one
  */
 
 import { useState, useEffect, useRef, useMemo } from 'react';
 import {
   Text,
   Spinner,
+  MessageBar,
+  MessageBarBody,
 } from '@fluentui/react-components';
-import type { GlucoseReading, GlucoseDataSource, InsulinReading, HourlyIOBData, RoCStats, RoCDataPoint } from '../../types';
+import { useTranslation } from 'react-i18next';
+import type { GlucoseReading, GlucoseDataSource, InsulinReading, CarbEntry, ExerciseSession, HourlyIOBData, RoCStats, RoCDataPoint } from '../../types';
 import { 
   extractGlucoseReadings, 
   smoothGlucoseValues, 
@@ -35,9 +41,23 @@ import {
   getRoCColor,
   getLongestCategoryPeriod,
   calculateHypoStats,
+  DEFAULT_TIME_ZONE_SETTINGS,
+  getDayLengthHours,
+  resolveSourceTimeZone,
+  extractCarbEntries,
+  estimateForecastSensitivity,
+  calculateGlucoseForecast,
+  detectForecastDeviations,
+  extractExerciseSessions,
+  analyzeExerciseImpact,
+  getExerciseEndTime,
+  formatDate,
+  getAnnotationsForDate,
+  formatAnnotationTime,
 } from '../../utils/data';
 import type { HypoStats } from '../../utils/data/hypoDataUtils';
-import { getActiveProvider } from '../../utils/api';
+import { getFocusTimeRanges } from '../../utils/data/chartFocusUtils';
+import { getActiveProvider, DEFAULT_CUSTOM_PROVIDER_SETTINGS } from '../../utils/api';
 import { useGlucoseThresholds } from '../../hooks/useGlucoseThresholds';
 import { DayNavigator } from '../DayNavigator';
 import { useBGColorScheme } from '../../hooks/useBGColorScheme';
@@ -45,11 +65,12 @@ import { getGlucoseColor } from '../../utils/formatting';
 import { useSelectedDate } from '../../hooks/useSelectedDate';
 import { InsulinSummaryCards } from '../InsulinSummaryCards';
 import { InsulinTimeline } from '../InsulinTimeline';
+import { NO_ANNOTATIONS, useAnnotationMarkers } from '../Annotations';
 
 // Import split modules
 import { useStyles } from './styles';
 import { ROC_INTERVAL_OPTIONS, HYPO_CHART_COLORS } from './constants';
-import { GlucoseSection, RoCSection, HypoSection, IOBSection } from './sections';
+import { GlucoseSection, RoCSection, HypoSection, IOBSection, ExerciseSection } from './sections';
 import type { DailyBGReportProps, TimelineDataPoint } from './types';
 
 /**
@@ -58,46 +79,62 @@ import type { DailyBGReportProps, TimelineDataPoint } from './types';
  * @param selectedFile - The currently selected file containing glucose and insulin data; if undefined the component prompts the user to upload/select a file
  * @param glucoseUnit - Display unit for glucose values (`'mg/dL'` or `'mmol/L'`)
  * @param insulinDuration - Hours used when computing hourly IOB
+ * @param insulinModel - Insulin activity model used when computing hourly IOB
+ * @param timeZoneSettings - Source time zone used for the length of days with a clock change
  * @param showDayNightShading - Whether charts should display day/night background shading
  * @param showGeekStats - Whether to enable provider-driven "geek" statistics in the Hypo section
+ * @param annotations - User annotations of the dataset; those of the selected day are marked on the glucose graph and passed to the hypo AI analysis
+ * @param onAnnotate - Called with the clicked date and time of the glucose graph to add an annotation
+ * @param focus - Day to show once the data is loaded and time window to highlight on its glucose graph (optional)
  * @param perplexityApiKey - API key for the Perplexity provider (optional)
  * @param geminiApiKey - API key for the Gemini provider (optional)
  * @param grokApiKey - API key for the Grok provider (optional)
  * @param deepseekApiKey - API key for the Deepseek provider (optional)
+ * @param customProvider - Base URL, model and optional API key of the custom provider (optional)
  * @param selectedProvider - Identifier of the chosen AI/provider to use for geek stats (may be null)
  * @param responseLanguage - Language identifier to request provider responses in
  * @param isProUser - Whether the current user has pro features enabled (affects provider/key selection)
  * @param idToken - Optional identity token passed to downstream sections when contacting provider APIs
  * @param useProKeys - Whether to prefer pro API keys over user-provided keys when resolving an active provider key
+ * @param onDataScopeChange - Called with the data source shown, for the data quality banner (optional)
  * @returns The composed daily report UI as a JSX element
  */
 export function DailyBGReport({ 
   selectedFile, 
   glucoseUnit, 
   insulinDuration = 5, 
+  insulinModel,
+  timeZoneSettings = DEFAULT_TIME_ZONE_SETTINGS,
   showDayNightShading,
   showGeekStats = false,
+  annotations = NO_ANNOTATIONS,
+  onAnnotate,
+  focus = null,
   perplexityApiKey = '',
   geminiApiKey = '',
   grokApiKey = '',
   deepseekApiKey = '',
+  customProvider = DEFAULT_CUSTOM_PROVIDER_SETTINGS,
   selectedProvider = null,
   responseLanguage = 'english',
   isProUser = false,
   idToken = null,
   useProKeys = false,
+  onDataScopeChange,
 }: DailyBGReportProps) {
   const styles = useStyles();
+  const { t } = useTranslation('reports');
   const { thresholds } = useGlucoseThresholds();
   const { colorScheme, setColorScheme } = useBGColorScheme();
   const { selectedDate, setSelectedDate } = useSelectedDate(selectedFile?.id);
   
   // Determine which AI provider to use and get its API key (same pattern as BGOverviewReport)
-  const activeProvider = getActiveProvider(selectedProvider, perplexityApiKey, geminiApiKey, grokApiKey, deepseekApiKey);
+  const activeProvider = getActiveProvider(selectedProvider, perplexityApiKey, geminiApiKey, grokApiKey, deepseekApiKey, customProvider);
   const hasApiKey = activeProvider !== null;
   
   // Get the appropriate API key for the active provider
-  const apiKey = activeProvider === 'perplexity' ? perplexityApiKey : 
+  const apiKey = activeProvider === 'custom' ? customProvider.apiKey :
+                  activeProvider === 'perplexity' ? perplexityApiKey : 
                   activeProvider === 'grok' ? grokApiKey :
                   activeProvider === 'deepseek' ? deepseekApiKey : geminiApiKey;
   
@@ -110,12 +147,20 @@ export function DailyBGReport({
   const [availableDates, setAvailableDates] = useState<string[]>([]);
   const [currentDateIndex, setCurrentDateIndex] = useState(0);
   const [dataSource, setDataSource] = useState<GlucoseDataSource>('cgm');
+
+  // Let the data quality banner assess the data this report shows (all days of the data source)
+  useEffect(() => {
+    onDataScopeChange?.({ dataSource });
+  }, [onDataScopeChange, dataSource]);
+
   const [maxGlucose, setMaxGlucose] = useState<number>(
     glucoseUnit === 'mg/dL' ? 396 : 22.0
   );
   
   // Insulin state
   const [allInsulinReadings, setAllInsulinReadings] = useState<InsulinReading[]>([]);
+  const [carbEntries, setCarbEntries] = useState<CarbEntry[]>([]);
+  const [exerciseSessions, setExerciseSessions] = useState<ExerciseSession[]>([]);
   const [timelineData, setTimelineData] = useState<TimelineDataPoint[]>([]);
   const [hourlyIOBData, setHourlyIOBData] = useState<HourlyIOBData[]>([]);
   const [insulinSummary, setInsulinSummary] = useState({ basalTotal: 0, bolusTotal: 0, totalInsulin: 0 });
@@ -166,6 +211,8 @@ export function DailyBGReport({
       setBgReadings([]);
       setCurrentGlucoseReadings([]);
       setAllInsulinReadings([]);
+      setCarbEntries([]);
+      setExerciseSessions([]);
       setTimelineData([]);
       setHourlyIOBData([]);
       setRocStats(null);
@@ -221,6 +268,20 @@ export function DailyBGReport({
         } catch {
           setAllInsulinReadings([]);
         }
+
+        // Extract carb entries for carbs on board
+        try {
+          setCarbEntries(await extractCarbEntries(selectedFile));
+        } catch {
+          setCarbEntries([]);
+        }
+
+        // Extract exercise sessions for markers and exercise impact
+        try {
+          setExerciseSessions(await extractExerciseSessions(selectedFile));
+        } catch {
+          setExerciseSessions([]);
+        }
         
         // Get available dates from either glucose or insulin
         const glucoseDates = activeReadings.length > 0 ? getUniqueDates(activeReadings) : [];
@@ -293,7 +354,7 @@ export function DailyBGReport({
       });
       
       // Prepare IOB data
-      const iobData = prepareHourlyIOBData(allInsulinReadings, currentDate, insulinDuration);
+      const iobData = prepareHourlyIOBData(allInsulinReadings, currentDate, insulinDuration, insulinModel);
       setHourlyIOBData(iobData);
     } else {
       setTimelineData([]);
@@ -352,7 +413,7 @@ export function DailyBGReport({
       setRocYAxisDomain([0, Math.max(maxDataRoC, minRocYAxisMax)]);
       
       // Calculate hypo stats
-      const hypoStatsResult = calculateHypoStats(filteredGlucose, thresholds);
+      const hypoStatsResult = calculateHypoStats(filteredGlucose, thresholds, exerciseSessions);
       setHypoStats(hypoStatsResult);
       
       // Prepare hypo chart data
@@ -428,7 +489,7 @@ export function DailyBGReport({
       setHyposGradientStops([]);
       setNadirPoints([]);
     }
-  }, [currentDateIndex, availableDates, cgmReadings, bgReadings, allInsulinReadings, dataSource, glucoseUnit, thresholds, currentInterval.minutes, insulinDuration, maxGlucose]);
+  }, [currentDateIndex, availableDates, cgmReadings, bgReadings, allInsulinReadings, exerciseSessions, dataSource, glucoseUnit, thresholds, currentInterval.minutes, insulinDuration, insulinModel, maxGlucose]);
 
   // Calculate glucose stats
   const glucoseStats = useMemo(() => {
@@ -448,14 +509,86 @@ export function DailyBGReport({
     ? ((glucoseStats.high / glucoseStats.total) * 100).toFixed(1) 
     : '0.0';
 
+  // Ratios for the forecast are estimated once from the whole file
+  const forecastSensitivity = useMemo(
+    () => estimateForecastSensitivity(allInsulinReadings, carbEntries, cgmReadings),
+    [allInsulinReadings, carbEntries, cgmReadings]
+  );
+
+  // Forecast each CGM reading from the one an hour earlier (which may be on the previous day)
+  const forecast = useMemo(() => {
+    if (dataSource !== 'cgm') return [];
+    return calculateGlucoseForecast(currentGlucoseReadings, allInsulinReadings, carbEntries, forecastSensitivity, {
+      history: cgmReadings,
+      insulinDuration,
+      insulinModel,
+    });
+  }, [dataSource, currentGlucoseReadings, allInsulinReadings, carbEntries, forecastSensitivity, cgmReadings, insulinDuration, insulinModel]);
+
+  const forecastDeviations = useMemo(
+    () => detectForecastDeviations(forecast, allInsulinReadings, carbEntries),
+    [forecast, allInsulinReadings, carbEntries]
+  );
+
+  // Glucose and IOB around every logged exercise session
+  const exerciseImpacts = useMemo(
+    () => analyzeExerciseImpact(exerciseSessions, cgmReadings, allInsulinReadings, thresholds, { insulinDuration, insulinModel }),
+    [exerciseSessions, cgmReadings, allInsulinReadings, thresholds, insulinDuration, insulinModel]
+  );
+
+  const selectedDateKey = availableDates[currentDateIndex];
+  const dayExerciseImpacts = useMemo(
+    () => exerciseImpacts.filter(impact => formatDate(impact.session.timestamp) === selectedDateKey),
+    [exerciseImpacts, selectedDateKey]
+  );
+
+  // Exercise sessions of the selected day as chart time ranges (clipped at midnight)
+  const exerciseMarkers = useMemo(
+    () => exerciseSessions
+      .filter(session => formatDate(session.timestamp) === selectedDateKey)
+      .map(session => {
+        const end = getExerciseEndTime(session);
+        const start = session.timestamp.getHours() + session.timestamp.getMinutes() / 60;
+        return {
+          start,
+          end: formatDate(end) === selectedDateKey ? end.getHours() + end.getMinutes() / 60 : 24,
+          label: session.activityType,
+        };
+      }),
+    [exerciseSessions, selectedDateKey]
+  );
+
+  // Show the day of the chart focus once the dates are loaded
+  useEffect(() => {
+    const focusIndex = focus?.date ? availableDates.indexOf(focus.date) : -1;
+    if (focusIndex !== -1) {
+      setCurrentDateIndex(focusIndex);
+    }
+  }, [focus?.date, availableDates]);
+
+  // Time window of the chart focus, highlighted on its day only
+  const focusRanges = useMemo(
+    () => focus && (!focus.date || focus.date === selectedDateKey) ? getFocusTimeRanges(focus) : [],
+    [focus, selectedDateKey]
+  );
+
+  // User annotations of the selected day
+  const dayAnnotations = useMemo(
+    () => getAnnotationsForDate(annotations, selectedDateKey ?? ''),
+    [annotations, selectedDateKey]
+  );
+  const annotationMarkers = useAnnotationMarkers(dayAnnotations);
+
   // Prepare glucose chart data
   const glucoseChartData = useMemo(() => {
     const smoothedReadings = smoothGlucoseValues(currentGlucoseReadings);
+    const forecastByTime = new Map(forecast.map(point => [point.timestamp.getTime(), point]));
     return smoothedReadings.map(reading => {
       const hour = reading.timestamp.getHours();
       const minute = reading.timestamp.getMinutes();
       const timeMinutes = hour * 60 + minute;
       const glucoseValue = convertGlucoseValue(reading.value, glucoseUnit);
+      const forecastPoint = forecastByTime.get(reading.timestamp.getTime());
       
       return {
         time: reading.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
@@ -464,9 +597,13 @@ export function DailyBGReport({
         value: Math.min(glucoseValue, maxGlucose),
         originalValue: glucoseValue,
         color: getGlucoseColor(reading.value, colorScheme),
+        predicted: forecastPoint?.predicted != null
+          ? Math.min(convertGlucoseValue(forecastPoint.predicted, glucoseUnit), maxGlucose)
+          : null,
+        cob: forecastPoint ? forecastPoint.cob : null,
       };
     });
-  }, [currentGlucoseReadings, glucoseUnit, maxGlucose, colorScheme]);
+  }, [currentGlucoseReadings, forecast, glucoseUnit, maxGlucose, colorScheme]);
 
   const handlePreviousDate = () => {
     if (currentDateIndex > 0) {
@@ -496,6 +633,10 @@ export function DailyBGReport({
   const currentDate = availableDates[currentDateIndex] ?? '';
   const minDate = availableDates.length > 0 ? availableDates[0] : undefined;
   const maxDate = availableDates.length > 0 ? availableDates[availableDates.length - 1] : undefined;
+  // Length of the selected day in the source time zone (23 or 25 hours when clocks change)
+  const dayLengthHours = currentDate
+    ? getDayLengthHours(currentDate, resolveSourceTimeZone(timeZoneSettings.sourceTimeZone))
+    : 24;
 
   if (!selectedFile) {
     return (
@@ -547,6 +688,14 @@ export function DailyBGReport({
         />
       </div>
 
+      {dayLengthHours !== 24 && (
+        <MessageBar intent="info">
+          <MessageBarBody>
+            {t(dayLengthHours < 24 ? 'reports.dailyBG.dayLength.short' : 'reports.dailyBG.dayLength.long', { hours: dayLengthHours })}
+          </MessageBarBody>
+        </MessageBar>
+      )}
+
       {/* ========== BG Section ========== */}
       {hasGlucoseData && (
         <GlucoseSection
@@ -562,10 +711,27 @@ export function DailyBGReport({
           colorScheme={colorScheme}
           setColorScheme={setColorScheme}
           glucoseChartData={glucoseChartData}
+          forecastDeviations={forecastDeviations}
+          exerciseMarkers={exerciseMarkers}
+          annotationMarkers={annotationMarkers}
+          focusRanges={focusRanges}
+          onChartClick={onAnnotate
+            ? (timeDecimal) => onAnnotate({ date: currentDate, time: formatAnnotationTime(timeDecimal) })
+            : undefined}
           showDayNightShading={showDayNightShading}
         />
       )}
 
+      {/* ========== Exercise Section ========== */}
+      {exerciseImpacts.length > 0 && (
+        <ExerciseSection
+          styles={styles}
+          glucoseUnit={glucoseUnit}
+          exerciseImpacts={exerciseImpacts}
+          dayExerciseImpacts={dayExerciseImpacts}
+        />
+      )}
+
       {/* ========== Rate of Change (RoC) Section ========== */}
       {rocStats && rocStats.totalCount > 0 && (
         <RoCSection
@@ -603,11 +769,13 @@ export function DailyBGReport({
           hasApiKey={hasApiKey}
           activeProvider={activeProvider}
           apiKey={apiKey}
+          customProvider={customProvider}
           responseLanguage={responseLanguage}
           isProUser={isProUser}
           idToken={idToken}
           useProKeys={useProKeys}
           showGeekStats={showGeekStats}
+          annotations={dayAnnotations}
         />
       )}
 
@@ -2,6 +2,8 @@
  * Constants for the DailyBGReport component
  */
 
+import type { ForecastDeviationType } from '../../utils/data/glucoseForecastUtils';
+
 // Re-export ROC_INTERVAL_OPTIONS from RoCReport to avoid duplication
 export { ROC_INTERVAL_OPTIONS } from '../RoCReport/constants';
 
@@ -13,6 +15,25 @@ export const HYPO_CHART_COLORS = {
   nadirDot: '#B71C1C',  // Darker red for nadir markers
 };
 
+// Glucose forecast overlay colors
+export const FORECAST_CHART_COLORS = {
+  predicted: '#7B1FA2', // Purple dashed line for predicted glucose
+  cob: '#FFC107',       // Amber area for carbs on board
+  deviation: '#D32F2F', // Red shading for rises not explained by logged carbs
+};
+
+// Exercise session markers on the glucose chart
+export const EXERCISE_CHART_COLOR = '#00897B';
+
+// Time window highlighted via a chart focus link (e.g. from an AI recommendation)
+export const FOCUS_CHART_COLOR = '#7E57C2';
+
+// Labels for rises far above the forecast
+export const FORECAST_DEVIATION_LABELS: Record<ForecastDeviationType, string> = {
+  missedBolus: 'Missed bolus?',
+  unannouncedMeal: 'Unannounced meal?',
+};
+
 // Format X-axis labels - unified format: 12AM, 6AM, noon, 6PM, 12AM
 // Used with numeric XAxis (dataKey="timeDecimal" and "hour")
 export const formatXAxis = (value: number): string => {
@@ -0,0 +1,134 @@
+/**
+ * Exercise Section component for DailyBGReport
+ *
+ * Shows the glucose drop, IOB at the start and hypos during or after each
+ * exercise session of the selected day, and the same measures grouped by
+ * activity type and intensity across the whole file.
+ */
+
+import {
+  Text,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHeaderCell,
+  TableBody,
+  TableCell,
+} from '@fluentui/react-components';
+import { useTranslation } from 'react-i18next';
+import type { GlucoseUnit } from '../../../types';
+import {
+  displayGlucoseValue,
+  getUnitLabel,
+  groupExerciseImpact,
+  type ExerciseImpact,
+} from '../../../utils/data';
+import { formatShortTime } from '../../../utils/formatting/formatters';
+import type { useStyles } from '../styles';
+
+interface ExerciseSectionProps {
+  /** Style object from useStyles hook */
+  styles: ReturnType<typeof useStyles>;
+  /** Unit for glucose display (mg/dL or mmol/L) */
+  glucoseUnit: GlucoseUnit;
+  /** Impact of every exercise session in the file */
+  exerciseImpacts: ExerciseImpact[];
+  /** Impact of the sessions on the selected day */
+  dayExerciseImpacts: ExerciseImpact[];
+}
+
+/**
+ * Renders the exercise impact section with tables for the selected day and per activity.
+ *
+ * @param props - Component props (see ExerciseSectionProps)
+ * @returns The rendered exercise section
+ */
+export function ExerciseSection({ styles, glucoseUnit, exerciseImpacts, dayExerciseImpacts }: ExerciseSectionProps) {
+  const { t } = useTranslation('reports');
+  const unit = getUnitLabel(glucoseUnit);
+  const groups = groupExerciseImpact(exerciseImpacts);
+
+  const formatDelayedHypo = (impact: ExerciseImpact): string => {
+    if (impact.hypoDuring) return t('reports.dailyBG.exercise.hypoDuring');
+    if (impact.hoursToDelayedHypo !== null) return t('reports.dailyBG.exercise.hypoAfter', { hours: impact.hoursToDelayedHypo });
+    return '–';
+  };
+
+  return (
+    <div className={styles.sectionCard}>
+      <Text className={styles.sectionTitle}>{t('reports.dailyBG.exercise.title')}</Text>
+      <Text className={styles.sectionDescription}>{t('reports.dailyBG.exercise.description')}</Text>
+
+      {dayExerciseImpacts.length > 0 ? (
+        <div className={styles.tableCard}>
+          <Table size="small" aria-label={t('reports.dailyBG.exercise.dayTitle')}>
+            <TableHeader>
+              <TableRow>
+                <TableHeaderCell>{t('reports.dailyBG.exercise.time')}</TableHeaderCell>
+                <TableHeaderCell>{t('reports.dailyBG.exercise.activity')}</TableHeaderCell>
+                <TableHeaderCell className={styles.numericCell}>{t('reports.dailyBG.exercise.duration')}</TableHeaderCell>
+                <TableHeaderCell className={styles.numericCell}>{t('reports.dailyBG.exercise.startGlucose', { unit })}</TableHeaderCell>
+                <TableHeaderCell className={styles.numericCell}>{t('reports.dailyBG.exercise.drop', { unit })}</TableHeaderCell>
+                <TableHeaderCell className={styles.numericCell}>{t('reports.dailyBG.exercise.iob')}</TableHeaderCell>
+                <TableHeaderCell>{t('reports.dailyBG.exercise.hypo')}</TableHeaderCell>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {dayExerciseImpacts.map(impact => (
+                <TableRow key={impact.session.timestamp.getTime()}>
+                  <TableCell>{formatShortTime(impact.session.timestamp)}</TableCell>
+                  <TableCell>
+                    {impact.session.intensity
+                      ? `${impact.session.activityType} (${impact.session.intensity})`
+                      : impact.session.activityType}
+                  </TableCell>
+                  <TableCell className={styles.numericCell}>
+                    {Math.round((impact.endTime.getTime() - impact.session.timestamp.getTime()) / 60000)}
+                  </TableCell>
+                  <TableCell className={styles.numericCell}>{displayGlucoseValue(impact.startGlucose, glucoseUnit)}</TableCell>
+                  <TableCell className={styles.numericCell}>{displayGlucoseValue(impact.glucoseDrop, glucoseUnit)}</TableCell>
+                  <TableCell className={styles.numericCell}>{impact.iobAtStart.toFixed(2)}</TableCell>
+                  <TableCell>{formatDelayedHypo(impact)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <Text className={styles.sectionDescription}>{t('reports.dailyBG.exercise.noSessionsToday')}</Text>
+      )}
+
+      <Text className={styles.sectionTitle}>{t('reports.dailyBG.exercise.byActivityTitle')}</Text>
+      <div className={styles.tableCard}>
+        <Table size="small" aria-label={t('reports.dailyBG.exercise.byActivityTitle')}>
+          <TableHeader>
+            <TableRow>
+              <TableHeaderCell>{t('reports.dailyBG.exercise.activity')}</TableHeaderCell>
+              <TableHeaderCell>{t('reports.dailyBG.exercise.intensity')}</TableHeaderCell>
+              <TableHeaderCell className={styles.numericCell}>{t('reports.dailyBG.exercise.sessions')}</TableHeaderCell>
+              <TableHeaderCell className={styles.numericCell}>{t('reports.dailyBG.exercise.meanDrop', { unit })}</TableHeaderCell>
+              <TableHeaderCell className={styles.numericCell}>{t('reports.dailyBG.exercise.meanIob')}</TableHeaderCell>
+              <TableHeaderCell className={styles.numericCell}>{t('reports.dailyBG.exercise.hypoDuringCount')}</TableHeaderCell>
+              <TableHeaderCell className={styles.numericCell}>{t('reports.dailyBG.exercise.delayedHypoCount')}</TableHeaderCell>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {groups.map(group => (
+              <TableRow key={`${group.activityType}|${group.intensity}`}>
+                <TableCell>{group.activityType}</TableCell>
+                <TableCell>{group.intensity}</TableCell>
+                <TableCell className={styles.numericCell}>{group.sessionCount}</TableCell>
+                <TableCell className={styles.numericCell}>{displayGlucoseValue(group.meanGlucoseDrop, glucoseUnit)}</TableCell>
+                <TableCell className={styles.numericCell}>{group.meanIobAtStart.toFixed(2)}</TableCell>
+                <TableCell className={styles.numericCell}>{group.hypoDuringCount}</TableCell>
+                <TableCell className={styles.numericCell}>
+                  {group.delayedHypoCount} ({Math.round((group.delayedHypoCount / group.sessionCount) * 100)}%)
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -21,8 +21,9 @@ import {
   ClockRegular,
 } from '@fluentui/react-icons';
 import {
-  LineChart,
+  ComposedChart,
   Line,
+  Area,
   XAxis,
   YAxis,
   Tooltip as RechartsTooltip,
@@ -31,6 +32,7 @@ import {
   ReferenceArea,
 } from 'recharts';
 import type { GlucoseUnit, GlucoseThresholds } from '../../../types';
+import type { ForecastDeviation } from '../../../utils/data/glucoseForecastUtils';
 import { 
   displayGlucoseValue, 
   getUnitLabel, 
@@ -40,8 +42,9 @@ import {
 } from '../../../utils/data';
 import { isDynamicColorScheme, COLOR_SCHEME_DESCRIPTORS } from '../../../utils/formatting';
 import type { BGColorScheme } from '../../../hooks/useBGColorScheme';
+import type { AnnotationMarker } from '../../Annotations';
 import { GlucoseTooltip } from '../tooltips';
-import { formatXAxis } from '../constants';
+import { formatXAxis, FORECAST_CHART_COLORS, FORECAST_DEVIATION_LABELS, EXERCISE_CHART_COLOR, FOCUS_CHART_COLOR } from '../constants';
 import type { useStyles } from '../styles';
 
 interface GlucoseSectionProps {
@@ -63,7 +66,21 @@ interface GlucoseSectionProps {
     value: number;
     originalValue: number;
     color: string;
+    predicted: number | null;
+    cob: number | null;
   }>;
+  forecastDeviations: ForecastDeviation[];
+  exerciseMarkers: Array<{
+    start: number;
+    end: number;
+    label: string;
+  }>;
+  annotationMarkers: AnnotationMarker[];
+  focusRanges?: Array<{
+    start: number;
+    end: number;
+  }>;
+  onChartClick?: (timeDecimal: number) => void;
   showDayNightShading: boolean;
 }
 
@@ -81,7 +98,12 @@ interface GlucoseSectionProps {
  * @param setMaxGlucose - Setter to update `maxGlucose` (called when the max-value tabs change).
  * @param colorScheme - Selected background/point color scheme identifier.
  * @param setColorScheme - Setter to update the color scheme (called when the dropdown changes).
- * @param glucoseChartData - Array of chart points containing time and value fields (and optional per-point color) used to plot the line.
+ * @param glucoseChartData - Array of chart points containing time and value fields (and optional per-point color) used to plot the line, with the forecast glucose and carbs on board when available.
+ * @param forecastDeviations - Periods where glucose stayed far above the forecast, shaded and labelled with their likely cause.
+ * @param exerciseMarkers - Exercise sessions of the day as start/end time decimals with an activity label, shaded on the chart.
+ * @param annotationMarkers - User annotations of the day; timed ones are drawn as vertical lines, whole-day ones are listed in the legend.
+ * @param focusRanges - Time window opened via a chart focus link (e.g. from an AI recommendation) as start/end time decimals, highlighted on the chart.
+ * @param onChartClick - Called with the clicked time of day; when set, clicking the chart adds an annotation.
  * @param showDayNightShading - When true, renders shaded regions for night periods on the chart.
  * @returns The React element for the glucose section UI.
  */
@@ -98,8 +120,18 @@ export function GlucoseSection({
   colorScheme,
   setColorScheme,
   glucoseChartData,
+  forecastDeviations,
+  exerciseMarkers,
+  annotationMarkers,
+  focusRanges = [],
+  onChartClick,
   showDayNightShading,
 }: GlucoseSectionProps) {
+  const timedAnnotationMarkers = annotationMarkers.filter(marker => marker.timeDecimal !== null);
+  const dayAnnotationMarkers = annotationMarkers.filter(marker => marker.timeDecimal === null);
+  const hasForecastData = glucoseChartData.some(point => point.predicted !== null);
+  const hasCOBData = glucoseChartData.some(point => point.cob !== null && point.cob > 0);
+
   // Custom dot renderer for colored glucose values
   const renderColoredDot = (props: { cx?: number; cy?: number; payload?: { color: string } }): React.ReactElement | null => {
     if (props.cx === undefined || props.cy === undefined || !props.payload) return null;
@@ -234,7 +266,14 @@ export function GlucoseSection({
         <div className={styles.chartWithBarContainer}>
           <div className={styles.chartWrapper}>
             <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={glucoseChartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+              <ComposedChart
+                data={glucoseChartData}
+                margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+                onClick={onChartClick ? (state) => {
+                  if (state.activeLabel !== undefined) onChartClick(Number(state.activeLabel));
+                } : undefined}
+                style={onChartClick ? { cursor: 'pointer' } : undefined}
+              >
                 {/* Day/night shading gradients */}
                 {showDayNightShading && (
                   <defs>
@@ -304,6 +343,11 @@ export function GlucoseSection({
                   tickLine={false}
                 />
                 
+                {/* Hidden axis for carbs on board (grams) */}
+                {hasCOBData && (
+                  <YAxis yAxisId="carbs" orientation="right" hide domain={[0, (dataMax: number) => Math.max(dataMax * 2, 40)]} />
+                )}
+                
                 <RechartsTooltip content={<GlucoseTooltip glucoseUnit={glucoseUnit} maxGlucose={maxGlucose} />} />
                 
                 {/* Target range reference lines */}
@@ -338,6 +382,112 @@ export function GlucoseSection({
                   }}
                 />
                 
+                {/* Periods where glucose stayed far above the forecast */}
+                {hasForecastData && forecastDeviations.map(deviation => (
+                  <ReferenceArea
+                    key={deviation.start.getTime()}
+                    x1={deviation.start.getHours() + deviation.start.getMinutes() / 60}
+                    x2={deviation.end.getHours() + deviation.end.getMinutes() / 60}
+                    fill={FORECAST_CHART_COLORS.deviation}
+                    fillOpacity={0.12}
+                    stroke={FORECAST_CHART_COLORS.deviation}
+                    strokeOpacity={0.4}
+                    label={{
+                      value: FORECAST_DEVIATION_LABELS[deviation.type],
+                      position: 'insideTop',
+                      style: {
+                        fontSize: tokens.fontSizeBase100,
+                        fontFamily: tokens.fontFamilyBase,
+                        fill: FORECAST_CHART_COLORS.deviation,
+                      },
+                    }}
+                  />
+                ))}
+                
+                {/* Logged exercise sessions */}
+                {exerciseMarkers.map(marker => (
+                  <ReferenceArea
+                    key={marker.start}
+                    x1={marker.start}
+                    x2={marker.end}
+                    fill={EXERCISE_CHART_COLOR}
+                    fillOpacity={0.15}
+                    stroke={EXERCISE_CHART_COLOR}
+                    strokeOpacity={0.5}
+                    label={{
+                      value: marker.label,
+                      position: 'insideBottom',
+                      style: {
+                        fontSize: tokens.fontSizeBase100,
+                        fontFamily: tokens.fontFamilyBase,
+                        fill: EXERCISE_CHART_COLOR,
+                      },
+                    }}
+                  />
+                ))}
+                
+                {/* Time window opened via a chart focus link */}
+                {focusRanges.map(range => (
+                  <ReferenceArea
+                    key={`focus-${range.start}`}
+                    x1={range.start}
+                    x2={range.end}
+                    fill={FOCUS_CHART_COLOR}
+                    fillOpacity={0.12}
+                    stroke={FOCUS_CHART_COLOR}
+                    strokeOpacity={0.6}
+                    strokeDasharray="4 4"
+                  />
+                ))}
+                
+                {/* User annotations */}
+                {timedAnnotationMarkers.map(marker => (
+                  <ReferenceLine
+                    key={marker.id}
+                    x={marker.timeDecimal!}
+                    stroke={marker.color}
+                    strokeWidth={2}
+                    label={{
+                      value: marker.label,
+                      position: 'insideTopRight',
+                      angle: -90,
+                      style: {
+                        fontSize: tokens.fontSizeBase100,
+                        fontFamily: tokens.fontFamilyBase,
+                        fill: marker.color,
+                      },
+                    }}
+                  />
+                ))}
+                
+                {/* Carbs on board */}
+                {hasCOBData && (
+                  <Area
+                    yAxisId="carbs"
+                    type="monotone"
+                    dataKey="cob"
+                    fill={FORECAST_CHART_COLORS.cob}
+                    fillOpacity={0.25}
+                    stroke={FORECAST_CHART_COLORS.cob}
+                    strokeOpacity={0.6}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                )}
+                
+                {/* Predicted glucose line */}
+                {hasForecastData && (
+                  <Line
+                    type="monotone"
+                    dataKey="predicted"
+                    stroke={FORECAST_CHART_COLORS.predicted}
+                    strokeWidth={1.5}
+                    strokeDasharray="5 3"
+                    dot={false}
+                    activeDot={false}
+                  />
+                )}
+                
                 {/* Glucose values line */}
                 <Line
                   type="monotone"
@@ -352,7 +502,7 @@ export function GlucoseSection({
                     fill: isDynamicColorScheme(colorScheme) ? undefined : tokens.colorBrandForeground1,
                   }}
                 />
-              </LineChart>
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
 
@@ -419,6 +569,42 @@ export function GlucoseSection({
             <div className={styles.legendDashedLine} style={{ borderColor: tokens.colorPaletteMarigoldBorder1 }} />
             <Text>High Threshold ({displayGlucoseValue(thresholds.high, glucoseUnit)} {getUnitLabel(glucoseUnit)})</Text>
           </div>
+          {hasForecastData && (
+            <div className={styles.legendItem}>
+              <div className={styles.legendDashedLine} style={{ borderColor: FORECAST_CHART_COLORS.predicted }} />
+              <Text>Predicted (from IOB and COB, 1 hour ahead)</Text>
+            </div>
+          )}
+          {hasCOBData && (
+            <div className={styles.legendItem}>
+              <div className={styles.legendLine} style={{ backgroundColor: FORECAST_CHART_COLORS.cob, height: '10px', opacity: 0.5 }} />
+              <Text>Carbs on Board</Text>
+            </div>
+          )}
+          {hasForecastData && forecastDeviations.length > 0 && (
+            <div className={styles.legendItem}>
+              <div className={styles.legendLine} style={{ backgroundColor: FORECAST_CHART_COLORS.deviation, height: '10px', opacity: 0.3 }} />
+              <Text>Rise not explained by logged carbs</Text>
+            </div>
+          )}
+          {exerciseMarkers.length > 0 && (
+            <div className={styles.legendItem}>
+              <div className={styles.legendLine} style={{ backgroundColor: EXERCISE_CHART_COLOR, height: '10px', opacity: 0.3 }} />
+              <Text>Exercise</Text>
+            </div>
+          )}
+          {focusRanges.length > 0 && (
+            <div className={styles.legendItem}>
+              <div className={styles.legendLine} style={{ backgroundColor: FOCUS_CHART_COLOR, height: '10px', opacity: 0.3 }} />
+              <Text>Highlighted time window</Text>
+            </div>
+          )}
+          {dayAnnotationMarkers.map(marker => (
+            <div key={marker.id} className={styles.legendItem}>
+              <div className={styles.legendLine} style={{ backgroundColor: marker.color, height: '10px' }} />
+              <Text>Whole day: {marker.label}</Text>
+            </div>
+          ))}
         </div>
       </div>
     </div>
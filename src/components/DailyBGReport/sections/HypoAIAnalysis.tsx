@@ -22,10 +22,10 @@ import {
   InfoRegular,
 } from '@fluentui/react-icons';
 import { useTranslation } from 'react-i18next';
-import type { GlucoseUnit, GlucoseReading, InsulinReading, GlucoseThresholds } from '../../../types';
+import type { GlucoseUnit, GlucoseReading, InsulinReading, GlucoseThresholds, DataAnnotation } from '../../../types';
 import type { HypoStats } from '../../../utils/data/hypoDataUtils';
 import type { ResponseLanguage } from '../../../hooks/useResponseLanguage';
-import type { AIProvider } from '../../../utils/api';
+import type { AIProvider, CustomProviderSettings } from '../../../utils/api';
 import { callAIWithRouting } from '../../../utils/api';
 import { generateHyposReportPrompt } from '../../../features/aiAnalysis/prompts';
 import { extractDetailedHypoEvents, convertDetailedHypoEventsToCSV, parseHypoAIResponseByEventId, type DetailedHypoEvent, type EventAnalysis } from '../../../utils/data/hyposReportAIDataUtils';
@@ -39,6 +39,7 @@ interface HypoAIAnalysisProps {
   hasApiKey?: boolean;
   activeProvider?: AIProvider | null;
   apiKey?: string;
+  customProvider?: CustomProviderSettings;
   responseLanguage?: ResponseLanguage;
   isProUser?: boolean;
   idToken?: string | null;
@@ -53,6 +54,8 @@ interface HypoAIAnalysisProps {
   bolusReadings?: InsulinReading[];
   /** Basal insulin readings for event context analysis */
   basalReadings?: InsulinReading[];
+  /** User annotations of the day, added to the prompt */
+  annotations?: DataAnnotation[];
 }
 
 /**
@@ -61,13 +64,15 @@ interface HypoAIAnalysisProps {
  * @param glucoseUnit - Unit for glucose values (mg/dL or mmol/L)
  * @param promptProvider - Provider name to use in prompt
  * @param detailedEvents - Detailed hypo events for the day
+ * @param annotations - User annotations of the day
  * @returns Generated prompt string
  */
 function buildHyposPrompt(
   responseLanguage: ResponseLanguage,
   glucoseUnit: GlucoseUnit,
   promptProvider: AIProvider | undefined,
-  detailedEvents: DetailedHypoEvent[]
+  detailedEvents: DetailedHypoEvent[],
+  annotations: DataAnnotation[]
 ): string {
   if (detailedEvents.length === 0) {
     return 'No hypoglycemia events found for this day.';
@@ -83,7 +88,8 @@ function buildHyposPrompt(
     detailedEvents.length,
     responseLanguage,
     glucoseUnit,
-    promptProvider ?? 'gemini' // Fallback to gemini if undefined
+    promptProvider ?? 'gemini', // Fallback to gemini if undefined
+    annotations
   );
 }
 
@@ -100,6 +106,7 @@ export function HypoAIAnalysis({
   hasApiKey = false,
   activeProvider = null,
   apiKey = '',
+  customProvider,
   responseLanguage = 'english',
   isProUser = false,
   idToken = null,
@@ -110,6 +117,7 @@ export function HypoAIAnalysis({
   thresholds,
   bolusReadings = [],
   basalReadings = [],
+  annotations = [],
 }: HypoAIAnalysisProps) {
   const { t } = useTranslation('reports');
   const [isResponseExpanded, setIsResponseExpanded] = useState(true);
@@ -203,11 +211,12 @@ export function HypoAIAnalysis({
     
     try {
       // Generate the prompt using detailed events
-      const prompt = buildHyposPrompt(responseLanguage, glucoseUnit, promptProvider, detailedEvents);
+      const prompt = buildHyposPrompt(responseLanguage, glucoseUnit, promptProvider, detailedEvents, annotations);
       
       // Call the AI API with routing (handles Pro vs client-side)
       const result = await callAIWithRouting(activeProvider, prompt, {
         apiKey,
+        customProvider,
         idToken: idToken ?? undefined,
         isProUser,
         useProKeys,
@@ -439,7 +448,7 @@ export function HypoAIAnalysis({
                 maxHeight: '400px',
                 overflowY: 'auto',
               }}>
-                {buildHyposPrompt(responseLanguage, glucoseUnit, promptProvider, detailedEvents)}
+                {buildHyposPrompt(responseLanguage, glucoseUnit, promptProvider, detailedEvents, annotations)}
               </div>
             </AccordionPanel>
           </AccordionItem>
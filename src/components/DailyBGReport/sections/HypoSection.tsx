@@ -6,6 +6,7 @@
  * 
  * Features:
  * - 6 summary stat cards (extracted to HypoStatsCards component)
+ * - Note on hypos that follow logged exercise
  * - Interactive glucose chart with configurable max range (16/22 mmol/L)
  * - AI-powered analysis (extracted to HypoAIAnalysis component)
  */
@@ -27,16 +28,17 @@ import {
   ReferenceArea,
 } from 'recharts';
 import { useTranslation } from 'react-i18next';
-import type { GlucoseUnit, GlucoseThresholds, GlucoseReading } from '../../../types';
+import type { GlucoseUnit, GlucoseThresholds, GlucoseReading, DataAnnotation } from '../../../types';
 import type { HypoStats } from '../../../utils/data/hypoDataUtils';
 import type { ResponseLanguage } from '../../../hooks/useResponseLanguage';
-import type { AIProvider } from '../../../utils/api';
+import type { AIProvider, CustomProviderSettings } from '../../../utils/api';
 import { 
   displayGlucoseValue, 
   getUnitLabel, 
   convertGlucoseValue,
   calculateLBGI,
 } from '../../../utils/data';
+import { formatShortTime } from '../../../utils/formatting/formatters';
 import { SegmentedControl } from '../../shared';
 import { HyposTooltip } from '../tooltips';
 import { formatXAxis, HYPO_CHART_COLORS } from '../constants';
@@ -95,6 +97,8 @@ interface HypoSectionProps {
   activeProvider?: AIProvider | null;
   /** API key for the active provider */
   apiKey?: string;
+  /** Base URL and model of the custom provider */
+  customProvider?: CustomProviderSettings;
   /** Language for AI responses */
   responseLanguage?: ResponseLanguage;
   /** Whether user is a Pro user */
@@ -105,6 +109,8 @@ interface HypoSectionProps {
   useProKeys?: boolean;
   /** Whether to show geek stats accordion */
   showGeekStats?: boolean;
+  /** User annotations of the day for the AI prompt */
+  annotations?: DataAnnotation[];
 }
 
 /**
@@ -130,11 +136,13 @@ export function HypoSection({
   hasApiKey = false,
   activeProvider = null,
   apiKey = '',
+  customProvider,
   responseLanguage = 'english',
   isProUser = false,
   idToken = null,
   useProKeys = false,
   showGeekStats = false,
+  annotations,
 }: HypoSectionProps) {
   const { t } = useTranslation('reports');
   
@@ -148,6 +156,11 @@ export function HypoSection({
   const maxGlucose = glucoseUnit === 'mg/dL' 
     ? (maxGlucoseOption === '16' ? 288 : 396)
     : (maxGlucoseOption === '16' ? 16 : 22);
+
+  // Hypos starting during or within 24 hours after logged exercise
+  const hyposAfterExercise = hypoStats.hypoPeriods.flatMap(period =>
+    period.precedingExercise ? [{ startTime: period.startTime, exercise: period.precedingExercise }] : []
+  );
   
   return (
     <div className={styles.sectionCard}>
@@ -161,6 +174,15 @@ export function HypoSection({
         hypoStats={hypoStats}
         lbgi={lbgi}
       />
+      {hyposAfterExercise.map(({ startTime, exercise }) => (
+        <Text key={startTime.getTime()} className={styles.sectionDescription}>
+          {t('reports.dailyBG.hypoAnalysis.afterExercise', {
+            time: formatShortTime(startTime),
+            activity: exercise.activityType,
+            hours: Math.round(((startTime.getTime() - exercise.timestamp.getTime()) / (60 * 60 * 1000)) * 10) / 10,
+          })}
+        </Text>
+      ))}
       {/* Hypos Chart */}
       {hyposChartData.length > 0 && (
         <div className={styles.hyposChartCard}>
@@ -361,6 +383,7 @@ export function HypoSection({
           hasApiKey={hasApiKey}
           activeProvider={activeProvider}
           apiKey={apiKey}
+          customProvider={customProvider}
           responseLanguage={responseLanguage}
           isProUser={isProUser}
           idToken={idToken}
@@ -369,6 +392,7 @@ export function HypoSection({
           glucoseUnit={glucoseUnit}
           glucoseReadings={currentGlucoseReadings}
           thresholds={thresholds}
+          annotations={annotations}
         />
       )}
     </div>
@@ -6,3 +6,4 @@ export { GlucoseSection } from './GlucoseSection';
 export { RoCSection } from './RoCSection';
 export { HypoSection } from './HypoSection';
 export { IOBSection } from './IOBSection';
+export { ExerciseSection } from './ExerciseSection';
@@ -407,4 +407,18 @@ export const useStyles = makeStyles({
     height: '300px',
     width: '100%',
   },
+  sectionDescription: {
+    fontSize: tokens.fontSizeBase300,
+    color: tokens.colorNeutralForeground2,
+    fontFamily: tokens.fontFamilyBase,
+  },
+  tableCard: {
+    backgroundColor: tokens.colorNeutralBackground1,
+    ...shorthands.borderRadius('12px'),
+    ...shorthands.border('1px', 'solid', tokens.colorNeutralStroke1),
+    overflowX: 'auto',
+  },
+  numericCell: {
+    textAlign: 'right',
+  },
 });
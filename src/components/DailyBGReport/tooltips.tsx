@@ -10,7 +10,7 @@ import {
   formatRoCValue,
   ROC_COLORS,
 } from '../../utils/data';
-import { HYPO_CHART_COLORS } from './constants';
+import { HYPO_CHART_COLORS, FORECAST_CHART_COLORS } from './constants';
 import { formatInsulinDose } from '../../utils/formatting/formatters';
 
 interface GlucoseTooltipProps {
@@ -21,6 +21,8 @@ interface GlucoseTooltipProps {
       value: number; 
       originalValue: number; 
       color: string;
+      predicted?: number | null;
+      cob?: number | null;
     }; 
   }>;
   glucoseUnit: GlucoseUnit;
@@ -63,6 +65,16 @@ export function GlucoseTooltip({ active, payload, glucoseUnit, maxGlucose }: Glu
         <div style={{ color: tokens.colorNeutralForeground2 }}>
           Glucose: {displayValue} {getUnitLabel(glucoseUnit)}
         </div>
+        {data.predicted !== null && data.predicted !== undefined && (
+          <div style={{ color: FORECAST_CHART_COLORS.predicted }}>
+            Predicted: {formatGlucoseValue(data.predicted, glucoseUnit)} {getUnitLabel(glucoseUnit)}
+          </div>
+        )}
+        {data.cob !== null && data.cob !== undefined && data.cob > 0 && (
+          <div style={{ color: tokens.colorNeutralForeground2 }}>
+            Carbs on Board: {Math.round(data.cob)} g
+          </div>
+        )}
       </div>
     );
   }
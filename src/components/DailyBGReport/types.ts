@@ -2,11 +2,14 @@
  * Types for the DailyBGReport component
  */
 
-import type { GlucoseThresholds, RoCStats, RoCDataPoint, HourlyIOBData, UploadedFile, GlucoseUnit } from '../../types';
+import type { GlucoseThresholds, RoCStats, RoCDataPoint, HourlyIOBData, UploadedFile, GlucoseUnit, InsulinModelSettings, TimeZoneSettings, DataAnnotation, ChartFocus } from '../../types';
 import type { HypoStats } from '../../utils/data/hypoDataUtils';
+import type { ForecastDeviation } from '../../utils/data/glucoseForecastUtils';
 import type { BGColorScheme } from '../../hooks/useBGColorScheme';
 import type { ResponseLanguage } from '../../hooks/useResponseLanguage';
-import type { AIProvider } from '../../utils/api';
+import type { DataQualityScope } from '../../features/dataQuality';
+import type { AIProvider, CustomProviderSettings } from '../../utils/api';
+import type { AnnotationTarget } from '../Annotations';
 import type { useStyles } from './styles';
 
 /**
@@ -16,19 +19,32 @@ export interface DailyBGReportProps {
   selectedFile?: UploadedFile;
   glucoseUnit: GlucoseUnit;
   insulinDuration?: number;
+  insulinModel?: InsulinModelSettings;
+  /** Source time zone used for the length of days with a clock change */
+  timeZoneSettings?: TimeZoneSettings;
   showDayNightShading: boolean;
   showGeekStats?: boolean;
+  /** User annotations of the dataset (already filtered by tag) */
+  annotations?: DataAnnotation[];
+  /** Called with the clicked point of the glucose chart to add an annotation */
+  onAnnotate?: (target: AnnotationTarget) => void;
+  /** Day to show and time window to highlight, e.g. from an AI recommendation */
+  focus?: ChartFocus | null;
   // AI configuration props
   perplexityApiKey?: string;
   geminiApiKey?: string;
   grokApiKey?: string;
   deepseekApiKey?: string;
+  /** Base URL, model and optional API key of the custom OpenAI-compatible provider */
+  customProvider?: CustomProviderSettings;
   selectedProvider?: AIProvider | null;
   responseLanguage?: ResponseLanguage;
   // Pro user props for backend AI routing
   isProUser?: boolean;
   idToken?: string | null;
   useProKeys?: boolean;
+  /** Called with the data source shown, for the data quality banner */
+  onDataScopeChange?: (scope: DataQualityScope) => void;
 }
 
 /**
@@ -59,7 +75,12 @@ export interface GlucoseSectionProps extends SectionCommonProps {
     value: number;
     originalValue: number;
     color: string;
+    /** Forecast glucose in the display unit (null without a forecast) */
+    predicted: number | null;
+    /** Carbs on board in grams (null without a forecast) */
+    cob: number | null;
   }>;
+  forecastDeviations: ForecastDeviation[];
   showDayNightShading: boolean;
 }
 
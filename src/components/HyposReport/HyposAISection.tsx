@@ -33,10 +33,11 @@ import {
 import { SparkleRegular, CheckmarkCircleRegular, ErrorCircleRegular, InfoRegular } from '@fluentui/react-icons';
 import { useTranslation } from 'react-i18next';
 import { MarkdownRenderer } from '../shared/MarkdownRenderer';
-import type { GlucoseReading, GlucoseUnit, GlucoseThresholds, InsulinReading } from '../../types';
+import type { GlucoseReading, GlucoseUnit, GlucoseThresholds, InsulinModelSettings, InsulinReading, DataAnnotation } from '../../types';
 import type { ResponseLanguage } from '../../hooks/useResponseLanguage';
 import type { AIProvider } from '../../utils/api/aiApi';
-import { callAIApi, getActiveProvider } from '../../utils/api';
+import type { CustomProviderSettings } from '../../utils/api/customApi';
+import { callAIApi, getActiveProvider, DEFAULT_CUSTOM_PROVIDER_SETTINGS } from '../../utils/api';
 import { generateHyposReportPrompt } from '../../features/aiAnalysis/prompts';
 import { 
   extractDetailedHypoEvents, 
@@ -238,11 +239,18 @@ interface HyposAISectionProps {
   glucoseUnit: GlucoseUnit;
   bolusReadings?: InsulinReading[];
   basalReadings?: InsulinReading[];
+  // Insulin action settings for the bolus IOB at event start
+  insulinDuration?: number;
+  insulinModel?: InsulinModelSettings;
+  // User annotations added to the prompt
+  annotations?: DataAnnotation[];
   // API configuration
   perplexityApiKey: string;
   geminiApiKey: string;
   grokApiKey: string;
   deepseekApiKey: string;
+  // Base URL, model and optional API key of the custom provider
+  customProvider?: CustomProviderSettings;
   selectedProvider: AIProvider | null;
   responseLanguage: ResponseLanguage;
   // File ID for tracking file changes and persisting state
@@ -268,10 +276,14 @@ interface AIResponseCache {
  * @param glucoseUnit - Unit used for glucose values (e.g., mg/dL or mmol/L)
  * @param bolusReadings - Optional insulin bolus records used when deriving event context
  * @param basalReadings - Optional basal insulin records used when deriving event context
+ * @param insulinDuration - Insulin action duration in hours used for the bolus IOB at event start
+ * @param insulinModel - Insulin activity model used for the bolus IOB at event start
+ * @param annotations - User annotations added to the prompt
  * @param perplexityApiKey - Optional API key for the Perplexity provider
  * @param geminiApiKey - Optional API key for the Gemini provider
  * @param grokApiKey - Optional API key for the Grok provider
  * @param deepseekApiKey - Optional API key for the DeepSeek provider
+ * @param customProvider - Optional base URL, model and API key of the custom provider
  * @param selectedProvider - Optional selected AI provider; determines which API key is used
  * @param responseLanguage - Target language for AI responses
  * @returns A React element containing controls and views for preparing data, triggering AI analysis, showing progress/errors, and rendering cached or newly generated AI analyses for hypoglycemic events
@@ -283,10 +295,14 @@ export function HyposAISection({
   glucoseUnit,
   bolusReadings = [],
   basalReadings = [],
+  insulinDuration,
+  insulinModel,
+  annotations,
   perplexityApiKey,
   geminiApiKey,
   grokApiKey,
   deepseekApiKey,
+  customProvider = DEFAULT_CUSTOM_PROVIDER_SETTINGS,
   selectedProvider,
   responseLanguage,
   fileId,
@@ -343,7 +359,7 @@ export function HyposAISection({
   }, [analyzing]);
   
   // Get active AI provider
-  const activeProvider = getActiveProvider(selectedProvider, perplexityApiKey, geminiApiKey, grokApiKey, deepseekApiKey);
+  const activeProvider = getActiveProvider(selectedProvider, perplexityApiKey, geminiApiKey, grokApiKey, deepseekApiKey, customProvider);
   const hasApiKey = activeProvider !== null;
   
   // Clear AI response when file ID or provider changes
@@ -371,9 +387,11 @@ export function HyposAISection({
       thresholds,
       bolusReadings,
       basalReadings,
-      currentDate
+      currentDate,
+      insulinDuration,
+      insulinModel
     );
-  }, [allReadings, thresholds, bolusReadings, basalReadings, currentDate]);
+  }, [allReadings, thresholds, bolusReadings, basalReadings, currentDate, insulinDuration, insulinModel]);
   
   // Load all events asynchronously to avoid blocking page render
   // This computation is deferred to allow the UI to render immediately
@@ -389,7 +407,10 @@ export function HyposAISection({
           allReadings,
           thresholds,
           bolusReadings,
-          basalReadings
+          basalReadings,
+          undefined,
+          insulinDuration,
+          insulinModel
         );
         if (isMountedRef.current) {
           setAllEvents(events);
@@ -406,7 +427,7 @@ export function HyposAISection({
     }, 0);
     
     return () => clearTimeout(timeoutId);
-  }, [allReadings, thresholds, bolusReadings, basalReadings]);
+  }, [allReadings, thresholds, bolusReadings, basalReadings, insulinDuration, insulinModel]);
   
   // Get analyses for current date's events from the cache
   // Uses allEvents (which has consistent eventIds matching the AI response) 
@@ -468,18 +489,20 @@ export function HyposAISection({
         allEvents.length,
         responseLanguage,
         glucoseUnit,
-        activeProvider
+        activeProvider,
+        annotations
       );
       
       // Get the appropriate API key
       const apiKey = 
+        activeProvider === 'custom' ? customProvider.apiKey :
         activeProvider === 'perplexity' ? perplexityApiKey :
         activeProvider === 'grok' ? grokApiKey :
         activeProvider === 'deepseek' ? deepseekApiKey :
         geminiApiKey;
       
       // Call the AI API
-      const result = await callAIApi(activeProvider, apiKey, prompt);
+      const result = await callAIApi(activeProvider, apiKey, prompt, customProvider);
       
       if (!isMountedRef.current) return;
       
@@ -524,10 +547,12 @@ export function HyposAISection({
     allEvents,
     responseLanguage,
     glucoseUnit,
+    annotations,
     perplexityApiKey,
     geminiApiKey,
     grokApiKey,
     deepseekApiKey,
+    customProvider,
     dispatchToast,
     t,
   ]);
@@ -547,9 +572,10 @@ export function HyposAISection({
       allEvents.length,
       responseLanguage,
       glucoseUnit,
-      activeProvider ?? undefined
+      activeProvider ?? undefined,
+      annotations
     );
-  }, [loadingAllEvents, allEvents, responseLanguage, glucoseUnit, activeProvider]);
+  }, [loadingAllEvents, allEvents, responseLanguage, glucoseUnit, activeProvider, annotations]);
   
   // Render individual event analysis card with merged event data
   const renderEventCard = (analysis: EventAnalysis, event: DetailedHypoEvent | undefined, index: number) => {
@@ -643,6 +669,7 @@ export function HyposAISection({
                     <TableHeaderCell>Time of Day</TableHeaderCell>
                     <TableHeaderCell>Last Bolus</TableHeaderCell>
                     <TableHeaderCell>Bolus Prior (min)</TableHeaderCell>
+                    <TableHeaderCell>Bolus IOB (U)</TableHeaderCell>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -655,6 +682,7 @@ export function HyposAISection({
                       <TableCell>{event.timeOfDayCode}:00</TableCell>
                       <TableCell>{event.lastBolusUnits ?? 'N/A'}</TableCell>
                       <TableCell>{event.lastBolusMinsPrior ?? 'N/A'}</TableCell>
+                      <TableCell>{event.bolusIOBUnits ?? 'N/A'}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -828,6 +856,7 @@ export function HyposAISection({
                         <TableHeaderCell>Time of Day</TableHeaderCell>
                         <TableHeaderCell>Last Bolus</TableHeaderCell>
                         <TableHeaderCell>Bolus Prior (min)</TableHeaderCell>
+                        <TableHeaderCell>Bolus IOB (U)</TableHeaderCell>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -840,6 +869,7 @@ export function HyposAISection({
                           <TableCell>{event.timeOfDayCode}:00</TableCell>
                           <TableCell>{event.lastBolusUnits ?? 'N/A'}</TableCell>
                           <TableCell>{event.lastBolusMinsPrior ?? 'N/A'}</TableCell>
+                          <TableCell>{event.bolusIOBUnits ?? 'N/A'}</TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
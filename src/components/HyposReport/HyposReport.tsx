@@ -38,10 +38,14 @@ import {
 export function HyposReport({ 
   selectedFile, 
   glucoseUnit,
+  insulinDuration,
+  insulinModel,
+  annotations,
   perplexityApiKey = '',
   geminiApiKey = '',
   grokApiKey = '',
   deepseekApiKey = '',
+  customProvider,
   selectedProvider = null,
   responseLanguage = 'english',
   showGeekStats = false,
@@ -423,10 +427,14 @@ export function HyposReport({
         glucoseUnit={glucoseUnit}
         bolusReadings={bolusReadings}
         basalReadings={basalReadings}
+        insulinDuration={insulinDuration}
+        insulinModel={insulinModel}
+        annotations={annotations}
         perplexityApiKey={perplexityApiKey}
         geminiApiKey={geminiApiKey}
         grokApiKey={grokApiKey}
         deepseekApiKey={deepseekApiKey}
+        customProvider={customProvider}
         selectedProvider={selectedProvider}
         responseLanguage={responseLanguage}
         fileId={selectedFile?.id}
@@ -2,10 +2,11 @@
  * Types and constants for HyposReport components
  */
 
-import type { GlucoseUnit, UploadedFile, GlucoseThresholds } from '../../types';
+import type { GlucoseUnit, UploadedFile, GlucoseThresholds, InsulinModelSettings, DataAnnotation } from '../../types';
 import type { HypoStats } from '../../utils/data/hypoDataUtils';
 import type { ResponseLanguage } from '../../hooks/useResponseLanguage';
 import type { AIProvider } from '../../utils/api/aiApi';
+import type { CustomProviderSettings } from '../../utils/api/customApi';
 
 /**
  * Max glucose values for Y-axis toggle
@@ -39,11 +40,18 @@ export const TIME_LABELS: Record<number, string> = {
 export interface HyposReportProps {
   selectedFile?: UploadedFile;
   glucoseUnit: GlucoseUnit;
+  // Insulin action settings for the bolus IOB at event start
+  insulinDuration?: number;
+  insulinModel?: InsulinModelSettings;
+  // User annotations added to the AI prompt
+  annotations?: DataAnnotation[];
   // AI configuration props (optional - AI features disabled if not provided)
   perplexityApiKey?: string;
   geminiApiKey?: string;
   grokApiKey?: string;
   deepseekApiKey?: string;
+  /** Base URL, model and optional API key of the custom OpenAI-compatible provider */
+  customProvider?: CustomProviderSettings;
   selectedProvider?: AIProvider | null;
   responseLanguage?: ResponseLanguage;
   showGeekStats?: boolean;
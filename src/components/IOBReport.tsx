@@ -31,7 +31,7 @@ import {
   Legend,
   ResponsiveContainer,
 } from 'recharts';
-import type { UploadedFile, InsulinReading, HourlyIOBData } from '../types';
+import type { UploadedFile, InsulinReading, HourlyIOBData, InsulinModelSettings } from '../types';
 import { extractInsulinReadings, prepareHourlyIOBData } from '../utils/data';
 import { DayNavigator } from './DayNavigator';
 import { useSelectedDate } from '../hooks/useSelectedDate';
@@ -93,6 +93,7 @@ const useStyles = makeStyles({
 interface IOBReportProps {
   selectedFile?: UploadedFile;
   insulinDuration?: number;
+  insulinModel?: InsulinModelSettings;
 }
 
 // Custom tooltip component for the IOB chart
@@ -144,7 +145,7 @@ const formatXAxis = (value: string) => {
   return timeLabels[hour] || '';
 };
 
-export function IOBReport({ selectedFile, insulinDuration = 5 }: IOBReportProps) {
+export function IOBReport({ selectedFile, insulinDuration = 5, insulinModel }: IOBReportProps) {
   const styles = useStyles();
   const { selectedDate, setSelectedDate } = useSelectedDate(selectedFile?.id);
   const [loading, setLoading] = useState(false);
@@ -252,12 +253,12 @@ export function IOBReport({ selectedFile, insulinDuration = 5 }: IOBReportProps)
   // Calculate hourly IOB data when date or insulin duration changes
   useEffect(() => {
     if (selectedDate && allReadings.length > 0) {
-      const data = prepareHourlyIOBData(allReadings, selectedDate, insulinDuration);
+      const data = prepareHourlyIOBData(allReadings, selectedDate, insulinDuration, insulinModel);
       setHourlyData(data);
     } else {
       setHourlyData([]);
     }
-  }, [selectedDate, allReadings, insulinDuration]);
+  }, [selectedDate, allReadings, insulinDuration, insulinModel]);
 
   const handlePreviousDay = () => {
     if (currentDateIndex > 0) {
@@ -36,6 +36,7 @@ import type {
   GlucoseUnit,
 } from '../types';
 import type { ExportFormat } from '../hooks/useExportFormat';
+import type { DataQualityScope } from '../features/dataQuality';
 import { extractGlucoseReadings } from '../utils/data';
 import { extractInsulinReadings, aggregateInsulinByDate } from '../utils/data';
 import { groupByDayOfWeek, groupByDate, groupByWeek, calculatePercentage, GLUCOSE_RANGE_COLORS } from '../utils/data';
@@ -184,9 +185,11 @@ interface InRangeReportProps {
   selectedFile?: UploadedFile;
   exportFormat: ExportFormat;
   glucoseUnit: GlucoseUnit;
+  /** Called with the data source and date range shown, for the data quality banner */
+  onDataScopeChange?: (scope: DataQualityScope) => void;
 }
 
-export function InRangeReport({ selectedFile, exportFormat, glucoseUnit }: InRangeReportProps) {
+export function InRangeReport({ selectedFile, exportFormat, glucoseUnit, onDataScopeChange }: InRangeReportProps) {
   const styles = useStyles();
   const { thresholds } = useGlucoseThresholds();
   
@@ -214,6 +217,11 @@ export function InRangeReport({ selectedFile, exportFormat, glucoseUnit }: InRan
     clearDateRange
   } = useDateRange(selectedFile?.id);
 
+  // Let the data quality banner assess the data this report shows
+  useEffect(() => {
+    onDataScopeChange?.({ dataSource, startDate, endDate });
+  }, [onDataScopeChange, dataSource, startDate, endDate]);
+
   useEffect(() => {
     if (!selectedFile) {
       setReadings([]);
@@ -1,6 +1,7 @@
 /**
  * InsulinDailyReport component
- * Displays daily insulin report with navigation and timeline
+ * Displays daily insulin report with navigation and timeline,
+ * followed by a basal check from fasting windows across the whole file
  */
 
 import {
@@ -11,9 +12,15 @@ import {
   Spinner,
 } from '@fluentui/react-components';
 import { useState, useEffect, useRef } from 'react';
-import type { UploadedFile, InsulinReading } from '../types';
-import { extractInsulinReadings, prepareInsulinTimelineData } from '../utils/data';
+import type { UploadedFile, InsulinReading, GlucoseReading, CarbEntry, GlucoseUnit } from '../types';
+import {
+  extractInsulinReadings,
+  extractGlucoseReadings,
+  extractCarbEntries,
+  prepareInsulinTimelineData,
+} from '../utils/data';
 import { InsulinTimeline } from './InsulinTimeline';
+import { BasalDriftProfile } from './BasalDriftProfile';
 import { DayNavigator } from './DayNavigator';
 import { InsulinSummaryCards } from './InsulinSummaryCards';
 import { useSelectedDate } from '../hooks/useSelectedDate';
@@ -41,13 +48,16 @@ const useStyles = makeStyles({
 
 interface InsulinDailyReportProps {
   selectedFile?: UploadedFile;
+  glucoseUnit: GlucoseUnit;
 }
 
-export function InsulinDailyReport({ selectedFile }: InsulinDailyReportProps) {
+export function InsulinDailyReport({ selectedFile, glucoseUnit }: InsulinDailyReportProps) {
   const styles = useStyles();
   const { selectedDate, setSelectedDate } = useSelectedDate(selectedFile?.id);
   const [loading, setLoading] = useState(false);
   const [insulinReadings, setInsulinReadings] = useState<InsulinReading[]>([]);
+  const [cgmReadings, setCgmReadings] = useState<GlucoseReading[]>([]);
+  const [carbEntries, setCarbEntries] = useState<CarbEntry[]>([]);
   const [availableDates, setAvailableDates] = useState<string[]>([]);
   const [currentDateIndex, setCurrentDateIndex] = useState(0);
   const [timelineData, setTimelineData] = useState<Array<{
@@ -66,6 +76,8 @@ export function InsulinDailyReport({ selectedFile }: InsulinDailyReportProps) {
   useEffect(() => {
     if (!selectedFile) {
       setInsulinReadings([]);
+      setCgmReadings([]);
+      setCarbEntries([]);
       setAvailableDates([]);
       setCurrentDateIndex(0);
       setTimelineData([]);
@@ -96,8 +108,15 @@ export function InsulinDailyReport({ selectedFile }: InsulinDailyReportProps) {
     const loadData = async () => {
       setLoading(true);
       try {
-        const readings = await extractInsulinReadings(selectedFile);
+        // CGM and carbs are only needed for the basal check, so they may be missing
+        const [readings, cgm, carbs] = await Promise.all([
+          extractInsulinReadings(selectedFile),
+          extractGlucoseReadings(selectedFile, 'cgm').catch((): GlucoseReading[] => []),
+          extractCarbEntries(selectedFile).catch((): CarbEntry[] => []),
+        ]);
         setInsulinReadings(readings);
+        setCgmReadings(cgm);
+        setCarbEntries(carbs);
 
         // Extract unique dates from readings
         const dates = Array.from(
@@ -129,6 +148,8 @@ export function InsulinDailyReport({ selectedFile }: InsulinDailyReportProps) {
       } catch (error) {
         console.error('Failed to extract insulin data:', error);
         setInsulinReadings([]);
+        setCgmReadings([]);
+        setCarbEntries([]);
         setAvailableDates([]);
         loadedFileIdRef.current = undefined;
         hasAppliedSavedDateRef.current = false;
@@ -255,6 +276,16 @@ export function InsulinDailyReport({ selectedFile }: InsulinDailyReportProps) {
 
       {/* Timeline Chart */}
       <InsulinTimeline data={timelineData} />
+
+      {/* Basal check across all days */}
+      {cgmReadings.length > 0 && (
+        <BasalDriftProfile
+          cgmReadings={cgmReadings}
+          insulinReadings={insulinReadings}
+          carbEntries={carbEntries}
+          glucoseUnit={glucoseUnit}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,80 @@
+/**
+ * MealExcursionTable component
+ * Displays post-meal excursion statistics grouped by meal slot or day of week
+ */
+
+import {
+  Text,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHeaderCell,
+  TableBody,
+  TableCell,
+} from '@fluentui/react-components';
+import { useTranslation } from 'react-i18next';
+import { displayGlucoseValue, formatDuration } from '../../utils/data';
+import { useMealReportStyles } from './styles';
+import type { MealExcursionTableProps } from './types';
+
+/**
+ * Render a table of excursion summaries, one row per group.
+ *
+ * @param title - Section title shown above the table
+ * @param groupLabel - Header of the first (group) column
+ * @param rows - Summary rows to display
+ * @param glucoseUnit - Display unit for glucose deltas and areas
+ * @returns A section with the summary table, or null when there are no rows
+ */
+export function MealExcursionTable({ title, groupLabel, rows, glucoseUnit }: MealExcursionTableProps) {
+  const styles = useMealReportStyles();
+  const { t } = useTranslation('reports');
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={styles.sectionCard}>
+      <Text className={styles.sectionTitle}>{title}</Text>
+      <div className={styles.tableCard}>
+        <Table size="small">
+          <TableHeader>
+            <TableRow>
+              <TableHeaderCell>{groupLabel}</TableHeaderCell>
+              <TableHeaderCell className={styles.numericCell}>{t('reports.meals.table.meals')}</TableHeaderCell>
+              <TableHeaderCell className={styles.numericCell}>{t('reports.meals.table.carbs')}</TableHeaderCell>
+              <TableHeaderCell className={styles.numericCell}>{t('reports.meals.table.peakRise', { unit: glucoseUnit })}</TableHeaderCell>
+              <TableHeaderCell className={styles.numericCell}>{t('reports.meals.table.medianRise', { unit: glucoseUnit })}</TableHeaderCell>
+              <TableHeaderCell className={styles.numericCell}>{t('reports.meals.table.timeToPeak')}</TableHeaderCell>
+              <TableHeaderCell className={styles.numericCell}>{t('reports.meals.table.backToBaseline')}</TableHeaderCell>
+              <TableHeaderCell className={styles.numericCell}>{t('reports.meals.table.auc2h', { unit: glucoseUnit })}</TableHeaderCell>
+              <TableHeaderCell className={styles.numericCell}>{t('reports.meals.table.auc4h', { unit: glucoseUnit })}</TableHeaderCell>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(({ key, label, summary }) => (
+              <TableRow key={key}>
+                <TableCell>{label}</TableCell>
+                <TableCell className={styles.numericCell}>{summary.count}</TableCell>
+                <TableCell className={styles.numericCell}>{Math.round(summary.meanCarbs)}</TableCell>
+                <TableCell className={styles.numericCell}>{displayGlucoseValue(summary.meanPeakDelta, glucoseUnit)}</TableCell>
+                <TableCell className={styles.numericCell}>{displayGlucoseValue(summary.medianPeakDelta, glucoseUnit)}</TableCell>
+                <TableCell className={styles.numericCell}>{formatDuration(summary.meanTimeToPeakMinutes)}</TableCell>
+                <TableCell className={styles.numericCell}>
+                  {summary.meanTimeToBaselineMinutes !== null
+                    ? formatDuration(summary.meanTimeToBaselineMinutes)
+                    : '—'}
+                  {' '}
+                  ({summary.returnedToBaselineCount}/{summary.count})
+                </TableCell>
+                <TableCell className={styles.numericCell}>{displayGlucoseValue(summary.meanAuc2h, glucoseUnit)}</TableCell>
+                <TableCell className={styles.numericCell}>{displayGlucoseValue(summary.meanAuc4h, glucoseUnit)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * MealOverlayChart component
+ * Overlays post-meal CGM traces aligned on meal time, shown as change from the pre-meal baseline
+ */
+
+import { useMemo } from 'react';
+import { tokens } from '@fluentui/react-components';
+import { useTranslation } from 'react-i18next';
+import {
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RechartsTooltip,
+  ResponsiveContainer,
+  Line,
+  Area,
+  ComposedChart,
+  ReferenceLine,
+} from 'recharts';
+import { convertGlucoseValue, getUnitLabel } from '../../utils/data';
+import type { GlucoseUnit } from '../../types';
+import { useMealReportStyles } from './styles';
+import { MEAL_CHART_COLORS, MAX_OVERLAY_TRACES, type MealOverlayChartProps } from './types';
+
+/**
+ * Convert a delta in mmol/L to the display unit, keeping one decimal for mmol/L
+ */
+function convertDelta(value: number | null, glucoseUnit: GlucoseUnit): number | null {
+  if (value === null) return null;
+  return glucoseUnit === 'mg/dL'
+    ? convertGlucoseValue(value, glucoseUnit)
+    : Math.round(value * 10) / 10;
+}
+
+/**
+ * Format X-axis ticks as hours after the meal
+ */
+function formatXAxis(minutes: number): string {
+  return minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`;
+}
+
+/**
+ * Render the aligned post-meal trace overlay with median and interquartile band.
+ *
+ * @param overlayData - Aligned overlay points (deltas in mmol/L)
+ * @param traceCount - Number of traces in each overlay point
+ * @param glucoseUnit - Display unit for the Y axis
+ * @returns A chart card with legend
+ */
+export function MealOverlayChart({ overlayData, traceCount, glucoseUnit }: MealOverlayChartProps) {
+  const styles = useMealReportStyles();
+  const { t } = useTranslation('reports');
+
+  // Only the most recent traces are drawn individually
+  const firstDrawnTrace = Math.max(0, traceCount - MAX_OVERLAY_TRACES);
+
+  const chartData = useMemo(() => overlayData.map(point => {
+    const row: Record<string, number | null | [number, number]> = {
+      minutesFromMeal: point.minutesFromMeal,
+      median: convertDelta(point.median, glucoseUnit),
+    };
+    const p25 = convertDelta(point.p25, glucoseUnit);
+    const p75 = convertDelta(point.p75, glucoseUnit);
+    if (p25 !== null && p75 !== null) {
+      row.iqr = [p25, p75];
+    }
+    for (let i = firstDrawnTrace; i < traceCount; i++) {
+      row[`trace${i}`] = convertDelta(point.traces[i], glucoseUnit);
+    }
+    return row;
+  }), [overlayData, glucoseUnit, firstDrawnTrace, traceCount]);
+
+  const traceKeys = useMemo(() => {
+    const keys: string[] = [];
+    for (let i = firstDrawnTrace; i < traceCount; i++) {
+      keys.push(`trace${i}`);
+    }
+    return keys;
+  }, [firstDrawnTrace, traceCount]);
+
+  const maxMinutes = overlayData.length > 0 ? overlayData[overlayData.length - 1].minutesFromMeal : 240;
+  const ticks: number[] = [];
+  for (let m = 0; m <= maxMinutes; m += 60) {
+    ticks.push(m);
+  }
+
+  const axisTick = {
+    fill: tokens.colorNeutralForeground2,
+    fontSize: tokens.fontSizeBase200,
+    fontFamily: tokens.fontFamilyBase,
+  };
+
+  return (
+    <div className={styles.chartCard}>
+      <div className={styles.chartContainer}>
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData} margin={{ top: 10, right: 30, left: 10, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={tokens.colorNeutralStroke2} />
+            <XAxis
+              type="number"
+              dataKey="minutesFromMeal"
+              domain={[0, maxMinutes]}
+              ticks={ticks}
+              tickFormatter={formatXAxis}
+              stroke={tokens.colorNeutralStroke1}
+              tick={axisTick}
+              tickLine={false}
+            />
+            <YAxis
+              label={{
+                value: t('reports.meals.chart.yAxis', { unit: getUnitLabel(glucoseUnit) }),
+                angle: -90,
+                position: 'insideLeft',
+                style: {
+                  fontSize: tokens.fontSizeBase200,
+                  fontFamily: tokens.fontFamilyBase,
+                  fill: tokens.colorNeutralForeground2,
+                },
+              }}
+              stroke={tokens.colorNeutralStroke1}
+              tick={axisTick}
+              tickLine={false}
+            />
+            <RechartsTooltip
+              formatter={(value) => (Array.isArray(value) ? value.join(' – ') : value)}
+              labelFormatter={(minutes) => t('reports.meals.chart.tooltipLabel', { minutes })}
+              filterNull
+            />
+            <ReferenceLine y={0} stroke={MEAL_CHART_COLORS.baseline} strokeDasharray="5 5" />
+
+            {/* Individual traces - drawn faint, excluded from tooltip */}
+            {traceKeys.map(key => (
+              <Line
+                key={key}
+                type="monotone"
+                dataKey={key}
+                stroke={MEAL_CHART_COLORS.trace}
+                strokeOpacity={0.35}
+                strokeWidth={1}
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+                tooltipType="none"
+                connectNulls
+              />
+            ))}
+
+            <Area
+              type="monotone"
+              dataKey="iqr"
+              name={t('reports.meals.chart.iqr')}
+              stroke="none"
+              fill={MEAL_CHART_COLORS.iqr}
+              fillOpacity={0.3}
+              isAnimationActive={false}
+              connectNulls
+            />
+            <Line
+              type="monotone"
+              dataKey="median"
+              name={t('reports.meals.chart.median')}
+              stroke={MEAL_CHART_COLORS.median}
+              strokeWidth={3}
+              dot={false}
+              isAnimationActive={false}
+              connectNulls
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className={styles.legendContainer}>
+        <div className={styles.legendItem}>
+          <div className={styles.legendLine} style={{ backgroundColor: MEAL_CHART_COLORS.median }} />
+          <span>{t('reports.meals.chart.median')}</span>
+        </div>
+        <div className={styles.legendItem}>
+          <div className={styles.legendBand} style={{ backgroundColor: MEAL_CHART_COLORS.iqr }} />
+          <span>{t('reports.meals.chart.iqr')}</span>
+        </div>
+        <div className={styles.legendItem}>
+          <div className={styles.legendLine} style={{ backgroundColor: MEAL_CHART_COLORS.trace }} />
+          <span>{t('reports.meals.chart.individual', { count: Math.min(traceCount, MAX_OVERLAY_TRACES) })}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
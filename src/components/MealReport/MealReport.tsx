@@ -0,0 +1,248 @@
+/**
+ * MealReport component
+ * Detects meals from carb entries (food dataset and bolus carbs) and measures
+ * the post-prandial glucose excursion of each one: peak rise, time to peak,
+ * time back to baseline and area above baseline. Results are grouped by meal
+ * slot and day of week, with an overlay of aligned post-meal CGM traces.
+ * Rises that no bolus or carb entry announced are listed as missed boluses.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { Text, Link, TabList, Tab } from '@fluentui/react-components';
+import { useTranslation } from 'react-i18next';
+import type { CarbEntry, GlucoseReading, InsulinReading } from '../../types';
+import {
+  extractGlucoseReadings,
+  extractCarbEntries,
+  extractInsulinReadings,
+  groupCarbEntriesIntoMeals,
+  calculateMealExcursions,
+  summarizeMealExcursions,
+  summarizeExcursionsByMealSlot,
+  summarizeExcursionsByDayOfWeek,
+  buildMealOverlayData,
+  displayGlucoseValue,
+  formatDuration,
+  MEAL_SLOTS,
+} from '../../utils/data';
+import { useMealReportStyles } from './styles';
+import { MealOverlayChart } from './MealOverlayChart';
+import { MealExcursionTable } from './MealExcursionTable';
+import { MissedBolusSection } from './MissedBolusSection';
+import type { MealReportProps, MealSlotFilter, MealSummaryRow } from './types';
+
+export function MealReport({ selectedFile, glucoseUnit }: MealReportProps) {
+  const styles = useMealReportStyles();
+  const { t } = useTranslation('reports');
+
+  const [loading, setLoading] = useState(false);
+  const [readings, setReadings] = useState<GlucoseReading[]>([]);
+  const [carbEntries, setCarbEntries] = useState<CarbEntry[]>([]);
+  const [insulinReadings, setInsulinReadings] = useState<InsulinReading[]>([]);
+  const [slotFilter, setSlotFilter] = useState<MealSlotFilter>('all');
+
+  // Load CGM readings, carb entries and insulin when file is selected
+  useEffect(() => {
+    if (!selectedFile) {
+      setReadings([]);
+      setCarbEntries([]);
+      setInsulinReadings([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadData = async () => {
+      setLoading(true);
+      try {
+        const [cgm, carbs, insulin] = await Promise.all([
+          extractGlucoseReadings(selectedFile, 'cgm'),
+          extractCarbEntries(selectedFile),
+          extractInsulinReadings(selectedFile),
+        ]);
+        if (!cancelled) {
+          setReadings(cgm);
+          setCarbEntries(carbs);
+          setInsulinReadings(insulin);
+        }
+      } catch (error) {
+        console.error('Failed to load meal data:', error);
+        if (!cancelled) {
+          setReadings([]);
+          setCarbEntries([]);
+          setInsulinReadings([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadData();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedFile]);
+
+  const excursions = useMemo(() => {
+    const meals = groupCarbEntriesIntoMeals(carbEntries);
+    return calculateMealExcursions(meals, readings);
+  }, [carbEntries, readings]);
+
+  const filteredExcursions = useMemo(
+    () => slotFilter === 'all' ? excursions : excursions.filter(e => e.meal.slot === slotFilter),
+    [excursions, slotFilter]
+  );
+
+  const overallSummary = useMemo(() => summarizeMealExcursions(filteredExcursions), [filteredExcursions]);
+  const overlayData = useMemo(() => buildMealOverlayData(filteredExcursions), [filteredExcursions]);
+
+  const slotRows: MealSummaryRow[] = useMemo(
+    () => summarizeExcursionsByMealSlot(excursions).map(({ slot, summary }) => ({
+      key: slot,
+      label: t(`reports.meals.slots.${slot}`),
+      summary,
+    })),
+    [excursions, t]
+  );
+
+  const dayRows: MealSummaryRow[] = useMemo(
+    () => summarizeExcursionsByDayOfWeek(filteredExcursions).map(({ day, summary }) => ({
+      key: day,
+      label: t(`reports.daysOfWeek.${day}`),
+      summary,
+    })),
+    [filteredExcursions, t]
+  );
+
+  if (!selectedFile) {
+    return (
+      <div className={styles.container}>
+        <Text className={styles.noDataMessage}>{t('reports.meals.noFile')}</Text>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className={styles.container}>
+        <Text className={styles.noDataMessage}>{t('reports.meals.loading')}</Text>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <Text className={styles.reportTitle}>{t('reports.meals.title')}</Text>
+        <Text className={styles.reportSubtitle}>
+          {t('reports.meals.description')}
+          {' '}
+          <Link href="#ai/mealTiming">{t('reports.meals.aiLink')}</Link>
+        </Text>
+      </div>
+
+      {excursions.length === 0 ? (
+        <Text className={styles.noDataMessage}>
+          {carbEntries.length === 0 ? t('reports.meals.noCarbs') : t('reports.meals.noExcursions')}
+        </Text>
+      ) : (
+        <>
+          <TabList
+            selectedValue={slotFilter}
+            onTabSelect={(_, data) => setSlotFilter(data.value as MealSlotFilter)}
+            size="small"
+            appearance="subtle"
+          >
+            <Tab value="all">{t('reports.meals.slots.all')}</Tab>
+            {MEAL_SLOTS.map(slot => (
+              <Tab key={slot} value={slot}>{t(`reports.meals.slots.${slot}`)}</Tab>
+            ))}
+          </TabList>
+
+          {overallSummary ? (
+            <>
+              <div className={styles.summarySection}>
+                <div className={styles.summaryCard}>
+                  <Text className={styles.summaryLabel}>{t('reports.meals.summary.meals')}</Text>
+                  <Text className={styles.summaryValue}>{overallSummary.count}</Text>
+                </div>
+                <div className={styles.summaryCard}>
+                  <Text className={styles.summaryLabel}>{t('reports.meals.summary.medianRise')}</Text>
+                  <div className={styles.summaryValueRow}>
+                    <Text className={styles.summaryValue}>
+                      {displayGlucoseValue(overallSummary.medianPeakDelta, glucoseUnit)}
+                    </Text>
+                    <Text className={styles.summaryUnit}>{glucoseUnit}</Text>
+                  </div>
+                </div>
+                <div className={styles.summaryCard}>
+                  <Text className={styles.summaryLabel}>{t('reports.meals.summary.timeToPeak')}</Text>
+                  <Text className={styles.summaryValue}>{formatDuration(overallSummary.meanTimeToPeakMinutes)}</Text>
+                </div>
+                <div className={styles.summaryCard}>
+                  <Text className={styles.summaryLabel}>{t('reports.meals.summary.backToBaseline')}</Text>
+                  <Text className={styles.summaryValue}>
+                    {overallSummary.meanTimeToBaselineMinutes !== null
+                      ? formatDuration(overallSummary.meanTimeToBaselineMinutes)
+                      : '—'}
+                  </Text>
+                  <Text className={styles.summaryUnit}>
+                    {t('reports.meals.summary.returned', {
+                      returned: overallSummary.returnedToBaselineCount,
+                      total: overallSummary.count,
+                    })}
+                  </Text>
+                </div>
+                <div className={styles.summaryCard}>
+                  <Text className={styles.summaryLabel}>{t('reports.meals.summary.auc2h')}</Text>
+                  <div className={styles.summaryValueRow}>
+                    <Text className={styles.summaryValue}>
+                      {displayGlucoseValue(overallSummary.meanAuc2h, glucoseUnit)}
+                    </Text>
+                    <Text className={styles.summaryUnit}>{t('reports.meals.summary.areaUnit', { unit: glucoseUnit })}</Text>
+                  </div>
+                </div>
+              </div>
+
+              <div className={styles.sectionCard}>
+                <Text className={styles.sectionTitle}>{t('reports.meals.chart.title')}</Text>
+                <Text className={styles.sectionDescription}>{t('reports.meals.chart.description')}</Text>
+                <MealOverlayChart
+                  overlayData={overlayData}
+                  traceCount={filteredExcursions.length}
+                  glucoseUnit={glucoseUnit}
+                />
+              </div>
+            </>
+          ) : (
+            <Text className={styles.noDataMessage}>{t('reports.meals.noExcursionsForSlot')}</Text>
+          )}
+
+          <MealExcursionTable
+            title={t('reports.meals.bySlotTitle')}
+            groupLabel={t('reports.meals.table.slot')}
+            rows={slotRows}
+            glucoseUnit={glucoseUnit}
+          />
+
+          <MealExcursionTable
+            title={t('reports.meals.byDayTitle')}
+            groupLabel={t('reports.meals.table.day')}
+            rows={dayRows}
+            glucoseUnit={glucoseUnit}
+          />
+        </>
+      )}
+
+      {readings.length > 0 && (
+        <MissedBolusSection
+          readings={readings}
+          insulinReadings={insulinReadings}
+          carbEntries={carbEntries}
+          glucoseUnit={glucoseUnit}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+/**
+ * MissedBolusSection component
+ * Lists sustained glucose rises that no bolus or carb entry announced,
+ * counted per week and per meal slot
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  Text,
+  TabList,
+  Tab,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHeaderCell,
+  TableBody,
+  TableCell,
+} from '@fluentui/react-components';
+import { useTranslation } from 'react-i18next';
+import {
+  detectUnannouncedRises,
+  summarizeRiseEventsByWeek,
+  summarizeRiseEventsByMealSlot,
+  formatRoCValue,
+  DEFAULT_RISE_ROC_THRESHOLD,
+  RISE_EVENT_CLASSIFICATIONS,
+  type RiseEventCounts,
+} from '../../utils/data';
+import { formatDate } from '../../utils/formatting/formatters';
+import { useMealReportStyles } from './styles';
+import { MAX_RISE_EVENT_WEEKS, RISE_ROC_THRESHOLD_OPTIONS, type MissedBolusSectionProps } from './types';
+
+/**
+ * Render the missed bolus section with a rate of change selector and count tables.
+ *
+ * @param readings - CGM readings in mmol/L
+ * @param insulinReadings - Insulin readings; only boluses are used
+ * @param carbEntries - Carb entries (food dataset and bolus carbs)
+ * @param glucoseUnit - Display unit for the rate of change threshold
+ */
+export function MissedBolusSection({ readings, insulinReadings, carbEntries, glucoseUnit }: MissedBolusSectionProps) {
+  const styles = useMealReportStyles();
+  const { t } = useTranslation('reports');
+  const [rocThreshold, setRocThreshold] = useState<number>(DEFAULT_RISE_ROC_THRESHOLD);
+
+  const events = useMemo(
+    () => detectUnannouncedRises(readings, insulinReadings, carbEntries, { rocThreshold }),
+    [readings, insulinReadings, carbEntries, rocThreshold]
+  );
+
+  const weekRows = useMemo(
+    () => summarizeRiseEventsByWeek(events).slice(-MAX_RISE_EVENT_WEEKS).reverse().map(({ weekStart, counts }) => ({
+      key: weekStart,
+      label: formatDate(new Date(`${weekStart}T00:00:00`), { year: 'numeric', month: 'short', day: 'numeric' }),
+      counts,
+    })),
+    [events]
+  );
+
+  const slotRows = useMemo(
+    () => summarizeRiseEventsByMealSlot(events).map(({ slot, counts }) => ({
+      key: slot,
+      label: t(`reports.meals.slots.${slot}`),
+      counts,
+    })),
+    [events, t]
+  );
+
+  const renderTable = (title: string, groupLabel: string, rows: Array<{ key: string; label: string; counts: RiseEventCounts }>) => (
+    <div className={styles.tableCard}>
+      <Table size="small" aria-label={title}>
+        <TableHeader>
+          <TableRow>
+            <TableHeaderCell>{groupLabel}</TableHeaderCell>
+            <TableHeaderCell className={styles.numericCell}>{t('reports.meals.missedBoluses.total')}</TableHeaderCell>
+            {RISE_EVENT_CLASSIFICATIONS.map(classification => (
+              <TableHeaderCell key={classification} className={styles.numericCell}>
+                {t(`reports.meals.missedBoluses.classifications.${classification}`)}
+              </TableHeaderCell>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(({ key, label, counts }) => (
+            <TableRow key={key}>
+              <TableCell>{label}</TableCell>
+              <TableCell className={styles.numericCell}>{counts.total}</TableCell>
+              {RISE_EVENT_CLASSIFICATIONS.map(classification => (
+                <TableCell key={classification} className={styles.numericCell}>{counts[classification]}</TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  const rocUnit = `${glucoseUnit}/5 min`;
+
+  return (
+    <div className={styles.sectionCard}>
+      <Text className={styles.sectionTitle}>{t('reports.meals.missedBoluses.title')}</Text>
+      <Text className={styles.sectionDescription}>{t('reports.meals.missedBoluses.description')}</Text>
+
+      <TabList
+        selectedValue={String(rocThreshold)}
+        onTabSelect={(_, data) => setRocThreshold(Number(data.value))}
+        size="small"
+        appearance="subtle"
+        aria-label={t('reports.meals.missedBoluses.threshold')}
+      >
+        {RISE_ROC_THRESHOLD_OPTIONS.map(option => (
+          <Tab key={option} value={String(option)}>
+            {t('reports.meals.missedBoluses.thresholdOption', { value: formatRoCValue(option, glucoseUnit), unit: rocUnit })}
+          </Tab>
+        ))}
+      </TabList>
+
+      {events.length === 0 ? (
+        <Text className={styles.sectionDescription}>{t('reports.meals.missedBoluses.noEvents')}</Text>
+      ) : (
+        <>
+          <div className={styles.summarySection}>
+            <div className={styles.summaryCard}>
+              <Text className={styles.summaryLabel}>{t('reports.meals.missedBoluses.total')}</Text>
+              <Text className={styles.summaryValue}>{events.length}</Text>
+            </div>
+            {RISE_EVENT_CLASSIFICATIONS.map(classification => (
+              <div key={classification} className={styles.summaryCard}>
+                <Text className={styles.summaryLabel}>
+                  {t(`reports.meals.missedBoluses.classifications.${classification}`)}
+                </Text>
+                <Text className={styles.summaryValue}>
+                  {events.filter(e => e.classification === classification).length}
+                </Text>
+              </div>
+            ))}
+          </div>
+          <Text className={styles.sectionDescription}>{t('reports.meals.missedBoluses.legend')}</Text>
+
+          <Text className={styles.sectionTitle}>{t('reports.meals.missedBoluses.bySlotTitle')}</Text>
+          {renderTable(t('reports.meals.missedBoluses.bySlotTitle'), t('reports.meals.table.slot'), slotRows)}
+
+          <Text className={styles.sectionTitle}>
+            {t('reports.meals.missedBoluses.byWeekTitle', { weeks: MAX_RISE_EVENT_WEEKS })}
+          </Text>
+          {renderTable(
+            t('reports.meals.missedBoluses.byWeekTitle', { weeks: MAX_RISE_EVENT_WEEKS }),
+            t('reports.meals.missedBoluses.week'),
+            weekRows
+          )}
+        </>
+      )}
+    </div>
+  );
+}
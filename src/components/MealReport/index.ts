@@ -0,0 +1,11 @@
+/**
+ * MealReport Module
+ * Exports the main component and sub-components
+ */
+
+export { MealReport } from './MealReport';
+export { MealOverlayChart } from './MealOverlayChart';
+export { MealExcursionTable } from './MealExcursionTable';
+export { MissedBolusSection } from './MissedBolusSection';
+export { useMealReportStyles } from './styles';
+export * from './types';
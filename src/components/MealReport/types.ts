@@ -0,0 +1,83 @@
+/**
+ * Types and constants for MealReport components
+ */
+
+import type { CarbEntry, GlucoseReading, GlucoseUnit, InsulinReading, UploadedFile } from '../../types';
+import type { MealExcursionSummary, MealOverlayPoint, MealSlot } from '../../utils/data/mealDataUtils';
+
+/**
+ * Meal slot filter for the overlay chart ('all' shows every meal)
+ */
+export type MealSlotFilter = 'all' | MealSlot;
+
+/**
+ * Maximum number of individual traces drawn in the overlay chart
+ * (most recent meals are kept; the median band always uses all meals)
+ */
+export const MAX_OVERLAY_TRACES = 30;
+
+/**
+ * Colors for the meal overlay chart
+ */
+export const MEAL_CHART_COLORS = {
+  trace: '#90A4AE',      // Individual meal traces (drawn faint)
+  median: '#1976D2',     // Median excursion
+  iqr: '#64B5F6',        // Interquartile band
+  baseline: '#9E9E9E',   // Zero (baseline) line
+} as const;
+
+/**
+ * Rate of change thresholds offered for rise detection (mmol/L/5min)
+ */
+export const RISE_ROC_THRESHOLD_OPTIONS = [0.2, 0.3, 0.4] as const;
+
+/**
+ * Number of most recent weeks shown in the missed bolus table
+ */
+export const MAX_RISE_EVENT_WEEKS = 12;
+
+/**
+ * Props for the main MealReport component
+ */
+export interface MealReportProps {
+  selectedFile?: UploadedFile;
+  glucoseUnit: GlucoseUnit;
+}
+
+/**
+ * Props for the MealOverlayChart component
+ */
+export interface MealOverlayChartProps {
+  overlayData: MealOverlayPoint[];
+  traceCount: number;
+  glucoseUnit: GlucoseUnit;
+}
+
+/**
+ * Row of the excursion summary table
+ */
+export interface MealSummaryRow {
+  key: string;
+  label: string;
+  summary: MealExcursionSummary;
+}
+
+/**
+ * Props for the MealExcursionTable component
+ */
+export interface MealExcursionTableProps {
+  title: string;
+  groupLabel: string;
+  rows: MealSummaryRow[];
+  glucoseUnit: GlucoseUnit;
+}
+
+/**
+ * Props for the MissedBolusSection component
+ */
+export interface MissedBolusSectionProps {
+  readings: GlucoseReading[];
+  insulinReadings: InsulinReading[];
+  carbEntries: CarbEntry[];
+  glucoseUnit: GlucoseUnit;
+}
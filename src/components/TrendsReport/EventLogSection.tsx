@@ -0,0 +1,121 @@
+/**
+ * EventLogSection component
+ * Lets users log events such as a pump change, a new sensor brand or an
+ * illness, which are marked on the trend chart
+ */
+
+import { useState } from 'react';
+import {
+  Text,
+  Button,
+  Input,
+  Label,
+  Dropdown,
+  Option,
+  Tooltip,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHeaderCell,
+  TableBody,
+  TableCell,
+} from '@fluentui/react-components';
+import { AddRegular, DeleteRegular } from '@fluentui/react-icons';
+import { useTranslation } from 'react-i18next';
+import type { EventLogCategory } from '../../types';
+import { EVENT_LOG_CATEGORIES, MAX_EVENT_NOTE_LENGTH } from '../../hooks/useEventLog';
+import { useTrendsReportStyles } from './styles';
+import type { EventLogSectionProps } from './types';
+
+/**
+ * Render the event log with a form to add events and a table of logged events.
+ *
+ * @param events - Logged events sorted by date
+ * @param onAddEvent - Called with the new event when the user adds one
+ * @param onRemoveEvent - Called with the index of the event the user removes
+ * @returns The event log section
+ */
+export function EventLogSection({ events, onAddEvent, onRemoveEvent }: EventLogSectionProps) {
+  const styles = useTrendsReportStyles();
+  const { t } = useTranslation('reports');
+
+  const [date, setDate] = useState('');
+  const [category, setCategory] = useState<EventLogCategory>('pumpChange');
+  const [note, setNote] = useState('');
+
+  const handleAdd = () => {
+    onAddEvent({ date, category, note: note.trim() });
+    setNote('');
+  };
+
+  return (
+    <div className={styles.sectionCard}>
+      <Text className={styles.sectionTitle}>{t('reports.trends.events.title')}</Text>
+      <Text className={styles.sectionDescription}>{t('reports.trends.events.description')}</Text>
+
+      <div className={styles.eventForm}>
+        <div className={styles.eventField}>
+          <Label htmlFor="trend-event-date">{t('reports.trends.events.date')}</Label>
+          <Input id="trend-event-date" type="date" value={date} onChange={(_, data) => setDate(data.value)} />
+        </div>
+        <div className={styles.eventField}>
+          <Label id="trend-event-category">{t('reports.trends.events.category')}</Label>
+          <Dropdown
+            aria-labelledby="trend-event-category"
+            value={t(`reports.trends.events.categories.${category}`)}
+            selectedOptions={[category]}
+            onOptionSelect={(_, data) => data.optionValue && setCategory(data.optionValue as EventLogCategory)}
+          >
+            {EVENT_LOG_CATEGORIES.map(option => (
+              <Option key={option} value={option}>{t(`reports.trends.events.categories.${option}`)}</Option>
+            ))}
+          </Dropdown>
+        </div>
+        <div className={styles.eventField}>
+          <Label htmlFor="trend-event-note">{t('reports.trends.events.note')}</Label>
+          <Input
+            id="trend-event-note"
+            className={styles.eventNoteInput}
+            value={note}
+            maxLength={MAX_EVENT_NOTE_LENGTH}
+            onChange={(_, data) => setNote(data.value)}
+          />
+        </div>
+        <Button icon={<AddRegular />} disabled={!date} onClick={handleAdd}>
+          {t('reports.trends.events.add')}
+        </Button>
+      </div>
+
+      {events.length === 0 ? (
+        <Text className={styles.sectionDescription}>{t('reports.trends.events.none')}</Text>
+      ) : (
+        <div className={styles.tableCard}>
+          <Table size="small" aria-label={t('reports.trends.events.title')}>
+            <TableHeader>
+              <TableRow>
+                <TableHeaderCell>{t('reports.trends.events.date')}</TableHeaderCell>
+                <TableHeaderCell>{t('reports.trends.events.category')}</TableHeaderCell>
+                <TableHeaderCell>{t('reports.trends.events.note')}</TableHeaderCell>
+                <TableHeaderCell />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event, index) => (
+                <TableRow key={`${event.date}-${index}`}>
+                  <TableCell>{event.date}</TableCell>
+                  <TableCell>{t(`reports.trends.events.categories.${event.category}`)}</TableCell>
+                  <TableCell>{event.note}</TableCell>
+                  <TableCell>
+                    <Tooltip content={t('reports.trends.events.remove')} relationship="label">
+                      <Button appearance="subtle" size="small" icon={<DeleteRegular />} onClick={() => onRemoveEvent(index)} />
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * TrendChart component
+ * Charts one rolling metric across the whole file, with markers for
+ * detected change points and for events from the user's event log
+ */
+
+import { useMemo } from 'react';
+import { tokens } from '@fluentui/react-components';
+import { useTranslation } from 'react-i18next';
+import {
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip as RechartsTooltip,
+  ResponsiveContainer,
+  Line,
+  LineChart,
+  ReferenceLine,
+} from 'recharts';
+import { getUnitLabel } from '../../utils/data';
+import { useTrendsReportStyles } from './styles';
+import { formatTrendValue, toDisplayTrendValue } from './formatters';
+import { TREND_CHART_COLORS, type TrendChartProps } from './types';
+
+/**
+ * Render the rolling metric line with change point and event markers.
+ *
+ * @param points - Rolling metric values, one per calendar day
+ * @param metric - Metric to chart
+ * @param changePoints - Change points of the charted metric
+ * @param events - Event log entries; events outside the charted dates are skipped
+ * @param annotationMarkers - User annotations; those outside the charted dates are skipped
+ * @param glucoseUnit - Display unit for mean glucose
+ * @param onDateClick - Called with the clicked date to add an annotation
+ * @returns A chart card with legend
+ */
+export function TrendChart({ points, metric, changePoints, events, annotationMarkers, glucoseUnit, onDateClick }: TrendChartProps) {
+  const styles = useTrendsReportStyles();
+  const { t } = useTranslation('reports');
+
+  const chartData = useMemo(() => points.map(point => {
+    const raw = point[metric];
+    return {
+      date: point.date,
+      raw,
+      value: raw !== null ? toDisplayTrendValue(metric, raw, glucoseUnit) : null,
+    };
+  }), [points, metric, glucoseUnit]);
+
+  const firstDate = points.length > 0 ? points[0].date : '';
+  const lastDate = points.length > 0 ? points[points.length - 1].date : '';
+  const chartedEvents = events.filter(event => event.date >= firstDate && event.date <= lastDate);
+  const chartedAnnotations = annotationMarkers.filter(marker => marker.date >= firstDate && marker.date <= lastDate);
+
+  const axisTick = {
+    fill: tokens.colorNeutralForeground2,
+    fontSize: tokens.fontSizeBase200,
+    fontFamily: tokens.fontFamilyBase,
+  };
+
+  return (
+    <div className={styles.chartCard}>
+      <div className={styles.chartContainer}>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={chartData}
+            margin={{ top: 24, right: 30, left: 10, bottom: 0 }}
+            onClick={onDateClick ? (state) => {
+              if (state.activeLabel !== undefined) onDateClick(String(state.activeLabel));
+            } : undefined}
+            style={onDateClick ? { cursor: 'pointer' } : undefined}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke={tokens.colorNeutralStroke2} />
+            <XAxis
+              dataKey="date"
+              stroke={tokens.colorNeutralStroke1}
+              tick={axisTick}
+              tickLine={false}
+              minTickGap={40}
+            />
+            <YAxis
+              label={{
+                value: t(`reports.trends.metrics.${metric}`, { unit: getUnitLabel(glucoseUnit) }),
+                angle: -90,
+                position: 'insideLeft',
+                style: {
+                  fontSize: tokens.fontSizeBase200,
+                  fontFamily: tokens.fontFamilyBase,
+                  fill: tokens.colorNeutralForeground2,
+                },
+              }}
+              domain={['auto', 'auto']}
+              stroke={tokens.colorNeutralStroke1}
+              tick={axisTick}
+              tickLine={false}
+            />
+            <RechartsTooltip
+              formatter={(_value, _name, item) => {
+                const raw = (item.payload as { raw: number | null }).raw;
+                return raw !== null ? formatTrendValue(metric, raw, glucoseUnit) : '–';
+              }}
+            />
+
+            {chartedEvents.map((event, index) => (
+              <ReferenceLine
+                key={`event-${index}`}
+                x={event.date}
+                stroke={TREND_CHART_COLORS.event}
+                strokeWidth={2}
+                label={{
+                  value: t(`reports.trends.events.categories.${event.category}`),
+                  position: 'insideTopLeft',
+                  fill: TREND_CHART_COLORS.event,
+                  fontSize: 11,
+                }}
+              />
+            ))}
+
+            {chartedAnnotations.map(marker => (
+              <ReferenceLine
+                key={`annotation-${marker.id}`}
+                x={marker.date}
+                stroke={marker.color}
+                strokeWidth={1}
+                strokeOpacity={0.7}
+              />
+            ))}
+
+            {changePoints.map(changePoint => (
+              <ReferenceLine
+                key={`change-${changePoint.date}`}
+                x={changePoint.date}
+                stroke={TREND_CHART_COLORS.changePoint}
+                strokeDasharray="5 5"
+                strokeWidth={2}
+                label={{
+                  value: changePoint.delta > 0 ? '▲' : '▼',
+                  position: 'top',
+                  fill: TREND_CHART_COLORS.changePoint,
+                  fontSize: 12,
+                }}
+              />
+            ))}
+
+            <Line
+              type="monotone"
+              dataKey="value"
+              name={t(`reports.trends.metrics.${metric}`, { unit: getUnitLabel(glucoseUnit) })}
+              stroke={TREND_CHART_COLORS.metric}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className={styles.legendContainer}>
+        <div className={styles.legendItem}>
+          <div className={styles.legendLine} style={{ backgroundColor: TREND_CHART_COLORS.metric }} />
+          <span>{t(`reports.trends.metrics.${metric}`, { unit: getUnitLabel(glucoseUnit) })}</span>
+        </div>
+        <div className={styles.legendItem}>
+          <div className={styles.legendLine} style={{ backgroundColor: TREND_CHART_COLORS.changePoint }} />
+          <span>{t('reports.trends.chart.changePoint')}</span>
+        </div>
+        <div className={styles.legendItem}>
+          <div className={styles.legendLine} style={{ backgroundColor: TREND_CHART_COLORS.event }} />
+          <span>{t('reports.trends.chart.event')}</span>
+        </div>
+        {chartedAnnotations.length > 0 && (
+          <div className={styles.legendItem}>
+            <div className={styles.legendLine} style={{ backgroundColor: tokens.colorNeutralStroke1 }} />
+            <span>{t('reports.trends.chart.annotation')}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+/**
+ * TrendsReport component
+ * Longitudinal view of the whole file: rolling 7/14/30-day TIR, TBR, GMI,
+ * CV, mean glucose, total daily dose and hypo rate, with markers where a
+ * metric shifts significantly, events from the user's event log and the
+ * user's annotations; clicking the chart annotates the day.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Text,
+  TabList,
+  Tab,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHeaderCell,
+  TableBody,
+  TableCell,
+} from '@fluentui/react-components';
+import { useTranslation } from 'react-i18next';
+import type { GlucoseReading, InsulinReading } from '../../types';
+import {
+  extractGlucoseReadings,
+  extractInsulinReadings,
+  calculateDailyTrendTotals,
+  calculateRollingTrends,
+  detectTrendChangePoints,
+  getUnitLabel,
+  ROLLING_WINDOW_DAYS,
+  TREND_METRICS,
+  type RollingWindowDays,
+  type TrendMetricKey,
+} from '../../utils/data';
+import { useGlucoseThresholds } from '../../hooks/useGlucoseThresholds';
+import { useEventLog } from '../../hooks/useEventLog';
+import { NO_ANNOTATIONS, useAnnotationMarkers } from '../Annotations';
+import { useTrendsReportStyles } from './styles';
+import { TrendChart } from './TrendChart';
+import { EventLogSection } from './EventLogSection';
+import { formatTrendValue } from './formatters';
+import { TREND_METRIC_HIGHER_IS_BETTER, type TrendsReportProps } from './types';
+
+export function TrendsReport({ selectedFile, glucoseUnit, annotations = NO_ANNOTATIONS, onAnnotate }: TrendsReportProps) {
+  const styles = useTrendsReportStyles();
+  const { t } = useTranslation('reports');
+  const { thresholds } = useGlucoseThresholds();
+  const { events, addEvent, removeEvent } = useEventLog();
+  const annotationMarkers = useAnnotationMarkers(annotations);
+
+  const [loading, setLoading] = useState(false);
+  const [readings, setReadings] = useState<GlucoseReading[]>([]);
+  const [insulinReadings, setInsulinReadings] = useState<InsulinReading[]>([]);
+  const [metric, setMetric] = useState<TrendMetricKey>('timeInRange');
+  const [windowDays, setWindowDays] = useState<RollingWindowDays>(14);
+
+  // Load CGM readings and insulin when file is selected
+  useEffect(() => {
+    if (!selectedFile) {
+      setReadings([]);
+      setInsulinReadings([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadData = async () => {
+      setLoading(true);
+      try {
+        const [cgm, insulin] = await Promise.all([
+          extractGlucoseReadings(selectedFile, 'cgm'),
+          extractInsulinReadings(selectedFile),
+        ]);
+        if (!cancelled) {
+          setReadings(cgm);
+          setInsulinReadings(insulin);
+        }
+      } catch (error) {
+        console.error('Failed to load trend data:', error);
+        if (!cancelled) {
+          setReadings([]);
+          setInsulinReadings([]);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadData();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedFile]);
+
+  const dailyTotals = useMemo(
+    () => calculateDailyTrendTotals(readings, insulinReadings, thresholds),
+    [readings, insulinReadings, thresholds]
+  );
+  const points = useMemo(() => calculateRollingTrends(dailyTotals, windowDays), [dailyTotals, windowDays]);
+  const changePoints = useMemo(() => detectTrendChangePoints(dailyTotals), [dailyTotals]);
+  const metricChangePoints = useMemo(() => changePoints.filter(point => point.metric === metric), [changePoints, metric]);
+
+  const unit = getUnitLabel(glucoseUnit);
+
+  if (!selectedFile) {
+    return (
+      <div className={styles.container}>
+        <Text className={styles.noDataMessage}>{t('reports.trends.noFile')}</Text>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className={styles.container}>
+        <Text className={styles.noDataMessage}>{t('reports.trends.loading')}</Text>
+      </div>
+    );
+  }
+
+  const getDeltaClass = (key: TrendMetricKey, delta: number): string | undefined => {
+    const higherIsBetter = TREND_METRIC_HIGHER_IS_BETTER[key];
+    if (higherIsBetter === null) return undefined;
+    return (delta > 0) === higherIsBetter ? styles.improved : styles.worsened;
+  };
+
+  const formatDelta = (key: TrendMetricKey, delta: number): string => {
+    const sign = delta > 0 ? '+' : '';
+    return `${sign}${formatTrendValue(key, delta, glucoseUnit)}`;
+  };
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <Text className={styles.reportTitle}>{t('reports.trends.title')}</Text>
+        <Text className={styles.reportSubtitle}>{t('reports.trends.description')}</Text>
+      </div>
+
+      {dailyTotals.length === 0 ? (
+        <Text className={styles.noDataMessage}>{t('reports.trends.noData')}</Text>
+      ) : (
+        <>
+          <div className={styles.sectionCard}>
+            <TabList
+              selectedValue={metric}
+              onTabSelect={(_, data) => setMetric(data.value as TrendMetricKey)}
+              size="small"
+              appearance="subtle"
+            >
+              {TREND_METRICS.map(key => (
+                <Tab key={key} value={key}>{t(`reports.trends.metricTabs.${key}`)}</Tab>
+              ))}
+            </TabList>
+
+            <div className={styles.controls}>
+              <Text className={styles.sectionDescription}>{t('reports.trends.window')}</Text>
+              <TabList
+                selectedValue={String(windowDays)}
+                onTabSelect={(_, data) => setWindowDays(Number(data.value) as RollingWindowDays)}
+                size="small"
+              >
+                {ROLLING_WINDOW_DAYS.map(days => (
+                  <Tab key={days} value={String(days)}>{t('reports.trends.windowDays', { days })}</Tab>
+                ))}
+              </TabList>
+            </div>
+
+            <TrendChart
+              points={points}
+              metric={metric}
+              changePoints={metricChangePoints}
+              events={events}
+              annotationMarkers={annotationMarkers}
+              glucoseUnit={glucoseUnit}
+              onDateClick={onAnnotate ? (date) => onAnnotate({ date }) : undefined}
+            />
+          </div>
+
+          <div className={styles.sectionCard}>
+            <Text className={styles.sectionTitle}>{t('reports.trends.changePoints.title')}</Text>
+            <Text className={styles.sectionDescription}>{t('reports.trends.changePoints.description')}</Text>
+            {changePoints.length === 0 ? (
+              <Text className={styles.sectionDescription}>{t('reports.trends.changePoints.none')}</Text>
+            ) : (
+              <div className={styles.tableCard}>
+                <Table size="small" aria-label={t('reports.trends.changePoints.title')}>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHeaderCell>{t('reports.trends.changePoints.date')}</TableHeaderCell>
+                      <TableHeaderCell>{t('reports.trends.changePoints.metric')}</TableHeaderCell>
+                      <TableHeaderCell className={styles.numericCell}>{t('reports.trends.changePoints.before')}</TableHeaderCell>
+                      <TableHeaderCell className={styles.numericCell}>{t('reports.trends.changePoints.after')}</TableHeaderCell>
+                      <TableHeaderCell className={styles.numericCell}>{t('reports.trends.changePoints.change')}</TableHeaderCell>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changePoints.map(changePoint => (
+                      <TableRow key={`${changePoint.metric}-${changePoint.date}`}>
+                        <TableCell>{changePoint.date}</TableCell>
+                        <TableCell>{t(`reports.trends.metrics.${changePoint.metric}`, { unit })}</TableCell>
+                        <TableCell className={styles.numericCell}>
+                          {formatTrendValue(changePoint.metric, changePoint.before, glucoseUnit)}
+                        </TableCell>
+                        <TableCell className={styles.numericCell}>
+                          {formatTrendValue(changePoint.metric, changePoint.after, glucoseUnit)}
+                        </TableCell>
+                        <TableCell className={styles.numericCell}>
+                          <span className={getDeltaClass(changePoint.metric, changePoint.delta)}>
+                            {formatDelta(changePoint.metric, changePoint.delta)}
+                          </span>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      <EventLogSection events={events} onAddEvent={addEvent} onRemoveEvent={removeEvent} />
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+/**
+ * Value formatting for TrendsReport components
+ */
+
+import type { GlucoseUnit } from '../../types';
+import { convertGlucoseValue, displayGlucoseValue } from '../../utils/data';
+import type { TrendMetricKey } from '../../utils/data/trendUtils';
+import { formatNumber } from '../../utils/formatting/formatters';
+
+/**
+ * Convert a metric value to its display unit (only mean glucose depends on the glucose unit)
+ */
+export function toDisplayTrendValue(metric: TrendMetricKey, value: number, glucoseUnit: GlucoseUnit): number {
+  return metric === 'meanGlucose' ? convertGlucoseValue(value, glucoseUnit) : value;
+}
+
+/**
+ * Format a metric value with its unit
+ */
+export function formatTrendValue(metric: TrendMetricKey, value: number, glucoseUnit: GlucoseUnit): string {
+  switch (metric) {
+    case 'meanGlucose':
+      return displayGlucoseValue(value, glucoseUnit);
+    case 'totalDailyDose':
+      return `${formatNumber(value, 1)} U`;
+    case 'hyposPerWeek':
+      return formatNumber(value, 1);
+    default:
+      return `${formatNumber(value, 1)}%`;
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * TrendsReport Module
+ * Exports the main component and sub-components
+ */
+
+export { TrendsReport } from './TrendsReport';
+export { TrendChart } from './TrendChart';
+export { EventLogSection } from './EventLogSection';
+export { useTrendsReportStyles } from './styles';
+export * from './types';
@@ -0,0 +1,65 @@
+/**
+ * Types and constants for TrendsReport components
+ */
+
+import type { DataAnnotation, EventLogEntry, GlucoseUnit, UploadedFile } from '../../types';
+import type { TrendChangePoint, TrendMetricKey, TrendPoint } from '../../utils/data/trendUtils';
+import type { AnnotationMarker, AnnotationTarget } from '../Annotations';
+
+/**
+ * Colors for the trend chart
+ */
+export const TREND_CHART_COLORS = {
+  metric: '#1976D2',       // Rolling metric line
+  changePoint: '#F57C00',  // Change point markers
+  event: '#7B1FA2',        // Event log markers
+} as const;
+
+/**
+ * Whether an increase of each metric is an improvement (null when neither direction is better)
+ */
+export const TREND_METRIC_HIGHER_IS_BETTER: Record<TrendMetricKey, boolean | null> = {
+  timeInRange: true,
+  timeBelowRange: false,
+  gmi: false,
+  cv: false,
+  meanGlucose: false,
+  totalDailyDose: null,
+  hyposPerWeek: false,
+};
+
+/**
+ * Props for the main TrendsReport component
+ */
+export interface TrendsReportProps {
+  selectedFile?: UploadedFile;
+  glucoseUnit: GlucoseUnit;
+  /** User annotations of the dataset (already filtered by tag) */
+  annotations?: DataAnnotation[];
+  /** Called with the clicked day of the trend chart to add an annotation */
+  onAnnotate?: (target: AnnotationTarget) => void;
+}
+
+/**
+ * Props for the TrendChart component
+ */
+export interface TrendChartProps {
+  points: TrendPoint[];
+  metric: TrendMetricKey;
+  /** Change points of the charted metric */
+  changePoints: TrendChangePoint[];
+  events: EventLogEntry[];
+  annotationMarkers: AnnotationMarker[];
+  glucoseUnit: GlucoseUnit;
+  /** Called with the clicked date; when set, clicking the chart adds an annotation */
+  onDateClick?: (date: string) => void;
+}
+
+/**
+ * Props for the EventLogSection component
+ */
+export interface EventLogSectionProps {
+  events: EventLogEntry[];
+  onAddEvent: (event: EventLogEntry) => void;
+  onRemoveEvent: (index: number) => void;
+}
@@ -14,6 +14,13 @@ vi.mock('../utils/data', () => ({
   extractGlucoseReadings: vi.fn(),
   prepareInsulinTimelineData: vi.fn(),
   filterReadingsByDate: vi.fn(),
+  extractCarbEntries: vi.fn().mockResolvedValue([]),
+  estimateForecastSensitivity: vi.fn().mockReturnValue({ isf: 2, icr: 10, csf: 0.2, source: 'default' }),
+  calculateGlucoseForecast: vi.fn().mockReturnValue([]),
+  detectForecastDeviations: vi.fn().mockReturnValue([]),
+  getAnnotationsForDate: vi.fn().mockReturnValue([]),
+  getAnnotationTimeDecimal: vi.fn().mockReturnValue(null),
+  formatAnnotationTime: vi.fn().mockReturnValue('00:00'),
 }));
 
 // Mock the child components
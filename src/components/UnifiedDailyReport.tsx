@@ -10,13 +10,25 @@ import {
   shorthands,
   Spinner,
 } from '@fluentui/react-components';
-import { useState, useEffect, useRef } from 'react';
-import type { UploadedFile, InsulinReading, GlucoseReading, GlucoseUnit } from '../types';
-import { extractInsulinReadings, prepareInsulinTimelineData, extractGlucoseReadings, filterReadingsByDate } from '../utils/data';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import type { UploadedFile, InsulinReading, GlucoseReading, GlucoseUnit, CarbEntry, InsulinModelSettings, DataAnnotation } from '../types';
+import {
+  extractInsulinReadings,
+  prepareInsulinTimelineData,
+  extractGlucoseReadings,
+  filterReadingsByDate,
+  extractCarbEntries,
+  estimateForecastSensitivity,
+  calculateGlucoseForecast,
+  detectForecastDeviations,
+  getAnnotationsForDate,
+  formatAnnotationTime,
+} from '../utils/data';
 import { DayNavigator } from './DayNavigator';
 import { useSelectedDate } from '../hooks/useSelectedDate';
 import { UnifiedTimeline } from './UnifiedTimeline';
 import { useBGColorScheme } from '../hooks/useBGColorScheme';
+import { NO_ANNOTATIONS, useAnnotationMarkers, type AnnotationTarget } from './Annotations';
 
 const useStyles = makeStyles({
   container: {
@@ -55,17 +67,29 @@ const useStyles = makeStyles({
 interface UnifiedDailyReportProps {
   selectedFile?: UploadedFile;
   glucoseUnit: GlucoseUnit;
+  insulinDuration?: number;
+  insulinModel?: InsulinModelSettings;
+  /** User annotations of the dataset (already filtered by tag) */
+  annotations?: DataAnnotation[];
+  /** Called with the clicked point of the timeline to add an annotation */
+  onAnnotate?: (target: AnnotationTarget) => void;
 }
 
-export function UnifiedDailyReport({ selectedFile, glucoseUnit }: UnifiedDailyReportProps) {
+export function UnifiedDailyReport({ selectedFile, glucoseUnit, insulinDuration = 5, insulinModel, annotations = NO_ANNOTATIONS, onAnnotate }: UnifiedDailyReportProps) {
   const styles = useStyles();
   const { selectedDate, setSelectedDate } = useSelectedDate(selectedFile?.id);
   const { colorScheme, setColorScheme } = useBGColorScheme();
   const [loading, setLoading] = useState(false);
   const [insulinReadings, setInsulinReadings] = useState<InsulinReading[]>([]);
   const [glucoseReadings, setGlucoseReadings] = useState<GlucoseReading[]>([]);
+  const [carbEntries, setCarbEntries] = useState<CarbEntry[]>([]);
   const [availableDates, setAvailableDates] = useState<string[]>([]);
   const [currentDateIndex, setCurrentDateIndex] = useState(0);
+  const dayAnnotations = useMemo(
+    () => getAnnotationsForDate(annotations, availableDates[currentDateIndex] ?? ''),
+    [annotations, availableDates, currentDateIndex]
+  );
+  const annotationMarkers = useAnnotationMarkers(dayAnnotations);
   const [timelineData, setTimelineData] = useState<Array<{
     hour: number;
     timeLabel: string;
@@ -86,6 +110,7 @@ export function UnifiedDailyReport({ selectedFile, glucoseUnit }: UnifiedDailyRe
     if (!selectedFile) {
       setInsulinReadings([]);
       setGlucoseReadings([]);
+      setCarbEntries([]);
       setAvailableDates([]);
       setCurrentDateIndex(0);
       setTimelineData([]);
@@ -129,6 +154,14 @@ export function UnifiedDailyReport({ selectedFile, glucoseUnit }: UnifiedDailyRe
           setGlucoseReadings([]);
         }
 
+        // Carb entries drive carbs on board in the forecast
+        try {
+          setCarbEntries(await extractCarbEntries(selectedFile));
+        } catch (error) {
+          console.log('No carb data available:', error);
+          setCarbEntries([]);
+        }
+
         // Extract unique dates from insulin readings
         const dates = Array.from(
           new Set(
@@ -191,6 +224,12 @@ export function UnifiedDailyReport({ selectedFile, glucoseUnit }: UnifiedDailyRe
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentDateIndex, availableDates, insulinReadings]);
 
+  // Ratios for the forecast are estimated once from the whole file
+  const forecastSensitivity = useMemo(
+    () => estimateForecastSensitivity(insulinReadings, carbEntries, glucoseReadings),
+    [insulinReadings, carbEntries, glucoseReadings]
+  );
+
   const handlePreviousDay = () => {
     if (currentDateIndex > 0) {
       setCurrentDateIndex(currentDateIndex - 1);
@@ -251,6 +290,14 @@ export function UnifiedDailyReport({ selectedFile, glucoseUnit }: UnifiedDailyRe
     ? filterReadingsByDate(glucoseReadings, currentDate)
     : [];
 
+  // Forecast each reading from the one an hour earlier (which may be on the previous day)
+  const forecast = calculateGlucoseForecast(currentGlucoseReadings, insulinReadings, carbEntries, forecastSensitivity, {
+    history: glucoseReadings,
+    insulinDuration,
+    insulinModel,
+  });
+  const forecastDeviations = detectForecastDeviations(forecast, insulinReadings, carbEntries);
+
   return (
     <div className={styles.container}>
       {/* Navigation Bar */}
@@ -274,6 +321,12 @@ export function UnifiedDailyReport({ selectedFile, glucoseUnit }: UnifiedDailyRe
         maxGlucose={maxGlucose}
         setMaxGlucose={setMaxGlucose}
         glucoseUnit={glucoseUnit}
+        forecast={forecast}
+        forecastDeviations={forecastDeviations}
+        annotationMarkers={annotationMarkers}
+        onChartClick={onAnnotate
+          ? (timeDecimal) => onAnnotate({ date: currentDate, time: formatAnnotationTime(timeDecimal) })
+          : undefined}
       />
     </div>
   );
@@ -167,4 +167,46 @@ describe('UnifiedTimeline', () => {
     // Should render with merged data - verify legend is present
     expect(screen.getByText(/glucose \(cgm data\)/i)).toBeInTheDocument();
   });
+
+  it('should render forecast legend items when a forecast is provided', () => {
+    const forecast = mockGlucoseReadings.map(reading => ({
+      timestamp: reading.timestamp,
+      actual: reading.value,
+      predicted: 6.0,
+      iob: 1.0,
+      cob: 20,
+    }));
+    const forecastDeviations = [{
+      start: new Date('2025-01-14T11:00:00'),
+      end: new Date('2025-01-14T12:00:00'),
+      peakError: 3.2,
+      type: 'missedBolus' as const,
+    }];
+
+    render(
+      <UnifiedTimeline 
+        {...defaultProps}
+        insulinData={mockInsulinData} 
+        glucoseReadings={mockGlucoseReadings}
+        forecast={forecast}
+        forecastDeviations={forecastDeviations}
+      />
+    );
+    
+    expect(screen.getByText(/predicted \(from iob and cob/i)).toBeInTheDocument();
+    expect(screen.getByText(/^carbs on board$/i)).toBeInTheDocument();
+    expect(screen.getByText(/rise not explained by logged carbs/i)).toBeInTheDocument();
+  });
+
+  it('should not render forecast legend items without a forecast', () => {
+    render(
+      <UnifiedTimeline 
+        {...defaultProps}
+        insulinData={mockInsulinData} 
+        glucoseReadings={mockGlucoseReadings}
+      />
+    );
+    
+    expect(screen.queryByText(/predicted \(from iob and cob/i)).not.toBeInTheDocument();
+  });
 });
@@ -17,6 +17,7 @@ import {
   ComposedChart,
   Line,
   Bar,
+  Area,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -24,14 +25,17 @@ import {
   Legend,
   ResponsiveContainer,
   ReferenceLine,
+  ReferenceArea,
 } from 'recharts';
 import { InsulinTotalsBar } from './InsulinTotalsBar';
 import type { GlucoseReading, GlucoseUnit } from '../types';
 import { useGlucoseThresholds } from '../hooks/useGlucoseThresholds';
 import { calculateGlucoseRangeStats, GLUCOSE_RANGE_COLORS, MIN_PERCENTAGE_TO_DISPLAY, convertGlucoseValue, getUnitLabel, formatGlucoseValue } from '../utils/data';
+import type { GlucoseForecastPoint, ForecastDeviation, ForecastDeviationType } from '../utils/data';
 import { COLOR_SCHEME_DESCRIPTORS, getGlucoseColor, isDynamicColorScheme } from '../utils/formatting';
 import type { BGColorScheme } from '../hooks/useBGColorScheme';
 import { formatInsulinDose } from '../utils/formatting/formatters';
+import type { AnnotationMarker } from './Annotations';
 
 const useStyles = makeStyles({
   container: {
@@ -131,8 +135,33 @@ const useStyles = makeStyles({
     height: '20px',
     backgroundColor: '#1976D2',
   },
+  legendDashedLine: {
+    width: '20px',
+    height: '0',
+    borderTop: '2px dashed #7B1FA2',
+  },
+  legendArea: {
+    width: '20px',
+    height: '12px',
+    backgroundColor: 'rgba(255, 193, 7, 0.35)',
+  },
+  legendFlag: {
+    width: '12px',
+    height: '12px',
+    backgroundColor: 'rgba(211, 47, 47, 0.2)',
+    ...shorthands.border('1px', 'solid', '#D32F2F'),
+  },
 });
 
+const PREDICTED_COLOR = '#7B1FA2';
+const COB_COLOR = '#FFC107';
+const DEVIATION_COLOR = '#D32F2F';
+
+const DEVIATION_LABELS: Record<ForecastDeviationType, string> = {
+  missedBolus: 'Missed bolus?',
+  unannouncedMeal: 'Unannounced meal?',
+};
+
 interface UnifiedTimelineProps {
   insulinData: Array<{
     hour: number;
@@ -146,16 +175,28 @@ interface UnifiedTimelineProps {
   maxGlucose: number;
   setMaxGlucose: (value: number) => void;
   glucoseUnit: GlucoseUnit;
+  /** Forecast points matching the glucose readings (optional) */
+  forecast?: GlucoseForecastPoint[];
+  /** Periods where glucose stayed far above the forecast (optional) */
+  forecastDeviations?: ForecastDeviation[];
+  /** User annotations of the day; timed ones are drawn as vertical lines (optional) */
+  annotationMarkers?: AnnotationMarker[];
+  /** Called with the clicked time of day; when set, clicking the chart adds an annotation (optional) */
+  onChartClick?: (timeDecimal: number) => void;
 }
 
-export function UnifiedTimeline({ insulinData, glucoseReadings, colorScheme, setColorScheme, maxGlucose, setMaxGlucose, glucoseUnit }: UnifiedTimelineProps) {
+export function UnifiedTimeline({ insulinData, glucoseReadings, colorScheme, setColorScheme, maxGlucose, setMaxGlucose, glucoseUnit, forecast = [], forecastDeviations = [], annotationMarkers = [], onChartClick }: UnifiedTimelineProps) {
   const styles = useStyles();
+  const timedAnnotationMarkers = annotationMarkers.filter(marker => marker.timeDecimal !== null);
+  const dayAnnotationMarkers = annotationMarkers.filter(marker => marker.timeDecimal === null);
   const { thresholds } = useGlucoseThresholds();
 
   // Check if there's any insulin data to display
   const hasBasalData = insulinData.some(d => d.basalRate > 0);
   const hasBolusData = insulinData.some(d => d.bolusTotal > 0);
   const hasGlucoseData = glucoseReadings.length > 0;
+  const hasForecastData = hasGlucoseData && forecast.some(point => point.predicted !== null);
+  const hasCOBData = hasGlucoseData && forecast.some(point => point.cob > 0);
 
   // Calculate glucose range statistics for the bar
   const glucoseStats = hasGlucoseData 
@@ -176,12 +217,16 @@ export function UnifiedTimeline({ insulinData, glucoseReadings, colorScheme, set
     );
   }
 
+  // Forecast values by reading time
+  const forecastByTime = new Map(forecast.map(point => [point.timestamp.getTime(), point]));
+
   // Prepare glucose data at original granularity (every ~5 minutes)
   // Create data points for insulin (hourly) and glucose (at actual reading times)
   const glucoseDataPoints = glucoseReadings.map(reading => {
     const hour = reading.timestamp.getHours();
     const minute = reading.timestamp.getMinutes();
     const timeDecimal = hour + minute / 60; // e.g., 9:30 = 9.5
+    const forecastPoint = forecastByTime.get(reading.timestamp.getTime());
     
     return {
       hour,
@@ -191,6 +236,8 @@ export function UnifiedTimeline({ insulinData, glucoseReadings, colorScheme, set
       bolusTotal: 0, // Will be filled from insulin data
       glucose: convertGlucoseValue(reading.value, glucoseUnit), // Convert to display unit
       glucoseColor: getGlucoseColor(reading.value, colorScheme), // Use original mmol/L for color
+      predicted: forecastPoint?.predicted != null ? convertGlucoseValue(forecastPoint.predicted, glucoseUnit) : null,
+      cob: forecastPoint ? forecastPoint.cob : null,
       isGlucosePoint: true,
     };
   });
@@ -201,6 +248,8 @@ export function UnifiedTimeline({ insulinData, glucoseReadings, colorScheme, set
     timeDecimal: insulin.hour,
     glucose: null,
     glucoseColor: undefined,
+    predicted: null,
+    cob: null,
     isGlucosePoint: false,
   }));
 
@@ -244,7 +293,7 @@ export function UnifiedTimeline({ insulinData, glucoseReadings, colorScheme, set
       value: number;
       dataKey: string;
       color: string;
-      payload: { timeLabel: string; basalRate: number; bolusTotal: number; glucose: number | null };
+      payload: { timeLabel: string; basalRate: number; bolusTotal: number; glucose: number | null; predicted: number | null; cob: number | null };
     }>;
   }) => {
     if (active && payload && payload.length) {
@@ -271,6 +320,16 @@ export function UnifiedTimeline({ insulinData, glucoseReadings, colorScheme, set
               Glucose: {formatGlucoseValue(glucoseValue, glucoseUnit)} {getUnitLabel(glucoseUnit)}
             </div>
           )}
+          {data.predicted !== null && data.predicted !== undefined && (
+            <div style={{ color: PREDICTED_COLOR, marginBottom: '4px' }}>
+              Predicted: {formatGlucoseValue(data.predicted, glucoseUnit)} {getUnitLabel(glucoseUnit)}
+            </div>
+          )}
+          {data.cob !== null && data.cob !== undefined && data.cob > 0 && (
+            <div style={{ color: tokens.colorNeutralForeground2, marginBottom: '4px' }}>
+              Carbs on Board: {Math.round(data.cob)} g
+            </div>
+          )}
           {data.basalRate > 0 && (
             <div style={{ color: '#2E7D32' }}>
               Basal Rate: {formatInsulinDose(data.basalRate, 2)} U
@@ -433,7 +492,14 @@ export function UnifiedTimeline({ insulinData, glucoseReadings, colorScheme, set
 
         <div className={styles.chartContainer}>
           <ResponsiveContainer width="100%" height="100%">
-            <ComposedChart data={mergedData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+            <ComposedChart
+              data={mergedData}
+              margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+              onClick={onChartClick ? (state) => {
+                if (state.activeLabel !== undefined) onChartClick(Number(state.activeLabel));
+              } : undefined}
+              style={onChartClick ? { cursor: 'pointer' } : undefined}
+            >
               <CartesianGrid strokeDasharray="3 3" stroke={tokens.colorNeutralStroke2} />
               
               <XAxis
@@ -471,6 +537,11 @@ export function UnifiedTimeline({ insulinData, glucoseReadings, colorScheme, set
                 style={{ fontSize: tokens.fontSizeBase200 }}
                 domain={[0, maxGlucose]}
               />
+
+              {/* Hidden axis for carbs on board (grams) */}
+              {hasCOBData && (
+                <YAxis yAxisId="carbs" hide domain={[0, (dataMax: number) => Math.max(dataMax * 2, 40)]} />
+              )}
               
               <Tooltip content={<CustomTooltip />} />
               
@@ -501,6 +572,58 @@ export function UnifiedTimeline({ insulinData, glucoseReadings, colorScheme, set
                 </>
               )}
               
+              {/* Periods where glucose stayed far above the forecast */}
+              {hasForecastData && forecastDeviations.map(deviation => (
+                <ReferenceArea
+                  key={deviation.start.getTime()}
+                  yAxisId="right"
+                  x1={deviation.start.getHours() + deviation.start.getMinutes() / 60}
+                  x2={deviation.end.getHours() + deviation.end.getMinutes() / 60}
+                  fill={DEVIATION_COLOR}
+                  fillOpacity={0.12}
+                  stroke={DEVIATION_COLOR}
+                  strokeOpacity={0.4}
+                  label={{
+                    value: DEVIATION_LABELS[deviation.type],
+                    position: 'insideTop',
+                    style: { fontSize: tokens.fontSizeBase100, fill: DEVIATION_COLOR },
+                  }}
+                />
+              ))}
+
+              {/* User annotations */}
+              {timedAnnotationMarkers.map(marker => (
+                <ReferenceLine
+                  key={marker.id}
+                  yAxisId="left"
+                  x={marker.timeDecimal!}
+                  stroke={marker.color}
+                  strokeWidth={2}
+                  label={{
+                    value: marker.label,
+                    position: 'insideTopRight',
+                    angle: -90,
+                    style: { fontSize: tokens.fontSizeBase100, fill: marker.color },
+                  }}
+                />
+              ))}
+
+              {/* Carbs on board */}
+              {hasCOBData && (
+                <Area
+                  yAxisId="carbs"
+                  type="monotone"
+                  dataKey="cob"
+                  name="Carbs on Board"
+                  fill={COB_COLOR}
+                  fillOpacity={0.25}
+                  stroke={COB_COLOR}
+                  strokeOpacity={0.6}
+                  connectNulls
+                  isAnimationActive={false}
+                />
+              )}
+
               {/* Bolus bars */}
               {hasBolusData && (
                 <Bar
@@ -544,6 +667,21 @@ export function UnifiedTimeline({ insulinData, glucoseReadings, colorScheme, set
                   connectNulls
                 />
               )}
+
+              {/* Predicted glucose line */}
+              {hasForecastData && (
+                <Line
+                  yAxisId="right"
+                  type="monotone"
+                  dataKey="predicted"
+                  name="Predicted"
+                  stroke={PREDICTED_COLOR}
+                  strokeWidth={1.5}
+                  strokeDasharray="5 3"
+                  dot={false}
+                  connectNulls
+                />
+              )}
             </ComposedChart>
           </ResponsiveContainer>
         </div>
@@ -572,6 +710,30 @@ export function UnifiedTimeline({ insulinData, glucoseReadings, colorScheme, set
             <Text>Bolus (meal/correction doses)</Text>
           </div>
         )}
+        {hasForecastData && (
+          <div className={styles.legendItem}>
+            <div className={styles.legendDashedLine} />
+            <Text>Predicted (from IOB and COB, 1 hour ahead)</Text>
+          </div>
+        )}
+        {hasCOBData && (
+          <div className={styles.legendItem}>
+            <div className={styles.legendArea} />
+            <Text>Carbs on Board</Text>
+          </div>
+        )}
+        {hasForecastData && forecastDeviations.length > 0 && (
+          <div className={styles.legendItem}>
+            <div className={styles.legendFlag} />
+            <Text>Rise not explained by logged carbs</Text>
+          </div>
+        )}
+        {dayAnnotationMarkers.map(marker => (
+          <div key={marker.id} className={styles.legendItem}>
+            <div className={styles.legendLine} style={{ backgroundColor: marker.color, height: '10px' }} />
+            <Text>Whole day: {marker.label}</Text>
+          </div>
+        ))}
       </div>
     </div>
   );
@@ -0,0 +1,74 @@
+/**
+ * Tests for follow-up conversation utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { appendConversationMessage, formatConversationMarkdown } from './conversation';
+import type { AIConversation } from '../../types';
+
+const conversation: AIConversation = {
+  prompt: 'Prompt with base64CsvData',
+  response: 'Your glucose rises on Tuesdays.\n',
+  messages: [],
+};
+
+const labels = {
+  title: 'Glucose & Insulin',
+  analysis: 'Analysis',
+  question: 'Question',
+  answer: 'Answer',
+};
+
+describe('conversation', () => {
+  describe('appendConversationMessage', () => {
+    it('should return a new conversation with the message appended', () => {
+      const timestamp = new Date('2025-01-01T20:00:00');
+
+      const result = appendConversationMessage(conversation, 'user', 'Why Tuesdays?', timestamp);
+
+      expect(result.messages).toEqual([{ role: 'user', content: 'Why Tuesdays?', timestamp }]);
+      expect(result.prompt).toBe(conversation.prompt);
+      expect(conversation.messages).toEqual([]);
+    });
+  });
+
+  describe('formatConversationMarkdown', () => {
+    it('should format the analysis and the follow-up messages', () => {
+      const timestamp = new Date('2025-01-01T20:00:00');
+      const withMessages = appendConversationMessage(
+        appendConversationMessage(conversation, 'user', 'Why Tuesdays?', timestamp),
+        'assistant',
+        'Late dinners.',
+        timestamp
+      );
+
+      const result = formatConversationMarkdown(withMessages, labels);
+
+      expect(result).toBe([
+        '# Glucose & Insulin',
+        '## Analysis',
+        'Your glucose rises on Tuesdays.',
+        `## Question (${timestamp.toLocaleString()})`,
+        'Why Tuesdays?',
+        `## Answer (${timestamp.toLocaleString()})`,
+        'Late dinners.',
+      ].join('\n\n') + '\n');
+    });
+
+    it('should leave out the prompt with the encoded data', () => {
+      const result = formatConversationMarkdown(conversation, labels);
+
+      expect(result).not.toContain('base64CsvData');
+    });
+
+    it('should leave out the structured output JSON block', () => {
+      const result = formatConversationMarkdown({
+        ...conversation,
+        response: 'Your glucose rises on Tuesdays.\n\n```json\n{"findings": []}\n```\n\nConsult your doctor.',
+      }, labels);
+
+      expect(result).not.toContain('```json');
+      expect(result).toContain('Your glucose rises on Tuesdays.\n\nConsult your doctor.');
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Follow-up conversation utilities
+ *
+ * Helpers to extend a follow-up conversation on an AI analysis and to export
+ * it as a Markdown document.
+ */
+
+import type { AIConversation, AIConversationMessage } from '../../types';
+import { stripStructuredOutput } from './structuredOutput';
+
+/**
+ * Headings used in an exported conversation
+ */
+export interface ConversationExportLabels {
+  /** Document title, e.g. the name of the analysis tab */
+  title: string;
+  /** Heading of the original analysis */
+  analysis: string;
+  /** Label of the user's questions */
+  question: string;
+  /** Label of the AI's answers */
+  answer: string;
+}
+
+/**
+ * Add a message to a conversation
+ *
+ * @param conversation - Conversation to extend
+ * @param role - Whether the user or the AI wrote the message
+ * @param content - Message text
+ * @param timestamp - Time of the message (default: now)
+ * @returns New conversation with the message appended
+ */
+export function appendConversationMessage(
+  conversation: AIConversation,
+  role: AIConversationMessage['role'],
+  content: string,
+  timestamp: Date = new Date()
+): AIConversation {
+  return {
+    ...conversation,
+    messages: [...conversation.messages, { role, content, timestamp }],
+  };
+}
+
+/**
+ * Format a conversation as a Markdown document
+ *
+ * The prompt is left out: it holds the encoded data the analysis was based on
+ * and can be viewed separately with geek stats enabled. The structured output
+ * JSON block of the analysis is left out as well.
+ *
+ * @param conversation - Conversation to export
+ * @param labels - Headings in the user's language
+ * @returns Markdown document with the analysis and all follow-up messages
+ */
+export function formatConversationMarkdown(
+  conversation: AIConversation,
+  labels: ConversationExportLabels
+): string {
+  const sections = [`# ${labels.title}`, `## ${labels.analysis}`, stripStructuredOutput(conversation.response).trim()];
+
+  for (const message of conversation.messages) {
+    const label = message.role === 'user' ? labels.question : labels.answer;
+    sections.push(`## ${label} (${message.timestamp.toLocaleString()})`, message.content.trim());
+  }
+
+  return `${sections.join('\n\n')}\n`;
+}
@@ -1 +1,4 @@
 export * from './prompts';
+export * from './conversation';
+export * from './structuredOutput';
+export * from './promptContext';
@@ -0,0 +1,130 @@
+/**
+ * Tests for budgeted AI prompt data context
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildDailyReportSummaries,
+  buildGlucoseInsulinSummaries,
+  filterRawDatasetsToLastDays,
+  fitPromptToBudget,
+  formatPromptSummaries,
+  getDataCoverageResponseNote,
+  getHypoEventsCoverageNote,
+  getRawDataCoverageNote,
+  type PromptRawDatasets,
+} from './promptContext';
+import { PROMPT_CHARS_PER_TOKEN } from '../../utils/api/aiApi';
+import type { GlucoseReading } from '../../types';
+
+// Readings every 5 minutes over the given number of days
+function createReadings(days: number, value = 6.0): GlucoseReading[] {
+  const start = new Date('2024-01-01T00:00:00').getTime();
+  return Array.from({ length: days * 288 }, (_, index) => ({
+    timestamp: new Date(start + index * 5 * 60 * 1000),
+    value,
+  }));
+}
+
+const datasets: PromptRawDatasets = {
+  cgmReadings: createReadings(10),
+  bolusReadings: [{ timestamp: new Date('2024-01-10T08:00:00'), dose: 4, insulinType: 'bolus' }],
+  basalReadings: [{ timestamp: new Date('2024-01-02T00:00:00'), dose: 10, insulinType: 'basal' }],
+};
+
+describe('promptContext', () => {
+  describe('fitPromptToBudget', () => {
+    // Prompt of 100 tokens of instructions plus 10 tokens per day of raw data
+    const buildPrompt = (days: number) => 'x'.repeat((100 + days * 10) * PROMPT_CHARS_PER_TOKEN);
+
+    it('should include all raw data when it fits', () => {
+      const result = fitPromptToBudget(buildPrompt, 90, 10000);
+      expect(result.included).toBe(90);
+      expect(result.tokens).toBe(1000);
+    });
+
+    it('should include the largest amount of raw data that fits', () => {
+      expect(fitPromptToBudget(buildPrompt, 90, 555).included).toBe(45);
+      expect(fitPromptToBudget(buildPrompt, 90, 110).included).toBe(1);
+    });
+
+    it('should return the prompt without raw data when nothing fits', () => {
+      const result = fitPromptToBudget(buildPrompt, 90, 50);
+      expect(result.included).toBe(0);
+      expect(result.tokens).toBe(100);
+    });
+  });
+
+  describe('filterRawDatasetsToLastDays', () => {
+    it('should keep the data of the last days', () => {
+      const result = filterRawDatasetsToLastDays(datasets, 2);
+
+      expect(result.cgmReadings[0].timestamp).toEqual(new Date('2024-01-08T23:55:00'));
+      expect(result.bolusReadings).toHaveLength(1);
+      expect(result.basalReadings).toHaveLength(1);
+    });
+
+    it('should leave the datasets empty for 0 days', () => {
+      expect(filterRawDatasetsToLastDays(datasets, 0)).toEqual({ cgmReadings: [], bolusReadings: [], basalReadings: [] });
+    });
+  });
+
+  describe('buildGlucoseInsulinSummaries', () => {
+    it('should summarize the whole period and leave out empty summaries', () => {
+      const summaries = buildGlucoseInsulinSummaries(datasets);
+
+      expect(summaries.map(s => s.fileName)).toEqual(['hourly_profile.csv', 'daily_summary.csv']);
+      // One row per day plus the header
+      expect(summaries[1].csv.split('\n')).toHaveLength(11);
+    });
+  });
+
+  describe('buildDailyReportSummaries', () => {
+    it('should summarize the reports by day of week', () => {
+      const summaries = buildDailyReportSummaries([
+        { date: '2024-01-15', stats: { low: 5, inRange: 80, high: 15, veryLow: 0, veryHigh: 0, total: 100 } },
+      ]);
+
+      expect(summaries.map(s => s.fileName)).toEqual(['day_of_week_summary.csv']);
+      expect(summaries[0].csv).toContain('Monday,1,80');
+    });
+
+    it('should leave out the summary without reports', () => {
+      expect(buildDailyReportSummaries([])).toEqual([]);
+    });
+  });
+
+  describe('formatPromptSummaries', () => {
+    it('should add each summary as a CSV block after the coverage note', () => {
+      const section = formatPromptSummaries(buildGlucoseInsulinSummaries(datasets), 'Coverage note.');
+
+      expect(section).toContain('**Pre-computed Summaries**\nCoverage note.');
+      expect(section).toContain('**Summary A: Hourly Glucose Profile (hourly_profile.csv)**');
+      expect(section).toContain('**Summary B: Daily Glucose and Insulin Summary (daily_summary.csv)**');
+      expect(section).toContain('```csv\nDate,Day Of Week');
+    });
+
+    it('should return an empty string without summaries', () => {
+      expect(formatPromptSummaries([], 'Coverage note.')).toBe('');
+    });
+  });
+
+  describe('coverage notes', () => {
+    it('should state how much of the period the raw data covers', () => {
+      expect(getRawDataCoverageNote(90, 90)).toContain('cover the whole period of 90 days');
+      expect(getRawDataCoverageNote(21, 90)).toContain('only cover the last 21 of 90 days');
+      expect(getRawDataCoverageNote(0, 90)).toContain('raw datasets were left out');
+    });
+
+    it('should state how many hypo events have readings', () => {
+      expect(getHypoEventsCoverageNote(40, 40)).toBe('');
+      expect(getHypoEventsCoverageNote(12, 40)).toContain('the last 12 of 40 hypo events');
+    });
+
+    it('should tell the user when only part of the raw data was sent', () => {
+      expect(getDataCoverageResponseNote(90, 90, 'days')).toBe('');
+      expect(getDataCoverageResponseNote(21, 90, 'days')).toBe('**Note:** Analysis based on pre-computed summaries of all 90 days; detailed data was included for the last 21 of 90 days to fit the prompt size limit of the AI provider.\n\n');
+      expect(getDataCoverageResponseNote(0, 90, 'days')).toContain('detailed data was left out');
+    });
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Budgeted data context for AI prompts
+ *
+ * Raw CGM and insulin data of long periods does not fit the prompt size limit
+ * of the AI providers. Instead of dropping older data, the prompts always carry
+ * pre-computed summaries of the whole period and add as much of the most recent
+ * raw data as fits the token budget of the provider. The prompt and the shown
+ * response state which part of the period the raw data covers, so no data is
+ * left out silently.
+ */
+
+import type { CarbEntry, DailyReport, GlucoseReading, InsulinReading } from '../../types';
+import { estimatePromptTokens } from '../../utils/api/aiApi';
+import {
+  filterGlucoseReadingsToLastDays,
+  filterInsulinReadingsToLastDays,
+} from '../../utils/data/csvUtils';
+import { calculateMealExcursions, groupCarbEntriesIntoMeals } from '../../utils/data/mealDataUtils';
+import {
+  convertDailyGlucoseInsulinSummaryToCSV,
+  convertDayOfWeekSummaryToCSV,
+  convertHourlyGlucoseProfileToCSV,
+  convertHypoEpisodesToCSV,
+  convertMealExcursionSummaryToCSV,
+} from '../../utils/data/promptSummaryUtils';
+
+/**
+ * Pre-computed summary included in a prompt as a CSV block
+ */
+export interface PromptSummary {
+  /** Title of the summary */
+  title: string;
+  /** File name shown next to the title */
+  fileName: string;
+  /** What the summary contains */
+  description: string;
+  /** Summary data in CSV format */
+  csv: string;
+}
+
+/**
+ * Raw datasets of the glucose and insulin analyses
+ */
+export interface PromptRawDatasets {
+  cgmReadings: GlucoseReading[];
+  bolusReadings: InsulinReading[];
+  basalReadings: InsulinReading[];
+}
+
+/**
+ * Prompt fitted into a token budget
+ */
+export interface BudgetedPrompt {
+  /** Generated prompt */
+  prompt: string;
+  /** Amount of raw data in the prompt (e.g. days or events) */
+  included: number;
+  /** Estimated prompt tokens */
+  tokens: number;
+}
+
+/**
+ * Generate the largest prompt that fits a token budget
+ *
+ * Finds the largest amount of raw data (0 to `maxCount`) whose prompt fits the
+ * budget by binary search, as the prompt grows with the amount of raw data.
+ * When even the prompt without raw data exceeds the budget, that prompt is
+ * returned and the provider decides.
+ *
+ * @param buildPrompt - Generate the prompt with the given amount of raw data
+ * @param maxCount - Amount of raw data available
+ * @param budgetTokens - Maximum estimated prompt tokens
+ * @returns The prompt with the amount of raw data it includes
+ */
+export function fitPromptToBudget(
+  buildPrompt: (count: number) => string,
+  maxCount: number,
+  budgetTokens: number
+): BudgetedPrompt {
+  const build = (count: number): BudgetedPrompt => {
+    const prompt = buildPrompt(count);
+    return { prompt, included: count, tokens: estimatePromptTokens(prompt) };
+  };
+
+  const full = build(maxCount);
+  if (full.tokens <= budgetTokens || maxCount <= 0) {
+    return full;
+  }
+
+  let best = build(0);
+  let low = 1;
+  let high = maxCount - 1;
+  while (low <= high && best.tokens <= budgetTokens) {
+    const mid = Math.floor((low + high) / 2);
+    const candidate = build(mid);
+    if (candidate.tokens <= budgetTokens) {
+      best = candidate;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Keep the raw data of the last days
+ *
+ * @param datasets - Raw datasets
+ * @param days - Number of days to keep; 0 leaves the datasets empty
+ * @returns Datasets of the last days
+ */
+export function filterRawDatasetsToLastDays(datasets: PromptRawDatasets, days: number): PromptRawDatasets {
+  if (days <= 0) {
+    return { cgmReadings: [], bolusReadings: [], basalReadings: [] };
+  }
+
+  return {
+    cgmReadings: filterGlucoseReadingsToLastDays(datasets.cgmReadings, days),
+    bolusReadings: filterInsulinReadingsToLastDays(datasets.bolusReadings, days),
+    basalReadings: filterInsulinReadingsToLastDays(datasets.basalReadings, days),
+  };
+}
+
+/**
+ * Pre-compute the summaries of the glucose and insulin data of the whole period
+ *
+ * @param datasets - Raw datasets of the whole period
+ * @param carbEntries - Carb entries; the meal summary is left out without them
+ * @returns Summaries with data (empty summaries are left out)
+ */
+export function buildGlucoseInsulinSummaries(
+  datasets: PromptRawDatasets,
+  carbEntries: CarbEntry[] = []
+): PromptSummary[] {
+  const readings = [...datasets.cgmReadings].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const excursions = carbEntries.length > 0
+    ? calculateMealExcursions(groupCarbEntriesIntoMeals(carbEntries), readings)
+    : [];
+
+  const summaries: PromptSummary[] = [
+    {
+      title: 'Hourly Glucose Profile',
+      fileName: 'hourly_profile.csv',
+      description: 'Glucose percentiles (AGP) and % of readings below 3.9 / above 10.0 mmol/L for each hour of day, for all days, workdays (Mon-Fri) and weekends (Sat-Sun)',
+      csv: convertHourlyGlucoseProfileToCSV(readings),
+    },
+    {
+      title: 'Daily Glucose and Insulin Summary',
+      fileName: 'daily_summary.csv',
+      description: 'Glucose statistics (time in range 3.9-10.0 mmol/L) and insulin totals for each day',
+      csv: convertDailyGlucoseInsulinSummaryToCSV(readings, datasets.bolusReadings, datasets.basalReadings),
+    },
+    {
+      title: 'Meal Excursions',
+      fileName: 'meal_excursions.csv',
+      description: 'Post-meal glucose rise above the pre-meal baseline for each meal slot (breakfast 05-10h, lunch 11-15h, dinner 17-21h, other meals are snacks), for all days, workdays and weekends',
+      csv: convertMealExcursionSummaryToCSV(excursions),
+    },
+    {
+      title: 'Hypoglycemia Episodes',
+      fileName: 'hypo_episodes.csv',
+      description: 'Each episode of glucose below 3.9 mmol/L (local time; severe = nadir below 3.0 mmol/L)',
+      csv: convertHypoEpisodesToCSV(readings),
+    },
+  ];
+
+  return summaries.filter(summary => summary.csv);
+}
+
+/**
+ * Pre-compute the summaries of the daily reports of the whole period
+ *
+ * @param reports - Daily glucose range and insulin reports of the whole period
+ * @returns Summaries with data (empty summaries are left out)
+ */
+export function buildDailyReportSummaries(reports: DailyReport[]): PromptSummary[] {
+  const summaries: PromptSummary[] = [
+    {
+      title: 'Day of Week Summary',
+      fileName: 'day_of_week_summary.csv',
+      description: 'Mean time in range, its standard deviation between days, and mean insulin totals for each day of week, all days, workdays (Mon-Fri) and weekends (Sat-Sun)',
+      csv: convertDayOfWeekSummaryToCSV(reports),
+    },
+  ];
+
+  return summaries.filter(summary => summary.csv);
+}
+
+/**
+ * Get the prompt note on how much of the period the raw datasets cover
+ *
+ * @param rawDays - Number of days of raw data in the prompt
+ * @param totalDays - Number of days of the whole period
+ * @returns Note for the prompt
+ */
+export function getRawDataCoverageNote(rawDays: number, totalDays: number): string {
+  if (rawDays >= totalDays) {
+    return `The raw datasets cover the whole period of ${totalDays} days. The summaries below are pre-computed from the same data; use them to verify period-wide statistics.`;
+  }
+
+  if (rawDays <= 0) {
+    return `The raw datasets were left out because the data of ${totalDays} days does not fit the prompt size limit. Base your analysis on the summaries below, which are pre-computed from all ${totalDays} days, and state which requested analyses need the raw data and could not be done.`;
+  }
+
+  return `Because of the prompt size limit, the raw datasets only cover the last ${rawDays} of ${totalDays} days. The summaries below are pre-computed from all ${totalDays} days: use them for period-wide statistics (time in range, day-of-week and workday/weekend comparisons, meal patterns, insulin totals, hypoglycemia frequency) and the raw data for detailed recent patterns. Do NOT present statistics computed from the raw data as covering the whole period.`;
+}
+
+/**
+ * Get the prompt note on how many hypo events have their surrounding CGM readings included
+ *
+ * @param includedEvents - Number of most recent events with readings in the prompt
+ * @param totalEvents - Number of events of the whole period
+ * @returns Note for the prompt, empty when all events are included
+ */
+export function getHypoEventsCoverageNote(includedEvents: number, totalEvents: number): string {
+  if (includedEvents >= totalEvents) {
+    return '';
+  }
+
+  return `
+
+**Data Coverage**
+Because of the prompt size limit, Dataset 1 only contains the readings around the last ${includedEvents} of ${totalEvents} hypo events. Dataset 2 and Dataset 3 cover all days and all ${totalEvents} events: use them for frequencies, timing and risk statistics, and Dataset 1 only for the detailed shape of recent events.`;
+}
+
+/**
+ * Format pre-computed summaries as a prompt section
+ *
+ * @param summaries - Summaries to include
+ * @param coverageNote - Note on how much of the period the raw data covers
+ * @returns Prompt section, empty without summaries
+ */
+export function formatPromptSummaries(summaries: PromptSummary[], coverageNote: string): string {
+  if (summaries.length === 0) {
+    return '';
+  }
+
+  const blocks = summaries.map((summary, index) => `**Summary ${String.fromCharCode(65 + index)}: ${summary.title} (${summary.fileName})**
+${summary.description} (glucose values in mmol/L):
+\`\`\`csv
+${summary.csv}
+\`\`\``);
+
+  return `
+
+**Pre-computed Summaries**
+${coverageNote}
+
+${blocks.join('\n\n')}`;
+}
+
+/**
+ * Get the note shown above the response when only part of the raw data was sent
+ *
+ * @param included - Amount of raw data in the prompt
+ * @param total - Amount of raw data available
+ * @param unit - Name of the amount (e.g. "days")
+ * @returns Markdown note, empty when all raw data was sent
+ */
+export function getDataCoverageResponseNote(included: number, total: number, unit: string): string {
+  if (included >= total) {
+    return '';
+  }
+
+  const detail = included > 0
+    ? `detailed data was included for the last ${included} of ${total} ${unit}`
+    : 'detailed data was left out';
+  return `**Note:** Analysis based on pre-computed summaries of all ${total} ${unit}; ${detail} to fit the prompt size limit of the AI provider.\n\n`;
+}
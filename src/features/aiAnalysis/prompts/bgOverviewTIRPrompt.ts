@@ -5,10 +5,10 @@
  */
 
 import type { ResponseLanguage } from '../../../hooks/useResponseLanguage';
-import type { GlucoseUnit, GlucoseThresholds, RangeCategoryMode, AGPDayOfWeekFilter } from '../../../types';
+import type { GlucoseUnit, GlucoseThresholds, RangeCategoryMode, AGPDayOfWeekFilter, DataAnnotation } from '../../../types';
 import type { AIProvider } from '../../../utils/api/aiApi';
 import type { TIRStats } from '../../../components/BGOverviewReport/types';
-import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt } from './promptUtils';
+import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt, getAnnotationsContext } from './promptUtils';
 import { calculatePercentage } from '../../../utils/data';
 
 /**
@@ -60,6 +60,7 @@ function getDayActivityContext(dayFilter: AGPDayOfWeekFilter): string {
  * @param unit - Glucose unit (mmol/L or mg/dL)
  * @param provider - AI provider being used (optional)
  * @param dayFilter - Day of week filter applied to the data (optional)
+ * @param annotations - User annotations of the analyzed data, listed as context (optional)
  * @returns Formatted prompt for AI analysis
  */
 export function generateBGOverviewTIRPrompt(
@@ -69,11 +70,13 @@ export function generateBGOverviewTIRPrompt(
   language: ResponseLanguage = 'english',
   unit: GlucoseUnit = 'mmol/L',
   provider?: AIProvider,
-  dayFilter: AGPDayOfWeekFilter = 'All Days'
+  dayFilter: AGPDayOfWeekFilter = 'All Days',
+  annotations: DataAnnotation[] = []
 ): string {
   const systemPrompt = getSystemPrompt();
   const languageInstruction = getLanguageInstruction(language);
   const disclaimerInstruction = getDisclaimerInstruction(provider, language);
+  const annotationsContext = getAnnotationsContext(annotations);
   
   const unitInstruction = unit === 'mg/dL'
     ? 'Remember that all glucose values are in mg/dL (not mmol/L).'
@@ -125,7 +128,7 @@ Time Very High (>${veryHighThresholdStr}): ${veryHighPercentage.toFixed(1)}%`;
 This analysis examines your continuous glucose monitoring (CGM) data time in range statistics to provide quick, actionable insights for improving glucose management.
 
 My glucose time distribution:
-${statsText}${dayFilterContext}
+${statsText}${dayFilterContext}${annotationsContext}
 
 Based on these statistics, provide:
 1. ONE brief sentence summarizing the overall glucose control pattern
@@ -0,0 +1,164 @@
+/**
+ * Tests for follow-up prompt generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fitFollowUpPromptToBudget, generateFollowUpPrompt, MAX_FOLLOW_UP_HISTORY_MESSAGES } from './followUpPrompt';
+import { estimatePromptTokens, getPromptTokenBudget } from '../../../utils/api/aiApi';
+import type { AIConversation } from '../../../types';
+
+const conversation: AIConversation = {
+  prompt: 'You are an expert endocrinologist. My glucose data: base64CsvData',
+  response: 'Your glucose rises on Tuesdays.',
+  messages: [],
+};
+
+// Analysis prompt with a pre-computed summary and a raw dataset of the given number of rows
+function createAnalysisPrompt(rows: number): string {
+  const csvRows = Array.from({ length: rows }, (_, index) => `2024-01-01 ${String(index).padStart(5, '0')},6.5`);
+  return `You are an expert endocrinologist.
+
+**Pre-computed Summaries**
+The raw datasets cover the whole period of 90 days.
+
+**Summary A: Hourly Glucose Profile (hourly_profile.csv)**
+Glucose percentiles for each hour of day (glucose values in mmol/L):
+\`\`\`csv
+Day Type,Hour,Median (mmol/L)
+All,07:00,8.5
+\`\`\`
+
+**Dataset 1: CGM Data (cgm.csv)**
+Raw, high-frequency continuous glucose monitoring data:
+\`\`\`csv
+Timestamp,CGM Glucose Value (mmol/L)
+${csvRows.join('\n')}
+\`\`\``;
+}
+
+describe('followUpPrompt', () => {
+  describe('generateFollowUpPrompt', () => {
+    it('should start with the original prompt and include the previous analysis', () => {
+      const result = generateFollowUpPrompt(conversation, 'Why Tuesdays?');
+
+      expect(result.startsWith(conversation.prompt)).toBe(true);
+      expect(result).toContain('Your glucose rises on Tuesdays.');
+    });
+
+    it('should leave the structured JSON block out of the previous analysis', () => {
+      const result = generateFollowUpPrompt({
+        ...conversation,
+        response: `${conversation.response}\n\n\`\`\`json\n{"findings": [], "recommendations": []}\n\`\`\``,
+      }, 'Why Tuesdays?');
+
+      expect(result).toContain('Your glucose rises on Tuesdays.');
+      expect(result).not.toContain('"findings": []');
+      expect(result).toContain('do NOT add the JSON code block');
+    });
+
+    it('should include the trimmed follow-up question', () => {
+      const result = generateFollowUpPrompt(conversation, '  Show only after 20:00  ');
+
+      expect(result).toContain('**Follow-up Question**\nShow only after 20:00\n');
+    });
+
+    it('should include earlier follow-up messages', () => {
+      const result = generateFollowUpPrompt({
+        ...conversation,
+        messages: [
+          { role: 'user', content: 'Why Tuesdays?', timestamp: new Date() },
+          { role: 'assistant', content: 'Late dinners on Tuesdays.', timestamp: new Date() },
+        ],
+      }, 'And Fridays?');
+
+      expect(result).toContain('**Earlier Follow-up Questions**');
+      expect(result).toContain('User: Why Tuesdays?');
+      expect(result).toContain('Assistant: Late dinners on Tuesdays.');
+    });
+
+    it('should leave out the history section without earlier messages', () => {
+      const result = generateFollowUpPrompt(conversation, 'Why Tuesdays?');
+
+      expect(result).not.toContain('Earlier Follow-up Questions');
+    });
+
+    it('should only include the most recent earlier messages', () => {
+      const messages = Array.from({ length: MAX_FOLLOW_UP_HISTORY_MESSAGES + 2 }, (_, index) => ({
+        role: 'user' as const,
+        content: `Question ${index + 1}`,
+        timestamp: new Date(),
+      }));
+
+      const result = generateFollowUpPrompt({ ...conversation, messages }, 'Next?');
+
+      expect(result).not.toContain('User: Question 2\n');
+      expect(result).toContain('User: Question 3\n');
+      expect(result).toContain(`User: Question ${MAX_FOLLOW_UP_HISTORY_MESSAGES + 2}`);
+    });
+
+    it('should include the language and disclaimer instructions', () => {
+      const result = generateFollowUpPrompt(conversation, 'Warum dienstags?', 'german', 'gemini');
+
+      expect(result).toContain('Respond in German language');
+      expect(result).toContain('Google Gemini');
+      expect(result).toContain('--- CONCLUSIO DATAE ---');
+    });
+  });
+
+  describe('fitFollowUpPromptToBudget', () => {
+    // Budget of Pro users, limited by the prompt length the backend accepts
+    const budget = getPromptTokenBudget('gemini', { isProUser: true, idToken: 'token' });
+
+    it('should keep the whole conversation when it fits', () => {
+      const result = fitFollowUpPromptToBudget(conversation, 'Why Tuesdays?', budget);
+
+      expect(result.prompt).toBe(generateFollowUpPrompt(conversation, 'Why Tuesdays?'));
+      expect(result.minimal).toBe(false);
+    });
+
+    it('should shorten the raw data of a prompt close to the budget and keep the summaries', () => {
+      // The analysis prompt alone takes almost the whole budget
+      const prompt = createAnalysisPrompt(2300);
+      expect(estimatePromptTokens(prompt)).toBeGreaterThan(budget * 0.95);
+      expect(estimatePromptTokens(prompt)).toBeLessThanOrEqual(budget);
+      const longConversation: AIConversation = { ...conversation, prompt, response: 'Analysis. '.repeat(300) };
+
+      const result = fitFollowUpPromptToBudget(longConversation, 'Why Tuesdays?', budget);
+
+      expect(estimatePromptTokens(generateFollowUpPrompt(longConversation, 'Why Tuesdays?'))).toBeGreaterThan(budget);
+      expect(result.tokens).toBeLessThanOrEqual(budget);
+      expect(result.prompt.length).toBeLessThanOrEqual(50000);
+      expect(result.prompt).toContain('Day Type,Hour,Median (mmol/L)\nAll,07:00,8.5');
+      expect(result.prompt).toContain('Timestamp,CGM Glucose Value (mmol/L)\n');
+      expect(result.prompt).not.toContain('2024-01-01 00000,6.5');
+      expect(result.prompt).toContain('2024-01-01 02299,6.5');
+      expect(result.prompt).toContain(longConversation.response.trim());
+      expect(result.prompt).toContain('the raw datasets above only contain their most recent rows');
+    });
+
+    it('should leave out earlier messages and cut the analysis short when the raw data is not enough', () => {
+      const messages = Array.from({ length: 4 }, (_, index) => ({
+        role: index % 2 === 0 ? 'user' as const : 'assistant' as const,
+        content: `Message ${index + 1} ${'x'.repeat(1000)}`,
+        timestamp: new Date(),
+      }));
+      const longConversation: AIConversation = { ...conversation, response: 'Analysis. '.repeat(1000), messages };
+
+      const result = fitFollowUpPromptToBudget(longConversation, 'Why Tuesdays?', 1500);
+
+      expect(result.tokens).toBeLessThanOrEqual(1500);
+      expect(result.prompt).not.toContain('Message 1');
+      expect(result.prompt).toContain('earlier follow-up questions were left out');
+      expect(result.prompt).toContain('your previous analysis was cut short');
+      expect(result.minimal).toBe(false);
+    });
+
+    it('should return the shortest prompt when nothing fits', () => {
+      const result = fitFollowUpPromptToBudget({ ...conversation, prompt: createAnalysisPrompt(100) }, 'Why Tuesdays?', 10);
+
+      expect(result.minimal).toBe(true);
+      expect(result.prompt).not.toContain('2024-01-01 00099,6.5');
+      expect(result.prompt).toContain('All,07:00,8.5');
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Follow-up AI prompt generation
+ *
+ * This module provides the prompt generation logic for follow-up questions on
+ * an AI analysis result. The AI providers are called with a single prompt, so
+ * the prompt repeats the original analysis prompt (with its data) and the
+ * answers given so far before the new question. When that does not fit the
+ * token budget of the provider, the raw datasets, the earlier questions and
+ * the previous analysis are shortened in that order; pre-computed summaries
+ * are always kept.
+ */
+
+import type { ResponseLanguage } from '../../../hooks/useResponseLanguage';
+import type { AIConversation } from '../../../types';
+import type { AIProvider } from '../../../utils/api/aiApi';
+import { getLanguageInstruction, getDisclaimerInstruction } from './promptUtils';
+import { stripStructuredOutput } from '../structuredOutput';
+import { fitPromptToBudget } from '../promptContext';
+
+/**
+ * Maximum number of earlier follow-up messages included in a prompt (most recent first)
+ */
+export const MAX_FOLLOW_UP_HISTORY_MESSAGES = 10;
+
+/**
+ * CSV block of a raw dataset in an analysis prompt: the `**Dataset ...**` heading
+ * and description lines, the CSV rows and the closing fence
+ */
+const RAW_DATASET_PATTERN = /(\*\*Dataset[^\n]*\*\*\n(?:(?!```)[^\n]*\n)*?```csv\n)([\s\S]*?)(\n```)/g;
+
+/**
+ * How much of the conversation a follow-up prompt includes
+ */
+export interface FollowUpPromptDetail {
+  /** Percentage of the rows of each raw dataset kept (most recent rows) */
+  rawDataPercent: number;
+  /** Number of most recent earlier follow-up messages */
+  historyMessages: number;
+  /** Number of characters of the previous analysis */
+  responseChars: number;
+}
+
+/**
+ * Follow-up prompt fitted into a token budget
+ */
+export interface BudgetedFollowUpPrompt {
+  /** Generated prompt */
+  prompt: string;
+  /** Estimated prompt tokens */
+  tokens: number;
+  /** Whether nothing is left to shorten */
+  minimal: boolean;
+}
+
+/**
+ * Keep the most recent rows of each raw dataset of an analysis prompt
+ *
+ * Rows are in chronological order, so the last rows are kept. Pre-computed
+ * summaries are not raw datasets and are kept whole.
+ *
+ * @param prompt - Analysis prompt
+ * @param percent - Percentage of the rows to keep (0 keeps only the header)
+ * @returns Prompt with shortened datasets
+ */
+function trimRawDatasets(prompt: string, percent: number): string {
+  if (percent >= 100) {
+    return prompt;
+  }
+
+  return prompt.replace(RAW_DATASET_PATTERN, (_, opening: string, csv: string, closing: string) => {
+    const [header, ...rows] = csv.split('\n');
+    const kept = Math.ceil(rows.length * percent / 100);
+    return `${opening}${[header, ...(kept > 0 ? rows.slice(-kept) : [])].join('\n')}${closing}`;
+  });
+}
+
+/**
+ * Generate AI prompt for a follow-up question on an analysis
+ *
+ * @param conversation - Analysis prompt, response and earlier follow-up messages
+ * @param question - The user's follow-up question
+ * @param language - Response language (english, czech, german, or serbian)
+ * @param provider - AI provider being used (optional)
+ * @param detail - How much of the conversation to include (default: all of it)
+ * @returns Formatted prompt for AI analysis
+ */
+export function generateFollowUpPrompt(
+  conversation: AIConversation,
+  question: string,
+  language: ResponseLanguage = 'english',
+  provider?: AIProvider,
+  detail?: FollowUpPromptDetail
+): string {
+  const languageInstruction = getLanguageInstruction(language);
+  const disclaimerInstruction = getDisclaimerInstruction(provider, language);
+  const response = stripStructuredOutput(conversation.response);
+  const historyMessages = Math.min(detail?.historyMessages ?? MAX_FOLLOW_UP_HISTORY_MESSAGES, MAX_FOLLOW_UP_HISTORY_MESSAGES);
+  const responseChars = detail?.responseChars ?? response.length;
+
+  const history = (historyMessages > 0 ? conversation.messages.slice(-historyMessages) : [])
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n\n');
+  const historySection = history ? `
+
+**Earlier Follow-up Questions**
+${history}` : '';
+
+  const shortened = [
+    detail && detail.rawDataPercent < 100 ? 'the raw datasets above only contain their most recent rows' : '',
+    historyMessages < Math.min(conversation.messages.length, MAX_FOLLOW_UP_HISTORY_MESSAGES) ? 'earlier follow-up questions were left out' : '',
+    responseChars < response.length ? 'your previous analysis was cut short' : '',
+  ].filter(Boolean);
+  const shortenedNote = shortened.length > 0 ? `
+
+**Note:** Because of the prompt size limit, ${shortened.join(', ')}. Do NOT present statistics computed from the shortened data as covering the whole period; use the pre-computed summaries (if any) for period-wide statistics.` : '';
+
+  return `${detail ? trimRawDatasets(conversation.prompt, detail.rawDataPercent) : conversation.prompt}
+
+---
+
+**Your Previous Analysis**
+You already answered the request above with this analysis:
+${responseChars < response.length ? `${response.slice(0, responseChars)}…` : response}${historySection}${shortenedNote}
+
+**Follow-up Question**
+${question.trim()}
+
+Answer the follow-up question using the data and your previous analysis above. The instructions above describe the original analysis; do NOT repeat that analysis. If the question asks you to focus on a subset of the data (for example certain weekdays or times of day), only use that part of the data. If the data above cannot answer the question, say so instead of guessing. Keep your response concise (under 250 words) unless the question asks for more detail. Address me directly using "you/your" language. ${languageInstruction}
+
+IMPORTANT FORMATTING RULES:
+- Do NOT start your response with greetings or by restating the question
+- Start directly with the answer
+- Answer in Markdown only; do NOT add the JSON code block requested for the original analysis${disclaimerInstruction}`;
+}
+
+/**
+ * Generate the largest follow-up prompt that fits a token budget
+ *
+ * Shortens the raw datasets of the original prompt first, then leaves out the
+ * oldest earlier follow-up messages and finally cuts the previous analysis
+ * short. When even the shortest prompt exceeds the budget, that prompt is
+ * returned and the provider decides.
+ *
+ * @param conversation - Analysis prompt, response and earlier follow-up messages
+ * @param question - The user's follow-up question
+ * @param budgetTokens - Maximum estimated prompt tokens
+ * @param language - Response language (english, czech, german, or serbian)
+ * @param provider - AI provider being used (optional)
+ * @returns The prompt with its estimated tokens
+ */
+export function fitFollowUpPromptToBudget(
+  conversation: AIConversation,
+  question: string,
+  budgetTokens: number,
+  language: ResponseLanguage = 'english',
+  provider?: AIProvider
+): BudgetedFollowUpPrompt {
+  const build = (detail: FollowUpPromptDetail) => generateFollowUpPrompt(conversation, question, language, provider, detail);
+  const full: FollowUpPromptDetail = {
+    rawDataPercent: 100,
+    historyMessages: Math.min(conversation.messages.length, MAX_FOLLOW_UP_HISTORY_MESSAGES),
+    responseChars: stripStructuredOutput(conversation.response).length,
+  };
+
+  const withRawData = fitPromptToBudget(percent => build({ ...full, rawDataPercent: percent }), 100, budgetTokens);
+  if (withRawData.tokens <= budgetTokens) {
+    return { prompt: withRawData.prompt, tokens: withRawData.tokens, minimal: false };
+  }
+
+  const withHistory = fitPromptToBudget(messages => build({ ...full, rawDataPercent: 0, historyMessages: messages }), full.historyMessages, budgetTokens);
+  if (withHistory.tokens <= budgetTokens) {
+    return { prompt: withHistory.prompt, tokens: withHistory.tokens, minimal: false };
+  }
+
+  const withResponse = fitPromptToBudget(chars => build({ rawDataPercent: 0, historyMessages: 0, responseChars: chars }), full.responseChars, budgetTokens);
+  return { prompt: withResponse.prompt, tokens: withResponse.tokens, minimal: withResponse.included === 0 };
+}
@@ -231,5 +231,16 @@ describe('glucoseInsulinPrompt', () => {
       expect(result).toContain('authoritative Time in Range');
       expect(result).toContain('verify');
     });
+
+    it('should include the pre-computed summaries before the dataset', () => {
+      const summaryContext = '\n\n**Pre-computed Summaries**\nThe raw datasets only cover the last 14 of 90 days.';
+
+      const withoutSummaries = generateGlucoseInsulinPrompt(base64Encode(sampleCsvData));
+      const result = generateGlucoseInsulinPrompt(base64Encode(sampleCsvData), 'english', 'mmol/L', undefined, [], summaryContext);
+
+      expect(withoutSummaries).not.toContain('Pre-computed Summaries');
+      expect(result).toContain(summaryContext);
+      expect(result.indexOf('**Pre-computed Summaries**')).toBeLessThan(result.indexOf('2024-01-01'));
+    });
   });
 });
@@ -7,9 +7,10 @@
 
 import { base64Decode } from '../../../utils/formatting';
 import type { ResponseLanguage } from '../../../hooks/useResponseLanguage';
-import type { GlucoseUnit } from '../../../types';
+import type { GlucoseUnit, DataAnnotation } from '../../../types';
 import type { AIProvider } from '../../../utils/api/aiApi';
-import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt } from './promptUtils';
+import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt, getAnnotationsContext } from './promptUtils';
+import { getStructuredOutputInstruction } from '../structuredOutput';
 
 /**
  * Generate AI prompt for glucose and insulin analysis with tercile-based statistical analysis
@@ -18,13 +19,17 @@ import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt } fro
  * @param language - Response language (english, czech, german, or serbian)
  * @param unit - Glucose unit (mmol/L or mg/dL)
  * @param provider - AI provider being used (optional)
+ * @param annotations - User annotations of the analyzed data, listed as context (optional)
+ * @param summaryContext - Pre-computed summaries of the whole period with a note on the days the dataset covers (optional)
  * @returns Formatted prompt for AI analysis with tercile analysis, hypoglycemia risk, and variance analysis
  */
-export function generateGlucoseInsulinPrompt(base64CsvData: string, language: ResponseLanguage = 'english', unit: GlucoseUnit = 'mmol/L', provider?: AIProvider): string {
+export function generateGlucoseInsulinPrompt(base64CsvData: string, language: ResponseLanguage = 'english', unit: GlucoseUnit = 'mmol/L', provider?: AIProvider, annotations: DataAnnotation[] = [], summaryContext: string = ''): string {
   const csvData = base64Decode(base64CsvData);
   const systemPrompt = getSystemPrompt();
   const languageInstruction = getLanguageInstruction(language);
   const disclaimerInstruction = getDisclaimerInstruction(provider, language);
+  const structuredOutputInstruction = getStructuredOutputInstruction('glucoseInsulin');
+  const annotationsContext = getAnnotationsContext(annotations);
   
   const unitInstruction = unit === 'mg/dL'
     ? 'Remember that all glucose values are in mg/dL (not mmol/L).'
@@ -93,12 +98,12 @@ Perform the following specific analyses on provided data set and report the find
 6. Recommendations:
 - Offer 2-3 specific, actionable recommendations based on the tercile analysis, variance analysis, and hypoglycemia risk data.
 - Each recommendation should be concrete and specific (e.g., 'Days with high bolus ratio show significantly less time above range; consider increasing your meal-time insulin-to-carb ratio').
-- Rank recommendations by expected impact on glucose control.
+- Rank recommendations by expected impact on glucose control.${summaryContext}
 
 **Dataset (CSV format)**
 \`\`\`csv
 ${csvData}
-\`\`\`
+\`\`\`${annotationsContext}
 
-${unitInstruction} Address me directly using "you/your" language. Keep your response clear and actionable. ${languageInstruction}${disclaimerInstruction}`;
+${unitInstruction} Address me directly using "you/your" language. Keep your response clear and actionable. ${languageInstruction}${structuredOutputInstruction}${disclaimerInstruction}`;
 }
@@ -352,5 +352,14 @@ describe('hyposPrompt', () => {
       expect(result).toContain('1 hour before');
       expect(result).toContain('1 hour after');
     });
+
+    it('should include the data coverage note before the datasets', () => {
+      const coverageNote = '\n\n**Data Coverage**\nDataset 1 only contains the readings around the last 12 of 40 hypo events.';
+
+      const result = generateHyposPrompt(base64Encode(sampleHypoEventsData), base64Encode(sampleHypoSummaryData), 'english', 'mmol/L', undefined, undefined, [], coverageNote);
+
+      expect(result).toContain(coverageNote);
+      expect(result.indexOf('**Data Coverage**')).toBeLessThan(result.indexOf('**Dataset 1: Hypo Events'));
+    });
   });
 });
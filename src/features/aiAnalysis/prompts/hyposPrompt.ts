@@ -7,9 +7,10 @@
 
 import { base64Decode } from '../../../utils/formatting';
 import type { ResponseLanguage } from '../../../hooks/useResponseLanguage';
-import type { GlucoseUnit } from '../../../types';
+import type { GlucoseUnit, DataAnnotation } from '../../../types';
 import type { AIProvider } from '../../../utils/api/aiApi';
-import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt } from './promptUtils';
+import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt, getAnnotationsContext } from './promptUtils';
+import { getStructuredOutputInstruction } from '../structuredOutput';
 
 /**
  * Generate AI prompt for hypoglycemia analysis
@@ -20,6 +21,8 @@ import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt } fro
  * @param unit - Glucose unit for response (mmol/L or mg/dL) - note: CSV data is always in mmol/L
  * @param provider - AI provider being used (optional)
  * @param base64HypoEventSummaryData - Base64 encoded CSV data with per-event summary including bolus info (optional)
+ * @param annotations - User annotations of the analyzed data, listed as context (optional)
+ * @param dataCoverageNote - Note on which events Dataset 1 covers when it was limited to fit the prompt (optional)
  * @returns Formatted prompt for AI analysis
  */
 export function generateHyposPrompt(
@@ -28,7 +31,9 @@ export function generateHyposPrompt(
   language: ResponseLanguage = 'english',
   unit: GlucoseUnit = 'mmol/L',
   provider?: AIProvider,
-  base64HypoEventSummaryData?: string
+  base64HypoEventSummaryData?: string,
+  annotations: DataAnnotation[] = [],
+  dataCoverageNote: string = ''
 ): string {
   const hypoEventsData = base64Decode(base64HypoEventsData);
   const hypoSummaryData = base64Decode(base64HypoSummaryData);
@@ -36,6 +41,8 @@ export function generateHyposPrompt(
   const systemPrompt = getSystemPrompt();
   const languageInstruction = getLanguageInstruction(language);
   const disclaimerInstruction = getDisclaimerInstruction(provider, language);
+  const structuredOutputInstruction = getStructuredOutputInstruction('hypos');
+  const annotationsContext = getAnnotationsContext(annotations);
   
   // CSV data is always in mmol/L, but we show thresholds in both units for clarity
   // User's preferred display unit determines which unit to emphasize in the response
@@ -120,6 +127,7 @@ Answer these exact questions with evidence from the data:
    - Look for patterns suggesting high insulin-on-board at hypo start
    - Multiple rapid drops in close succession
    - If bolus data is available, check for multiple boluses within 2-4 hours before hypo
+   - Use the "Last Bolus IOB At Start (U)" column of the hypo event summary, if provided, to judge how much of the last bolus was still active
 
 4. **Any days with clustering (>2 hypos/day)?**
    - Identify days with multiple hypo events
@@ -165,7 +173,7 @@ Provide 3-5 specific, actionable recommendations ranked by expected impact. Exam
 6. **Prioritized Recommendations**
    Numbered list of specific, quantified recommendations
 
-Base every statement on the provided data only. If something cannot be determined from the data, explicitly state "cannot be determined from provided data".
+Base every statement on the provided data only. If something cannot be determined from the data, explicitly state "cannot be determined from provided data".${dataCoverageNote}
 
 **Dataset 1: Hypo Events with Surrounding CGM Data (hypo_events.csv)**
 Each hypo event includes CGM readings from 1 hour before to 1 hour after the hypo period.
@@ -179,7 +187,7 @@ Aggregated daily statistics including hypo counts, durations, nadirs, and LBGI.
 **Important: All glucose values in the CSV are in mmol/L.**
 \`\`\`csv
 ${hypoSummaryData}
-\`\`\`${hypoEventSummarySection}
+\`\`\`${hypoEventSummarySection}${annotationsContext}
 
-All glucose values in the provided CSV data are in mmol/L. When presenting values in your response, please use ${responseUnit} as the preferred unit (convert if needed: 1 mmol/L = 18 mg/dL). Address me directly using "you/your" language. Keep your response clear, detailed, and actionable. ${languageInstruction}${disclaimerInstruction}`;
+All glucose values in the provided CSV data are in mmol/L. When presenting values in your response, please use ${responseUnit} as the preferred unit (convert if needed: 1 mmol/L = 18 mg/dL). Address me directly using "you/your" language. Keep your response clear, detailed, and actionable. ${languageInstruction}${structuredOutputInstruction}${disclaimerInstruction}`;
 }
@@ -8,9 +8,9 @@
 
 import { base64Decode } from '../../../utils/formatting';
 import type { ResponseLanguage } from '../../../hooks/useResponseLanguage';
-import type { GlucoseUnit } from '../../../types';
+import type { GlucoseUnit, DataAnnotation } from '../../../types';
 import type { AIProvider } from '../../../utils/api/aiApi';
-import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt } from './promptUtils';
+import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt, getAnnotationsContext } from './promptUtils';
 
 /**
  * Generate AI prompt for daily hypoglycemia event analysis
@@ -23,6 +23,7 @@ import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt } fro
  * @param language - Response language (english, czech, german, or serbian)
  * @param unit - Glucose unit for response (mmol/L or mg/dL)
  * @param provider - AI provider being used (optional)
+ * @param annotations - User annotations of the analyzed data, listed as context (optional)
  * @returns Formatted prompt for AI analysis
  */
 export function generateHyposReportPrompt(
@@ -30,12 +31,14 @@ export function generateHyposReportPrompt(
   totalEventCount: number,
   language: ResponseLanguage = 'english',
   unit: GlucoseUnit = 'mmol/L',
-  provider?: AIProvider
+  provider?: AIProvider,
+  annotations: DataAnnotation[] = []
 ): string {
   const eventsData = base64Decode(base64EventsData);
   const systemPrompt = getSystemPrompt();
   const languageInstruction = getLanguageInstruction(language);
   const disclaimerInstruction = getDisclaimerInstruction(provider, language);
+  const annotationsContext = getAnnotationsContext(annotations);
   
   // User's preferred response unit
   const responseUnit = unit;
@@ -63,7 +66,7 @@ Your task is to analyze the provided dataset of N=${totalEventCount} hypoglycemi
 For **every individual event**, perform the following deductions:
 
 * **Primary Suspect:** Determine the most probable single cause category based on the data:
-    * **Bolus Overlap/Stacking:** High confidence if \`Last_Bolus_Mins_Prior\` is close (e.g., < 180 min) to \`Second_Bolus_Mins_Prior\`.
+    * **Bolus Overlap/Stacking:** High confidence if \`Last_Bolus_Mins_Prior\` is close (e.g., < 180 min) to \`Second_Bolus_Mins_Prior\`, or if \`Bolus_IOB_Units\` is high at the start.
     * **Bolus Overdose/Timing:** High confidence if a large \`Last_Bolus_Units\` is present and the event occurs 1.5 to 4 hours later.
     * **Basal Excess (Nocturnal/Early AM):** High confidence if \`Time_of_Day_Code\` is 00-06 and low Bolus activity is present.
     * **Time/Hormonal Shift:** Used for unexplained midday lows with no clear Bolus/Basal fault.
@@ -124,6 +127,7 @@ The dataset contains the following fields per event:
 - \`Last_Bolus_Mins_Prior\`: Minutes from last bolus to event start
 - \`Second_Bolus_Units\`: Second-most recent bolus dose
 - \`Second_Bolus_Mins_Prior\`: Minutes from second bolus to event start
+- \`Bolus_IOB_Units\`: Bolus insulin still on board at event start (from the user's insulin activity model)
 - \`Programmed_Basal_U_hr\`: Standard basal rate for the hour
 - \`Basal_Units_H5_Prior\`, \`Basal_Units_H3_Prior\`, \`Basal_Units_H1_Prior\`: Total basal in 5th, 3rd, 1st hour before event
 - \`Time_of_Day_Code\`: Hour of day (0-23), used to identify nocturnal events
@@ -132,7 +136,7 @@ The dataset contains the following fields per event:
 
 \`\`\`csv
 ${eventsData}
-\`\`\`
+\`\`\`${annotationsContext}
 
 Base every statement on the provided data only. If something cannot be determined from the data, explicitly state "cannot be determined" in the actionableInsight field.
 
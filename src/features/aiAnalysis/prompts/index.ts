@@ -6,3 +6,4 @@ export * from './hyposPrompt';
 export * from './hyposReportPrompt';
 export * from './bgOverviewTIRPrompt';
 export * from './promptUtils';
+export * from './followUpPrompt';
@@ -434,5 +434,32 @@ describe('mealTimingPrompt', () => {
       expect(result).toContain('MAIN MEALS ONLY (no snacks)');
       expect(result).toContain('Breakfast/Lunch/Dinner only (no snacks)');
     });
+
+    it('should include detected unannounced rises when provided', () => {
+      const base64Cgm = base64Encode(sampleCgmData);
+      const base64Bolus = base64Encode(sampleBolusData);
+      const base64Basal = base64Encode(sampleBasalData);
+      const riseEventsData = 'Start_Time,Meal_Slot,Classification\n2025-01-01T12:00:00.000Z,lunch,missedMealBolus';
+
+      const withoutEvents = generateMealTimingPrompt(base64Cgm, base64Bolus, base64Basal);
+      const result = generateMealTimingPrompt(base64Cgm, base64Bolus, base64Basal, 'english', 'mmol/L', undefined, base64Encode(riseEventsData));
+
+      expect(withoutEvents).not.toContain('Dataset 4');
+      expect(withoutEvents).not.toContain('Missed and Late Boluses');
+      expect(result).toContain('**Dataset 4: Unannounced Rises (rise_events.csv)**');
+      expect(result).toContain(riseEventsData);
+      expect(result).toContain('Missed and Late Boluses');
+    });
+
+    it('should include the pre-computed summaries before the raw datasets', () => {
+      const summaryContext = '\n\n**Pre-computed Summaries**\nThe raw datasets only cover the last 14 of 90 days.';
+
+      const withoutSummaries = generateMealTimingPrompt(base64Encode(sampleCgmData), base64Encode(sampleBolusData), base64Encode(sampleBasalData));
+      const result = generateMealTimingPrompt(base64Encode(sampleCgmData), base64Encode(sampleBolusData), base64Encode(sampleBasalData), 'english', 'mmol/L', undefined, undefined, [], summaryContext);
+
+      expect(withoutSummaries).not.toContain('Pre-computed Summaries');
+      expect(result).toContain(summaryContext);
+      expect(result.indexOf('**Pre-computed Summaries**')).toBeLessThan(result.indexOf('**Dataset 1: CGM Data'));
+    });
   });
 });
@@ -7,9 +7,10 @@
 
 import { base64Decode } from '../../../utils/formatting';
 import type { ResponseLanguage } from '../../../hooks/useResponseLanguage';
-import type { GlucoseUnit } from '../../../types';
+import type { GlucoseUnit, DataAnnotation } from '../../../types';
 import type { AIProvider } from '../../../utils/api/aiApi';
-import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt } from './promptUtils';
+import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt, getAnnotationsContext } from './promptUtils';
+import { getStructuredOutputInstruction } from '../structuredOutput';
 
 /**
  * Generate AI prompt for meal timing analysis
@@ -20,6 +21,9 @@ import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt } fro
  * @param language - Response language (english, czech, german, or serbian)
  * @param unit - Glucose unit (mmol/L or mg/dL)
  * @param provider - AI provider being used (optional)
+ * @param base64RiseEventsData - Base64 encoded CSV data with detected unannounced rises (optional)
+ * @param annotations - User annotations of the analyzed data, listed as context (optional)
+ * @param summaryContext - Pre-computed summaries of the whole period with a note on the raw data coverage (optional)
  * @returns Formatted prompt for AI analysis
  */
 export function generateMealTimingPrompt(
@@ -28,14 +32,20 @@ export function generateMealTimingPrompt(
   base64BasalData: string,
   language: ResponseLanguage = 'english',
   unit: GlucoseUnit = 'mmol/L',
-  provider?: AIProvider
+  provider?: AIProvider,
+  base64RiseEventsData?: string,
+  annotations: DataAnnotation[] = [],
+  summaryContext: string = ''
 ): string {
   const cgmData = base64Decode(base64CgmData);
   const bolusData = base64Decode(base64BolusData);
   const basalData = base64Decode(base64BasalData);
+  const riseEventsData = base64RiseEventsData ? base64Decode(base64RiseEventsData) : '';
   const systemPrompt = getSystemPrompt();
   const languageInstruction = getLanguageInstruction(language);
   const disclaimerInstruction = getDisclaimerInstruction(provider, language);
+  const structuredOutputInstruction = getStructuredOutputInstruction('mealTiming');
+  const annotationsContext = getAnnotationsContext(annotations);
   
   // Unit-specific values for ranges
   const lowThreshold = unit === 'mg/dL' ? '70' : '3.9';
@@ -43,6 +53,23 @@ export function generateMealTimingPrompt(
   // Pre-bolus rise threshold: used to detect when glucose starts rising after a meal
   // This is the minimum rise to consider a sustained glucose increase
   const preBolusRiseThreshold = unit === 'mg/dL' ? '27' : '1.5';
+
+  // Detected unannounced rises are only included when there are any
+  const riseEventsAnalysis = riseEventsData ? `
+
+7. **Missed and Late Boluses**
+   - Use Dataset 4 (pre-computed from the CGM, bolus and carb data) as the list of sustained glucose rises with no bolus or carb entry around their start
+   - Classification column: missedMealBolus = no bolus within 2 hours, lateBolus = a bolus with carbs given after the rise started, correctionOnly = a bolus without carbs given after the rise started
+   - Present a table of counts per meal slot (breakfast, lunch, dinner, snack) and classification
+   - Identify the meal slots and days of the week where missed or late boluses are most frequent
+   - Estimate the TIR impact of these events and include them in the Actionable Insights when they are frequent` : '';
+  const riseEventsDataset = riseEventsData ? `
+
+**Dataset 4: Unannounced Rises (rise_events.csv)**
+Sustained glucose rises with no bolus or carb entry around their start (glucose values in mmol/L, rate of change in mmol/L per 5 minutes):
+\`\`\`csv
+${riseEventsData}
+\`\`\`` : '';
   
   return `${systemPrompt}
 
@@ -140,7 +167,7 @@ Analyze the provided time-series data to provide a day-of-the-week specific and
      * Exercise or activity patterns (if discernible from BG drops)
    - Calculate frequency of hypoglycemic events per day
    - Identify any correlation between high pre-bolus times and subsequent hypoglycemia
-   - Note time periods with highest hypoglycemia risk
+   - Note time periods with highest hypoglycemia risk${riseEventsAnalysis}
 
 **Output Structure**
 
@@ -170,7 +197,7 @@ Analyze the provided time-series data to provide a day-of-the-week specific and
    | Breakfast pre-bolus       | –5 min        → +18 min          | +8–12%            |
    | Weekend basal 03:00–08:00 | 0.8 U/h       → 1.05 U/h         | +6–10%            |
    
-   Note: Only include this table if you identify clear, quantifiable improvements with reliable impact estimates.
+   Note: Only include this table if you identify clear, quantifiable improvements with reliable impact estimates.${summaryContext}
 
 **Dataset 1: CGM Data (cgm.csv)**
 Raw, high-frequency continuous glucose monitoring data:
@@ -188,7 +215,7 @@ ${bolusData}
 Pump basal insulin delivery data:
 \`\`\`csv
 ${basalData}
-\`\`\`
+\`\`\`${riseEventsDataset}${annotationsContext}
 
-Remember that all glucose values are in ${unit} (not ${unit === 'mg/dL' ? 'mmol/L' : 'mg/dL'}). Address me directly using "you/your" language. Keep your response clear, detailed, and actionable. ${languageInstruction}${disclaimerInstruction}`;
+Remember that all glucose values are in ${unit} (not ${unit === 'mg/dL' ? 'mmol/L' : 'mg/dL'}). Address me directly using "you/your" language. Keep your response clear, detailed, and actionable. ${languageInstruction}${structuredOutputInstruction}${disclaimerInstruction}`;
 }
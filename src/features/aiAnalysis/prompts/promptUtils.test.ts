@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { getLanguageInstruction, getDisclaimerInstruction } from './promptUtils';
+import { getLanguageInstruction, getDisclaimerInstruction, getAnnotationsContext } from './promptUtils';
 
 describe('promptUtils', () => {
   describe('getLanguageInstruction', () => {
@@ -138,4 +138,22 @@ describe('promptUtils', () => {
       });
     });
   });
+
+  describe('getAnnotationsContext', () => {
+    it('should return an empty string without annotations', () => {
+      expect(getAnnotationsContext()).toBe('');
+      expect(getAnnotationsContext([])).toBe('');
+    });
+
+    it('should list timed and whole-day annotations with their notes', () => {
+      const result = getAnnotationsContext([
+        { id: 'a1', date: '2024-01-14', tag: 'sick', note: '' },
+        { id: 'a2', date: '2024-01-15', time: '19:30', tag: 'pizza', note: 'Two slices' },
+      ]);
+
+      expect(result).toContain('**User Annotations**');
+      expect(result).toContain('- 2024-01-14 (whole day): sick');
+      expect(result).toContain('- 2024-01-15 19:30: pizza or another high-fat meal - "Two slices"');
+    });
+  });
 });
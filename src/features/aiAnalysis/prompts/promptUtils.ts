@@ -3,6 +3,7 @@
  */
 
 import type { ResponseLanguage } from '../../../hooks/useResponseLanguage';
+import type { AnnotationTag, DataAnnotation } from '../../../types';
 import type { AIProvider } from '../../../utils/api/aiApi';
 import { getProviderDisplayName } from '../../../utils/api/aiApi';
 import { AI_SYSTEM_PROMPT } from '../../../utils/api/aiPrompts';
@@ -79,3 +80,44 @@ export function getDisclaimerInstruction(provider?: AIProvider, language: Respon
   
   return `\n\nIMPORTANT: End your response with a medical disclaimer stating: "${disclaimerText}"${exactTextInstruction} Then add the completion marker "--- CONCLUSIO DATAE ---" on its own separate line to confirm your analysis is complete.`;
 }
+
+/**
+ * Maximum number of annotations included in a prompt (most recent first)
+ */
+export const MAX_PROMPT_ANNOTATIONS = 100;
+
+/**
+ * Description of each annotation tag for AI prompts
+ */
+const ANNOTATION_TAG_DESCRIPTIONS: Record<AnnotationTag, string> = {
+  sick: 'sick',
+  pizza: 'pizza or another high-fat meal',
+  siteChange: 'infusion site change',
+  alcohol: 'alcohol',
+  stress: 'stress',
+  other: 'other',
+};
+
+/**
+ * Get the prompt section listing the user's annotations of the analyzed data
+ * 
+ * @param annotations - User annotations (tagged notes at a date and optional time)
+ * @returns Annotations section to add to a prompt, or an empty string without annotations
+ */
+export function getAnnotationsContext(annotations: DataAnnotation[] = []): string {
+  if (annotations.length === 0) {
+    return '';
+  }
+
+  const lines = annotations.slice(-MAX_PROMPT_ANNOTATIONS).map(annotation => {
+    const when = annotation.time ? `${annotation.date} ${annotation.time}` : `${annotation.date} (whole day)`;
+    const note = annotation.note ? ` - "${annotation.note}"` : '';
+    return `- ${when}: ${ANNOTATION_TAG_DESCRIPTIONS[annotation.tag]}${note}`;
+  });
+
+  return `
+
+**User Annotations**
+The user tagged these moments in the data. Use them to explain unusual glucose patterns near those times (for example illness or stress raising glucose, a high-fat meal causing a late rise, alcohol lowering glucose overnight, or a site change affecting absorption) and say when a finding is likely caused by an annotated event rather than by the therapy settings:
+${lines.join('\n')}`;
+}
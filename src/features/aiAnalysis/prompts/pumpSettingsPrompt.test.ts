@@ -538,5 +538,53 @@ describe('pumpSettingsPrompt', () => {
       expect(result).toContain('estimated ISF is HIGHER');
       expect(result).toContain('estimated ISF is LOWER');
     });
+
+    it('should include the nightly analysis when provided', () => {
+      const base64Cgm = base64Encode(sampleCgmData);
+      const base64Bolus = base64Encode(sampleBolusData);
+      const base64Basal = base64Encode(sampleBasalData);
+      const nightsData = 'Night_Date,Classification\n2024-01-01,driftUp';
+
+      const withoutNights = generatePumpSettingsPrompt(base64Cgm, base64Bolus, base64Basal);
+      const result = generatePumpSettingsPrompt(base64Cgm, base64Bolus, base64Basal, 'english', 'mmol/L', undefined, base64Encode(nightsData));
+
+      expect(withoutNights).not.toContain('Dataset 4');
+      expect(withoutNights).not.toContain('Overnight check');
+      expect(result).toContain('**Dataset 4: Nightly Analysis (nights.csv)**');
+      expect(result).toContain(nightsData);
+      expect(result).toContain('Overnight check');
+    });
+
+    it('should include user annotations when provided', () => {
+      const base64Cgm = base64Encode(sampleCgmData);
+      const base64Bolus = base64Encode(sampleBolusData);
+      const base64Basal = base64Encode(sampleBasalData);
+
+      const withoutAnnotations = generatePumpSettingsPrompt(base64Cgm, base64Bolus, base64Basal);
+      const result = generatePumpSettingsPrompt(base64Cgm, base64Bolus, base64Basal, 'english', 'mmol/L', undefined, undefined, [
+        { id: 'a1', date: '2024-01-01', time: '08:00', tag: 'siteChange', note: '' },
+      ]);
+
+      expect(withoutAnnotations).not.toContain('User Annotations');
+      expect(result).toContain('**User Annotations**');
+      expect(result).toContain('- 2024-01-01 08:00: infusion site change');
+    });
+
+    it('should request the structured summary before the disclaimer', () => {
+      const result = generatePumpSettingsPrompt(base64Encode(sampleCgmData), base64Encode(sampleBolusData), base64Encode(sampleBasalData));
+
+      expect(result).toContain('**Structured Summary (JSON)**');
+      expect(result).toContain('"severity"');
+      expect(result.indexOf('**Structured Summary (JSON)**')).toBeLessThan(result.indexOf('medical disclaimer stating'));
+    });
+
+    it('should include the pre-computed summaries before the raw datasets', () => {
+      const summaryContext = '\n\n**Pre-computed Summaries**\nThe raw datasets only cover the last 14 of 90 days.';
+
+      const result = generatePumpSettingsPrompt(base64Encode(sampleCgmData), base64Encode(sampleBolusData), base64Encode(sampleBasalData), 'english', 'mmol/L', undefined, undefined, [], summaryContext);
+
+      expect(result).toContain(summaryContext);
+      expect(result.indexOf('**Pre-computed Summaries**')).toBeLessThan(result.indexOf('**Dataset 1: CGM Data'));
+    });
   });
 });
@@ -7,9 +7,10 @@
 
 import { base64Decode } from '../../../utils/formatting';
 import type { ResponseLanguage } from '../../../hooks/useResponseLanguage';
-import type { GlucoseUnit } from '../../../types';
+import type { GlucoseUnit, DataAnnotation } from '../../../types';
 import type { AIProvider } from '../../../utils/api/aiApi';
-import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt } from './promptUtils';
+import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt, getAnnotationsContext } from './promptUtils';
+import { getStructuredOutputInstruction } from '../structuredOutput';
 
 /**
  * Generate AI prompt for pump settings verification analysis
@@ -20,6 +21,9 @@ import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt } fro
  * @param language - Response language (english, czech, german, or serbian)
  * @param unit - Glucose unit (mmol/L or mg/dL)
  * @param provider - AI provider being used (optional)
+ * @param base64NightsData - Base64 encoded CSV data with per-night sleep window analysis (optional)
+ * @param annotations - User annotations of the analyzed data, listed as context (optional)
+ * @param summaryContext - Pre-computed summaries of the whole period with a note on the raw data coverage (optional)
  * @returns Formatted prompt for AI analysis
  */
 export function generatePumpSettingsPrompt(
@@ -28,14 +32,20 @@ export function generatePumpSettingsPrompt(
   base64BasalData: string,
   language: ResponseLanguage = 'english',
   unit: GlucoseUnit = 'mmol/L',
-  provider?: AIProvider
+  provider?: AIProvider,
+  base64NightsData?: string,
+  annotations: DataAnnotation[] = [],
+  summaryContext: string = ''
 ): string {
   const cgmData = base64Decode(base64CgmData);
   const bolusData = base64Decode(base64BolusData);
   const basalData = base64Decode(base64BasalData);
+  const nightsData = base64NightsData ? base64Decode(base64NightsData) : '';
   const systemPrompt = getSystemPrompt();
   const languageInstruction = getLanguageInstruction(language);
   const disclaimerInstruction = getDisclaimerInstruction(provider, language);
+  const structuredOutputInstruction = getStructuredOutputInstruction('pumpSettings');
+  const annotationsContext = getAnnotationsContext(annotations);
   
   // Unit-specific values
   const targetGlucose = unit === 'mg/dL' ? '110' : '6.1';
@@ -45,6 +55,21 @@ export function generatePumpSettingsPrompt(
   const severeHighThreshold = unit === 'mg/dL' ? '250' : '13.9';
   const isfConversionThreshold = unit === 'mg/dL' ? '9' : '0.5';
   const isfMinBG = unit === 'mg/dL' ? '126' : '7.0';
+
+  // Per-night analysis of the user's sleep window is only included when there are any nights
+  const nightsAnalysis = nightsData ? `
+- **Overnight check (Dataset 4)**: Dataset 4 is pre-computed from the CGM data for each night of the user's usual sleep window
+  - Classification column: stable, driftUp, driftDown (start to end change of at least 1.7 mmol/L) or lowThenHigh (a low followed by a high, suggesting a rebound)
+  - Dawn_Slope_mmol_L_h is the glucose trend between 03:00 and 08:00; a slope above 0.3 mmol/L per hour indicates a dawn phenomenon
+  - Use these nights to confirm or question the inferred night basal: consistent driftUp or dawn rises suggest it is too low, consistent driftDown or lows suggest it is too high
+  - Report the count of each classification and the typical nadir time` : '';
+  const nightsDataset = nightsData ? `
+
+**Dataset 4: Nightly Analysis (nights.csv)**
+One row per night of the usual sleep window (glucose values in mmol/L):
+\`\`\`csv
+${nightsData}
+\`\`\`` : '';
   
   return `${systemPrompt}
 
@@ -105,7 +130,7 @@ Standard ranges:
   - Report to two decimals: Day basal = ?.?? U/h, Night basal = ?.?? U/h
 - **Estimation Uncertainty**: Include a note explaining:
   - If the estimated basal rate is HIGHER than actual: The patient may be receiving more insulin than we think, so recommendations to increase basal could cause hypoglycemia
-  - If the estimated basal rate is LOWER than actual: The patient may be receiving less insulin than we think, so recommendations to decrease basal could cause hyperglycemia
+  - If the estimated basal rate is LOWER than actual: The patient may be receiving less insulin than we think, so recommendations to decrease basal could cause hyperglycemia${nightsAnalysis}
 
 ---
 
@@ -243,7 +268,7 @@ RECOMMENDATIONS (ACTIONABLE - MAX 6 ITEMS)
 5. Profile: [e.g., "Create 'Weekend Day' temp profile: +0.3 U/h 09:00–15:00"]
 6. [Optional 6th recommendation if highly impactful]
 
-Be rigorous. Show calculations. Use tables. Derive everything from data only. Analyze rigorously with maximum statistical detail.
+Be rigorous. Show calculations. Use tables. Derive everything from data only. Analyze rigorously with maximum statistical detail.${summaryContext}
 
 **Dataset 1: CGM Data (cgm.csv)**
 Raw, high-frequency continuous glucose monitoring data:
@@ -261,7 +286,7 @@ ${bolusData}
 Pump basal insulin delivery data:
 \`\`\`csv
 ${basalData}
-\`\`\`
+\`\`\`${nightsDataset}${annotationsContext}
 
-Remember that all glucose values are in ${unit} (not ${unit === 'mg/dL' ? 'mmol/L' : 'mg/dL'}). Address me directly using "you/your" language. Keep your response clear, detailed, and actionable. ${languageInstruction}${disclaimerInstruction}`;
+Remember that all glucose values are in ${unit} (not ${unit === 'mg/dL' ? 'mmol/L' : 'mg/dL'}). Address me directly using "you/your" language. Keep your response clear, detailed, and actionable. ${languageInstruction}${structuredOutputInstruction}${disclaimerInstruction}`;
 }
@@ -214,6 +214,13 @@ describe('timeInRangePrompt', () => {
       expect(result).toContain('Uvek se konsultujte sa svojim lekarom');
     });
 
+    it('should request the structured summary without time windows', () => {
+      const result = generateTimeInRangePrompt(mockStats, mockThresholds);
+      
+      expect(result).toContain('**Structured Summary (JSON)**');
+      expect(result).toContain('This analysis has no time windows.');
+    });
+
     it('should include data context explanation', () => {
       const result = generateTimeInRangePrompt(mockStats, mockThresholds);
       
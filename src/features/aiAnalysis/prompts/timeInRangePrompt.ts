@@ -5,9 +5,10 @@
  */
 
 import type { ResponseLanguage } from '../../../hooks/useResponseLanguage';
-import type { GlucoseUnit, GlucoseRangeStats, GlucoseThresholds } from '../../../types';
+import type { GlucoseUnit, GlucoseRangeStats, GlucoseThresholds, DataAnnotation } from '../../../types';
 import type { AIProvider } from '../../../utils/api/aiApi';
-import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt } from './promptUtils';
+import { getLanguageInstruction, getDisclaimerInstruction, getSystemPrompt, getAnnotationsContext } from './promptUtils';
+import { getStructuredOutputInstruction } from '../structuredOutput';
 import { calculatePercentage } from '../../../utils/data';
 
 /**
@@ -23,6 +24,7 @@ const MMOL_TO_MGDL_FACTOR = 18;
  * @param language - Response language (english, czech, german, or serbian)
  * @param unit - Glucose unit (mmol/L or mg/dL)
  * @param provider - AI provider being used (optional)
+ * @param annotations - User annotations of the analyzed data, listed as context (optional)
  * @returns Formatted prompt for AI analysis
  */
 export function generateTimeInRangePrompt(
@@ -30,11 +32,14 @@ export function generateTimeInRangePrompt(
   thresholds: GlucoseThresholds,
   language: ResponseLanguage = 'english',
   unit: GlucoseUnit = 'mmol/L',
-  provider?: AIProvider
+  provider?: AIProvider,
+  annotations: DataAnnotation[] = []
 ): string {
   const systemPrompt = getSystemPrompt();
   const languageInstruction = getLanguageInstruction(language);
   const disclaimerInstruction = getDisclaimerInstruction(provider, language);
+  const structuredOutputInstruction = getStructuredOutputInstruction('timeInRange');
+  const annotationsContext = getAnnotationsContext(annotations);
   
   const unitInstruction = unit === 'mg/dL'
     ? 'Remember that all glucose values are in mg/dL (not mmol/L).'
@@ -56,11 +61,11 @@ export function generateTimeInRangePrompt(
 
 This analysis examines your continuous glucose monitoring (CGM) data to evaluate how well your blood glucose stays within the target range, helping identify areas for improvement in diabetes management.
 
-My percent time-in-range (TIR) from continuous glucose monitoring is ${tirPercentage.toFixed(1)}%, based on a target range of ${targetRangeStr}. My Time Above Range (>${highThresholdStr}) is ${tarPercentage.toFixed(1)}%. Provide a brief assessment and 2-3 specific, actionable and behavioral recommendations to improve your glucose management. Be encouraging but realistic. ${unitInstruction} The target TIR for most adults with diabetes is 70% or higher. Keep your response concise (under 200 words) and practical. Address me directly using "you/your" language. ${languageInstruction}
+My percent time-in-range (TIR) from continuous glucose monitoring is ${tirPercentage.toFixed(1)}%, based on a target range of ${targetRangeStr}. My Time Above Range (>${highThresholdStr}) is ${tarPercentage.toFixed(1)}%. Provide a brief assessment and 2-3 specific, actionable and behavioral recommendations to improve your glucose management. Be encouraging but realistic. ${unitInstruction} The target TIR for most adults with diabetes is 70% or higher. Keep your response concise (under 200 words) and practical. Address me directly using "you/your" language. ${languageInstruction}${annotationsContext}
 
 IMPORTANT FORMATTING RULES:
 - Do NOT start your response with greetings like "Hello", "Good morning", "Good afternoon", or similar
 - Do NOT include procedural statements like "I am analyzing", "Let me extract", "I will now look at", etc.
 - Start directly with the assessment and recommendations
-- Respond only with the assessment + recommendations, no intro, no extra text${disclaimerInstruction}`;
+- Respond only with the assessment + recommendations, no intro, no extra text${structuredOutputInstruction}${disclaimerInstruction}`;
 }
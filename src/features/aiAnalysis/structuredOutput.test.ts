@@ -0,0 +1,128 @@
+/**
+ * Tests for structured AI analysis output
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ANALYSIS_SCHEMAS,
+  extractStructuredOutput,
+  getStructuredOutputInstruction,
+  stripStructuredOutput,
+  validateJsonSchema,
+} from './structuredOutput';
+import type { StructuredAIAnalysis } from '../../types';
+
+const analysis: StructuredAIAnalysis = {
+  findings: [
+    { title: 'Late breakfast spikes', detail: 'Glucose peaks 90 minutes after breakfast.', confidence: 'high', timeWindow: { start: '07:00', end: '10:00' } },
+  ],
+  recommendations: [
+    { title: 'Pre-bolus breakfast', action: 'Bolus 15 minutes before breakfast.', severity: 'medium', confidence: 'high', timeWindow: { start: '07:00', end: '10:00' } },
+  ],
+};
+
+function toResponse(json: string): string {
+  return `## Summary\nYour breakfasts are the main issue.\n\n\`\`\`json\n${json}\n\`\`\`\n\nData is provided by AI and it might not be correct.`;
+}
+
+describe('structuredOutput', () => {
+  describe('validateJsonSchema', () => {
+    it('should accept valid output for each analysis', () => {
+      expect(validateJsonSchema(analysis, ANALYSIS_SCHEMAS.mealTiming)).toEqual([]);
+      expect(validateJsonSchema({ ...analysis, recommendations: [{ ...analysis.recommendations[0], timeWindow: { date: '2025-01-14' } }] }, ANALYSIS_SCHEMAS.hypos)).toEqual([]);
+    });
+
+    it('should report missing fields, wrong types and invalid values with their path', () => {
+      const errors = validateJsonSchema({
+        findings: 'none',
+        recommendations: [{ title: 'Pre-bolus', action: '', severity: 'urgent', confidence: 'high', timeWindow: { start: '7am', end: '10:00' } }],
+      }, ANALYSIS_SCHEMAS.mealTiming);
+
+      expect(errors).toEqual([
+        '$.findings must be an array',
+        '$.recommendations[0].action must not be empty',
+        '$.recommendations[0].severity must be one of low, medium, high',
+        '$.recommendations[0].timeWindow.start has an invalid format',
+      ]);
+    });
+
+    it('should enforce the time window fields of the analysis', () => {
+      const withDate = { ...analysis, findings: [], recommendations: [{ ...analysis.recommendations[0], timeWindow: { date: '2025-01-14' } }] };
+
+      expect(validateJsonSchema(withDate, ANALYSIS_SCHEMAS.glucoseInsulin)).toEqual([]);
+      expect(validateJsonSchema(withDate, ANALYSIS_SCHEMAS.pumpSettings)).toEqual([
+        '$.recommendations[0].timeWindow.start is required',
+        '$.recommendations[0].timeWindow.end is required',
+      ]);
+      expect(validateJsonSchema(withDate, ANALYSIS_SCHEMAS.timeInRange)).toEqual([
+        '$.recommendations[0].timeWindow is not allowed',
+      ]);
+    });
+
+    it('should limit the number of items', () => {
+      const errors = validateJsonSchema({ findings: [], recommendations: [] }, ANALYSIS_SCHEMAS.timeInRange);
+      expect(errors).toEqual(['$.recommendations must have at least 1 item']);
+    });
+  });
+
+  describe('getStructuredOutputInstruction', () => {
+    it('should include the schema and time window explanation of the analysis', () => {
+      const instruction = getStructuredOutputInstruction('pumpSettings');
+
+      expect(instruction).toContain('```json code block');
+      expect(instruction).toContain(JSON.stringify(ANALYSIS_SCHEMAS.pumpSettings));
+      expect(instruction).toContain('basal rate segment');
+      expect(instruction).toContain('before the medical disclaimer');
+    });
+  });
+
+  describe('stripStructuredOutput', () => {
+    it('should remove the JSON block and keep the text around it', () => {
+      const result = stripStructuredOutput(toResponse(JSON.stringify(analysis)));
+
+      expect(result).not.toContain('```json');
+      expect(result).toContain('Your breakfasts are the main issue.');
+      expect(result).toContain('Data is provided by AI');
+    });
+
+    it('should remove a block that is still streaming in', () => {
+      expect(stripStructuredOutput('Your breakfasts are the main issue.\n\n```json\n{"findings": [')).toBe('Your breakfasts are the main issue.');
+    });
+
+    it('should return responses without a JSON block unchanged', () => {
+      expect(stripStructuredOutput('Plain analysis')).toBe('Plain analysis');
+    });
+  });
+
+  describe('extractStructuredOutput', () => {
+    it('should return the validated output and the Markdown without the block', () => {
+      const result = extractStructuredOutput(toResponse(JSON.stringify(analysis, null, 2)), 'mealTiming');
+
+      expect(result.analysis).toEqual(analysis);
+      expect(result.errors).toEqual([]);
+      expect(result.markdown).not.toContain('```json');
+    });
+
+    it('should reject a missing block', () => {
+      const result = extractStructuredOutput('Plain analysis', 'mealTiming');
+
+      expect(result.analysis).toBeNull();
+      expect(result.errors).toEqual(['The response has no JSON block']);
+      expect(result.markdown).toBe('Plain analysis');
+    });
+
+    it('should reject invalid JSON', () => {
+      const result = extractStructuredOutput(toResponse('{"findings": [,]}'), 'mealTiming');
+
+      expect(result.analysis).toBeNull();
+      expect(result.errors).toEqual(['The JSON block is not valid JSON']);
+    });
+
+    it('should reject output that does not match the schema of the analysis', () => {
+      const result = extractStructuredOutput(toResponse(JSON.stringify(analysis)), 'timeInRange');
+
+      expect(result.analysis).toBeNull();
+      expect(result.errors).toContain('$.findings[0].timeWindow is not allowed');
+    });
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Structured AI analysis output
+ *
+ * Each AI analysis asks the provider for a JSON block with its findings and
+ * recommendations next to the Markdown response. This module defines the JSON
+ * schema of each analysis, the prompt instruction requesting it, and the
+ * extraction and validation of the block from the response.
+ */
+
+import type { AIAnalysisTab, StructuredAIAnalysis } from '../../types';
+
+/**
+ * Subset of JSON Schema used to describe and validate structured AI output
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: string[];
+  pattern?: string;
+  minLength?: number;
+}
+
+/**
+ * Result of extracting the structured output from an AI response
+ */
+export interface StructuredOutputResult {
+  /** Response without the JSON block, for Markdown rendering */
+  markdown: string;
+  /** Validated structured output, or null if it is missing or invalid */
+  analysis: StructuredAIAnalysis | null;
+  /** Reasons the structured output was rejected, empty when it is valid */
+  errors: string[];
+}
+
+/**
+ * Maximum number of findings and of recommendations in structured output
+ */
+export const MAX_STRUCTURED_ITEMS = 5;
+
+const LEVEL_SCHEMA: JsonSchema = { type: 'string', enum: ['low', 'medium', 'high'] };
+const DATE_SCHEMA: JsonSchema = { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$', description: 'Day in YYYY-MM-DD format' };
+const TIME_SCHEMA: JsonSchema = { type: 'string', pattern: '^([01]\\d|2[0-3]):[0-5]\\d$|^24:00$', description: 'Time of day in 24-hour HH:mm format' };
+const TEXT_SCHEMA: JsonSchema = { type: 'string', minLength: 1 };
+
+/**
+ * Create the schema of an analysis' structured output
+ *
+ * @param timeWindowRequired - Required fields of the time window, or null if the analysis has no time windows
+ */
+function createAnalysisSchema(timeWindowRequired: Array<'date' | 'start' | 'end'> | null): JsonSchema {
+  const timeWindow: Record<string, JsonSchema> = timeWindowRequired
+    ? {
+      timeWindow: {
+        type: 'object',
+        properties: { date: DATE_SCHEMA, start: TIME_SCHEMA, end: TIME_SCHEMA },
+        required: timeWindowRequired,
+        additionalProperties: false,
+      },
+    }
+    : {};
+
+  return {
+    type: 'object',
+    properties: {
+      findings: {
+        type: 'array',
+        maxItems: MAX_STRUCTURED_ITEMS,
+        items: {
+          type: 'object',
+          properties: { title: TEXT_SCHEMA, detail: TEXT_SCHEMA, confidence: LEVEL_SCHEMA, ...timeWindow },
+          required: ['title', 'detail', 'confidence'],
+          additionalProperties: false,
+        },
+      },
+      recommendations: {
+        type: 'array',
+        minItems: 1,
+        maxItems: MAX_STRUCTURED_ITEMS,
+        items: {
+          type: 'object',
+          properties: { title: TEXT_SCHEMA, action: TEXT_SCHEMA, severity: LEVEL_SCHEMA, confidence: LEVEL_SCHEMA, ...timeWindow },
+          required: ['title', 'action', 'severity', 'confidence'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['findings', 'recommendations'],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * JSON schema of the structured output of each analysis
+ *
+ * The time window fields depend on what the analysis looks at: single days for
+ * the daily glucose & insulin data, times of day for meals and pump settings.
+ */
+export const ANALYSIS_SCHEMAS: Record<AIAnalysisTab, JsonSchema> = {
+  timeInRange: createAnalysisSchema(null),
+  glucoseInsulin: createAnalysisSchema(['date']),
+  mealTiming: createAnalysisSchema(['start', 'end']),
+  pumpSettings: createAnalysisSchema(['start', 'end']),
+  hypos: createAnalysisSchema([]),
+};
+
+/**
+ * Explanation of the time window fields of each analysis for the prompt
+ */
+const TIME_WINDOW_INSTRUCTIONS: Record<AIAnalysisTab, string> = {
+  timeInRange: 'This analysis has no time windows.',
+  glucoseInsulin: 'Add "timeWindow" with the "date" of the day an item is about (e.g. one of the best or worst days); leave it out for items about the whole period.',
+  mealTiming: 'Add "timeWindow" with the "start" and "end" time of day an item is about (e.g. the breakfast window), plus the "date" if it is about a single day; leave it out for items about the whole day.',
+  pumpSettings: 'Add "timeWindow" with the "start" and "end" time of day an item is about (e.g. a basal rate segment); windows across midnight end earlier than they start (e.g. 22:00-02:00). Leave it out for items about the whole day.',
+  hypos: 'Add "timeWindow" with the "date" of a single hypoglycemia event and/or the "start" and "end" time of day an item is about (e.g. nights 00:00-06:00); leave it out for items about the whole period.',
+};
+
+/**
+ * Get the prompt instruction requesting the structured output of an analysis
+ *
+ * The JSON block goes before the medical disclaimer, so the instruction is
+ * placed before the disclaimer instruction of the prompt.
+ *
+ * @param tab - Analysis the prompt is for
+ * @returns Instruction to add to the prompt
+ */
+export function getStructuredOutputInstruction(tab: AIAnalysisTab): string {
+  return `
+
+**Structured Summary (JSON)**
+After your analysis and before the medical disclaimer, add exactly one \`\`\`json code block with your key findings and recommendations. It must be valid JSON matching this JSON schema:
+${JSON.stringify(ANALYSIS_SCHEMAS[tab])}
+- "severity" is how urgently a recommendation should be acted on, "confidence" is how strongly the data supports an item
+- ${TIME_WINDOW_INSTRUCTIONS[tab]}
+- Write the text values in the response language, but keep the JSON keys and enum values in English
+- Do NOT refer to the JSON block in the rest of your response`;
+}
+
+/**
+ * Validate a value against a JSON schema
+ *
+ * @param value - Parsed JSON value
+ * @param schema - Schema to validate against
+ * @param path - Path of the value, used in error messages
+ * @returns Validation errors, empty if the value is valid
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  if (schema.enum && !(typeof value === 'string' && schema.enum.includes(value))) {
+    return [`${path} must be one of ${schema.enum.join(', ')}`];
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const obj = value as Record<string, unknown>;
+      const properties = schema.properties ?? {};
+      const errors = (schema.required ?? [])
+        .filter(key => obj[key] === undefined)
+        .map(key => `${path}.${key} is required`);
+
+      for (const [key, propertyValue] of Object.entries(obj)) {
+        if (properties[key]) {
+          errors.push(...validateJsonSchema(propertyValue, properties[key], `${path}.${key}`));
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}.${key} is not allowed`);
+        }
+      }
+      return errors;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      const errors: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path} must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path} must have at most ${schema.maxItems} item${schema.maxItems === 1 ? '' : 's'}`);
+      }
+      if (schema.items) {
+        const items = schema.items;
+        value.forEach((item, index) => errors.push(...validateJsonSchema(item, items, `${path}[${index}]`)));
+      }
+      return errors;
+    }
+    case 'string': {
+      if (typeof value !== 'string') {
+        return [`${path} must be a string`];
+      }
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        return [`${path} must not be empty`];
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        return [`${path} has an invalid format`];
+      }
+      return [];
+    }
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} must be a number`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Remove the structured output JSON block from an AI response
+ *
+ * A block that is still open (while the response streams in) is removed up to
+ * the end of the text.
+ *
+ * @param response - AI response
+ * @returns Response without the JSON block
+ */
+export function stripStructuredOutput(response: string): string {
+  const start = response.indexOf('```json');
+  if (start === -1) {
+    return response;
+  }
+
+  const end = response.indexOf('```', start + '```json'.length);
+  const rest = end === -1 ? '' : response.slice(end + 3);
+  return `${response.slice(0, start).trimEnd()}\n\n${rest.trimStart()}`.trim();
+}
+
+/**
+ * Extract and validate the structured output of an analysis from an AI response
+ *
+ * @param response - AI response
+ * @param tab - Analysis the response belongs to
+ * @returns Markdown without the JSON block, and the structured output if it is valid
+ */
+export function extractStructuredOutput(response: string, tab: AIAnalysisTab): StructuredOutputResult {
+  const markdown = stripStructuredOutput(response);
+  const match = /```json\s*([\s\S]*?)```/.exec(response);
+
+  if (!match) {
+    return { markdown, analysis: null, errors: ['The response has no JSON block'] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(match[1].trim());
+  } catch {
+    return { markdown, analysis: null, errors: ['The JSON block is not valid JSON'] };
+  }
+
+  const errors = validateJsonSchema(parsed, ANALYSIS_SCHEMAS[tab]);
+  return {
+    markdown,
+    analysis: errors.length === 0 ? parsed as StructuredAIAnalysis : null,
+    errors,
+  };
+}
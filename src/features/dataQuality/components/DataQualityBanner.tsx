@@ -0,0 +1,68 @@
+/**
+ * Banner summarising CGM wear and data problems of the selected dataset
+ */
+
+import {
+  Button,
+  MessageBar,
+  MessageBarActions,
+  MessageBarBody,
+  MessageBarTitle,
+} from '@fluentui/react-components';
+import { useTranslation } from 'react-i18next';
+import { formatNumber } from '../../../utils/formatting/formatters';
+import { CONSENSUS_WINDOW_DAYS, MIN_WEAR_PERCENT, type DataQualityReport } from '../utils/dataQualityUtils';
+
+interface DataQualityBannerProps {
+  report: DataQualityReport;
+  detailsOpen: boolean;
+  onToggleDetails: () => void;
+}
+
+/**
+ * Shows whether the dataset meets the 70% wear over 14 days consensus and flags data anomalies.
+ *
+ * @param report - Data quality report of the CGM readings
+ * @param detailsOpen - Whether the detailed panel is currently shown
+ * @param onToggleDetails - Called when the details button is clicked
+ * @returns A success or warning message bar
+ */
+export function DataQualityBanner({ report, detailsOpen, onToggleDetails }: DataQualityBannerProps) {
+  const { t } = useTranslation('reports');
+  const anomalyCount = report.duplicateTimestampCount + report.implausiblyLowCount + report.implausiblyHighCount;
+
+  const messages: string[] = [];
+  if (report.daysSpanned < CONSENSUS_WINDOW_DAYS) {
+    messages.push(t('reports.dataQuality.banner.tooFewDays', { days: report.daysSpanned, required: CONSENSUS_WINDOW_DAYS }));
+  } else if (report.recentWearPercent < MIN_WEAR_PERCENT) {
+    messages.push(t('reports.dataQuality.banner.lowWear', {
+      wear: formatNumber(report.recentWearPercent, 0),
+      required: MIN_WEAR_PERCENT,
+      days: CONSENSUS_WINDOW_DAYS,
+    }));
+  } else {
+    messages.push(t('reports.dataQuality.banner.sufficient', {
+      wear: formatNumber(report.recentWearPercent, 0),
+      days: CONSENSUS_WINDOW_DAYS,
+    }));
+  }
+  if (anomalyCount > 0) {
+    messages.push(t('reports.dataQuality.banner.anomalies', { anomalies: anomalyCount }));
+  }
+
+  return (
+    <MessageBar intent={report.isSufficient && anomalyCount === 0 ? 'success' : 'warning'}>
+      <MessageBarBody>
+        <MessageBarTitle>
+          {report.isSufficient ? t('reports.dataQuality.banner.titleSufficient') : t('reports.dataQuality.banner.titleInsufficient')}
+        </MessageBarTitle>
+        {messages.join(' ')}
+      </MessageBarBody>
+      <MessageBarActions>
+        <Button appearance="transparent" size="small" onClick={onToggleDetails} aria-expanded={detailsOpen}>
+          {detailsOpen ? t('reports.dataQuality.banner.hideDetails') : t('reports.dataQuality.banner.showDetails')}
+        </Button>
+      </MessageBarActions>
+    </MessageBar>
+  );
+}
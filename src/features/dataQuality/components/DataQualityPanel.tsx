@@ -0,0 +1,229 @@
+/**
+ * Detailed data quality panel: summary statistics, daily wear, the largest sensor gaps and clock changes
+ */
+
+import {
+  makeStyles,
+  shorthands,
+  tokens,
+  Card,
+  Text,
+  Tooltip,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHeaderCell,
+  TableBody,
+  TableCell,
+} from '@fluentui/react-components';
+import { useTranslation } from 'react-i18next';
+import { formatNumber } from '../../../utils/formatting/formatters';
+import { wallClockToLocalDate, type ClockJump } from '../../../utils/data';
+import {
+  MIN_WEAR_PERCENT,
+  PLAUSIBLE_GLUCOSE_RANGE,
+  isClockChangeGap,
+  type DataQualityReport,
+  type SensorGap,
+} from '../utils/dataQualityUtils';
+
+/** Number of gaps listed in the table, longest first */
+const MAX_LISTED_GAPS = 10;
+
+const useStyles = makeStyles({
+  card: {
+    ...shorthands.padding('16px'),
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap('16px'),
+  },
+  statsGrid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))',
+    ...shorthands.gap('12px'),
+  },
+  statItem: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap('4px'),
+    ...shorthands.padding('8px', '12px'),
+    backgroundColor: tokens.colorNeutralBackground2,
+    ...shorthands.borderRadius(tokens.borderRadiusMedium),
+  },
+  statLabel: {
+    fontSize: tokens.fontSizeBase200,
+    color: tokens.colorNeutralForeground2,
+  },
+  statValue: {
+    fontSize: tokens.fontSizeBase500,
+    fontWeight: tokens.fontWeightSemibold,
+  },
+  sectionTitle: {
+    fontSize: tokens.fontSizeBase400,
+    fontWeight: tokens.fontWeightSemibold,
+  },
+  wearChart: {
+    display: 'flex',
+    alignItems: 'flex-end',
+    height: '80px',
+    ...shorthands.gap('2px'),
+    ...shorthands.borderBottom('1px', 'solid', tokens.colorNeutralStroke2),
+  },
+  wearColumn: {
+    flex: 1,
+    minWidth: '2px',
+    height: '100%',
+    display: 'flex',
+    alignItems: 'flex-end',
+  },
+  wearBar: {
+    width: '100%',
+    ...shorthands.borderRadius('2px', '2px', '0', '0'),
+  },
+  wearSufficient: {
+    backgroundColor: tokens.colorPaletteGreenBackground3,
+  },
+  wearInsufficient: {
+    backgroundColor: tokens.colorPaletteMarigoldBackground3,
+  },
+  caption: {
+    fontSize: tokens.fontSizeBase200,
+    color: tokens.colorNeutralForeground3,
+  },
+});
+
+interface DataQualityPanelProps {
+  report: DataQualityReport;
+  /** Clock changes (DST or travel) found in the readings */
+  clockJumps?: ClockJump[];
+}
+
+/**
+ * Shows the details behind the data quality banner.
+ *
+ * @param report - Data quality report of the CGM readings
+ * @param clockJumps - Clock changes found in the readings
+ * @returns A card with statistics, a daily wear chart, a gap table and a clock change table
+ */
+export function DataQualityPanel({ report, clockJumps = [] }: DataQualityPanelProps) {
+  const styles = useStyles();
+  const { t } = useTranslation('reports');
+
+  const largestGaps = [...report.gaps]
+    .sort((a, b) => b.durationMinutes - a.durationMinutes)
+    .slice(0, MAX_LISTED_GAPS);
+
+  const stats = [
+    { key: 'period', value: t('reports.dataQuality.panel.periodValue', { start: report.startDate, end: report.endDate, days: report.daysSpanned }) },
+    { key: 'wear', value: `${formatNumber(report.wearPercent, 0)}%` },
+    { key: 'recentWear', value: `${formatNumber(report.recentWearPercent, 0)}%` },
+    { key: 'samplingInterval', value: t('reports.dataQuality.panel.minutesValue', { minutes: report.samplingIntervalMinutes }) },
+    { key: 'gaps', value: t('reports.dataQuality.panel.gapsValue', { gaps: report.gaps.length, hours: formatNumber(report.totalGapMinutes / 60, 1) }) },
+    { key: 'warmUps', value: String(report.warmUpCount) },
+    { key: 'duplicates', value: String(report.duplicateTimestampCount) },
+    { key: 'implausibleLow', value: String(report.implausiblyLowCount) },
+    { key: 'implausibleHigh', value: String(report.implausiblyHighCount) },
+    { key: 'clockChanges', value: String(clockJumps.length) },
+  ];
+
+  const getGapType = (gap: SensorGap) => {
+    if (isClockChangeGap(gap, clockJumps)) return t('reports.dataQuality.panel.gapClockChange');
+    return gap.isLikelyWarmUp ? t('reports.dataQuality.panel.gapWarmUp') : t('reports.dataQuality.panel.gapSignalLoss');
+  };
+
+  return (
+    <Card className={styles.card}>
+      <div className={styles.statsGrid}>
+        {stats.map(({ key, value }) => (
+          <div key={key} className={styles.statItem}>
+            <Text className={styles.statLabel}>{t(`reports.dataQuality.panel.stats.${key}`)}</Text>
+            <Text className={styles.statValue}>{value}</Text>
+          </div>
+        ))}
+      </div>
+      <Text className={styles.caption}>
+        {t('reports.dataQuality.panel.plausibleRange', { min: PLAUSIBLE_GLUCOSE_RANGE.min, max: PLAUSIBLE_GLUCOSE_RANGE.max })}
+      </Text>
+
+      <Text className={styles.sectionTitle}>{t('reports.dataQuality.panel.dailyWearTitle')}</Text>
+      <div className={styles.wearChart} role="img" aria-label={t('reports.dataQuality.panel.dailyWearTitle')}>
+        {report.dailyWear.map(day => (
+          <Tooltip
+            key={day.date}
+            content={t('reports.dataQuality.panel.dailyWearTooltip', { date: day.date, wear: formatNumber(day.wearPercent, 0), readings: day.readingCount })}
+            relationship="label"
+          >
+            <div className={styles.wearColumn}>
+              <div
+                className={`${styles.wearBar} ${day.wearPercent >= MIN_WEAR_PERCENT ? styles.wearSufficient : styles.wearInsufficient}`}
+                style={{ height: `${Math.max(day.wearPercent, 1)}%` }}
+              />
+            </div>
+          </Tooltip>
+        ))}
+      </div>
+      <Text className={styles.caption}>
+        {t('reports.dataQuality.panel.dailyWearCaption', { required: MIN_WEAR_PERCENT })}
+      </Text>
+
+      <Text className={styles.sectionTitle}>{t('reports.dataQuality.panel.gapsTitle')}</Text>
+      {largestGaps.length === 0 ? (
+        <Text className={styles.caption}>{t('reports.dataQuality.panel.noGaps')}</Text>
+      ) : (
+        <Table size="small">
+          <TableHeader>
+            <TableRow>
+              <TableHeaderCell>{t('reports.dataQuality.panel.gapStart')}</TableHeaderCell>
+              <TableHeaderCell>{t('reports.dataQuality.panel.gapEnd')}</TableHeaderCell>
+              <TableHeaderCell>{t('reports.dataQuality.panel.gapDuration')}</TableHeaderCell>
+              <TableHeaderCell>{t('reports.dataQuality.panel.gapType')}</TableHeaderCell>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {largestGaps.map(gap => (
+              <TableRow key={gap.start.getTime()}>
+                <TableCell>{gap.start.toLocaleString()}</TableCell>
+                <TableCell>{gap.end.toLocaleString()}</TableCell>
+                <TableCell>{t('reports.dataQuality.panel.hoursValue', { hours: formatNumber(gap.durationMinutes / 60, 1) })}</TableCell>
+                <TableCell>{getGapType(gap)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Text className={styles.sectionTitle}>{t('reports.dataQuality.panel.clockChangesTitle')}</Text>
+      {clockJumps.length === 0 ? (
+        <Text className={styles.caption}>{t('reports.dataQuality.panel.noClockChanges')}</Text>
+      ) : (
+        <>
+          <Table size="small">
+            <TableHeader>
+              <TableRow>
+                <TableHeaderCell>{t('reports.dataQuality.panel.clockChangeTime')}</TableHeaderCell>
+                <TableHeaderCell>{t('reports.dataQuality.panel.clockChangeShift')}</TableHeaderCell>
+                <TableHeaderCell>{t('reports.dataQuality.panel.clockChangeType')}</TableHeaderCell>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {clockJumps.map(jump => (
+                <TableRow key={jump.index}>
+                  <TableCell>{wallClockToLocalDate(jump.afterTime).toLocaleString()}</TableCell>
+                  <TableCell>
+                    {t('reports.dataQuality.panel.hoursValue', {
+                      hours: `${jump.shiftMinutes > 0 ? '+' : '−'}${formatNumber(Math.abs(jump.shiftMinutes) / 60, jump.shiftMinutes % 60 === 0 ? 0 : 2)}`,
+                    })}
+                  </TableCell>
+                  <TableCell>
+                    {jump.kind === 'dst' ? t('reports.dataQuality.panel.clockChangeDst') : t('reports.dataQuality.panel.clockChangeTravel')}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <Text className={styles.caption}>{t('reports.dataQuality.panel.clockChangesCaption')}</Text>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,6 @@
+/**
+ * Data quality components barrel file
+ */
+
+export { DataQualityBanner } from './DataQualityBanner';
+export { DataQualityPanel } from './DataQualityPanel';
@@ -0,0 +1,108 @@
+/**
+ * Loads the CGM readings of the selected file and shows the data quality banner and panel
+ * for the data shown by the selected report
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { makeStyles, shorthands } from '@fluentui/react-components';
+import type { GlucoseReading, TimeZoneSettings, UploadedFile } from '../../../types';
+import {
+  extractGlucoseReadings,
+  getClockJumps,
+  resolveSourceTimeZone,
+  type ClockJump,
+} from '../../../utils/data';
+import {
+  analyzeDataQuality,
+  filterReadingsToScope,
+  type DataQualityScope,
+} from '../utils/dataQualityUtils';
+import { DataQualityBanner } from '../components/DataQualityBanner';
+import { DataQualityPanel } from '../components/DataQualityPanel';
+
+const useStyles = makeStyles({
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap('12px'),
+    marginBottom: '24px',
+  },
+});
+
+interface DataQualitySectionProps {
+  selectedFile?: UploadedFile;
+  /** Data shown by the selected report; `null` for reports without glucose data */
+  scope: DataQualityScope | null;
+  /** Time zone settings the readings are read with */
+  timeZoneSettings: TimeZoneSettings;
+  /** Called with whether the data meets the wear consensus; data other than CGM data counts as sufficient */
+  onSufficiencyChange?: (isSufficient: boolean) => void;
+}
+
+/**
+ * Analyses the CGM data quality of the data shown by the selected report.
+ *
+ * @param selectedFile - Uploaded file to analyse
+ * @param scope - Data source and date range of the selected report
+ * @param timeZoneSettings - Source time zone used to find clock changes and day boundaries
+ * @param onSufficiencyChange - Receives whether the report can be considered reliable
+ * @returns The banner with an expandable detail panel, or nothing when the report shows no CGM data
+ */
+export function DataQualitySection({ selectedFile, scope, timeZoneSettings, onSufficiencyChange }: DataQualitySectionProps) {
+  const styles = useStyles();
+  const timeZone = resolveSourceTimeZone(timeZoneSettings.sourceTimeZone);
+  const [readings, setReadings] = useState<GlucoseReading[]>([]);
+  const [clockJumps, setClockJumps] = useState<ClockJump[]>([]);
+  const [detailsOpen, setDetailsOpen] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadData = async () => {
+      let cgmReadings: GlucoseReading[] = [];
+      let jumps: ClockJump[] = [];
+      if (selectedFile) {
+        try {
+          [cgmReadings, jumps] = await Promise.all([
+            extractGlucoseReadings(selectedFile, 'cgm'),
+            getClockJumps(selectedFile, timeZone),
+          ]);
+        } catch {
+          // Files without CGM data have nothing to assess
+          cgmReadings = [];
+        }
+      }
+
+      if (!cancelled) {
+        setReadings(cgmReadings);
+        setClockJumps(jumps);
+      }
+    };
+
+    loadData();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedFile, timeZone]);
+
+  // Only CGM data has a wear requirement
+  const report = useMemo(() => {
+    if (!scope || scope.dataSource !== 'cgm') return null;
+    return analyzeDataQuality(filterReadingsToScope(readings, scope), timeZone);
+  }, [readings, scope, timeZone]);
+
+  useEffect(() => {
+    onSufficiencyChange?.(report?.isSufficient ?? true);
+  }, [report, onSufficiencyChange]);
+
+  if (!report) {
+    return null;
+  }
+
+  return (
+    <div className={styles.container}>
+      <DataQualityBanner report={report} detailsOpen={detailsOpen} onToggleDetails={() => setDetailsOpen(open => !open)} />
+      {detailsOpen && <DataQualityPanel report={report} clockJumps={clockJumps} />}
+    </div>
+  );
+}
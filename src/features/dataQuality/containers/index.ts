@@ -0,0 +1,5 @@
+/**
+ * Data quality containers barrel file
+ */
+
+export { DataQualitySection } from './DataQualitySection';
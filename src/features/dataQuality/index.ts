@@ -0,0 +1,7 @@
+/**
+ * Data quality feature barrel file
+ */
+
+export * from './utils';
+export * from './components';
+export * from './containers';
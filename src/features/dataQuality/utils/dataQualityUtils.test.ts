@@ -0,0 +1,205 @@
+/**
+ * Unit tests for data quality utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeDataQuality,
+  detectSamplingInterval,
+  findSensorGaps,
+  calculateDailyWear,
+  isClockChangeGap,
+  filterReadingsToScope,
+  CONSENSUS_WINDOW_DAYS,
+} from './dataQualityUtils';
+import type { GlucoseReading } from '../../../types';
+import { wallClockToLocalDate } from '../../../utils/data';
+
+const MINUTE = 60 * 1000;
+const BASE_TIME = new Date('2024-01-15T00:00:00').getTime();
+
+// Create readings every intervalMinutes for the given number of minutes
+function createReadings(durationMinutes: number, intervalMinutes = 5, startTime = BASE_TIME, value = 6): GlucoseReading[] {
+  const readings: GlucoseReading[] = [];
+  for (let minute = 0; minute < durationMinutes; minute += intervalMinutes) {
+    readings.push({ timestamp: new Date(startTime + minute * MINUTE), value });
+  }
+  return readings;
+}
+
+describe('dataQualityUtils', () => {
+  describe('detectSamplingInterval', () => {
+    it('should return the median interval in minutes', () => {
+      const timestamps = [0, 5, 10, 15, 60, 65].map(minute => BASE_TIME + minute * MINUTE);
+      expect(detectSamplingInterval(timestamps)).toBe(5);
+    });
+
+    it('should detect 15-minute sensors', () => {
+      const timestamps = createReadings(240, 15).map(r => r.timestamp.getTime());
+      expect(detectSamplingInterval(timestamps)).toBe(15);
+    });
+
+    it('should default to 5 minutes for a single reading', () => {
+      expect(detectSamplingInterval([BASE_TIME])).toBe(5);
+    });
+  });
+
+  describe('findSensorGaps', () => {
+    it('should ignore pauses up to three sampling intervals', () => {
+      const timestamps = [0, 5, 20, 25].map(minute => BASE_TIME + minute * MINUTE);
+      expect(findSensorGaps(timestamps, 5)).toEqual([]);
+    });
+
+    it('should report longer pauses and flag likely warm-ups', () => {
+      const timestamps = [0, 5, 125, 130, 430].map(minute => BASE_TIME + minute * MINUTE);
+      const gaps = findSensorGaps(timestamps, 5);
+
+      expect(gaps).toHaveLength(2);
+      expect(gaps[0].start.getTime()).toBe(BASE_TIME + 5 * MINUTE);
+      expect(gaps[0].durationMinutes).toBe(120);
+      expect(gaps[0].isLikelyWarmUp).toBe(true);
+      expect(gaps[1].durationMinutes).toBe(300);
+      expect(gaps[1].isLikelyWarmUp).toBe(false);
+    });
+  });
+
+  describe('calculateDailyWear', () => {
+    it('should report full wear for a complete day', () => {
+      const timestamps = createReadings(24 * 60).map(r => r.timestamp.getTime());
+      const days = calculateDailyWear(timestamps, 5);
+
+      expect(days).toHaveLength(1);
+      expect(days[0].date).toBe('2024-01-15');
+      expect(days[0].readingCount).toBe(288);
+      expect(days[0].wearPercent).toBeCloseTo(100);
+    });
+
+    it('should include days without readings', () => {
+      const timestamps = [
+        ...createReadings(60),
+        ...createReadings(60, 5, BASE_TIME + 2 * 24 * 60 * MINUTE),
+      ].map(r => r.timestamp.getTime());
+      const days = calculateDailyWear(timestamps, 5);
+
+      expect(days.map(day => day.date)).toEqual(['2024-01-15', '2024-01-16', '2024-01-17']);
+      expect(days[1].readingCount).toBe(0);
+      expect(days[1].wearPercent).toBe(0);
+    });
+
+    it('should not penalise a partial first day', () => {
+      // Recording starts at noon
+      const timestamps = createReadings(12 * 60, 5, BASE_TIME + 12 * 60 * MINUTE).map(r => r.timestamp.getTime());
+      expect(calculateDailyWear(timestamps, 5)[0].wearPercent).toBeCloseTo(100);
+    });
+
+    it('should measure a 23-hour DST day in the source time zone', () => {
+      // Two days of device readings; clocks skip 02:00-03:00 on 2024-03-31 in Berlin
+      const timestamps: number[] = [];
+      for (let minute = 0; minute < 2 * 24 * 60; minute += 5) {
+        const wallClock = Date.UTC(2024, 2, 30) + minute * MINUTE;
+        const date = new Date(wallClock);
+        if (date.getUTCDate() === 31 && date.getUTCHours() === 2) continue;
+        timestamps.push(wallClockToLocalDate(wallClock).getTime());
+      }
+      const day = calculateDailyWear(timestamps.sort((a, b) => a - b), 5, 'Europe/Berlin')
+        .find(wear => wear.date === '2024-03-31');
+
+      expect(day?.expectedMinutes).toBe(23 * 60);
+      expect(day?.wearPercent).toBeCloseTo(100);
+    });
+  });
+
+  describe('isClockChangeGap', () => {
+    it('should match gaps that span a forward clock change', () => {
+      const gap = {
+        start: wallClockToLocalDate(Date.UTC(2024, 2, 31, 1, 55)),
+        end: wallClockToLocalDate(Date.UTC(2024, 2, 31, 3, 0)),
+        durationMinutes: 65,
+        isLikelyWarmUp: true,
+      };
+      const jump = { index: 1, beforeTime: Date.UTC(2024, 2, 31, 1, 55), afterTime: Date.UTC(2024, 2, 31, 3, 0), shiftMinutes: 60, kind: 'dst' as const };
+
+      expect(isClockChangeGap(gap, [jump])).toBe(true);
+      expect(isClockChangeGap(gap, [])).toBe(false);
+    });
+  });
+
+  describe('analyzeDataQuality', () => {
+    it('should return null for no readings', () => {
+      expect(analyzeDataQuality([])).toBeNull();
+    });
+
+    it('should count duplicate timestamps and implausible values', () => {
+      const readings = createReadings(60);
+      readings.push({ timestamp: new Date(BASE_TIME), value: 6 });
+      readings.push({ timestamp: new Date(BASE_TIME + 60 * MINUTE), value: 0.5 });
+      readings.push({ timestamp: new Date(BASE_TIME + 65 * MINUTE), value: 110 });
+
+      const report = analyzeDataQuality(readings)!;
+      expect(report.readingCount).toBe(15);
+      expect(report.duplicateTimestampCount).toBe(1);
+      expect(report.implausiblyLowCount).toBe(1);
+      expect(report.implausiblyHighCount).toBe(1);
+    });
+
+    it('should be sufficient with full wear over 14 days', () => {
+      const report = analyzeDataQuality(createReadings(CONSENSUS_WINDOW_DAYS * 24 * 60))!;
+
+      expect(report.daysSpanned).toBe(CONSENSUS_WINDOW_DAYS);
+      expect(report.gaps).toEqual([]);
+      expect(report.recentWearPercent).toBeCloseTo(100);
+      expect(report.isSufficient).toBe(true);
+    });
+
+    it('should be insufficient with fewer than 14 days', () => {
+      const report = analyzeDataQuality(createReadings(7 * 24 * 60))!;
+
+      expect(report.daysSpanned).toBe(7);
+      expect(report.isSufficient).toBe(false);
+    });
+
+    it('should be insufficient below 70% wear in the last 14 days', () => {
+      // 14 days with a 5-day gap in the middle -> about 64% wear
+      const readings = [
+        ...createReadings(5 * 24 * 60),
+        ...createReadings(4 * 24 * 60, 5, BASE_TIME + 10 * 24 * 60 * MINUTE),
+      ];
+      const report = analyzeDataQuality(readings)!;
+
+      expect(report.daysSpanned).toBe(14);
+      expect(report.gaps).toHaveLength(1);
+      expect(report.totalGapMinutes).toBeGreaterThan(5 * 24 * 60);
+      expect(report.recentWearPercent).toBeLessThan(70);
+      expect(report.isSufficient).toBe(false);
+    });
+
+    it('should only apply the wear requirement to the most recent 14 days', () => {
+      // An old, sparse week followed by 14 complete days
+      const readings = [
+        ...createReadings(7 * 24 * 60, 60),
+        ...createReadings(14 * 24 * 60, 5, BASE_TIME + 7 * 24 * 60 * MINUTE),
+      ];
+      const report = analyzeDataQuality(readings)!;
+
+      expect(report.daysSpanned).toBe(21);
+      expect(report.wearPercent).toBeLessThan(report.recentWearPercent);
+      expect(report.isSufficient).toBe(true);
+    });
+  });
+
+  describe('filterReadingsToScope', () => {
+    const readings = createReadings(3 * 24 * 60, 60);
+
+    it('should keep the readings of the days in the date range', () => {
+      const filtered = filterReadingsToScope(readings, { dataSource: 'cgm', startDate: '2024-01-16', endDate: '2024-01-17' });
+
+      expect(filtered).toHaveLength(48);
+      expect(filtered[0].timestamp).toEqual(new Date('2024-01-16T00:00:00'));
+      expect(filtered[47].timestamp).toEqual(new Date('2024-01-17T23:00:00'));
+    });
+
+    it('should keep all readings without a date range', () => {
+      expect(filterReadingsToScope(readings, { dataSource: 'cgm' })).toBe(readings);
+    });
+  });
+});
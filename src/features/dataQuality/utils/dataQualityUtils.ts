@@ -0,0 +1,290 @@
+/**
+ * Data quality analysis for CGM datasets
+ *
+ * Finds sensor gaps (and which of them look like sensor warm-ups), duplicate
+ * timestamps, values that suggest a unit mix-up, and CGM wear time per day.
+ * Sufficiency follows the international consensus (Battelino et al., 2019):
+ * at least 70% CGM wear over the most recent 14 days.
+ */
+
+import type { GlucoseDataSource, GlucoseReading } from '../../../types';
+import { formatDate, getDayLengthHours, toWallClockTime, type ClockJump } from '../../../utils/data';
+
+/** Minimum CGM wear (%) for reliable metrics */
+export const MIN_WEAR_PERCENT = 70;
+
+/** Number of most recent days the wear requirement applies to */
+export const CONSENSUS_WINDOW_DAYS = 14;
+
+/** A gap is a pause longer than this many sampling intervals */
+export const GAP_INTERVAL_MULTIPLIER = 3;
+
+/**
+ * Gap durations (minutes) typical of a sensor change: removal, insertion and
+ * a 30-120 minute warm-up before the new sensor reports values
+ */
+export const WARM_UP_GAP_MINUTES = { min: 30, max: 150 };
+
+/**
+ * Plausible glucose range in mmol/L (20-600 mg/dL); values outside it
+ * usually mean mg/dL values were read as mmol/L or vice versa
+ */
+export const PLAUSIBLE_GLUCOSE_RANGE = { min: 1.1, max: 33.3 };
+
+/** Sampling interval assumed when it cannot be detected */
+const DEFAULT_SAMPLING_INTERVAL_MINUTES = 5;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * A period without CGM readings
+ */
+export interface SensorGap {
+  /** Time of the last reading before the gap */
+  start: Date;
+  /** Time of the first reading after the gap */
+  end: Date;
+  durationMinutes: number;
+  /** Whether the duration matches a sensor change with warm-up */
+  isLikelyWarmUp: boolean;
+}
+
+/**
+ * CGM wear time of one calendar day
+ */
+export interface DailyWear {
+  /** Date in YYYY-MM-DD format */
+  date: string;
+  readingCount: number;
+  /** Minutes covered by readings (one sampling interval per reading) */
+  wornMinutes: number;
+  /** Minutes of the day within the recording (first and last day are partial) */
+  expectedMinutes: number;
+  wearPercent: number;
+}
+
+/**
+ * Data quality of a CGM dataset
+ */
+export interface DataQualityReport {
+  readingCount: number;
+  /** Detected sampling interval (median time between readings) */
+  samplingIntervalMinutes: number;
+  /** First and last day with readings (YYYY-MM-DD) */
+  startDate: string;
+  endDate: string;
+  /** Calendar days from the first to the last reading */
+  daysSpanned: number;
+  gaps: SensorGap[];
+  totalGapMinutes: number;
+  warmUpCount: number;
+  /** Readings whose timestamp repeats an earlier reading */
+  duplicateTimestampCount: number;
+  /** Readings below the plausible range */
+  implausiblyLowCount: number;
+  /** Readings above the plausible range */
+  implausiblyHighCount: number;
+  dailyWear: DailyWear[];
+  /** Wear over the whole dataset (%) */
+  wearPercent: number;
+  /** Wear over the most recent CONSENSUS_WINDOW_DAYS days (%) */
+  recentWearPercent: number;
+  /** At least CONSENSUS_WINDOW_DAYS days with at least MIN_WEAR_PERCENT wear in that window */
+  isSufficient: boolean;
+}
+
+/**
+ * Glucose data shown by a report, which its data quality is assessed on
+ */
+export interface DataQualityScope {
+  /** Data source of the report; the wear consensus only applies to CGM data */
+  dataSource: GlucoseDataSource;
+  /** First day shown (YYYY-MM-DD); empty or missing for the whole dataset */
+  startDate?: string;
+  /** Last day shown (YYYY-MM-DD); empty or missing for the whole dataset */
+  endDate?: string;
+}
+
+/** Scope of reports showing all CGM data of the dataset */
+export const FULL_CGM_SCOPE: DataQualityScope = { dataSource: 'cgm' };
+
+/**
+ * Keep the readings within the date range of a scope (both days inclusive)
+ *
+ * @param readings - Glucose readings of the dataset
+ * @param scope - Scope of the report
+ * @returns Readings shown by the report
+ */
+export function filterReadingsToScope(readings: GlucoseReading[], scope: DataQualityScope): GlucoseReading[] {
+  if (!scope.startDate || !scope.endDate) return readings;
+
+  const start = new Date(scope.startDate);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(scope.endDate);
+  end.setHours(23, 59, 59, 999);
+  return readings.filter(r => r.timestamp.getTime() >= start.getTime() && r.timestamp.getTime() <= end.getTime());
+}
+
+/**
+ * Detect the sampling interval as the median positive time between readings
+ *
+ * @param timestamps - Sorted, de-duplicated timestamps in milliseconds
+ * @returns Sampling interval in whole minutes (at least 1)
+ */
+export function detectSamplingInterval(timestamps: number[]): number {
+  const intervals: number[] = [];
+  for (let i = 1; i < timestamps.length; i++) {
+    intervals.push(timestamps[i] - timestamps[i - 1]);
+  }
+  if (intervals.length === 0) return DEFAULT_SAMPLING_INTERVAL_MINUTES;
+
+  intervals.sort((a, b) => a - b);
+  const median = intervals[Math.floor(intervals.length / 2)];
+  return Math.max(1, Math.round(median / MINUTE_MS));
+}
+
+/**
+ * Find pauses between readings longer than GAP_INTERVAL_MULTIPLIER sampling intervals
+ *
+ * @param timestamps - Sorted, de-duplicated timestamps in milliseconds
+ * @param samplingIntervalMinutes - Expected time between readings
+ * @returns Sensor gaps in chronological order
+ */
+export function findSensorGaps(timestamps: number[], samplingIntervalMinutes: number): SensorGap[] {
+  const thresholdMs = GAP_INTERVAL_MULTIPLIER * samplingIntervalMinutes * MINUTE_MS;
+  const gaps: SensorGap[] = [];
+
+  for (let i = 1; i < timestamps.length; i++) {
+    const gapMs = timestamps[i] - timestamps[i - 1];
+    if (gapMs > thresholdMs) {
+      const durationMinutes = Math.round(gapMs / MINUTE_MS);
+      gaps.push({
+        start: new Date(timestamps[i - 1]),
+        end: new Date(timestamps[i]),
+        durationMinutes,
+        isLikelyWarmUp: durationMinutes >= WARM_UP_GAP_MINUTES.min && durationMinutes <= WARM_UP_GAP_MINUTES.max,
+      });
+    }
+  }
+
+  return gaps;
+}
+
+function getWearPercent(wornMinutes: number, expectedMinutes: number): number {
+  return expectedMinutes > 0 ? Math.min(100, (wornMinutes / expectedMinutes) * 100) : 0;
+}
+
+/**
+ * Calculate wear time per calendar day
+ *
+ * Every reading covers one sampling interval. The first and last day are
+ * measured only from the first reading / until the last reading, so a
+ * dataset that starts in the afternoon is not penalised for the morning.
+ *
+ * With a time zone, full days last as long as that zone's calendar day, so
+ * the 23-hour and 25-hour days of DST changes are measured correctly.
+ *
+ * @param timestamps - Sorted timestamps in milliseconds; readings sharing a time (e.g. the repeated hour when clocks go back) each count
+ * @param samplingIntervalMinutes - Expected time between readings
+ * @param timeZone - Optional IANA time zone the readings were recorded in
+ * @returns Wear per day from the first to the last day, including days without readings
+ */
+export function calculateDailyWear(timestamps: number[], samplingIntervalMinutes: number, timeZone?: string): DailyWear[] {
+  if (timestamps.length === 0) return [];
+
+  const countsByDate = new Map<string, number>();
+  for (const timestamp of timestamps) {
+    const date = formatDate(new Date(timestamp));
+    countsByDate.set(date, (countsByDate.get(date) ?? 0) + 1);
+  }
+
+  const first = timestamps[0];
+  const last = timestamps[timestamps.length - 1] + samplingIntervalMinutes * MINUTE_MS;
+  const days: DailyWear[] = [];
+  const dayStart = new Date(first);
+  dayStart.setHours(0, 0, 0, 0);
+
+  while (dayStart.getTime() < last) {
+    const nextDay = new Date(dayStart);
+    nextDay.setDate(nextDay.getDate() + 1);
+
+    const date = formatDate(dayStart);
+    const readingCount = countsByDate.get(date) ?? 0;
+    const isFullDay = dayStart.getTime() >= first && nextDay.getTime() <= last;
+    const expectedMinutes = isFullDay && timeZone
+      ? getDayLengthHours(date, timeZone) * 60
+      : (Math.min(nextDay.getTime(), last) - Math.max(dayStart.getTime(), first)) / MINUTE_MS;
+    const wornMinutes = Math.min(readingCount * samplingIntervalMinutes, expectedMinutes);
+
+    days.push({
+      date,
+      readingCount,
+      wornMinutes,
+      expectedMinutes,
+      wearPercent: getWearPercent(wornMinutes, expectedMinutes),
+    });
+    dayStart.setTime(nextDay.getTime());
+  }
+
+  return days;
+}
+
+/**
+ * Check whether a gap is explained by a clock change rather than missing readings
+ *
+ * @param gap - Sensor gap
+ * @param clockJumps - Clock changes detected in the same readings
+ * @returns True when the gap spans a forward clock change
+ */
+export function isClockChangeGap(gap: SensorGap, clockJumps: ClockJump[]): boolean {
+  const start = toWallClockTime(gap.start);
+  const end = toWallClockTime(gap.end);
+  return clockJumps.some(jump => jump.shiftMinutes > 0 && jump.beforeTime === start && jump.afterTime === end);
+}
+
+/**
+ * Combine daily wear into one percentage, weighting each day by its expected minutes
+ */
+function combineWear(days: DailyWear[]): number {
+  const wornMinutes = days.reduce((sum, day) => sum + day.wornMinutes, 0);
+  const expectedMinutes = days.reduce((sum, day) => sum + day.expectedMinutes, 0);
+  return getWearPercent(wornMinutes, expectedMinutes);
+}
+
+/**
+ * Analyse the quality of a CGM dataset
+ *
+ * @param readings - CGM readings (values in mmol/L), in any order
+ * @param timeZone - Optional IANA time zone the readings were recorded in, for DST-aware day lengths
+ * @returns Data quality report, or null when there are no readings
+ */
+export function analyzeDataQuality(readings: GlucoseReading[], timeZone?: string): DataQualityReport | null {
+  if (readings.length === 0) return null;
+
+  const sortedTimestamps = readings.map(r => r.timestamp.getTime()).sort((a, b) => a - b);
+  const timestamps = sortedTimestamps.filter((timestamp, index) => index === 0 || timestamp !== sortedTimestamps[index - 1]);
+
+  const samplingIntervalMinutes = detectSamplingInterval(timestamps);
+  const gaps = findSensorGaps(timestamps, samplingIntervalMinutes);
+  const dailyWear = calculateDailyWear(sortedTimestamps, samplingIntervalMinutes, timeZone);
+  const recentDays = dailyWear.slice(-CONSENSUS_WINDOW_DAYS);
+  const recentWearPercent = combineWear(recentDays);
+
+  return {
+    readingCount: readings.length,
+    samplingIntervalMinutes,
+    startDate: dailyWear[0].date,
+    endDate: dailyWear[dailyWear.length - 1].date,
+    daysSpanned: dailyWear.length,
+    gaps,
+    totalGapMinutes: gaps.reduce((sum, gap) => sum + gap.durationMinutes, 0),
+    warmUpCount: gaps.filter(gap => gap.isLikelyWarmUp).length,
+    duplicateTimestampCount: sortedTimestamps.length - timestamps.length,
+    implausiblyLowCount: readings.filter(r => r.value < PLAUSIBLE_GLUCOSE_RANGE.min).length,
+    implausiblyHighCount: readings.filter(r => r.value > PLAUSIBLE_GLUCOSE_RANGE.max).length,
+    dailyWear,
+    wearPercent: combineWear(dailyWear),
+    recentWearPercent,
+    isSufficient: dailyWear.length >= CONSENSUS_WINDOW_DAYS && recentWearPercent >= MIN_WEAR_PERCENT,
+  };
+}
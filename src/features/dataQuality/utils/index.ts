@@ -0,0 +1,22 @@
+/**
+ * Data quality utilities barrel file
+ */
+
+export {
+  analyzeDataQuality,
+  filterReadingsToScope,
+  detectSamplingInterval,
+  findSensorGaps,
+  calculateDailyWear,
+  isClockChangeGap,
+  MIN_WEAR_PERCENT,
+  CONSENSUS_WINDOW_DAYS,
+  GAP_INTERVAL_MULTIPLIER,
+  WARM_UP_GAP_MINUTES,
+  PLAUSIBLE_GLUCOSE_RANGE,
+  FULL_CGM_SCOPE,
+  type SensorGap,
+  type DailyWear,
+  type DataQualityReport,
+  type DataQualityScope,
+} from './dataQualityUtils';
@@ -0,0 +1,156 @@
+/**
+ * Dialog for combining several uploaded exports into one dataset
+ */
+
+import { useState } from 'react';
+import {
+  makeStyles,
+  shorthands,
+  tokens,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogBody,
+  DialogContent,
+  DialogSurface,
+  DialogTitle,
+  DialogTrigger,
+  Spinner,
+  Text,
+} from '@fluentui/react-components';
+import { MergeRegular } from '@fluentui/react-icons';
+import { useTranslation } from 'react-i18next';
+import type { UploadedFile } from '../../../types';
+import { combineUploadedFiles } from '../utils/mergeUtils';
+
+const useStyles = makeStyles({
+  content: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap('12px'),
+  },
+  fileList: {
+    display: 'flex',
+    flexDirection: 'column',
+  },
+  error: {
+    color: tokens.colorStatusDangerForeground1,
+  },
+  success: {
+    color: tokens.colorStatusSuccessForeground1,
+  },
+});
+
+interface CombineFilesDialogProps {
+  files: UploadedFile[];
+  onAddFiles: (files: UploadedFile[]) => void;
+}
+
+/**
+ * Render a "Combine files" button that opens a dialog for merging selected exports into one timeline.
+ *
+ * @param files - Uploaded files; only valid ones can be combined
+ * @param onAddFiles - Callback invoked with the combined dataset so it is added to (and selected in) the file list
+ * @returns The trigger button and dialog
+ */
+export function CombineFilesDialog({ files, onAddFiles }: CombineFilesDialogProps) {
+  const styles = useStyles();
+  const { t } = useTranslation('dataUpload');
+  const validFiles = files.filter(file => file.zipMetadata?.isValid);
+  const [open, setOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [combining, setCombining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ name: string; duplicateCount: number } | null>(null);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      setSelectedIds(new Set(validFiles.map(file => file.id)));
+      setError(null);
+      setResult(null);
+    }
+  };
+
+  const toggleFile = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const handleCombine = async () => {
+    setCombining(true);
+    setError(null);
+
+    try {
+      const { file, duplicateCount } = await combineUploadedFiles(
+        validFiles.filter(candidate => selectedIds.has(candidate.id))
+      );
+      onAddFiles([file]);
+      setResult({ name: file.name, duplicateCount });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('dataUpload.combine.error'));
+    } finally {
+      setCombining(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(_, data) => handleOpenChange(data.open)}>
+      <DialogTrigger disableButtonEnhancement>
+        <Button appearance="secondary" icon={<MergeRegular />} disabled={validFiles.length < 2}>
+          {t('dataUpload.combine.button')}
+        </Button>
+      </DialogTrigger>
+      <DialogSurface>
+        <DialogBody>
+          <DialogTitle>{t('dataUpload.combine.title')}</DialogTitle>
+          <DialogContent className={styles.content}>
+            <Text>{t('dataUpload.combine.description')}</Text>
+            <div className={styles.fileList}>
+              {validFiles.map(file => (
+                <Checkbox
+                  key={file.id}
+                  checked={selectedIds.has(file.id)}
+                  onChange={(_, data) => toggleFile(file.id, data.checked === true)}
+                  label={file.name}
+                  disabled={combining || result !== null}
+                />
+              ))}
+            </div>
+            {error && <Text className={styles.error}>{error}</Text>}
+            {result && (
+              <Text className={styles.success}>
+                {t('dataUpload.combine.success', { fileName: result.name, count: result.duplicateCount })}
+              </Text>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <DialogTrigger disableButtonEnhancement>
+              <Button appearance="secondary">
+                {result ? t('dataUpload.combine.closeButton') : t('dataUpload.combine.cancelButton')}
+              </Button>
+            </DialogTrigger>
+            {!result && (
+              <Button
+                appearance="primary"
+                onClick={handleCombine}
+                disabled={combining || selectedIds.size < 2}
+                icon={combining ? <Spinner size="tiny" /> : undefined}
+              >
+                {combining ? t('dataUpload.combine.combiningButton') : t('dataUpload.combine.combineButton')}
+              </Button>
+            )}
+          </DialogActions>
+        </DialogBody>
+      </DialogSurface>
+    </Dialog>
+  );
+}
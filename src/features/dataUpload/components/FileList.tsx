@@ -28,6 +28,7 @@ import { convertZipToXlsx, downloadXlsx } from '../../export/utils';
 import { TableContainer } from '../../../components/TableContainer';
 import { DEMO_DATASETS, loadDemoDataset, getDemoDataAttribution } from '../../../utils/demoData';
 import { saveFileToCache, removeFileFromCache } from '../../../utils/fileCache';
+import { CombineFilesDialog } from './CombineFilesDialog';
 
 const useStyles = makeStyles({
   container: {
@@ -382,6 +383,7 @@ export function FileList({ files, onRemoveFile, onClearAll, onAddFiles, selected
                 </MenuPopover>
               </Menu>
             </Tooltip>
+          <CombineFilesDialog files={files} onAddFiles={onAddFiles} />
           <Button
             appearance="secondary"
             onClick={onClearAll}
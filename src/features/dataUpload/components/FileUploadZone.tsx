@@ -3,11 +3,13 @@ import {
   makeStyles,
   Text,
   Button,
+  ProgressBar,
   tokens,
   shorthands,
 } from '@fluentui/react-components';
 import { useTranslation } from 'react-i18next';
-import { CloudArrowUpRegular, DocumentRegular } from '@fluentui/react-icons';
+import { CloudArrowUpRegular, DocumentRegular, DismissRegular } from '@fluentui/react-icons';
+import type { ZipParseProgress } from '../utils/zipParser';
 
 const useStyles = makeStyles({
   dropzone: {
@@ -52,13 +54,40 @@ const useStyles = makeStyles({
   hiddenInput: {
     display: 'none',
   },
+  progressZone: {
+    cursor: 'default',
+    '&:hover': {
+      backgroundColor: tokens.colorNeutralBackground1,
+      ...shorthands.borderColor(tokens.colorNeutralStroke1),
+    },
+  },
+  progressBar: {
+    width: '100%',
+    maxWidth: '400px',
+    marginBottom: '16px',
+  },
 });
 
+/**
+ * Parsing progress shown while uploaded files are processed
+ */
+export interface UploadProgress {
+  /** Name of the ZIP file being parsed */
+  fileName: string;
+  /** Position of the file in the current selection (1-based) */
+  fileIndex: number;
+  fileCount: number;
+  progress: ZipParseProgress;
+}
+
 interface FileUploadZoneProps {
   onFilesSelected: (files: File[]) => void;
+  /** When set, the zone shows parsing progress instead of accepting files */
+  uploadProgress?: UploadProgress | null;
+  onCancel?: () => void;
 }
 
-export function FileUploadZone({ onFilesSelected }: FileUploadZoneProps) {
+export function FileUploadZone({ onFilesSelected, uploadProgress, onCancel }: FileUploadZoneProps) {
   const styles = useStyles();
   const { t } = useTranslation('dataUpload');
   const [isDragging, setIsDragging] = useState(false);
@@ -108,6 +137,36 @@ export function FileUploadZone({ onFilesSelected }: FileUploadZoneProps) {
     e.target.value = '';
   };
 
+  if (uploadProgress) {
+    const { progress } = uploadProgress;
+    const value = progress.totalFiles > 0 ? progress.processedFiles / progress.totalFiles : undefined;
+
+    return (
+      <div className={`${styles.dropzone} ${styles.progressZone}`} aria-busy="true">
+        <div className={styles.icon}>
+          <DocumentRegular />
+        </div>
+        <Text className={styles.title}>
+          {t('dataUpload.uploadZone.parsingTitle', {
+            fileName: uploadProgress.fileName,
+            current: uploadProgress.fileIndex,
+            total: uploadProgress.fileCount,
+          })}
+        </Text>
+        <Text className={styles.description}>
+          {t('dataUpload.uploadZone.parsingProgress', {
+            processed: progress.processedFiles,
+            total: progress.totalFiles,
+          })}
+        </Text>
+        <ProgressBar className={styles.progressBar} value={value} thickness="large" />
+        <Button appearance="secondary" icon={<DismissRegular />} onClick={onCancel}>
+          {t('dataUpload.uploadZone.cancelButton')}
+        </Button>
+      </div>
+    );
+  }
+
   return (
     <div
       className={`${styles.dropzone} ${isDragging ? styles.dropzoneActive : ''}`}
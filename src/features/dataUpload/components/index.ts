@@ -2,5 +2,6 @@
  * Data upload components barrel file
  */
 
-export { FileUploadZone } from './FileUploadZone';
+export { FileUploadZone, type UploadProgress } from './FileUploadZone';
 export { FileList } from './FileList';
+export { CombineFilesDialog } from './CombineFilesDialog';
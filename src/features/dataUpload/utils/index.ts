@@ -3,3 +3,6 @@
  */
 
 export * from './zipUtils';
+export * from './mergeUtils';
+export * from './zipParser';
+export * from './zipParserClient';
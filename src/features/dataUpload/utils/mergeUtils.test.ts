@@ -0,0 +1,159 @@
+/**
+ * Unit tests for combining several exports into one dataset
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { combineUploadedFiles, mergeDatasetContents, COMBINED_FILE_ID_PREFIX } from './mergeUtils';
+import { extractZipMetadata } from './zipUtils';
+import type { UploadedFile } from '../../../types';
+
+const CGM_HEADER = 'Timestamp\tCGM Glucose Value (mmol/l)\tSerial Number';
+
+function csv(metadataLine: string, header: string, rows: string[]): string {
+  return [metadataLine, header, ...rows].join('\n');
+}
+
+async function createUploadedFile(name: string, files: Record<string, string>): Promise<UploadedFile> {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([fileName, content]) => zip.file(fileName, content));
+  const blob = await zip.generateAsync({ type: 'blob' });
+  const file = new File([blob], name, { type: 'application/zip' });
+  return {
+    id: name,
+    name,
+    size: file.size,
+    uploadTime: new Date(),
+    file,
+    zipMetadata: await extractZipMetadata(file),
+  };
+}
+
+describe('mergeUtils', () => {
+  describe('mergeDatasetContents', () => {
+    it('should return null when no export has the dataset', () => {
+      expect(mergeDatasetContents([[], []])).toBeNull();
+    });
+
+    it('should drop rows already present in an earlier export', () => {
+      const first = csv('meta', CGM_HEADER, ['2025-01-01 10:00\t5.5\tA1', '2025-01-01 10:05\t5.6\tA1']);
+      const second = csv('meta', CGM_HEADER, ['2025-01-01 10:05\t5.6\tA1', '2025-01-01 10:10\t5.7\tA1']);
+
+      const merged = mergeDatasetContents([[first], [second]])!;
+
+      expect(merged.rows.map(row => row[0])).toEqual(['2025-01-01 10:00', '2025-01-01 10:05', '2025-01-01 10:10']);
+      expect(merged.duplicateCount).toBe(1);
+    });
+
+    it('should keep readings with the same timestamp from different devices', () => {
+      const first = csv('meta', CGM_HEADER, ['2025-01-01 10:00\t5.5\tA1']);
+      const second = csv('meta', CGM_HEADER, ['2025-01-01 10:00\t5.9\tB2']);
+
+      const merged = mergeDatasetContents([[first], [second]])!;
+
+      expect(merged.rows).toHaveLength(2);
+      expect(merged.duplicateCount).toBe(0);
+    });
+
+    it('should keep repeated rows within a single export', () => {
+      const first = csv('meta', CGM_HEADER, ['2025-01-01 10:00\t5.5\tA1', '2025-01-01 10:00\t5.5\tA1']);
+
+      expect(mergeDatasetContents([[first]])!.rows).toHaveLength(2);
+    });
+
+    it('should match columns by name across exports and delimiters', () => {
+      const first = csv('meta', CGM_HEADER, ['2025-01-01 10:00\t5.5\tA1']);
+      const second = csv('meta', 'Serial Number,Timestamp,CGM Glucose Value (mmol/l)', ['A1,2025-01-01 10:05,6.1']);
+
+      const merged = mergeDatasetContents([[first], [second]])!;
+
+      expect(merged.header).toEqual(['Timestamp', 'CGM Glucose Value (mmol/l)', 'Serial Number']);
+      expect(merged.rows[1]).toEqual(['2025-01-01 10:05', '6.1', 'A1']);
+    });
+
+    it('should sort the merged rows by timestamp when exports are out of order', () => {
+      const february = csv('meta', CGM_HEADER, ['2025-02-01 00:00\t5.6\tA1', '2025-02-01 00:05\t5.7\tA1']);
+      const january = csv('meta', CGM_HEADER, ['2025-01-31 23:55\t5.5\tA1', '2025-02-01 00:00\t5.6\tA1']);
+
+      const merged = mergeDatasetContents([[february], [january]])!;
+
+      expect(merged.rows.map(row => row[0])).toEqual(['2025-01-31 23:55', '2025-02-01 00:00', '2025-02-01 00:05']);
+      expect(merged.duplicateCount).toBe(1);
+    });
+
+    it('should keep rows with an unreadable timestamp at the end', () => {
+      const first = csv('meta', CGM_HEADER, ['\t5.0\tA1', '2025-01-01 10:05\t5.6\tA1']);
+      const second = csv('meta', CGM_HEADER, ['2025-01-01 10:00\t5.5\tA1']);
+
+      const merged = mergeDatasetContents([[first], [second]])!;
+
+      expect(merged.rows.map(row => row[1])).toEqual(['5.5', '5.6', '5.0']);
+    });
+  });
+
+  describe('combineUploadedFiles', () => {
+    it('should reject fewer than two valid files', async () => {
+      const file = await createUploadedFile('a.zip', {
+        'cgm_data_1.csv': csv('Name:Jane\tDate Range:2025-01-01 - 2025-01-31', CGM_HEADER, ['2025-01-01 10:00\t5.5\tA1']),
+      });
+
+      await expect(combineUploadedFiles([file])).rejects.toThrow('at least two');
+    });
+
+    it('should reject exports of different people', async () => {
+      const first = await createUploadedFile('a.zip', {
+        'cgm_data_1.csv': csv('Name:Jane\tDate Range:2025-01-01 - 2025-01-31', CGM_HEADER, ['2025-01-01 10:00\t5.5\tA1']),
+      });
+      const second = await createUploadedFile('b.zip', {
+        'cgm_data_1.csv': csv('Name:John\tDate Range:2025-02-01 - 2025-02-28', CGM_HEADER, ['2025-02-01 10:00\t5.5\tA1']),
+      });
+
+      await expect(combineUploadedFiles([first, second])).rejects.toThrow('different people');
+    });
+
+    it('should produce a valid combined file spanning all date ranges', async () => {
+      const first = await createUploadedFile('january.zip', {
+        'cgm_data_1.csv': csv('Name:Jane\tDate Range:2025-01-01 - 2025-01-31', CGM_HEADER, [
+          '2025-01-31 23:55\t5.5\tA1',
+        ]),
+        'carbs_data_1.csv': csv('Name:Jane\tDate Range:2025-01-01 - 2025-01-31', 'Timestamp\tCarbs (g)', [
+          '2025-01-31 12:00\t40',
+        ]),
+      });
+      const second = await createUploadedFile('february.zip', {
+        'cgm_data_1.csv': csv('Name:Jane\tDate Range:2025-01-31 - 2025-02-28', CGM_HEADER, [
+          '2025-01-31 23:55\t5.5\tA1',
+          '2025-02-01 00:00\t5.6\tA1',
+        ]),
+      });
+
+      const { file, duplicateCount } = await combineUploadedFiles([first, second]);
+
+      expect(duplicateCount).toBe(1);
+      expect(file.id.startsWith(COMBINED_FILE_ID_PREFIX)).toBe(true);
+      expect(file.name).toBe('combined-2025-01-01_to_2025-02-28.zip');
+      expect(file.zipMetadata?.isValid).toBe(true);
+      expect(file.zipMetadata?.parsedMetadata).toMatchObject({ name: 'Jane', startDate: '2025-01-01', endDate: '2025-02-28' });
+      expect(file.zipMetadata?.csvFiles.map(csvFile => [csvFile.name, csvFile.rowCount])).toEqual([
+        ['carbs', 1],
+        ['cgm', 2],
+      ]);
+    });
+
+    it('should find the dataset files by name when the metadata has no source files', async () => {
+      const first = await createUploadedFile('february.zip', {
+        'cgm_data_1.csv': csv('Name:Jane\tDate Range:2025-02-01 - 2025-02-28', CGM_HEADER, ['2025-02-01 00:00\t5.6\tA1']),
+      });
+      const second = await createUploadedFile('january.zip', {
+        'cgm_data_1.csv': csv('Name:Jane\tDate Range:2025-01-01 - 2025-01-31', CGM_HEADER, ['2025-01-31 23:55\t5.5\tA1']),
+      });
+      second.zipMetadata!.csvFiles = second.zipMetadata!.csvFiles.map(csvFile => ({ ...csvFile, sourceFiles: undefined }));
+
+      const { file } = await combineUploadedFiles([first, second]);
+
+      const zip = await JSZip.loadAsync(file.file);
+      const lines = (await zip.file('cgm_data_1.csv')!.async('string')).split('\n');
+      expect(lines.slice(2)).toEqual(['2025-01-31 23:55\t5.5\tA1', '2025-02-01 00:00\t5.6\tA1']);
+    });
+  });
+});
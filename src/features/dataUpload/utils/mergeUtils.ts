@@ -0,0 +1,217 @@
+/**
+ * Utility functions for combining several Glooko exports into one dataset
+ *
+ * The combined dataset is written as a regular Glooko-style ZIP, so it can
+ * be selected and analysed exactly like an uploaded file.
+ */
+
+import JSZip from 'jszip';
+import type { UploadedFile } from '../../../types';
+import { findColumnIndex, getColumnVariants, parseWallClockTime } from '../../../utils/data';
+import { detectDelimiter } from '../../export/utils/helpers';
+import { extractZipMetadata } from './zipUtils';
+
+/** ID prefix of combined datasets */
+export const COMBINED_FILE_ID_PREFIX = 'combined-';
+
+/**
+ * Result of merging one dataset (e.g. cgm) from several exports
+ */
+export interface MergedDataset {
+  /** Column names, taken from the first export */
+  header: string[];
+  /** Merged data rows in header column order */
+  rows: string[][];
+  /** Rows dropped because an earlier export already had a row with the same timestamp and device */
+  duplicateCount: number;
+}
+
+/**
+ * Split CSV content into header and data rows (line 0 is the metadata line)
+ */
+function parseCsvRows(content: string): { header: string[]; rows: string[][] } {
+  const delimiter = detectDelimiter(content);
+  const lines = content.split('\n').map(line => line.replace(/\r$/, ''));
+  const header = (lines[1] ?? '').split(delimiter).map(column => column.trim());
+  const rows = lines.slice(2).filter(line => line.trim()).map(line => line.split(delimiter));
+  return { header, rows };
+}
+
+/**
+ * Find the CSV parts of a dataset in an export by file name (e.g. "cgm_data_1.csv")
+ *
+ * Used when the export's metadata does not list the source files of the dataset.
+ */
+function findDatasetPaths(zip: JSZip, datasetName: string): string[] {
+  const pattern = new RegExp(`(^|/)${datasetName}_data_\\d+\\.csv$`, 'i');
+  return Object.keys(zip.files)
+    .filter(path => !zip.files[path].dir && pattern.test(path))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/**
+ * Merge the contents of one dataset from several exports
+ *
+ * Columns are matched by name, so exports with reordered or extra columns
+ * still line up. Rows are de-duplicated by timestamp and device serial
+ * number across exports only; rows repeated within a single export are kept.
+ * The merged rows are sorted by timestamp, so exports can be given in any
+ * order; rows with an unreadable timestamp are kept at the end.
+ *
+ * @param exports - CSV contents of the dataset, one array entry per export (each export may have several CSV parts)
+ * @returns Merged rows, or null when no export contains the dataset
+ */
+export function mergeDatasetContents(exports: string[][]): MergedDataset | null {
+  const parsedExports = exports.map(parts => parts.map(parseCsvRows)).filter(parts => parts.length > 0);
+  if (parsedExports.length === 0) {
+    return null;
+  }
+
+  const header = parsedExports[0][0].header;
+  const timestampIndex = findColumnIndex(header, getColumnVariants('timestamp'));
+  const serialIndex = findColumnIndex(header, getColumnVariants('serialNumber'));
+  const rowKey = (row: string[]) =>
+    `${row[timestampIndex]?.trim() ?? ''}|${serialIndex >= 0 ? row[serialIndex]?.trim() ?? '' : ''}`;
+
+  const seenKeys = new Set<string>();
+  const rows: string[][] = [];
+  let duplicateCount = 0;
+
+  for (const parts of parsedExports) {
+    const exportKeys = new Set<string>();
+
+    for (const part of parts) {
+      const columnMap = header.map(column =>
+        part.header.findIndex(candidate => candidate.toLowerCase() === column.toLowerCase())
+      );
+
+      for (const sourceRow of part.rows) {
+        const row = columnMap.map(index => (index >= 0 ? sourceRow[index] ?? '' : ''));
+        if (timestampIndex >= 0) {
+          const key = rowKey(row);
+          if (seenKeys.has(key)) {
+            duplicateCount++;
+            continue;
+          }
+          exportKeys.add(key);
+        }
+        rows.push(row);
+      }
+    }
+
+    exportKeys.forEach(key => seenKeys.add(key));
+  }
+
+  if (timestampIndex >= 0) {
+    const sortTime = (row: string[]) => {
+      const time = parseWallClockTime(row[timestampIndex] ?? '');
+      return isNaN(time) ? Infinity : time;
+    };
+    const times = new Map(rows.map(row => [row, sortTime(row)]));
+    // Array.prototype.sort is stable, so rows with equal timestamps keep their export order
+    rows.sort((a, b) => {
+      const timeA = times.get(a)!;
+      const timeB = times.get(b)!;
+      return timeA === timeB ? 0 : timeA < timeB ? -1 : 1;
+    });
+  }
+
+  return { header, rows, duplicateCount };
+}
+
+/**
+ * Build the metadata line of the combined dataset, spanning all exports' date ranges
+ */
+function buildMetadataLine(files: UploadedFile[]): { line: string; dateRange?: string } {
+  const metadata = files.map(file => file.zipMetadata?.parsedMetadata ?? {});
+  const names = new Set(metadata.map(m => m.name).filter(Boolean));
+  if (names.size > 1) {
+    throw new Error('The selected files belong to different people and cannot be combined');
+  }
+
+  const startDates = metadata.map(m => m.startDate).filter((date): date is string => !!date).sort();
+  const endDates = metadata.map(m => m.endDate).filter((date): date is string => !!date).sort();
+  const firstLine = files[0].zipMetadata?.metadataLine ?? '';
+  const separator = firstLine.includes('\t') ? '\t' : ', ';
+
+  const dateRange = startDates.length > 0 && endDates.length > 0
+    ? `${startDates[0]} - ${endDates[endDates.length - 1]}`
+    : undefined;
+
+  const parts: string[] = [];
+  const [name] = names;
+  if (name) parts.push(`Name:${name}`);
+  if (dateRange) parts.push(`Date Range:${dateRange}`);
+  return { line: parts.length > 0 ? parts.join(separator) : firstLine, dateRange };
+}
+
+/**
+ * Combine several uploaded exports into one dataset
+ *
+ * Every dataset (CGM, BG, insulin, carbs, ...) is merged across the exports
+ * with overlapping readings de-duplicated, and written to a new ZIP.
+ *
+ * @param files - Valid uploaded files, in the order they should take precedence for duplicates
+ * @returns The combined dataset as an uploaded file, plus the number of duplicate rows dropped
+ * @throws Error when fewer than two files are given, or glucose units or people differ
+ */
+export async function combineUploadedFiles(
+  files: UploadedFile[]
+): Promise<{ file: UploadedFile; duplicateCount: number }> {
+  const validFiles = files.filter(file => file.zipMetadata?.isValid);
+  if (validFiles.length < 2) {
+    throw new Error('Select at least two valid files to combine');
+  }
+
+  const { line: metadataLine, dateRange } = buildMetadataLine(validFiles);
+  const datasetNames = Array.from(
+    new Set(validFiles.flatMap(file => file.zipMetadata!.csvFiles.map(csvFile => csvFile.name)))
+  ).sort();
+
+  const zips = await Promise.all(validFiles.map(file => JSZip.loadAsync(file.file)));
+  const output = new JSZip();
+  let duplicateCount = 0;
+
+  for (const datasetName of datasetNames) {
+    const units = new Set(
+      validFiles
+        .map(file => file.zipMetadata!.csvFiles.find(csvFile => csvFile.name === datasetName)?.glucoseUnit)
+        .filter(Boolean)
+    );
+    if (units.size > 1) {
+      throw new Error(`The ${datasetName} data uses different glucose units in the selected files`);
+    }
+
+    const exports = await Promise.all(validFiles.map(async (file, index) => {
+      const csvFile = file.zipMetadata!.csvFiles.find(candidate => candidate.name === datasetName);
+      const paths = csvFile?.sourceFiles?.length
+        ? csvFile.sourceFiles
+        : findDatasetPaths(zips[index], datasetName);
+      const contents = await Promise.all(paths.map(path => zips[index].file(path)?.async('string')));
+      return contents.filter((content): content is string => content !== undefined);
+    }));
+
+    const merged = mergeDatasetContents(exports);
+    if (!merged) continue;
+
+    duplicateCount += merged.duplicateCount;
+    const lines = [metadataLine, merged.header.join('\t'), ...merged.rows.map(row => row.join('\t'))];
+    output.file(`${datasetName.replace(/\.csv$/i, '')}_data_1.csv`, lines.join('\n'));
+  }
+
+  const blob = await output.generateAsync({ type: 'blob' });
+  const name = `combined-${dateRange ? dateRange.replace(' - ', '_to_') : `${validFiles.length}-files`}.zip`;
+  const zipFile = new File([blob], name, { type: 'application/zip' });
+
+  return {
+    file: {
+      id: `${COMBINED_FILE_ID_PREFIX}${Date.now()}-${Math.random()}`,
+      name,
+      size: zipFile.size,
+      uploadTime: new Date(),
+      file: zipFile,
+      zipMetadata: await extractZipMetadata(zipFile),
+    },
+    duplicateCount,
+  };
+}
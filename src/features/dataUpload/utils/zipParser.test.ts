@@ -0,0 +1,88 @@
+/**
+ * Unit tests for the single-pass ZIP parser and its worker client
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import JSZip from 'jszip';
+import { parseZipFile } from './zipParser';
+import { parseZipFileInWorker } from './zipParserClient';
+import { extractGlucoseReadings } from '../../../utils/data';
+import { generateMockCsvContent } from '../../../testUtils/mockData';
+import type { UploadedFile } from '../../../types';
+
+async function createMockZipFile(files: Record<string, string>): Promise<File> {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([fileName, content]) => zip.file(fileName, content));
+  const blob = await zip.generateAsync({ type: 'blob' });
+  return new File([blob], 'test.zip', { type: 'application/zip' });
+}
+
+describe('zipParser', () => {
+  describe('parseZipFile', () => {
+    it('should build metadata and merged columnar datasets in one pass', async () => {
+      const zipFile = await createMockZipFile({
+        'cgm_data_1.csv': generateMockCsvContent('cgm_data', 10),
+        'cgm_data_2.csv': generateMockCsvContent('cgm_data', 5),
+        'bg_data_1.csv': generateMockCsvContent('bg_data', 3),
+      });
+
+      const { zipMetadata, datasets } = await parseZipFile(zipFile);
+
+      expect(zipMetadata.isValid).toBe(true);
+      expect(zipMetadata.csvFiles.map(f => f.name)).toEqual(['bg', 'cgm']);
+      expect(datasets.cgm.rowCount).toBe(15);
+      expect(datasets.bg.rowCount).toBe(3);
+    });
+
+    it('should report progress per CSV file', async () => {
+      const zipFile = await createMockZipFile({
+        'cgm_data_1.csv': generateMockCsvContent('cgm_data', 2),
+        'bg_data_1.csv': generateMockCsvContent('bg_data', 2),
+      });
+      const onProgress = vi.fn();
+
+      await parseZipFile(zipFile, { onProgress });
+
+      expect(onProgress).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenLastCalledWith({ processedFiles: 2, totalFiles: 2 });
+    });
+
+    it('should return invalid metadata for a corrupt ZIP', async () => {
+      const file = new File(['not a zip'], 'broken.zip', { type: 'application/zip' });
+      const { zipMetadata, datasets } = await parseZipFile(file);
+
+      expect(zipMetadata.isValid).toBe(false);
+      expect(zipMetadata.error).toBeDefined();
+      expect(datasets).toEqual({});
+    });
+
+    it('should stop with an AbortError when cancelled', async () => {
+      const zipFile = await createMockZipFile({ 'cgm_data_1.csv': generateMockCsvContent('cgm_data', 2) });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(parseZipFile(zipFile, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+
+  describe('parseZipFileInWorker', () => {
+    it('should cache parsed datasets for the extractors', async () => {
+      const zipFile = await createMockZipFile({ 'cgm_data_1.csv': generateMockCsvContent('cgm_data', 4) });
+      const { zipMetadata } = await parseZipFileInWorker(zipFile);
+      const uploadedFile: UploadedFile = {
+        id: 'test',
+        name: 'test.zip',
+        size: zipFile.size,
+        uploadTime: new Date(),
+        file: zipFile,
+        zipMetadata,
+      };
+
+      const loadAsync = vi.spyOn(JSZip, 'loadAsync');
+      await extractGlucoseReadings(uploadedFile, 'cgm');
+
+      expect(loadAsync).not.toHaveBeenCalled();
+      loadAsync.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Single-pass parser for Glooko ZIP files
+ *
+ * Reads every CSV entry once and produces both the ZIP metadata and the
+ * columnar datasets used by the reports. Runs inside the upload worker, or
+ * on the main thread where workers are unavailable.
+ */
+
+import JSZip from 'jszip';
+import type { ZipMetadata } from '../../../types';
+import {
+  concatColumnarDatasets,
+  parseCsvToColumnarDataset,
+  type ColumnarDataset,
+  type ParsedDatasets,
+} from '../../../utils/data/columnarDataset';
+import { buildZipMetadata, listCsvEntries, type ZipCsvEntry } from './zipUtils';
+
+/**
+ * Progress of parsing one ZIP file
+ */
+export interface ZipParseProgress {
+  processedFiles: number;
+  totalFiles: number;
+  /** CSV entry currently being parsed */
+  currentFile?: string;
+}
+
+/**
+ * Result of parsing one ZIP file
+ */
+export interface ParsedZipFile {
+  zipMetadata: ZipMetadata;
+  datasets: ParsedDatasets;
+}
+
+export interface ZipParseOptions {
+  onProgress?: (progress: ZipParseProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Create the error used when parsing is cancelled
+ */
+export function createAbortError(): DOMException {
+  return new DOMException('ZIP parsing was cancelled', 'AbortError');
+}
+
+/**
+ * Parse a ZIP file into metadata and columnar datasets
+ *
+ * @param data - The ZIP file contents
+ * @param options - Progress callback and abort signal
+ * @returns Promise resolving to the metadata and datasets; invalid ZIPs resolve with an error in the metadata
+ * @throws AbortError when the signal is aborted
+ */
+export async function parseZipFile(data: Blob | ArrayBuffer, options: ZipParseOptions = {}): Promise<ParsedZipFile> {
+  const { onProgress, signal } = options;
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    return {
+      zipMetadata: {
+        isValid: false,
+        csvFiles: [],
+        error: error instanceof Error ? error.message : 'Failed to process ZIP file'
+      },
+      datasets: {},
+    };
+  }
+
+  const fileNames = listCsvEntries(zip);
+  const entries: ZipCsvEntry[] = [];
+  const parsedEntries = new Map<string, ColumnarDataset>();
+
+  for (const fileName of fileNames) {
+    if (signal?.aborted) throw createAbortError();
+    onProgress?.({ processedFiles: entries.length, totalFiles: fileNames.length, currentFile: fileName });
+
+    const content = await zip.files[fileName].async('string');
+    entries.push({ fileName, content });
+    parsedEntries.set(fileName, parseCsvToColumnarDataset(content));
+  }
+  if (signal?.aborted) throw createAbortError();
+  onProgress?.({ processedFiles: fileNames.length, totalFiles: fileNames.length });
+
+  const zipMetadata = buildZipMetadata(entries);
+  const datasets: ParsedDatasets = {};
+  if (zipMetadata.isValid) {
+    for (const csvFile of zipMetadata.csvFiles) {
+      const parts = (csvFile.sourceFiles ?? [])
+        .map(sourceFile => parsedEntries.get(sourceFile))
+        .filter((dataset): dataset is ColumnarDataset => dataset !== undefined);
+      if (parts.length > 0) {
+        datasets[csvFile.name] = concatColumnarDatasets(parts);
+      }
+    }
+  }
+
+  return { zipMetadata, datasets };
+}
@@ -0,0 +1,83 @@
+/**
+ * Main-thread client for the ZIP parser worker
+ */
+
+import { cacheParsedDatasets } from '../../../utils/data/datasetCache';
+import { createAbortError, parseZipFile, type ParsedZipFile, type ZipParseOptions, type ZipParseProgress } from './zipParser';
+
+/**
+ * Message sent to the worker
+ */
+export interface ZipParserRequest {
+  file: File;
+}
+
+/**
+ * Messages sent back by the worker
+ */
+export type ZipParserResponse =
+  | { type: 'progress'; progress: ZipParseProgress }
+  | { type: 'result'; result: ParsedZipFile }
+  | { type: 'error'; message: string };
+
+/**
+ * Run the parser in a dedicated worker, terminating it when the signal is aborted
+ */
+function parseInWorker(file: File, { onProgress, signal }: ZipParseOptions): Promise<ParsedZipFile> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/zipParser.worker.ts', import.meta.url), { type: 'module' });
+    const handleAbort = () => {
+      worker.terminate();
+      reject(createAbortError());
+    };
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+    worker.onmessage = (event: MessageEvent<ZipParserResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'result') {
+        finish();
+        resolve(message.result);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Failed to process ZIP file'));
+    };
+
+    worker.postMessage({ file } satisfies ZipParserRequest);
+  });
+}
+
+/**
+ * Parse an uploaded ZIP file in a Web Worker and cache its datasets for the reports
+ * Falls back to the main thread where workers are unavailable (e.g. tests)
+ *
+ * @param file - The ZIP file to parse
+ * @param options - Progress callback and abort signal
+ * @returns Promise resolving to the ZIP metadata and parsed datasets
+ * @throws AbortError when the signal is aborted
+ */
+export async function parseZipFileInWorker(file: File, options: ZipParseOptions = {}): Promise<ParsedZipFile> {
+  const result = typeof Worker === 'undefined'
+    ? await parseZipFile(file, options)
+    : await parseInWorker(file, options);
+
+  if (result.zipMetadata.isValid) {
+    cacheParsedDatasets(file, result.datasets);
+  }
+  return result;
+}
@@ -175,88 +175,119 @@ function groupCsvFiles(files: CsvFileMetadata[]): CsvFileMetadata[] {
 }
 
 /**
- * Extract metadata from a ZIP file
+ * A CSV entry read from a ZIP archive
+ */
+export interface ZipCsvEntry {
+  /** Full path of the entry inside the ZIP */
+  fileName: string;
+  content: string;
+}
+
+/**
+ * List the CSV entries of a loaded ZIP archive
+ * 
+ * @param zip - The loaded ZIP archive
+ * @returns Paths of all CSV files, excluding directories
+ */
+export function listCsvEntries(zip: JSZip): string[] {
+  return Object.keys(zip.files)
+    .filter(fileName => !zip.files[fileName].dir) // Exclude directories
+    .filter(fileName => fileName.toLowerCase().endsWith('.csv')); // Only CSV files
+}
+
+/**
+ * Build ZIP metadata from the CSV entries of an archive
  * Validates that the ZIP contains CSV files and extracts information about them
  * 
- * @param file - The ZIP file to process
- * @returns Promise resolving to ZipMetadata with validation status and CSV file information
+ * @param entries - CSV entries with their content
+ * @returns ZipMetadata with validation status and CSV file information
  */
-export async function extractZipMetadata(file: File): Promise<ZipMetadata> {
-  try {
-    const zip = await JSZip.loadAsync(file);
-    const csvFiles: CsvFileMetadata[] = [];
-    let zipMetadataLine: string | undefined = undefined;
-    
-    // Get all files in the ZIP
-    const fileEntries = Object.keys(zip.files)
-      .filter(fileName => !zip.files[fileName].dir) // Exclude directories
-      .filter(fileName => fileName.toLowerCase().endsWith('.csv')); // Only CSV files
+export function buildZipMetadata(entries: ZipCsvEntry[]): ZipMetadata {
+  const csvFiles: CsvFileMetadata[] = [];
+  let zipMetadataLine: string | undefined = undefined;
+  
+  if (entries.length === 0) {
+    return {
+      isValid: false,
+      csvFiles: [],
+      error: 'No CSV files found in ZIP archive'
+    };
+  }
+  
+  // Process each CSV file
+  for (const { fileName, content } of entries) {
+    const { metadataLine, columnNames, rowCount, glucoseUnit } = parseCsvContent(content);
     
-    if (fileEntries.length === 0) {
+    // Validate that all CSV files have the same metadata line
+    if (zipMetadataLine === undefined) {
+      zipMetadataLine = metadataLine;
+    } else if (zipMetadataLine !== metadataLine) {
       return {
         isValid: false,
         csvFiles: [],
-        error: 'No CSV files found in ZIP archive'
+        error: 'Not all CSV files have the same metadata line'
       };
     }
     
-    // Process each CSV file
-    for (const fileName of fileEntries) {
-      const fileData = zip.files[fileName];
-      const content = await fileData.async('string');
-      const { metadataLine, columnNames, rowCount, glucoseUnit } = parseCsvContent(content);
-      
-      // Validate that all CSV files have the same metadata line
-      if (zipMetadataLine === undefined) {
-        zipMetadataLine = metadataLine;
-      } else if (zipMetadataLine !== metadataLine) {
-        return {
-          isValid: false,
-          csvFiles: [],
-          error: 'Not all CSV files have the same metadata line'
-        };
-      }
-      
-      // Extract just the filename without path for display
-      const displayName = fileName.split('/').pop() || fileName;
-      
-      csvFiles.push({
-        name: displayName,
-        rowCount,
-        columnNames,
-        glucoseUnit,
-        // Store the full path so we can access it later in xlsxUtils
-        sourceFiles: [fileName]
-      });
-    }
-    
-    // Group and merge related CSV files
-    const groupedCsvFiles = groupCsvFiles(csvFiles);
-    
-    // Validate glucose unit consistency between cgm and bg datasets
-    const cgmFile = groupedCsvFiles.find(f => f.name === 'cgm');
-    const bgFile = groupedCsvFiles.find(f => f.name === 'bg');
+    // Extract just the filename without path for display
+    const displayName = fileName.split('/').pop() || fileName;
     
-    if (cgmFile && bgFile) {
-      // Both cgm and bg exist, check for unit consistency
-      if (cgmFile.glucoseUnit && bgFile.glucoseUnit && cgmFile.glucoseUnit !== bgFile.glucoseUnit) {
-        return {
-          isValid: false,
-          csvFiles: [],
-          error: `Inconsistent glucose units: CGM uses ${cgmFile.glucoseUnit} but BG uses ${bgFile.glucoseUnit}. All datasets must use the same unit.`
-        };
-      }
+    csvFiles.push({
+      name: displayName,
+      rowCount,
+      columnNames,
+      glucoseUnit,
+      // Store the full path so we can access it later in xlsxUtils
+      sourceFiles: [fileName]
+    });
+  }
+  
+  // Group and merge related CSV files
+  const groupedCsvFiles = groupCsvFiles(csvFiles);
+  
+  // Validate glucose unit consistency between cgm and bg datasets
+  const cgmFile = groupedCsvFiles.find(f => f.name === 'cgm');
+  const bgFile = groupedCsvFiles.find(f => f.name === 'bg');
+  
+  if (cgmFile && bgFile) {
+    // Both cgm and bg exist, check for unit consistency
+    if (cgmFile.glucoseUnit && bgFile.glucoseUnit && cgmFile.glucoseUnit !== bgFile.glucoseUnit) {
+      return {
+        isValid: false,
+        csvFiles: [],
+        error: `Inconsistent glucose units: CGM uses ${cgmFile.glucoseUnit} but BG uses ${bgFile.glucoseUnit}. All datasets must use the same unit.`
+      };
     }
+  }
+  
+  // Parse the metadata line if it exists
+  const parsedMetadata = zipMetadataLine ? parseMetadata(zipMetadataLine) : undefined;
+  
+  return {
+    isValid: true,
+    csvFiles: groupedCsvFiles,
+    metadataLine: zipMetadataLine,
+    parsedMetadata
+  };
+}
+
+/**
+ * Extract metadata from a ZIP file
+ * Validates that the ZIP contains CSV files and extracts information about them
+ * 
+ * @param file - The ZIP file to process
+ * @returns Promise resolving to ZipMetadata with validation status and CSV file information
+ */
+export async function extractZipMetadata(file: File): Promise<ZipMetadata> {
+  try {
+    const zip = await JSZip.loadAsync(file);
+    const entries: ZipCsvEntry[] = [];
     
-    // Parse the metadata line if it exists
-    const parsedMetadata = zipMetadataLine ? parseMetadata(zipMetadataLine) : undefined;
+    for (const fileName of listCsvEntries(zip)) {
+      entries.push({ fileName, content: await zip.files[fileName].async('string') });
+    }
     
-    return {
-      isValid: true,
-      csvFiles: groupedCsvFiles,
-      metadataLine: zipMetadataLine,
-      parsedMetadata
-    };
+    return buildZipMetadata(entries);
   } catch (error) {
     return {
       isValid: false,
@@ -0,0 +1,22 @@
+/**
+ * Web Worker that parses uploaded Glooko ZIP files off the main thread
+ */
+
+import { getDatasetTransferables } from '../../../utils/data/columnarDataset';
+import { parseZipFile } from '../utils/zipParser';
+import type { ZipParserRequest, ZipParserResponse } from '../utils/zipParserClient';
+
+const workerScope = self as unknown as Worker;
+
+workerScope.onmessage = async (event: MessageEvent<ZipParserRequest>) => {
+  const post = (message: ZipParserResponse, transfer: Transferable[] = []) => workerScope.postMessage(message, transfer);
+
+  try {
+    const result = await parseZipFile(event.data.file, {
+      onProgress: progress => post({ type: 'progress', progress }),
+    });
+    post({ type: 'result', result }, getDatasetTransferables(result.datasets));
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to process ZIP file' });
+  }
+};
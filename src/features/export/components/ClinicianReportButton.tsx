@@ -0,0 +1,102 @@
+/**
+ * Button that generates and downloads the clinician PDF report
+ */
+
+import { useState } from 'react';
+import {
+  makeStyles,
+  shorthands,
+  tokens,
+  Button,
+  Checkbox,
+  Spinner,
+  Text,
+} from '@fluentui/react-components';
+import { DocumentPdfRegular } from '@fluentui/react-icons';
+import { useTranslation } from 'react-i18next';
+import type { GlucoseReading, GlucoseThresholds, GlucoseUnit, UploadedFile } from '../../../types';
+import { extractDailyInsulinSummaries } from '../../../utils/data';
+import { createClinicianReportLabels, prepareClinicianReportData } from '../utils/clinicianReportData';
+import { renderClinicianReportPdf } from '../utils/clinicianReportPdf';
+import { downloadPdf } from '../utils/download';
+
+const useStyles = makeStyles({
+  container: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    ...shorthands.gap('12px'),
+  },
+  error: {
+    color: tokens.colorStatusDangerForeground1,
+    fontSize: tokens.fontSizeBase200,
+  },
+});
+
+interface ClinicianReportButtonProps {
+  selectedFile: UploadedFile;
+  /** Glucose readings for the selected period (values in mmol/L) */
+  readings: GlucoseReading[];
+  thresholds: GlucoseThresholds;
+  glucoseUnit: GlucoseUnit;
+}
+
+/**
+ * Generates a printable clinician report (AGP one-pager with optional appendix) entirely in the browser.
+ *
+ * @param selectedFile - File used to load daily insulin totals for the appendix
+ * @param readings - Glucose readings shown in the report
+ * @param thresholds - Glucose thresholds used for time in ranges and hypo detection
+ * @param glucoseUnit - Unit used for all glucose values in the report
+ * @returns A download button with an appendix checkbox
+ */
+export function ClinicianReportButton({ selectedFile, readings, thresholds, glucoseUnit }: ClinicianReportButtonProps) {
+  const styles = useStyles();
+  const { t } = useTranslation('reports');
+  const [includeAppendix, setIncludeAppendix] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    setGenerating(true);
+    setError(null);
+
+    try {
+      const dailyInsulin = includeAppendix
+        ? await extractDailyInsulinSummaries(selectedFile).catch(() => [])
+        : undefined;
+      const data = prepareClinicianReportData(readings, thresholds, dailyInsulin);
+      if (!data) {
+        setError(t('reports.clinicianPdf.noData'));
+        return;
+      }
+
+      const labels = createClinicianReportLabels(key => t(`reports.clinicianPdf.pdf.${key}`));
+      const pdf = renderClinicianReportPdf(data, { glucoseUnit, labels, generatedAt: new Date() });
+      downloadPdf(pdf, `clinician-report-${data.startDate}-${data.endDate}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('reports.clinicianPdf.error'));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className={styles.container}>
+      <Button
+        appearance="secondary"
+        icon={generating ? <Spinner size="tiny" /> : <DocumentPdfRegular />}
+        disabled={generating || readings.length === 0}
+        onClick={handleDownload}
+      >
+        {generating ? t('reports.clinicianPdf.generating') : t('reports.clinicianPdf.button')}
+      </Button>
+      <Checkbox
+        checked={includeAppendix}
+        onChange={(_, data) => setIncludeAppendix(data.checked === true)}
+        label={t('reports.clinicianPdf.includeAppendix')}
+      />
+      {error && <Text className={styles.error}>{error}</Text>}
+    </div>
+  );
+}
@@ -1,6 +1,5 @@
 /**
  * Export components barrel file
- * Components for export functionality will be added here in the future
  */
 
-// Placeholder - export components will be added here
+export { ClinicianReportButton } from './ClinicianReportButton';
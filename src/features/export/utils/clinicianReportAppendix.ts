@@ -0,0 +1,122 @@
+/**
+ * Appendix pages of the clinician PDF report (hypo episodes and daily insulin totals)
+ */
+
+import { displayGlucoseValue, formatDate } from '../../../utils/data';
+import {
+  PDF_GRID_COLOR,
+  PDF_MARGIN,
+  PDF_MUTED_COLOR,
+  PDF_PAGE_HEIGHT,
+  createPdfPage,
+  drawPdfLine,
+  drawPdfText,
+  type PdfPage,
+} from './pdfWriter';
+import type { ClinicianReportAppendix, ClinicianReportOptions } from './clinicianReportData';
+
+const ROW_HEIGHT = 14;
+const PAGE_TOP = 52;
+const PAGE_BOTTOM = PDF_PAGE_HEIGHT - 60;
+const COLUMNS = [0, 140, 260, 380];
+
+interface AppendixCursor {
+  pages: PdfPage[];
+  y: number;
+}
+
+/**
+ * Return the current page, starting a new one when the next block would not fit
+ */
+function reserve(cursor: AppendixCursor, height: number): PdfPage {
+  if (cursor.pages.length === 0 || cursor.y + height > PAGE_BOTTOM) {
+    cursor.pages.push(createPdfPage());
+    cursor.y = PAGE_TOP;
+  }
+  return cursor.pages[cursor.pages.length - 1];
+}
+
+function writeHeading(cursor: AppendixCursor, text: string, size: number): void {
+  // Keep a heading on the same page as at least its first table rows
+  const page = reserve(cursor, size + 3 * ROW_HEIGHT);
+  drawPdfText(page, PDF_MARGIN, cursor.y, text, { size, bold: true });
+  cursor.y += size + 8;
+}
+
+function writeNote(cursor: AppendixCursor, text: string): void {
+  const page = reserve(cursor, ROW_HEIGHT);
+  drawPdfText(page, PDF_MARGIN, cursor.y, text, { size: 9, color: PDF_MUTED_COLOR });
+  cursor.y += ROW_HEIGHT * 2;
+}
+
+function writeTable(cursor: AppendixCursor, header: string[], rows: string[][]): void {
+  const writeRow = (cells: string[], bold: boolean) => {
+    const page = reserve(cursor, ROW_HEIGHT);
+    cells.forEach((cell, index) => {
+      drawPdfText(page, PDF_MARGIN + COLUMNS[index], cursor.y, cell, { size: 9, bold });
+    });
+    if (bold) {
+      drawPdfLine(page, PDF_MARGIN, cursor.y + 4, PDF_MARGIN + COLUMNS[COLUMNS.length - 1] + 80, cursor.y + 4, {
+        stroke: PDF_GRID_COLOR,
+        lineWidth: 0.5,
+      });
+    }
+    cursor.y += ROW_HEIGHT;
+  };
+
+  writeRow(header, true);
+  rows.forEach(row => writeRow(row, false));
+  cursor.y += ROW_HEIGHT;
+}
+
+/**
+ * Render the appendix pages (without footers)
+ *
+ * @param appendix - Hypo episodes and daily insulin totals
+ * @param options - Display unit and translated labels
+ * @returns The appendix pages
+ */
+export function renderClinicianReportAppendix(
+  appendix: ClinicianReportAppendix,
+  { labels, glucoseUnit }: ClinicianReportOptions
+): PdfPage[] {
+  const cursor: AppendixCursor = { pages: [], y: PAGE_TOP };
+  const formatTime = (date: Date) =>
+    `${formatDate(date)} ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+  writeHeading(cursor, labels.appendixTitle, 16);
+
+  writeHeading(cursor, `${labels.hypoEpisodesTitle} (${appendix.hypoEpisodes.length})`, 12);
+  if (appendix.hypoEpisodes.length === 0) {
+    writeNote(cursor, labels.noHypoEpisodes);
+  } else {
+    writeTable(
+      cursor,
+      [labels.start, labels.durationMinutes, `${labels.nadir} (${glucoseUnit})`, labels.severe],
+      appendix.hypoEpisodes.map(episode => [
+        formatTime(episode.startTime),
+        String(Math.round(episode.durationMinutes)),
+        displayGlucoseValue(episode.nadir, glucoseUnit),
+        episode.isSevere ? labels.yes : '',
+      ])
+    );
+  }
+
+  writeHeading(cursor, labels.dailyInsulinTitle, 12);
+  if (appendix.dailyInsulin.length === 0) {
+    writeNote(cursor, labels.noDailyInsulin);
+  } else {
+    writeTable(
+      cursor,
+      [labels.date, `${labels.basal} (U)`, `${labels.bolus} (U)`, `${labels.total} (U)`],
+      appendix.dailyInsulin.map(day => [
+        day.date,
+        day.basalTotal.toFixed(1),
+        day.bolusTotal.toFixed(1),
+        day.totalInsulin.toFixed(1),
+      ])
+    );
+  }
+
+  return cursor.pages;
+}
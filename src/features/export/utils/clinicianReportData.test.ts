@@ -0,0 +1,90 @@
+/**
+ * Tests for clinician PDF report data preparation and rendering
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createClinicianReportLabels,
+  MAX_DAILY_PROFILES,
+  prepareClinicianReportData,
+} from './clinicianReportData';
+import { renderClinicianReportPdf } from './clinicianReportPdf';
+import type { DailyInsulinSummary, GlucoseReading, GlucoseThresholds } from '../../../types';
+
+const THRESHOLDS: GlucoseThresholds = { veryLow: 3.0, low: 3.9, high: 10.0, veryHigh: 13.9 };
+const LABELS = createClinicianReportLabels(key => key);
+
+// Readings every 15 minutes for the given number of days, cycling through the values
+function createReadings(days: number, values: number[]): GlucoseReading[] {
+  const readings: GlucoseReading[] = [];
+  const start = new Date('2024-03-01T00:00:00').getTime();
+  for (let i = 0; i < days * 96; i++) {
+    readings.push({ timestamp: new Date(start + i * 15 * 60 * 1000), value: values[i % values.length] });
+  }
+  return readings;
+}
+
+describe('prepareClinicianReportData', () => {
+  it('should return null without readings', () => {
+    expect(prepareClinicianReportData([], THRESHOLDS)).toBeNull();
+  });
+
+  it('should calculate summary metrics and time in ranges', () => {
+    const data = prepareClinicianReportData(createReadings(2, [2.5, 3.5, 6, 6, 11, 15]), THRESHOLDS)!;
+
+    expect(data.startDate).toBe('2024-03-01');
+    expect(data.endDate).toBe('2024-03-02');
+    expect(data.daysWithData).toBe(2);
+    expect(data.readingCount).toBe(192);
+    expect(data.timeInRange.inRange).toBeCloseTo(33.3, 1);
+    expect(data.timeInRange.veryLow).toBeCloseTo(16.7, 1);
+    expect(data.timeInRange.veryHigh).toBeCloseTo(16.7, 1);
+    expect(data.gmi).not.toBeNull();
+    expect(data.cv).toBeGreaterThan(0);
+    expect(data.appendix).toBeUndefined();
+  });
+
+  it('should keep only the most recent daily profiles with hourly means', () => {
+    const data = prepareClinicianReportData(createReadings(20, [5, 7]), THRESHOLDS)!;
+
+    expect(data.dailyProfiles).toHaveLength(MAX_DAILY_PROFILES);
+    expect(data.dailyProfiles[MAX_DAILY_PROFILES - 1].date).toBe('2024-03-20');
+    expect(data.dailyProfiles[0].hourlyMeans).toHaveLength(24);
+    expect(data.dailyProfiles[0].hourlyMeans[0]).toBe(6);
+  });
+
+  it('should include hypo episodes and insulin totals from the period in the appendix', () => {
+    const readings = createReadings(1, [6]);
+    for (let i = 40; i < 46; i++) readings[i].value = 2.8;
+    const insulin: DailyInsulinSummary[] = [
+      { date: '2024-02-28', basalTotal: 10, bolusTotal: 12, totalInsulin: 22 },
+      { date: '2024-03-01', basalTotal: 11, bolusTotal: 14, totalInsulin: 25 },
+    ];
+
+    const data = prepareClinicianReportData(readings, THRESHOLDS, insulin)!;
+
+    expect(data.appendix?.hypoEpisodes).toHaveLength(1);
+    expect(data.appendix?.hypoEpisodes[0].isSevere).toBe(true);
+    expect(data.appendix?.dailyInsulin.map(day => day.date)).toEqual(['2024-03-01']);
+  });
+});
+
+describe('renderClinicianReportPdf', () => {
+  it('should render a one-page report without appendix', () => {
+    const data = prepareClinicianReportData(createReadings(3, [5, 8, 11]), THRESHOLDS)!;
+    const pdf = String.fromCharCode(...renderClinicianReportPdf(data, { glucoseUnit: 'mmol/L', labels: LABELS, generatedAt: new Date() }));
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/Count 1');
+    expect(pdf).toContain('(agpTitle) Tj');
+  });
+
+  it('should add appendix pages when the appendix is included', () => {
+    const data = prepareClinicianReportData(createReadings(3, [5, 8, 11]), THRESHOLDS, [])!;
+    const pdf = String.fromCharCode(...renderClinicianReportPdf(data, { glucoseUnit: 'mg/dL', labels: LABELS, generatedAt: new Date() }));
+
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain('(noHypoEpisodes) Tj');
+    expect(pdf).toContain('(noDailyInsulin) Tj');
+  });
+});
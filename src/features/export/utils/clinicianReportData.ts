@@ -0,0 +1,232 @@
+/**
+ * Data preparation for the clinician PDF report
+ */
+
+import type {
+  AGPTimeSlotStats,
+  DailyInsulinSummary,
+  GlucoseReading,
+  GlucoseThresholds,
+  GlucoseUnit,
+} from '../../../types';
+import {
+  calculateAverageGlucose,
+  calculateCV,
+  calculateDaysWithData,
+  calculateEstimatedHbA1c,
+  calculateGlucoseRangeStats,
+  calculateHypoStats,
+  calculatePercentage,
+  formatDate,
+  type HypoPeriod,
+} from '../../../utils/data';
+import { calculateAGPStats } from '../../../utils/visualization';
+
+/** Number of most recent days shown as daily mini-profiles on the summary page */
+export const MAX_DAILY_PROFILES = 14;
+
+export interface ClinicianReportTimeInRange {
+  veryLow: number;
+  low: number;
+  inRange: number;
+  high: number;
+  veryHigh: number;
+}
+
+export interface ClinicianReportDay {
+  /** Date in YYYY-MM-DD format */
+  date: string;
+  /** Hourly mean glucose in mmol/L (index = hour), null when the hour has no readings */
+  hourlyMeans: Array<number | null>;
+}
+
+export interface ClinicianReportAppendix {
+  hypoEpisodes: HypoPeriod[];
+  dailyInsulin: DailyInsulinSummary[];
+}
+
+export interface ClinicianReportData {
+  startDate: string;
+  endDate: string;
+  daysWithData: number;
+  readingCount: number;
+  /** Average glucose in mmol/L */
+  averageGlucose: number | null;
+  /** Glucose management indicator (%) */
+  gmi: number | null;
+  /** Coefficient of variation (%) */
+  cv: number | null;
+  /** Percentage of readings in each of the five ranges */
+  timeInRange: ClinicianReportTimeInRange;
+  agpStats: AGPTimeSlotStats[];
+  dailyProfiles: ClinicianReportDay[];
+  thresholds: GlucoseThresholds;
+  appendix?: ClinicianReportAppendix;
+}
+
+/** Translated text used in the report */
+export interface ClinicianReportLabels {
+  title: string;
+  period: string;
+  generated: string;
+  daysWithData: string;
+  readings: string;
+  averageGlucose: string;
+  gmi: string;
+  cv: string;
+  timeInRange: string;
+  veryLow: string;
+  low: string;
+  inRange: string;
+  high: string;
+  veryHigh: string;
+  agpTitle: string;
+  agpLegend: string;
+  dailyProfilesTitle: string;
+  appendixTitle: string;
+  hypoEpisodesTitle: string;
+  noHypoEpisodes: string;
+  start: string;
+  durationMinutes: string;
+  nadir: string;
+  severe: string;
+  yes: string;
+  dailyInsulinTitle: string;
+  noDailyInsulin: string;
+  date: string;
+  basal: string;
+  bolus: string;
+  total: string;
+  disclaimer: string;
+  page: string;
+}
+
+/**
+ * Build the report labels, looking up each one
+ *
+ * @param translate - Returns the text of a label key (e.g. from the i18n `reports.clinicianPdf.pdf` keys)
+ * @returns All labels of the report
+ */
+export function createClinicianReportLabels(translate: (key: keyof ClinicianReportLabels) => string): ClinicianReportLabels {
+  return {
+    title: translate('title'),
+    period: translate('period'),
+    generated: translate('generated'),
+    daysWithData: translate('daysWithData'),
+    readings: translate('readings'),
+    averageGlucose: translate('averageGlucose'),
+    gmi: translate('gmi'),
+    cv: translate('cv'),
+    timeInRange: translate('timeInRange'),
+    veryLow: translate('veryLow'),
+    low: translate('low'),
+    inRange: translate('inRange'),
+    high: translate('high'),
+    veryHigh: translate('veryHigh'),
+    agpTitle: translate('agpTitle'),
+    agpLegend: translate('agpLegend'),
+    dailyProfilesTitle: translate('dailyProfilesTitle'),
+    appendixTitle: translate('appendixTitle'),
+    hypoEpisodesTitle: translate('hypoEpisodesTitle'),
+    noHypoEpisodes: translate('noHypoEpisodes'),
+    start: translate('start'),
+    durationMinutes: translate('durationMinutes'),
+    nadir: translate('nadir'),
+    severe: translate('severe'),
+    yes: translate('yes'),
+    dailyInsulinTitle: translate('dailyInsulinTitle'),
+    noDailyInsulin: translate('noDailyInsulin'),
+    date: translate('date'),
+    basal: translate('basal'),
+    bolus: translate('bolus'),
+    total: translate('total'),
+    disclaimer: translate('disclaimer'),
+    page: translate('page'),
+  };
+}
+
+export interface ClinicianReportOptions {
+  glucoseUnit: GlucoseUnit;
+  labels: ClinicianReportLabels;
+  generatedAt: Date;
+}
+
+/**
+ * Calculate hourly mean glucose for each of the most recent days
+ */
+function buildDailyProfiles(readings: GlucoseReading[]): ClinicianReportDay[] {
+  const sums = new Map<string, { sum: number[]; count: number[] }>();
+
+  for (const reading of readings) {
+    const date = formatDate(reading.timestamp);
+    let day = sums.get(date);
+    if (!day) {
+      day = { sum: new Array(24).fill(0), count: new Array(24).fill(0) };
+      sums.set(date, day);
+    }
+    const hour = reading.timestamp.getHours();
+    day.sum[hour] += reading.value;
+    day.count[hour]++;
+  }
+
+  return Array.from(sums.keys())
+    .sort()
+    .slice(-MAX_DAILY_PROFILES)
+    .map(date => {
+      const { sum, count } = sums.get(date)!;
+      return {
+        date,
+        hourlyMeans: sum.map((total, hour) => (count[hour] > 0 ? total / count[hour] : null)),
+      };
+    });
+}
+
+/**
+ * Compute everything shown in the clinician PDF report
+ *
+ * @param readings - Glucose readings for the reporting period (values in mmol/L)
+ * @param thresholds - Glucose thresholds in mmol/L
+ * @param dailyInsulin - Daily insulin totals; when provided, the appendix is included
+ * @returns Report data, or null when there are no readings
+ */
+export function prepareClinicianReportData(
+  readings: GlucoseReading[],
+  thresholds: GlucoseThresholds,
+  dailyInsulin?: DailyInsulinSummary[]
+): ClinicianReportData | null {
+  if (readings.length === 0) {
+    return null;
+  }
+
+  const sorted = [...readings].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const averageGlucose = calculateAverageGlucose(sorted);
+  const rangeStats = calculateGlucoseRangeStats(sorted, thresholds, 5);
+  const startDate = formatDate(sorted[0].timestamp);
+  const endDate = formatDate(sorted[sorted.length - 1].timestamp);
+
+  return {
+    startDate,
+    endDate,
+    daysWithData: calculateDaysWithData(sorted),
+    readingCount: sorted.length,
+    averageGlucose,
+    gmi: averageGlucose !== null ? calculateEstimatedHbA1c(averageGlucose) : null,
+    cv: calculateCV(sorted),
+    timeInRange: {
+      veryLow: calculatePercentage(rangeStats.veryLow ?? 0, rangeStats.total),
+      low: calculatePercentage(rangeStats.low, rangeStats.total),
+      inRange: calculatePercentage(rangeStats.inRange, rangeStats.total),
+      high: calculatePercentage(rangeStats.high, rangeStats.total),
+      veryHigh: calculatePercentage(rangeStats.veryHigh ?? 0, rangeStats.total),
+    },
+    agpStats: calculateAGPStats(sorted),
+    dailyProfiles: buildDailyProfiles(sorted),
+    thresholds,
+    appendix: dailyInsulin
+      ? {
+          hypoEpisodes: calculateHypoStats(sorted, thresholds).hypoPeriods,
+          dailyInsulin: dailyInsulin.filter(day => day.date >= startDate && day.date <= endDate),
+        }
+      : undefined,
+  };
+}
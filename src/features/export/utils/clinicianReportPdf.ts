@@ -0,0 +1,202 @@
+/**
+ * Clinician PDF report layout
+ *
+ * Page one is an AGP one-pager (key metrics, time in ranges, percentile
+ * profile and daily mini-profiles); the optional appendix lists hypo
+ * episodes and daily insulin totals.
+ */
+
+import { displayGlucoseValue, getUnitLabel, GLUCOSE_RANGE_COLORS } from '../../../utils/data';
+import {
+  PDF_GRID_COLOR,
+  PDF_MARGIN,
+  PDF_MUTED_COLOR,
+  PDF_PAGE_WIDTH,
+  PDF_PAGE_HEIGHT,
+  buildPdf,
+  createPdfPage,
+  drawPdfLine,
+  drawPdfPath,
+  drawPdfRect,
+  drawPdfText,
+  type PdfPage,
+} from './pdfWriter';
+import { renderClinicianReportAppendix } from './clinicianReportAppendix';
+import type { ClinicianReportData, ClinicianReportLabels, ClinicianReportOptions } from './clinicianReportData';
+
+/** Upper bound of the glucose axis in mmol/L (400 mg/dL) */
+const GLUCOSE_AXIS_MAX = 22.2;
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - 2 * PDF_MARGIN;
+const BAND_10_90 = '#DEEFFD';
+const BAND_25_75 = '#B1DAFA';
+const MEDIAN_COLOR = '#1976D2';
+const TARGET_COLOR = '#4CAF50';
+const TARGET_BAND = '#EAF6EA';
+
+/**
+ * Map a glucose value to a y coordinate inside a chart area
+ */
+function glucoseToY(value: number, top: number, height: number): number {
+  return top + height - (Math.min(value, GLUCOSE_AXIS_MAX) / GLUCOSE_AXIS_MAX) * height;
+}
+
+function drawMetrics(page: PdfPage, data: ClinicianReportData, { glucoseUnit, labels }: ClinicianReportOptions, top: number): void {
+  const unit = getUnitLabel(glucoseUnit);
+  const metrics: Array<[string, string]> = [
+    [labels.period, `${data.startDate} – ${data.endDate}`],
+    [labels.daysWithData, String(data.daysWithData)],
+    [labels.readings, String(data.readingCount)],
+    [labels.averageGlucose, data.averageGlucose !== null ? `${displayGlucoseValue(data.averageGlucose, glucoseUnit)} ${unit}` : '-'],
+    [labels.gmi, data.gmi !== null ? `${data.gmi.toFixed(1)}%` : '-'],
+    [labels.cv, data.cv !== null ? `${data.cv.toFixed(1)}%` : '-'],
+  ];
+
+  drawPdfRect(page, PDF_MARGIN, top, CONTENT_WIDTH, 64, { fill: '#F5F5F5' });
+  metrics.forEach(([label, value], index) => {
+    const x = PDF_MARGIN + 12 + (index % 2) * (CONTENT_WIDTH / 2);
+    const y = top + 18 + Math.floor(index / 2) * 18;
+    drawPdfText(page, x, y, label, { size: 9, color: PDF_MUTED_COLOR });
+    drawPdfText(page, x + 150, y, value, { size: 10, bold: true });
+  });
+}
+
+function drawTimeInRange(page: PdfPage, data: ClinicianReportData, { glucoseUnit, labels }: ClinicianReportOptions, top: number): void {
+  const { thresholds, timeInRange } = data;
+  const show = (value: number) => displayGlucoseValue(value, glucoseUnit);
+  const segments = [
+    { color: GLUCOSE_RANGE_COLORS.veryLow, value: timeInRange.veryLow, label: `${labels.veryLow} (<${show(thresholds.veryLow)})` },
+    { color: GLUCOSE_RANGE_COLORS.low, value: timeInRange.low, label: `${labels.low} (${show(thresholds.veryLow)}–${show(thresholds.low)})` },
+    { color: GLUCOSE_RANGE_COLORS.inRange, value: timeInRange.inRange, label: `${labels.inRange} (${show(thresholds.low)}–${show(thresholds.high)})` },
+    { color: GLUCOSE_RANGE_COLORS.high, value: timeInRange.high, label: `${labels.high} (${show(thresholds.high)}–${show(thresholds.veryHigh)})` },
+    { color: GLUCOSE_RANGE_COLORS.veryHigh, value: timeInRange.veryHigh, label: `${labels.veryHigh} (>${show(thresholds.veryHigh)})` },
+  ];
+
+  drawPdfText(page, PDF_MARGIN, top, labels.timeInRange, { size: 12, bold: true });
+
+  let x = PDF_MARGIN;
+  const total = segments.reduce((sum, segment) => sum + segment.value, 0) || 1;
+  for (const segment of segments) {
+    const width = (segment.value / total) * CONTENT_WIDTH;
+    if (width > 0) {
+      drawPdfRect(page, x, top + 8, width, 16, { fill: segment.color });
+      x += width;
+    }
+  }
+
+  const columnWidth = CONTENT_WIDTH / segments.length;
+  segments.forEach((segment, index) => {
+    const left = PDF_MARGIN + index * columnWidth;
+    drawPdfRect(page, left, top + 32, 8, 8, { fill: segment.color });
+    drawPdfText(page, left + 12, top + 39, `${segment.value.toFixed(1)}%`, { size: 9, bold: true });
+    drawPdfText(page, left, top + 51, segment.label, { size: 7, color: PDF_MUTED_COLOR });
+  });
+}
+
+function drawAGP(page: PdfPage, data: ClinicianReportData, { glucoseUnit, labels }: ClinicianReportOptions, top: number, height: number): void {
+  const left = PDF_MARGIN + 30;
+  const width = CONTENT_WIDTH - 30;
+  const slots = data.agpStats.filter(stat => stat.count > 0);
+  const slotX = (timeSlot: string) => {
+    const [hours, minutes] = timeSlot.split(':').map(Number);
+    return left + ((hours * 60 + minutes) / 1440) * width;
+  };
+  const band = (upper: 'p90' | 'p75', lower: 'p10' | 'p25'): Array<[number, number]> => [
+    ...slots.map((stat): [number, number] => [slotX(stat.timeSlot), glucoseToY(stat[upper], top, height)]),
+    ...[...slots].reverse().map((stat): [number, number] => [slotX(stat.timeSlot), glucoseToY(stat[lower], top, height)]),
+  ];
+
+  drawPdfText(page, PDF_MARGIN, top - 10, labels.agpTitle, { size: 12, bold: true });
+  drawPdfText(page, PDF_PAGE_WIDTH - PDF_MARGIN, top - 10, labels.agpLegend, { size: 8, color: PDF_MUTED_COLOR, align: 'right' });
+  drawPdfRect(page, left, top, width, height, { stroke: PDF_GRID_COLOR, lineWidth: 0.5 });
+
+  drawPdfPath(page, band('p90', 'p10'), { fill: BAND_10_90 }, true);
+  drawPdfPath(page, band('p75', 'p25'), { fill: BAND_25_75 }, true);
+  drawPdfPath(page, slots.map(stat => [slotX(stat.timeSlot), glucoseToY(stat.p50, top, height)]), { stroke: MEDIAN_COLOR, lineWidth: 1.5 });
+
+  for (const threshold of [data.thresholds.low, data.thresholds.high]) {
+    const y = glucoseToY(threshold, top, height);
+    drawPdfLine(page, left, y, left + width, y, { stroke: TARGET_COLOR, lineWidth: 0.8 });
+  }
+  for (const threshold of [data.thresholds.veryLow, data.thresholds.low, data.thresholds.high, data.thresholds.veryHigh]) {
+    drawPdfText(page, left - 4, glucoseToY(threshold, top, height) + 3, displayGlucoseValue(threshold, glucoseUnit), { size: 7, color: PDF_MUTED_COLOR, align: 'right' });
+  }
+  for (let hour = 0; hour <= 24; hour += 3) {
+    const x = left + (hour / 24) * width;
+    drawPdfLine(page, x, top + height, x, top + height + 3, { stroke: PDF_GRID_COLOR, lineWidth: 0.5 });
+    drawPdfText(page, x, top + height + 12, `${String(hour % 24).padStart(2, '0')}:00`, { size: 7, color: PDF_MUTED_COLOR, align: 'center' });
+  }
+  drawPdfText(page, PDF_MARGIN, top + 8, getUnitLabel(glucoseUnit), { size: 7, color: PDF_MUTED_COLOR });
+}
+
+function drawDailyProfiles(page: PdfPage, data: ClinicianReportData, { labels }: ClinicianReportOptions, top: number): void {
+  const columns = 7;
+  const gap = 6;
+  const cellWidth = (CONTENT_WIDTH - gap * (columns - 1)) / columns;
+  const cellHeight = 80;
+
+  drawPdfText(page, PDF_MARGIN, top, labels.dailyProfilesTitle, { size: 12, bold: true });
+
+  data.dailyProfiles.forEach((day, index) => {
+    const left = PDF_MARGIN + (index % columns) * (cellWidth + gap);
+    const cellTop = top + 10 + Math.floor(index / columns) * (cellHeight + gap + 10);
+    const chartTop = cellTop + 12;
+    const chartHeight = cellHeight - 12;
+    const bandTop = glucoseToY(data.thresholds.high, chartTop, chartHeight);
+
+    drawPdfText(page, left, cellTop + 8, day.date, { size: 7, color: PDF_MUTED_COLOR });
+    drawPdfRect(page, left, bandTop, cellWidth, glucoseToY(data.thresholds.low, chartTop, chartHeight) - bandTop, { fill: TARGET_BAND });
+    drawPdfRect(page, left, chartTop, cellWidth, chartHeight, { stroke: PDF_GRID_COLOR, lineWidth: 0.5 });
+
+    // Break the line wherever an hour has no readings
+    let segment: Array<[number, number]> = [];
+    day.hourlyMeans.forEach((value, hour) => {
+      if (value !== null) {
+        segment.push([left + ((hour + 0.5) / 24) * cellWidth, glucoseToY(value, chartTop, chartHeight)]);
+      }
+      if ((value === null || hour === 23) && segment.length > 0) {
+        if (segment.length === 1) segment.push([segment[0][0] + 0.5, segment[0][1]]);
+        drawPdfPath(page, segment, { stroke: MEDIAN_COLOR, lineWidth: 1 });
+        segment = [];
+      }
+    });
+  });
+}
+
+/**
+ * Draw the page footer with disclaimer and page number
+ */
+function drawFooter(page: PdfPage, labels: ClinicianReportLabels, pageNumber: number): void {
+  const y = PDF_PAGE_HEIGHT - 24;
+  drawPdfLine(page, PDF_MARGIN, y - 12, PDF_PAGE_WIDTH - PDF_MARGIN, y - 12, { stroke: PDF_GRID_COLOR, lineWidth: 0.5 });
+  drawPdfText(page, PDF_MARGIN, y, labels.disclaimer, { size: 7, color: PDF_MUTED_COLOR });
+  drawPdfText(page, PDF_PAGE_WIDTH - PDF_MARGIN, y, `${labels.page} ${pageNumber}`, { size: 7, color: PDF_MUTED_COLOR, align: 'right' });
+}
+
+/**
+ * Render the clinician report as a PDF file
+ *
+ * @param data - Prepared report data (see prepareClinicianReportData)
+ * @param options - Display unit, translated labels and generation time
+ * @returns The PDF file contents
+ */
+export function renderClinicianReportPdf(data: ClinicianReportData, options: ClinicianReportOptions): Uint8Array {
+  const { labels, generatedAt } = options;
+  const summary = createPdfPage();
+
+  drawPdfText(summary, PDF_MARGIN, 52, labels.title, { size: 16, bold: true });
+  drawPdfText(summary, PDF_MARGIN, 68, `${labels.period}: ${data.startDate} – ${data.endDate}`, { size: 9, color: PDF_MUTED_COLOR });
+  drawPdfText(summary, PDF_PAGE_WIDTH - PDF_MARGIN, 68, `${labels.generated}: ${generatedAt.toLocaleString()}`, { size: 9, color: PDF_MUTED_COLOR, align: 'right' });
+
+  drawMetrics(summary, data, options, 80);
+  drawTimeInRange(summary, data, options, 168);
+  drawAGP(summary, data, options, 262, 250);
+  drawDailyProfiles(summary, data, options, 552);
+
+  const pages = [summary];
+  if (data.appendix) {
+    pages.push(...renderClinicianReportAppendix(data.appendix, options));
+  }
+  pages.forEach((page, index) => drawFooter(page, labels, index + 1));
+
+  return buildPdf(pages, labels.title);
+}
@@ -1,5 +1,5 @@
 /**
- * XLSX download utility
+ * File download utilities
  */
 
 /**
@@ -23,3 +23,43 @@ export function downloadXlsx(blob: Blob, fileName: string): void {
   document.body.removeChild(link);
   URL.revokeObjectURL(url);
 }
+
+/**
+ * Download PDF file to user's computer
+ * 
+ * @param content - The PDF file contents
+ * @param fileName - The desired file name (without extension)
+ */
+export function downloadPdf(content: Uint8Array, fileName: string): void {
+  const blob = new Blob([content as Uint8Array<ArrayBuffer>], { type: 'application/pdf' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}.pdf`;
+
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download Markdown file to user's computer
+ * 
+ * @param content - The Markdown text
+ * @param fileName - The desired file name (without extension)
+ */
+export function downloadMarkdown(content: string, fileName: string): void {
+  const blob = new Blob([content], { type: 'text/markdown;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}.md`;
+
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
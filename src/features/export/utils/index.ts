@@ -3,7 +3,7 @@
  */
 
 export { convertZipToXlsx } from './converter';
-export { downloadXlsx } from './download';
+export { downloadXlsx, downloadPdf, downloadMarkdown } from './download';
 export { 
   applyHeaderStyle, 
   calculateColumnWidth, 
@@ -22,3 +22,12 @@ export {
   populateSummaryWorksheet, 
   populateWorksheetFromCSV 
 } from './worksheet';
+export {
+  prepareClinicianReportData,
+  MAX_DAILY_PROFILES,
+  createClinicianReportLabels,
+  type ClinicianReportData,
+  type ClinicianReportLabels,
+  type ClinicianReportOptions,
+} from './clinicianReportData';
+export { renderClinicianReportPdf } from './clinicianReportPdf';
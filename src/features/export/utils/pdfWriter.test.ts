@@ -0,0 +1,93 @@
+/**
+ * Tests for the minimal PDF writer
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildPdf,
+  createPdfPage,
+  drawPdfPath,
+  drawPdfRect,
+  drawPdfText,
+  encodePdfText,
+  PDF_PAGE_HEIGHT,
+} from './pdfWriter';
+
+const decode = (bytes: Uint8Array): string => String.fromCharCode(...bytes);
+
+describe('encodePdfText', () => {
+  it('should escape PDF string delimiters', () => {
+    expect(encodePdfText('a (b) \\ c')).toBe('a \\(b\\) \\\\ c');
+  });
+
+  it('should keep Latin-1 characters and strip other accents', () => {
+    expect(encodePdfText('Glukóza über')).toBe('Glukóza über');
+    expect(encodePdfText('Čas v rozmezích')).toBe('Cas v rozmezích');
+  });
+
+  it('should map typographic characters and replace unsupported ones', () => {
+    expect(encodePdfText('4–10 ≥ 3')).toBe('4\x9610 >= 3');
+    expect(encodePdfText('血糖')).toBe('??');
+  });
+});
+
+describe('drawing', () => {
+  it('should convert top-left coordinates to PDF coordinates', () => {
+    const page = createPdfPage();
+    drawPdfRect(page, 10, 20, 30, 40, { fill: '#FF0000' });
+
+    expect(page.operations[0]).toContain(`10 ${Math.round((PDF_PAGE_HEIGHT - 60) * 100) / 100} 30 40 re`);
+    expect(page.operations[0]).toContain('1 0 0 rg');
+    expect(page.operations[0]).toMatch(/ f Q$/);
+  });
+
+  it('should right-align text', () => {
+    const page = createPdfPage();
+    drawPdfText(page, 100, 50, 'abc', { size: 10, align: 'right' });
+    drawPdfText(page, 100, 50, 'abc', { size: 10 });
+
+    const x = (operation: string) => Number(operation.split(' Td')[0].split(' ').slice(-2)[0]);
+    expect(x(page.operations[0])).toBeLessThan(x(page.operations[1]));
+  });
+
+  it('should ignore paths with fewer than two points', () => {
+    const page = createPdfPage();
+    drawPdfPath(page, [[0, 0]], { stroke: '#000000' });
+    expect(page.operations).toHaveLength(0);
+  });
+});
+
+describe('buildPdf', () => {
+  it('should produce a PDF with one page object per page', () => {
+    const pages = [createPdfPage(), createPdfPage()];
+    drawPdfText(pages[0], 40, 40, 'Hello');
+    const pdf = decode(buildPdf(pages, 'Report'));
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('/Count 2');
+    expect(pdf.match(/\/Type \/Page /g)).toHaveLength(2);
+    expect(pdf).toContain('(Hello) Tj');
+    expect(pdf).toContain('/Title (Report)');
+  });
+
+  it('should write correct cross-reference offsets', () => {
+    const pdf = decode(buildPdf([createPdfPage()], 'Report'));
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+
+    const entries = pdf.slice(xrefOffset).split('\n').slice(3).filter(line => line.endsWith(' n '));
+    entries.forEach((entry, index) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(pdf.slice(offset, offset + `${index + 1} 0 obj`.length)).toBe(`${index + 1} 0 obj`);
+    });
+  });
+
+  it('should declare stream lengths matching their content', () => {
+    const page = createPdfPage();
+    drawPdfText(page, 40, 40, 'Länge');
+    const pdf = decode(buildPdf([page], 'Report'));
+    const match = pdf.match(/<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/)!;
+    expect(match[2].length).toBe(Number(match[1]));
+  });
+});
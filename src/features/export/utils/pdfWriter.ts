@@ -0,0 +1,176 @@
+/**
+ * Minimal PDF writer
+ *
+ * Produces PDF 1.4 documents with vector shapes and text in the built-in
+ * Helvetica fonts, so reports can be generated fully offline without a PDF
+ * library. Coordinates are in points with the origin at the top-left corner.
+ */
+
+/** A4 page width in points */
+export const PDF_PAGE_WIDTH = 595.28;
+/** A4 page height in points */
+export const PDF_PAGE_HEIGHT = 841.89;
+/** Default page margin in points */
+export const PDF_MARGIN = 40;
+/** Secondary text color */
+export const PDF_MUTED_COLOR = '#605E5C';
+/** Axis, grid and divider color */
+export const PDF_GRID_COLOR = '#C8C6C4';
+
+export interface PdfPage {
+  /** Content stream operators, in drawing order */
+  operations: string[];
+}
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfShapeOptions {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+}
+
+/**
+ * Create an empty page
+ */
+export function createPdfPage(): PdfPage {
+  return { operations: [] };
+}
+
+const num = (value: number): string => (Math.round(value * 100) / 100).toString();
+const flipY = (y: number): number => PDF_PAGE_HEIGHT - y;
+
+/**
+ * Convert a #RRGGBB color to PDF RGB components
+ */
+function toRgb(hex: string): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  const channels = [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+  return channels.map(channel => num(channel / 255)).join(' ');
+}
+
+/**
+ * Encode text for the WinAnsi-encoded standard fonts
+ *
+ * Accents outside Latin-1 are stripped (č → c) and any remaining
+ * unsupported character is replaced with "?".
+ */
+export function encodePdfText(text: string): string {
+  const replacements: Record<string, string> = {
+    '–': '\x96', '—': '\x97', '•': '\x95', '…': '\x85', '≥': '>=', '≤': '<=', '·': '\xb7',
+  };
+  let result = '';
+  for (const char of text) {
+    if (replacements[char]) {
+      result += replacements[char];
+      continue;
+    }
+    const plain = char.charCodeAt(0) < 256 ? char : char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    result += plain.length === 1 && plain.charCodeAt(0) < 256 ? plain : '?';
+  }
+  return result.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+/**
+ * Approximate the rendered width of Helvetica text in points
+ */
+export function estimatePdfTextWidth(text: string, size: number, bold = false): number {
+  return text.length * size * (bold ? 0.56 : 0.52);
+}
+
+/**
+ * Draw a single line of text; y is the text baseline
+ */
+export function drawPdfText(page: PdfPage, x: number, y: number, text: string, options: PdfTextOptions = {}): void {
+  const { size = 10, bold = false, color = '#000000', align = 'left' } = options;
+  const width = estimatePdfTextWidth(text, size, bold);
+  const left = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+  page.operations.push(
+    `BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${toRgb(color)} rg ${num(left)} ${num(flipY(y))} Td (${encodePdfText(text)}) Tj ET`
+  );
+}
+
+/**
+ * Draw a rectangle with its top-left corner at (x, y)
+ */
+export function drawPdfRect(page: PdfPage, x: number, y: number, width: number, height: number, options: PdfShapeOptions): void {
+  paint(page, `${num(x)} ${num(flipY(y + height))} ${num(width)} ${num(height)} re`, options, true);
+}
+
+/**
+ * Draw a straight line
+ */
+export function drawPdfLine(page: PdfPage, x1: number, y1: number, x2: number, y2: number, options: PdfShapeOptions): void {
+  paint(page, `${num(x1)} ${num(flipY(y1))} m ${num(x2)} ${num(flipY(y2))} l`, options, false);
+}
+
+/**
+ * Draw an open (polyline) or closed (polygon) path through the given points
+ */
+export function drawPdfPath(page: PdfPage, points: Array<[number, number]>, options: PdfShapeOptions, closed = false): void {
+  if (points.length < 2) return;
+  const [first, ...rest] = points;
+  const segments = rest.map(([x, y]) => `${num(x)} ${num(flipY(y))} l`).join(' ');
+  paint(page, `${num(first[0])} ${num(flipY(first[1]))} m ${segments}${closed ? ' h' : ''}`, options, closed);
+}
+
+/**
+ * Fill and/or stroke a path with its own graphics state
+ */
+function paint(page: PdfPage, path: string, { fill, stroke, lineWidth = 1 }: PdfShapeOptions, closed: boolean): void {
+  const state = [`${num(lineWidth)} w`];
+  if (fill) state.push(`${toRgb(fill)} rg`);
+  if (stroke) state.push(`${toRgb(stroke)} RG`);
+  const operator = fill && closed ? (stroke ? 'B' : 'f') : 'S';
+  page.operations.push(`q ${state.join(' ')} ${path} ${operator} Q`);
+}
+
+/**
+ * Serialize pages into a complete PDF file
+ *
+ * @param pages - Pages in document order
+ * @param title - Document title stored in the PDF metadata
+ * @returns The PDF file contents
+ */
+export function buildPdf(pages: PdfPage[], title: string): Uint8Array {
+  const objects: string[] = [];
+  const pageCount = Math.max(pages.length, 1);
+  const firstPageObject = 5;
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  const kids = Array.from({ length: pageCount }, (_, i) => `${firstPageObject + i * 2} 0 R`).join(' ');
+  objects.push(`<< /Type /Pages /Kids [${kids}] /Count ${pageCount} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  for (let i = 0; i < pageCount; i++) {
+    const content = (pages[i]?.operations ?? []).join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${firstPageObject + i * 2 + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  }
+  const infoObject = objects.length + 1;
+  objects.push(`<< /Title (${encodePdfText(title)}) /Producer (GlookoDataWebApp) >>`);
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoObject} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  // Every character is a single WinAnsi byte, so string offsets equal byte offsets
+  return Uint8Array.from(output, char => char.charCodeAt(0));
+}
@@ -21,7 +21,7 @@ const STORAGE_KEY = 'glooko-active-ai-provider';
 function getProviderFromStorage(): AIProvider | null {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored && ['perplexity', 'gemini', 'grok', 'deepseek'].includes(stored)) {
+    if (stored && ['perplexity', 'gemini', 'grok', 'deepseek', 'custom'].includes(stored)) {
       return stored as AIProvider;
     }
   } catch (error) {
@@ -0,0 +1,133 @@
+/**
+ * Tests for useAnnotations hook
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useAnnotations } from './useAnnotations';
+import type { DataAnnotation } from '../types';
+
+// Mock the IndexedDB cache
+vi.mock('../utils/fileCache', () => ({
+  loadAllAnnotations: vi.fn(),
+  saveDatasetAnnotations: vi.fn(),
+}));
+
+import { loadAllAnnotations, saveDatasetAnnotations } from '../utils/fileCache';
+
+const mockLoadAllAnnotations = vi.mocked(loadAllAnnotations);
+const mockSaveDatasetAnnotations = vi.mocked(saveDatasetAnnotations);
+
+const DATASET = 'export.zip|1234';
+const stored: DataAnnotation = { id: 'a1', date: '2024-01-15', time: '19:30', tag: 'pizza', note: '' };
+
+describe('useAnnotations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLoadAllAnnotations.mockResolvedValue({ [DATASET]: [stored] });
+    mockSaveDatasetAnnotations.mockResolvedValue();
+  });
+
+  it('should load stored annotations on mount', async () => {
+    const { result } = renderHook(() => useAnnotations());
+
+    await waitFor(() => {
+      expect(result.current.annotations[DATASET]).toEqual([stored]);
+    });
+  });
+
+  it('should add an annotation with a new ID and save the dataset', async () => {
+    const { result } = renderHook(() => useAnnotations());
+    await waitFor(() => expect(result.current.annotations[DATASET]).toHaveLength(1));
+
+    act(() => {
+      result.current.addAnnotation(DATASET, { date: '2024-01-14', tag: 'sick', note: 'Flu' });
+    });
+
+    const list = result.current.annotations[DATASET];
+    expect(list).toHaveLength(2);
+    expect(list[0]).toMatchObject({ date: '2024-01-14', tag: 'sick', note: 'Flu' });
+    expect(list[0].id).not.toBe('');
+    expect(mockSaveDatasetAnnotations).toHaveBeenCalledWith(DATASET, list);
+  });
+
+  it('should remove an annotation, drop empty datasets and keep a tombstone', async () => {
+    const { result } = renderHook(() => useAnnotations());
+    await waitFor(() => expect(result.current.annotations[DATASET]).toHaveLength(1));
+
+    act(() => {
+      result.current.removeAnnotation(DATASET, 'a1');
+    });
+
+    expect(result.current.annotations[DATASET]).toBeUndefined();
+    const [tombstone] = result.current.allAnnotations[DATASET];
+    expect(tombstone).toMatchObject({ id: 'a1', note: '' });
+    expect(tombstone.deletedAt).toBeDefined();
+    expect(mockSaveDatasetAnnotations).toHaveBeenCalledWith(DATASET, [tombstone]);
+  });
+
+  it('should not bring back a removed annotation when merging cloud annotations', async () => {
+    const { result } = renderHook(() => useAnnotations());
+    await waitFor(() => expect(result.current.annotations[DATASET]).toHaveLength(1));
+
+    act(() => {
+      result.current.removeAnnotation(DATASET, 'a1');
+    });
+    // Another device still has the annotation
+    const remote: DataAnnotation = { id: 'a2', date: '2024-01-16', tag: 'alcohol', note: '' };
+    act(() => {
+      result.current.mergeCloudAnnotations({ [DATASET]: [stored, remote] });
+    });
+
+    expect(result.current.annotations[DATASET]).toEqual([remote]);
+    expect(result.current.allAnnotations[DATASET].find(annotation => annotation.id === 'a1')?.deletedAt).toBeDefined();
+  });
+
+  it('should remove an annotation deleted on another device', async () => {
+    const { result } = renderHook(() => useAnnotations());
+    await waitFor(() => expect(result.current.annotations[DATASET]).toHaveLength(1));
+
+    act(() => {
+      result.current.mergeCloudAnnotations({ [DATASET]: [{ ...stored, deletedAt: '2024-02-01T10:00:00.000Z' }] });
+    });
+
+    expect(result.current.annotations[DATASET]).toBeUndefined();
+  });
+
+  it('should merge cloud annotations into local ones', async () => {
+    const { result } = renderHook(() => useAnnotations());
+    await waitFor(() => expect(result.current.annotations[DATASET]).toHaveLength(1));
+
+    const remote: DataAnnotation = { id: 'a2', date: '2024-01-16', tag: 'alcohol', note: '' };
+    act(() => {
+      result.current.mergeCloudAnnotations({ [DATASET]: [remote], 'other.zip|1': [] });
+    });
+
+    expect(result.current.annotations[DATASET]).toEqual([stored, remote]);
+    expect(result.current.annotations['other.zip|1']).toBeUndefined();
+    expect(mockSaveDatasetAnnotations).toHaveBeenCalledTimes(1);
+  });
+
+  it('should save changes made before the stored annotations are loaded merged with them', async () => {
+    let resolveLoad: (value: Record<string, DataAnnotation[]>) => void = () => {};
+    mockLoadAllAnnotations.mockReturnValue(new Promise(resolve => {
+      resolveLoad = resolve;
+    }));
+    const { result } = renderHook(() => useAnnotations());
+
+    const remote: DataAnnotation = { id: 'a2', date: '2024-01-16', tag: 'alcohol', note: '' };
+    act(() => {
+      result.current.mergeCloudAnnotations({ [DATASET]: [remote] });
+    });
+    // Saving now would replace the stored annotations with the remote ones
+    expect(mockSaveDatasetAnnotations).not.toHaveBeenCalled();
+
+    await act(async () => {
+      resolveLoad({ [DATASET]: [stored] });
+    });
+
+    expect(result.current.annotations[DATASET]).toEqual([stored, remote]);
+    expect(mockSaveDatasetAnnotations).toHaveBeenCalledTimes(1);
+    expect(mockSaveDatasetAnnotations).toHaveBeenCalledWith(DATASET, [stored, remote]);
+  });
+});
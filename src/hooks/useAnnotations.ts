@@ -0,0 +1,136 @@
+/**
+ * Custom hook for managing user annotations of all datasets
+ *
+ * Annotations are kept in IndexedDB next to the cached files (see
+ * fileCache.ts), by dataset key. Annotations loaded from cloud settings are
+ * merged into the local ones by ID. Removed annotations are kept as
+ * tombstones, so the removal is synced instead of undone by the cloud copy.
+ * Saving replaces the stored annotations of a dataset, so changes made before
+ * the stored annotations are loaded are only saved once merged with them.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { DataAnnotation } from '../types';
+import { loadAllAnnotations, saveDatasetAnnotations } from '../utils/fileCache';
+import {
+  createAnnotationTombstone,
+  getActiveAnnotations,
+  mergeAnnotations,
+  normalizeAnnotations,
+} from '../utils/data/annotationUtils';
+
+export interface UseAnnotationsReturn {
+  /** Annotations by dataset key (without deleted ones) */
+  annotations: Record<string, DataAnnotation[]>;
+  /** Annotations by dataset key including tombstones of deleted ones, for cloud sync */
+  allAnnotations: Record<string, DataAnnotation[]>;
+  addAnnotation: (datasetKey: string, annotation: Omit<DataAnnotation, 'id'>) => void;
+  removeAnnotation: (datasetKey: string, id: string) => void;
+  mergeCloudAnnotations: (cloudAnnotations: Record<string, DataAnnotation[]>) => void;
+}
+
+/**
+ * Create a new annotation ID
+ */
+function createAnnotationId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Persist the annotations of one dataset (errors are logged by fileCache)
+ */
+function persist(datasetKey: string, annotations: DataAnnotation[]): void {
+  saveDatasetAnnotations(datasetKey, annotations).catch(() => {
+    // Annotations stay in memory for this session
+  });
+}
+
+/**
+ * Hook to manage user annotations
+ * Loads annotations from IndexedDB on mount and saves every change
+ */
+export function useAnnotations(): UseAnnotationsReturn {
+  const [annotations, setAnnotations] = useState<Record<string, DataAnnotation[]>>({});
+  const annotationsRef = useRef(annotations);
+  const loadedRef = useRef(false);
+  // Datasets changed before the stored annotations were loaded
+  const pendingKeysRef = useRef(new Set<string>());
+
+  const update = useCallback((next: Record<string, DataAnnotation[]>) => {
+    annotationsRef.current = next;
+    setAnnotations(next);
+  }, []);
+
+  const save = useCallback((datasetKey: string, list: DataAnnotation[]) => {
+    if (loadedRef.current) {
+      persist(datasetKey, list);
+    } else {
+      pendingKeysRef.current.add(datasetKey);
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAllAnnotations().then(stored => {
+      if (cancelled) return;
+      // Annotations may already have been added or loaded from the cloud
+      const next = { ...stored };
+      for (const [datasetKey, list] of Object.entries(annotationsRef.current)) {
+        next[datasetKey] = mergeAnnotations(stored[datasetKey] ?? [], list);
+      }
+      update(next);
+      loadedRef.current = true;
+      pendingKeysRef.current.forEach(datasetKey => persist(datasetKey, next[datasetKey]));
+      pendingKeysRef.current.clear();
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [update]);
+
+  const addAnnotation = useCallback((datasetKey: string, annotation: Omit<DataAnnotation, 'id'>) => {
+    const [added] = normalizeAnnotations([{ ...annotation, id: createAnnotationId() }]);
+    if (!added) return;
+    const list = mergeAnnotations(annotationsRef.current[datasetKey] ?? [], [added]);
+    update({ ...annotationsRef.current, [datasetKey]: list });
+    save(datasetKey, list);
+  }, [update, save]);
+
+  const removeAnnotation = useCallback((datasetKey: string, id: string) => {
+    const list = (annotationsRef.current[datasetKey] ?? []).map(annotation =>
+      annotation.id === id && !annotation.deletedAt ? createAnnotationTombstone(annotation) : annotation
+    );
+    update({ ...annotationsRef.current, [datasetKey]: list });
+    save(datasetKey, list);
+  }, [update, save]);
+
+  const mergeCloudAnnotations = useCallback((cloudAnnotations: Record<string, DataAnnotation[]>) => {
+    const next = { ...annotationsRef.current };
+    for (const [datasetKey, value] of Object.entries(cloudAnnotations)) {
+      const remote = normalizeAnnotations(value);
+      if (remote.length === 0) continue;
+      next[datasetKey] = mergeAnnotations(next[datasetKey] ?? [], remote);
+      save(datasetKey, next[datasetKey]);
+    }
+    update(next);
+  }, [update, save]);
+
+  const activeAnnotations = useMemo(() => {
+    const active: Record<string, DataAnnotation[]> = {};
+    for (const [datasetKey, list] of Object.entries(annotations)) {
+      const activeList = getActiveAnnotations(list);
+      if (activeList.length > 0) {
+        active[datasetKey] = activeList;
+      }
+    }
+    return active;
+  }, [annotations]);
+
+  return {
+    annotations: activeAnnotations,
+    allAnnotations: annotations,
+    addAnnotation,
+    removeAnnotation,
+    mergeCloudAnnotations,
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * Tests for useCustomAIProvider hook
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useCustomAIProvider, normalizeCustomProviderSettings } from './useCustomAIProvider';
+
+describe('useCustomAIProvider', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should initialize with empty settings when no stored value', () => {
+    const { result } = renderHook(() => useCustomAIProvider());
+    expect(result.current.customProvider).toEqual({ baseUrl: '', model: '', apiKey: '' });
+  });
+
+  it('should load stored settings', () => {
+    localStorage.setItem('glooko-custom-ai-provider', JSON.stringify({
+      baseUrl: 'http://localhost:11434/v1',
+      model: 'llama3.1',
+      apiKey: '',
+    }));
+
+    const { result } = renderHook(() => useCustomAIProvider());
+    expect(result.current.customProvider.baseUrl).toBe('http://localhost:11434/v1');
+    expect(result.current.customProvider.model).toBe('llama3.1');
+  });
+
+  it('should update and persist individual fields', () => {
+    const { result } = renderHook(() => useCustomAIProvider());
+
+    act(() => {
+      result.current.updateCustomProvider({ baseUrl: 'http://192.168.1.10:8080/v1' });
+    });
+    act(() => {
+      result.current.updateCustomProvider({ model: 'qwen2.5' });
+    });
+
+    expect(result.current.customProvider).toEqual({
+      baseUrl: 'http://192.168.1.10:8080/v1',
+      model: 'qwen2.5',
+      apiKey: '',
+    });
+    expect(JSON.parse(localStorage.getItem('glooko-custom-ai-provider')!)).toEqual(result.current.customProvider);
+  });
+
+  it('should fall back to empty settings for invalid stored data', () => {
+    localStorage.setItem('glooko-custom-ai-provider', 'not json');
+
+    const { result } = renderHook(() => useCustomAIProvider());
+    expect(result.current.customProvider).toEqual({ baseUrl: '', model: '', apiKey: '' });
+  });
+});
+
+describe('normalizeCustomProviderSettings', () => {
+  it('should replace non-string values with empty strings', () => {
+    expect(normalizeCustomProviderSettings({ baseUrl: 42, model: 'llama3.1' })).toEqual({
+      baseUrl: '',
+      model: 'llama3.1',
+      apiKey: '',
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Custom hook for managing the custom OpenAI-compatible AI provider
+ *
+ * The base URL, model and optional API key are stored in localStorage. Like
+ * the API keys of the other providers they are not synced to the cloud, as the
+ * endpoint is usually only reachable from the user's own network.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { DEFAULT_CUSTOM_PROVIDER_SETTINGS, type CustomProviderSettings } from '../utils/api';
+
+const STORAGE_KEY = 'glooko-custom-ai-provider';
+
+/**
+ * Normalize stored custom provider settings
+ *
+ * @param value - Stored settings (parsed JSON, may be of any shape)
+ * @returns Settings with string values (empty when missing)
+ */
+export function normalizeCustomProviderSettings(value: unknown): CustomProviderSettings {
+  if (!value || typeof value !== 'object') {
+    return { ...DEFAULT_CUSTOM_PROVIDER_SETTINGS };
+  }
+
+  const { baseUrl, model, apiKey } = value as Partial<CustomProviderSettings>;
+  return {
+    baseUrl: typeof baseUrl === 'string' ? baseUrl : '',
+    model: typeof model === 'string' ? model : '',
+    apiKey: typeof apiKey === 'string' ? apiKey : '',
+  };
+}
+
+/**
+ * Load the custom provider settings from localStorage
+ */
+function loadCustomProviderSettings(): CustomProviderSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return normalizeCustomProviderSettings(stored ? JSON.parse(stored) : null);
+  } catch {
+    return normalizeCustomProviderSettings(null);
+  }
+}
+
+export interface UseCustomAIProviderReturn {
+  customProvider: CustomProviderSettings;
+  /** Change the base URL, model and/or API key */
+  updateCustomProvider: (changes: Partial<CustomProviderSettings>) => void;
+}
+
+/**
+ * Hook to manage the custom AI provider settings
+ */
+export function useCustomAIProvider(): UseCustomAIProviderReturn {
+  const [customProvider, setCustomProvider] = useState<CustomProviderSettings>(loadCustomProviderSettings);
+
+  // Sync to localStorage when value changes
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(customProvider));
+    } catch (error) {
+      console.error('Failed to save custom AI provider to localStorage:', error);
+    }
+  }, [customProvider]);
+
+  const updateCustomProvider = useCallback((changes: Partial<CustomProviderSettings>) => {
+    setCustomProvider(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  return {
+    customProvider,
+    updateCustomProvider,
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Tests for useEventLog hook
+ */
+
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useEventLog, normalizeEventLog } from './useEventLog';
+
+describe('normalizeEventLog', () => {
+  it('should return an empty log for invalid input', () => {
+    expect(normalizeEventLog(null)).toEqual([]);
+    expect(normalizeEventLog({ date: '2024-01-01', category: 'illness' })).toEqual([]);
+  });
+
+  it('should drop invalid entries and sort by date', () => {
+    expect(normalizeEventLog([
+      { date: '2024-03-01', category: 'illness', note: 'Flu' },
+      { date: '1 March', category: 'illness', note: '' },
+      { date: '2024-03-02', category: 'holiday', note: '' },
+      { date: '2024-01-15', category: 'pumpChange' },
+    ])).toEqual([
+      { date: '2024-01-15', category: 'pumpChange', note: '' },
+      { date: '2024-03-01', category: 'illness', note: 'Flu' },
+    ]);
+  });
+});
+
+describe('useEventLog', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should add, remove and persist events', () => {
+    const { result } = renderHook(() => useEventLog());
+    expect(result.current.events).toEqual([]);
+
+    act(() => {
+      result.current.addEvent({ date: '2024-02-01', category: 'sensorChange', note: 'New sensor brand' });
+      result.current.addEvent({ date: '2024-01-10', category: 'illness', note: 'Cold' });
+    });
+
+    expect(result.current.events.map(event => event.date)).toEqual(['2024-01-10', '2024-02-01']);
+
+    act(() => {
+      result.current.removeEvent(0);
+    });
+
+    const { result: reloaded } = renderHook(() => useEventLog());
+    expect(reloaded.current.events).toEqual([{ date: '2024-02-01', category: 'sensorChange', note: 'New sensor brand' }]);
+  });
+});
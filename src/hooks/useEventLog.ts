@@ -0,0 +1,98 @@
+/**
+ * Custom hook for managing the user's event log shown on the trends report
+ *
+ * Events such as a pump change, a new sensor brand or an illness are stored
+ * in localStorage, sorted by date.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { EventLogCategory, EventLogEntry } from '../types';
+
+const STORAGE_KEY = 'eventLog';
+
+/**
+ * All event categories in the order they are offered
+ */
+export const EVENT_LOG_CATEGORIES: EventLogCategory[] = ['pumpChange', 'sensorChange', 'insulinChange', 'illness', 'other'];
+
+/**
+ * Maximum length of an event note
+ */
+export const MAX_EVENT_NOTE_LENGTH = 200;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Normalize a stored event log
+ *
+ * Entries without a YYYY-MM-DD date or with an unknown category are
+ * dropped, notes are cut to 200 characters and the log is sorted by date.
+ *
+ * @param value - Stored log (parsed JSON, may be of any shape)
+ * @returns Valid events sorted by date
+ */
+export function normalizeEventLog(value: unknown): EventLogEntry[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((entry): entry is EventLogEntry => {
+      if (!entry || typeof entry !== 'object') return false;
+      const { date, category, note } = entry as Partial<EventLogEntry>;
+      return typeof date === 'string'
+        && DATE_PATTERN.test(date)
+        && typeof category === 'string'
+        && (EVENT_LOG_CATEGORIES as string[]).includes(category)
+        && (note === undefined || typeof note === 'string');
+    })
+    .map(({ date, category, note }) => ({ date, category, note: (note ?? '').slice(0, MAX_EVENT_NOTE_LENGTH) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Load the event log from localStorage
+ */
+function loadEventLog(): EventLogEntry[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return normalizeEventLog(stored ? JSON.parse(stored) : null);
+  } catch {
+    return [];
+  }
+}
+
+export interface UseEventLogReturn {
+  /** Events sorted by date */
+  events: EventLogEntry[];
+  /** Add an event */
+  addEvent: (event: EventLogEntry) => void;
+  /** Remove the event at an index of `events` */
+  removeEvent: (index: number) => void;
+}
+
+/**
+ * Hook to manage the event log
+ */
+export function useEventLog(): UseEventLogReturn {
+  const [events, setEvents] = useState<EventLogEntry[]>(loadEventLog);
+
+  // Sync to localStorage when value changes
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(events));
+  }, [events]);
+
+  const addEvent = useCallback((event: EventLogEntry) => {
+    setEvents(prev => normalizeEventLog([...prev, event]));
+  }, []);
+
+  const removeEvent = useCallback((index: number) => {
+    setEvents(prev => prev.filter((_, i) => i !== index));
+  }, []);
+
+  return {
+    events,
+    addEvent,
+    removeEvent,
+  };
+}
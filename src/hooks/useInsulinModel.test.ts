@@ -0,0 +1,48 @@
+/**
+ * Tests for useInsulinModel hook
+ */
+
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useInsulinModel, normalizeInsulinModelSettings } from './useInsulinModel';
+import { DEFAULT_INSULIN_MODEL_SETTINGS } from '../utils/data/insulinModelUtils';
+
+describe('normalizeInsulinModelSettings', () => {
+  it('should return defaults for invalid input', () => {
+    expect(normalizeInsulinModelSettings(null)).toEqual(DEFAULT_INSULIN_MODEL_SETTINGS);
+    expect(normalizeInsulinModelSettings({ model: 'quadratic', preset: 'slow', peakMinutes: 'soon' })).toEqual(DEFAULT_INSULIN_MODEL_SETTINGS);
+  });
+
+  it('should clamp the custom peak time', () => {
+    expect(normalizeInsulinModelSettings({ model: 'exponential', preset: 'custom', peakMinutes: 5 }).peakMinutes).toBe(30);
+    expect(normalizeInsulinModelSettings({ model: 'exponential', preset: 'custom', peakMinutes: 64.6 }).peakMinutes).toBe(65);
+  });
+});
+
+describe('useInsulinModel', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should default to the linear model', () => {
+    const { result } = renderHook(() => useInsulinModel());
+    expect(result.current.insulinModel).toEqual(DEFAULT_INSULIN_MODEL_SETTINGS);
+  });
+
+  it('should update and persist changes', () => {
+    const { result } = renderHook(() => useInsulinModel());
+
+    act(() => {
+      result.current.setInsulinModelType('exponential');
+      result.current.setInsulinPeakPreset('custom');
+      result.current.setInsulinPeakMinutes(65);
+    });
+
+    const expected = { model: 'exponential', preset: 'custom', peakMinutes: 65 };
+    expect(result.current.insulinModel).toEqual(expected);
+    expect(JSON.parse(localStorage.getItem('insulinModelSettings') ?? '{}')).toEqual(expected);
+
+    const { result: reloaded } = renderHook(() => useInsulinModel());
+    expect(reloaded.current.insulinModel).toEqual(expected);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Custom hook for managing the insulin activity model used for IOB calculations
+ *
+ * The model, peak preset and custom peak time are stored in localStorage and
+ * synced to the cloud with the other user settings. The insulin duration is
+ * managed separately by useInsulinDuration.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  DEFAULT_INSULIN_MODEL_SETTINGS,
+  MAX_PEAK_MINUTES,
+  MIN_PEAK_MINUTES,
+} from '../utils/data/insulinModelUtils';
+import type { InsulinModelSettings, InsulinModelType, InsulinPeakPreset } from '../types';
+
+const STORAGE_KEY = 'insulinModelSettings';
+
+const MODELS: InsulinModelType[] = ['linear', 'exponential', 'biexponential'];
+const PRESETS: InsulinPeakPreset[] = ['rapidActing', 'ultraRapid', 'custom'];
+
+/**
+ * Normalize stored insulin model settings
+ *
+ * Unknown models and presets fall back to the defaults; the custom peak is
+ * rounded and clamped to the supported range.
+ *
+ * @param value - Stored settings (parsed JSON, may be of any shape)
+ * @returns Valid insulin model settings
+ */
+export function normalizeInsulinModelSettings(value: unknown): InsulinModelSettings {
+  if (!value || typeof value !== 'object') {
+    return { ...DEFAULT_INSULIN_MODEL_SETTINGS };
+  }
+
+  const { model, preset, peakMinutes } = value as Partial<InsulinModelSettings>;
+  return {
+    model: model && MODELS.includes(model) ? model : DEFAULT_INSULIN_MODEL_SETTINGS.model,
+    preset: preset && PRESETS.includes(preset) ? preset : DEFAULT_INSULIN_MODEL_SETTINGS.preset,
+    peakMinutes: typeof peakMinutes === 'number' && isFinite(peakMinutes)
+      ? Math.min(MAX_PEAK_MINUTES, Math.max(MIN_PEAK_MINUTES, Math.round(peakMinutes)))
+      : DEFAULT_INSULIN_MODEL_SETTINGS.peakMinutes,
+  };
+}
+
+/**
+ * Load insulin model settings from localStorage
+ */
+function loadInsulinModelSettings(): InsulinModelSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return normalizeInsulinModelSettings(stored ? JSON.parse(stored) : null);
+  } catch {
+    return normalizeInsulinModelSettings(null);
+  }
+}
+
+export interface UseInsulinModelReturn {
+  insulinModel: InsulinModelSettings;
+  /** Replace all insulin model settings (e.g. from cloud settings) */
+  setInsulinModel: (settings: InsulinModelSettings) => void;
+  /** Set the insulin activity curve */
+  setInsulinModelType: (model: InsulinModelType) => void;
+  /** Set the peak time preset */
+  setInsulinPeakPreset: (preset: InsulinPeakPreset) => void;
+  /** Set the custom peak time in minutes */
+  setInsulinPeakMinutes: (peakMinutes: number) => void;
+}
+
+/**
+ * Hook to manage the insulin activity model setting
+ */
+export function useInsulinModel(): UseInsulinModelReturn {
+  const [insulinModel, setInsulinModelState] = useState<InsulinModelSettings>(loadInsulinModelSettings);
+
+  // Sync to localStorage when value changes
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(insulinModel));
+  }, [insulinModel]);
+
+  const update = useCallback((change: (prev: InsulinModelSettings) => InsulinModelSettings) => {
+    setInsulinModelState(prev => normalizeInsulinModelSettings(change(prev)));
+  }, []);
+
+  const setInsulinModel = useCallback((settings: InsulinModelSettings) => {
+    update(() => settings);
+  }, [update]);
+
+  const setInsulinModelType = useCallback((model: InsulinModelType) => {
+    update(prev => ({ ...prev, model }));
+  }, [update]);
+
+  const setInsulinPeakPreset = useCallback((preset: InsulinPeakPreset) => {
+    update(prev => ({ ...prev, preset }));
+  }, [update]);
+
+  const setInsulinPeakMinutes = useCallback((peakMinutes: number) => {
+    update(prev => ({ ...prev, peakMinutes }));
+  }, [update]);
+
+  return {
+    insulinModel,
+    setInsulinModel,
+    setInsulinModelType,
+    setInsulinPeakPreset,
+    setInsulinPeakMinutes,
+  };
+}
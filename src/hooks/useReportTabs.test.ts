@@ -0,0 +1,117 @@
+/**
+ * Tests for useReportTabs hook
+ */
+
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useReportTabs, normalizeReportTabs, DEFAULT_REPORT_TABS, REPORT_TAB_IDS } from './useReportTabs';
+
+describe('normalizeReportTabs', () => {
+  it('should return defaults for invalid input', () => {
+    expect(normalizeReportTabs(null)).toEqual(DEFAULT_REPORT_TABS);
+    expect(normalizeReportTabs('agp')).toEqual(DEFAULT_REPORT_TABS);
+  });
+
+  it('should keep stored order and append missing reports', () => {
+    const tabs = normalizeReportTabs([
+      { id: 'agp', visible: true },
+      { id: 'bgOverview', visible: false },
+    ]);
+
+    expect(tabs.slice(0, 2)).toEqual([
+      { id: 'agp', visible: true },
+      { id: 'bgOverview', visible: false },
+    ]);
+    expect(tabs.map(tab => tab.id).sort()).toEqual([...REPORT_TAB_IDS].sort());
+  });
+
+  it('should drop unknown and duplicate entries', () => {
+    const tabs = normalizeReportTabs([
+      { id: 'unknown', visible: true },
+      { id: 'iob', visible: true },
+      { id: 'iob', visible: false },
+      'hypos',
+    ]);
+
+    expect(tabs[0]).toEqual({ id: 'iob', visible: true });
+    expect(tabs.filter(tab => tab.id === 'iob')).toHaveLength(1);
+    expect(tabs).toHaveLength(REPORT_TAB_IDS.length);
+  });
+
+  it('should keep at least one report visible', () => {
+    const tabs = normalizeReportTabs(REPORT_TAB_IDS.map(id => ({ id, visible: false })));
+    expect(tabs.filter(tab => tab.visible)).toHaveLength(1);
+  });
+});
+
+describe('useReportTabs', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should return defaults when nothing is stored', () => {
+    const { result } = renderHook(() => useReportTabs());
+    expect(result.current.reportTabs).toEqual(DEFAULT_REPORT_TABS);
+  });
+
+  it('should load stored settings from localStorage', () => {
+    localStorage.setItem('reportTabs', JSON.stringify([{ id: 'iob', visible: true }]));
+    const { result } = renderHook(() => useReportTabs());
+    expect(result.current.reportTabs[0]).toEqual({ id: 'iob', visible: true });
+  });
+
+  it('should fall back to defaults for corrupt storage', () => {
+    localStorage.setItem('reportTabs', '{not json');
+    const { result } = renderHook(() => useReportTabs());
+    expect(result.current.reportTabs).toEqual(DEFAULT_REPORT_TABS);
+  });
+
+  it('should show and hide reports and persist the change', () => {
+    const { result } = renderHook(() => useReportTabs());
+
+    act(() => {
+      result.current.setReportTabVisible('iob', true);
+    });
+
+    expect(result.current.reportTabs.find(tab => tab.id === 'iob')?.visible).toBe(true);
+    expect(JSON.parse(localStorage.getItem('reportTabs')!)).toContainEqual({ id: 'iob', visible: true });
+  });
+
+  it('should not hide the last visible report', () => {
+    localStorage.setItem('reportTabs', JSON.stringify(
+      REPORT_TAB_IDS.map(id => ({ id, visible: id === 'hypos' }))
+    ));
+    const { result } = renderHook(() => useReportTabs());
+
+    act(() => {
+      result.current.setReportTabVisible('hypos', false);
+    });
+
+    expect(result.current.reportTabs.find(tab => tab.id === 'hypos')?.visible).toBe(true);
+  });
+
+  it('should move reports up and down', () => {
+    const { result } = renderHook(() => useReportTabs());
+
+    act(() => {
+      result.current.moveReportTab('dailyBG', -1);
+    });
+    expect(result.current.reportTabs.slice(0, 2).map(tab => tab.id)).toEqual(['dailyBG', 'bgOverview']);
+
+    act(() => {
+      result.current.moveReportTab('dailyBG', -1);
+    });
+    expect(result.current.reportTabs[0].id).toBe('dailyBG');
+  });
+
+  it('should reset to defaults', () => {
+    const { result } = renderHook(() => useReportTabs());
+
+    act(() => {
+      result.current.moveReportTab('iob', -1);
+      result.current.resetReportTabs();
+    });
+
+    expect(result.current.reportTabs).toEqual(DEFAULT_REPORT_TABS);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Custom hook for managing the report catalogue on the Reports page
+ *
+ * Users can show, hide and reorder report tabs. The choice is stored in
+ * localStorage and synced to the cloud together with the other user settings.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ReportTabId, ReportTabSetting } from '../types';
+
+const STORAGE_KEY = 'reportTabs';
+
+/**
+ * All available reports in their default order, with default visibility
+ */
+export const DEFAULT_REPORT_TABS: ReportTabSetting[] = [
+  { id: 'bgOverview', visible: true },
+  { id: 'dailyBG', visible: true },
+  { id: 'hypos', visible: true },
+  { id: 'meals', visible: true },
+  { id: 'agp', visible: true },
+  { id: 'trends', visible: true },
+  { id: 'bgValues', visible: false },
+  { id: 'inRange', visible: false },
+  { id: 'unifiedDaily', visible: false },
+  { id: 'insulinDaily', visible: false },
+  { id: 'iob', visible: false },
+];
+
+/**
+ * Identifiers of all reports in the catalogue
+ */
+export const REPORT_TAB_IDS: ReportTabId[] = DEFAULT_REPORT_TABS.map(tab => tab.id);
+
+/**
+ * Check whether a string is a known report tab identifier
+ */
+export function isReportTabId(value: string): value is ReportTabId {
+  return (REPORT_TAB_IDS as string[]).includes(value);
+}
+
+/**
+ * Normalize stored report tab settings
+ *
+ * Unknown or duplicate entries are dropped, reports missing from the stored
+ * list (e.g. added in a later version) are appended with their default
+ * visibility, and at least one report is always visible.
+ *
+ * @param value - Stored settings (parsed JSON, may be of any shape)
+ * @returns A complete, valid list of report tab settings
+ */
+export function normalizeReportTabs(value: unknown): ReportTabSetting[] {
+  if (!Array.isArray(value)) {
+    return DEFAULT_REPORT_TABS.map(tab => ({ ...tab }));
+  }
+
+  const seen = new Set<ReportTabId>();
+  const tabs: ReportTabSetting[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { id, visible } = entry as Partial<ReportTabSetting>;
+    if (typeof id !== 'string' || !isReportTabId(id) || seen.has(id)) continue;
+    seen.add(id);
+    tabs.push({ id, visible: visible !== false });
+  }
+
+  for (const tab of DEFAULT_REPORT_TABS) {
+    if (!seen.has(tab.id)) {
+      tabs.push({ ...tab });
+    }
+  }
+
+  if (!tabs.some(tab => tab.visible)) {
+    tabs[0].visible = true;
+  }
+
+  return tabs;
+}
+
+/**
+ * Load report tab settings from localStorage
+ */
+function loadReportTabs(): ReportTabSetting[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return normalizeReportTabs(stored ? JSON.parse(stored) : null);
+  } catch {
+    return normalizeReportTabs(null);
+  }
+}
+
+export interface UseReportTabsReturn {
+  /** Report tabs in display order */
+  reportTabs: ReportTabSetting[];
+  /** Replace all report tab settings (e.g. from cloud settings) */
+  setReportTabs: (tabs: ReportTabSetting[]) => void;
+  /** Show or hide a report (the last visible report cannot be hidden) */
+  setReportTabVisible: (id: ReportTabId, visible: boolean) => void;
+  /** Move a report one position up (-1) or down (+1) */
+  moveReportTab: (id: ReportTabId, direction: -1 | 1) => void;
+  /** Restore the default order and visibility */
+  resetReportTabs: () => void;
+}
+
+/**
+ * Hook to manage report tab order and visibility
+ */
+export function useReportTabs(): UseReportTabsReturn {
+  const [reportTabs, setReportTabsState] = useState<ReportTabSetting[]>(loadReportTabs);
+
+  // Sync to localStorage when value changes
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(reportTabs));
+  }, [reportTabs]);
+
+  const setReportTabs = useCallback((tabs: ReportTabSetting[]) => {
+    setReportTabsState(normalizeReportTabs(tabs));
+  }, []);
+
+  const setReportTabVisible = useCallback((id: ReportTabId, visible: boolean) => {
+    setReportTabsState(prev => {
+      if (!visible && prev.filter(tab => tab.visible).length === 1 && prev.find(tab => tab.id === id)?.visible) {
+        return prev;
+      }
+      return prev.map(tab => (tab.id === id ? { ...tab, visible } : tab));
+    });
+  }, []);
+
+  const moveReportTab = useCallback((id: ReportTabId, direction: -1 | 1) => {
+    setReportTabsState(prev => {
+      const index = prev.findIndex(tab => tab.id === id);
+      const target = index + direction;
+      if (index === -1 || target < 0 || target >= prev.length) {
+        return prev;
+      }
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  const resetReportTabs = useCallback(() => {
+    setReportTabsState(normalizeReportTabs(null));
+  }, []);
+
+  return {
+    reportTabs,
+    setReportTabs,
+    setReportTabVisible,
+    moveReportTab,
+    resetReportTabs,
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Tests for useSleepWindow hook
+ */
+
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useSleepWindow, normalizeSleepWindow } from './useSleepWindow';
+import { DEFAULT_SLEEP_WINDOW } from '../utils/data/nocturnalAnalysisUtils';
+
+describe('normalizeSleepWindow', () => {
+  it('should return defaults for invalid input', () => {
+    expect(normalizeSleepWindow(null)).toEqual(DEFAULT_SLEEP_WINDOW);
+    expect(normalizeSleepWindow({ startHour: 25, endHour: 'seven' })).toEqual(DEFAULT_SLEEP_WINDOW);
+    expect(normalizeSleepWindow({ startHour: 6, endHour: 6 })).toEqual(DEFAULT_SLEEP_WINDOW);
+  });
+
+  it('should keep valid hours', () => {
+    expect(normalizeSleepWindow({ startHour: 1, endHour: 9 })).toEqual({ startHour: 1, endHour: 9 });
+  });
+});
+
+describe('useSleepWindow', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should default to 23:00-07:00', () => {
+    const { result } = renderHook(() => useSleepWindow());
+    expect(result.current.sleepWindow).toEqual(DEFAULT_SLEEP_WINDOW);
+  });
+
+  it('should update and persist changes', () => {
+    const { result } = renderHook(() => useSleepWindow());
+
+    act(() => {
+      result.current.setSleepStartHour(22);
+      result.current.setSleepEndHour(6);
+    });
+
+    expect(result.current.sleepWindow).toEqual({ startHour: 22, endHour: 6 });
+    expect(JSON.parse(localStorage.getItem('sleepWindow') ?? '{}')).toEqual({ startHour: 22, endHour: 6 });
+
+    const { result: reloaded } = renderHook(() => useSleepWindow());
+    expect(reloaded.current.sleepWindow).toEqual({ startHour: 22, endHour: 6 });
+  });
+
+  it('should ignore a wake-up hour equal to bedtime', () => {
+    const { result } = renderHook(() => useSleepWindow());
+
+    act(() => {
+      result.current.setSleepEndHour(23);
+    });
+
+    expect(result.current.sleepWindow).toEqual(DEFAULT_SLEEP_WINDOW);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Custom hook for managing the usual sleep window used for nocturnal analysis
+ *
+ * The bedtime and wake-up hours are stored in localStorage and synced to the
+ * cloud with the other user settings.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { DEFAULT_SLEEP_WINDOW } from '../utils/data/nocturnalAnalysisUtils';
+import type { SleepWindow } from '../types';
+
+const STORAGE_KEY = 'sleepWindow';
+
+/**
+ * Check that a value is a whole clock hour (0-23)
+ */
+function isClockHour(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 23;
+}
+
+/**
+ * Normalize a stored sleep window
+ *
+ * Invalid hours fall back to the defaults; a window where bedtime and
+ * wake-up are the same hour falls back to the default window.
+ *
+ * @param value - Stored settings (parsed JSON, may be of any shape)
+ * @returns Valid sleep window
+ */
+export function normalizeSleepWindow(value: unknown): SleepWindow {
+  if (!value || typeof value !== 'object') {
+    return { ...DEFAULT_SLEEP_WINDOW };
+  }
+
+  const { startHour, endHour } = value as Partial<SleepWindow>;
+  const window = {
+    startHour: isClockHour(startHour) ? startHour : DEFAULT_SLEEP_WINDOW.startHour,
+    endHour: isClockHour(endHour) ? endHour : DEFAULT_SLEEP_WINDOW.endHour,
+  };
+  return window.startHour === window.endHour ? { ...DEFAULT_SLEEP_WINDOW } : window;
+}
+
+/**
+ * Load the sleep window from localStorage
+ */
+function loadSleepWindow(): SleepWindow {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return normalizeSleepWindow(stored ? JSON.parse(stored) : null);
+  } catch {
+    return normalizeSleepWindow(null);
+  }
+}
+
+export interface UseSleepWindowReturn {
+  sleepWindow: SleepWindow;
+  /** Replace the sleep window (e.g. from cloud settings) */
+  setSleepWindow: (sleepWindow: SleepWindow) => void;
+  /** Set the usual bedtime hour */
+  setSleepStartHour: (hour: number) => void;
+  /** Set the usual wake-up hour */
+  setSleepEndHour: (hour: number) => void;
+}
+
+/**
+ * Hook to manage the sleep window setting
+ */
+export function useSleepWindow(): UseSleepWindowReturn {
+  const [sleepWindow, setSleepWindowState] = useState<SleepWindow>(loadSleepWindow);
+
+  // Sync to localStorage when value changes
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sleepWindow));
+  }, [sleepWindow]);
+
+  const update = useCallback((change: (prev: SleepWindow) => SleepWindow) => {
+    setSleepWindowState(prev => {
+      const next = change(prev);
+      // Keep the previous window rather than collapsing it to the default
+      return next.startHour === next.endHour ? prev : normalizeSleepWindow(next);
+    });
+  }, []);
+
+  const setSleepWindow = useCallback((window: SleepWindow) => {
+    update(() => window);
+  }, [update]);
+
+  const setSleepStartHour = useCallback((startHour: number) => {
+    update(prev => ({ ...prev, startHour }));
+  }, [update]);
+
+  const setSleepEndHour = useCallback((endHour: number) => {
+    update(prev => ({ ...prev, endHour }));
+  }, [update]);
+
+  return {
+    sleepWindow,
+    setSleepWindow,
+    setSleepStartHour,
+    setSleepEndHour,
+  };
+}
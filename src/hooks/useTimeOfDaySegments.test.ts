@@ -0,0 +1,77 @@
+/**
+ * Tests for useTimeOfDaySegments hook
+ */
+
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useTimeOfDaySegments, normalizeTimeOfDaySegments } from './useTimeOfDaySegments';
+
+const school = { name: 'School', startHour: 8, endHour: 15 };
+const sleep = { name: 'Sleep', startHour: 22, endHour: 6 };
+
+describe('normalizeTimeOfDaySegments', () => {
+  it('should return no segments for invalid input', () => {
+    expect(normalizeTimeOfDaySegments(null)).toEqual([]);
+    expect(normalizeTimeOfDaySegments({ name: 'School' })).toEqual([]);
+  });
+
+  it('should drop invalid segments and keep valid ones', () => {
+    expect(normalizeTimeOfDaySegments([
+      school,
+      { name: 'Broken', startHour: 24, endHour: 6 },
+      { name: 'Empty', startHour: 6, endHour: 6 },
+      { startHour: 1, endHour: 2 },
+      sleep,
+    ])).toEqual([school, sleep]);
+  });
+
+  it('should limit the number of segments', () => {
+    const segments = Array.from({ length: 10 }, (_, i) => ({ name: `S${i}`, startHour: i, endHour: i + 1 }));
+    expect(normalizeTimeOfDaySegments(segments)).toHaveLength(8);
+  });
+});
+
+describe('useTimeOfDaySegments', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should default to no segments', () => {
+    const { result } = renderHook(() => useTimeOfDaySegments());
+    expect(result.current.timeOfDaySegments).toEqual([]);
+  });
+
+  it('should add, update and persist segments', () => {
+    const { result } = renderHook(() => useTimeOfDaySegments());
+
+    act(() => {
+      result.current.addTimeOfDaySegment(school);
+      result.current.addTimeOfDaySegment({ name: 'Night', startHour: 23, endHour: 7 });
+      result.current.updateTimeOfDaySegment(1, { name: 'Sleep', startHour: 22 });
+      result.current.updateTimeOfDaySegment(1, { endHour: 6 });
+    });
+
+    expect(result.current.timeOfDaySegments).toEqual([school, sleep]);
+    expect(JSON.parse(localStorage.getItem('timeOfDaySegments') ?? '[]')).toEqual([school, sleep]);
+
+    const { result: reloaded } = renderHook(() => useTimeOfDaySegments());
+    expect(reloaded.current.timeOfDaySegments).toEqual([school, sleep]);
+  });
+
+  it('should ignore an end hour equal to the start hour and remove segments', () => {
+    const { result } = renderHook(() => useTimeOfDaySegments());
+
+    act(() => {
+      result.current.setTimeOfDaySegments([school, sleep]);
+      result.current.updateTimeOfDaySegment(0, { endHour: 8 });
+    });
+
+    expect(result.current.timeOfDaySegments[0]).toEqual(school);
+
+    act(() => {
+      result.current.removeTimeOfDaySegment(0);
+    });
+
+    expect(result.current.timeOfDaySegments).toEqual([sleep]);
+  });
+});
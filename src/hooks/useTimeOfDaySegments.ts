@@ -0,0 +1,115 @@
+/**
+ * Custom hook for managing the named time-of-day segments used for TIR and AGP breakdowns
+ *
+ * The segments are stored in localStorage and synced to the cloud with the
+ * other user settings.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { MAX_TIME_OF_DAY_SEGMENTS } from '../utils/data/timeOfDaySegmentUtils';
+import type { TimeOfDaySegment } from '../types';
+
+const STORAGE_KEY = 'timeOfDaySegments';
+
+/**
+ * Maximum length of a segment name
+ */
+export const MAX_SEGMENT_NAME_LENGTH = 40;
+
+/**
+ * Check that a value is a whole clock hour (0-23)
+ */
+function isClockHour(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 23;
+}
+
+/**
+ * Normalize stored time-of-day segments
+ *
+ * Entries without a string name or with invalid hours are dropped, as are
+ * segments that start and end at the same hour. Names are cut to 40
+ * characters and at most 8 segments are kept.
+ *
+ * @param value - Stored settings (parsed JSON, may be of any shape)
+ * @returns Valid segments
+ */
+export function normalizeTimeOfDaySegments(value: unknown): TimeOfDaySegment[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((entry): entry is TimeOfDaySegment => {
+      if (!entry || typeof entry !== 'object') return false;
+      const { name, startHour, endHour } = entry as Partial<TimeOfDaySegment>;
+      return typeof name === 'string' && isClockHour(startHour) && isClockHour(endHour) && startHour !== endHour;
+    })
+    .slice(0, MAX_TIME_OF_DAY_SEGMENTS)
+    .map(({ name, startHour, endHour }) => ({ name: name.slice(0, MAX_SEGMENT_NAME_LENGTH), startHour, endHour }));
+}
+
+/**
+ * Load the segments from localStorage
+ */
+function loadTimeOfDaySegments(): TimeOfDaySegment[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return normalizeTimeOfDaySegments(stored ? JSON.parse(stored) : null);
+  } catch {
+    return [];
+  }
+}
+
+export interface UseTimeOfDaySegmentsReturn {
+  timeOfDaySegments: TimeOfDaySegment[];
+  /** Replace all segments (e.g. from cloud settings) */
+  setTimeOfDaySegments: (segments: TimeOfDaySegment[]) => void;
+  /** Append a segment (ignored once the maximum is reached) */
+  addTimeOfDaySegment: (segment: TimeOfDaySegment) => void;
+  /** Change the name or hours of the segment at an index */
+  updateTimeOfDaySegment: (index: number, changes: Partial<TimeOfDaySegment>) => void;
+  /** Remove the segment at an index */
+  removeTimeOfDaySegment: (index: number) => void;
+}
+
+/**
+ * Hook to manage the time-of-day segments setting
+ */
+export function useTimeOfDaySegments(): UseTimeOfDaySegmentsReturn {
+  const [timeOfDaySegments, setSegmentsState] = useState<TimeOfDaySegment[]>(loadTimeOfDaySegments);
+
+  // Sync to localStorage when value changes
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(timeOfDaySegments));
+  }, [timeOfDaySegments]);
+
+  const setTimeOfDaySegments = useCallback((segments: TimeOfDaySegment[]) => {
+    setSegmentsState(normalizeTimeOfDaySegments(segments));
+  }, []);
+
+  const addTimeOfDaySegment = useCallback((segment: TimeOfDaySegment) => {
+    setSegmentsState(prev => (prev.length >= MAX_TIME_OF_DAY_SEGMENTS ? prev : normalizeTimeOfDaySegments([...prev, segment])));
+  }, []);
+
+  const updateTimeOfDaySegment = useCallback((index: number, changes: Partial<TimeOfDaySegment>) => {
+    setSegmentsState(prev => {
+      if (!prev[index]) return prev;
+      const next = { ...prev[index], ...changes };
+      // Keep the previous hours rather than dropping a segment that would be empty
+      if (next.startHour === next.endHour) return prev;
+      return normalizeTimeOfDaySegments(prev.map((segment, i) => (i === index ? next : segment)));
+    });
+  }, []);
+
+  const removeTimeOfDaySegment = useCallback((index: number) => {
+    setSegmentsState(prev => prev.filter((_, i) => i !== index));
+  }, []);
+
+  return {
+    timeOfDaySegments,
+    setTimeOfDaySegments,
+    addTimeOfDaySegment,
+    updateTimeOfDaySegment,
+    removeTimeOfDaySegment,
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Tests for useTimeZoneSettings hook
+ */
+
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useTimeZoneSettings, normalizeTimeZoneSettings } from './useTimeZoneSettings';
+import { DEFAULT_TIME_ZONE_SETTINGS, getActiveTimeZoneSettings } from '../utils/data/timezoneUtils';
+
+describe('normalizeTimeZoneSettings', () => {
+  it('should return defaults for invalid input', () => {
+    expect(normalizeTimeZoneSettings(null)).toEqual(DEFAULT_TIME_ZONE_SETTINGS);
+    expect(normalizeTimeZoneSettings('Europe/Berlin')).toEqual(DEFAULT_TIME_ZONE_SETTINGS);
+  });
+
+  it('should replace unknown time zones and modes', () => {
+    expect(normalizeTimeZoneSettings({ sourceTimeZone: 'Mars/Olympus', analysisMode: 'utc' })).toEqual(DEFAULT_TIME_ZONE_SETTINGS);
+  });
+
+  it('should keep valid settings', () => {
+    const settings = { sourceTimeZone: 'Europe/Belgrade', analysisMode: 'homeTimeZone' };
+    expect(normalizeTimeZoneSettings(settings)).toEqual(settings);
+  });
+});
+
+describe('useTimeZoneSettings', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should load stored settings and activate them for the extractors', () => {
+    localStorage.setItem('timeZoneSettings', JSON.stringify({ sourceTimeZone: 'Europe/Prague', analysisMode: 'homeTimeZone' }));
+    const { result } = renderHook(() => useTimeZoneSettings());
+
+    expect(result.current.timeZoneSettings.sourceTimeZone).toBe('Europe/Prague');
+    expect(getActiveTimeZoneSettings().analysisMode).toBe('homeTimeZone');
+  });
+
+  it('should update, persist and activate changes', () => {
+    const { result } = renderHook(() => useTimeZoneSettings());
+
+    act(() => {
+      result.current.setSourceTimeZone('America/New_York');
+      result.current.setAnalysisMode('homeTimeZone');
+    });
+
+    expect(result.current.timeZoneSettings).toEqual({ sourceTimeZone: 'America/New_York', analysisMode: 'homeTimeZone' });
+    expect(getActiveTimeZoneSettings()).toEqual(result.current.timeZoneSettings);
+    expect(JSON.parse(localStorage.getItem('timeZoneSettings') ?? '{}').sourceTimeZone).toBe('America/New_York');
+
+    act(() => {
+      result.current.setTimeZoneSettings(DEFAULT_TIME_ZONE_SETTINGS);
+    });
+    expect(getActiveTimeZoneSettings()).toEqual(DEFAULT_TIME_ZONE_SETTINGS);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Custom hook for managing the time zone used to read Glooko timestamps
+ *
+ * The source time zone and analysis mode are stored in localStorage, synced
+ * to the cloud with the other user settings, and handed to the data
+ * extractors as soon as they change.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  AUTO_TIME_ZONE,
+  DEFAULT_TIME_ZONE_SETTINGS,
+  isValidTimeZone,
+  setActiveTimeZoneSettings,
+} from '../utils/data/timezoneUtils';
+import type { TimeAnalysisMode, TimeZoneSettings } from '../types';
+
+const STORAGE_KEY = 'timeZoneSettings';
+
+const ANALYSIS_MODES: TimeAnalysisMode[] = ['wallClock', 'homeTimeZone'];
+
+/**
+ * Normalize stored time zone settings
+ *
+ * Unknown time zones fall back to 'auto' and unknown modes to wall-clock time.
+ *
+ * @param value - Stored settings (parsed JSON, may be of any shape)
+ * @returns Valid time zone settings
+ */
+export function normalizeTimeZoneSettings(value: unknown): TimeZoneSettings {
+  if (!value || typeof value !== 'object') {
+    return { ...DEFAULT_TIME_ZONE_SETTINGS };
+  }
+
+  const { sourceTimeZone, analysisMode } = value as Partial<TimeZoneSettings>;
+  return {
+    sourceTimeZone: typeof sourceTimeZone === 'string' && (sourceTimeZone === AUTO_TIME_ZONE || isValidTimeZone(sourceTimeZone))
+      ? sourceTimeZone
+      : AUTO_TIME_ZONE,
+    analysisMode: analysisMode && ANALYSIS_MODES.includes(analysisMode)
+      ? analysisMode
+      : DEFAULT_TIME_ZONE_SETTINGS.analysisMode,
+  };
+}
+
+/**
+ * Load time zone settings from localStorage and hand them to the extractors
+ */
+function loadTimeZoneSettings(): TimeZoneSettings {
+  let settings: TimeZoneSettings;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    settings = normalizeTimeZoneSettings(stored ? JSON.parse(stored) : null);
+  } catch {
+    settings = normalizeTimeZoneSettings(null);
+  }
+  setActiveTimeZoneSettings(settings);
+  return settings;
+}
+
+export interface UseTimeZoneSettingsReturn {
+  timeZoneSettings: TimeZoneSettings;
+  /** Replace all time zone settings (e.g. from cloud settings) */
+  setTimeZoneSettings: (settings: TimeZoneSettings) => void;
+  /** Set the source time zone ('auto' or an IANA zone) */
+  setSourceTimeZone: (timeZone: string) => void;
+  /** Set how timestamps are placed on the reports' clock */
+  setAnalysisMode: (mode: TimeAnalysisMode) => void;
+}
+
+/**
+ * Hook to manage the source time zone and analysis mode
+ */
+export function useTimeZoneSettings(): UseTimeZoneSettingsReturn {
+  const [timeZoneSettings, setTimeZoneSettingsState] = useState<TimeZoneSettings>(loadTimeZoneSettings);
+
+  // Sync to localStorage when value changes
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(timeZoneSettings));
+  }, [timeZoneSettings]);
+
+  // Extractors read the active settings, so update them before the reports re-render
+  const update = useCallback((change: (prev: TimeZoneSettings) => TimeZoneSettings) => {
+    setTimeZoneSettingsState(prev => {
+      const next = normalizeTimeZoneSettings(change(prev));
+      setActiveTimeZoneSettings(next);
+      return next;
+    });
+  }, []);
+
+  const setTimeZoneSettings = useCallback((settings: TimeZoneSettings) => {
+    update(() => settings);
+  }, [update]);
+
+  const setSourceTimeZone = useCallback((sourceTimeZone: string) => {
+    update(prev => ({ ...prev, sourceTimeZone }));
+  }, [update]);
+
+  const setAnalysisMode = useCallback((analysisMode: TimeAnalysisMode) => {
+    update(prev => ({ ...prev, analysisMode }));
+  }, [update]);
+
+  return {
+    timeZoneSettings,
+    setTimeZoneSettings,
+    setSourceTimeZone,
+    setAnalysisMode,
+  };
+}
@@ -18,6 +18,7 @@ import * as apiUtils from '../utils/api';
 vi.mock('../utils/data', () => ({
   extractGlucoseReadings: vi.fn(),
   extractInsulinReadings: vi.fn(),
+  extractCarbEntries: vi.fn(),
   extractDailyInsulinSummaries: vi.fn(),
   calculateGlucoseRangeStats: vi.fn(),
   calculatePercentage: vi.fn(),
@@ -28,12 +29,17 @@ vi.mock('../utils/data', () => ({
   convertBasalReadingsToCSV: vi.fn(),
   filterGlucoseReadingsToLastDays: vi.fn(),
   filterInsulinReadingsToLastDays: vi.fn(),
+  detectUnannouncedRises: vi.fn(),
+  convertRiseEventsToCSV: vi.fn(),
+  analyzeNights: vi.fn(),
+  convertNightAnalysesToCSV: vi.fn(),
   aggregateInsulinByDate: vi.fn(),
 }));
 vi.mock('../utils/api', () => ({
   callAIApi: vi.fn(),
   getActiveProvider: vi.fn(),
   getProviderDisplayName: vi.fn().mockReturnValue('Test Provider'),
+  DEFAULT_CUSTOM_PROVIDER_SETTINGS: { baseUrl: '', model: '', apiKey: '' },
 }));
 vi.mock('../hooks/useGlucoseThresholds', () => ({
   useGlucoseThresholds: () => ({
@@ -88,6 +94,7 @@ describe('AIAnalysis', () => {
     );
     // Mock insulin data extraction
     vi.mocked(dataUtils.extractInsulinReadings).mockResolvedValue([]);
+    vi.mocked(dataUtils.extractCarbEntries).mockResolvedValue([]);
     vi.mocked(dataUtils.aggregateInsulinByDate).mockReturnValue([]);
     vi.mocked(dataUtils.extractDailyInsulinSummaries).mockResolvedValue([]);
     // Mock AI provider
@@ -216,7 +223,8 @@ describe('AIAnalysis', () => {
       'perplexity-key',
       'gemini-key',
       'grok-key',
-      'deepseek-key'
+      'deepseek-key',
+      { baseUrl: '', model: '', apiKey: '' }
     );
   });
 });
@@ -12,12 +12,12 @@ import {
 } from '@fluentui/react-components';
 import { useTranslation } from 'react-i18next';
 import { BrainCircuitRegular } from '@fluentui/react-icons';
-import type { DailyReport, GlucoseRangeStats, InsulinReading } from '../../types';
-import { extractGlucoseReadings, extractDailyInsulinSummaries, extractInsulinReadings, extractHypoAnalysisDatasets } from '../../utils/data';
+import type { AIAnalysisTab, AIConversation, DailyReport, GlucoseRangeStats, InsulinReading } from '../../types';
+import { extractGlucoseReadings, extractDailyInsulinSummaries, extractInsulinReadings, extractCarbEntries, extractHypoAnalysisDatasets } from '../../utils/data';
 import type { HypoAnalysisDatasets } from '../../utils/data';
 import { calculateGlucoseRangeStats, calculatePercentage, groupByDate } from '../../utils/data';
 import { useGlucoseThresholds } from '../../hooks/useGlucoseThresholds';
-import { getActiveProvider } from '../../utils/api';
+import { getActiveProvider, DEFAULT_CUSTOM_PROVIDER_SETTINGS } from '../../utils/api';
 import { useAIAnalysisStyles } from './styles';
 import type { AIAnalysisProps, MealTimingDatasets } from './types';
 import { FileInfoButton } from '../../components/FileInfoButton';
@@ -41,12 +41,19 @@ import {
  * @param geminiApiKey - API key for Gemini (optional)
  * @param grokApiKey - API key for Grok (optional)
  * @param deepseekApiKey - API key for Deepseek (optional)
+ * @param customProvider - Base URL, model and optional API key of the custom provider (optional)
  * @param selectedProvider - Provider to prefer when multiple API keys are available
  * @param responseLanguage - Language code to request AI responses in
  * @param glucoseUnit - Display unit for glucose values (e.g., "mg/dL" or "mmol/L")
  * @param showGeekStats - If true, show advanced/statistical output in tabs
+ * @param insulinDuration - Insulin action duration in hours used for the bolus IOB at hypo start
+ * @param insulinModel - Insulin activity model used for the bolus IOB at hypo start
+ * @param sleepWindow - Usual sleep window used for the nightly analysis in pump settings
+ * @param annotations - User annotations of the selected dataset, added to the prompts
  * @param existingAnalysis - Previously computed analysis for the selected file (if any)
  * @param onAnalysisComplete - Callback invoked when an analysis finishes for the selected file
+ * @param conversations - Follow-up conversations of the selected file by tab
+ * @param onConversationChange - Callback invoked when a follow-up conversation of the selected file changes
  * @param isProUser - Whether the current user has pro-level privileges (affects some tab features)
  * @param idToken - Optional identity token used for authenticated provider requests
  * @returns The component's rendered React element
@@ -57,12 +64,19 @@ export function AIAnalysis({
   geminiApiKey, 
   grokApiKey, 
   deepseekApiKey, 
+  customProvider = DEFAULT_CUSTOM_PROVIDER_SETTINGS,
   selectedProvider,
   responseLanguage,
   glucoseUnit,
   showGeekStats,
+  insulinDuration,
+  insulinModel,
+  sleepWindow,
+  annotations,
   existingAnalysis, 
   onAnalysisComplete,
+  conversations,
+  onConversationChange,
   isProUser,
   idToken,
   useProKeys,
@@ -80,11 +94,12 @@ export function AIAnalysis({
     cgmReadings: [],
     bolusReadings: [],
     basalReadings: [],
+    carbEntries: [],
   });
   const [hypoDatasets, setHypoDatasets] = useState<HypoAnalysisDatasets | null>(null);
 
   // Determine which AI provider to use (respecting manual selection)
-  const activeProvider = getActiveProvider(selectedProvider, perplexityApiKey, geminiApiKey, grokApiKey, deepseekApiKey);
+  const activeProvider = getActiveProvider(selectedProvider, perplexityApiKey, geminiApiKey, grokApiKey, deepseekApiKey, customProvider);
   const hasApiKey = activeProvider !== null;
 
   // Load existing analysis when component mounts or file changes
@@ -100,7 +115,7 @@ export function AIAnalysis({
       setInRangePercentage(null);
       setGlucoseStats(null);
       setCombinedDataset([]);
-      setMealTimingDatasets({ cgmReadings: [], bolusReadings: [], basalReadings: [] });
+      setMealTimingDatasets({ cgmReadings: [], bolusReadings: [], basalReadings: [], carbEntries: [] });
       setHypoDatasets(null);
       return;
     }
@@ -154,20 +169,26 @@ export function AIAnalysis({
             const insulinReadings = await extractInsulinReadings(selectedFile);
             const bolusReadings = insulinReadings.filter(r => r.insulinType === 'bolus');
             const basalReadings = insulinReadings.filter(r => r.insulinType === 'basal');
+            // Carbs are optional - ratio estimation falls back to corrections only
+            const carbEntries = await extractCarbEntries(selectedFile).catch((carbErr) => {
+              console.warn('Failed to extract carb entries:', carbErr);
+              return [];
+            });
             setMealTimingDatasets({
               cgmReadings: readings,
               bolusReadings,
               basalReadings,
+              carbEntries,
             });
             bolusReadingsForHypos = bolusReadings;
           } catch (mealTimingErr) {
             console.warn('Failed to extract meal timing data:', mealTimingErr);
-            setMealTimingDatasets({ cgmReadings: readings, bolusReadings: [], basalReadings: [] });
+            setMealTimingDatasets({ cgmReadings: readings, bolusReadings: [], basalReadings: [], carbEntries: [] });
           }
 
           // Extract hypo analysis datasets with bolus info
           try {
-            const hypoData = extractHypoAnalysisDatasets(readings, thresholds, bolusReadingsForHypos);
+            const hypoData = extractHypoAnalysisDatasets(readings, thresholds, bolusReadingsForHypos, insulinDuration, insulinModel);
             setHypoDatasets(hypoData);
           } catch (hypoErr) {
             console.warn('Failed to extract hypo data:', hypoErr);
@@ -177,7 +198,7 @@ export function AIAnalysis({
           setInRangePercentage(null);
           setGlucoseStats(null);
           setCombinedDataset([]);
-          setMealTimingDatasets({ cgmReadings: [], bolusReadings: [], basalReadings: [] });
+          setMealTimingDatasets({ cgmReadings: [], bolusReadings: [], basalReadings: [], carbEntries: [] });
           setHypoDatasets(null);
         }
       } catch (error) {
@@ -185,7 +206,7 @@ export function AIAnalysis({
         setInRangePercentage(null);
         setGlucoseStats(null);
         setCombinedDataset([]);
-        setMealTimingDatasets({ cgmReadings: [], bolusReadings: [], basalReadings: [] });
+        setMealTimingDatasets({ cgmReadings: [], bolusReadings: [], basalReadings: [], carbEntries: [] });
         setHypoDatasets(null);
       } finally {
         setLoading(false);
@@ -193,7 +214,15 @@ export function AIAnalysis({
     };
 
     calculateInRange();
-  }, [selectedFile, thresholds, existingAnalysis]);
+  }, [selectedFile, thresholds, existingAnalysis, insulinDuration, insulinModel]);
+
+  // Follow-up conversation of a tab, stored for the selected file
+  const getConversationProps = (tab: AIAnalysisTab) => ({
+    conversation: conversations?.[tab],
+    onConversationChange: selectedFile && onConversationChange
+      ? (conversation: AIConversation) => onConversationChange(selectedFile.id, tab, conversation)
+      : undefined,
+  });
 
   const renderTabContent = () => {
     switch (selectedTab) {
@@ -208,15 +237,18 @@ export function AIAnalysis({
             glucoseStats={glucoseStats}
             responseLanguage={responseLanguage}
             glucoseUnit={glucoseUnit}
+            annotations={annotations}
             perplexityApiKey={perplexityApiKey}
             geminiApiKey={geminiApiKey}
             grokApiKey={grokApiKey}
+            customProvider={customProvider}
             selectedFile={selectedFile}
             onAnalysisComplete={onAnalysisComplete}
             existingAnalysis={existingAnalysis}
             isProUser={isProUser}
             idToken={idToken}
             useProKeys={useProKeys}
+            {...getConversationProps('timeInRange')}
           />
         );
       
@@ -230,12 +262,15 @@ export function AIAnalysis({
             combinedDataset={combinedDataset}
             responseLanguage={responseLanguage}
             glucoseUnit={glucoseUnit}
+            annotations={annotations}
             perplexityApiKey={perplexityApiKey}
             geminiApiKey={geminiApiKey}
             grokApiKey={grokApiKey}
+            customProvider={customProvider}
             isProUser={isProUser}
             idToken={idToken}
             useProKeys={useProKeys}
+            {...getConversationProps('glucoseInsulin')}
           />
         );
       
@@ -249,12 +284,15 @@ export function AIAnalysis({
             mealTimingDatasets={mealTimingDatasets}
             responseLanguage={responseLanguage}
             glucoseUnit={glucoseUnit}
+            annotations={annotations}
             perplexityApiKey={perplexityApiKey}
             geminiApiKey={geminiApiKey}
             grokApiKey={grokApiKey}
+            customProvider={customProvider}
             isProUser={isProUser}
             idToken={idToken}
             useProKeys={useProKeys}
+            {...getConversationProps('mealTiming')}
           />
         );
       
@@ -268,13 +306,17 @@ export function AIAnalysis({
             mealTimingDatasets={mealTimingDatasets}
             responseLanguage={responseLanguage}
             glucoseUnit={glucoseUnit}
+            annotations={annotations}
+            sleepWindow={sleepWindow}
             perplexityApiKey={perplexityApiKey}
             geminiApiKey={geminiApiKey}
             grokApiKey={grokApiKey}
             deepseekApiKey={deepseekApiKey}
+            customProvider={customProvider}
             isProUser={isProUser}
             idToken={idToken}
             useProKeys={useProKeys}
+            {...getConversationProps('pumpSettings')}
           />
         );
       
@@ -288,13 +330,16 @@ export function AIAnalysis({
             hypoDatasets={hypoDatasets}
             responseLanguage={responseLanguage}
             glucoseUnit={glucoseUnit}
+            annotations={annotations}
             perplexityApiKey={perplexityApiKey}
             geminiApiKey={geminiApiKey}
             grokApiKey={grokApiKey}
             deepseekApiKey={deepseekApiKey}
+            customProvider={customProvider}
             isProUser={isProUser}
             idToken={idToken}
             useProKeys={useProKeys}
+            {...getConversationProps('hypos')}
           />
         );
       
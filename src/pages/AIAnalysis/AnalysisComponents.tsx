@@ -9,11 +9,19 @@ import {
   Spinner,
   MessageBar,
   MessageBarBody,
+  Accordion,
+  AccordionItem,
+  AccordionHeader,
+  AccordionPanel,
 } from '@fluentui/react-components';
-import { CheckmarkCircleRegular, ErrorCircleRegular } from '@fluentui/react-icons';
+import { CheckmarkCircleRegular, ErrorCircleRegular, StopRegular } from '@fluentui/react-icons';
+import { useMemo, useState } from 'react';
 import { MarkdownRenderer } from '../../components/shared';
 import { useAIAnalysisStyles } from './styles';
 import { getProviderDisplayName, type AIProvider } from '../../utils/api';
+import { extractStructuredOutput, stripStructuredOutput } from '../../features/aiAnalysis';
+import type { AIAnalysisTab } from '../../types';
+import { RecommendationCards } from './RecommendationCards';
 
 interface AnalysisButtonProps {
   disabled: boolean;
@@ -21,6 +29,8 @@ interface AnalysisButtonProps {
   hasResponse: boolean;
   ready: boolean;
   onClick: () => void;
+  /** Cancels the running analysis; a Stop button is shown while analyzing when set */
+  onStop?: () => void;
 }
 
 /**
@@ -31,21 +41,31 @@ export function AnalysisButton({
   analyzing, 
   hasResponse, 
   ready, 
-  onClick 
+  onClick,
+  onStop,
 }: AnalysisButtonProps) {
+  const styles = useAIAnalysisStyles();
+
   return (
-    <Button
-      appearance="primary"
-      disabled={disabled}
-      onClick={onClick}
-      icon={analyzing ? <Spinner size="tiny" /> : undefined}
-    >
-      {analyzing 
-        ? 'Analyzing...' 
-        : hasResponse && !ready
-        ? 'Click to enable new analysis'
-        : 'Analyze with AI'}
-    </Button>
+    <div className={styles.buttonRow}>
+      <Button
+        appearance="primary"
+        disabled={disabled}
+        onClick={onClick}
+        icon={analyzing ? <Spinner size="tiny" /> : undefined}
+      >
+        {analyzing 
+          ? 'Analyzing...' 
+          : hasResponse && !ready
+          ? 'Click to enable new analysis'
+          : 'Analyze with AI'}
+      </Button>
+      {analyzing && onStop && (
+        <Button appearance="secondary" icon={<StopRegular />} onClick={onStop}>
+          Stop
+        </Button>
+      )}
+    </div>
   );
 }
 
@@ -120,17 +140,34 @@ export function CooldownIndicator({ active, seconds }: CooldownIndicatorProps) {
 
 interface AnalysisLoadingProps {
   visible: boolean;
+  /** Response text received so far; rendered live instead of the spinner */
+  streamingResponse?: string | null;
 }
 
 /**
- * Loading indicator during analysis
+ * Loading indicator during analysis, or the partial response while it streams in
+ * (without the structured output JSON block, which is shown as cards once complete)
  */
-export function AnalysisLoading({ visible }: AnalysisLoadingProps) {
+export function AnalysisLoading({ visible, streamingResponse }: AnalysisLoadingProps) {
   const styles = useAIAnalysisStyles();
   
   if (!visible) {
     return null;
   }
+
+  if (streamingResponse) {
+    return (
+      <>
+        <div className={styles.streamingStatus}>
+          <Spinner size="tiny" />
+          <Text className={styles.helperText}>Receiving AI analysis...</Text>
+        </div>
+        <div className={styles.aiResponseContainer}>
+          <MarkdownRenderer content={stripStructuredOutput(streamingResponse)} />
+        </div>
+      </>
+    );
+  }
   
   return (
     <div className={styles.loadingContainer}>
@@ -169,13 +206,19 @@ export function AnalysisError({ error }: AnalysisErrorProps) {
 
 interface AnalysisResultProps {
   response: string | null;
+  /** Analysis the response belongs to; when set, its structured output is validated and shown as cards */
+  tab?: AIAnalysisTab;
 }
 
 /**
  * Success message and AI response display
  */
-export function AnalysisResult({ response }: AnalysisResultProps) {
+export function AnalysisResult({ response, tab }: AnalysisResultProps) {
   const styles = useAIAnalysisStyles();
+  const structuredOutput = useMemo(
+    () => response && tab ? extractStructuredOutput(response, tab) : null,
+    [response, tab]
+  );
   
   if (!response) {
     return null;
@@ -189,8 +232,11 @@ export function AnalysisResult({ response }: AnalysisResultProps) {
         </MessageBarBody>
       </MessageBar>
       <div className={styles.aiResponseContainer}>
-        <MarkdownRenderer content={response} />
+        <MarkdownRenderer content={structuredOutput ? structuredOutput.markdown : response} />
       </div>
+      {structuredOutput && (
+        <RecommendationCards analysis={structuredOutput.analysis} errors={structuredOutput.errors} />
+      )}
     </>
   );
 }
@@ -217,3 +263,35 @@ export function RetryNotification({ info }: RetryNotificationProps) {
     </div>
   );
 }
+
+interface PromptPreviewProps {
+  /** Generates the prompt; keep it stable (useCallback) so the prompt is only rebuilt when its inputs change */
+  buildPrompt: () => string;
+}
+
+/**
+ * Collapsible view of the AI prompt for geek stats
+ * The prompt is generated only while the panel is open, not on every render (e.g. for each streamed chunk)
+ */
+export function PromptPreview({ buildPrompt }: PromptPreviewProps) {
+  const styles = useAIAnalysisStyles();
+  const [open, setOpen] = useState(false);
+  const prompt = useMemo(() => (open ? buildPrompt() : ''), [open, buildPrompt]);
+
+  return (
+    <Accordion
+      collapsible
+      style={{ marginTop: '16px' }}
+      onToggle={(_event, data) => setOpen(data.openItems.includes('promptText'))}
+    >
+      <AccordionItem value="promptText">
+        <AccordionHeader>View AI Prompt</AccordionHeader>
+        <AccordionPanel>
+          <div className={styles.promptTextContainer}>
+            {prompt}
+          </div>
+        </AccordionPanel>
+      </AccordionItem>
+    </Accordion>
+  );
+}
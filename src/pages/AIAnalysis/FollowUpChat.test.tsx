@@ -0,0 +1,166 @@
+/**
+ * Tests for FollowUpChat component
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { FollowUpChat } from './FollowUpChat';
+import type { AIConversation } from '../../types';
+import * as apiUtils from '../../utils/api';
+import * as downloadUtils from '../../features/export/utils/download';
+
+// Mock the translation hook to return the keys
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string) => key,
+  }),
+}));
+vi.mock('../../utils/api', () => ({
+  callAIWithRouting: vi.fn(),
+  getProviderDisplayName: vi.fn().mockReturnValue('Test Provider'),
+  getPromptTokenBudget: vi.fn().mockReturnValue(16666),
+  isRequestTooLargeError: vi.fn((error?: string) => !!error?.includes('too large')),
+}));
+vi.mock('../../features/export/utils/download', () => ({
+  downloadMarkdown: vi.fn(),
+}));
+
+const conversation: AIConversation = {
+  prompt: 'You are an expert endocrinologist. Glucose data: base64CsvData',
+  response: 'Your glucose rises on Tuesdays.',
+  messages: [],
+};
+
+const customProvider = { baseUrl: '', model: '', apiKey: '' };
+
+function renderChat(props: Partial<Parameters<typeof FollowUpChat>[0]> = {}) {
+  const onConversationChange = vi.fn();
+  render(
+    <FollowUpChat
+      tab="glucoseInsulin"
+      response={conversation.response}
+      conversation={conversation}
+      onConversationChange={onConversationChange}
+      activeProvider="gemini"
+      apiKey="gemini-key"
+      customProvider={customProvider}
+      responseLanguage="english"
+      {...props}
+    />
+  );
+  return { onConversationChange };
+}
+
+describe('FollowUpChat', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should not render without a conversation', () => {
+    renderChat({ conversation: undefined });
+    expect(screen.queryByText('aiAnalysis.followUp.title')).not.toBeInTheDocument();
+  });
+
+  it('should not render when the shown response belongs to another analysis', () => {
+    renderChat({ response: 'A different analysis' });
+    expect(screen.queryByText('aiAnalysis.followUp.title')).not.toBeInTheDocument();
+  });
+
+  it('should send the question with the original context and store the answer', async () => {
+    vi.mocked(apiUtils.callAIWithRouting).mockResolvedValue({ success: true, content: 'Late dinners on Tuesdays.' });
+    const { onConversationChange } = renderChat({ isProUser: true, idToken: 'token' });
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'aiAnalysis.followUp.title' }), { target: { value: 'Why Tuesdays?' } });
+    fireEvent.click(screen.getByRole('button', { name: 'aiAnalysis.followUp.send' }));
+
+    await waitFor(() => {
+      expect(onConversationChange).toHaveBeenCalled();
+    });
+
+    const [provider, prompt, options] = vi.mocked(apiUtils.callAIWithRouting).mock.calls[0];
+    expect(provider).toBe('gemini');
+    expect(prompt.startsWith(conversation.prompt)).toBe(true);
+    expect(prompt).toContain('Why Tuesdays?');
+    expect(options).toMatchObject({ apiKey: 'gemini-key', idToken: 'token', isProUser: true });
+
+    const updated: AIConversation = onConversationChange.mock.calls[0][0];
+    expect(updated.prompt).toBe(conversation.prompt);
+    expect(updated.messages.map(message => [message.role, message.content])).toEqual([
+      ['user', 'Why Tuesdays?'],
+      ['assistant', 'Late dinners on Tuesdays.'],
+    ]);
+  });
+
+  it('should show an error and keep the conversation when the request fails', async () => {
+    vi.mocked(apiUtils.callAIWithRouting).mockResolvedValue({ success: false, error: 'Rate limit exceeded' });
+    const { onConversationChange } = renderChat();
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'aiAnalysis.followUp.title' }), { target: { value: 'Why Tuesdays?' } });
+    fireEvent.click(screen.getByRole('button', { name: 'aiAnalysis.followUp.send' }));
+
+    expect(await screen.findByText('Rate limit exceeded')).toBeInTheDocument();
+    expect(onConversationChange).not.toHaveBeenCalled();
+    expect(screen.getByRole('textbox', { name: 'aiAnalysis.followUp.title' })).toHaveValue('Why Tuesdays?');
+  });
+
+  it('should retry with less data when the prompt is too large for the provider', async () => {
+    vi.mocked(apiUtils.callAIWithRouting)
+      .mockResolvedValueOnce({ success: false, error: 'Prompt too large' })
+      .mockResolvedValueOnce({ success: true, content: 'Late dinners on Tuesdays.' });
+    const rows = Array.from({ length: 2000 }, (_, index) => `2024-01-01 ${String(index).padStart(5, '0')},6.5`);
+    const largeConversation: AIConversation = {
+      ...conversation,
+      prompt: `${conversation.prompt}\n\n**Dataset 1: CGM Data (cgm.csv)**\n\`\`\`csv\nTimestamp,Glucose\n${rows.join('\n')}\n\`\`\``,
+    };
+    const { onConversationChange } = renderChat({ conversation: largeConversation });
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'aiAnalysis.followUp.title' }), { target: { value: 'Why Tuesdays?' } });
+    fireEvent.click(screen.getByRole('button', { name: 'aiAnalysis.followUp.send' }));
+
+    await waitFor(() => {
+      expect(onConversationChange).toHaveBeenCalled();
+    });
+
+    const [[, firstPrompt], [, retryPrompt]] = vi.mocked(apiUtils.callAIWithRouting).mock.calls;
+    expect(firstPrompt).toContain('2024-01-01 00000,6.5');
+    // Half of the budget of 16666 tokens at 3 characters per token
+    expect(retryPrompt.length).toBeLessThanOrEqual(8333 * 3);
+    expect(retryPrompt).toContain('2024-01-01 01999,6.5');
+    expect(retryPrompt).not.toContain('2024-01-01 00000,6.5');
+  });
+
+  it('should show earlier messages and export the thread as Markdown', () => {
+    renderChat({
+      conversation: {
+        ...conversation,
+        messages: [
+          { role: 'user', content: 'Why Tuesdays?', timestamp: new Date() },
+          { role: 'assistant', content: 'Late dinners on Tuesdays.', timestamp: new Date() },
+        ],
+      },
+    });
+
+    expect(screen.getByText('Why Tuesdays?')).toBeInTheDocument();
+    expect(screen.getByText('Late dinners on Tuesdays.')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'aiAnalysis.followUp.export' }));
+
+    const [markdown, fileName] = vi.mocked(downloadUtils.downloadMarkdown).mock.calls[0];
+    expect(markdown).toContain('# aiAnalysis.tabs.glucoseInsulin');
+    expect(markdown).toContain('Late dinners on Tuesdays.');
+    expect(fileName).toMatch(/^ai-analysis-glucoseInsulin-\d{4}-\d{2}-\d{2}$/);
+  });
+
+  it('should clear the follow-up messages', () => {
+    const { onConversationChange } = renderChat({
+      conversation: {
+        ...conversation,
+        messages: [{ role: 'user', content: 'Why Tuesdays?', timestamp: new Date() }],
+      },
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'aiAnalysis.followUp.clear' }));
+
+    expect(onConversationChange).toHaveBeenCalledWith({ ...conversation, messages: [] });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Follow-up chat shown under an AI analysis result
+ */
+
+import { useState, useEffect } from 'react';
+import type { KeyboardEvent } from 'react';
+import { Button, Text, Textarea } from '@fluentui/react-components';
+import { ArrowDownloadRegular, DeleteRegular, SendRegular, StopRegular } from '@fluentui/react-icons';
+import { useTranslation } from 'react-i18next';
+import { MarkdownRenderer } from '../../components/shared';
+import {
+  appendConversationMessage,
+  fitFollowUpPromptToBudget,
+  formatConversationMarkdown,
+} from '../../features/aiAnalysis';
+import { downloadMarkdown } from '../../features/export/utils/download';
+import {
+  callAIWithRouting,
+  getPromptTokenBudget,
+  isRequestTooLargeError,
+  type AIProvider,
+  type CustomProviderSettings,
+} from '../../utils/api';
+import type { ResponseLanguage } from '../../hooks/useResponseLanguage';
+import type { AIAnalysisTab, AIConversation } from '../../types';
+import { useAIAnalysisStyles } from './styles';
+import { useAnalysisState } from './useAnalysisState';
+import { AnalysisLoading, AnalysisError, RetryNotification } from './AnalysisComponents';
+
+interface FollowUpChatProps {
+  /** Tab the analysis belongs to (used as the title of the exported conversation) */
+  tab: AIAnalysisTab;
+  /** Response currently shown in the tab */
+  response: string | null;
+  /** Conversation of the tab; the chat is only shown while it matches the response */
+  conversation?: AIConversation;
+  onConversationChange?: (conversation: AIConversation) => void;
+  activeProvider: AIProvider | null;
+  /** Provider named in the disclaimer (undefined when using Pro backend keys) */
+  promptProvider?: AIProvider;
+  /** API key of the active provider (used for non-Pro users) */
+  apiKey: string;
+  customProvider: CustomProviderSettings;
+  responseLanguage: ResponseLanguage;
+  isProUser?: boolean;
+  idToken?: string | null;
+  useProKeys?: boolean;
+  /** Disables sending, e.g. while a new analysis is running */
+  disabled?: boolean;
+}
+
+/**
+ * Conversation panel for asking follow-up questions about an analysis.
+ *
+ * Each question is sent together with the original prompt and data, the
+ * analysis and the earlier questions and answers, so the AI answers from the
+ * same context, shortened to the prompt size limit of the provider. Requests
+ * are routed like the analysis itself: to the user's own provider or, for Pro
+ * users, through the backend.
+ */
+export function FollowUpChat({
+  tab,
+  response,
+  conversation,
+  onConversationChange,
+  activeProvider,
+  promptProvider,
+  apiKey,
+  customProvider,
+  responseLanguage,
+  isProUser,
+  idToken,
+  useProKeys,
+  disabled = false,
+}: FollowUpChatProps) {
+  const styles = useAIAnalysisStyles();
+  const { t } = useTranslation('aiAnalysis');
+  const [question, setQuestion] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+
+  const {
+    analyzing,
+    error,
+    retryInfo,
+    streamingResponse,
+    startAnalysis,
+    updateStreamingResponse,
+    cancelAnalysis,
+    completeAnalysis,
+    setAnalysisError,
+    setRetryInfo,
+  } = useAnalysisState();
+
+  // A new analysis starts a new conversation; drop an answer still running for the old one
+  useEffect(() => cancelAnalysis, [conversation?.response, cancelAnalysis]);
+
+  if (!conversation || !onConversationChange || !response || response !== conversation.response) {
+    return null;
+  }
+
+  const canSend = !!activeProvider && !disabled && !analyzing && question.trim() !== '';
+
+  const handleSend = async () => {
+    if (!canSend) {
+      return;
+    }
+
+    const text = question.trim();
+    const signal = startAnalysis();
+    setPendingQuestion(text);
+
+    // Send the question with as much of the conversation as fits the token budget
+    const tryFollowUp = async (budgetTokens: number) => {
+      const { prompt, minimal } = fitFollowUpPromptToBudget(conversation, text, budgetTokens, responseLanguage, promptProvider);
+      const result = await callAIWithRouting(activeProvider, prompt, {
+        apiKey,
+        customProvider,
+        idToken: idToken || undefined,
+        isProUser,
+        useProKeys,
+        onChunk: updateStreamingResponse,
+        signal,
+      });
+      return { ...result, minimal };
+    };
+
+    try {
+      let budgetTokens = getPromptTokenBudget(activeProvider, { isProUser, useProKeys, idToken });
+      let result = await tryFollowUp(budgetTokens);
+
+      // The token estimate is approximate: if the provider still rejects the size, halve the budget while there is data left to drop
+      while (!result.success && isRequestTooLargeError(result.error) && !result.minimal) {
+        budgetTokens = Math.floor(budgetTokens / 2);
+        setRetryInfo(t('aiAnalysis.followUp.retrying'));
+        result = await tryFollowUp(budgetTokens);
+      }
+
+      // Cancelled by the user; the question stays in the input
+      if (result.errorType === 'aborted') {
+        return;
+      }
+
+      if (result.success && result.content) {
+        completeAnalysis(result.content);
+        const asked = appendConversationMessage(conversation, 'user', text);
+        onConversationChange(appendConversationMessage(asked, 'assistant', result.content));
+        setQuestion('');
+      } else {
+        setAnalysisError(result.error || 'Failed to get AI response');
+      }
+    } catch (err) {
+      setAnalysisError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter sends, Shift+Enter adds a new line
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
+  const handleExport = () => {
+    const markdown = formatConversationMarkdown(conversation, {
+      title: t(`aiAnalysis.tabs.${tab}`),
+      analysis: t('aiAnalysis.followUp.analysis'),
+      question: t('aiAnalysis.followUp.question'),
+      answer: t('aiAnalysis.followUp.answer'),
+    });
+    downloadMarkdown(markdown, `ai-analysis-${tab}-${new Date().toISOString().slice(0, 10)}`);
+  };
+
+  const handleClear = () => {
+    onConversationChange({ ...conversation, messages: [] });
+  };
+
+  return (
+    <div className={styles.followUpContainer}>
+      <Text className={styles.followUpTitle}>{t('aiAnalysis.followUp.title')}</Text>
+
+      {conversation.messages.map((message, index) =>
+        message.role === 'user' ? (
+          <div key={index} className={styles.followUpQuestion}>
+            <Text>{message.content}</Text>
+          </div>
+        ) : (
+          <div key={index} className={styles.followUpAnswer}>
+            <MarkdownRenderer content={message.content} />
+          </div>
+        )
+      )}
+
+      {analyzing && pendingQuestion && (
+        <div className={styles.followUpQuestion}>
+          <Text>{pendingQuestion}</Text>
+        </div>
+      )}
+
+      <RetryNotification info={retryInfo} />
+      <AnalysisLoading visible={analyzing} streamingResponse={streamingResponse} />
+      <AnalysisError error={error} />
+
+      <Textarea
+        value={question}
+        onChange={(_, data) => setQuestion(data.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={t('aiAnalysis.followUp.placeholder')}
+        aria-label={t('aiAnalysis.followUp.title')}
+        disabled={disabled || analyzing}
+        resize="vertical"
+      />
+      <Text className={styles.helperText}>{t('aiAnalysis.followUp.hint')}</Text>
+
+      <div className={styles.buttonRow}>
+        <Button appearance="primary" icon={<SendRegular />} disabled={!canSend} onClick={handleSend}>
+          {t('aiAnalysis.followUp.send')}
+        </Button>
+        {analyzing && (
+          <Button appearance="secondary" icon={<StopRegular />} onClick={cancelAnalysis}>
+            {t('aiAnalysis.followUp.stop')}
+          </Button>
+        )}
+        <Button appearance="subtle" icon={<ArrowDownloadRegular />} onClick={handleExport}>
+          {t('aiAnalysis.followUp.export')}
+        </Button>
+        {conversation.messages.length > 0 && (
+          <Button appearance="subtle" icon={<DeleteRegular />} disabled={analyzing} onClick={handleClear}>
+            {t('aiAnalysis.followUp.clear')}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
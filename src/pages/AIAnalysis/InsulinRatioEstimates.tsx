@@ -0,0 +1,138 @@
+/**
+ * Locally computed ICR and ISF estimates shown alongside the pump settings AI analysis
+ */
+
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Text,
+  Table,
+  TableHeader,
+  TableRow,
+  TableHeaderCell,
+  TableBody,
+  TableCell,
+} from '@fluentui/react-components';
+import {
+  estimateInsulinRatios,
+  convertGlucoseValue,
+  formatGlucoseValue,
+  RATIO_TIME_BLOCKS,
+  RATIO_TIME_BLOCK_HOURS,
+  type RatioEstimate,
+  type RatioTimeBlock,
+} from '../../utils/data';
+import { useAIAnalysisStyles } from './styles';
+import type { MealTimingDatasets } from './types';
+import type { GlucoseUnit } from '../../types';
+
+interface InsulinRatioEstimatesProps {
+  datasets: MealTimingDatasets;
+  glucoseUnit: GlucoseUnit;
+}
+
+/**
+ * Format the hours of a time-of-day block as "(06:00–12:00)"
+ */
+function formatBlockHours(block: RatioTimeBlock): string {
+  const { start, end } = RATIO_TIME_BLOCK_HOURS[block];
+  const pad = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+  return `(${pad(start)}–${pad(end)})`;
+}
+
+/**
+ * Render the mean and 95% confidence interval of an estimate
+ */
+function EstimateCell({
+  estimate,
+  format,
+}: {
+  estimate: RatioEstimate;
+  format: (value: number) => string;
+}) {
+  const styles = useAIAnalysisStyles();
+  const { t } = useTranslation('aiAnalysis');
+
+  if (estimate.mean === null) {
+    return <TableCell>-</TableCell>;
+  }
+
+  return (
+    <TableCell>
+      {format(estimate.mean)}
+      {estimate.ciLow !== null && estimate.ciHigh !== null && (
+        <Text className={styles.ratioIntervalText}>
+          {' '}({t('aiAnalysis.ratioEstimates.confidenceInterval', {
+            low: format(Math.max(0, estimate.ciLow)),
+            high: format(estimate.ciHigh),
+          })})
+        </Text>
+      )}
+    </TableCell>
+  );
+}
+
+/**
+ * Shows ICR and ISF per time-of-day block estimated from isolated boluses and the CGM trace that followed them.
+ *
+ * @param datasets - CGM, bolus and carb data for the selected file
+ * @param glucoseUnit - Unit used to display the ISF
+ * @returns A table of estimates, or a note when no bolus had a usable outcome
+ */
+export function InsulinRatioEstimates({ datasets, glucoseUnit }: InsulinRatioEstimatesProps) {
+  const styles = useAIAnalysisStyles();
+  const { t } = useTranslation('aiAnalysis');
+  const { cgmReadings, bolusReadings, carbEntries } = datasets;
+
+  const estimates = useMemo(
+    () => estimateInsulinRatios(bolusReadings, carbEntries, cgmReadings),
+    [bolusReadings, carbEntries, cgmReadings]
+  );
+
+  const formatIcr = (value: number) => value.toFixed(1);
+  const formatIsf = (value: number) => formatGlucoseValue(convertGlucoseValue(value, glucoseUnit), glucoseUnit);
+
+  const rows: Array<{ key: string; label: string; icr: RatioEstimate; isf: RatioEstimate }> = [
+    ...RATIO_TIME_BLOCKS.map((block, index) => ({
+      key: block,
+      label: `${t(`aiAnalysis.ratioEstimates.blocks.${block}`)} ${formatBlockHours(block)}`,
+      icr: estimates.icr[index],
+      isf: estimates.isf[index],
+    })),
+    { key: 'overall', label: t('aiAnalysis.ratioEstimates.overall'), icr: estimates.overallIcr, isf: estimates.overallIsf },
+  ];
+
+  return (
+    <div className={styles.ratioEstimatesContainer}>
+      <Text className={styles.ratioEstimatesTitle}>{t('aiAnalysis.ratioEstimates.title')}</Text>
+      <Text className={styles.helperText}>{t('aiAnalysis.ratioEstimates.description')}</Text>
+
+      {estimates.mealEvents.length === 0 && estimates.correctionEvents.length === 0 ? (
+        <Text className={styles.helperText}>{t('aiAnalysis.ratioEstimates.noEvents')}</Text>
+      ) : (
+        <Table size="small">
+          <TableHeader>
+            <TableRow>
+              <TableHeaderCell className={styles.emphasizedHeaderCell}>{t('aiAnalysis.ratioEstimates.timeOfDay')}</TableHeaderCell>
+              <TableHeaderCell>{t('aiAnalysis.ratioEstimates.icr')}</TableHeaderCell>
+              <TableHeaderCell>{t('aiAnalysis.ratioEstimates.mealEvents')}</TableHeaderCell>
+              <TableHeaderCell>{t('aiAnalysis.ratioEstimates.isf', { unit: glucoseUnit })}</TableHeaderCell>
+              <TableHeaderCell>{t('aiAnalysis.ratioEstimates.correctionEvents')}</TableHeaderCell>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.key}>
+                <TableCell className={styles.emphasizedCell}>{row.label}</TableCell>
+                <EstimateCell estimate={row.icr} format={formatIcr} />
+                <TableCell>{row.icr.eventCount}</TableCell>
+                <EstimateCell estimate={row.isf} format={formatIsf} />
+                <TableCell>{row.isf.eventCount}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
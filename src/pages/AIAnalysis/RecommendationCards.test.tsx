@@ -0,0 +1,59 @@
+/**
+ * Tests for RecommendationCards component
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { RecommendationCards } from './RecommendationCards';
+import type { StructuredAIAnalysis } from '../../types';
+
+// Mock the translation hook to return the keys
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string) => key,
+  }),
+}));
+
+const analysis: StructuredAIAnalysis = {
+  findings: [
+    { title: 'Weekend lows', detail: 'Lows cluster on Saturday nights.', confidence: 'medium', timeWindow: { date: '2025-01-11' } },
+  ],
+  recommendations: [
+    { title: 'Review dinner ratio', action: 'Lower the dinner ratio slightly.', severity: 'low', confidence: 'medium' },
+    { title: 'Lower night basal', action: 'Reduce basal between 02:00 and 05:00.', severity: 'high', confidence: 'high', timeWindow: { start: '02:00', end: '05:00' } },
+  ],
+};
+
+describe('RecommendationCards', () => {
+  it('should render recommendations by severity with links to the chart', () => {
+    render(<RecommendationCards analysis={analysis} errors={[]} />);
+
+    const titles = screen.getAllByText(/Review dinner ratio|Lower night basal/).map(element => element.textContent);
+    expect(titles).toEqual(['Lower night basal', 'Review dinner ratio']);
+    expect(screen.getByText('aiAnalysis.structured.severity.high')).toBeInTheDocument();
+
+    const agpLink = screen.getByRole('link', { name: 'aiAnalysis.structured.showInAGP' });
+    expect(agpLink).toHaveAttribute('href', '#reports/agp/02:00-05:00');
+  });
+
+  it('should render findings with links to their day', () => {
+    render(<RecommendationCards analysis={analysis} errors={[]} />);
+
+    expect(screen.getByText('Lows cluster on Saturday nights.')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'aiAnalysis.structured.showInDailyBG' }))
+      .toHaveAttribute('href', '#reports/dailyBG/2025-01-11');
+  });
+
+  it('should show a warning when the structured output is invalid', () => {
+    render(<RecommendationCards analysis={null} errors={['$.recommendations must be an array']} />);
+
+    expect(screen.getByText(/aiAnalysis\.structured\.invalid/)).toBeInTheDocument();
+    expect(screen.getByText(/\$\.recommendations must be an array/)).toBeInTheDocument();
+    expect(screen.queryByText('aiAnalysis.structured.recommendations')).not.toBeInTheDocument();
+  });
+
+  it('should render nothing without output or errors', () => {
+    const { container } = render(<RecommendationCards analysis={null} errors={[]} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Structured findings and recommendations shown under an AI analysis result
+ */
+
+import { Badge, Card, Link, MessageBar, MessageBarBody, Text } from '@fluentui/react-components';
+import { useTranslation } from 'react-i18next';
+import type { AIAnalysisLevel, ChartFocus, StructuredAIAnalysis } from '../../types';
+import { getChartFocusLink } from '../../utils/data/chartFocusUtils';
+import { useAIAnalysisStyles } from './styles';
+
+/** Badge color of each recommendation severity */
+const SEVERITY_COLORS: Record<AIAnalysisLevel, 'danger' | 'warning' | 'informative'> = {
+  high: 'danger',
+  medium: 'warning',
+  low: 'informative',
+};
+
+interface RecommendationCardsProps {
+  /** Validated structured output, or null if it is missing or invalid */
+  analysis: StructuredAIAnalysis | null;
+  /** Reasons the structured output was rejected */
+  errors: string[];
+}
+
+/**
+ * Link to the report chart showing the time window of a finding or recommendation
+ */
+function ChartFocusLink({ timeWindow }: { timeWindow?: ChartFocus }) {
+  const { t } = useTranslation('aiAnalysis');
+  const link = timeWindow ? getChartFocusLink(timeWindow) : null;
+
+  if (!timeWindow || !link) {
+    return null;
+  }
+
+  const label = [timeWindow.date, timeWindow.start && timeWindow.end ? `${timeWindow.start}–${timeWindow.end}` : null]
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <Link href={link}>
+      {t(link.startsWith('#reports/agp') ? 'aiAnalysis.structured.showInAGP' : 'aiAnalysis.structured.showInDailyBG', { window: label })}
+    </Link>
+  );
+}
+
+/**
+ * Cards for the recommendations of a structured AI analysis, most severe first,
+ * followed by the key findings. Each item with a time window links to the
+ * matching chart in the daily BG or AGP report.
+ */
+export function RecommendationCards({ analysis, errors }: RecommendationCardsProps) {
+  const styles = useAIAnalysisStyles();
+  const { t } = useTranslation('aiAnalysis');
+
+  if (!analysis) {
+    return errors.length > 0 ? (
+      <MessageBar intent="warning">
+        <MessageBarBody>
+          {t('aiAnalysis.structured.invalid')} ({errors.slice(0, 3).join('; ')})
+        </MessageBarBody>
+      </MessageBar>
+    ) : null;
+  }
+
+  const severityOrder: AIAnalysisLevel[] = ['high', 'medium', 'low'];
+  const recommendations = [...analysis.recommendations]
+    .sort((a, b) => severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity));
+
+  return (
+    <div className={styles.structuredContainer}>
+      <Text className={styles.structuredTitle}>{t('aiAnalysis.structured.recommendations')}</Text>
+      <div className={styles.recommendationGrid}>
+        {recommendations.map((recommendation, index) => (
+          <Card key={index} className={styles.recommendationCard}>
+            <div className={styles.recommendationHeader}>
+              <Text weight="semibold">{recommendation.title}</Text>
+              <Badge appearance="tint" color={SEVERITY_COLORS[recommendation.severity]}>
+                {t(`aiAnalysis.structured.severity.${recommendation.severity}`)}
+              </Badge>
+            </div>
+            <Text>{recommendation.action}</Text>
+            <Text className={styles.ratioIntervalText}>
+              {t(`aiAnalysis.structured.confidence.${recommendation.confidence}`)}
+            </Text>
+            <ChartFocusLink timeWindow={recommendation.timeWindow} />
+          </Card>
+        ))}
+      </div>
+
+      {analysis.findings.length > 0 && (
+        <>
+          <Text className={styles.structuredTitle}>{t('aiAnalysis.structured.findings')}</Text>
+          <ul className={styles.findingList}>
+            {analysis.findings.map((finding, index) => (
+              <li key={index}>
+                <Text weight="semibold">{finding.title}:</Text> <Text>{finding.detail}</Text>{' '}
+                <Text className={styles.ratioIntervalText}>
+                  ({t(`aiAnalysis.structured.confidence.${finding.confidence}`)})
+                </Text>{' '}
+                <ChartFocusLink timeWindow={finding.timeWindow} />
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -119,6 +119,11 @@ export const useAIAnalysisStyles = makeStyles({
     flexDirection: 'column',
     ...shorthands.gap('12px'),
   },
+  buttonRow: {
+    display: 'flex',
+    alignItems: 'center',
+    ...shorthands.gap('8px'),
+  },
   comingSoonText: {
     fontSize: tokens.fontSizeBase400,
     color: tokens.colorNeutralForeground3,
@@ -138,9 +143,77 @@ export const useAIAnalysisStyles = makeStyles({
     ...shorthands.gap('12px'),
     ...shorthands.padding('24px'),
   },
+  streamingStatus: {
+    display: 'flex',
+    alignItems: 'center',
+    ...shorthands.gap('8px'),
+    marginTop: '16px',
+  },
   errorContainer: {
     marginTop: '16px',
   },
+  followUpContainer: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap('12px'),
+    marginTop: '8px',
+    paddingTop: '16px',
+    ...shorthands.borderTop('1px', 'solid', tokens.colorNeutralStroke2),
+  },
+  followUpTitle: {
+    fontSize: tokens.fontSizeBase400,
+    fontWeight: tokens.fontWeightSemibold,
+    color: tokens.colorNeutralForeground1,
+  },
+  followUpQuestion: {
+    alignSelf: 'flex-end',
+    maxWidth: '80%',
+    ...shorthands.padding('8px', '12px'),
+    ...shorthands.borderRadius('8px'),
+    backgroundColor: tokens.colorBrandBackground2,
+    color: tokens.colorNeutralForeground1,
+    whiteSpace: 'pre-wrap',
+  },
+  followUpAnswer: {
+    ...shorthands.padding('16px'),
+    ...shorthands.borderRadius('8px'),
+    backgroundColor: tokens.colorNeutralBackground1,
+    ...shorthands.border('1px', 'solid', tokens.colorNeutralStroke1),
+  },
+  structuredContainer: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap('12px'),
+    marginTop: '16px',
+  },
+  structuredTitle: {
+    fontSize: tokens.fontSizeBase400,
+    fontWeight: tokens.fontWeightSemibold,
+    color: tokens.colorNeutralForeground1,
+  },
+  recommendationGrid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fill, minmax(260px, 1fr))',
+    ...shorthands.gap('12px'),
+  },
+  recommendationCard: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap('8px'),
+  },
+  recommendationHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    ...shorthands.gap('8px'),
+  },
+  findingList: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap('8px'),
+    ...shorthands.margin('0'),
+    paddingLeft: '20px',
+  },
   successIcon: {
     color: tokens.colorStatusSuccessForeground1,
   },
@@ -179,4 +252,23 @@ export const useAIAnalysisStyles = makeStyles({
     fontWeight: tokens.fontWeightRegular,
     backgroundColor: tokens.colorNeutralBackground2,
   },
+  ratioEstimatesContainer: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap('12px'),
+    ...shorthands.padding('16px'),
+    ...shorthands.borderRadius('8px'),
+    backgroundColor: tokens.colorNeutralBackground1,
+    ...shorthands.border('1px', 'solid', tokens.colorNeutralStroke1),
+    overflowX: 'auto',
+  },
+  ratioEstimatesTitle: {
+    fontSize: tokens.fontSizeBase400,
+    fontWeight: tokens.fontWeightSemibold,
+    color: tokens.colorNeutralForeground1,
+  },
+  ratioIntervalText: {
+    fontSize: tokens.fontSizeBase200,
+    color: tokens.colorNeutralForeground3,
+  },
 });
@@ -2,7 +2,7 @@
  * Glucose & Insulin Tab - AI analysis for glucose and insulin correlation
  */
 
-import { useEffect } from 'react';
+import { useCallback, useEffect } from 'react';
 import {
   Text,
   Accordion,
@@ -18,7 +18,14 @@ import {
 } from '@fluentui/react-components';
 import { TableContainer } from '../../../components/TableContainer';
 import { generateGlucoseInsulinPrompt } from '../../../features/aiAnalysis/prompts';
-import { callAIWithRouting } from '../../../utils/api';
+import {
+  buildDailyReportSummaries,
+  fitPromptToBudget,
+  formatPromptSummaries,
+  getDataCoverageResponseNote,
+  getRawDataCoverageNote,
+} from '../../../features/aiAnalysis/promptContext';
+import { callAIWithRouting, isRequestTooLargeError, getPromptTokenBudget, DEFAULT_CUSTOM_PROVIDER_SETTINGS } from '../../../utils/api';
 import { convertDailyReportsToCSV, calculatePercentage } from '../../../utils/data';
 import { base64Encode } from '../../../utils/formatting';
 import { usePromptProvider } from '../../../hooks/usePromptProvider';
@@ -31,7 +38,10 @@ import {
   AnalysisLoading,
   AnalysisError,
   AnalysisResult,
+  RetryNotification,
+  PromptPreview,
 } from '../AnalysisComponents';
+import { FollowUpChat } from '../FollowUpChat';
 import type { GlucoseInsulinTabProps } from '../types';
 import type { DailyReport } from '../../../types';
 
@@ -70,7 +80,7 @@ function convertDatasetToArray(reports: DailyReport[]): (string | number)[][] {
 }
 
 /**
- * Renders the GlucoseInsulinTab UI for performing AI-driven correlation analysis between glucose ranges and insulin doses, including controls, status, optional prompt and dataset views, and analysis results.
+ * Renders the GlucoseInsulinTab UI for performing AI-driven correlation analysis between glucose ranges and insulin doses, sending day-of-week summaries of the whole period plus as many recent daily reports as fit the provider's prompt size limit, and including controls, status, optional prompt and dataset views, and analysis results.
  *
  * @returns A JSX element containing analysis controls (Analyze button, helper text, cooldown indicator), optional "View AI Prompt" and dataset accordions, and components showing analysis loading, errors, and results.
  */
@@ -82,12 +92,16 @@ export function GlucoseInsulinTab({
   combinedDataset,
   responseLanguage,
   glucoseUnit,
+  annotations,
   perplexityApiKey,
   geminiApiKey,
   grokApiKey,
+  customProvider = DEFAULT_CUSTOM_PROVIDER_SETTINGS,
   isProUser,
   idToken,
   useProKeys,
+  conversation,
+  onConversationChange,
 }: GlucoseInsulinTabProps) {
   const styles = useAIAnalysisStyles();
   
@@ -98,16 +112,26 @@ export function GlucoseInsulinTab({
     cooldownActive,
     cooldownSeconds,
     ready,
+    retryInfo,
+    streamingResponse,
     startAnalysis,
+    updateStreamingResponse,
+    cancelAnalysis,
     completeAnalysis,
     setAnalysisError,
     triggerCooldown,
     reset,
-  } = useAnalysisState();
+    setRetryInfo,
+  } = useAnalysisState({ initialResponse: conversation?.response });
 
   // Determine the provider to use in prompts based on Pro user settings
   const { promptProvider } = usePromptProvider({ isProUser, useProKeys, activeProvider });
 
+  // Get the appropriate API key for the active provider
+  const apiKey = activeProvider === 'custom' ? customProvider.apiKey :
+                  activeProvider === 'perplexity' ? perplexityApiKey : 
+                  activeProvider === 'grok' ? grokApiKey : geminiApiKey;
+
   // Reset state when data changes
   useEffect(() => {
     if (combinedDataset.length === 0) {
@@ -115,6 +139,52 @@ export function GlucoseInsulinTab({
     }
   }, [combinedDataset.length, reset]);
 
+  // Token budget of the prompt for the provider the request is routed to
+  const getTokenBudget = useCallback(
+    () => activeProvider ? getPromptTokenBudget(activeProvider, { isProUser, useProKeys, idToken }) : 0,
+    [activeProvider, isProUser, useProKeys, idToken]
+  );
+
+  // Generate the prompt: day-of-week summaries of the whole period plus the reports of the most recent days that fit the budget
+  const buildPrompt = useCallback((budgetTokens: number) => {
+    const reports = [...combinedDataset].sort((a, b) => a.date.localeCompare(b.date));
+    const totalDays = reports.length;
+    const summaries = buildDailyReportSummaries(reports);
+
+    const budgeted = fitPromptToBudget(days => generateGlucoseInsulinPrompt(
+      base64Encode(convertDailyReportsToCSV(days > 0 ? reports.slice(-days) : [])),
+      responseLanguage,
+      glucoseUnit,
+      promptProvider,
+      annotations,
+      formatPromptSummaries(summaries, getRawDataCoverageNote(days, totalDays))
+    ), totalDays, budgetTokens);
+
+    return { ...budgeted, totalDays };
+  }, [combinedDataset, responseLanguage, glucoseUnit, promptProvider, annotations]);
+
+  // Prompt shown in the geek stats panel
+  const buildPreviewPrompt = useCallback(() => buildPrompt(getTokenBudget()).prompt, [buildPrompt, getTokenBudget]);
+
+  // Helper function to try analysis with the prompt fitted into a token budget
+  const tryAnalysis = async (signal: AbortSignal, budgetTokens: number) => {
+    const { prompt, included, totalDays } = buildPrompt(budgetTokens);
+
+    // Call the AI API with routing - the routing logic handles Pro vs client-side API calls
+    const result = await callAIWithRouting(activeProvider!, prompt, {
+      apiKey: apiKey,
+      customProvider,
+      idToken: idToken || undefined,
+      isProUser,
+      useProKeys,
+      onChunk: updateStreamingResponse,
+      signal,
+    });
+
+    // Keep the prompt for follow-up questions
+    return { ...result, prompt, included, totalDays };
+  };
+
   const handleAnalyzeClick = async () => {
     if (!activeProvider || combinedDataset.length === 0) {
       return;
@@ -136,33 +206,32 @@ export function GlucoseInsulinTab({
       return;
     }
 
-    startAnalysis();
+    const signal = startAnalysis();
     const previousResponse = response;
 
     try {
-      // Convert combined dataset to CSV
-      const csvData = convertDailyReportsToCSV(combinedDataset);
-      
-      // Base64 encode the CSV data
-      const base64CsvData = base64Encode(csvData);
-
-      // Generate the prompt with the base64 CSV data
-      const prompt = generateGlucoseInsulinPrompt(base64CsvData, responseLanguage, glucoseUnit, promptProvider);
-
-      // Get the appropriate API key for the active provider
-      const apiKey = activeProvider === 'perplexity' ? perplexityApiKey : 
-                      activeProvider === 'grok' ? grokApiKey : geminiApiKey;
-
-      // Call the AI API with routing - the routing logic handles Pro vs client-side API calls
-      const result = await callAIWithRouting(activeProvider, prompt, {
-        apiKey: apiKey,
-        idToken: idToken || undefined,
-        isProUser,
-        useProKeys,
-      });
+      let budgetTokens = getTokenBudget();
+      let result = await tryAnalysis(signal, budgetTokens);
+
+      // The token estimate is approximate: if the provider still rejects the size, halve the budget while daily reports are left to drop
+      while (!result.success && isRequestTooLargeError(result.error) && result.included > 0) {
+        budgetTokens = Math.floor(budgetTokens / 2);
+        setRetryInfo('Prompt too large for the AI provider. Retrying with less detailed data...');
+        result = await tryAnalysis(signal, budgetTokens);
+      }
+
+      // Tell the user when only part of the daily reports was sent
+      const datasetInfo = getDataCoverageResponseNote(result.included, result.totalDays, 'days');
+
+      // Cancelled by the user; the previous response stays visible
+      if (result.errorType === 'aborted') {
+        return;
+      }
 
       if (result.success && result.content) {
-        completeAnalysis(result.content);
+        completeAnalysis(datasetInfo + result.content);
+        // A new analysis starts a new follow-up conversation
+        onConversationChange?.({ prompt: result.prompt, response: datasetInfo + result.content, messages: [] });
       } else {
         // On error, keep the previous response if it exists
         setAnalysisError(result.error || 'Failed to get AI response');
@@ -207,6 +276,7 @@ export function GlucoseInsulinTab({
           hasResponse={!!response}
           ready={ready}
           onClick={handleAnalyzeClick}
+          onStop={cancelAnalysis}
         />
         
         <AnalysisHelperText
@@ -221,23 +291,11 @@ export function GlucoseInsulinTab({
         <CooldownIndicator active={cooldownActive} seconds={cooldownSeconds} />
       </div>
 
+      {/* Retry notification */}
+      <RetryNotification info={retryInfo} />
+
       {/* Accordion to show prompt text */}
-      {showGeekStats && (
-        <Accordion collapsible style={{ marginTop: '16px' }}>
-          <AccordionItem value="promptText">
-            <AccordionHeader>View AI Prompt</AccordionHeader>
-            <AccordionPanel>
-              <div className={styles.promptTextContainer}>
-                {(() => {
-                  const csvData = convertDailyReportsToCSV(combinedDataset);
-                  const base64CsvData = base64Encode(csvData);
-                  return generateGlucoseInsulinPrompt(base64CsvData, responseLanguage, glucoseUnit, promptProvider);
-                })()}
-              </div>
-            </AccordionPanel>
-          </AccordionItem>
-        </Accordion>
-      )}
+      {showGeekStats && <PromptPreview buildPrompt={buildPreviewPrompt} />}
 
       {/* Accordion for dataset table */}
       {showGeekStats && (
@@ -293,9 +351,24 @@ export function GlucoseInsulinTab({
       </Accordion>
       )}
 
-      <AnalysisLoading visible={analyzing} />
+      <AnalysisLoading visible={analyzing} streamingResponse={streamingResponse} />
       <AnalysisError error={error} />
-      <AnalysisResult response={response} />
+      <AnalysisResult response={response} tab="glucoseInsulin" />
+      <FollowUpChat
+        tab="glucoseInsulin"
+        response={response}
+        conversation={conversation}
+        onConversationChange={onConversationChange}
+        activeProvider={activeProvider}
+        promptProvider={promptProvider}
+        apiKey={apiKey}
+        customProvider={customProvider}
+        responseLanguage={responseLanguage}
+        isProUser={isProUser}
+        idToken={idToken}
+        useProKeys={useProKeys}
+        disabled={analyzing}
+      />
     </div>
   );
 }
\ No newline at end of file
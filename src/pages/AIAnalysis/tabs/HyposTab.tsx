@@ -2,7 +2,7 @@
  * Hypos Tab - AI analysis for hypoglycemia patterns and risk assessment
  */
 
-import { useEffect } from 'react';
+import { useCallback, useEffect } from 'react';
 import {
   Text,
   Link,
@@ -21,7 +21,8 @@ import {
 import { InfoRegular } from '@fluentui/react-icons';
 import { TableContainer } from '../../../components/TableContainer';
 import { generateHyposPrompt } from '../../../features/aiAnalysis/prompts';
-import { callAIWithRouting, isRequestTooLargeError } from '../../../utils/api';
+import { fitPromptToBudget, getDataCoverageResponseNote, getHypoEventsCoverageNote } from '../../../features/aiAnalysis/promptContext';
+import { callAIWithRouting, isRequestTooLargeError, getPromptTokenBudget, DEFAULT_CUSTOM_PROVIDER_SETTINGS } from '../../../utils/api';
 import { convertHypoEventsToCSV, convertHypoSummariesToCSV, convertHypoEventSummaryToCSV } from '../../../utils/data';
 import { base64Encode } from '../../../utils/formatting';
 import { formatDateTime, formatTime, formatGlucoseNumber, formatNumber } from '../../../utils/formatting/formatters';
@@ -36,7 +37,9 @@ import {
   AnalysisError,
   AnalysisResult,
   RetryNotification,
+  PromptPreview,
 } from '../AnalysisComponents';
+import { FollowUpChat } from '../FollowUpChat';
 import type { HyposTabProps } from '../types';
 import type { DailyHypoSummary, HypoEventData } from '../../../utils/data';
 
@@ -51,6 +54,7 @@ function convertHypoEventsToArray(events: HypoEventData[]): (string | number)[][
     'Is Severe',
     'Last Bolus (2-4h)',
     'Bolus Dose (U)',
+    'Bolus IOB At Start (U)',
   ];
 
   const rows = events.map(event => {
@@ -64,6 +68,7 @@ function convertHypoEventsToArray(events: HypoEventData[]): (string | number)[][
       event.hypoPeriod.isSevere ? 'Yes' : 'No',
       lastBolus ? formatTime(lastBolus.timestamp) : '-',
       lastBolus ? formatGlucoseNumber(lastBolus.dose, 1) : '-',
+      lastBolus ? formatNumber(lastBolus.remainingIOB, 2) : '-',
     ];
   });
 
@@ -106,7 +111,8 @@ function convertSummariesToArray(summaries: DailyHypoSummary[]): (string | numbe
  * supplied provider API keys or backend routing for Pro users), and optionally shows the generated AI prompt plus
  * raw daily summaries and individual hypo events when `showGeekStats` is enabled.
  *
- * The analysis flow will retry with only daily summaries if the full dataset is too large, and will surface a warning
+ * The prompt always includes the daily summaries and the summary of every hypo event, plus the CGM readings around
+ * as many of the most recent events as fit the provider's prompt size limit, and will surface a warning
  * toast if a backend Pro routing fallback to client keys occurs.
  *
  * @param activeProvider - Selected AI provider identifier (e.g., 'perplexity', 'grok', 'deepseek', 'gemini')
@@ -114,9 +120,12 @@ function convertSummariesToArray(summaries: DailyHypoSummary[]): (string | numbe
  * @param hypoDatasets - Hypoglycemia datasets used for display and analysis (daily summaries, events, overall stats)
  * @param responseLanguage - Language code used when generating the AI prompt
  * @param glucoseUnit - Glucose display unit used for prompts and formatting
+ * @param annotations - User annotations added to the prompt
  * @param isProUser - When true, requests may be routed via the backend so a client API key is not required
  * @param idToken - Optional identity token forwarded to backend routing for Pro users
  * @param useProKeys - When true for Pro users, backend routing is used without passing client API keys
+ * @param conversation - Follow-up conversation on the analysis; its response is shown when returning to the tab
+ * @param onConversationChange - Callback invoked when an analysis starts a new conversation or a follow-up is answered
  * @returns The React element rendering the Hypos tab UI
  */
 export function HyposTab({
@@ -127,13 +136,17 @@ export function HyposTab({
   hypoDatasets,
   responseLanguage,
   glucoseUnit,
+  annotations,
   perplexityApiKey,
   geminiApiKey,
   grokApiKey,
   deepseekApiKey,
+  customProvider = DEFAULT_CUSTOM_PROVIDER_SETTINGS,
   isProUser,
   idToken,
   useProKeys,
+  conversation,
+  onConversationChange,
 }: HyposTabProps) {
   const styles = useAIAnalysisStyles();
   const hasData = hypoDatasets !== null && hypoDatasets.dailySummaries.length > 0;
@@ -146,17 +159,28 @@ export function HyposTab({
     cooldownSeconds,
     ready,
     retryInfo,
+    streamingResponse,
     startAnalysis,
+    updateStreamingResponse,
+    cancelAnalysis,
     completeAnalysis,
     setAnalysisError,
     triggerCooldown,
     reset,
     setRetryInfo,
-  } = useAnalysisState();
+  } = useAnalysisState({ initialResponse: conversation?.response });
 
   // Determine the provider to use in prompts based on Pro user settings
   const { promptProvider } = usePromptProvider({ isProUser, useProKeys, activeProvider });
 
+  // Get the appropriate API key for the active provider
+  const apiKey = 
+    activeProvider === 'custom' ? customProvider.apiKey :
+    activeProvider === 'perplexity' ? perplexityApiKey :
+    activeProvider === 'grok' ? grokApiKey :
+    activeProvider === 'deepseek' ? deepseekApiKey :
+    geminiApiKey;
+
   // Reset state when data changes
   useEffect(() => {
     if (!hasData) {
@@ -164,41 +188,53 @@ export function HyposTab({
     }
   }, [hasData, reset]);
 
-  // Helper function to try analysis with given datasets
-  const tryAnalysis = async (
-    hypoEventsCSV: string,
-    hypoSummariesCSV: string,
-    hypoEventSummaryCSV: string = ''
-  ) => {
-    // Base64 encode the CSV data
-    const base64EventsData = base64Encode(hypoEventsCSV);
-    const base64SummariesData = base64Encode(hypoSummariesCSV);
+  // Token budget of the prompt for the provider the request is routed to
+  const getTokenBudget = useCallback(
+    () => activeProvider ? getPromptTokenBudget(activeProvider, { isProUser, useProKeys, idToken }) : 0,
+    [activeProvider, isProUser, useProKeys, idToken]
+  );
+
+  // Generate the prompt: summaries of all days and events plus the readings around the most recent events that fit the budget
+  const buildPrompt = useCallback((budgetTokens: number) => {
+    const hypoEvents = hypoDatasets?.hypoEvents ?? [];
+    const base64SummariesData = base64Encode(convertHypoSummariesToCSV(hypoDatasets?.dailySummaries ?? []));
+    const hypoEventSummaryCSV = convertHypoEventSummaryToCSV(hypoEvents);
     const base64EventSummaryData = hypoEventSummaryCSV ? base64Encode(hypoEventSummaryCSV) : undefined;
 
-    // Generate the prompt with the base64 CSV data
-    const prompt = generateHyposPrompt(
-      base64EventsData,
+    const budgeted = fitPromptToBudget(count => generateHyposPrompt(
+      base64Encode(convertHypoEventsToCSV(hypoEvents.slice(hypoEvents.length - count))),
       base64SummariesData,
       responseLanguage,
       glucoseUnit,
       promptProvider,
-      base64EventSummaryData
-    );
+      base64EventSummaryData,
+      annotations,
+      getHypoEventsCoverageNote(count, hypoEvents.length)
+    ), hypoEvents.length, budgetTokens);
+
+    return { ...budgeted, totalEvents: hypoEvents.length };
+  }, [hypoDatasets, responseLanguage, glucoseUnit, promptProvider, annotations]);
+
+  // Prompt shown in the geek stats panel
+  const buildPreviewPrompt = useCallback(() => buildPrompt(getTokenBudget()).prompt, [buildPrompt, getTokenBudget]);
 
-    // Get the appropriate API key for the active provider
-    const apiKey = 
-      activeProvider === 'perplexity' ? perplexityApiKey :
-      activeProvider === 'grok' ? grokApiKey :
-      activeProvider === 'deepseek' ? deepseekApiKey :
-      geminiApiKey;
+  // Helper function to try analysis with the prompt fitted into a token budget
+  const tryAnalysis = async (signal: AbortSignal, budgetTokens: number) => {
+    const { prompt, included, totalEvents } = buildPrompt(budgetTokens);
 
     // Call the AI API with routing - the routing logic handles Pro vs client-side API calls
-    return await callAIWithRouting(activeProvider!, prompt, {
+    const result = await callAIWithRouting(activeProvider!, prompt, {
       apiKey: apiKey,
+      customProvider,
       idToken: idToken || undefined,
       isProUser,
       useProKeys,
+      onChunk: updateStreamingResponse,
+      signal,
     });
+
+    // Keep the prompt for follow-up questions
+    return { ...result, prompt, included, totalEvents };
   };
 
   const handleAnalyzeClick = async () => {
@@ -222,34 +258,32 @@ export function HyposTab({
       return;
     }
 
-    startAnalysis();
+    const signal = startAnalysis();
     const previousResponse = response;
 
     try {
-      // Convert datasets to CSV format
-      const hypoEventsCSV = convertHypoEventsToCSV(hypoDatasets.hypoEvents);
-      const hypoSummariesCSV = convertHypoSummariesToCSV(hypoDatasets.dailySummaries);
-      const hypoEventSummaryCSV = convertHypoEventSummaryToCSV(hypoDatasets.hypoEvents);
-
-      // First attempt: try with full dataset
-      let result = await tryAnalysis(hypoEventsCSV, hypoSummariesCSV, hypoEventSummaryCSV);
-      let datasetInfo = '';
-
-      // If request was too large, try with limited data
-      if (!result.success && isRequestTooLargeError(result.error)) {
-        setRetryInfo('Dataset too large. Retrying with summary data only...');
-        
-        // Second attempt: try with just summaries (no individual events)
-        const emptyCsv = '';
-        result = await tryAnalysis(emptyCsv, hypoSummariesCSV);
-        
-        if (result.success && result.content) {
-          datasetInfo = '**Note:** Analysis based on daily summaries only due to dataset size constraints. Individual hypo event details were not included.\n\n';
-        }
+      let budgetTokens = getTokenBudget();
+      let result = await tryAnalysis(signal, budgetTokens);
+
+      // The token estimate is approximate: if the provider still rejects the size, halve the budget while event readings are left to drop
+      while (!result.success && isRequestTooLargeError(result.error) && result.included > 0) {
+        budgetTokens = Math.floor(budgetTokens / 2);
+        setRetryInfo('Prompt too large for the AI provider. Retrying with fewer event details...');
+        result = await tryAnalysis(signal, budgetTokens);
+      }
+
+      // Tell the user when only part of the event readings was sent
+      const datasetInfo = getDataCoverageResponseNote(result.included, result.totalEvents, 'hypo events');
+
+      // Cancelled by the user; the previous response stays visible
+      if (result.errorType === 'aborted') {
+        return;
       }
 
       if (result.success && result.content) {
         completeAnalysis(datasetInfo + result.content);
+        // A new analysis starts a new follow-up conversation
+        onConversationChange?.({ prompt: result.prompt, response: datasetInfo + result.content, messages: [] });
       } else {
         // On error, keep the previous response if it exists
         setAnalysisError(result.error || 'Failed to get AI response');
@@ -357,6 +391,7 @@ export function HyposTab({
           hasResponse={!!response}
           ready={ready}
           onClick={handleAnalyzeClick}
+          onStop={cancelAnalysis}
         />
         
         <AnalysisHelperText
@@ -375,24 +410,7 @@ export function HyposTab({
       <RetryNotification info={retryInfo} />
 
       {/* Accordion to show prompt text */}
-      {showGeekStats && (
-        <Accordion collapsible style={{ marginTop: '16px' }}>
-          <AccordionItem value="promptText">
-            <AccordionHeader>View AI Prompt</AccordionHeader>
-            <AccordionPanel>
-              <div className={styles.promptTextContainer}>
-                {(() => {
-                  const hypoEventsCSV = convertHypoEventsToCSV(hypoDatasets!.hypoEvents);
-                  const hypoSummariesCSV = convertHypoSummariesToCSV(hypoDatasets!.dailySummaries);
-                  const base64EventsData = base64Encode(hypoEventsCSV);
-                  const base64SummariesData = base64Encode(hypoSummariesCSV);
-                  return generateHyposPrompt(base64EventsData, base64SummariesData, responseLanguage, glucoseUnit, promptProvider);
-                })()}
-              </div>
-            </AccordionPanel>
-          </AccordionItem>
-        </Accordion>
-      )}
+      {showGeekStats && <PromptPreview buildPrompt={buildPreviewPrompt} />}
 
       {/* Accordion for daily summaries table */}
       {showGeekStats && (
@@ -471,6 +489,7 @@ export function HyposTab({
                       <TableHeaderCell className={styles.emphasizedHeaderCell}>Severe</TableHeaderCell>
                       <TableHeaderCell>Last Bolus (2-4h)</TableHeaderCell>
                       <TableHeaderCell>Bolus Dose</TableHeaderCell>
+                      <TableHeaderCell>IOB At Start</TableHeaderCell>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -494,6 +513,9 @@ export function HyposTab({
                         <TableCell>
                           {event.lastBolusBeforeHypo ? `${formatGlucoseNumber(event.lastBolusBeforeHypo.dose, 1)}U` : '-'}
                         </TableCell>
+                        <TableCell>
+                          {event.lastBolusBeforeHypo ? `${formatNumber(event.lastBolusBeforeHypo.remainingIOB, 2)}U` : '-'}
+                        </TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
@@ -504,9 +526,24 @@ export function HyposTab({
         </Accordion>
       )}
 
-      <AnalysisLoading visible={analyzing} />
+      <AnalysisLoading visible={analyzing} streamingResponse={streamingResponse} />
       <AnalysisError error={error} />
-      <AnalysisResult response={response} />
+      <AnalysisResult response={response} tab="hypos" />
+      <FollowUpChat
+        tab="hypos"
+        response={response}
+        conversation={conversation}
+        onConversationChange={onConversationChange}
+        activeProvider={activeProvider}
+        promptProvider={promptProvider}
+        apiKey={apiKey}
+        customProvider={customProvider}
+        responseLanguage={responseLanguage}
+        isProUser={isProUser}
+        idToken={idToken}
+        useProKeys={useProKeys}
+        disabled={analyzing}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -2,7 +2,7 @@
  * Pump Settings Tab - AI analysis for pump settings verification
  */
 
-import { useEffect } from 'react';
+import { useCallback, useEffect } from 'react';
 import {
   Text,
   Accordion,
@@ -11,13 +11,22 @@ import {
   AccordionPanel,
 } from '@fluentui/react-components';
 import { generatePumpSettingsPrompt } from '../../../features/aiAnalysis/prompts';
-import { callAIWithRouting, isRequestTooLargeError } from '../../../utils/api';
+import {
+  buildGlucoseInsulinSummaries,
+  filterRawDatasetsToLastDays,
+  fitPromptToBudget,
+  formatPromptSummaries,
+  getDataCoverageResponseNote,
+  getRawDataCoverageNote,
+} from '../../../features/aiAnalysis/promptContext';
+import { callAIWithRouting, isRequestTooLargeError, getPromptTokenBudget, DEFAULT_CUSTOM_PROVIDER_SETTINGS } from '../../../utils/api';
 import { 
   convertGlucoseReadingsToCSV, 
   convertBolusReadingsToCSV, 
   convertBasalReadingsToCSV,
-  filterGlucoseReadingsToLastDays,
-  filterInsulinReadingsToLastDays,
+  analyzeNights,
+  convertNightAnalysesToCSV,
+  getDataSpanDays,
 } from '../../../utils/data';
 import { base64Encode } from '../../../utils/formatting';
 import { formatDate } from '../../../utils/formatting/formatters';
@@ -32,28 +41,36 @@ import {
   AnalysisError,
   AnalysisResult,
   RetryNotification,
+  PromptPreview,
 } from '../AnalysisComponents';
+import { FollowUpChat } from '../FollowUpChat';
+import { InsulinRatioEstimates } from '../InsulinRatioEstimates';
 import type { PumpSettingsTabProps } from '../types';
-import type { GlucoseReading, InsulinReading } from '../../../types';
 
 /**
  * Renders the Pump Settings analysis tab UI and coordinates AI-driven verification of pump settings from provided datasets.
  *
- * Displays UI controls to start analysis, handles dataset size fallbacks (full → 28 days → 7 days), routes requests differently for Pro users, and shows analysis status, errors, and results.
+ * Displays UI controls to start analysis, sends summaries of the whole period plus as much recent raw data as fits the provider's prompt size limit, routes requests differently for Pro users, and shows analysis status, errors, and results.
+ * Locally computed ICR/ISF estimates are shown next to the AI output.
  *
  * @param loading - Whether underlying data is still loading
  * @param hasApiKey - Whether a valid local API key is available for non-Pro flows
  * @param activeProvider - Selected AI provider identifier (e.g., 'perplexity', 'grok', 'deepseek', or provider for Gemini)
  * @param showGeekStats - When true, shows developer-facing debug accordions (prompt and dataset summary)
- * @param mealTimingDatasets - Object containing input datasets: `cgmReadings`, `bolusReadings`, and `basalReadings`
+ * @param mealTimingDatasets - Object containing input datasets: `cgmReadings`, `bolusReadings`, `basalReadings` and `carbEntries`
  * @param responseLanguage - Target language for the AI response
  * @param glucoseUnit - Glucose unit used for formatting and prompt (e.g., 'mg/dL' or 'mmol/L')
+ * @param annotations - User annotations added to the prompt
+ * @param sleepWindow - Usual sleep window; each night in it is summarized for the prompt
  * @param perplexityApiKey - API key for the Perplexity provider (used for non-Pro users)
  * @param geminiApiKey - API key for Gemini provider (used for non-Pro users)
  * @param grokApiKey - API key for the Grok provider (used for non-Pro users)
  * @param deepseekApiKey - API key for the Deepseek provider (used for non-Pro users)
+ * @param customProvider - Base URL, model and optional API key of the custom provider (used for non-Pro users)
  * @param isProUser - When true, routes AI requests through the backend and omits a per-call API key
  * @param idToken - Optional identity token forwarded for backend-routed (Pro) requests
+ * @param conversation - Follow-up conversation on the analysis; its response is shown when returning to the tab
+ * @param onConversationChange - Callback invoked when an analysis starts a new conversation or a follow-up is answered
  * @returns The rendered Pump Settings tab React element
  */
 export function PumpSettingsTab({
@@ -64,16 +81,21 @@ export function PumpSettingsTab({
   mealTimingDatasets,
   responseLanguage,
   glucoseUnit,
+  annotations,
+  sleepWindow,
   perplexityApiKey,
   geminiApiKey,
   grokApiKey,
   deepseekApiKey,
+  customProvider = DEFAULT_CUSTOM_PROVIDER_SETTINGS,
   isProUser,
   idToken,
   useProKeys,
+  conversation,
+  onConversationChange,
 }: PumpSettingsTabProps) {
   const styles = useAIAnalysisStyles();
-  const { cgmReadings, bolusReadings, basalReadings } = mealTimingDatasets;
+  const { cgmReadings, bolusReadings, basalReadings, carbEntries } = mealTimingDatasets;
   const hasData = cgmReadings.length > 0 && bolusReadings.length > 0;
   
   const {
@@ -84,17 +106,27 @@ export function PumpSettingsTab({
     cooldownSeconds,
     ready,
     retryInfo,
+    streamingResponse,
     startAnalysis,
+    updateStreamingResponse,
+    cancelAnalysis,
     completeAnalysis,
     setAnalysisError,
     triggerCooldown,
     reset,
     setRetryInfo,
-  } = useAnalysisState();
+  } = useAnalysisState({ initialResponse: conversation?.response });
 
   // Determine the provider to use in prompts based on Pro user settings
   const { promptProvider } = usePromptProvider({ isProUser, useProKeys, activeProvider });
 
+  // Get the appropriate API key for the active provider
+  const apiKey = activeProvider === 'custom' ? customProvider.apiKey
+                : activeProvider === 'perplexity' ? perplexityApiKey
+                : activeProvider === 'grok' ? grokApiKey
+                : activeProvider === 'deepseek' ? deepseekApiKey
+                : geminiApiKey;
+
   // Reset state when data changes
   useEffect(() => {
     if (!hasData) {
@@ -102,38 +134,58 @@ export function PumpSettingsTab({
     }
   }, [hasData, reset]);
 
-  // Helper function to try analysis with given datasets
-  const tryAnalysis = async (
-    cgm: GlucoseReading[],
-    bolus: InsulinReading[],
-    basal: InsulinReading[]
-  ) => {
-    // Convert datasets to CSV format
-    const cgmCsv = convertGlucoseReadingsToCSV(cgm);
-    const bolusCsv = convertBolusReadingsToCSV(bolus);
-    const basalCsv = convertBasalReadingsToCSV(basal);
-    
-    // Base64 encode the CSV data
-    const base64CgmData = base64Encode(cgmCsv);
-    const base64BolusData = base64Encode(bolusCsv);
-    const base64BasalData = base64Encode(basalCsv);
-
-    // Generate the prompt with the base64 CSV data
-    const prompt = generatePumpSettingsPrompt(base64CgmData, base64BolusData, base64BasalData, responseLanguage, glucoseUnit, promptProvider);
-
-    // Get the appropriate API key for the active provider
-    const apiKey = activeProvider === 'perplexity' ? perplexityApiKey
-                  : activeProvider === 'grok' ? grokApiKey
-                  : activeProvider === 'deepseek' ? deepseekApiKey
-                  : geminiApiKey;
+  // Token budget of the prompt for the provider the request is routed to
+  const getTokenBudget = useCallback(
+    () => activeProvider ? getPromptTokenBudget(activeProvider, { isProUser, useProKeys, idToken }) : 0,
+    [activeProvider, isProUser, useProKeys, idToken]
+  );
+
+  // Generate the prompt: summaries of the whole period plus the raw data of the most recent days that fit the budget
+  const buildPrompt = useCallback((budgetTokens: number) => {
+    const datasets = { cgmReadings, bolusReadings, basalReadings };
+    const totalDays = getDataSpanDays(cgmReadings);
+    const summaries = buildGlucoseInsulinSummaries(datasets, carbEntries);
+
+    const budgeted = fitPromptToBudget(days => {
+      const raw = filterRawDatasetsToLastDays(datasets, days);
+      const nightsCsv = convertNightAnalysesToCSV(analyzeNights(raw.cgmReadings, sleepWindow));
+
+      return generatePumpSettingsPrompt(
+        base64Encode(convertGlucoseReadingsToCSV(raw.cgmReadings)),
+        base64Encode(convertBolusReadingsToCSV(raw.bolusReadings)),
+        base64Encode(convertBasalReadingsToCSV(raw.basalReadings)),
+        responseLanguage,
+        glucoseUnit,
+        promptProvider,
+        base64Encode(nightsCsv),
+        annotations,
+        formatPromptSummaries(summaries, getRawDataCoverageNote(days, totalDays))
+      );
+    }, totalDays, budgetTokens);
+
+    return { ...budgeted, totalDays };
+  }, [cgmReadings, bolusReadings, basalReadings, carbEntries, sleepWindow, responseLanguage, glucoseUnit, promptProvider, annotations]);
+
+  // Prompt shown in the geek stats panel
+  const buildPreviewPrompt = useCallback(() => buildPrompt(getTokenBudget()).prompt, [buildPrompt, getTokenBudget]);
+
+  // Helper function to try analysis with the prompt fitted into a token budget
+  const tryAnalysis = async (signal: AbortSignal, budgetTokens: number) => {
+    const { prompt, included, totalDays } = buildPrompt(budgetTokens);
 
     // Call the AI API with routing - the routing logic handles Pro vs client-side API calls
-    return await callAIWithRouting(activeProvider!, prompt, {
+    const result = await callAIWithRouting(activeProvider!, prompt, {
       apiKey: apiKey,
+      customProvider,
       idToken: idToken || undefined,
       isProUser,
       useProKeys,
+      onChunk: updateStreamingResponse,
+      signal,
     });
+
+    // Keep the prompt for follow-up questions
+    return { ...result, prompt, included, totalDays };
   };
 
   const handleAnalyzeClick = async () => {
@@ -157,54 +209,32 @@ export function PumpSettingsTab({
       return;
     }
 
-    startAnalysis();
+    const signal = startAnalysis();
     const previousResponse = response;
 
     try {
-      // First attempt: try with full dataset
-      let result = await tryAnalysis(cgmReadings, bolusReadings, basalReadings);
-      let datasetInfo = '';
+      let budgetTokens = getTokenBudget();
+      let result = await tryAnalysis(signal, budgetTokens);
 
-      // If request was too large, try with smaller dataset (last 28 days)
-      if (!result.success && isRequestTooLargeError(result.error)) {
-        setRetryInfo('Dataset too large. Retrying with last 28 days of data...');
-        
-        // Filter datasets to last 28 days
-        const filteredCgm28 = filterGlucoseReadingsToLastDays(cgmReadings, 28);
-        const filteredBolus28 = filterInsulinReadingsToLastDays(bolusReadings, 28);
-        const filteredBasal28 = filterInsulinReadingsToLastDays(basalReadings, 28);
-
-        // Verify we still have data after filtering
-        if (filteredCgm28.length > 0 && filteredBolus28.length > 0) {
-          // Second attempt: try with 28-day filtered dataset
-          result = await tryAnalysis(filteredCgm28, filteredBolus28, filteredBasal28);
-          
-          // If still too large, try with 7 days
-          if (!result.success && isRequestTooLargeError(result.error)) {
-            setRetryInfo('28-day dataset still too large. Retrying with last 7 days of data...');
-            
-            // Filter datasets to last 7 days
-            const filteredCgm7 = filterGlucoseReadingsToLastDays(cgmReadings, 7);
-            const filteredBolus7 = filterInsulinReadingsToLastDays(bolusReadings, 7);
-            const filteredBasal7 = filterInsulinReadingsToLastDays(basalReadings, 7);
-
-            // Verify we still have data after filtering
-            if (filteredCgm7.length > 0 && filteredBolus7.length > 0) {
-              // Third attempt: try with 7-day filtered dataset
-              result = await tryAnalysis(filteredCgm7, filteredBolus7, filteredBasal7);
-              
-              if (result.success && result.content) {
-                datasetInfo = '**Note:** Analysis based on the last 7 days of data due to dataset size constraints.\n\n';
-              }
-            }
-          } else if (result.success && result.content) {
-            datasetInfo = '**Note:** Analysis based on the last 28 days of data due to dataset size constraints.\n\n';
-          }
-        }
+      // The token estimate is approximate: if the provider still rejects the size, halve the budget while raw data is left to drop
+      while (!result.success && isRequestTooLargeError(result.error) && result.included > 0) {
+        budgetTokens = Math.floor(budgetTokens / 2);
+        setRetryInfo('Prompt too large for the AI provider. Retrying with less detailed data...');
+        result = await tryAnalysis(signal, budgetTokens);
+      }
+
+      // Tell the user when only part of the raw data was sent
+      const datasetInfo = getDataCoverageResponseNote(result.included, result.totalDays, 'days');
+
+      // Cancelled by the user; the previous response stays visible
+      if (result.errorType === 'aborted') {
+        return;
       }
 
       if (result.success && result.content) {
         completeAnalysis(datasetInfo + result.content);
+        // A new analysis starts a new follow-up conversation
+        onConversationChange?.({ prompt: result.prompt, response: datasetInfo + result.content, messages: [] });
       } else {
         // On error, keep the previous response if it exists
         setAnalysisError(result.error || 'Failed to get AI response');
@@ -249,6 +279,7 @@ export function PumpSettingsTab({
           hasResponse={!!response}
           ready={ready}
           onClick={handleAnalyzeClick}
+          onStop={cancelAnalysis}
         />
         
         <AnalysisHelperText
@@ -267,26 +298,7 @@ export function PumpSettingsTab({
       <RetryNotification info={retryInfo} />
 
       {/* Accordion to show prompt text */}
-      {showGeekStats && (
-        <Accordion collapsible style={{ marginTop: '16px' }}>
-          <AccordionItem value="promptText">
-            <AccordionHeader>View AI Prompt</AccordionHeader>
-            <AccordionPanel>
-              <div className={styles.promptTextContainer}>
-                {(() => {
-                  const cgmCsv = convertGlucoseReadingsToCSV(cgmReadings);
-                  const bolusCsv = convertBolusReadingsToCSV(bolusReadings);
-                  const basalCsv = convertBasalReadingsToCSV(basalReadings);
-                  const base64CgmData = base64Encode(cgmCsv);
-                  const base64BolusData = base64Encode(bolusCsv);
-                  const base64BasalData = base64Encode(basalCsv);
-                  return generatePumpSettingsPrompt(base64CgmData, base64BolusData, base64BasalData, responseLanguage, glucoseUnit, promptProvider);
-                })()}
-              </div>
-            </AccordionPanel>
-          </AccordionItem>
-        </Accordion>
-      )}
+      {showGeekStats && <PromptPreview buildPrompt={buildPreviewPrompt} />}
 
       {/* Accordion for dataset summaries */}
       {showGeekStats && (
@@ -317,9 +329,26 @@ export function PumpSettingsTab({
       </Accordion>
       )}
 
-      <AnalysisLoading visible={analyzing} />
+      <InsulinRatioEstimates datasets={mealTimingDatasets} glucoseUnit={glucoseUnit} />
+
+      <AnalysisLoading visible={analyzing} streamingResponse={streamingResponse} />
       <AnalysisError error={error} />
-      <AnalysisResult response={response} />
+      <AnalysisResult response={response} tab="pumpSettings" />
+      <FollowUpChat
+        tab="pumpSettings"
+        response={response}
+        conversation={conversation}
+        onConversationChange={onConversationChange}
+        activeProvider={activeProvider}
+        promptProvider={promptProvider}
+        apiKey={apiKey}
+        customProvider={customProvider}
+        responseLanguage={responseLanguage}
+        isProUser={isProUser}
+        idToken={idToken}
+        useProKeys={useProKeys}
+        disabled={analyzing}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -11,7 +11,7 @@ import {
   AccordionPanel,
 } from '@fluentui/react-components';
 import { generateTimeInRangePrompt } from '../../../features/aiAnalysis/prompts';
-import { callAIWithRouting } from '../../../utils/api';
+import { callAIWithRouting, DEFAULT_CUSTOM_PROVIDER_SETTINGS } from '../../../utils/api';
 import { useGlucoseThresholds } from '../../../hooks/useGlucoseThresholds';
 import { usePromptProvider } from '../../../hooks/usePromptProvider';
 import { useAIAnalysisStyles } from '../styles';
@@ -24,6 +24,7 @@ import {
   AnalysisError,
   AnalysisResult,
 } from '../AnalysisComponents';
+import { FollowUpChat } from '../FollowUpChat';
 import type { TimeInRangeTabProps } from '../types';
 
 /**
@@ -37,14 +38,18 @@ import type { TimeInRangeTabProps } from '../types';
  * @param glucoseStats - Aggregated glucose statistics used to generate the AI prompt and analysis
  * @param responseLanguage - Language to request the AI response in
  * @param glucoseUnit - Unit used for glucose values (e.g., "mg/dL" or "mmol/L")
+ * @param annotations - User annotations added to the prompt
  * @param perplexityApiKey - API key for the Perplexity provider (used for non-Pro users)
  * @param geminiApiKey - API key for the Gemini provider (used for non-Pro users)
  * @param grokApiKey - API key for the Grok provider (used for non-Pro users)
+ * @param customProvider - Base URL, model and optional API key of the custom provider (used for non-Pro users)
  * @param selectedFile - Currently selected CGM data file (used to associate and save analysis results)
  * @param onAnalysisComplete - Callback invoked when an analysis is successfully saved; receives (fileId, response, inRangePercentage)
  * @param existingAnalysis - Previously saved analysis for the selected file; if present it will be loaded into the UI
  * @param isProUser - Whether the current user is a Pro user (routes AI requests through backend instead of client-side API keys)
  * @param idToken - Authentication token forwarded for Pro-user routing of AI requests
+ * @param conversation - Follow-up conversation on the analysis; its response is shown when returning to the tab
+ * @param onConversationChange - Callback invoked when an analysis starts a new conversation or a follow-up is answered
  * @returns The JSX element for the Time in Range tab UI including analyze controls, status, prompt viewer, and result display
  */
 export function TimeInRangeTab({
@@ -56,15 +61,19 @@ export function TimeInRangeTab({
   glucoseStats,
   responseLanguage,
   glucoseUnit,
+  annotations,
   perplexityApiKey,
   geminiApiKey,
   grokApiKey,
+  customProvider = DEFAULT_CUSTOM_PROVIDER_SETTINGS,
   selectedFile,
   onAnalysisComplete,
   existingAnalysis,
   isProUser,
   idToken,
   useProKeys,
+  conversation,
+  onConversationChange,
 }: TimeInRangeTabProps) {
   const styles = useAIAnalysisStyles();
   const { thresholds } = useGlucoseThresholds();
@@ -76,16 +85,24 @@ export function TimeInRangeTab({
     cooldownActive,
     cooldownSeconds,
     ready,
+    streamingResponse,
     startAnalysis,
+    updateStreamingResponse,
+    cancelAnalysis,
     completeAnalysis,
     setAnalysisError,
     triggerCooldown,
     reset,
-  } = useAnalysisState();
+  } = useAnalysisState({ initialResponse: conversation?.response });
   
   // Determine the provider to use in prompts based on Pro user settings
   const { promptProvider } = usePromptProvider({ isProUser, useProKeys, activeProvider });
   
+  // Get the appropriate API key for the active provider
+  const apiKey = activeProvider === 'custom' ? customProvider.apiKey :
+                  activeProvider === 'perplexity' ? perplexityApiKey : 
+                  activeProvider === 'grok' ? grokApiKey : geminiApiKey;
+
   // Track if we've loaded an existing analysis for this session
   const [hasLoadedExisting, setHasLoadedExisting] = useState(false);
   
@@ -127,27 +144,33 @@ export function TimeInRangeTab({
       return;
     }
 
-    startAnalysis();
+    const signal = startAnalysis();
     const previousResponse = response;
 
     try {
       // Generate the prompt with the glucose stats and thresholds
-      const prompt = generateTimeInRangePrompt(glucoseStats, thresholds, responseLanguage, glucoseUnit, promptProvider);
-
-      // Get the appropriate API key for the active provider
-      const apiKey = activeProvider === 'perplexity' ? perplexityApiKey : 
-                      activeProvider === 'grok' ? grokApiKey : geminiApiKey;
+      const prompt = generateTimeInRangePrompt(glucoseStats, thresholds, responseLanguage, glucoseUnit, promptProvider, annotations);
 
       // Call the AI API with routing - the routing logic handles Pro vs client-side API calls
       const result = await callAIWithRouting(activeProvider, prompt, {
         apiKey: apiKey,
+        customProvider,
         idToken: idToken || undefined,
         isProUser,
         useProKeys,
+        onChunk: updateStreamingResponse,
+        signal,
       });
 
+      // Cancelled by the user; the previous response stays visible
+      if (result.errorType === 'aborted') {
+        return;
+      }
+
       if (result.success && result.content) {
         completeAnalysis(result.content);
+        // A new analysis starts a new follow-up conversation
+        onConversationChange?.({ prompt, response: result.content, messages: [] });
         // Save the analysis result
         if (selectedFile?.id) {
           onAnalysisComplete(selectedFile.id, result.content, inRangePercentage);
@@ -196,6 +219,7 @@ export function TimeInRangeTab({
           hasResponse={!!response}
           ready={ready}
           onClick={handleAnalyzeClick}
+          onStop={cancelAnalysis}
         />
         
         <AnalysisHelperText
@@ -217,7 +241,7 @@ export function TimeInRangeTab({
             <AccordionHeader>View AI Prompt</AccordionHeader>
             <AccordionPanel>
               <div className={styles.promptTextContainer}>
-                {glucoseStats && generateTimeInRangePrompt(glucoseStats, thresholds, responseLanguage, glucoseUnit, promptProvider)}
+                {glucoseStats && generateTimeInRangePrompt(glucoseStats, thresholds, responseLanguage, glucoseUnit, promptProvider, annotations)}
               </div>
             </AccordionPanel>
           </AccordionItem>
@@ -228,9 +252,24 @@ export function TimeInRangeTab({
         Your glucose is {inRangePercentage}% of time in range.
       </Text>
 
-      <AnalysisLoading visible={analyzing} />
+      <AnalysisLoading visible={analyzing} streamingResponse={streamingResponse} />
       <AnalysisError error={error} />
-      <AnalysisResult response={response} />
+      <AnalysisResult response={response} tab="timeInRange" />
+      <FollowUpChat
+        tab="timeInRange"
+        response={response}
+        conversation={conversation}
+        onConversationChange={onConversationChange}
+        activeProvider={activeProvider}
+        promptProvider={promptProvider}
+        apiKey={apiKey}
+        customProvider={customProvider}
+        responseLanguage={responseLanguage}
+        isProUser={isProUser}
+        idToken={idToken}
+        useProKeys={useProKeys}
+        disabled={analyzing}
+      />
     </div>
   );
 }
\ No newline at end of file
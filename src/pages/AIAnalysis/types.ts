@@ -5,14 +5,20 @@
 import type { 
   UploadedFile, 
   AIAnalysisResult, 
+  AIAnalysisTab,
+  AIConversation,
   DailyReport, 
   GlucoseReading, 
   InsulinReading, 
   GlucoseUnit, 
-  GlucoseRangeStats 
+  GlucoseRangeStats,
+  CarbEntry,
+  InsulinModelSettings,
+  SleepWindow,
+  DataAnnotation
 } from '../../types';
 import type { ResponseLanguage } from '../../hooks/useResponseLanguage';
-import type { AIProvider } from '../../utils/api';
+import type { AIProvider, CustomProviderSettings } from '../../utils/api';
 import type { HypoAnalysisDatasets } from '../../utils/data';
 
 /** Props for the main AIAnalysis component */
@@ -22,12 +28,26 @@ export interface AIAnalysisProps {
   geminiApiKey: string;
   grokApiKey: string;
   deepseekApiKey: string;
+  /** Base URL, model and optional API key of the custom OpenAI-compatible provider */
+  customProvider?: CustomProviderSettings;
   selectedProvider: AIProvider | null;
   responseLanguage: ResponseLanguage;
   glucoseUnit: GlucoseUnit;
   showGeekStats: boolean;
+  /** Insulin action duration in hours for the bolus IOB at hypo start */
+  insulinDuration?: number;
+  /** Insulin activity model for the bolus IOB at hypo start */
+  insulinModel?: InsulinModelSettings;
+  /** Usual sleep window for the nightly analysis in the pump settings prompt */
+  sleepWindow?: SleepWindow;
+  /** User annotations of the selected dataset, added to the prompts */
+  annotations?: DataAnnotation[];
   existingAnalysis?: AIAnalysisResult;
   onAnalysisComplete: (fileId: string, response: string, inRangePercentage: number) => void;
+  /** Follow-up conversations of the selected file by tab */
+  conversations?: Partial<Record<AIAnalysisTab, AIConversation>>;
+  /** Called when a tab starts or continues a follow-up conversation */
+  onConversationChange?: (fileId: string, tab: AIAnalysisTab, conversation: AIConversation) => void;
   /** Whether the current user is a Pro user (for backend AI access) */
   isProUser?: boolean;
   /** ID token for Pro user backend API authentication */
@@ -45,6 +65,8 @@ export interface AnalysisState {
   cooldownSeconds: number;
   ready: boolean;
   retryInfo?: string | null;
+  /** Response text received so far while a streamed analysis is running */
+  streamingResponse?: string | null;
 }
 
 /** Initial state for analysis */
@@ -56,6 +78,7 @@ export const initialAnalysisState: AnalysisState = {
   cooldownSeconds: 0,
   ready: false,
   retryInfo: null,
+  streamingResponse: null,
 };
 
 /** Datasets for meal timing analysis */
@@ -63,6 +86,8 @@ export interface MealTimingDatasets {
   cgmReadings: GlucoseReading[];
   bolusReadings: InsulinReading[];
   basalReadings: InsulinReading[];
+  /** Carb entries (food dataset and bolus carbs) */
+  carbEntries: CarbEntry[];
 }
 
 /** Common props for tab content components */
@@ -71,6 +96,10 @@ export interface TabContentProps {
   hasApiKey: boolean;
   activeProvider: AIProvider | null;
   showGeekStats: boolean;
+  /** Follow-up conversation on the analysis of this tab */
+  conversation?: AIConversation;
+  /** Called when an analysis starts a new conversation or a follow-up is answered */
+  onConversationChange?: (conversation: AIConversation) => void;
 }
 
 /** Props for Time in Range tab */
@@ -79,9 +108,13 @@ export interface TimeInRangeTabProps extends TabContentProps {
   glucoseStats: GlucoseRangeStats | null;
   responseLanguage: ResponseLanguage;
   glucoseUnit: GlucoseUnit;
+  /** User annotations added to the prompt */
+  annotations?: DataAnnotation[];
   perplexityApiKey: string;
   geminiApiKey: string;
   grokApiKey: string;
+  /** Base URL, model and optional API key of the custom OpenAI-compatible provider */
+  customProvider?: CustomProviderSettings;
   selectedFile?: UploadedFile;
   onAnalysisComplete: (fileId: string, response: string, inRangePercentage: number) => void;
   existingAnalysis?: AIAnalysisResult;
@@ -98,9 +131,13 @@ export interface GlucoseInsulinTabProps extends TabContentProps {
   combinedDataset: DailyReport[];
   responseLanguage: ResponseLanguage;
   glucoseUnit: GlucoseUnit;
+  /** User annotations added to the prompt */
+  annotations?: DataAnnotation[];
   perplexityApiKey: string;
   geminiApiKey: string;
   grokApiKey: string;
+  /** Base URL, model and optional API key of the custom OpenAI-compatible provider */
+  customProvider?: CustomProviderSettings;
   /** Whether the current user is a Pro user */
   isProUser?: boolean;
   /** ID token for Pro user backend API authentication */
@@ -114,9 +151,13 @@ export interface MealTimingTabProps extends TabContentProps {
   mealTimingDatasets: MealTimingDatasets;
   responseLanguage: ResponseLanguage;
   glucoseUnit: GlucoseUnit;
+  /** User annotations added to the prompt */
+  annotations?: DataAnnotation[];
   perplexityApiKey: string;
   geminiApiKey: string;
   grokApiKey: string;
+  /** Base URL, model and optional API key of the custom OpenAI-compatible provider */
+  customProvider?: CustomProviderSettings;
   /** Whether the current user is a Pro user */
   isProUser?: boolean;
   /** ID token for Pro user backend API authentication */
@@ -130,10 +171,16 @@ export interface PumpSettingsTabProps extends TabContentProps {
   mealTimingDatasets: MealTimingDatasets;
   responseLanguage: ResponseLanguage;
   glucoseUnit: GlucoseUnit;
+  /** User annotations added to the prompt */
+  annotations?: DataAnnotation[];
+  /** Usual sleep window for the nightly analysis */
+  sleepWindow?: SleepWindow;
   perplexityApiKey: string;
   geminiApiKey: string;
   grokApiKey: string;
   deepseekApiKey: string;
+  /** Base URL, model and optional API key of the custom OpenAI-compatible provider */
+  customProvider?: CustomProviderSettings;
   /** Whether the current user is a Pro user */
   isProUser?: boolean;
   /** ID token for Pro user backend API authentication */
@@ -147,10 +194,14 @@ export interface HyposTabProps extends TabContentProps {
   hypoDatasets: HypoAnalysisDatasets | null;
   responseLanguage: ResponseLanguage;
   glucoseUnit: GlucoseUnit;
+  /** User annotations added to the prompt */
+  annotations?: DataAnnotation[];
   perplexityApiKey: string;
   geminiApiKey: string;
   grokApiKey: string;
   deepseekApiKey: string;
+  /** Base URL, model and optional API key of the custom OpenAI-compatible provider */
+  customProvider?: CustomProviderSettings;
   /** Whether the current user is a Pro user */
   isProUser?: boolean;
   /** ID token for Pro user backend API authentication */
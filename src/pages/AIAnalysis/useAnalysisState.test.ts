@@ -27,6 +27,14 @@ describe('useAnalysisState', () => {
     expect(result.current.retryInfo).toBeNull();
   });
 
+  it('should initialize with the initial response when provided', () => {
+    const { result } = renderHook(() => useAnalysisState({ initialResponse: 'Stored analysis' }));
+
+    expect(result.current.response).toBe('Stored analysis');
+    expect(result.current.analyzing).toBe(false);
+    expect(result.current.ready).toBe(false);
+  });
+
   it('should export default cooldown duration', () => {
     expect(DEFAULT_COOLDOWN_DURATION).toBe(3);
   });
@@ -60,6 +68,52 @@ describe('useAnalysisState', () => {
     expect(result.current.error).toBeNull();
   });
 
+  it('should show streamed text until the analysis completes', () => {
+    const { result } = renderHook(() => useAnalysisState());
+    
+    act(() => {
+      result.current.startAnalysis();
+    });
+    
+    act(() => {
+      result.current.updateStreamingResponse('Partial');
+    });
+    
+    expect(result.current.streamingResponse).toBe('Partial');
+    expect(result.current.response).toBeNull();
+    
+    act(() => {
+      result.current.completeAnalysis('Partial and complete');
+    });
+    
+    expect(result.current.streamingResponse).toBeNull();
+    expect(result.current.response).toBe('Partial and complete');
+  });
+
+  it('should abort the request and keep the previous response when cancelled', () => {
+    const { result } = renderHook(() => useAnalysisState());
+    
+    act(() => {
+      result.current.completeAnalysis('Previous response');
+    });
+    
+    let signal: AbortSignal | undefined;
+    act(() => {
+      signal = result.current.startAnalysis();
+      result.current.updateStreamingResponse('Partial');
+    });
+    
+    act(() => {
+      result.current.cancelAnalysis();
+    });
+    
+    expect(signal?.aborted).toBe(true);
+    expect(result.current.analyzing).toBe(false);
+    expect(result.current.streamingResponse).toBeNull();
+    expect(result.current.response).toBe('Previous response');
+    expect(result.current.error).toBeNull();
+  });
+
   it('should set error and preserve previous response by default', () => {
     const { result } = renderHook(() => useAnalysisState());
     
@@ -2,7 +2,7 @@
  * Custom hook for managing AI analysis state with cooldown functionality
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type { AnalysisState } from './types';
 import { initialAnalysisState } from './types';
 
@@ -12,10 +12,17 @@ export const DEFAULT_COOLDOWN_DURATION = 3;
 interface UseAnalysisStateOptions {
   /** Cooldown duration in seconds (default: 3) */
   cooldownDuration?: number;
+  /** Response shown before the first analysis, e.g. the one of a stored conversation */
+  initialResponse?: string | null;
 }
 
 interface UseAnalysisStateReturn extends AnalysisState {
-  startAnalysis: () => void;
+  /** Start an analysis; the returned signal is aborted by cancelAnalysis */
+  startAnalysis: () => AbortSignal;
+  /** Show the response text received so far */
+  updateStreamingResponse: (content: string) => void;
+  /** Cancel the running analysis and keep the previous response */
+  cancelAnalysis: () => void;
   completeAnalysis: (response: string) => void;
   setAnalysisError: (error: string, preservePreviousResponse?: boolean) => void;
   triggerCooldown: () => void;
@@ -27,10 +34,17 @@ interface UseAnalysisStateReturn extends AnalysisState {
  * Hook to manage the state of an AI analysis prompt including cooldown
  * @param options - Configuration options for the hook
  * @param options.cooldownDuration - Cooldown duration in seconds (default: 3)
+ * @param options.initialResponse - Response shown before the first analysis (default: none)
  */
 export function useAnalysisState(options: UseAnalysisStateOptions = {}): UseAnalysisStateReturn {
-  const { cooldownDuration = DEFAULT_COOLDOWN_DURATION } = options;
-  const [state, setState] = useState<AnalysisState>(initialAnalysisState);
+  const { cooldownDuration = DEFAULT_COOLDOWN_DURATION, initialResponse = null } = options;
+  const [state, setState] = useState<AnalysisState>(() => ({ ...initialAnalysisState, response: initialResponse }));
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Cancel a running request when the component unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
   // Handle cooldown timer
   useEffect(() => {
@@ -52,12 +66,35 @@ export function useAnalysisState(options: UseAnalysisStateOptions = {}): UseAnal
   }, [state.cooldownSeconds, state.cooldownActive]);
 
   const startAnalysis = useCallback(() => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setState(prev => ({
       ...prev,
       analyzing: true,
       error: null,
       ready: false,
       retryInfo: null,
+      streamingResponse: null,
+    }));
+    return controller.signal;
+  }, []);
+
+  const updateStreamingResponse = useCallback((content: string) => {
+    setState(prev => ({
+      ...prev,
+      streamingResponse: content,
+    }));
+  }, []);
+
+  const cancelAnalysis = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setState(prev => ({
+      ...prev,
+      analyzing: false,
+      retryInfo: null,
+      streamingResponse: null,
     }));
   }, []);
 
@@ -68,6 +105,7 @@ export function useAnalysisState(options: UseAnalysisStateOptions = {}): UseAnal
       response,
       error: null,
       retryInfo: null,
+      streamingResponse: null,
     }));
   }, []);
 
@@ -77,6 +115,7 @@ export function useAnalysisState(options: UseAnalysisStateOptions = {}): UseAnal
       analyzing: false,
       error,
       retryInfo: null,
+      streamingResponse: null,
       // Preserve previous response if requested
       response: preservePreviousResponse ? prev.response : null,
     }));
@@ -91,6 +130,8 @@ export function useAnalysisState(options: UseAnalysisStateOptions = {}): UseAnal
   }, [cooldownDuration]);
 
   const reset = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
     setState(initialAnalysisState);
   }, []);
 
@@ -104,6 +145,8 @@ export function useAnalysisState(options: UseAnalysisStateOptions = {}): UseAnal
   return {
     ...state,
     startAnalysis,
+    updateStreamingResponse,
+    cancelAnalysis,
     completeAnalysis,
     setAnalysisError,
     triggerCooldown,
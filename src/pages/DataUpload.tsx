@@ -4,10 +4,11 @@ import {
   tokens,
   shorthands,
 } from '@fluentui/react-components';
+import { useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { FileUploadZone, FileList, extractZipMetadata } from '../features/dataUpload';
+import { FileUploadZone, FileList, parseZipFileInWorker, type UploadProgress, type ZipParseProgress } from '../features/dataUpload';
 import { DataUploadGuide } from '../components/DataUploadGuide';
-import type { UploadedFile } from '../types';
+import type { UploadedFile, ZipMetadata } from '../types';
 import type { ExportFormat } from '../hooks/useExportFormat';
 
 const useStyles = makeStyles({
@@ -57,23 +58,54 @@ export function DataUpload({ uploadedFiles, onAddFiles, onRemoveFile, onClearAll
   const styles = useStyles();
   const { t } = useTranslation('dataUpload');
 
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
   const handleFilesSelected = async (files: File[]) => {
-    // Process files and extract ZIP metadata
-    const newFilesPromises = files.map(async (file) => {
-      const zipMetadata = await extractZipMetadata(file);
-      
-      return {
-        id: `${file.name}-${Date.now()}-${Math.random()}`,
-        name: file.name,
-        size: file.size,
-        uploadTime: new Date(),
-        file: file,
-        zipMetadata,
-      };
-    });
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const newFiles: UploadedFile[] = [];
+
+    try {
+      // Parse files one at a time in a worker so the UI stays responsive
+      for (const [index, file] of files.entries()) {
+        const showProgress = (progress: ZipParseProgress) =>
+          setUploadProgress({ fileName: file.name, fileIndex: index + 1, fileCount: files.length, progress });
+        showProgress({ processedFiles: 0, totalFiles: 0 });
+
+        const zipMetadata = await parseZipFileInWorker(file, {
+          signal: abortController.signal,
+          onProgress: showProgress,
+        }).then(
+          result => result.zipMetadata,
+          (error: unknown): ZipMetadata => {
+            if (error instanceof Error && error.name === 'AbortError') throw error;
+            return { isValid: false, csvFiles: [], error: error instanceof Error ? error.message : 'Failed to process ZIP file' };
+          }
+        );
+
+        newFiles.push({
+          id: `${file.name}-${Date.now()}-${Math.random()}`,
+          name: file.name,
+          size: file.size,
+          uploadTime: new Date(),
+          file: file,
+          zipMetadata,
+        });
+      }
+    } catch {
+      // Cancelled: keep the files parsed so far
+    } finally {
+      abortControllerRef.current = null;
+      setUploadProgress(null);
+      if (newFiles.length > 0) {
+        onAddFiles(newFiles);
+      }
+    }
+  };
 
-    const newFiles = await Promise.all(newFilesPromises);
-    onAddFiles(newFiles);
+  const handleCancelUpload = () => {
+    abortControllerRef.current?.abort();
   };
 
   return (
@@ -86,7 +118,11 @@ export function DataUpload({ uploadedFiles, onAddFiles, onRemoveFile, onClearAll
       </div>
 
       <div className={styles.uploadSection}>
-        <FileUploadZone onFilesSelected={handleFilesSelected} />
+        <FileUploadZone
+          onFilesSelected={handleFilesSelected}
+          uploadProgress={uploadProgress}
+          onCancel={handleCancelUpload}
+        />
       </div>
 
       <DataUploadGuide />
@@ -6,16 +6,29 @@ import {
   TabList,
   Tab,
 } from '@fluentui/react-components';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
 import { FileInfoButton } from '../components/FileInfoButton';
 import { BGOverviewReport } from '../components/BGOverviewReport';
 import { DailyBGReport } from '../components/DailyBGReport';
 import { HyposReport } from '../components/HyposReport';
-import type { UploadedFile, GlucoseUnit } from '../types';
+import { MealReport } from '../components/MealReport';
+import { AGPReport } from '../components/AGPReport';
+import { TrendsReport } from '../components/TrendsReport';
+import { BGValuesReport } from '../components/BGValuesReport';
+import { InRangeReport } from '../components/InRangeReport';
+import { UnifiedDailyReport } from '../components/UnifiedDailyReport';
+import { InsulinDailyReport } from '../components/InsulinDailyReport';
+import { IOBReport } from '../components/IOBReport';
+import { AnnotationDialog, AnnotationsPanel, NO_ANNOTATIONS, type AnnotationTarget } from '../components/Annotations';
+import { DataQualitySection, FULL_CGM_SCOPE, type DataQualityScope } from '../features/dataQuality';
+import { isReportTabId } from '../hooks/useReportTabs';
+import type { UploadedFile, GlucoseUnit, InsulinModelSettings, ReportTabId, SleepWindow, ReportTabSetting, TimeOfDaySegment, TimeZoneSettings, DataAnnotation, AnnotationTag, ChartFocus } from '../types';
+import { ANNOTATION_TAGS, DEFAULT_TIME_ZONE_SETTINGS, filterAnnotationsByTags, parseChartFocus } from '../utils/data';
 import type { ExportFormat } from '../hooks/useExportFormat';
 import type { ResponseLanguage } from '../hooks/useResponseLanguage';
 import type { AIProvider } from '../utils/api/aiApi';
+import type { CustomProviderSettings } from '../utils/api/customApi';
 
 const useStyles = makeStyles({
   container: {
@@ -76,6 +89,17 @@ const useStyles = makeStyles({
   contentArea: {
     flex: 1,
   },
+  contentAreaLimited: {
+    opacity: 0.8,
+    transitionProperty: 'opacity',
+    transitionDuration: tokens.durationNormal,
+    ':hover': {
+      opacity: 1,
+    },
+    ':focus-within': {
+      opacity: 1,
+    },
+  },
 });
 
 interface ReportsProps {
@@ -83,13 +107,30 @@ interface ReportsProps {
   exportFormat: ExportFormat;
   glucoseUnit: GlucoseUnit;
   insulinDuration?: number;
+  insulinModel?: InsulinModelSettings;
+  /** Usual sleep window for the nocturnal analysis */
+  sleepWindow?: SleepWindow;
+  /** Source time zone and analysis mode the data is read with */
+  timeZoneSettings?: TimeZoneSettings;
+  /** Named time-of-day segments for the TIR and AGP breakdown */
+  timeOfDaySegments?: TimeOfDaySegment[];
   showDayNightShading: boolean;
   showGeekStats: boolean;
+  /** Order and visibility of report tabs (from settings) */
+  reportTabs: ReportTabSetting[];
+  /** User annotations of the selected dataset */
+  annotations?: DataAnnotation[];
+  /** Add an annotation to the selected dataset */
+  onAddAnnotation?: (annotation: Omit<DataAnnotation, 'id'>) => void;
+  /** Remove an annotation of the selected dataset by ID */
+  onRemoveAnnotation?: (id: string) => void;
   // AI configuration props for HyposReport
   perplexityApiKey?: string;
   geminiApiKey?: string;
   grokApiKey?: string;
   deepseekApiKey?: string;
+  /** Base URL, model and optional API key of the custom OpenAI-compatible provider */
+  customProvider?: CustomProviderSettings;
   selectedProvider?: AIProvider | null;
   responseLanguage?: ResponseLanguage;
   // Pro user props for backend AI routing
@@ -98,30 +139,70 @@ interface ReportsProps {
   useProKeys?: boolean;
 }
 
-const VALID_TABS = ['bgOverview', 'dailyBG', 'hypos'];
+/**
+ * Reports showing insulin data only, which have no CGM data to assess
+ */
+const INSULIN_REPORT_TABS: ReportTabId[] = ['insulinDaily', 'iob'];
+
+/**
+ * Read the report tab from a #reports/<tab> hash, if it names a known report
+ */
+function getTabFromHash(): ReportTabId | null {
+  const hash = window.location.hash.slice(1);
+  const parts = hash.split('/');
+  if (parts.length > 1 && parts[0] === 'reports' && isReportTabId(parts[1])) {
+    return parts[1];
+  }
+  return null;
+}
+
+/**
+ * Read the chart focus from a #reports/<tab>/... hash, e.g. #reports/agp/18:00-21:00
+ */
+function getFocusFromHash(): ChartFocus | null {
+  const [page, tab, ...parts] = window.location.hash.slice(1).split('/');
+  return page === 'reports' && isReportTabId(tab) ? parseChartFocus(tab, parts) : null;
+}
 
 /**
  * Display a tabbed reports interface for the provided uploaded file.
  *
  * @param selectedFile - Uploaded file whose data will be shown in the reports
  * @param insulinDuration - Insulin action duration in hours used by daily reports
+ * @param insulinModel - Insulin activity model used for IOB
+ * @param sleepWindow - Usual sleep window used by the nocturnal analysis in the BG overview
+ * @param timeZoneSettings - Source time zone and analysis mode; the daily report and data quality banner read it
+ * @param timeOfDaySegments - Named time-of-day segments broken down in the BG overview
  * @param showDayNightShading - When true, daily charts include day/night shading
+ * @param reportTabs - Report catalogue order and visibility; hidden reports stay reachable via #reports/<id>
+ *   (#reports/dailyBG/<date>/<start>-<end> and #reports/agp/<start>-<end> also open a chart focus)
+ * @param annotations - User annotations of the selected dataset; the reports show those with a tag selected in the annotations panel
+ * @param onAddAnnotation - Adds an annotation; when set, clicking the daily and trend charts opens the annotation dialog
+ * @param onRemoveAnnotation - Removes an annotation by ID
  * @param selectedProvider - Selected AI provider to use for AI-powered reports
  * @param responseLanguage - Preferred language for AI-generated responses
  * @returns A React element containing the reports UI
  */
 export function Reports({ 
   selectedFile, 
-  // exportFormat is kept in the interface for backward compatibility but no longer used
-  // since Detailed CGM, Detailed Insulin, Unified View, IOB, and RoC tabs are hidden
+  exportFormat,
   glucoseUnit, 
   insulinDuration,
+  insulinModel,
+  sleepWindow,
+  timeZoneSettings = DEFAULT_TIME_ZONE_SETTINGS,
+  timeOfDaySegments,
   showDayNightShading,
   showGeekStats,
+  reportTabs,
+  annotations = NO_ANNOTATIONS,
+  onAddAnnotation,
+  onRemoveAnnotation,
   perplexityApiKey,
   geminiApiKey,
   grokApiKey,
   deepseekApiKey,
+  customProvider,
   selectedProvider,
   responseLanguage,
   isProUser,
@@ -130,18 +211,47 @@ export function Reports({
 }: ReportsProps) {
   const styles = useStyles();
   const { t } = useTranslation('reports');
-  const [selectedTab, setSelectedTab] = useState<string>(() => {
-    // Check URL hash for deep linking first (e.g., #reports/bgOverview)
-    const hash = window.location.hash.slice(1);
-    const parts = hash.split('/');
-    if (parts.length > 1 && parts[0] === 'reports' && VALID_TABS.includes(parts[1])) {
-      return parts[1];
+  const visibleTabs = reportTabs.filter(tab => tab.visible).map(tab => tab.id);
+  const defaultTab: ReportTabId = visibleTabs[0] ?? 'bgOverview';
+
+  const [selectedTab, setSelectedTab] = useState<ReportTabId>(() => {
+    // Check URL hash for deep linking first (e.g., #reports/agp)
+    const hashTab = getTabFromHash();
+    if (hashTab) {
+      return hashTab;
     }
     // Otherwise, load the last selected tab from localStorage
     const savedTab = localStorage.getItem('reports-selected-tab');
-    return (savedTab && VALID_TABS.includes(savedTab)) ? savedTab : 'bgOverview';
+    return (savedTab && isReportTabId(savedTab) && visibleTabs.includes(savedTab)) ? savedTab : defaultTab;
   });
 
+  // Day and time window opened via deep link (e.g. from an AI recommendation) until another tab is selected
+  const [chartFocus, setChartFocus] = useState<ChartFocus | null>(getFocusFromHash);
+
+  // A hidden report opened via deep link is shown as an extra tab while selected
+  const shownTabs = visibleTabs.includes(selectedTab) ? visibleTabs : [...visibleTabs, selectedTab];
+
+  // Glucose reports are dimmed when the CGM wear of the data they show is below the 70% over 14 days consensus
+  const [dataSufficient, setDataSufficient] = useState(true);
+  const isDataLimited = !dataSufficient;
+
+  // Data source and date range of each report; reports without their own selection show all CGM data
+  const [dataScopes, setDataScopes] = useState<Partial<Record<ReportTabId, DataQualityScope>>>({});
+  const dataScope = INSULIN_REPORT_TABS.includes(selectedTab) ? null : dataScopes[selectedTab] ?? FULL_CGM_SCOPE;
+  const handleDataScopeChange = useCallback(
+    (scope: DataQualityScope) => setDataScopes(prev => ({ ...prev, [selectedTab]: scope })),
+    [selectedTab]
+  );
+
+  // Annotations shown in the reports, filtered by tag
+  const [annotationTags, setAnnotationTags] = useState<AnnotationTag[]>(ANNOTATION_TAGS);
+  const [annotationTarget, setAnnotationTarget] = useState<AnnotationTarget | null>(null);
+  const visibleAnnotations = useMemo(
+    () => filterAnnotationsByTags(annotations, annotationTags),
+    [annotations, annotationTags]
+  );
+  const handleAnnotate = onAddAnnotation ? setAnnotationTarget : undefined;
+
   // Save the selected tab to localStorage and update URL hash whenever it changes
   useEffect(() => {
     localStorage.setItem('reports-selected-tab', selectedTab);
@@ -156,13 +266,12 @@ export function Reports({
   // Listen for hash changes to sync URL → tab state
   useEffect(() => {
     const handleHashChange = () => {
-      const hash = window.location.hash.slice(1);
-      const parts = hash.split('/');
-      if (parts.length > 1 && parts[0] === 'reports' && VALID_TABS.includes(parts[1])) {
-        const newTab = parts[1];
-        if (newTab !== selectedTab) {
-          setSelectedTab(newTab);
-        }
+      const newTab = getTabFromHash();
+      if (newTab && newTab !== selectedTab) {
+        setSelectedTab(newTab);
+      }
+      if (newTab) {
+        setChartFocus(getFocusFromHash());
       }
     };
 
@@ -170,6 +279,11 @@ export function Reports({
     return () => window.removeEventListener('hashchange', handleHashChange);
   }, [selectedTab]);
 
+  const handleTabSelect = (tab: ReportTabId) => {
+    setSelectedTab(tab);
+    setChartFocus(null);
+  };
+
   const renderTabContent = () => {
     switch (selectedTab) {
       case 'bgOverview':
@@ -178,15 +292,20 @@ export function Reports({
             selectedFile={selectedFile} 
             glucoseUnit={glucoseUnit} 
             showGeekStats={showGeekStats}
+            sleepWindow={sleepWindow}
+            timeOfDaySegments={timeOfDaySegments}
+            annotations={visibleAnnotations}
             perplexityApiKey={perplexityApiKey}
             geminiApiKey={geminiApiKey}
             grokApiKey={grokApiKey}
             deepseekApiKey={deepseekApiKey}
+            customProvider={customProvider}
             selectedProvider={selectedProvider}
             responseLanguage={responseLanguage}
             isProUser={isProUser}
             idToken={idToken}
             useProKeys={useProKeys}
+            onDataScopeChange={handleDataScopeChange}
           />
         );
       case 'dailyBG':
@@ -195,17 +314,24 @@ export function Reports({
             selectedFile={selectedFile} 
             glucoseUnit={glucoseUnit} 
             insulinDuration={insulinDuration} 
+            insulinModel={insulinModel}
+            timeZoneSettings={timeZoneSettings}
             showDayNightShading={showDayNightShading}
             showGeekStats={showGeekStats}
+            annotations={visibleAnnotations}
+            onAnnotate={handleAnnotate}
+            focus={chartFocus}
             perplexityApiKey={perplexityApiKey}
             geminiApiKey={geminiApiKey}
             grokApiKey={grokApiKey}
             deepseekApiKey={deepseekApiKey}
+            customProvider={customProvider}
             selectedProvider={selectedProvider}
             responseLanguage={responseLanguage}
             isProUser={isProUser}
             idToken={idToken}
             useProKeys={useProKeys}
+            onDataScopeChange={handleDataScopeChange}
           />
         );
       case 'hypos':
@@ -213,15 +339,83 @@ export function Reports({
           <HyposReport 
             selectedFile={selectedFile} 
             glucoseUnit={glucoseUnit}
+            insulinDuration={insulinDuration}
+            insulinModel={insulinModel}
+            annotations={visibleAnnotations}
             perplexityApiKey={perplexityApiKey}
             geminiApiKey={geminiApiKey}
             grokApiKey={grokApiKey}
             deepseekApiKey={deepseekApiKey}
+            customProvider={customProvider}
             selectedProvider={selectedProvider}
             responseLanguage={responseLanguage}
             showGeekStats={showGeekStats}
           />
         );
+      case 'meals':
+        return (
+          <MealReport
+            selectedFile={selectedFile}
+            glucoseUnit={glucoseUnit}
+          />
+        );
+      case 'agp':
+        return (
+          <AGPReport
+            selectedFile={selectedFile}
+            exportFormat={exportFormat}
+            glucoseUnit={glucoseUnit}
+            focus={chartFocus}
+            onDataScopeChange={handleDataScopeChange}
+          />
+        );
+      case 'trends':
+        return (
+          <TrendsReport
+            selectedFile={selectedFile}
+            glucoseUnit={glucoseUnit}
+            annotations={visibleAnnotations}
+            onAnnotate={handleAnnotate}
+          />
+        );
+      case 'bgValues':
+        return (
+          <BGValuesReport
+            selectedFile={selectedFile}
+            exportFormat={exportFormat}
+            glucoseUnit={glucoseUnit}
+          />
+        );
+      case 'inRange':
+        return (
+          <InRangeReport
+            selectedFile={selectedFile}
+            exportFormat={exportFormat}
+            glucoseUnit={glucoseUnit}
+            onDataScopeChange={handleDataScopeChange}
+          />
+        );
+      case 'unifiedDaily':
+        return (
+          <UnifiedDailyReport
+            selectedFile={selectedFile}
+            glucoseUnit={glucoseUnit}
+            insulinDuration={insulinDuration}
+            insulinModel={insulinModel}
+            annotations={visibleAnnotations}
+            onAnnotate={handleAnnotate}
+          />
+        );
+      case 'insulinDaily':
+        return <InsulinDailyReport selectedFile={selectedFile} glucoseUnit={glucoseUnit} />;
+      case 'iob':
+        return (
+          <IOBReport
+            selectedFile={selectedFile}
+            insulinDuration={insulinDuration}
+            insulinModel={insulinModel}
+          />
+        );
       default:
         return null;
     }
@@ -242,14 +436,14 @@ export function Reports({
       {/* Horizontal TabList for desktop */}
       <TabList
         selectedValue={selectedTab}
-        onTabSelect={(_, data) => setSelectedTab(data.value as string)}
+        onTabSelect={(_, data) => handleTabSelect(data.value as ReportTabId)}
         className={styles.tabListHorizontal}
         appearance="subtle"
         size="large"
       >
-        <Tab value="bgOverview">{t('reports.tabs.bgOverview')}</Tab>
-        <Tab value="dailyBG">{t('reports.tabs.dailyBG')}</Tab>
-        <Tab value="hypos">{t('reports.tabs.hypos')}</Tab>
+        {shownTabs.map(id => (
+          <Tab key={id} value={id}>{t(`reports.tabs.${id}`)}</Tab>
+        ))}
       </TabList>
 
       <div className={styles.contentWrapper}>
@@ -257,19 +451,41 @@ export function Reports({
         <TabList
           vertical
           selectedValue={selectedTab}
-          onTabSelect={(_, data) => setSelectedTab(data.value as string)}
+          onTabSelect={(_, data) => handleTabSelect(data.value as ReportTabId)}
           className={styles.tabListVertical}
           appearance="subtle"
         >
-          <Tab value="bgOverview">{t('reports.tabs.bgOverview')}</Tab>
-          <Tab value="dailyBG">{t('reports.tabs.dailyBG')}</Tab>
-          <Tab value="hypos">{t('reports.tabs.hypos')}</Tab>
+          {shownTabs.map(id => (
+            <Tab key={id} value={id}>{t(`reports.tabs.${id}`)}</Tab>
+          ))}
         </TabList>
 
-        <div className={styles.contentArea}>
+        <div className={isDataLimited ? `${styles.contentArea} ${styles.contentAreaLimited}` : styles.contentArea}>
+          <DataQualitySection
+            selectedFile={selectedFile}
+            scope={dataScope}
+            timeZoneSettings={timeZoneSettings}
+            onSufficiencyChange={setDataSufficient}
+          />
+          {selectedFile && onRemoveAnnotation && (
+            <AnnotationsPanel
+              annotations={annotations}
+              selectedTags={annotationTags}
+              onSelectedTagsChange={setAnnotationTags}
+              onRemoveAnnotation={onRemoveAnnotation}
+            />
+          )}
           {renderTabContent()}
         </div>
       </div>
+
+      {onAddAnnotation && (
+        <AnnotationDialog
+          target={annotationTarget}
+          onSave={onAddAnnotation}
+          onClose={() => setAnnotationTarget(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
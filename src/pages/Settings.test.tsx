@@ -9,6 +9,7 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { Settings } from './Settings';
 import type { AIProvider } from '../utils/api';
 import * as apiUtils from '../utils/api';
+import { DEFAULT_REPORT_TABS } from '../hooks/useReportTabs';
 
 // Mock the API utilities
 vi.mock('../utils/api', () => ({
@@ -20,10 +21,13 @@ vi.mock('../utils/api', () => ({
       gemini: 'Google Gemini AI',
       grok: 'Grok AI',
       deepseek: 'DeepSeek AI',
+      custom: 'Custom AI',
     };
     return names[provider] || provider;
   }),
   verifyApiKey: vi.fn(),
+  isCustomProviderConfigured: vi.fn().mockReturnValue(false),
+  DEFAULT_CUSTOM_PROVIDER_SETTINGS: { baseUrl: '', model: '', apiKey: '' },
 }));
 
 // Mock version utils
@@ -65,6 +69,24 @@ describe('Settings', () => {
     onGlucoseThresholdsChange: vi.fn(),
     insulinDuration: 4,
     onInsulinDurationChange: vi.fn(),
+    insulinModel: { model: 'linear' as const, preset: 'rapidActing' as const, peakMinutes: 75 },
+    onInsulinModelTypeChange: vi.fn(),
+    onInsulinPeakPresetChange: vi.fn(),
+    onInsulinPeakMinutesChange: vi.fn(),
+    sleepWindow: { startHour: 23, endHour: 7 },
+    onSleepStartHourChange: vi.fn(),
+    onSleepEndHourChange: vi.fn(),
+    timeOfDaySegments: [],
+    onTimeOfDaySegmentAdd: vi.fn(),
+    onTimeOfDaySegmentChange: vi.fn(),
+    onTimeOfDaySegmentRemove: vi.fn(),
+    reportTabs: DEFAULT_REPORT_TABS,
+    onReportTabVisibleChange: vi.fn(),
+    onReportTabMove: vi.fn(),
+    onReportTabsReset: vi.fn(),
+    timeZoneSettings: { sourceTimeZone: 'auto', analysisMode: 'wallClock' as const },
+    onSourceTimeZoneChange: vi.fn(),
+    onAnalysisModeChange: vi.fn(),
     perplexityApiKey: 'test-perplexity-key',
     onPerplexityApiKeyChange: vi.fn(),
     geminiApiKey: 'test-gemini-key',
@@ -73,6 +95,8 @@ describe('Settings', () => {
     onGrokApiKeyChange: vi.fn(),
     deepseekApiKey: '',
     onDeepSeekApiKeyChange: vi.fn(),
+    customProvider: { baseUrl: '', model: '', apiKey: '' },
+    onCustomProviderChange: vi.fn(),
     selectedProvider: 'perplexity' as const,
     onSelectedProviderChange: vi.fn(),
     onProviderAutoSwitch: vi.fn(),
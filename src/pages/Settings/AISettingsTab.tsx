@@ -28,13 +28,22 @@ import {
   DismissCircleRegular, 
   QuestionCircleRegular 
 } from '@fluentui/react-icons';
-import { getProviderDisplayName, getActiveProvider, getAvailableProviders, verifyApiKey, type AIProvider } from '../../utils/api';
+import {
+  getProviderDisplayName,
+  getActiveProvider,
+  getAvailableProviders,
+  verifyApiKey,
+  isCustomProviderConfigured,
+  DEFAULT_CUSTOM_PROVIDER_SETTINGS,
+  type AIProvider,
+  type CustomProviderSettings,
+} from '../../utils/api';
 import type { AISettingsTabProps, VerificationState } from './types';
 
 /**
  * Render the AI settings UI for configuring per-provider API keys, key verification, provider selection, and informational guidance.
  *
- * The component displays masked API key inputs with inline editing, per-provider verification controls, automatic provider selection when keys are added or removed, a Pro-keys toggle for eligible users, and an informational accordion about privacy, storage, and security best practices.
+ * The component displays masked API key inputs with inline editing, per-provider verification controls, base URL and model inputs for a custom OpenAI-compatible provider, automatic provider selection when keys are added or removed, a Pro-keys toggle for eligible users, and an informational accordion about privacy, storage, and security best practices.
  *
  * @param onProviderAutoSwitch - Optional callback invoked when the component automatically switches providers after a verification failure; called with `(failedProvider, newProvider)`.
  * @returns The AI configuration settings UI as a React element.
@@ -49,6 +58,8 @@ export function AISettingsTab({
   onGrokApiKeyChange,
   deepseekApiKey,
   onDeepSeekApiKeyChange,
+  customProvider,
+  onCustomProviderChange,
   selectedProvider,
   onSelectedProviderChange,
   onProviderAutoSwitch,
@@ -65,18 +76,23 @@ export function AISettingsTab({
     grok: 'idle',
     deepseek: 'idle',
     gemini: 'idle',
+    custom: 'idle',
   });
 
+  // The custom provider counts as "having a key" once base URL and model are set
+  const customProviderKey = isCustomProviderConfigured(customProvider) ? customProvider.baseUrl : '';
+
   // Track previous key states for auto-selection logic
   const prevKeysRef = useRef({
     perplexity: perplexityApiKey,
     grok: grokApiKey,
     deepseek: deepseekApiKey,
     gemini: geminiApiKey,
+    custom: customProviderKey,
   });
 
   // Get available providers and determine active one
-  const activeProvider = getActiveProvider(selectedProvider, perplexityApiKey, geminiApiKey, grokApiKey, deepseekApiKey);
+  const activeProvider = getActiveProvider(selectedProvider, perplexityApiKey, geminiApiKey, grokApiKey, deepseekApiKey, customProvider);
 
   // Handle auto-selection when keys change
   useEffect(() => {
@@ -87,7 +103,7 @@ export function AISettingsTab({
       provider: AIProvider,
       currentKey: string,
       prevKey: string,
-      otherKeys: { perplexityKey: string; grokKey: string; deepseekKey: string; geminiKey: string }
+      otherKeys: { perplexityKey: string; grokKey: string; deepseekKey: string; geminiKey: string; customProvider: CustomProviderSettings }
     ) => {
       const wasEmpty = !prevKey || prevKey.trim() === '';
       const isNowEmpty = !currentKey || currentKey.trim() === '';
@@ -103,7 +119,8 @@ export function AISettingsTab({
           otherKeys.perplexityKey,
           otherKeys.geminiKey,
           otherKeys.grokKey,
-          otherKeys.deepseekKey
+          otherKeys.deepseekKey,
+          otherKeys.customProvider
         );
         onSelectedProviderChange(remaining[0] || null);
       }
@@ -116,6 +133,7 @@ export function AISettingsTab({
         geminiKey: geminiApiKey,
         grokKey: grokApiKey,
         deepseekKey: deepseekApiKey,
+        customProvider,
       });
     }
 
@@ -126,6 +144,7 @@ export function AISettingsTab({
         geminiKey: geminiApiKey,
         grokKey: '',
         deepseekKey: deepseekApiKey,
+        customProvider,
       });
     }
 
@@ -136,6 +155,7 @@ export function AISettingsTab({
         geminiKey: geminiApiKey,
         grokKey: grokApiKey,
         deepseekKey: '',
+        customProvider,
       });
     }
 
@@ -146,6 +166,18 @@ export function AISettingsTab({
         geminiKey: '',
         grokKey: grokApiKey,
         deepseekKey: deepseekApiKey,
+        customProvider,
+      });
+    }
+
+    // Check custom provider
+    if (prevKeys.custom !== customProviderKey) {
+      checkProvider('custom', customProviderKey, prevKeys.custom, {
+        perplexityKey: perplexityApiKey,
+        geminiKey: geminiApiKey,
+        grokKey: grokApiKey,
+        deepseekKey: deepseekApiKey,
+        customProvider: DEFAULT_CUSTOM_PROVIDER_SETTINGS,
       });
     }
 
@@ -155,8 +187,9 @@ export function AISettingsTab({
       grok: grokApiKey,
       deepseek: deepseekApiKey,
       gemini: geminiApiKey,
+      custom: customProviderKey,
     };
-  }, [perplexityApiKey, grokApiKey, deepseekApiKey, geminiApiKey, activeProvider, onSelectedProviderChange]);
+  }, [perplexityApiKey, grokApiKey, deepseekApiKey, geminiApiKey, customProviderKey, customProvider, activeProvider, onSelectedProviderChange]);
 
   // Reset verification state when API key changes
   useEffect(() => {
@@ -174,6 +207,10 @@ export function AISettingsTab({
   useEffect(() => {
     setVerificationState(prev => ({ ...prev, gemini: 'idle' }));
   }, [geminiApiKey]);
+  
+  useEffect(() => {
+    setVerificationState(prev => ({ ...prev, custom: 'idle' }));
+  }, [customProvider]);
 
   /**
    * Switch to the next available provider when the current one fails verification
@@ -185,7 +222,8 @@ export function AISettingsTab({
       perplexityApiKey,
       geminiApiKey,
       grokApiKey,
-      deepseekApiKey
+      deepseekApiKey,
+      customProvider
     ).filter(p => p !== failedProvider);
     
     if (availableProviders.length > 0) {
@@ -205,7 +243,10 @@ export function AISettingsTab({
     setVerificationState(prev => ({ ...prev, [provider]: 'verifying' }));
     
     try {
-      const result = await verifyApiKey(provider, apiKey);
+      // The custom provider is verified with its own (optional) key, base URL and model
+      const result = provider === 'custom'
+        ? await verifyApiKey(provider, customProvider.apiKey, customProvider)
+        : await verifyApiKey(provider, apiKey);
       const isValid = result.valid;
       setVerificationState(prev => ({ 
         ...prev, 
@@ -283,17 +324,18 @@ export function AISettingsTab({
   const renderVerifyButton = (provider: AIProvider, apiKey: string) => {
     const status = verificationState[provider];
     const hasKey = !!apiKey && apiKey.trim() !== '';
+    const verifyKeyPrefix = provider === 'custom' ? 'settings.ai.custom.verify' : 'settings.ai.verify';
     
     const getTooltipText = () => {
       switch (status) {
         case 'verifying':
-          return t('settings.ai.verify.verifying');
+          return t(`${verifyKeyPrefix}.verifying`);
         case 'valid':
-          return t('settings.ai.verify.valid');
+          return t(`${verifyKeyPrefix}.valid`);
         case 'invalid':
-          return t('settings.ai.verify.invalid');
+          return t(`${verifyKeyPrefix}.invalid`);
         default:
-          return hasKey ? t('settings.ai.verify.clickToVerify') : t('settings.ai.verify.noKey');
+          return hasKey ? t(`${verifyKeyPrefix}.clickToVerify`) : t(`${verifyKeyPrefix}.noKey`);
       }
     };
     
@@ -379,6 +421,67 @@ export function AISettingsTab({
     );
   };
 
+  // Helper to render the base URL, model and optional API key of the custom provider
+  const renderCustomProviderRows = () => {
+    const keyInputId = 'custom-api-key';
+    const isEditingKey = editingField === keyInputId;
+    const apiKey = customProvider.apiKey;
+    
+    return (
+      <>
+        <div className={styles.apiKeyRow}>
+          <Label htmlFor="custom-base-url" className={styles.apiKeyLabel}>
+            {t('settings.ai.custom.label')}
+          </Label>
+          <div className={styles.apiKeyInputGroup}>
+            <Input
+              id="custom-base-url"
+              type="url"
+              value={customProvider.baseUrl}
+              onChange={(_, data) => onCustomProviderChange({ baseUrl: data.value })}
+              placeholder={t('settings.ai.custom.baseUrlPlaceholder')}
+              appearance="underline"
+              className={styles.apiKeyInputBorderless}
+            />
+            {renderVerifyButton('custom', customProviderKey)}
+            {renderStatusButton('custom', customProviderKey !== '')}
+          </div>
+          <span className={styles.privacyInfoSpacer} />
+        </div>
+        <div className={styles.apiKeyRow}>
+          <span className={styles.apiKeyLabel} />
+          <div className={styles.apiKeyInputGroup}>
+            <Input
+              aria-label={t('settings.ai.custom.model')}
+              value={customProvider.model}
+              onChange={(_, data) => onCustomProviderChange({ model: data.value })}
+              placeholder={t('settings.ai.custom.modelPlaceholder')}
+              appearance="underline"
+              className={styles.apiKeyInputBorderless}
+            />
+            <Input
+              id={keyInputId}
+              aria-label={t('settings.ai.custom.apiKey')}
+              type={isEditingKey ? 'password' : 'text'}
+              value={isEditingKey ? apiKey : (apiKey ? maskApiKey(apiKey) : '')}
+              onChange={(_, data) => onCustomProviderChange({ apiKey: data.value })}
+              onFocus={() => setEditingField(keyInputId)}
+              onBlur={() => setEditingField(null)}
+              placeholder={t('settings.ai.custom.apiKeyPlaceholder')}
+              appearance="underline"
+              className={styles.apiKeyInputBorderless}
+              readOnly={!isEditingKey && !!apiKey}
+            />
+          </div>
+          <span className={styles.privacyInfoSpacer} />
+        </div>
+        <Text className={styles.customProviderHint}>
+          {t('settings.ai.custom.hint')}
+        </Text>
+      </>
+    );
+  };
+
   return (
     <>
       {/* AI Keys Configuration - Merged section */}
@@ -447,6 +550,8 @@ export function AISettingsTab({
             'https://policies.google.com/privacy',
             'gemini-api-key'
           )}
+          
+          {renderCustomProviderRows()}
         </div>
       </div>
         
@@ -488,6 +593,9 @@ export function AISettingsTab({
                     Learn more
                   </Link>
                 </p>
+                <p>
+                  <strong>Custom (OpenAI-compatible):</strong> ✅ Free when you run your own server such as Ollama, llama.cpp or LM Studio. Your data stays on your network.
+                </p>
               </div>
             </AccordionPanel>
           </AccordionItem>
@@ -546,7 +654,7 @@ export function AISettingsTab({
                   When you request AI analysis, your browser sends the request directly to the selected AI provider's API. Our application does not act as an intermediary—the communication goes straight from your browser to the AI provider.
                 </p>
                 <p>
-                  <strong>Provider Priority:</strong> If multiple API keys are configured, they are used in this order: Perplexity → Grok AI → DeepSeek → Google Gemini. To use a different provider, remove the API keys with higher priority.
+                  <strong>Provider Priority:</strong> If multiple API keys are configured, they are used in this order: Custom → Perplexity → Grok AI → DeepSeek → Google Gemini. To use a different provider, remove the API keys with higher priority.
                 </p>
               </div>
             </AccordionPanel>
@@ -1,6 +1,6 @@
 /**
  * Glucose Settings Tab
- * Contains glucose unit, thresholds, and insulin duration settings
+ * Contains glucose unit, thresholds, insulin duration, insulin activity model, sleep window and time-of-day segment settings
  */
 
 import {
@@ -11,15 +11,32 @@ import {
   Title3,
   Input,
   Label,
+  Dropdown,
+  Option,
+  Button,
+  Tooltip,
 } from '@fluentui/react-components';
+import { AddRegular, DeleteRegular } from '@fluentui/react-icons';
 import { useTranslation } from 'react-i18next';
-import type { GlucoseUnit, GlucoseThresholds } from '../../types';
+import type { GlucoseUnit, GlucoseThresholds, InsulinModelType, InsulinPeakPreset } from '../../types';
 import { validateGlucoseThresholds } from '../../hooks/useGlucoseThresholds';
+import { MAX_SEGMENT_NAME_LENGTH } from '../../hooks/useTimeOfDaySegments';
+import { INSULIN_PEAK_PRESETS, MAX_PEAK_MINUTES, MIN_PEAK_MINUTES } from '../../utils/data/insulinModelUtils';
+import { MAX_TIME_OF_DAY_SEGMENTS } from '../../utils/data/timeOfDaySegmentUtils';
 import { GlucoseThresholdsSection } from '../../components/GlucoseThresholdsSection';
 import type { GlucoseSettingsTabProps } from './types';
 
+const CLOCK_HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+/**
+ * Format a clock hour as HH:00
+ */
+function formatClockHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
 /**
- * Render the Glucose Settings tab UI for configuring glucose unit, thresholds, and insulin duration.
+ * Render the Glucose Settings tab UI for configuring glucose unit, thresholds, insulin duration, insulin activity model, sleep window and time-of-day segments.
  *
  * @param styles - CSS module or style object applied to sections and controls
  * @param glucoseUnit - Currently selected glucose unit ("mmol/L" or "mg/dL")
@@ -28,6 +45,17 @@ import type { GlucoseSettingsTabProps } from './types';
  * @param onGlucoseThresholdsChange - Called when any threshold is updated; receives the updated `GlucoseThresholds` object
  * @param insulinDuration - Current insulin duration in hours
  * @param onInsulinDurationChange - Called when a valid positive insulin duration is entered; receives the new duration (hours)
+ * @param insulinModel - Current insulin activity model, peak preset and custom peak time
+ * @param onInsulinModelTypeChange - Called when the user selects a different activity curve
+ * @param onInsulinPeakPresetChange - Called when the user selects a different peak preset
+ * @param onInsulinPeakMinutesChange - Called when a valid custom peak time is entered; receives the new peak (minutes)
+ * @param sleepWindow - Usual bedtime and wake-up hours used for nocturnal analysis
+ * @param onSleepStartHourChange - Called when the user selects a different bedtime hour
+ * @param onSleepEndHourChange - Called when the user selects a different wake-up hour
+ * @param timeOfDaySegments - Named time-of-day segments used for TIR and AGP breakdowns
+ * @param onTimeOfDaySegmentAdd - Called when the user adds a segment; receives the new segment
+ * @param onTimeOfDaySegmentChange - Called when a segment name or hour changes; receives the index and changes
+ * @param onTimeOfDaySegmentRemove - Called when the user removes a segment; receives its index
  * @returns The React element tree for the Glucose Settings tab
  */
 export function GlucoseSettingsTab({
@@ -38,6 +66,17 @@ export function GlucoseSettingsTab({
   onGlucoseThresholdsChange,
   insulinDuration,
   onInsulinDurationChange,
+  insulinModel,
+  onInsulinModelTypeChange,
+  onInsulinPeakPresetChange,
+  onInsulinPeakMinutesChange,
+  sleepWindow,
+  onSleepStartHourChange,
+  onSleepEndHourChange,
+  timeOfDaySegments,
+  onTimeOfDaySegmentAdd,
+  onTimeOfDaySegmentChange,
+  onTimeOfDaySegmentRemove,
 }: GlucoseSettingsTabProps) {
   const { t } = useTranslation('settings');
   const validationError = validateGlucoseThresholds(glucoseThresholds);
@@ -99,6 +138,154 @@ export function GlucoseSettingsTab({
           />
         </div>
       </div>
+
+      <div className={styles.settingSection}>
+        <Title3 className={styles.sectionTitle}>{t('settings.glucose.insulinModel.title')}</Title3>
+        <Divider className={styles.divider} />
+        <Text className={styles.settingDescription}>
+          {t('settings.glucose.insulinModel.description')}
+        </Text>
+        <RadioGroup
+          value={insulinModel.model}
+          onChange={(_, data) => onInsulinModelTypeChange(data.value as InsulinModelType)}
+        >
+          <Radio value="linear" label={t('settings.glucose.insulinModel.linear')} />
+          <Radio value="exponential" label={t('settings.glucose.insulinModel.exponential')} />
+          <Radio value="biexponential" label={t('settings.glucose.insulinModel.biexponential')} />
+        </RadioGroup>
+
+        {insulinModel.model !== 'linear' && (
+          <>
+            <Text className={styles.settingDescription}>
+              {t('settings.glucose.insulinModel.peakDescription')}
+            </Text>
+            <RadioGroup
+              value={insulinModel.preset}
+              onChange={(_, data) => onInsulinPeakPresetChange(data.value as InsulinPeakPreset)}
+            >
+              <Radio
+                value="rapidActing"
+                label={t('settings.glucose.insulinModel.rapidActing', { minutes: INSULIN_PEAK_PRESETS.rapidActing })}
+              />
+              <Radio
+                value="ultraRapid"
+                label={t('settings.glucose.insulinModel.ultraRapid', { minutes: INSULIN_PEAK_PRESETS.ultraRapid })}
+              />
+              <Radio value="custom" label={t('settings.glucose.insulinModel.custom')} />
+            </RadioGroup>
+            {insulinModel.preset === 'custom' && (
+              <div className={styles.insulinDurationRow}>
+                <Label htmlFor="insulin-peak-input">{t('settings.glucose.insulinModel.peakLabel')}</Label>
+                <Input
+                  id="insulin-peak-input"
+                  type="number"
+                  value={insulinModel.peakMinutes.toString()}
+                  onChange={(_, data) => {
+                    const value = parseFloat(data.value);
+                    if (!isNaN(value) && value >= MIN_PEAK_MINUTES && value <= MAX_PEAK_MINUTES) {
+                      onInsulinPeakMinutesChange(value);
+                    }
+                  }}
+                  min={MIN_PEAK_MINUTES}
+                  max={MAX_PEAK_MINUTES}
+                  step={5}
+                  className={styles.insulinDurationInput}
+                />
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <div className={styles.settingSection}>
+        <Title3 className={styles.sectionTitle}>{t('settings.glucose.sleepWindow.title')}</Title3>
+        <Divider className={styles.divider} />
+        <Text className={styles.settingDescription}>
+          {t('settings.glucose.sleepWindow.description')}
+        </Text>
+        {([
+          { id: 'sleep-start-hour', label: t('settings.glucose.sleepWindow.bedtime'), hour: sleepWindow.startHour, onChange: onSleepStartHourChange },
+          { id: 'sleep-end-hour', label: t('settings.glucose.sleepWindow.wakeUp'), hour: sleepWindow.endHour, onChange: onSleepEndHourChange },
+        ]).map(({ id, label, hour, onChange }) => (
+          <div key={id} className={styles.insulinDurationRow}>
+            <Label id={id}>{label}</Label>
+            <Dropdown
+              aria-labelledby={id}
+              className={styles.sleepHourDropdown}
+              value={formatClockHour(hour)}
+              selectedOptions={[String(hour)]}
+              onOptionSelect={(_, data) => data.optionValue && onChange(Number(data.optionValue))}
+            >
+              {CLOCK_HOURS.map(option => (
+                <Option key={option} value={String(option)}>{formatClockHour(option)}</Option>
+              ))}
+            </Dropdown>
+          </div>
+        ))}
+      </div>
+
+      <div className={styles.settingSection}>
+        <Title3 className={styles.sectionTitle}>{t('settings.glucose.timeOfDaySegments.title')}</Title3>
+        <Divider className={styles.divider} />
+        <Text className={styles.settingDescription}>
+          {t('settings.glucose.timeOfDaySegments.description')}
+        </Text>
+        {timeOfDaySegments.length === 0 && (
+          <Text className={styles.settingDescription}>
+            {t('settings.glucose.timeOfDaySegments.empty')}
+          </Text>
+        )}
+        {timeOfDaySegments.map((segment, index) => {
+          const hourDropdowns = [
+            { key: 'startHour', label: t('settings.glucose.timeOfDaySegments.start'), hour: segment.startHour },
+            { key: 'endHour', label: t('settings.glucose.timeOfDaySegments.end'), hour: segment.endHour },
+          ] as const;
+          return (
+            <div key={index} className={styles.segmentRow}>
+              <Input
+                aria-label={t('settings.glucose.timeOfDaySegments.name')}
+                className={styles.segmentNameInput}
+                value={segment.name}
+                maxLength={MAX_SEGMENT_NAME_LENGTH}
+                onChange={(_, data) => onTimeOfDaySegmentChange(index, { name: data.value })}
+              />
+              {hourDropdowns.map(({ key, label, hour }) => (
+                <Dropdown
+                  key={key}
+                  aria-label={label}
+                  className={styles.sleepHourDropdown}
+                  value={formatClockHour(hour)}
+                  selectedOptions={[String(hour)]}
+                  onOptionSelect={(_, data) => data.optionValue && onTimeOfDaySegmentChange(index, { [key]: Number(data.optionValue) })}
+                >
+                  {CLOCK_HOURS.map(option => (
+                    <Option key={option} value={String(option)}>{formatClockHour(option)}</Option>
+                  ))}
+                </Dropdown>
+              ))}
+              <Tooltip content={t('settings.glucose.timeOfDaySegments.remove', { name: segment.name })} relationship="label">
+                <Button
+                  appearance="subtle"
+                  icon={<DeleteRegular />}
+                  onClick={() => onTimeOfDaySegmentRemove(index)}
+                />
+              </Tooltip>
+            </div>
+          );
+        })}
+        <Button
+          icon={<AddRegular />}
+          className={styles.segmentAddButton}
+          disabled={timeOfDaySegments.length >= MAX_TIME_OF_DAY_SEGMENTS}
+          onClick={() => onTimeOfDaySegmentAdd({
+            name: t('settings.glucose.timeOfDaySegments.defaultName', { number: timeOfDaySegments.length + 1 }),
+            startHour: 8,
+            endHour: 15,
+          })}
+        >
+          {t('settings.glucose.timeOfDaySegments.add')}
+        </Button>
+      </div>
     </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,138 @@
+/**
+ * Reports Settings Tab
+ * Lets users choose which reports appear on the Reports page and in which order,
+ * and the time zone used to read the timestamps of uploaded data
+ */
+
+import {
+  Text,
+  Divider,
+  Title3,
+  Switch,
+  Button,
+  Tooltip,
+  Dropdown,
+  Option,
+  Radio,
+  RadioGroup,
+} from '@fluentui/react-components';
+import { ArrowUpRegular, ArrowDownRegular } from '@fluentui/react-icons';
+import { useTranslation } from 'react-i18next';
+import { useMemo } from 'react';
+import type { TimeAnalysisMode } from '../../types';
+import { AUTO_TIME_ZONE, getBrowserTimeZone, getSupportedTimeZones } from '../../utils/data/timezoneUtils';
+import type { ReportsSettingsTabProps } from './types';
+
+/**
+ * Render the Reports settings tab with a show/hide switch and move up/down buttons for each report.
+ *
+ * @param styles - CSS module classes used to style each settings section and controls.
+ * @param reportTabs - Reports in their current order with visibility.
+ * @param onReportTabVisibleChange - Callback invoked with the report id and new visibility when a switch changes.
+ * @param onReportTabMove - Callback invoked with the report id and direction when a move button is clicked.
+ * @param onReportTabsReset - Callback invoked when the reset button is clicked.
+ * @param timeZoneSettings - Source time zone of the device clock and analysis mode.
+ * @param onSourceTimeZoneChange - Callback invoked with the selected time zone ('auto' or an IANA zone).
+ * @param onAnalysisModeChange - Callback invoked with the selected analysis mode.
+ * @returns The settings tab UI as a JSX element.
+ */
+export function ReportsSettingsTab({
+  styles,
+  reportTabs,
+  onReportTabVisibleChange,
+  onReportTabMove,
+  onReportTabsReset,
+  timeZoneSettings,
+  onSourceTimeZoneChange,
+  onAnalysisModeChange,
+}: ReportsSettingsTabProps) {
+  const { t } = useTranslation(['settings', 'reports']);
+  const visibleCount = reportTabs.filter(tab => tab.visible).length;
+  const timeZones = useMemo(() => getSupportedTimeZones(), []);
+  const autoLabel = t('settings.reports.timeZone.auto', { timeZone: getBrowserTimeZone() });
+  const selectedTimeZone = timeZoneSettings.sourceTimeZone;
+
+  return (
+    <>
+      <div className={styles.settingSection}>
+        <Title3 className={styles.sectionTitle}>{t('settings.reports.title')}</Title3>
+        <Divider className={styles.divider} />
+        <Text className={styles.settingDescription}>
+          {t('settings.reports.description')}
+        </Text>
+
+        <div className={styles.reportTabList}>
+          {reportTabs.map((tab, index) => {
+            const label = t(`reports:reports.tabs.${tab.id}`);
+            return (
+              <div key={tab.id} className={styles.reportTabRow}>
+                <Switch
+                  checked={tab.visible}
+                  disabled={tab.visible && visibleCount === 1}
+                  onChange={(_, data) => onReportTabVisibleChange(tab.id, data.checked)}
+                  label={label}
+                />
+                <div className={styles.reportTabActions}>
+                  <Tooltip content={t('settings.reports.moveUp', { report: label })} relationship="label">
+                    <Button
+                      appearance="subtle"
+                      size="small"
+                      icon={<ArrowUpRegular />}
+                      disabled={index === 0}
+                      onClick={() => onReportTabMove(tab.id, -1)}
+                    />
+                  </Tooltip>
+                  <Tooltip content={t('settings.reports.moveDown', { report: label })} relationship="label">
+                    <Button
+                      appearance="subtle"
+                      size="small"
+                      icon={<ArrowDownRegular />}
+                      disabled={index === reportTabs.length - 1}
+                      onClick={() => onReportTabMove(tab.id, 1)}
+                    />
+                  </Tooltip>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <Text className={styles.settingDescription}>
+          {t('settings.reports.deepLinkHint')}
+        </Text>
+        <Button onClick={onReportTabsReset}>{t('settings.reports.reset')}</Button>
+      </div>
+
+      <div className={styles.settingSection}>
+        <Title3 className={styles.sectionTitle}>{t('settings.reports.timeZone.title')}</Title3>
+        <Divider className={styles.divider} />
+        <Text className={styles.settingDescription}>
+          {t('settings.reports.timeZone.description')}
+        </Text>
+        <Dropdown
+          aria-label={t('settings.reports.timeZone.sourceLabel')}
+          className={styles.timeZoneDropdown}
+          value={selectedTimeZone === AUTO_TIME_ZONE ? autoLabel : selectedTimeZone}
+          selectedOptions={[selectedTimeZone]}
+          onOptionSelect={(_, data) => data.optionValue && onSourceTimeZoneChange(data.optionValue)}
+        >
+          <Option value={AUTO_TIME_ZONE} text={autoLabel}>{autoLabel}</Option>
+          {timeZones.map(timeZone => (
+            <Option key={timeZone} value={timeZone}>{timeZone}</Option>
+          ))}
+        </Dropdown>
+
+        <Text className={styles.settingDescription}>
+          {t('settings.reports.timeZone.modeDescription')}
+        </Text>
+        <RadioGroup
+          value={timeZoneSettings.analysisMode}
+          onChange={(_, data) => onAnalysisModeChange(data.value as TimeAnalysisMode)}
+        >
+          <Radio value="wallClock" label={t('settings.reports.timeZone.wallClock')} />
+          <Radio value="homeTimeZone" label={t('settings.reports.timeZone.homeTimeZone')} />
+        </RadioGroup>
+      </div>
+    </>
+  );
+}
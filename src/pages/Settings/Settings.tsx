@@ -14,19 +14,20 @@ import type { ThemeMode } from '../../hooks/useTheme';
 import type { ExportFormat } from '../../hooks/useExportFormat';
 import type { ResponseLanguage } from '../../hooks/useResponseLanguage';
 import type { UILanguage } from '../../hooks/useUILanguage';
-import type { GlucoseUnit, GlucoseThresholds } from '../../types';
-import type { AIProvider } from '../../utils/api';
+import type { GlucoseUnit, GlucoseThresholds, InsulinModelSettings, InsulinModelType, InsulinPeakPreset, ReportTabId, SleepWindow, ReportTabSetting, TimeAnalysisMode, TimeOfDaySegment, TimeZoneSettings } from '../../types';
+import type { AIProvider, CustomProviderSettings } from '../../utils/api';
 
 // Import styles and tab components
 import { useStyles } from './styles';
 import { GeneralSettingsTab } from './GeneralSettingsTab';
 import { GlucoseSettingsTab } from './GlucoseSettingsTab';
+import { ReportsSettingsTab } from './ReportsSettingsTab';
 import { AISettingsTab } from './AISettingsTab';
 import { ProUsersTab } from './ProUsersTab';
 import { AboutTab } from './AboutTab';
 
 // Valid tab values for deep linking
-const VALID_TABS = ['general', 'glucose', 'ai', 'pro', 'about'];
+const VALID_TABS = ['general', 'glucose', 'reports', 'ai', 'pro', 'about'];
 
 // Storage key for remembering the last active tab
 const LAST_TAB_STORAGE_KEY = 'glooko-settings-last-tab';
@@ -75,6 +76,42 @@ interface SettingsProps {
   insulinDuration: number;
   /** Callback invoked when insulin duration changes */
   onInsulinDurationChange: (duration: number) => void;
+  /** Insulin activity model for IOB calculations */
+  insulinModel: InsulinModelSettings;
+  /** Callback invoked when the insulin activity curve changes */
+  onInsulinModelTypeChange: (model: InsulinModelType) => void;
+  /** Callback invoked when the insulin peak preset changes */
+  onInsulinPeakPresetChange: (preset: InsulinPeakPreset) => void;
+  /** Callback invoked when the custom insulin peak time changes */
+  onInsulinPeakMinutesChange: (peakMinutes: number) => void;
+  /** Usual sleep window for nocturnal analysis */
+  sleepWindow: SleepWindow;
+  /** Callback invoked when the bedtime hour changes */
+  onSleepStartHourChange: (hour: number) => void;
+  /** Callback invoked when the wake-up hour changes */
+  onSleepEndHourChange: (hour: number) => void;
+  /** Named time-of-day segments for TIR and AGP breakdowns */
+  timeOfDaySegments: TimeOfDaySegment[];
+  /** Callback invoked when a segment is added */
+  onTimeOfDaySegmentAdd: (segment: TimeOfDaySegment) => void;
+  /** Callback invoked when the name or hours of a segment change */
+  onTimeOfDaySegmentChange: (index: number, changes: Partial<TimeOfDaySegment>) => void;
+  /** Callback invoked when a segment is removed */
+  onTimeOfDaySegmentRemove: (index: number) => void;
+  /** Order and visibility of the tabs on the Reports page */
+  reportTabs: ReportTabSetting[];
+  /** Callback invoked when a report is shown or hidden */
+  onReportTabVisibleChange: (id: ReportTabId, visible: boolean) => void;
+  /** Callback invoked when a report is moved up (-1) or down (+1) */
+  onReportTabMove: (id: ReportTabId, direction: -1 | 1) => void;
+  /** Callback invoked when report tabs are reset to defaults */
+  onReportTabsReset: () => void;
+  /** Source time zone of the device clock and analysis mode */
+  timeZoneSettings: TimeZoneSettings;
+  /** Callback invoked when the source time zone changes */
+  onSourceTimeZoneChange: (timeZone: string) => void;
+  /** Callback invoked when the analysis mode changes */
+  onAnalysisModeChange: (mode: TimeAnalysisMode) => void;
   /** Perplexity AI API key */
   perplexityApiKey: string;
   /** Callback invoked when Perplexity API key changes */
@@ -91,6 +128,10 @@ interface SettingsProps {
   deepseekApiKey: string;
   /** Callback invoked when DeepSeek API key changes */
   onDeepSeekApiKeyChange: (key: string) => void;
+  /** Base URL, model and optional API key of the custom OpenAI-compatible provider */
+  customProvider: CustomProviderSettings;
+  /** Callback invoked when custom provider settings change */
+  onCustomProviderChange: (changes: Partial<CustomProviderSettings>) => void;
   /** Currently selected AI provider, or null for auto-selection */
   selectedProvider: AIProvider | null;
   /** Callback invoked when selected AI provider changes */
@@ -108,7 +149,7 @@ interface SettingsProps {
 /**
  * Render the Settings page and manage tab state synchronized with the URL hash.
  *
- * Renders UI tabs for general, glucose, AI provider, pro user, and about settings; initializes the active tab from the URL hash and keeps the hash in sync when the tab changes.
+ * Renders UI tabs for general, glucose, reports, AI provider, pro user, and about settings; initializes the active tab from the URL hash and keeps the hash in sync when the tab changes.
  *
  * @param selectedProvider - Currently selected AI provider, or `null` to allow automatic provider selection
  * @param onProviderAutoSwitch - Optional callback invoked when the app automatically switches AI providers; called with `(fromProvider, toProvider)`
@@ -139,6 +180,24 @@ export function Settings({
   onGlucoseThresholdsChange,
   insulinDuration,
   onInsulinDurationChange,
+  insulinModel,
+  onInsulinModelTypeChange,
+  onInsulinPeakPresetChange,
+  onInsulinPeakMinutesChange,
+  sleepWindow,
+  onSleepStartHourChange,
+  onSleepEndHourChange,
+  timeOfDaySegments,
+  onTimeOfDaySegmentAdd,
+  onTimeOfDaySegmentChange,
+  onTimeOfDaySegmentRemove,
+  reportTabs,
+  onReportTabVisibleChange,
+  onReportTabMove,
+  onReportTabsReset,
+  timeZoneSettings,
+  onSourceTimeZoneChange,
+  onAnalysisModeChange,
   perplexityApiKey, 
   onPerplexityApiKeyChange, 
   geminiApiKey, 
@@ -147,6 +206,8 @@ export function Settings({
   onGrokApiKeyChange, 
   deepseekApiKey, 
   onDeepSeekApiKeyChange,
+  customProvider,
+  onCustomProviderChange,
   selectedProvider,
   onSelectedProviderChange,
   onProviderAutoSwitch,
@@ -240,6 +301,31 @@ export function Settings({
             onGlucoseThresholdsChange={onGlucoseThresholdsChange}
             insulinDuration={insulinDuration}
             onInsulinDurationChange={onInsulinDurationChange}
+            insulinModel={insulinModel}
+            onInsulinModelTypeChange={onInsulinModelTypeChange}
+            onInsulinPeakPresetChange={onInsulinPeakPresetChange}
+            onInsulinPeakMinutesChange={onInsulinPeakMinutesChange}
+            sleepWindow={sleepWindow}
+            onSleepStartHourChange={onSleepStartHourChange}
+            onSleepEndHourChange={onSleepEndHourChange}
+            timeOfDaySegments={timeOfDaySegments}
+            onTimeOfDaySegmentAdd={onTimeOfDaySegmentAdd}
+            onTimeOfDaySegmentChange={onTimeOfDaySegmentChange}
+            onTimeOfDaySegmentRemove={onTimeOfDaySegmentRemove}
+          />
+        );
+      
+      case 'reports':
+        return (
+          <ReportsSettingsTab
+            styles={styles}
+            reportTabs={reportTabs}
+            onReportTabVisibleChange={onReportTabVisibleChange}
+            onReportTabMove={onReportTabMove}
+            onReportTabsReset={onReportTabsReset}
+            timeZoneSettings={timeZoneSettings}
+            onSourceTimeZoneChange={onSourceTimeZoneChange}
+            onAnalysisModeChange={onAnalysisModeChange}
           />
         );
       
@@ -255,6 +341,8 @@ export function Settings({
             onGrokApiKeyChange={onGrokApiKeyChange}
             deepseekApiKey={deepseekApiKey}
             onDeepSeekApiKeyChange={onDeepSeekApiKeyChange}
+            customProvider={customProvider}
+            onCustomProviderChange={onCustomProviderChange}
             selectedProvider={selectedProvider}
             onSelectedProviderChange={onSelectedProviderChange}
             onProviderAutoSwitch={onProviderAutoSwitch}
@@ -296,6 +384,7 @@ export function Settings({
         >
           <Tab value="general">{t('settings.tabs.general')}</Tab>
           <Tab value="glucose">{t('settings.tabs.glucose')}</Tab>
+          <Tab value="reports">{t('settings.tabs.reports')}</Tab>
           <Tab value="ai">{t('settings.tabs.ai')}</Tab>
           <Tab value="pro">{t('settings.tabs.pro')}</Tab>
           <Tab value="about">{t('settings.tabs.about')}</Tab>
@@ -119,6 +119,22 @@ export const useStyles = makeStyles({
   insulinDurationInput: {
     width: '100px',
   },
+  sleepHourDropdown: {
+    minWidth: '120px',
+  },
+  segmentRow: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    ...shorthands.gap('12px'),
+    marginBottom: '8px',
+  },
+  segmentNameInput: {
+    width: '200px',
+  },
+  segmentAddButton: {
+    marginTop: '8px',
+  },
   apiKeyContainer: {
     display: 'flex',
     flexDirection: 'column',
@@ -209,6 +225,15 @@ export const useStyles = makeStyles({
   verifyButtonInvalid: {
     color: tokens.colorStatusDangerForeground1,
   },
+  privacyInfoSpacer: {
+    width: '28px',
+    flexShrink: 0,
+  },
+  customProviderHint: {
+    fontSize: tokens.fontSizeBase200,
+    color: tokens.colorNeutralForeground3,
+    display: 'block',
+  },
   privacyInfoButton: {
     display: 'flex',
     alignItems: 'center',
@@ -335,4 +360,30 @@ export const useStyles = makeStyles({
     flex: 1,
     minWidth: '200px',
   },
+  reportTabList: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap('4px'),
+    marginBottom: '16px',
+  },
+  reportTabRow: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    ...shorthands.gap('12px'),
+    ...shorthands.padding('4px', '8px'),
+    ...shorthands.borderRadius(tokens.borderRadiusMedium),
+    ':hover': {
+      backgroundColor: tokens.colorNeutralBackground1Hover,
+    },
+  },
+  reportTabActions: {
+    display: 'flex',
+    ...shorthands.gap('4px'),
+  },
+  timeZoneDropdown: {
+    minWidth: '280px',
+    maxWidth: '100%',
+    marginBottom: '16px',
+  },
 });
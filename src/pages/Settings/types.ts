@@ -2,7 +2,7 @@
  * Types for the Settings page
  */
 
-import type { AIProvider } from '../../utils/api';
+import type { AIProvider, CustomProviderSettings } from '../../utils/api';
 
 /**
  * Verification status for each API key
@@ -30,6 +30,8 @@ export interface VerificationState {
   deepseek: VerificationStatus;
   /** Google Gemini API key verification status */
   gemini: VerificationStatus;
+  /** Custom OpenAI-compatible provider verification status */
+  custom: VerificationStatus;
 }
 
 /**
@@ -96,6 +98,48 @@ export interface GlucoseSettingsTabProps extends SettingsTabProps {
   insulinDuration: number;
   /** Callback invoked when insulin duration changes */
   onInsulinDurationChange: (duration: number) => void;
+  /** Insulin activity model for IOB calculations */
+  insulinModel: import('../../types').InsulinModelSettings;
+  /** Callback invoked when the insulin activity curve changes */
+  onInsulinModelTypeChange: (model: import('../../types').InsulinModelType) => void;
+  /** Callback invoked when the insulin peak preset changes */
+  onInsulinPeakPresetChange: (preset: import('../../types').InsulinPeakPreset) => void;
+  /** Callback invoked when the custom insulin peak time changes */
+  onInsulinPeakMinutesChange: (peakMinutes: number) => void;
+  /** Usual sleep window for nocturnal analysis */
+  sleepWindow: import('../../types').SleepWindow;
+  /** Callback invoked when the bedtime hour changes */
+  onSleepStartHourChange: (hour: number) => void;
+  /** Callback invoked when the wake-up hour changes */
+  onSleepEndHourChange: (hour: number) => void;
+  /** Named time-of-day segments for TIR and AGP breakdowns */
+  timeOfDaySegments: import('../../types').TimeOfDaySegment[];
+  /** Callback invoked when a segment is added */
+  onTimeOfDaySegmentAdd: (segment: import('../../types').TimeOfDaySegment) => void;
+  /** Callback invoked when the name or hours of a segment change */
+  onTimeOfDaySegmentChange: (index: number, changes: Partial<import('../../types').TimeOfDaySegment>) => void;
+  /** Callback invoked when a segment is removed */
+  onTimeOfDaySegmentRemove: (index: number) => void;
+}
+
+/**
+ * Props for the Reports Settings Tab
+ */
+export interface ReportsSettingsTabProps extends SettingsTabProps {
+  /** Order and visibility of the tabs on the Reports page */
+  reportTabs: import('../../types').ReportTabSetting[];
+  /** Callback invoked when a report is shown or hidden */
+  onReportTabVisibleChange: (id: import('../../types').ReportTabId, visible: boolean) => void;
+  /** Callback invoked when a report is moved up (-1) or down (+1) */
+  onReportTabMove: (id: import('../../types').ReportTabId, direction: -1 | 1) => void;
+  /** Callback invoked when report tabs are reset to defaults */
+  onReportTabsReset: () => void;
+  /** Source time zone of the device clock and analysis mode */
+  timeZoneSettings: import('../../types').TimeZoneSettings;
+  /** Callback invoked when the source time zone changes */
+  onSourceTimeZoneChange: (timeZone: string) => void;
+  /** Callback invoked when the analysis mode changes */
+  onAnalysisModeChange: (mode: import('../../types').TimeAnalysisMode) => void;
 }
 
 /**
@@ -118,6 +162,10 @@ export interface AISettingsTabProps extends SettingsTabProps {
   deepseekApiKey: string;
   /** Callback invoked when DeepSeek API key changes */
   onDeepSeekApiKeyChange: (key: string) => void;
+  /** Base URL, model and optional API key of the custom OpenAI-compatible provider */
+  customProvider: CustomProviderSettings;
+  /** Callback invoked when custom provider settings change */
+  onCustomProviderChange: (changes: Partial<CustomProviderSettings>) => void;
   /** Currently selected AI provider, or null for auto-selection */
   selectedProvider: AIProvider | null;
   /** Callback invoked when selected AI provider changes */
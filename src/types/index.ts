@@ -214,6 +214,52 @@ export interface HourlyIOBData {
   activeIOB: number;      // Active IOB at this moment (units)
 }
 
+/**
+ * Source dataset of a carb entry
+ */
+export type CarbEntrySource = 'food' | 'bolus';
+
+/**
+ * Parsed carb/food entry from CSV data
+ */
+export interface CarbEntry {
+  timestamp: Date;
+  carbs: number;          // Carbohydrates in grams
+  description?: string;   // Food name or description
+  protein?: number;       // Protein in grams
+  fat?: number;           // Fat in grams
+  source: CarbEntrySource; // Dataset the entry was read from
+}
+
+/**
+ * Parsed exercise session from CSV data
+ */
+export interface ExerciseSession {
+  timestamp: Date;
+  activityType: string;      // Activity name (e.g., "Running")
+  intensity?: string;        // Intensity as logged (e.g., "Moderate")
+  durationMinutes?: number;  // Duration of the activity in minutes
+}
+
+/**
+ * Parsed medication event from CSV data
+ */
+export interface MedicationEvent {
+  timestamp: Date;
+  medicationName: string;
+  dosage?: number;        // Numeric dosage when the value is a number
+  dosageText?: string;    // Raw dosage text as logged
+}
+
+/**
+ * Parsed alarm/device event from CSV data
+ */
+export interface AlarmEvent {
+  timestamp: Date;
+  event: string;          // Alarm or event name as logged
+  serialNumber?: string;  // Serial number of the device that raised it
+}
+
 /**
  * Parsed glucose reading from CSV data
  */
@@ -247,6 +293,71 @@ export interface AIAnalysisResult {
   inRangePercentage: number;
 }
 
+/**
+ * Tab of the AI Analysis page
+ */
+export type AIAnalysisTab = 'timeInRange' | 'glucoseInsulin' | 'mealTiming' | 'pumpSettings' | 'hypos';
+
+/**
+ * Message of a follow-up conversation on an AI analysis
+ */
+export interface AIConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+}
+
+/**
+ * Follow-up conversation on an AI analysis result
+ */
+export interface AIConversation {
+  /** Prompt of the analysis, including the data it was based on */
+  prompt: string;
+  /** Response of the analysis the conversation follows up on */
+  response: string;
+  /** Follow-up questions and answers, oldest first */
+  messages: AIConversationMessage[];
+}
+
+/**
+ * Rating used by structured AI analysis output
+ */
+export type AIAnalysisLevel = 'low' | 'medium' | 'high';
+
+/**
+ * Finding of a structured AI analysis
+ */
+export interface AIAnalysisFinding {
+  title: string;
+  detail: string;
+  /** How strongly the data supports the finding */
+  confidence: AIAnalysisLevel;
+  /** Day and/or time of day the finding refers to */
+  timeWindow?: ChartFocus;
+}
+
+/**
+ * Recommendation of a structured AI analysis
+ */
+export interface AIAnalysisRecommendation {
+  title: string;
+  action: string;
+  /** How urgently the recommendation should be acted on */
+  severity: AIAnalysisLevel;
+  /** How strongly the data supports the recommendation */
+  confidence: AIAnalysisLevel;
+  /** Day and/or time of day the recommendation refers to */
+  timeWindow?: ChartFocus;
+}
+
+/**
+ * Structured output of an AI analysis, returned as a JSON block next to the Markdown response
+ */
+export interface StructuredAIAnalysis {
+  findings: AIAnalysisFinding[];
+  recommendations: AIAnalysisRecommendation[];
+}
+
 /**
  * Rate of Change (RoC) data point for glucose
  * Represents the speed of glucose change at a given time
@@ -296,6 +407,151 @@ export interface HourlyTIRStats {
   stats: GlucoseRangeStats;
 }
 
+/**
+ * Identifier of a report tab on the Reports page (also used in #reports/<id> hash routes)
+ */
+export type ReportTabId =
+  | 'bgOverview'
+  | 'dailyBG'
+  | 'hypos'
+  | 'meals'
+  | 'agp'
+  | 'trends'
+  | 'bgValues'
+  | 'inRange'
+  | 'unifiedDaily'
+  | 'insulinDaily'
+  | 'iob';
+
+/**
+ * Part of the data a report chart should show and highlight
+ * (opened via #reports/dailyBG/<date>/<start>-<end> or #reports/agp/<start>-<end>)
+ */
+export interface ChartFocus {
+  /** Day in YYYY-MM-DD format */
+  date?: string;
+  /** Start of the time window in HH:mm format */
+  start?: string;
+  /** End of the time window in HH:mm format (may be earlier than the start for windows across midnight) */
+  end?: string;
+}
+
+/**
+ * User preference for a single report tab
+ */
+export interface ReportTabSetting {
+  id: ReportTabId;
+  /** Whether the tab is shown on the Reports page */
+  visible: boolean;
+}
+
+/**
+ * How timestamps are placed on the reports' clock
+ * - 'wallClock': the time shown on the device when the reading was taken
+ * - 'homeTimeZone': the time in the source (home) time zone, undoing clock changes made while travelling
+ */
+export type TimeAnalysisMode = 'wallClock' | 'homeTimeZone';
+
+/**
+ * Time zone preferences used when reading Glooko timestamps
+ */
+export interface TimeZoneSettings {
+  /** IANA time zone the device clock is normally set to, or 'auto' for the browser's zone */
+  sourceTimeZone: string;
+  analysisMode: TimeAnalysisMode;
+}
+
+/**
+ * Insulin activity curve used for IOB calculations
+ * - 'linear': insulin on board decreases at a constant rate over the insulin duration
+ * - 'exponential': the Loop/OpenAPS exponential activity curve with a configurable peak
+ * - 'biexponential': a two-compartment (absorption and elimination) activity curve with a configurable peak
+ */
+export type InsulinModelType = 'linear' | 'exponential' | 'biexponential';
+
+/**
+ * Insulin peak time presets
+ * - 'rapidActing': Humalog, Novolog/NovoRapid, Apidra (peak 75 minutes)
+ * - 'ultraRapid': Fiasp, Lyumjev (peak 55 minutes)
+ * - 'custom': user-defined peak time
+ */
+export type InsulinPeakPreset = 'rapidActing' | 'ultraRapid' | 'custom';
+
+/**
+ * Insulin activity model preferences used for IOB calculations
+ * The insulin duration is stored separately as `insulinDuration`.
+ */
+export interface InsulinModelSettings {
+  model: InsulinModelType;
+  preset: InsulinPeakPreset;
+  /** Peak activity time in minutes (used by the curved models) */
+  peakMinutes: number;
+}
+
+/**
+ * Usual sleep window used for nocturnal analysis
+ * Hours are local clock hours (0-23); the window crosses midnight when
+ * the start hour is later than the end hour.
+ */
+export interface SleepWindow {
+  /** Usual bedtime hour */
+  startHour: number;
+  /** Usual wake-up hour */
+  endHour: number;
+}
+
+/**
+ * Named part of the day used for time-of-day breakdowns (e.g. "School" 8-15)
+ * Hours are local clock hours (0-23); the end hour is exclusive and the
+ * segment crosses midnight when the start hour is later than the end hour.
+ */
+export interface TimeOfDaySegment {
+  /** Name shown in reports */
+  name: string;
+  /** First hour of the segment */
+  startHour: number;
+  /** Hour at which the segment ends */
+  endHour: number;
+}
+
+/**
+ * Category of a user-logged event shown on the trends report
+ */
+export type EventLogCategory = 'pumpChange' | 'sensorChange' | 'insulinChange' | 'illness' | 'other';
+
+/**
+ * User-logged event (e.g. a new pump or sensor brand) that may explain a shift in trends
+ */
+export interface EventLogEntry {
+  /** Date of the event in YYYY-MM-DD format */
+  date: string;
+  category: EventLogCategory;
+  /** Free-text description */
+  note: string;
+}
+
+/**
+ * Tag of a user annotation attached to a point in a dataset
+ */
+export type AnnotationTag = 'sick' | 'pizza' | 'siteChange' | 'alcohol' | 'stress' | 'other';
+
+/**
+ * Personal note attached to a point in time of a dataset (e.g. "pizza" at dinner)
+ */
+export interface DataAnnotation {
+  /** Unique ID within the dataset */
+  id: string;
+  /** Date of the annotation in YYYY-MM-DD format */
+  date: string;
+  /** Time of day in HH:mm format; omitted when the annotation covers the whole day */
+  time?: string;
+  tag: AnnotationTag;
+  /** Free-text note */
+  note: string;
+  /** When the annotation was deleted (ISO 8601); deleted annotations are kept so the deletion syncs to other devices */
+  deletedAt?: string;
+}
+
 /**
  * User settings that are synced to cloud storage
  * 
@@ -317,6 +573,18 @@ export interface CloudUserSettings {
   glucoseThresholds: GlucoseThresholds;
   /** Pro user preference: use backend keys (true) or own keys (false). Default: true */
   useProKeys?: boolean;
+  /** Order and visibility of the tabs on the Reports page */
+  reportTabs?: ReportTabSetting[];
+  /** Source time zone of the device clock and how report times are placed */
+  timeZone?: TimeZoneSettings;
+  /** Insulin activity model for IOB calculations */
+  insulinModel?: InsulinModelSettings;
+  /** Usual sleep window for nocturnal analysis */
+  sleepWindow?: SleepWindow;
+  /** Named time-of-day segments for TIR and AGP breakdowns */
+  timeOfDaySegments?: TimeOfDaySegment[];
+  /** User annotations by dataset key (see getDatasetKey) */
+  annotations?: Record<string, DataAnnotation[]>;
 }
 
 /**
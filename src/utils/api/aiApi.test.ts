@@ -5,11 +5,17 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { 
   callAIApi, 
+  callAIWithRouting,
   getProviderDisplayName, 
   determineActiveProvider, 
   getActiveProvider,
   getAvailableProviders,
   isRequestTooLargeError,
+  estimatePromptTokens,
+  getPromptTokenBudget,
+  BACKEND_MAX_PROMPT_LENGTH,
+  PROMPT_CHARS_PER_TOKEN,
+  PROVIDER_PROMPT_TOKEN_BUDGETS,
   verifyApiKey,
   type AIProvider 
 } from './aiApi';
@@ -17,6 +23,9 @@ import * as perplexityApi from './perplexityApi';
 import * as geminiApi from './geminiApi';
 import * as grokApi from './grokApi';
 import * as deepseekApi from './deepseekApi';
+import * as customApi from './customApi';
+
+const CUSTOM_PROVIDER = { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1', apiKey: '' };
 
 describe('aiApi', () => {
   // Save original fetch
@@ -71,6 +80,16 @@ describe('aiApi', () => {
       expect(result).toEqual(mockResult);
     });
 
+    it('should call the custom provider with its base URL and model', async () => {
+      const mockResult = { success: true, content: 'Local response' };
+      const spy = vi.spyOn(customApi, 'callCustomApi').mockResolvedValue(mockResult);
+
+      const result = await callAIApi('custom', 'local-key', 'test prompt', CUSTOM_PROVIDER);
+
+      expect(spy).toHaveBeenCalledWith({ ...CUSTOM_PROVIDER, apiKey: 'local-key' }, 'test prompt');
+      expect(result).toEqual(mockResult);
+    });
+
     it('should return error for unknown provider', async () => {
       const result = await callAIApi('unknown' as AIProvider, 'test-key', 'test prompt');
 
@@ -80,6 +99,39 @@ describe('aiApi', () => {
     });
   });
 
+  describe('callAIWithRouting', () => {
+    it('should stream the response when a chunk callback is given', async () => {
+      const mockResult = { success: true, content: 'Streamed response' };
+      const streamSpy = vi.spyOn(grokApi, 'streamGrokApi').mockResolvedValue(mockResult);
+      const callSpy = vi.spyOn(grokApi, 'callGrokApi');
+      const onChunk = vi.fn();
+      const signal = new AbortController().signal;
+
+      const result = await callAIWithRouting('grok', 'test prompt', { apiKey: 'test-key', onChunk, signal });
+
+      expect(streamSpy).toHaveBeenCalledWith('test-key', 'test prompt', { onChunk, signal });
+      expect(callSpy).not.toHaveBeenCalled();
+      expect(result).toEqual(mockResult);
+    });
+
+    it('should call the custom provider without an API key', async () => {
+      const mockResult = { success: true, content: 'Local response' };
+      const spy = vi.spyOn(customApi, 'callCustomApi').mockResolvedValue(mockResult);
+
+      const result = await callAIWithRouting('custom', 'test prompt', { customProvider: CUSTOM_PROVIDER });
+
+      expect(spy).toHaveBeenCalledWith(CUSTOM_PROVIDER, 'test prompt');
+      expect(result).toEqual(mockResult);
+    });
+
+    it('should require an API key for other providers', async () => {
+      const result = await callAIWithRouting('grok', 'test prompt', { customProvider: CUSTOM_PROVIDER });
+
+      expect(result.success).toBe(false);
+      expect(result.errorType).toBe('api');
+    });
+  });
+
   describe('getProviderDisplayName', () => {
     it('should return "Perplexity AI" for perplexity provider', () => {
       expect(getProviderDisplayName('perplexity')).toBe('Perplexity AI');
@@ -97,6 +149,10 @@ describe('aiApi', () => {
       expect(getProviderDisplayName('deepseek')).toBe('DeepSeek AI');
     });
 
+    it('should return "Custom AI" for custom provider', () => {
+      expect(getProviderDisplayName('custom')).toBe('Custom AI');
+    });
+
     it('should return the provider value for unknown providers', () => {
       expect(getProviderDisplayName('unknown' as AIProvider)).toBe('unknown');
     });
@@ -167,6 +223,16 @@ describe('aiApi', () => {
       const result = determineActiveProvider('perplexity-key', '  ', '  ', '  ');
       expect(result).toBe('perplexity');
     });
+
+    it('should prefer a configured custom provider over all keys', () => {
+      const result = determineActiveProvider('perplexity-key', 'gemini-key', 'grok-key', 'deepseek-key', CUSTOM_PROVIDER);
+      expect(result).toBe('custom');
+    });
+
+    it('should skip a custom provider without a model', () => {
+      const result = determineActiveProvider('', 'gemini-key', '', '', { ...CUSTOM_PROVIDER, model: '' });
+      expect(result).toBe('gemini');
+    });
   });
 
   describe('getActiveProvider', () => {
@@ -200,6 +266,11 @@ describe('aiApi', () => {
       expect(result).toBe(null);
     });
 
+    it('should use manually selected custom provider when it is configured', () => {
+      const result = getActiveProvider('custom', 'perplexity-key', '', '', '', CUSTOM_PROVIDER);
+      expect(result).toBe('custom');
+    });
+
     it('should ignore whitespace-only keys for selected provider', () => {
       const result = getActiveProvider('perplexity', '  ', 'gemini-key', 'grok-key', 'deepseek-key');
       expect(result).toBe('grok');
@@ -246,6 +317,11 @@ describe('aiApi', () => {
       const result = getAvailableProviders('', 'gemini-key', 'grok-key', 'deepseek-key');
       expect(result).toEqual(['grok', 'deepseek', 'gemini']);
     });
+
+    it('should list a configured custom provider first', () => {
+      const result = getAvailableProviders('perplexity-key', '', '', '', CUSTOM_PROVIDER);
+      expect(result).toEqual(['custom', 'perplexity']);
+    });
   });
 
   describe('isRequestTooLargeError', () => {
@@ -294,6 +370,12 @@ describe('aiApi', () => {
       expect(isRequestTooLargeError('Request size exceeded')).toBe(true);
     });
 
+    it('should return true for context window errors of local servers', () => {
+      expect(isRequestTooLargeError('the request exceeds the available context size, try increasing it')).toBe(true);
+      expect(isRequestTooLargeError('The model is loaded with context length of only 4096 tokens')).toBe(true);
+      expect(isRequestTooLargeError('Context window overflow')).toBe(true);
+    });
+
     it('should be case insensitive', () => {
       expect(isRequestTooLargeError('TOO LARGE')).toBe(true);
       expect(isRequestTooLargeError('Too Long')).toBe(true);
@@ -301,6 +383,30 @@ describe('aiApi', () => {
     });
   });
 
+  describe('estimatePromptTokens', () => {
+    it('should estimate tokens from the prompt length', () => {
+      expect(estimatePromptTokens('')).toBe(0);
+      expect(estimatePromptTokens('12345,6.1')).toBe(3);
+      expect(estimatePromptTokens('12345,6.1\n')).toBe(4);
+    });
+  });
+
+  describe('getPromptTokenBudget', () => {
+    it('should return the budget of the provider for client-side calls', () => {
+      expect(getPromptTokenBudget('gemini')).toBe(PROVIDER_PROMPT_TOKEN_BUDGETS.gemini);
+      expect(getPromptTokenBudget('custom', { isProUser: true, useProKeys: false, idToken: 'token' })).toBe(PROVIDER_PROMPT_TOKEN_BUDGETS.custom);
+    });
+
+    it('should return the backend limit for Pro users with backend keys', () => {
+      const budget = getPromptTokenBudget('gemini', { isProUser: true, idToken: 'token' });
+
+      expect(budget).toBeLessThan(PROVIDER_PROMPT_TOKEN_BUDGETS.gemini);
+      // A prompt within the budget stays within the backend character limit
+      expect(budget * PROMPT_CHARS_PER_TOKEN).toBeLessThanOrEqual(BACKEND_MAX_PROMPT_LENGTH);
+      expect(estimatePromptTokens('x'.repeat(BACKEND_MAX_PROMPT_LENGTH + 1))).toBeGreaterThan(budget);
+    });
+  });
+
   describe('verifyApiKey', () => {
     it('should call verifyPerplexityApiKey for perplexity provider', async () => {
       const mockVerify = vi.spyOn(perplexityApi, 'verifyPerplexityApiKey').mockResolvedValue({ valid: true });
@@ -338,6 +444,15 @@ describe('aiApi', () => {
       expect(result.valid).toBe(true);
     });
 
+    it('should call verifyCustomApiKey with the custom provider settings', async () => {
+      const mockVerify = vi.spyOn(customApi, 'verifyCustomApiKey').mockResolvedValue({ valid: true });
+      
+      const result = await verifyApiKey('custom', 'local-key', CUSTOM_PROVIDER);
+      
+      expect(mockVerify).toHaveBeenCalledWith({ ...CUSTOM_PROVIDER, apiKey: 'local-key' });
+      expect(result.valid).toBe(true);
+    });
+
     it('should return invalid result for verification failures', async () => {
       vi.spyOn(perplexityApi, 'verifyPerplexityApiKey').mockResolvedValue({ valid: false, error: 'Invalid API key' });
       
@@ -2,24 +2,34 @@
  * Unified AI API utility
  * 
  * This module provides a unified interface for calling different AI providers
- * (Perplexity or Google Gemini) based on user configuration.
+ * (Perplexity, Google Gemini, Grok, DeepSeek or a custom OpenAI-compatible
+ * endpoint) based on user configuration.
  */
 
-import { callPerplexityApi, verifyPerplexityApiKey, type PerplexityResult } from './perplexityApi';
-import { callGeminiApi, verifyGeminiApiKey, type GeminiResult } from './geminiApi';
-import { callGrokApi, verifyGrokApiKey, type GrokResult } from './grokApi';
-import { callDeepSeekApi, verifyDeepSeekApiKey, type DeepSeekResult } from './deepseekApi';
-import { type APIKeyVerificationResult } from './baseApiClient';
+import { callPerplexityApi, streamPerplexityApi, verifyPerplexityApiKey, type PerplexityResult } from './perplexityApi';
+import { callGeminiApi, streamGeminiApi, verifyGeminiApiKey, type GeminiResult } from './geminiApi';
+import { callGrokApi, streamGrokApi, verifyGrokApiKey, type GrokResult } from './grokApi';
+import { callDeepSeekApi, streamDeepSeekApi, verifyDeepSeekApiKey, type DeepSeekResult } from './deepseekApi';
+import {
+  callCustomApi,
+  streamCustomApi,
+  verifyCustomApiKey,
+  isCustomProviderConfigured,
+  DEFAULT_CUSTOM_PROVIDER_SETTINGS,
+  type CustomProviderSettings,
+  type CustomResult,
+} from './customApi';
+import { type AIStreamOptions, type APIKeyVerificationResult } from './baseApiClient';
 
 /**
  * Supported AI providers
  */
-export type AIProvider = 'perplexity' | 'gemini' | 'grok' | 'deepseek';
+export type AIProvider = 'perplexity' | 'gemini' | 'grok' | 'deepseek' | 'custom';
 
 /**
  * Unified AI result type
  */
-export type AIResult = PerplexityResult | GeminiResult | GrokResult | DeepSeekResult;
+export type AIResult = PerplexityResult | GeminiResult | GrokResult | DeepSeekResult | CustomResult;
 
 /**
  * Helper function to detect if an error is related to request size being too large
@@ -38,22 +48,90 @@ export function isRequestTooLargeError(errorMessage: string | undefined): boolea
     lowerMessage.includes('limit') ||
     lowerMessage.includes('token') && (lowerMessage.includes('limit') || lowerMessage.includes('exceed')) ||
     lowerMessage.includes('payload') && lowerMessage.includes('large') ||
-    lowerMessage.includes('request') && lowerMessage.includes('size')
+    lowerMessage.includes('request') && lowerMessage.includes('size') ||
+    // Local servers (llama.cpp, LM Studio, Ollama) report their context window
+    lowerMessage.includes('context') && (lowerMessage.includes('length') || lowerMessage.includes('size') || lowerMessage.includes('window') || lowerMessage.includes('overflow'))
   );
 }
 
+/**
+ * Average number of prompt characters per token
+ *
+ * Prompts are mostly numeric CSV, which tokenizes worse than prose, so this is
+ * lower than the usual 4 characters per token of English text.
+ */
+export const PROMPT_CHARS_PER_TOKEN = 3;
+
+/**
+ * Maximum prompt length accepted by the backend (characters), see api/src/functions/aiQuery.ts
+ */
+export const BACKEND_MAX_PROMPT_LENGTH = 50000;
+
+/**
+ * Prompt token budget of each provider for client-side calls
+ *
+ * Each budget is the provider model's context window minus room for the response:
+ * - Perplexity (sonar): 127k context
+ * - Gemini: 1M context, capped to keep browser requests reasonable
+ * - Grok (grok-3-mini): 131k context
+ * - DeepSeek (deepseek-chat): 64k context
+ * - Custom: local servers often run with a small context window (e.g. 8k)
+ */
+export const PROVIDER_PROMPT_TOKEN_BUDGETS: Record<AIProvider, number> = {
+  perplexity: 100000,
+  gemini: 500000,
+  grok: 100000,
+  deepseek: 48000,
+  custom: 6000,
+};
+
+/**
+ * Estimate the number of tokens of a prompt
+ *
+ * @param text - Prompt text
+ * @returns Estimated token count
+ */
+export function estimatePromptTokens(text: string): number {
+  return Math.ceil(text.length / PROMPT_CHARS_PER_TOKEN);
+}
+
+/**
+ * Get the prompt token budget for a call, following the same routing as `callAIWithRouting`
+ *
+ * @param provider - The AI provider used for client-side calls
+ * @param options - Routing options
+ * @param options.idToken - ID token used to authenticate backend (Pro) requests
+ * @param options.isProUser - Whether the user is a Pro user
+ * @param options.useProKeys - Whether the Pro user uses the backend keys (default true)
+ * @returns Maximum estimated prompt tokens
+ */
+export function getPromptTokenBudget(
+  provider: AIProvider,
+  options: { idToken?: string | null; isProUser?: boolean; useProKeys?: boolean } = {}
+): number {
+  const { idToken, isProUser, useProKeys = true } = options;
+
+  if (isProUser && useProKeys && idToken) {
+    return Math.floor(BACKEND_MAX_PROMPT_LENGTH / PROMPT_CHARS_PER_TOKEN);
+  }
+
+  return PROVIDER_PROMPT_TOKEN_BUDGETS[provider] ?? PROVIDER_PROMPT_TOKEN_BUDGETS.custom;
+}
+
 /**
  * Call the appropriate AI API based on provider selection
  * 
- * @param provider - The AI provider to use ('perplexity', 'gemini', 'grok', or 'deepseek')
- * @param apiKey - The API key for the selected provider
+ * @param provider - The AI provider to use ('perplexity', 'gemini', 'grok', 'deepseek', or 'custom')
+ * @param apiKey - The API key for the selected provider (may be empty for 'custom')
  * @param prompt - The prompt to send to the AI
+ * @param customProvider - Base URL and model of the custom provider (required for 'custom')
  * @returns Promise with the result containing success status and content or error
  */
 export async function callAIApi(
   provider: AIProvider,
   apiKey: string,
-  prompt: string
+  prompt: string,
+  customProvider: CustomProviderSettings = DEFAULT_CUSTOM_PROVIDER_SETTINGS
 ): Promise<AIResult> {
   switch (provider) {
     case 'perplexity':
@@ -64,6 +142,45 @@ export async function callAIApi(
       return callGrokApi(apiKey, prompt);
     case 'deepseek':
       return callDeepSeekApi(apiKey, prompt);
+    case 'custom':
+      return callCustomApi({ ...customProvider, apiKey }, prompt);
+    default:
+      return {
+        success: false,
+        error: `Unknown AI provider: ${provider}`,
+        errorType: 'unknown',
+      };
+  }
+}
+
+/**
+ * Stream a response from the appropriate AI API based on provider selection
+ * 
+ * @param provider - The AI provider to use ('perplexity', 'gemini', 'grok', 'deepseek', or 'custom')
+ * @param apiKey - The API key for the selected provider (may be empty for 'custom')
+ * @param prompt - The prompt to send to the AI
+ * @param stream - Called with the text received so far; the signal cancels the request
+ * @param customProvider - Base URL and model of the custom provider (required for 'custom')
+ * @returns Promise with the result containing success status and the full content or error
+ */
+export async function streamAIApi(
+  provider: AIProvider,
+  apiKey: string,
+  prompt: string,
+  stream: AIStreamOptions,
+  customProvider: CustomProviderSettings = DEFAULT_CUSTOM_PROVIDER_SETTINGS
+): Promise<AIResult> {
+  switch (provider) {
+    case 'perplexity':
+      return streamPerplexityApi(apiKey, prompt, stream);
+    case 'gemini':
+      return streamGeminiApi(apiKey, prompt, stream);
+    case 'grok':
+      return streamGrokApi(apiKey, prompt, stream);
+    case 'deepseek':
+      return streamDeepSeekApi(apiKey, prompt, stream);
+    case 'custom':
+      return streamCustomApi({ ...customProvider, apiKey }, prompt, stream);
     default:
       return {
         success: false,
@@ -89,6 +206,8 @@ export function getProviderDisplayName(provider: AIProvider): string {
       return 'Grok AI';
     case 'deepseek':
       return 'DeepSeek AI';
+    case 'custom':
+      return 'Custom AI';
     default:
       return provider;
   }
@@ -96,21 +215,27 @@ export function getProviderDisplayName(provider: AIProvider): string {
 
 /**
  * Determine which provider should be used based on available API keys
- * Uses automatic priority order: Perplexity > Grok > DeepSeek > Gemini
+ * Uses automatic priority order: Custom > Perplexity > Grok > DeepSeek > Gemini
  * 
  * @param perplexityKey - Perplexity API key
  * @param geminiKey - Google Gemini API key
  * @param grokKey - Grok AI API key
  * @param deepseekKey - DeepSeek API key
+ * @param customProvider - Custom provider settings (available once base URL and model are set)
  * @returns The provider to use, or null if no keys are available
  */
 export function determineActiveProvider(
   perplexityKey: string,
   geminiKey: string,
   grokKey: string,
-  deepseekKey: string = ''
+  deepseekKey: string = '',
+  customProvider: CustomProviderSettings = DEFAULT_CUSTOM_PROVIDER_SETTINGS
 ): AIProvider | null {
-  // Priority order: Perplexity > Grok > DeepSeek > Gemini
+  // Priority order: Custom > Perplexity > Grok > DeepSeek > Gemini
+  // A configured custom endpoint comes first so data stays on the user's own server
+  if (isCustomProviderConfigured(customProvider)) {
+    return 'custom';
+  }
   if (perplexityKey && perplexityKey.trim() !== '') {
     return 'perplexity';
   }
@@ -136,6 +261,7 @@ export function determineActiveProvider(
  * @param geminiKey - Google Gemini API key
  * @param grokKey - Grok AI API key
  * @param deepseekKey - DeepSeek API key
+ * @param customProvider - Custom provider settings (available once base URL and model are set)
  * @returns The provider to use, or null if no keys are available
  */
 export function getActiveProvider(
@@ -143,7 +269,8 @@ export function getActiveProvider(
   perplexityKey: string,
   geminiKey: string,
   grokKey: string,
-  deepseekKey: string = ''
+  deepseekKey: string = '',
+  customProvider: CustomProviderSettings = DEFAULT_CUSTOM_PROVIDER_SETTINGS
 ): AIProvider | null {
   // If a provider is manually selected, use it if it has a key
   if (selectedProvider) {
@@ -157,6 +284,8 @@ export function getActiveProvider(
           return !!(deepseekKey && deepseekKey.trim() !== '');
         case 'gemini':
           return !!(geminiKey && geminiKey.trim() !== '');
+        case 'custom':
+          return isCustomProviderConfigured(customProvider);
         default:
           return false;
       }
@@ -168,7 +297,7 @@ export function getActiveProvider(
   }
   
   // Fall back to automatic selection based on priority
-  return determineActiveProvider(perplexityKey, geminiKey, grokKey, deepseekKey);
+  return determineActiveProvider(perplexityKey, geminiKey, grokKey, deepseekKey, customProvider);
 }
 
 /**
@@ -178,16 +307,21 @@ export function getActiveProvider(
  * @param geminiKey - Google Gemini API key
  * @param grokKey - Grok AI API key
  * @param deepseekKey - DeepSeek API key
+ * @param customProvider - Custom provider settings (available once base URL and model are set)
  * @returns Array of available providers
  */
 export function getAvailableProviders(
   perplexityKey: string,
   geminiKey: string,
   grokKey: string,
-  deepseekKey: string = ''
+  deepseekKey: string = '',
+  customProvider: CustomProviderSettings = DEFAULT_CUSTOM_PROVIDER_SETTINGS
 ): AIProvider[] {
   const providers: AIProvider[] = [];
   
+  if (isCustomProviderConfigured(customProvider)) {
+    providers.push('custom');
+  }
   if (perplexityKey && perplexityKey.trim() !== '') {
     providers.push('perplexity');
   }
@@ -207,13 +341,15 @@ export function getAvailableProviders(
 /**
  * Verify an API key for the specified AI provider.
  *
- * @param provider - The AI provider to verify (`'perplexity'`, `'gemini'`, `'grok'`, or `'deepseek'`)
- * @param apiKey - The API key to verify
+ * @param provider - The AI provider to verify (`'perplexity'`, `'gemini'`, `'grok'`, `'deepseek'`, or `'custom'`)
+ * @param apiKey - The API key to verify (may be empty for `'custom'`)
+ * @param customProvider - Base URL and model of the custom provider (required for `'custom'`)
  * @returns The verification result with `valid` set to `true` if the key is valid, otherwise `valid` is `false` and `error` may contain a message
  */
 export async function verifyApiKey(
   provider: AIProvider,
-  apiKey: string
+  apiKey: string,
+  customProvider: CustomProviderSettings = DEFAULT_CUSTOM_PROVIDER_SETTINGS
 ): Promise<APIKeyVerificationResult> {
   switch (provider) {
     case 'perplexity':
@@ -224,6 +360,8 @@ export async function verifyApiKey(
       return verifyGrokApiKey(apiKey);
     case 'deepseek':
       return verifyDeepSeekApiKey(apiKey);
+    case 'custom':
+      return verifyCustomApiKey({ ...customProvider, apiKey });
     default:
       return { valid: false, error: `Unknown provider: ${provider}` };
   }
@@ -236,13 +374,16 @@ export async function verifyApiKey(
  * where the provider is configured via environment variables; otherwise the call is performed client-side using the supplied
  * `provider` and `apiKey`.
  *
- * @param provider - The AI provider to use ('perplexity', 'gemini', 'grok', or 'deepseek') for client-side calls
+ * @param provider - The AI provider to use ('perplexity', 'gemini', 'grok', 'deepseek', or 'custom') for client-side calls
  * @param prompt - The prompt to send to the AI
  * @param options - Call options
- * @param options.apiKey - User's client-side API key (required for non‑Pro calls)
+ * @param options.apiKey - User's client-side API key (required for non‑Pro calls, optional for 'custom')
+ * @param options.customProvider - Base URL and model of the custom provider (required for 'custom')
  * @param options.idToken - ID token used to authenticate backend (Pro) requests
  * @param options.isProUser - Set to true to enable Pro routing when `idToken` and `useProKeys` are provided
  * @param options.useProKeys - Set to true to use Pro backend keys (only applies to Pro users)
+ * @param options.onChunk - When set, the response is streamed and this is called with the text received so far
+ * @param options.signal - Signal to cancel the request; a cancelled call returns the error type 'aborted'
  * @returns An AIResult object containing `success`, `content` on success, `error` with `errorType` on failure
  */
 export async function callAIWithRouting(
@@ -250,23 +391,28 @@ export async function callAIWithRouting(
   prompt: string,
   options: {
     apiKey?: string;
+    customProvider?: CustomProviderSettings;
     idToken?: string;
     isProUser?: boolean;
     useProKeys?: boolean;
+    onChunk?: (content: string) => void;
+    signal?: AbortSignal;
   }
 ): Promise<AIResult> {
-  const { apiKey, idToken, isProUser, useProKeys = true } = options;
+  const { apiKey, customProvider, idToken, isProUser, useProKeys = true, onChunk, signal } = options;
   
   // If user is a Pro user with an ID token and has opted to use Pro keys, use backend API
   if (isProUser && useProKeys && idToken) {
     // Dynamic import to avoid circular dependencies
-    const { callBackendAI } = await import('./backendAIApi');
+    const { callBackendAI, streamBackendAI } = await import('./backendAIApi');
     
-    const result = await callBackendAI(idToken, prompt);
+    const result = onChunk
+      ? await streamBackendAI(idToken, prompt, { onChunk, signal })
+      : await callBackendAI(idToken, prompt);
     
     // Convert backend result to AIResult format
     // Map backend error types to standard AI error types
-    let mappedErrorType: 'unauthorized' | 'network' | 'api' | 'unknown' = 'unknown';
+    let mappedErrorType: AIResult['errorType'] = 'unknown';
     if (result.errorType) {
       switch (result.errorType) {
         case 'unauthorized':
@@ -275,6 +421,9 @@ export async function callAIWithRouting(
         case 'network':
           mappedErrorType = 'network';
           break;
+        case 'aborted':
+          mappedErrorType = 'aborted';
+          break;
         case 'forbidden':
         case 'rate_limit':
         case 'validation':
@@ -296,7 +445,8 @@ export async function callAIWithRouting(
   }
   
   // Otherwise, use client-side API call with user's API key
-  if (!apiKey) {
+  // (local custom endpoints usually run without one)
+  if (!apiKey && provider !== 'custom') {
     return {
       success: false,
       error: 'API key is required when not using Pro backend keys',
@@ -304,5 +454,7 @@ export async function callAIWithRouting(
     };
   }
   
-  return callAIApi(provider, apiKey, prompt);
+  return onChunk
+    ? streamAIApi(provider, apiKey ?? '', prompt, { onChunk, signal }, customProvider)
+    : callAIApi(provider, apiKey ?? '', prompt, customProvider);
 }
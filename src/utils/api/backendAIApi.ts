@@ -7,6 +7,7 @@
  */
 
 import { createApiLogger } from '../logger';
+import { isAbortError, readServerSentEvents, type AIStreamOptions } from './baseApiClient';
 
 /**
  * Configuration for the Backend AI Query API
@@ -28,6 +29,8 @@ const defaultConfig: BackendAIApiConfig = {
  */
 interface BackendAIQueryRequest {
   prompt: string;
+  /** Whether to stream the response as server-sent events */
+  stream?: boolean;
 }
 
 /**
@@ -39,6 +42,20 @@ interface BackendAIQueryResponse {
   provider: string;
 }
 
+/**
+ * Server-sent event of a streamed backend AI query
+ *
+ * Events carry a text delta (`content`), the final event has `done` set and
+ * the full marked-up response, and a failed query ends with an `error` event.
+ */
+interface BackendAIStreamEvent {
+  content?: string;
+  done?: boolean;
+  provider?: string;
+  error?: string;
+  errorType?: string;
+}
+
 /**
  * Error response from backend
  */
@@ -56,29 +73,18 @@ export interface BackendAIResult {
   content?: string;
   provider?: string;
   error?: string;
-  errorType?: 'unauthorized' | 'forbidden' | 'rate_limit' | 'validation' | 'provider' | 'infrastructure' | 'network' | 'unknown';
+  errorType?: 'unauthorized' | 'forbidden' | 'rate_limit' | 'validation' | 'provider' | 'infrastructure' | 'network' | 'aborted' | 'unknown';
   statusCode?: number;
 }
 
+type ApiLogger = ReturnType<typeof createApiLogger>;
+
 /**
- * Send a prompt to the backend AI query endpoint and return a structured result.
+ * Validate the ID token and prompt of a backend AI query
  *
- * The backend will use its configured default provider from environment variables.
- *
- * @param idToken - MSAL ID token used for Authorization header
- * @param prompt - The AI prompt to send to the backend
- * @param config - Optional API configuration; defaults to the module's default (baseUrl '/api')
- * @returns A `BackendAIResult` containing `success` and, on success, `content` and `provider`; on failure, `error`, `errorType`, and optionally `statusCode`
+ * @returns Error result if validation fails, null if valid
  */
-export async function callBackendAI(
-  idToken: string,
-  prompt: string,
-  config: BackendAIApiConfig = defaultConfig
-): Promise<BackendAIResult> {
-  const endpoint = `${config.baseUrl}/ai/query`;
-  const apiLogger = createApiLogger(endpoint);
-  
-  // Validate ID token
+function validateBackendRequest(idToken: string, prompt: string, apiLogger: ApiLogger): BackendAIResult | null {
   if (!idToken || idToken.trim() === '') {
     apiLogger.logError('Authentication required - missing token', 'unauthorized');
     return {
@@ -88,7 +94,6 @@ export async function callBackendAI(
     };
   }
   
-  // Validate prompt
   if (!prompt || prompt.trim() === '') {
     apiLogger.logError('Prompt is required', 'validation');
     return {
@@ -97,6 +102,140 @@ export async function callBackendAI(
       errorType: 'validation',
     };
   }
+
+  return null;
+}
+
+/**
+ * Map a failed HTTP response of the backend to a result
+ *
+ * @param response - Fetch response with a non-OK status
+ * @returns Error result with the error type derived from the status code
+ */
+async function handleBackendHttpError(response: Response, apiLogger: ApiLogger): Promise<BackendAIResult> {
+  const statusCode = response.status;
+  
+  // Parse error response
+  let errorData: BackendAIErrorResponse | null = null;
+  try {
+    errorData = await response.json() as BackendAIErrorResponse;
+  } catch {
+    // Failed to parse error response
+  }
+  
+  const errorMessage = errorData?.error || `API error: ${response.status} ${response.statusText}`;
+  const errorType = errorData?.errorType;
+  
+  // Handle specific error types
+  if (statusCode === 401 || statusCode === 403) {
+    const type = statusCode === 401 ? 'unauthorized' : 'forbidden';
+    apiLogger.logError(errorMessage, type, statusCode);
+    return {
+      success: false,
+      error: errorMessage,
+      errorType: type,
+      statusCode,
+    };
+  }
+  
+  if (statusCode === 429) {
+    apiLogger.logError(errorMessage, 'rate_limit', statusCode);
+    return {
+      success: false,
+      error: errorMessage,
+      errorType: 'rate_limit',
+      statusCode,
+    };
+  }
+  
+  if (statusCode === 400) {
+    apiLogger.logError(errorMessage, 'validation', statusCode);
+    return {
+      success: false,
+      error: errorMessage,
+      errorType: 'validation',
+      statusCode,
+    };
+  }
+  
+  if (statusCode >= 500) {
+    const type = errorType === 'provider' ? 'provider' : 'infrastructure';
+    apiLogger.logError(errorMessage, type, statusCode);
+    return {
+      success: false,
+      error: errorMessage,
+      errorType: type,
+      statusCode,
+    };
+  }
+  
+  // Generic error
+  apiLogger.logError(errorMessage, errorType || 'unknown', statusCode);
+  return {
+    success: false,
+    error: errorMessage,
+    errorType: (errorType as BackendAIResult['errorType']) || 'unknown',
+    statusCode,
+  };
+}
+
+/**
+ * Map an exception thrown while calling the backend to a result
+ *
+ * @param error - Thrown error
+ * @returns Error result for aborted requests, network errors or unknown errors
+ */
+function handleBackendException(error: unknown, apiLogger: ApiLogger): BackendAIResult {
+  // Requests cancelled through an AbortSignal are not errors
+  if (isAbortError(error)) {
+    return {
+      success: false,
+      error: 'Analysis cancelled',
+      errorType: 'aborted',
+    };
+  }
+
+  // Handle network errors
+  if (error instanceof TypeError && error.message.includes('fetch')) {
+    apiLogger.logError('Network error. Please check your internet connection.', 'network');
+    return {
+      success: false,
+      error: 'Network error. Please check your internet connection.',
+      errorType: 'network',
+    };
+  }
+  
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+  apiLogger.logError(errorMessage, 'unknown');
+  return {
+    success: false,
+    error: errorMessage,
+    errorType: 'unknown',
+  };
+}
+
+/**
+ * Send a prompt to the backend AI query endpoint and return a structured result.
+ *
+ * The backend will use its configured default provider from environment variables.
+ *
+ * @param idToken - MSAL ID token used for Authorization header
+ * @param prompt - The AI prompt to send to the backend
+ * @param config - Optional API configuration; defaults to the module's default (baseUrl '/api')
+ * @returns A `BackendAIResult` containing `success` and, on success, `content` and `provider`; on failure, `error`, `errorType`, and optionally `statusCode`
+ */
+export async function callBackendAI(
+  idToken: string,
+  prompt: string,
+  config: BackendAIApiConfig = defaultConfig
+): Promise<BackendAIResult> {
+  const endpoint = `${config.baseUrl}/ai/query`;
+  const apiLogger = createApiLogger(endpoint);
+  
+  const validationError = validateBackendRequest(idToken, prompt, apiLogger);
+  if (validationError) {
+    return validationError;
+  }
   
   apiLogger.logStart('POST');
   
@@ -117,70 +256,7 @@ export async function callBackendAI(
     
     // Handle HTTP errors
     if (!response.ok) {
-      const statusCode = response.status;
-      
-      // Parse error response
-      let errorData: BackendAIErrorResponse | null = null;
-      try {
-        errorData = await response.json() as BackendAIErrorResponse;
-      } catch {
-        // Failed to parse error response
-      }
-      
-      const errorMessage = errorData?.error || `API error: ${response.status} ${response.statusText}`;
-      const errorType = errorData?.errorType;
-      
-      // Handle specific error types
-      if (statusCode === 401 || statusCode === 403) {
-        const type = statusCode === 401 ? 'unauthorized' : 'forbidden';
-        apiLogger.logError(errorMessage, type, statusCode);
-        return {
-          success: false,
-          error: errorMessage,
-          errorType: type,
-          statusCode,
-        };
-      }
-      
-      if (statusCode === 429) {
-        apiLogger.logError(errorMessage, 'rate_limit', statusCode);
-        return {
-          success: false,
-          error: errorMessage,
-          errorType: 'rate_limit',
-          statusCode,
-        };
-      }
-      
-      if (statusCode === 400) {
-        apiLogger.logError(errorMessage, 'validation', statusCode);
-        return {
-          success: false,
-          error: errorMessage,
-          errorType: 'validation',
-          statusCode,
-        };
-      }
-      
-      if (statusCode >= 500) {
-        const type = errorType === 'provider' ? 'provider' : 'infrastructure';
-        apiLogger.logError(errorMessage, type, statusCode);
-        return {
-          success: false,
-          error: errorMessage,
-          errorType: type,
-          statusCode,
-        };
-      }
-      
-      // Generic error
-      apiLogger.logError(errorMessage, errorType || 'unknown', statusCode);
-      return {
-        success: false,
-        error: errorMessage,
-        errorType: (errorType as BackendAIResult['errorType']) || 'unknown',
-        statusCode,
-      };
+      return handleBackendHttpError(response, apiLogger);
     }
     
     // Parse successful response
@@ -207,22 +283,109 @@ export async function callBackendAI(
     };
     
   } catch (error) {
-    // Handle network errors
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      apiLogger.logError('Network error. Please check your internet connection.', 'network');
+    return handleBackendException(error, apiLogger);
+  }
+}
+
+/**
+ * Stream a response from the backend AI query endpoint.
+ *
+ * Requests server-sent events and reports the text received so far through
+ * `stream.onChunk`. The final event carries the full response with the Pro
+ * marker, which replaces the streamed text.
+ *
+ * @param idToken - MSAL ID token used for Authorization header
+ * @param prompt - The AI prompt to send to the backend
+ * @param stream - Called with the text received so far; the signal cancels the request
+ * @param config - Optional API configuration; defaults to the module's default (baseUrl '/api')
+ * @returns A `BackendAIResult` like `callBackendAI`; a cancelled request has the error type 'aborted'
+ */
+export async function streamBackendAI(
+  idToken: string,
+  prompt: string,
+  stream: AIStreamOptions,
+  config: BackendAIApiConfig = defaultConfig
+): Promise<BackendAIResult> {
+  const endpoint = `${config.baseUrl}/ai/query`;
+  const apiLogger = createApiLogger(endpoint);
+  
+  const validationError = validateBackendRequest(idToken, prompt, apiLogger);
+  if (validationError) {
+    return validationError;
+  }
+  
+  apiLogger.logStart('POST');
+  
+  try {
+    const requestBody: BackendAIQueryRequest = {
+      prompt,
+      stream: true,
+    };
+    
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${idToken}`,
+        'Content-Type': 'application/json',
+        'x-correlation-id': apiLogger.correlationId,
+      },
+      body: JSON.stringify(requestBody),
+      signal: stream.signal,
+    });
+    
+    // Handle HTTP errors (returned before the stream starts)
+    if (!response.ok) {
+      return handleBackendHttpError(response, apiLogger);
+    }
+    
+    const received = { content: '', provider: '', error: '', errorType: '', done: false };
+    await readServerSentEvents(response, (data) => {
+      const event = JSON.parse(data) as BackendAIStreamEvent;
+      if (event.error) {
+        received.error = event.error;
+        received.errorType = event.errorType || 'provider';
+        return;
+      }
+      if (event.done) {
+        received.done = true;
+        received.content = event.content ?? received.content;
+        received.provider = event.provider ?? '';
+      } else if (event.content) {
+        received.content += event.content;
+      }
+      stream.onChunk(received.content);
+    });
+    
+    if (received.error) {
+      apiLogger.logError(received.error, received.errorType, 200);
+      return {
+        success: false,
+        error: received.error,
+        errorType: received.errorType as BackendAIResult['errorType'],
+      };
+    }
+    
+    if (!received.done || !received.content) {
+      apiLogger.logError('Invalid response from backend', 'unknown', 200);
       return {
         success: false,
-        error: 'Network error. Please check your internet connection.',
-        errorType: 'network',
+        error: 'Invalid response from backend',
+        errorType: 'unknown',
       };
     }
     
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    apiLogger.logError(errorMessage, 'unknown');
+    apiLogger.logSuccess(200, {
+      provider: received.provider,
+      contentLength: received.content.length,
+    });
+    
     return {
-      success: false,
-      error: errorMessage,
-      errorType: 'unknown',
+      success: true,
+      content: received.content,
+      provider: received.provider,
     };
+    
+  } catch (error) {
+    return handleBackendException(error, apiLogger);
   }
-}
\ No newline at end of file
+}
@@ -8,6 +8,8 @@ import {
   handleHttpError, 
   handleException,
   callOpenAICompatibleApi,
+  streamOpenAICompatibleApi,
+  readServerSentEvents,
   type OpenAICompatibleConfig 
 } from './baseApiClient';
 
@@ -15,6 +17,20 @@ import {
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
+/**
+ * Build a streamed response from raw text chunks
+ */
+function createStreamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
 describe('baseApiClient', () => {
   beforeEach(() => {
     mockFetch.mockClear();
@@ -128,6 +144,14 @@ describe('baseApiClient', () => {
       expect(result.errorType).toBe('unknown');
     });
 
+    it('should report aborted requests as cancelled', () => {
+      const error = new DOMException('The operation was aborted.', 'AbortError');
+      const result = handleException(error);
+      
+      expect(result.success).toBe(false);
+      expect(result.errorType).toBe('aborted');
+    });
+
     it('should handle unknown error types', () => {
       const result = handleException('string error');
       
@@ -324,4 +348,71 @@ describe('baseApiClient', () => {
       expect(result.errorType).toBe('api');
     });
   });
+
+  describe('readServerSentEvents', () => {
+    it('should join data lines split across chunks and skip the terminator', async () => {
+      const response = createStreamResponse(['data: {"a":', '1}\n\n: comment\ndata: {"a":2}\r\n', 'data: [DONE]\n']);
+      const received: string[] = [];
+
+      await readServerSentEvents(response, data => received.push(data));
+
+      expect(received).toEqual(['{"a":1}', '{"a":2}']);
+    });
+  });
+
+  describe('streamOpenAICompatibleApi', () => {
+    const mockConfig: OpenAICompatibleConfig = {
+      url: 'https://api.test.com/v1/chat/completions',
+      model: 'test-model',
+    };
+
+    const chunk = (content: string, finishReason: string | null = null) =>
+      `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content }, finish_reason: finishReason }] })}\n\n`;
+
+    it('should request a stream and report the text received so far', async () => {
+      mockFetch.mockResolvedValue(createStreamResponse([chunk('Hello'), chunk(' world', 'stop'), 'data: [DONE]\n\n']));
+      const onChunk = vi.fn();
+
+      const result = await streamOpenAICompatibleApi(mockConfig, 'test-key', 'test prompt', { onChunk });
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).stream).toBe(true);
+      expect(onChunk).toHaveBeenNthCalledWith(1, 'Hello');
+      expect(onChunk).toHaveBeenNthCalledWith(2, 'Hello world');
+      expect(result).toEqual({ success: true, content: 'Hello world', truncated: false });
+    });
+
+    it('should add a warning instead of retrying when the stream is truncated', async () => {
+      mockFetch.mockResolvedValue(createStreamResponse([chunk('Partial', 'length')]));
+
+      const result = await streamOpenAICompatibleApi(mockConfig, 'test-key', 'test prompt', { onChunk: vi.fn() });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.truncated).toBe(true);
+      expect(result.content).toContain('truncated due to length limits');
+    });
+
+    it('should return an API error sent inside the stream', async () => {
+      mockFetch.mockResolvedValue(createStreamResponse([`data: ${JSON.stringify({ error: { message: 'Overloaded', type: 'api_error' } })}\n\n`]));
+
+      const result = await streamOpenAICompatibleApi(mockConfig, 'test-key', 'test prompt', { onChunk: vi.fn() });
+
+      expect(result).toEqual({ success: false, error: 'Overloaded', errorType: 'api' });
+    });
+
+    it('should pass the abort signal and report cancelled requests', async () => {
+      const controller = new AbortController();
+      mockFetch.mockImplementation((_url: string, init: RequestInit) => {
+        expect(init.signal).toBe(controller.signal);
+        return Promise.reject(new DOMException('The operation was aborted.', 'AbortError'));
+      });
+
+      const result = await streamOpenAICompatibleApi(mockConfig, 'test-key', 'test prompt', {
+        onChunk: vi.fn(),
+        signal: controller.signal,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errorType).toBe('aborted');
+    });
+  });
 });
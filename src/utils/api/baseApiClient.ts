@@ -14,10 +14,28 @@ export interface AIApiResult {
   success: boolean;
   content?: string;
   error?: string;
-  errorType?: 'unauthorized' | 'network' | 'api' | 'unknown';
+  errorType?: 'unauthorized' | 'network' | 'api' | 'aborted' | 'unknown';
   truncated?: boolean;
 }
 
+/**
+ * Options for streaming an AI response
+ */
+export interface AIStreamOptions {
+  /** Called with the response text received so far after each chunk */
+  onChunk: (content: string) => void;
+  /** Signal to cancel the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Maximum number of tokens for a streamed response
+ *
+ * Streamed responses are not retried when truncated (the partial text has
+ * already been shown), so they get the full token budget up front.
+ */
+export const MAX_STREAM_TOKENS = 8000;
+
 /**
  * Result interface for API key verification
  * 
@@ -40,6 +58,8 @@ export interface OpenAICompatibleConfig {
   systemPrompt?: string;
   temperature?: number;
   finishReasonTruncated?: string;
+  /** Send requests without an API key when none is set (e.g. local servers) */
+  apiKeyOptional?: boolean;
 }
 
 /**
@@ -65,6 +85,21 @@ export interface OpenAICompatibleResponse {
   };
 }
 
+/**
+ * OpenAI-compatible streaming chunk (one server-sent event)
+ */
+export interface OpenAICompatibleStreamChunk {
+  id?: string;
+  choices?: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string;
+    };
+    finish_reason: string | null;
+  }>;
+}
+
 /**
  * Standard error response format
  */
@@ -81,10 +116,11 @@ export interface ApiError {
  * 
  * @param apiKey - API key to validate
  * @param prompt - Prompt to validate
+ * @param apiKeyOptional - Accept an empty API key
  * @returns Error result if validation fails, null if valid
  */
-export function validateInputs(apiKey: string, prompt: string): AIApiResult | null {
-  if (!apiKey || apiKey.trim() === '') {
+export function validateInputs(apiKey: string, prompt: string, apiKeyOptional: boolean = false): AIApiResult | null {
+  if (!apiKeyOptional && (!apiKey || apiKey.trim() === '')) {
     return {
       success: false,
       error: 'API key is required',
@@ -135,6 +171,19 @@ export async function handleHttpError(response: Response): Promise<AIApiResult>
   }
 }
 
+/**
+ * Check whether an error was raised by aborting a request
+ *
+ * Fetch rejects with a DOMException named 'AbortError', which is not an
+ * Error instance in every environment, so only the name is checked.
+ *
+ * @param error - Error object
+ * @returns True if the request was cancelled through an AbortSignal
+ */
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+}
+
 /**
  * Handle network and other exceptions
  * 
@@ -142,6 +191,15 @@ export async function handleHttpError(response: Response): Promise<AIApiResult>
  * @returns Error result
  */
 export function handleException(error: unknown): AIApiResult {
+  // Handle requests cancelled through an AbortSignal
+  if (isAbortError(error)) {
+    return {
+      success: false,
+      error: 'Analysis cancelled',
+      errorType: 'aborted',
+    };
+  }
+
   // Handle network errors or other exceptions
   if (error instanceof TypeError && error.message.includes('fetch')) {
     return {
@@ -158,6 +216,70 @@ export function handleException(error: unknown): AIApiResult {
   };
 }
 
+/**
+ * Trim a response and add a warning when it was truncated
+ *
+ * @param content - Response text
+ * @param truncated - Whether the provider stopped at the token limit
+ * @returns Trimmed response text, with the truncation warning if needed
+ */
+export function appendTruncationWarning(content: string, truncated: boolean): string {
+  const trimmed = content.trim();
+  return truncated
+    ? `${trimmed}\n\n⚠️ **Note:** This response was truncated due to length limits. The analysis may be incomplete.`
+    : trimmed;
+}
+
+/**
+ * Read the data lines of a server-sent event stream
+ *
+ * @param response - Fetch response with a text/event-stream body
+ * @param onData - Called with the payload of every `data:` line (the `[DONE]` terminator is skipped)
+ */
+export async function readServerSentEvents(response: Response, onData: (data: string) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming responses are not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split(/\r?\n/);
+    // Keep an incomplete last line until the next chunk arrives
+    buffer = done ? '' : lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data && data !== '[DONE]') {
+        onData(data);
+      }
+    }
+
+    if (done) return;
+  }
+}
+
+/**
+ * Build the request headers for an OpenAI-compatible API
+ * 
+ * @param apiKey - API key for authentication (no Authorization header when empty)
+ * @returns Request headers
+ */
+function buildOpenAICompatibleHeaders(apiKey: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (apiKey && apiKey.trim() !== '') {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+  return headers;
+}
+
 /**
  * Call an OpenAI-compatible API with a prompt
  * This function handles the common logic for APIs that follow the OpenAI format.
@@ -177,7 +299,7 @@ export async function callOpenAICompatibleApi(
   isRetry: boolean = false
 ): Promise<AIApiResult> {
   // Validate inputs
-  const validationError = validateInputs(apiKey, prompt);
+  const validationError = validateInputs(apiKey, prompt, config.apiKeyOptional);
   if (validationError) {
     return validationError;
   }
@@ -185,10 +307,7 @@ export async function callOpenAICompatibleApi(
   try {
     const response = await fetch(config.url, {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
+      headers: buildOpenAICompatibleHeaders(apiKey),
       body: JSON.stringify({
         model: config.model,
         messages: [
@@ -237,14 +356,9 @@ export async function callOpenAICompatibleApi(
       }
       
       // If response was truncated but we can't retry (already retried or at max), add a warning
-      let finalContent = content.trim();
-      if (truncated) {
-        finalContent += '\n\n⚠️ **Note:** This response was truncated due to length limits. The analysis may be incomplete.';
-      }
-      
       return {
         success: true,
-        content: finalContent,
+        content: appendTruncationWarning(content, truncated),
         truncated,
       };
     }
@@ -259,3 +373,106 @@ export async function callOpenAICompatibleApi(
     return handleException(error);
   }
 }
+
+/**
+ * Stream a response from an OpenAI-compatible API
+ *
+ * Sends the request with `stream: true` and reports the text received so far
+ * through `stream.onChunk`. The request is cancelled when `stream.signal` is
+ * aborted; the result then has the error type 'aborted'.
+ *
+ * @param config - API configuration (URL, model, etc.)
+ * @param apiKey - API key for authentication
+ * @param prompt - The prompt to send to the AI
+ * @param stream - Chunk callback and abort signal
+ * @param maxTokens - Maximum number of tokens for the response (default: 8000)
+ * @returns Promise with the result containing success status and the full content or error
+ */
+export async function streamOpenAICompatibleApi(
+  config: OpenAICompatibleConfig,
+  apiKey: string,
+  prompt: string,
+  stream: AIStreamOptions,
+  maxTokens: number = MAX_STREAM_TOKENS
+): Promise<AIApiResult> {
+  // Validate inputs
+  const validationError = validateInputs(apiKey, prompt, config.apiKeyOptional);
+  if (validationError) {
+    return validationError;
+  }
+
+  try {
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: buildOpenAICompatibleHeaders(apiKey),
+      body: JSON.stringify({
+        model: config.model,
+        messages: [
+          {
+            role: 'system',
+            content: config.systemPrompt || AI_SYSTEM_PROMPT,
+          },
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        temperature: config.temperature ?? 0.2,
+        max_tokens: maxTokens,
+        stream: true,
+      }),
+      signal: stream.signal,
+    });
+
+    // Handle HTTP errors
+    if (!response.ok) {
+      return handleHttpError(response);
+    }
+
+    const received = { content: '', finishReason: '', error: '' };
+    await readServerSentEvents(response, (data) => {
+      const chunk = JSON.parse(data) as OpenAICompatibleStreamChunk | ApiError;
+
+      // Some APIs report errors inside the stream
+      if ('error' in chunk && chunk.error) {
+        received.error = chunk.error.message || 'Unknown error from API';
+        return;
+      }
+
+      const choice = 'choices' in chunk ? chunk.choices?.[0] : undefined;
+      if (choice?.delta?.content) {
+        received.content += choice.delta.content;
+        stream.onChunk(received.content);
+      }
+      if (choice?.finish_reason) {
+        received.finishReason = choice.finish_reason;
+      }
+    });
+
+    if (received.error) {
+      return {
+        success: false,
+        error: received.error,
+        errorType: 'api',
+      };
+    }
+
+    if (!received.content) {
+      return {
+        success: false,
+        error: 'Invalid response format from API',
+        errorType: 'api',
+      };
+    }
+
+    const truncated = received.finishReason === (config.finishReasonTruncated || 'length');
+    return {
+      success: true,
+      content: appendTruncationWarning(received.content, truncated),
+      truncated,
+    };
+
+  } catch (error) {
+    return handleException(error);
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Tests for custom OpenAI-compatible API utilities
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  callCustomApi,
+  verifyCustomApiKey,
+  normalizeCustomBaseUrl,
+  isCustomProviderConfigured,
+  getCustomProviderConfig,
+  type CustomProviderSettings,
+} from './customApi';
+
+const SETTINGS: CustomProviderSettings = {
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'llama3.1:8b',
+  apiKey: '',
+};
+
+describe('customApi', () => {
+  // Save original fetch
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('normalizeCustomBaseUrl', () => {
+    it('should remove trailing slashes', () => {
+      expect(normalizeCustomBaseUrl(' http://localhost:1234/v1/ ')).toBe('http://localhost:1234/v1');
+    });
+
+    it('should remove a pasted chat completions path', () => {
+      expect(normalizeCustomBaseUrl('http://localhost:8080/v1/chat/completions')).toBe('http://localhost:8080/v1');
+    });
+  });
+
+  describe('isCustomProviderConfigured', () => {
+    it('should require a base URL and a model but no API key', () => {
+      expect(isCustomProviderConfigured(SETTINGS)).toBe(true);
+      expect(isCustomProviderConfigured({ ...SETTINGS, model: '  ' })).toBe(false);
+      expect(isCustomProviderConfigured({ ...SETTINGS, baseUrl: '/' })).toBe(false);
+    });
+  });
+
+  describe('getCustomProviderConfig', () => {
+    it('should build the chat completions endpoint', () => {
+      expect(getCustomProviderConfig(SETTINGS)).toMatchObject({
+        url: 'http://localhost:11434/v1/chat/completions',
+        model: 'llama3.1:8b',
+        apiKeyOptional: true,
+      });
+    });
+  });
+
+  describe('callCustomApi', () => {
+    it('should return error when the provider is not configured', async () => {
+      global.fetch = vi.fn();
+
+      const result = await callCustomApi({ ...SETTINGS, baseUrl: '' }, 'test prompt');
+
+      expect(result.success).toBe(false);
+      expect(result.errorType).toBe('api');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should send the request without an Authorization header when no key is set', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          id: 'chatcmpl-1',
+          created: 1234567890,
+          model: 'llama3.1:8b',
+          choices: [{ index: 0, message: { role: 'assistant', content: 'Local response' }, finish_reason: 'stop' }],
+        }),
+      });
+
+      const result = await callCustomApi(SETTINGS, 'test prompt');
+
+      expect(result.success).toBe(true);
+      expect(result.content).toBe('Local response');
+      const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      expect((init as RequestInit).headers).not.toHaveProperty('Authorization');
+      expect(JSON.parse((init as RequestInit).body as string).model).toBe('llama3.1:8b');
+    });
+
+    it('should send the API key when one is set', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          id: 'chatcmpl-1',
+          created: 1234567890,
+          model: 'llama3.1:8b',
+          choices: [{ index: 0, message: { role: 'assistant', content: 'Response' }, finish_reason: 'stop' }],
+        }),
+      });
+
+      await callCustomApi({ ...SETTINGS, apiKey: 'local-key' }, 'test prompt');
+
+      const [, init] = vi.mocked(global.fetch).mock.calls[0];
+      expect((init as RequestInit).headers).toMatchObject({ 'Authorization': 'Bearer local-key' });
+    });
+  });
+
+  describe('verifyCustomApiKey', () => {
+    it('should return valid when the server lists the model', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: [{ id: 'llama3.1:8b' }, { id: 'qwen2.5' }] }),
+      });
+
+      const result = await verifyCustomApiKey(SETTINGS);
+
+      expect(result.valid).toBe(true);
+      expect(global.fetch).toHaveBeenCalledWith('http://localhost:11434/v1/models', expect.objectContaining({ method: 'GET' }));
+    });
+
+    it('should return invalid when the model is not served', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: [{ id: 'qwen2.5' }] }),
+      });
+
+      const result = await verifyCustomApiKey(SETTINGS);
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe('Model not found: llama3.1:8b');
+    });
+
+    it('should return invalid for a rejected key', async () => {
+      global.fetch = vi.fn().mockResolvedValue({ ok: false, status: 401 });
+
+      const result = await verifyCustomApiKey({ ...SETTINGS, apiKey: 'wrong' });
+
+      expect(result).toEqual({ valid: false, error: 'Invalid API key' });
+    });
+
+    it('should report unreachable servers as network errors', async () => {
+      global.fetch = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+
+      const result = await verifyCustomApiKey(SETTINGS);
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Network error');
+    });
+  });
+});
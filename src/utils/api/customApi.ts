@@ -0,0 +1,184 @@
+/**
+ * Custom OpenAI-compatible API utility functions
+ *
+ * This module provides functions to interact with a user-configured
+ * OpenAI-compatible endpoint, such as a self-hosted Ollama, llama.cpp or
+ * LM Studio server, so that glucose data does not leave the user's network.
+ */
+
+import {
+  callOpenAICompatibleApi,
+  streamOpenAICompatibleApi,
+  type AIApiResult,
+  type AIStreamOptions,
+  type APIKeyVerificationResult,
+  type OpenAICompatibleConfig,
+} from './baseApiClient';
+
+/**
+ * Settings of the custom OpenAI-compatible provider
+ */
+export interface CustomProviderSettings {
+  /** Base URL of the API, e.g. http://192.168.1.10:11434/v1 */
+  baseUrl: string;
+  /** Model name, e.g. llama3.1:8b */
+  model: string;
+  /** API key (optional; most local servers do not require one) */
+  apiKey: string;
+}
+
+/**
+ * Custom provider settings before the user configures them
+ */
+export const DEFAULT_CUSTOM_PROVIDER_SETTINGS: CustomProviderSettings = {
+  baseUrl: '',
+  model: '',
+  apiKey: '',
+};
+
+/**
+ * Result of calling the custom provider
+ */
+export type CustomResult = AIApiResult;
+
+/**
+ * Remove trailing slashes and a pasted chat completions path from a base URL
+ *
+ * @param baseUrl - Base URL as entered by the user
+ * @returns Base URL the API paths are appended to
+ */
+export function normalizeCustomBaseUrl(baseUrl: string): string {
+  return baseUrl
+    .trim()
+    .replace(/\/+$/, '')
+    .replace(/\/chat\/completions$/, '');
+}
+
+/**
+ * Check whether the custom provider has a base URL and a model
+ *
+ * @param settings - Custom provider settings
+ * @returns true if requests can be sent to the provider
+ */
+export function isCustomProviderConfigured(settings: CustomProviderSettings): boolean {
+  return normalizeCustomBaseUrl(settings.baseUrl) !== '' && settings.model.trim() !== '';
+}
+
+/**
+ * Build the OpenAI-compatible configuration of the custom provider
+ *
+ * @param settings - Custom provider settings
+ * @returns Chat completions endpoint and model
+ */
+export function getCustomProviderConfig(settings: CustomProviderSettings): OpenAICompatibleConfig {
+  return {
+    url: `${normalizeCustomBaseUrl(settings.baseUrl)}/chat/completions`,
+    model: settings.model.trim(),
+    finishReasonTruncated: 'length',
+    apiKeyOptional: true,
+  };
+}
+
+/**
+ * Result returned when the custom provider is not configured
+ */
+const NOT_CONFIGURED_RESULT: CustomResult = {
+  success: false,
+  error: 'Custom provider base URL and model are required',
+  errorType: 'api',
+};
+
+/**
+ * Call the custom provider with a prompt
+ *
+ * @param settings - Custom provider settings
+ * @param prompt - The prompt to send to the AI
+ * @param maxTokens - Maximum number of tokens for the response (default: 4000)
+ * @param isRetry - Internal flag to prevent infinite retry loops
+ * @returns Promise with the result containing success status and content or error
+ */
+export async function callCustomApi(
+  settings: CustomProviderSettings,
+  prompt: string,
+  maxTokens: number = 4000,
+  isRetry: boolean = false
+): Promise<CustomResult> {
+  if (!isCustomProviderConfigured(settings)) {
+    return NOT_CONFIGURED_RESULT;
+  }
+  return callOpenAICompatibleApi(
+    getCustomProviderConfig(settings),
+    settings.apiKey,
+    prompt,
+    maxTokens,
+    isRetry
+  );
+}
+
+/**
+ * Stream a response from the custom provider
+ *
+ * @param settings - Custom provider settings
+ * @param prompt - The prompt to send to the AI
+ * @param stream - Called with the text received so far; the signal cancels the request
+ * @returns Promise with the result containing success status and the full content or error
+ */
+export async function streamCustomApi(
+  settings: CustomProviderSettings,
+  prompt: string,
+  stream: AIStreamOptions
+): Promise<CustomResult> {
+  if (!isCustomProviderConfigured(settings)) {
+    return NOT_CONFIGURED_RESULT;
+  }
+  return streamOpenAICompatibleApi(getCustomProviderConfig(settings), settings.apiKey, prompt, stream);
+}
+
+/**
+ * Verify the custom provider by calling its list models endpoint.
+ *
+ * Besides the API key (if the server requires one), this checks that the
+ * server is reachable from the browser and serves the configured model.
+ *
+ * @param settings - Custom provider settings to verify
+ * @returns Promise with the verification result containing valid status and optional error
+ */
+export async function verifyCustomApiKey(settings: CustomProviderSettings): Promise<APIKeyVerificationResult> {
+  if (!isCustomProviderConfigured(settings)) {
+    return { valid: false, error: 'Base URL and model are required' };
+  }
+
+  try {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey.trim() !== '') {
+      headers['Authorization'] = `Bearer ${settings.apiKey}`;
+    }
+
+    const response = await fetch(`${normalizeCustomBaseUrl(settings.baseUrl)}/models`, {
+      method: 'GET',
+      headers,
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      return { valid: false, error: 'Invalid API key' };
+    }
+
+    if (!response.ok) {
+      return { valid: false, error: `API error: ${response.status}` };
+    }
+
+    const data: { data?: Array<{ id?: string }> } = await response.json();
+    const modelIds = (data.data ?? []).map(model => model.id);
+    if (modelIds.length > 0 && !modelIds.includes(settings.model.trim())) {
+      return { valid: false, error: `Model not found: ${settings.model.trim()}` };
+    }
+
+    return { valid: true };
+  } catch (error) {
+    // Unreachable servers and missing CORS headers both surface as a TypeError
+    if (error instanceof TypeError) {
+      return { valid: false, error: 'Network error (is the server reachable and CORS enabled?)' };
+    }
+    return { valid: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -5,7 +5,14 @@
  * for AI-powered analysis of glucose data.
  */
 
-import { callOpenAICompatibleApi, type AIApiResult, type APIKeyVerificationResult } from './baseApiClient';
+import {
+  callOpenAICompatibleApi,
+  streamOpenAICompatibleApi,
+  type AIApiResult,
+  type AIStreamOptions,
+  type APIKeyVerificationResult,
+  type OpenAICompatibleConfig,
+} from './baseApiClient';
 
 /**
  * DeepSeek API response structure (OpenAI-compatible)
@@ -43,6 +50,15 @@ export interface DeepSeekError {
   };
 }
 
+/**
+ * DeepSeek chat completions endpoint and model
+ */
+const DEEPSEEK_CONFIG: OpenAICompatibleConfig = {
+  url: 'https://api.deepseek.com/v1/chat/completions',
+  model: 'deepseek-chat',
+  finishReasonTruncated: 'length',
+};
+
 /**
  * Result of calling DeepSeek API
  */
@@ -64,11 +80,7 @@ export async function callDeepSeekApi(
   isRetry: boolean = false
 ): Promise<DeepSeekResult> {
   return callOpenAICompatibleApi(
-    {
-      url: 'https://api.deepseek.com/v1/chat/completions',
-      model: 'deepseek-chat',
-      finishReasonTruncated: 'length',
-    },
+    DEEPSEEK_CONFIG,
     apiKey,
     prompt,
     maxTokens,
@@ -76,6 +88,22 @@ export async function callDeepSeekApi(
   );
 }
 
+/**
+ * Stream a DeepSeek API response
+ * 
+ * @param apiKey - DeepSeek API key
+ * @param prompt - The prompt to send to the AI
+ * @param stream - Called with the text received so far; the signal cancels the request
+ * @returns Promise with the result containing success status and the full content or error
+ */
+export async function streamDeepSeekApi(
+  apiKey: string,
+  prompt: string,
+  stream: AIStreamOptions
+): Promise<DeepSeekResult> {
+  return streamOpenAICompatibleApi(DEEPSEEK_CONFIG, apiKey, prompt, stream);
+}
+
 /**
  * Verify if a DeepSeek API key is valid by calling the list models endpoint.
  * 
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { callGeminiApi, verifyGeminiApiKey } from './geminiApi';
+import { callGeminiApi, streamGeminiApi, verifyGeminiApiKey } from './geminiApi';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -424,6 +424,31 @@ describe('geminiApi', () => {
     });
   });
 
+  describe('streamGeminiApi', () => {
+    const event = (text: string, finishReason?: string) =>
+      `data: ${JSON.stringify({ candidates: [{ content: { parts: [{ text }], role: 'model' }, finishReason, index: 0 }] })}\r\n\r\n`;
+
+    it('should use the SSE endpoint and report the text received so far', async () => {
+      mockFetch.mockResolvedValue(new Response(event('Your TIR ') + event('is 72%.', 'STOP')));
+      const onChunk = vi.fn();
+
+      const result = await streamGeminiApi('test-key', 'test prompt', { onChunk });
+
+      expect(mockFetch.mock.calls[0][0]).toContain(':streamGenerateContent?alt=sse');
+      expect(onChunk).toHaveBeenLastCalledWith('Your TIR is 72%.');
+      expect(result).toEqual({ success: true, content: 'Your TIR is 72%.', truncated: false });
+    });
+
+    it('should add a warning when the stream stops at the token limit', async () => {
+      mockFetch.mockResolvedValue(new Response(event('Partial', 'MAX_TOKENS')));
+
+      const result = await streamGeminiApi('test-key', 'test prompt', { onChunk: vi.fn() });
+
+      expect(result.truncated).toBe(true);
+      expect(result.content).toContain('truncated due to length limits');
+    });
+  });
+
   describe('verifyGeminiApiKey', () => {
     it('should return invalid if API key is empty', async () => {
       const result = await verifyGeminiApiKey('');
@@ -6,7 +6,17 @@
  */
 
 import { AI_SYSTEM_PROMPT } from './aiPrompts';
-import { validateInputs, handleHttpError, handleException, type AIApiResult, type APIKeyVerificationResult } from './baseApiClient';
+import {
+  validateInputs,
+  handleHttpError,
+  handleException,
+  appendTruncationWarning,
+  readServerSentEvents,
+  MAX_STREAM_TOKENS,
+  type AIApiResult,
+  type AIStreamOptions,
+  type APIKeyVerificationResult,
+} from './baseApiClient';
 
 /**
  * Gemini API response structure
@@ -49,6 +59,51 @@ export interface GeminiError {
  */
 export type GeminiResult = AIApiResult;
 
+/**
+ * Build the request body for a Gemini generateContent call
+ *
+ * @param prompt - The prompt to send to the AI
+ * @param maxTokens - Maximum number of tokens for the response
+ * @returns Request body with the system prompt, generation config and safety settings
+ */
+function buildGeminiRequestBody(prompt: string, maxTokens: number) {
+  return {
+    contents: [
+      {
+        parts: [
+          {
+            text: `${AI_SYSTEM_PROMPT}\n\n${prompt}`,
+          },
+        ],
+      },
+    ],
+    generationConfig: {
+      temperature: 0.2,
+      maxOutputTokens: maxTokens,
+      topP: 0.8,
+      topK: 40,
+    },
+    safetySettings: [
+      {
+        category: 'HARM_CATEGORY_HARASSMENT',
+        threshold: 'BLOCK_MEDIUM_AND_ABOVE',
+      },
+      {
+        category: 'HARM_CATEGORY_HATE_SPEECH',
+        threshold: 'BLOCK_MEDIUM_AND_ABOVE',
+      },
+      {
+        category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+        threshold: 'BLOCK_MEDIUM_AND_ABOVE',
+      },
+      {
+        category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
+        threshold: 'BLOCK_MEDIUM_AND_ABOVE',
+      },
+    ],
+  };
+}
+
 /**
  * Call Google Gemini API with a prompt
  * 
@@ -79,41 +134,7 @@ export async function callGeminiApi(
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              {
-                text: `${AI_SYSTEM_PROMPT}\n\n${prompt}`,
-              },
-            ],
-          },
-        ],
-        generationConfig: {
-          temperature: 0.2,
-          maxOutputTokens: maxTokens,
-          topP: 0.8,
-          topK: 40,
-        },
-        safetySettings: [
-          {
-            category: 'HARM_CATEGORY_HARASSMENT',
-            threshold: 'BLOCK_MEDIUM_AND_ABOVE',
-          },
-          {
-            category: 'HARM_CATEGORY_HATE_SPEECH',
-            threshold: 'BLOCK_MEDIUM_AND_ABOVE',
-          },
-          {
-            category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT',
-            threshold: 'BLOCK_MEDIUM_AND_ABOVE',
-          },
-          {
-            category: 'HARM_CATEGORY_DANGEROUS_CONTENT',
-            threshold: 'BLOCK_MEDIUM_AND_ABOVE',
-          },
-        ],
-      }),
+      body: JSON.stringify(buildGeminiRequestBody(prompt, maxTokens)),
     });
 
     // Handle HTTP errors using common handler
@@ -148,14 +169,9 @@ export async function callGeminiApi(
       }
       
       // If response was truncated but we can't retry (already retried or at max), add a warning
-      let finalContent = content.trim();
-      if (truncated) {
-        finalContent += '\n\n⚠️ **Note:** This response was truncated due to length limits. The analysis may be incomplete.';
-      }
-      
       return {
         success: true,
-        content: finalContent,
+        content: appendTruncationWarning(content, truncated),
         truncated,
       };
     }
@@ -172,6 +188,95 @@ export async function callGeminiApi(
   }
 }
 
+/**
+ * Stream a Google Gemini API response
+ *
+ * Uses the streamGenerateContent endpoint with server-sent events and reports
+ * the text received so far through `stream.onChunk`.
+ *
+ * @param apiKey - Google Gemini API key
+ * @param prompt - The prompt to send to the AI
+ * @param stream - Called with the text received so far; the signal cancels the request
+ * @returns Promise with the result containing success status and the full content or error
+ */
+export async function streamGeminiApi(
+  apiKey: string,
+  prompt: string,
+  stream: AIStreamOptions
+): Promise<GeminiResult> {
+  // Validate inputs using common validation
+  const validationError = validateInputs(apiKey, prompt);
+  if (validationError) {
+    return validationError;
+  }
+
+  try {
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:streamGenerateContent?alt=sse&key=${apiKey}`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(buildGeminiRequestBody(prompt, MAX_STREAM_TOKENS)),
+      signal: stream.signal,
+    });
+
+    // Handle HTTP errors using common handler
+    if (!response.ok) {
+      return handleHttpError(response);
+    }
+
+    const received = { content: '', finishReason: '', error: '' };
+    await readServerSentEvents(response, (data) => {
+      const chunk = JSON.parse(data) as GeminiResponse | GeminiError;
+
+      // Gemini can report errors inside the stream
+      if ('error' in chunk && chunk.error) {
+        received.error = chunk.error.message || 'Unknown error from API';
+        return;
+      }
+
+      const candidate = 'candidates' in chunk ? chunk.candidates?.[0] : undefined;
+      const text = candidate?.content?.parts?.map(part => part.text).join('') ?? '';
+      if (text) {
+        received.content += text;
+        stream.onChunk(received.content);
+      }
+      if (candidate?.finishReason) {
+        received.finishReason = candidate.finishReason;
+      }
+    });
+
+    if (received.error) {
+      return {
+        success: false,
+        error: received.error,
+        errorType: 'api',
+      };
+    }
+
+    if (!received.content) {
+      return {
+        success: false,
+        error: 'Invalid response format from API',
+        errorType: 'api',
+      };
+    }
+
+    const truncated = received.finishReason === 'MAX_TOKENS';
+    return {
+      success: true,
+      content: appendTruncationWarning(received.content, truncated),
+      truncated,
+    };
+
+  } catch (error) {
+    // Handle exceptions using common handler
+    return handleException(error);
+  }
+}
+
 /**
  * Verify if a Gemini API key is valid by calling the list models endpoint.
  * 
@@ -5,7 +5,14 @@
  * for AI-powered analysis of glucose data.
  */
 
-import { callOpenAICompatibleApi, type AIApiResult, type APIKeyVerificationResult } from './baseApiClient';
+import {
+  callOpenAICompatibleApi,
+  streamOpenAICompatibleApi,
+  type AIApiResult,
+  type AIStreamOptions,
+  type APIKeyVerificationResult,
+  type OpenAICompatibleConfig,
+} from './baseApiClient';
 
 /**
  * Grok API response structure (OpenAI-compatible)
@@ -43,6 +50,15 @@ export interface GrokError {
   };
 }
 
+/**
+ * Grok chat completions endpoint and model
+ */
+const GROK_CONFIG: OpenAICompatibleConfig = {
+  url: 'https://api.x.ai/v1/chat/completions',
+  model: 'grok-3-mini',
+  finishReasonTruncated: 'length',
+};
+
 /**
  * Result of calling Grok API
  */
@@ -64,11 +80,7 @@ export async function callGrokApi(
   isRetry: boolean = false
 ): Promise<GrokResult> {
   return callOpenAICompatibleApi(
-    {
-      url: 'https://api.x.ai/v1/chat/completions',
-      model: 'grok-3-mini',
-      finishReasonTruncated: 'length',
-    },
+    GROK_CONFIG,
     apiKey,
     prompt,
     maxTokens,
@@ -76,6 +88,22 @@ export async function callGrokApi(
   );
 }
 
+/**
+ * Stream a Grok API response
+ * 
+ * @param apiKey - Grok API key
+ * @param prompt - The prompt to send to the AI
+ * @param stream - Called with the text received so far; the signal cancels the request
+ * @returns Promise with the result containing success status and the full content or error
+ */
+export async function streamGrokApi(
+  apiKey: string,
+  prompt: string,
+  stream: AIStreamOptions
+): Promise<GrokResult> {
+  return streamOpenAICompatibleApi(GROK_CONFIG, apiKey, prompt, stream);
+}
+
 /**
  * Verify if a Grok API key is valid by calling the list models endpoint.
  * 
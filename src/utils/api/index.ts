@@ -3,6 +3,7 @@ export * from './perplexityApi';
 export * from './geminiApi';
 export * from './grokApi';
 export * from './deepseekApi';
+export * from './customApi';
 export * from './aiApi';
 export * from './aiPrompts';
 export * from './userSettingsApi';
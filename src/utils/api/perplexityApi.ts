@@ -5,7 +5,14 @@
  * for AI-powered analysis of glucose data.
  */
 
-import { callOpenAICompatibleApi, type AIApiResult, type APIKeyVerificationResult } from './baseApiClient';
+import {
+  callOpenAICompatibleApi,
+  streamOpenAICompatibleApi,
+  type AIApiResult,
+  type AIStreamOptions,
+  type APIKeyVerificationResult,
+  type OpenAICompatibleConfig,
+} from './baseApiClient';
 
 /**
  * Perplexity API response structure
@@ -46,6 +53,15 @@ export interface PerplexityError {
   };
 }
 
+/**
+ * Perplexity chat completions endpoint and model
+ */
+const PERPLEXITY_CONFIG: OpenAICompatibleConfig = {
+  url: 'https://api.perplexity.ai/chat/completions',
+  model: 'sonar',
+  finishReasonTruncated: 'length',
+};
+
 /**
  * Result of calling Perplexity API
  */
@@ -67,11 +83,7 @@ export async function callPerplexityApi(
   isRetry: boolean = false
 ): Promise<PerplexityResult> {
   return callOpenAICompatibleApi(
-    {
-      url: 'https://api.perplexity.ai/chat/completions',
-      model: 'sonar',
-      finishReasonTruncated: 'length',
-    },
+    PERPLEXITY_CONFIG,
     apiKey,
     prompt,
     maxTokens,
@@ -79,6 +91,22 @@ export async function callPerplexityApi(
   );
 }
 
+/**
+ * Stream a Perplexity API response
+ * 
+ * @param apiKey - Perplexity API key
+ * @param prompt - The prompt to send to the AI
+ * @param stream - Called with the text received so far; the signal cancels the request
+ * @returns Promise with the result containing success status and the full content or error
+ */
+export async function streamPerplexityApi(
+  apiKey: string,
+  prompt: string,
+  stream: AIStreamOptions
+): Promise<PerplexityResult> {
+  return streamOpenAICompatibleApi(PERPLEXITY_CONFIG, apiKey, prompt, stream);
+}
+
 /**
  * Verify if a Perplexity API key is valid by making a minimal API call.
  * 
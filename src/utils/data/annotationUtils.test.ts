@@ -0,0 +1,136 @@
+/**
+ * Tests for annotation utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createAnnotationTombstone,
+  filterAnnotationsByTags,
+  getActiveAnnotations,
+  formatAnnotationTime,
+  getAnnotationsInRange,
+  getAnnotationTimeDecimal,
+  getDatasetKey,
+  mergeAnnotations,
+  normalizeAnnotations,
+  selectAnnotationsForSync,
+} from './annotationUtils';
+import type { DataAnnotation } from '../../types';
+
+const pizza: DataAnnotation = { id: 'a1', date: '2024-01-15', time: '19:30', tag: 'pizza', note: 'Two slices' };
+const sick: DataAnnotation = { id: 'a2', date: '2024-01-14', tag: 'sick', note: '' };
+const siteChange: DataAnnotation = { id: 'a3', date: '2024-01-15', time: '08:00', tag: 'siteChange', note: '' };
+
+describe('annotationUtils', () => {
+  describe('getDatasetKey', () => {
+    it('should combine file name and size', () => {
+      expect(getDatasetKey({ name: 'export.zip', size: 1234 })).toBe('export.zip|1234');
+    });
+  });
+
+  describe('normalizeAnnotations', () => {
+    it('should drop invalid entries, remove invalid times and sort by date and time', () => {
+      const result = normalizeAnnotations([
+        pizza,
+        { ...siteChange, time: '25:00' },
+        sick,
+        { id: 'bad-date', date: '15.01.2024', tag: 'sick', note: '' },
+        { id: 'bad-tag', date: '2024-01-15', tag: 'party', note: '' },
+        { date: '2024-01-15', tag: 'sick', note: '' },
+        'pizza',
+      ]);
+
+      expect(result.map(annotation => annotation.id)).toEqual(['a2', 'a3', 'a1']);
+      expect(result[1].time).toBeUndefined();
+    });
+
+    it('should return an empty list for anything but an array', () => {
+      expect(normalizeAnnotations(null)).toEqual([]);
+      expect(normalizeAnnotations({ a1: pizza })).toEqual([]);
+    });
+
+    it('should default missing notes and cut long notes', () => {
+      const [annotation] = normalizeAnnotations([{ id: 'a1', date: '2024-01-15', tag: 'alcohol', note: 'x'.repeat(300) }]);
+      expect(annotation.note).toHaveLength(200);
+      expect(normalizeAnnotations([{ id: 'a1', date: '2024-01-15', tag: 'alcohol' }])[0].note).toBe('');
+    });
+
+    it('should keep valid deletion times', () => {
+      const [deleted, invalid] = normalizeAnnotations([
+        { ...sick, deletedAt: '2024-02-01T10:00:00.000Z' },
+        { ...pizza, deletedAt: 'yesterday' },
+      ]);
+
+      expect(deleted.deletedAt).toBe('2024-02-01T10:00:00.000Z');
+      expect(invalid.deletedAt).toBeUndefined();
+    });
+  });
+
+  describe('mergeAnnotations', () => {
+    it('should keep the union by ID with remote entries winning', () => {
+      const result = mergeAnnotations([pizza, sick], [{ ...pizza, note: 'Three slices' }, siteChange]);
+
+      expect(result.map(annotation => annotation.id)).toEqual(['a2', 'a3', 'a1']);
+      expect(result[2].note).toBe('Three slices');
+    });
+
+    it('should keep deleted annotations deleted on either side', () => {
+      const deletedPizza = createAnnotationTombstone(pizza, new Date('2024-02-01T10:00:00Z'));
+      const deletedSick = createAnnotationTombstone(sick);
+
+      const result = mergeAnnotations([deletedPizza, sick], [pizza, deletedSick]);
+
+      expect(result).toEqual([deletedSick, deletedPizza]);
+      expect(deletedPizza).toEqual({ ...pizza, note: '', deletedAt: '2024-02-01T10:00:00.000Z' });
+      expect(getActiveAnnotations(mergeAnnotations(result, [siteChange]))).toEqual([siteChange]);
+    });
+  });
+
+  describe('selectAnnotationsForSync', () => {
+    it('should keep the most recent annotations across datasets', () => {
+      const result = selectAnnotationsForSync({ 'a.zip|1': [sick, pizza], 'b.zip|2': [siteChange], 'c.zip|3': [] }, 2);
+
+      expect(result).toEqual({ 'a.zip|1': [pizza], 'b.zip|2': [siteChange] });
+    });
+
+    it('should sync tombstones only after the annotations that were not deleted', () => {
+      const now = new Date('2024-03-01T00:00:00Z');
+      const deletedPizza = createAnnotationTombstone(pizza, new Date('2024-02-20T00:00:00Z'));
+
+      expect(selectAnnotationsForSync({ 'a.zip|1': [sick, deletedPizza] }, 1, now)).toEqual({ 'a.zip|1': [sick] });
+      expect(selectAnnotationsForSync({ 'a.zip|1': [sick, deletedPizza] }, 2, now)).toEqual({ 'a.zip|1': [sick, deletedPizza] });
+    });
+
+    it('should stop syncing tombstones after the retention period', () => {
+      const deletedPizza = createAnnotationTombstone(pizza, new Date('2024-01-01T00:00:00Z'));
+
+      expect(selectAnnotationsForSync({ 'a.zip|1': [sick, deletedPizza] }, 150, new Date('2024-03-15T00:00:00Z'))).toEqual({ 'a.zip|1': [sick, deletedPizza] });
+      expect(selectAnnotationsForSync({ 'a.zip|1': [sick, deletedPizza] }, 150, new Date('2024-04-15T00:00:00Z'))).toEqual({ 'a.zip|1': [sick] });
+    });
+  });
+
+  describe('filterAnnotationsByTags', () => {
+    it('should keep annotations with a selected tag', () => {
+      expect(filterAnnotationsByTags([pizza, sick, siteChange], ['pizza', 'sick'])).toEqual([pizza, sick]);
+      expect(filterAnnotationsByTags([pizza, sick], [])).toEqual([]);
+    });
+  });
+
+  describe('getAnnotationsInRange', () => {
+    it('should keep annotations within the inclusive date range', () => {
+      expect(getAnnotationsInRange([sick, pizza], '2024-01-15', '2024-01-20')).toEqual([pizza]);
+      expect(getAnnotationsInRange([sick, pizza], '', '2024-01-14')).toEqual([sick]);
+      expect(getAnnotationsInRange([sick, pizza], '', '')).toEqual([sick, pizza]);
+    });
+  });
+
+  describe('annotation times', () => {
+    it('should convert between HH:mm and decimal hours', () => {
+      expect(getAnnotationTimeDecimal(pizza)).toBe(19.5);
+      expect(getAnnotationTimeDecimal(sick)).toBeNull();
+      expect(formatAnnotationTime(19.5)).toBe('19:30');
+      expect(formatAnnotationTime(7.08)).toBe('07:05');
+      expect(formatAnnotationTime(24)).toBe('23:59');
+    });
+  });
+});
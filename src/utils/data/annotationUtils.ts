@@ -0,0 +1,234 @@
+/**
+ * Utility functions for user annotations attached to a dataset
+ *
+ * An annotation is a tagged note ("sick", "pizza", "site change", ...) at a
+ * date and optional time of day. Annotations belong to a dataset rather than
+ * to an uploaded file instance: the dataset key is derived from the file name
+ * and size, so the notes come back when the same export is uploaded again and
+ * can be synced between devices. Deleted annotations are kept as tombstones
+ * (with `deletedAt`), so a deletion on one device also removes the annotation
+ * on the others instead of being undone by the next sync.
+ */
+
+import type { AnnotationTag, DataAnnotation, UploadedFile } from '../../types';
+
+/**
+ * All annotation tags in the order they are offered
+ */
+export const ANNOTATION_TAGS: AnnotationTag[] = ['sick', 'pizza', 'siteChange', 'alcohol', 'stress', 'other'];
+
+/**
+ * Maximum length of an annotation note
+ */
+export const MAX_ANNOTATION_NOTE_LENGTH = 200;
+
+/**
+ * Maximum number of annotations synced to cloud storage (most recent first)
+ */
+export const MAX_SYNCED_ANNOTATIONS = 150;
+
+/**
+ * Number of days a tombstone of a deleted annotation is synced to other devices
+ */
+export const ANNOTATION_TOMBSTONE_RETENTION_DAYS = 90;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Get the key annotations of a file are stored under
+ *
+ * @param file - Uploaded file
+ * @returns Key built from the file name and size
+ */
+export function getDatasetKey(file: Pick<UploadedFile, 'name' | 'size'>): string {
+  return `${file.name}|${file.size}`;
+}
+
+/**
+ * Compare annotations by date and time (whole-day annotations first)
+ */
+function compareAnnotations(a: DataAnnotation, b: DataAnnotation): number {
+  return a.date.localeCompare(b.date) || (a.time ?? '').localeCompare(b.time ?? '');
+}
+
+/**
+ * Normalize stored annotations of one dataset
+ *
+ * Entries without an ID, a YYYY-MM-DD date or a known tag are dropped,
+ * invalid times are removed (the annotation then covers the whole day),
+ * notes are cut to 200 characters and the list is sorted by date and time.
+ * Valid deletion times are kept.
+ *
+ * @param value - Stored annotations (parsed JSON, may be of any shape)
+ * @returns Valid annotations sorted by date and time
+ */
+export function normalizeAnnotations(value: unknown): DataAnnotation[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((entry): entry is DataAnnotation => {
+      if (typeof entry !== 'object' || entry === null) return false;
+      const { id, date, tag } = entry as Partial<DataAnnotation>;
+      return (
+        typeof id === 'string' && id.length > 0 &&
+        typeof date === 'string' && DATE_PATTERN.test(date) &&
+        typeof tag === 'string' && (ANNOTATION_TAGS as string[]).includes(tag)
+      );
+    })
+    .map(entry => {
+      const annotation: DataAnnotation = {
+        id: entry.id,
+        date: entry.date,
+        tag: entry.tag,
+        note: typeof entry.note === 'string' ? entry.note.slice(0, MAX_ANNOTATION_NOTE_LENGTH) : '',
+      };
+      if (typeof entry.time === 'string' && TIME_PATTERN.test(entry.time)) {
+        annotation.time = entry.time;
+      }
+      if (typeof entry.deletedAt === 'string' && !isNaN(Date.parse(entry.deletedAt))) {
+        annotation.deletedAt = entry.deletedAt;
+      }
+      return annotation;
+    })
+    .sort(compareAnnotations);
+}
+
+/**
+ * Merge two annotation lists of a dataset by ID
+ *
+ * A deleted annotation stays deleted: its tombstone wins over the annotation
+ * from the other list, so deletions sync between devices.
+ *
+ * @param local - Annotations stored in this browser
+ * @param remote - Annotations loaded from cloud storage; they win on conflicting IDs
+ * @returns Union of both lists (including tombstones) sorted by date and time
+ */
+export function mergeAnnotations(local: DataAnnotation[], remote: DataAnnotation[]): DataAnnotation[] {
+  const byId = new Map(local.map(annotation => [annotation.id, annotation]));
+  for (const annotation of remote) {
+    if (!byId.get(annotation.id)?.deletedAt || annotation.deletedAt) {
+      byId.set(annotation.id, annotation);
+    }
+  }
+  return [...byId.values()].sort(compareAnnotations);
+}
+
+/**
+ * Turn an annotation into a tombstone marking its deletion
+ *
+ * @param annotation - Annotation to delete
+ * @param deletedAt - Deletion time (default: now)
+ * @returns Tombstone without the note
+ */
+export function createAnnotationTombstone(annotation: DataAnnotation, deletedAt: Date = new Date()): DataAnnotation {
+  return { ...annotation, note: '', deletedAt: deletedAt.toISOString() };
+}
+
+/**
+ * Drop deleted annotations (tombstones)
+ *
+ * @param annotations - Annotations of a dataset
+ * @returns Annotations that were not deleted
+ */
+export function getActiveAnnotations(annotations: DataAnnotation[]): DataAnnotation[] {
+  return annotations.filter(annotation => !annotation.deletedAt);
+}
+
+/**
+ * Pick the annotations to sync to cloud storage
+ *
+ * Settings are stored as a single JSON value, so only the most recent
+ * annotations across all datasets are kept. Tombstones are synced so
+ * deletions reach the other devices, but only for a retention period and
+ * after all annotations that were not deleted, so they never push those out.
+ *
+ * @param annotations - Annotations by dataset key, including tombstones
+ * @param limit - Maximum number of annotations (default: 150)
+ * @param now - Current time, to expire old tombstones (default: now)
+ * @returns Annotations by dataset key, without empty datasets
+ */
+export function selectAnnotationsForSync(
+  annotations: Record<string, DataAnnotation[]>,
+  limit: number = MAX_SYNCED_ANNOTATIONS,
+  now: Date = new Date()
+): Record<string, DataAnnotation[]> {
+  const expiry = now.getTime() - ANNOTATION_TOMBSTONE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const kept = Object.entries(annotations)
+    .flatMap(([datasetKey, list]) => list.map(annotation => ({ datasetKey, annotation })))
+    .filter(({ annotation }) => !annotation.deletedAt || new Date(annotation.deletedAt).getTime() >= expiry)
+    .sort((a, b) => Number(!!a.annotation.deletedAt) - Number(!!b.annotation.deletedAt) || compareAnnotations(b.annotation, a.annotation))
+    .slice(0, limit);
+
+  const result: Record<string, DataAnnotation[]> = {};
+  for (const { datasetKey, annotation } of kept) {
+    (result[datasetKey] ??= []).push(annotation);
+  }
+  for (const list of Object.values(result)) {
+    list.sort(compareAnnotations);
+  }
+  return result;
+}
+
+/**
+ * Keep annotations with one of the given tags
+ *
+ * @param annotations - Annotations to filter
+ * @param tags - Tags to keep
+ * @returns Annotations with a selected tag
+ */
+export function filterAnnotationsByTags(annotations: DataAnnotation[], tags: AnnotationTag[]): DataAnnotation[] {
+  return annotations.filter(annotation => tags.includes(annotation.tag));
+}
+
+/**
+ * Get the annotations of one day
+ *
+ * @param annotations - Annotations of a dataset
+ * @param date - Day in YYYY-MM-DD format
+ * @returns Annotations on that day
+ */
+export function getAnnotationsForDate(annotations: DataAnnotation[], date: string): DataAnnotation[] {
+  return annotations.filter(annotation => annotation.date === date);
+}
+
+/**
+ * Convert the time of an annotation to decimal hours for 24-hour charts
+ *
+ * @param annotation - Annotation to place
+ * @returns Hours since midnight (e.g. 19.5 for 19:30), or null for whole-day annotations
+ */
+export function getAnnotationTimeDecimal(annotation: DataAnnotation): number | null {
+  if (!annotation.time) return null;
+  const [hours, minutes] = annotation.time.split(':').map(Number);
+  return hours + minutes / 60;
+}
+
+/**
+ * Format decimal hours as an annotation time
+ *
+ * @param timeDecimal - Hours since midnight (e.g. 19.5)
+ * @returns Time in HH:mm format (e.g. "19:30")
+ */
+export function formatAnnotationTime(timeDecimal: number): string {
+  const totalMinutes = Math.min(Math.max(Math.round(timeDecimal * 60), 0), 24 * 60 - 1);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Get the annotations within a date range
+ *
+ * @param annotations - Annotations of a dataset
+ * @param startDate - First day in YYYY-MM-DD format (empty for no lower bound)
+ * @param endDate - Last day in YYYY-MM-DD format (empty for no upper bound)
+ * @returns Annotations from startDate to endDate inclusive
+ */
+export function getAnnotationsInRange(annotations: DataAnnotation[], startDate: string, endDate: string): DataAnnotation[] {
+  return annotations.filter(annotation =>
+    (!startDate || annotation.date >= startDate) && (!endDate || annotation.date <= endDate)
+  );
+}
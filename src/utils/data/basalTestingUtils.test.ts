@@ -0,0 +1,142 @@
+/**
+ * Tests for basal testing utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  assessBasalSegments,
+  calculateHourlyDriftProfile,
+  estimateBasalSegments,
+  findFastingWindows,
+  type FastingWindow,
+} from './basalTestingUtils';
+import type { CarbEntry, GlucoseReading, InsulinReading } from '../../types';
+
+const MINUTE = 60 * 1000;
+
+// Readings every 5 minutes from the start time, drifting at the given rate (mmol/L per hour)
+function createReadings(start: Date, hours: number, startValue: number, driftPerHour: number): GlucoseReading[] {
+  const readings: GlucoseReading[] = [];
+  for (let m = 0; m <= hours * 60; m += 5) {
+    readings.push({ timestamp: new Date(start.getTime() + m * MINUTE), value: startValue + (driftPerHour * m) / 60 });
+  }
+  return readings;
+}
+
+// Nights from 22:00 to 07:00 on consecutive days with the given drift
+function createNights(count: number, driftPerHour: number): GlucoseReading[] {
+  return Array.from({ length: count }, (_, i) =>
+    createReadings(new Date(2024, 0, 15 + i, 22, 0), 9, 7.0, driftPerHour)
+  ).flat();
+}
+
+function bolus(timestamp: Date, dose: number): InsulinReading {
+  return { timestamp, dose, insulinType: 'bolus' };
+}
+
+function basal(timestamp: Date, dose: number): InsulinReading {
+  return { timestamp, dose, insulinType: 'basal' };
+}
+
+describe('basalTestingUtils', () => {
+  describe('findFastingWindows', () => {
+    it('should find an overnight window with its drift', () => {
+      const windows = findFastingWindows(createNights(1, 0.5), [], []);
+
+      expect(windows).toHaveLength(1);
+      expect(windows[0].start).toEqual(new Date(2024, 0, 15, 22, 0));
+      expect(windows[0].end).toEqual(new Date(2024, 0, 16, 6, 55));
+      expect(windows[0].driftPerHour).toBe(0.5);
+    });
+
+    it('should wait for the washout after a bolus or carbs', () => {
+      const readings = createNights(1, 0);
+      const insulin = [bolus(new Date(2024, 0, 15, 23, 0), 2)];
+      const carbs: CarbEntry[] = [{ timestamp: new Date(2024, 0, 15, 21, 0), carbs: 20, source: 'food' }];
+
+      expect(findFastingWindows(readings, insulin, [])[0].start).toEqual(new Date(2024, 0, 16, 3, 0));
+      expect(findFastingWindows(readings, [], carbs)[0].start).toEqual(new Date(2024, 0, 16, 1, 0));
+      expect(findFastingWindows(readings, insulin, [], { washoutHours: 2 })[0].start).toEqual(new Date(2024, 0, 16, 1, 0));
+    });
+
+    it('should include daytime readings when not restricted to overnight', () => {
+      const readings = createReadings(new Date(2024, 0, 15, 12, 0), 3, 7.0, 0);
+
+      expect(findFastingWindows(readings, [], [])).toHaveLength(0);
+      expect(findFastingWindows(readings, [], [], { overnightOnly: false })).toHaveLength(1);
+    });
+
+    it('should skip readings after a low', () => {
+      const readings = createNights(1, -0.5); // Reaches 3.9 after about 6 hours
+      const windows = findFastingWindows(readings, [], []);
+
+      expect(windows).toHaveLength(1);
+      expect(windows[0].readings.every(r => r.value >= 3.8)).toBe(true);
+      expect(windows[0].end.getHours()).toBe(4);
+    });
+  });
+
+  describe('calculateHourlyDriftProfile', () => {
+    it('should pool drift per hour with a confidence band', () => {
+      const windows = findFastingWindows(createNights(3, 0.6), [], []);
+      const profile = calculateHourlyDriftProfile(windows);
+
+      expect(profile).toHaveLength(24);
+      expect(profile[2].sampleCount).toBe(3);
+      expect(profile[2].meanDrift).toBe(0.6);
+      expect(profile[2].lower).toBe(0.6);
+      expect(profile[12].meanDrift).toBeNull();
+      expect(profile[12].sampleCount).toBe(0);
+    });
+  });
+
+  describe('estimateBasalSegments', () => {
+    it('should fall back to 3-hour blocks without pump basal', () => {
+      const segments = estimateBasalSegments([]);
+
+      expect(segments).toHaveLength(8);
+      expect(segments[0]).toEqual({ startHour: 0, endHour: 3, rate: null });
+    });
+
+    it('should merge hours with the same typical rate', () => {
+      const insulin: InsulinReading[] = [];
+      for (let hour = 0; hour < 24; hour++) {
+        insulin.push(basal(new Date(2024, 0, 15, hour, 0), hour >= 4 && hour < 8 ? 1.2 : 0.8));
+      }
+      const segments = estimateBasalSegments(insulin);
+
+      expect(segments).toEqual([
+        { startHour: 0, endHour: 4, rate: 0.8 },
+        { startHour: 4, endHour: 8, rate: 1.2 },
+        { startHour: 8, endHour: 24, rate: 0.8 },
+      ]);
+    });
+  });
+
+  describe('assessBasalSegments', () => {
+    const segments = [
+      { startHour: 0, endHour: 7, rate: 0.8 },
+      { startHour: 7, endHour: 22, rate: 1.0 },
+      { startHour: 22, endHour: 24, rate: 0.8 },
+    ];
+
+    function assess(windows: FastingWindow[]) {
+      return assessBasalSegments(segments, windows).map(s => s.status);
+    }
+
+    it('should flag rising glucose as too little basal', () => {
+      expect(assess(findFastingWindows(createNights(3, 0.6), [], []))).toEqual(['tooLow', 'insufficientData', 'tooLow']);
+    });
+
+    it('should flag falling glucose as too much basal', () => {
+      const readings = Array.from({ length: 3 }, (_, i) =>
+        createReadings(new Date(2024, 0, 15 + i, 22, 0), 9, 12.0, -0.6)
+      ).flat();
+      expect(assess(findFastingWindows(readings, [], []))[0]).toBe('tooHigh');
+    });
+
+    it('should accept small drift', () => {
+      expect(assess(findFastingWindows(createNights(3, 0.1), [], []))[0]).toBe('ok');
+    });
+  });
+});
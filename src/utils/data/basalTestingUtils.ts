@@ -0,0 +1,368 @@
+/**
+ * Utility functions for basal testing from fasting windows
+ *
+ * Pump users rarely fast on purpose, but most nights (and some days) already
+ * contain stretches with no carbs and no bolus. Once the last bolus and meal
+ * have worn off, glucose drift in these stretches reflects the basal rate:
+ * - Fasting: no carb entry or bolus within the washout period (4 hours by default)
+ * - Overnight only by default (22:00-07:00); all-day windows can be included
+ * - Readings after a low are skipped for 2 hours because hypo treatments are rarely logged
+ *
+ * Drift is measured per clock hour as a least-squares slope (mmol/L per hour)
+ * and pooled across days into a 24-hour profile with 95% confidence bands.
+ * A basal segment is flagged when its mean drift exceeds ±0.2 mmol/L/h
+ * (about 30 mg/dL over an 8-hour night) and the confidence band excludes zero.
+ */
+
+import type { CarbEntry, GlucoseReading, InsulinReading } from '../../types';
+import { formatDate } from './glucoseRangeGroupingUtils';
+
+/**
+ * Default hours without carbs or bolus before a reading counts as fasting
+ */
+export const DEFAULT_FASTING_WASHOUT_HOURS = 4;
+
+/**
+ * Overnight window used by default (start hour inclusive, end hour exclusive)
+ */
+export const OVERNIGHT_START_HOUR = 22;
+export const OVERNIGHT_END_HOUR = 7;
+
+/**
+ * Minimum length of a fasting window (minutes)
+ */
+export const MIN_FASTING_WINDOW_MINUTES = 60;
+
+/**
+ * Drift beyond this is flagged for a basal segment (mmol/L per hour)
+ */
+export const BASAL_DRIFT_TOLERANCE = 0.2;
+
+/**
+ * Minimum hourly drift samples before a basal segment is assessed
+ */
+export const MIN_BASAL_SEGMENT_SAMPLES = 3;
+
+/**
+ * Time blocks used when there is no pump basal data (hours)
+ */
+const DEFAULT_SEGMENT_HOURS = 3;
+
+/**
+ * Pump basal rates are rounded to this step when building segments (U/h)
+ */
+const BASAL_RATE_STEP = 0.05;
+
+/** Glucose below this ends fasting (mmol/L) */
+const LOW_THRESHOLD_MMOL = 3.9;
+
+/** Readings this long after a low are not fasting (minutes) */
+const LOW_EXCLUSION_MINUTES = 120;
+
+/** Consecutive readings further apart than this split a window (minutes) */
+const MAX_READING_GAP_MINUTES = 15;
+
+/** Minimum readings and span for an hourly drift sample */
+const MIN_HOURLY_READINGS = 4;
+const MIN_HOURLY_SPAN_MINUTES = 30;
+
+/** z-value for the 95% confidence band */
+const CONFIDENCE_Z = 1.96;
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+/**
+ * Options for the fasting-window finder
+ */
+export interface FastingWindowOptions {
+  /** Hours without carbs or bolus before a reading counts as fasting (default 4) */
+  washoutHours?: number;
+  /** Only use overnight readings (default true) */
+  overnightOnly?: boolean;
+}
+
+/**
+ * A stretch of CGM readings with no carbs and no bolus active
+ */
+export interface FastingWindow {
+  start: Date;
+  end: Date;
+  durationMinutes: number;
+  /** Drift over the whole window in mmol/L per hour */
+  driftPerHour: number;
+  readings: GlucoseReading[];
+}
+
+/**
+ * Pooled drift for one clock hour
+ */
+export interface HourlyDriftPoint {
+  hour: number;
+  /** Mean drift in mmol/L per hour (null without samples) */
+  meanDrift: number | null;
+  /** 95% confidence band in mmol/L per hour (null with fewer than 2 samples) */
+  lower: number | null;
+  upper: number | null;
+  sampleCount: number;
+}
+
+/**
+ * Typical pump basal rate for a block of hours
+ */
+export interface BasalSegment {
+  /** Start hour (inclusive) */
+  startHour: number;
+  /** End hour (exclusive) */
+  endHour: number;
+  /** Typical delivered basal in U/h (null without pump basal data) */
+  rate: number | null;
+}
+
+/**
+ * Assessment of a basal segment
+ */
+export type BasalSegmentStatus = 'tooLow' | 'tooHigh' | 'ok' | 'insufficientData';
+
+/**
+ * Basal segment with the pooled drift of its hours
+ */
+export interface BasalSegmentAssessment extends BasalSegment {
+  meanDrift: number | null;
+  lower: number | null;
+  upper: number | null;
+  sampleCount: number;
+  status: BasalSegmentStatus;
+}
+
+/**
+ * Least-squares slope of glucose against time
+ *
+ * @param readings - Readings sorted by time (at least two)
+ * @returns Slope in mmol/L per hour (0 when all readings share a timestamp)
+ */
+export function calculateDriftPerHour(readings: GlucoseReading[]): number {
+  const t0 = readings[0].timestamp.getTime();
+  const xs = readings.map(r => (r.timestamp.getTime() - t0) / MS_PER_HOUR);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = readings.reduce((sum, r) => sum + r.value, 0) / readings.length;
+
+  let numerator = 0;
+  let denominator = 0;
+  xs.forEach((x, i) => {
+    numerator += (x - meanX) * (readings[i].value - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+/**
+ * Mean and 95% confidence band of drift samples
+ */
+function summarizeDriftSamples(samples: number[]): Pick<HourlyDriftPoint, 'meanDrift' | 'lower' | 'upper' | 'sampleCount'> {
+  if (samples.length === 0) {
+    return { meanDrift: null, lower: null, upper: null, sampleCount: 0 };
+  }
+
+  const mean = samples.reduce((sum, s) => sum + s, 0) / samples.length;
+  if (samples.length < 2) {
+    return { meanDrift: round2(mean), lower: null, upper: null, sampleCount: 1 };
+  }
+
+  const variance = samples.reduce((sum, s) => sum + (s - mean) ** 2, 0) / (samples.length - 1);
+  const margin = CONFIDENCE_Z * Math.sqrt(variance / samples.length);
+  return {
+    meanDrift: round2(mean),
+    lower: round2(mean - margin),
+    upper: round2(mean + margin),
+    sampleCount: samples.length,
+  };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isOvernightHour(hour: number): boolean {
+  return hour >= OVERNIGHT_START_HOUR || hour < OVERNIGHT_END_HOUR;
+}
+
+/**
+ * Find stretches of CGM readings with no carbs and no bolus within the washout period
+ *
+ * @param cgmReadings - CGM readings in mmol/L (any order)
+ * @param insulinReadings - Insulin readings; only boluses end fasting
+ * @param carbEntries - Carb entries (food dataset and bolus carbs)
+ * @param options - Washout period and overnight restriction
+ * @returns Fasting windows sorted by start time
+ */
+export function findFastingWindows(
+  cgmReadings: GlucoseReading[],
+  insulinReadings: InsulinReading[],
+  carbEntries: CarbEntry[],
+  options: FastingWindowOptions = {}
+): FastingWindow[] {
+  const { washoutHours = DEFAULT_FASTING_WASHOUT_HOURS, overnightOnly = true } = options;
+
+  const readings = [...cgmReadings].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const eventTimes = [
+    ...insulinReadings.filter(r => r.insulinType === 'bolus' && r.dose > 0).map(r => r.timestamp.getTime()),
+    ...carbEntries.filter(e => e.carbs > 0).map(e => e.timestamp.getTime()),
+  ].sort((a, b) => a - b);
+
+  const windows: FastingWindow[] = [];
+  let current: GlucoseReading[] = [];
+  const closeWindow = () => {
+    if (current.length >= 2) {
+      const durationMinutes = (current[current.length - 1].timestamp.getTime() - current[0].timestamp.getTime()) / MS_PER_MINUTE;
+      if (durationMinutes >= MIN_FASTING_WINDOW_MINUTES) {
+        windows.push({
+          start: current[0].timestamp,
+          end: current[current.length - 1].timestamp,
+          durationMinutes: Math.round(durationMinutes),
+          driftPerHour: round2(calculateDriftPerHour(current)),
+          readings: current,
+        });
+      }
+    }
+    current = [];
+  };
+
+  let eventIndex = 0;
+  let lastEventTime = -Infinity;
+  let lastLowTime = -Infinity;
+  for (const reading of readings) {
+    const time = reading.timestamp.getTime();
+    while (eventIndex < eventTimes.length && eventTimes[eventIndex] <= time) {
+      lastEventTime = eventTimes[eventIndex++];
+    }
+
+    const fasting =
+      time - lastEventTime >= washoutHours * MS_PER_HOUR &&
+      time - lastLowTime > LOW_EXCLUSION_MINUTES * MS_PER_MINUTE &&
+      (!overnightOnly || isOvernightHour(reading.timestamp.getHours()));
+    if (reading.value < LOW_THRESHOLD_MMOL) {
+      lastLowTime = time;
+    }
+
+    const previous = current[current.length - 1];
+    if (!fasting || (previous && time - previous.timestamp.getTime() > MAX_READING_GAP_MINUTES * MS_PER_MINUTE)) {
+      closeWindow();
+    }
+    if (fasting) {
+      current.push(reading);
+    }
+  }
+  closeWindow();
+
+  return windows;
+}
+
+/**
+ * Collect one drift sample per clock hour covered by each fasting window
+ */
+function collectHourlyDriftSamples(windows: FastingWindow[]): number[][] {
+  const samples: number[][] = Array.from({ length: 24 }, () => []);
+
+  for (const window of windows) {
+    const byHour = new Map<string, GlucoseReading[]>();
+    for (const reading of window.readings) {
+      const key = `${formatDate(reading.timestamp)} ${reading.timestamp.getHours()}`;
+      byHour.set(key, [...(byHour.get(key) ?? []), reading]);
+    }
+
+    for (const hourReadings of byHour.values()) {
+      const span = (hourReadings[hourReadings.length - 1].timestamp.getTime() - hourReadings[0].timestamp.getTime()) / MS_PER_MINUTE;
+      if (hourReadings.length >= MIN_HOURLY_READINGS && span >= MIN_HOURLY_SPAN_MINUTES) {
+        samples[hourReadings[0].timestamp.getHours()].push(calculateDriftPerHour(hourReadings));
+      }
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * Pool fasting drift per clock hour into a 24-hour profile
+ *
+ * @param windows - Fasting windows
+ * @returns One point per hour (0-23) with mean drift and 95% confidence band
+ */
+export function calculateHourlyDriftProfile(windows: FastingWindow[]): HourlyDriftPoint[] {
+  return collectHourlyDriftSamples(windows).map((samples, hour) => ({ hour, ...summarizeDriftSamples(samples) }));
+}
+
+/**
+ * Build basal segments from the typical delivered basal per clock hour
+ * Falls back to 3-hour blocks without pump basal data (e.g. injections)
+ *
+ * @param insulinReadings - Insulin readings; only basal is used
+ * @returns Segments covering all 24 hours
+ */
+export function estimateBasalSegments(insulinReadings: InsulinReading[]): BasalSegment[] {
+  // Delivered basal per day and hour
+  const deliveredByDay = new Map<string, number[]>();
+  for (const reading of insulinReadings) {
+    if (reading.insulinType !== 'basal') continue;
+    const date = formatDate(reading.timestamp);
+    const hours = deliveredByDay.get(date) ?? new Array<number>(24).fill(0);
+    hours[reading.timestamp.getHours()] += reading.dose;
+    deliveredByDay.set(date, hours);
+  }
+
+  if (deliveredByDay.size === 0) {
+    return Array.from({ length: 24 / DEFAULT_SEGMENT_HOURS }, (_, i) => ({
+      startHour: i * DEFAULT_SEGMENT_HOURS,
+      endHour: (i + 1) * DEFAULT_SEGMENT_HOURS,
+      rate: null,
+    }));
+  }
+
+  // Median across days, rounded to the pump step
+  const days = [...deliveredByDay.values()];
+  const hourlyRates = Array.from({ length: 24 }, (_, hour) => {
+    const values = days.map(d => d[hour]).sort((a, b) => a - b);
+    const mid = Math.floor(values.length / 2);
+    const median = values.length % 2 === 0 ? (values[mid - 1] + values[mid]) / 2 : values[mid];
+    return Math.round(median / BASAL_RATE_STEP) * BASAL_RATE_STEP;
+  });
+
+  const segments: BasalSegment[] = [];
+  hourlyRates.forEach((rate, hour) => {
+    const last = segments[segments.length - 1];
+    if (last && Math.abs((last.rate ?? 0) - rate) < BASAL_RATE_STEP / 2) {
+      last.endHour = hour + 1;
+    } else {
+      segments.push({ startHour: hour, endHour: hour + 1, rate: round2(rate) });
+    }
+  });
+  return segments;
+}
+
+/**
+ * Estimate whether each basal segment is too high or too low from fasting drift
+ * Rising glucose while fasting means too little basal, falling means too much
+ *
+ * @param segments - Basal segments covering the day
+ * @param windows - Fasting windows
+ * @returns Segments with pooled drift and status
+ */
+export function assessBasalSegments(segments: BasalSegment[], windows: FastingWindow[]): BasalSegmentAssessment[] {
+  const hourlySamples = collectHourlyDriftSamples(windows);
+
+  return segments.map(segment => {
+    const samples = hourlySamples.slice(segment.startHour, segment.endHour).flat();
+    const summary = summarizeDriftSamples(samples);
+
+    let status: BasalSegmentStatus = 'ok';
+    if (summary.sampleCount < MIN_BASAL_SEGMENT_SAMPLES || summary.meanDrift === null) {
+      status = 'insufficientData';
+    } else if (summary.meanDrift >= BASAL_DRIFT_TOLERANCE && summary.lower !== null && summary.lower > 0) {
+      status = 'tooLow';
+    } else if (summary.meanDrift <= -BASAL_DRIFT_TOLERANCE && summary.upper !== null && summary.upper < 0) {
+      status = 'tooHigh';
+    }
+
+    return { ...segment, ...summary, status };
+  });
+}
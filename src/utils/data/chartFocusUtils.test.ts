@@ -0,0 +1,96 @@
+/**
+ * Tests for chart focus utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  focusTimeToDecimal,
+  getChartFocusLink,
+  getFocusTimeRanges,
+  hasFocusTimeWindow,
+  parseChartFocus,
+} from './chartFocusUtils';
+
+describe('chartFocusUtils', () => {
+  describe('hasFocusTimeWindow', () => {
+    it('should accept valid HH:mm windows including an end of 24:00', () => {
+      expect(hasFocusTimeWindow({ start: '18:00', end: '21:30' })).toBe(true);
+      expect(hasFocusTimeWindow({ start: '22:00', end: '24:00' })).toBe(true);
+    });
+
+    it('should reject missing, invalid and empty windows', () => {
+      expect(hasFocusTimeWindow({ date: '2025-01-14' })).toBe(false);
+      expect(hasFocusTimeWindow({ start: '18:00' })).toBe(false);
+      expect(hasFocusTimeWindow({ start: '25:00', end: '26:00' })).toBe(false);
+      expect(hasFocusTimeWindow({ start: '8:00', end: '9:00' })).toBe(false);
+      expect(hasFocusTimeWindow({ start: '08:00', end: '08:00' })).toBe(false);
+    });
+  });
+
+  describe('getChartFocusLink', () => {
+    it('should link days to the daily BG report', () => {
+      expect(getChartFocusLink({ date: '2025-01-14' })).toBe('#reports/dailyBG/2025-01-14');
+      expect(getChartFocusLink({ date: '2025-01-14', start: '18:00', end: '21:00' }))
+        .toBe('#reports/dailyBG/2025-01-14/18:00-21:00');
+    });
+
+    it('should link time windows without a day to the AGP report', () => {
+      expect(getChartFocusLink({ start: '22:00', end: '02:00' })).toBe('#reports/agp/22:00-02:00');
+    });
+
+    it('should ignore invalid parts and return null without a target', () => {
+      expect(getChartFocusLink({ date: '14.01.2025', start: '18:00', end: '21:00' })).toBe('#reports/agp/18:00-21:00');
+      expect(getChartFocusLink({ date: '2025-01-14', start: 'evening', end: '21:00' })).toBe('#reports/dailyBG/2025-01-14');
+      expect(getChartFocusLink({})).toBeNull();
+    });
+  });
+
+  describe('parseChartFocus', () => {
+    it('should read a day and an optional window for the daily BG report', () => {
+      expect(parseChartFocus('dailyBG', ['2025-01-14'])).toEqual({ date: '2025-01-14' });
+      expect(parseChartFocus('dailyBG', ['2025-01-14', '18:00-21:00']))
+        .toEqual({ date: '2025-01-14', start: '18:00', end: '21:00' });
+      expect(parseChartFocus('dailyBG', ['2025-01-14', 'evening'])).toEqual({ date: '2025-01-14' });
+    });
+
+    it('should read a window for the AGP report', () => {
+      expect(parseChartFocus('agp', ['22:00-02:00'])).toEqual({ start: '22:00', end: '02:00' });
+      expect(parseChartFocus('agp', [])).toBeNull();
+    });
+
+    it('should return null for other reports and invalid routes', () => {
+      expect(parseChartFocus('hypos', ['2025-01-14'])).toBeNull();
+      expect(parseChartFocus('dailyBG', ['yesterday'])).toBeNull();
+    });
+
+    it('should round-trip links', () => {
+      const focus = { date: '2025-01-14', start: '06:30', end: '09:00' };
+      const [tab, ...parts] = (getChartFocusLink(focus) ?? '').replace('#reports/', '').split('/');
+      expect(parseChartFocus(tab as 'dailyBG', parts)).toEqual(focus);
+    });
+  });
+
+  describe('focusTimeToDecimal', () => {
+    it('should convert HH:mm to decimal hours', () => {
+      expect(focusTimeToDecimal('18:30')).toBe(18.5);
+      expect(focusTimeToDecimal('24:00')).toBe(24);
+    });
+  });
+
+  describe('getFocusTimeRanges', () => {
+    it('should return a single range for windows within a day', () => {
+      expect(getFocusTimeRanges({ start: '06:00', end: '09:30' })).toEqual([{ start: 6, end: 9.5 }]);
+    });
+
+    it('should split windows across midnight', () => {
+      expect(getFocusTimeRanges({ start: '22:00', end: '02:00' })).toEqual([
+        { start: 22, end: 24 },
+        { start: 0, end: 2 },
+      ]);
+    });
+
+    it('should return no ranges without a window', () => {
+      expect(getFocusTimeRanges({ date: '2025-01-14' })).toEqual([]);
+    });
+  });
+});
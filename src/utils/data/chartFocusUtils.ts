@@ -0,0 +1,99 @@
+/**
+ * Utility functions for chart focus links
+ *
+ * A chart focus opens a report on a day and/or a time window of the day, e.g.
+ * from an AI recommendation. It is encoded in the hash route:
+ * - #reports/dailyBG/2025-01-14 selects a day in the daily BG report
+ * - #reports/dailyBG/2025-01-14/18:00-21:00 also highlights that window
+ * - #reports/agp/18:00-21:00 highlights a time of day in the AGP report
+ */
+
+import type { ChartFocus, ReportTabId } from '../../types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const END_TIME_PATTERN = /^(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+
+/**
+ * Check whether a chart focus has a time window
+ *
+ * @param focus - Chart focus
+ * @returns true if both start and end are valid HH:mm times
+ */
+export function hasFocusTimeWindow(focus: ChartFocus): focus is ChartFocus & { start: string; end: string } {
+  return (
+    typeof focus.start === 'string' && TIME_PATTERN.test(focus.start) &&
+    typeof focus.end === 'string' && END_TIME_PATTERN.test(focus.end) &&
+    focus.start !== focus.end
+  );
+}
+
+/**
+ * Get the report link of a chart focus
+ *
+ * Foci with a day open the daily BG report, foci with only a time window open
+ * the AGP report.
+ *
+ * @param focus - Day and/or time window to show
+ * @returns Hash route starting with "#reports/", or null if there is nothing to link to
+ */
+export function getChartFocusLink(focus: ChartFocus): string | null {
+  const window = hasFocusTimeWindow(focus) ? `${focus.start}-${focus.end}` : null;
+
+  if (focus.date && DATE_PATTERN.test(focus.date)) {
+    return window ? `#reports/dailyBG/${focus.date}/${window}` : `#reports/dailyBG/${focus.date}`;
+  }
+  return window ? `#reports/agp/${window}` : null;
+}
+
+/**
+ * Read the chart focus from the parts of a #reports/<tab>/... hash route
+ *
+ * @param tab - Report tab of the route
+ * @param parts - Route parts after the tab
+ * @returns Chart focus, or null if the route has none for this tab
+ */
+export function parseChartFocus(tab: ReportTabId, parts: string[]): ChartFocus | null {
+  const parseWindow = (part: string | undefined): ChartFocus | null => {
+    const [start, end] = (part ?? '').split('-');
+    const focus = { start, end };
+    return hasFocusTimeWindow(focus) ? focus : null;
+  };
+
+  if (tab === 'dailyBG' && DATE_PATTERN.test(parts[0] ?? '')) {
+    return { date: parts[0], ...parseWindow(parts[1]) };
+  }
+  if (tab === 'agp') {
+    return parseWindow(parts[0]);
+  }
+  return null;
+}
+
+/**
+ * Convert an HH:mm time of a chart focus to decimal hours
+ *
+ * @param time - Time in HH:mm format
+ * @returns Hours since midnight (e.g. 18.5 for 18:30)
+ */
+export function focusTimeToDecimal(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours + minutes / 60;
+}
+
+/**
+ * Get the ranges of a day covered by the time window of a chart focus
+ *
+ * Windows across midnight (e.g. 22:00-02:00) are split into two ranges.
+ *
+ * @param focus - Chart focus with a time window
+ * @returns Ranges in decimal hours, empty without a time window
+ */
+export function getFocusTimeRanges(focus: ChartFocus): Array<{ start: number; end: number }> {
+  if (!hasFocusTimeWindow(focus)) {
+    return [];
+  }
+
+  const start = focusTimeToDecimal(focus.start);
+  const end = focusTimeToDecimal(focus.end);
+  return start < end ? [{ start, end }] : [{ start, end: 24 }, { start: 0, end }];
+}
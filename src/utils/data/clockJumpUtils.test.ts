@@ -0,0 +1,88 @@
+/**
+ * Unit tests for clock change detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createTimestampResolver, detectClockJumps, getTravelShiftMinutes } from './clockJumpUtils';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Wall-clock readings every 5 minutes from a start time (UTC fields are the wall-clock fields)
+ */
+function series(start: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => start + i * 5 * MINUTE);
+}
+
+describe('clockJumpUtils', () => {
+  describe('detectClockJumps', () => {
+    it('should detect the spring DST change as a forward jump', () => {
+      const times = [...series(Date.UTC(2024, 2, 31, 0, 0), 24), ...series(Date.UTC(2024, 2, 31, 3, 0), 12)];
+      const jumps = detectClockJumps(times, 'Europe/Berlin');
+
+      expect(jumps).toHaveLength(1);
+      expect(jumps[0]).toMatchObject({ index: 24, shiftMinutes: 60, kind: 'dst' });
+    });
+
+    it('should detect the autumn DST change as a backward jump', () => {
+      const times = [...series(Date.UTC(2024, 9, 27, 1, 0), 24), ...series(Date.UTC(2024, 9, 27, 2, 0), 12)];
+      const jumps = detectClockJumps(times, 'Europe/Berlin');
+
+      expect(jumps).toHaveLength(1);
+      expect(jumps[0]).toMatchObject({ index: 24, shiftMinutes: -60, kind: 'dst' });
+    });
+
+    it('should pair the outbound and return clock changes of a trip', () => {
+      const times = [
+        ...series(Date.UTC(2024, 5, 1, 8, 0), 12),
+        // Clock set 6 hours forward on arrival
+        ...series(Date.UTC(2024, 5, 1, 15, 0), 12),
+        // Clock set back 6 hours after returning home
+        ...series(Date.UTC(2024, 5, 1, 10, 0), 12),
+      ];
+      const jumps = detectClockJumps(times, 'Europe/Berlin');
+
+      expect(jumps.map(jump => [jump.index, jump.shiftMinutes, jump.kind])).toEqual([
+        [12, 360, 'travel'],
+        [24, -360, 'travel'],
+      ]);
+    });
+
+    it('should not report sensor gaps as clock changes', () => {
+      const times = [...series(Date.UTC(2024, 5, 1, 8, 0), 12), ...series(Date.UTC(2024, 5, 1, 11, 0), 12)];
+      expect(detectClockJumps(times, 'Europe/Berlin')).toEqual([]);
+    });
+
+    it('should return no jumps without regular sampling', () => {
+      expect(detectClockJumps([Date.UTC(2024, 5, 1)], 'Europe/Berlin')).toEqual([]);
+    });
+  });
+
+  describe('createTimestampResolver', () => {
+    const times = [
+      ...series(Date.UTC(2024, 5, 1, 8, 0), 12),
+      ...series(Date.UTC(2024, 5, 1, 15, 0), 12),
+      ...series(Date.UTC(2024, 5, 1, 10, 0), 12),
+    ];
+    const jumps = detectClockJumps(times, 'Europe/Berlin');
+
+    it('should keep device time in wall-clock mode', () => {
+      const resolve = createTimestampResolver(jumps, { sourceTimeZone: 'Europe/Berlin', analysisMode: 'wallClock' }, true);
+      expect(resolve(times[12], 12).getHours()).toBe(15);
+    });
+
+    it('should undo travel clock changes in home time zone mode', () => {
+      const resolve = createTimestampResolver(jumps, { sourceTimeZone: 'Europe/Berlin', analysisMode: 'homeTimeZone' }, true);
+
+      expect(resolve(times[11], 11).getHours()).toBe(8);
+      expect(resolve(times[12], 12).getHours()).toBe(9);
+      expect(resolve(times[24], 24).getHours()).toBe(10);
+    });
+
+    it('should place other datasets by their timestamps', () => {
+      expect(getTravelShiftMinutes(jumps, Date.UTC(2024, 5, 1, 7, 0))).toBe(0);
+      expect(getTravelShiftMinutes(jumps, Date.UTC(2024, 5, 1, 15, 30))).toBe(360);
+      expect(getTravelShiftMinutes(jumps, Date.UTC(2024, 5, 1, 16, 0))).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Detection of device clock changes in Glooko data
+ *
+ * Device clocks jump when DST starts or ends and when the user changes the
+ * clock while travelling. A jump shows up in the CGM (or BG) readings as a
+ * backwards step in time, or as a forward step of a whole number of quarter
+ * hours. Forward steps look like sensor gaps, so they only count as a clock
+ * change when the source time zone changes its offset there, or when a
+ * backward step of the same size undoes them (the other leg of a trip).
+ */
+
+import type { TimeZoneSettings } from '../../types';
+import type { ParsedDatasets } from './columnarDataset';
+import { getTimeZoneOffsetMinutes, wallClockToInstant, wallClockToLocalDate } from './timezoneUtils';
+
+/**
+ * Cause of a clock change
+ */
+export type ClockJumpKind = 'dst' | 'travel';
+
+/**
+ * A clock change found in the readings
+ */
+export interface ClockJump {
+  /** Row index of the first reading after the change */
+  index: number;
+  /** Wall-clock milliseconds of the last reading before the change */
+  beforeTime: number;
+  /** Wall-clock milliseconds of the first reading after the change */
+  afterTime: number;
+  /** Clock change in minutes (positive when the clock was set forward) */
+  shiftMinutes: number;
+  kind: ClockJumpKind;
+}
+
+/**
+ * Turns a wall-clock timestamp (and its row in the dataset) into the Date used by the reports
+ */
+export type TimestampResolver = (wallClock: number, row: number) => Date;
+
+/**
+ * Datasets dense enough to reveal clock changes, in order of preference
+ */
+export const CLOCK_JUMP_SOURCE_DATASETS = ['cgm', 'bg'];
+
+/** Smallest clock change that is reported */
+const MIN_JUMP_MINUTES = 30;
+/** Clock changes are whole multiples of this many minutes */
+const JUMP_STEP_MINUTES = 15;
+/** Allowed deviation of a forward step from a whole multiple */
+const JUMP_TOLERANCE_MINUTES = 2.5;
+/** Longest interval between readings considered regular sampling */
+const MAX_SAMPLING_MINUTES = 60;
+/** Window around a jump in which the source time zone must change its offset for a DST jump */
+const DST_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Median interval between consecutive readings, or 0 when there is no regular sampling
+ */
+function getSamplingIntervalMs(times: ArrayLike<number>): number {
+  const intervals: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const delta = times[i] - times[i - 1];
+    if (delta > 0 && delta <= MAX_SAMPLING_MINUTES * MS_PER_MINUTE) intervals.push(delta);
+  }
+  if (intervals.length === 0) return 0;
+  intervals.sort((a, b) => a - b);
+  return intervals[Math.floor(intervals.length / 2)];
+}
+
+/**
+ * Check whether the source time zone changes its offset by the jump's shift around the jump
+ */
+function isDstChange(beforeTime: number, afterTime: number, shiftMinutes: number, timeZone: string): boolean {
+  const offsetBefore = getTimeZoneOffsetMinutes(timeZone, wallClockToInstant(beforeTime, timeZone) - DST_WINDOW_MS);
+  const offsetAfter = getTimeZoneOffsetMinutes(timeZone, wallClockToInstant(afterTime, timeZone) + DST_WINDOW_MS);
+  return offsetAfter - offsetBefore === shiftMinutes;
+}
+
+/**
+ * Find the latest pending jump that a jump of the given shift would undo
+ */
+function findOtherLeg(pending: ClockJump[], shiftMinutes: number): number {
+  for (let i = pending.length - 1; i >= 0; i--) {
+    if (pending[i].shiftMinutes === -shiftMinutes) return i;
+  }
+  return -1;
+}
+
+/**
+ * Detect clock changes in a sequence of wall-clock timestamps
+ *
+ * @param times - Wall-clock milliseconds in recorded (row) order; NaN entries are skipped
+ * @param timeZone - IANA source time zone, used to recognise DST changes
+ * @returns Clock changes in row order
+ */
+export function detectClockJumps(times: ArrayLike<number>, timeZone: string): ClockJump[] {
+  const validTimes = Array.from(times).filter(time => !isNaN(time));
+  const interval = getSamplingIntervalMs(validTimes);
+  if (interval === 0) return [];
+
+  const jumps: ClockJump[] = [];
+  // Unexplained forward steps and unmatched backward travel jumps, waiting for the other leg of a trip
+  const pendingForward: ClockJump[] = [];
+  const openBackward: ClockJump[] = [];
+  let previous = NaN;
+
+  for (let index = 0; index < times.length; index++) {
+    const time = times[index];
+    if (isNaN(time)) continue;
+    if (isNaN(previous)) {
+      previous = time;
+      continue;
+    }
+
+    const stepMinutes = (time - previous - interval) / MS_PER_MINUTE;
+    const shiftMinutes = Math.round(stepMinutes / JUMP_STEP_MINUTES) * JUMP_STEP_MINUTES;
+    const isBackward = time < previous;
+    const isCandidate = isBackward
+      ? shiftMinutes <= -MIN_JUMP_MINUTES
+      : shiftMinutes >= MIN_JUMP_MINUTES && Math.abs(stepMinutes - shiftMinutes) <= JUMP_TOLERANCE_MINUTES;
+
+    if (isCandidate) {
+      const jump: ClockJump = { index, beforeTime: previous, afterTime: time, shiftMinutes, kind: 'travel' };
+      const pending = isBackward ? pendingForward : openBackward;
+      const otherLeg = findOtherLeg(pending, shiftMinutes);
+
+      if (isDstChange(previous, time, shiftMinutes, timeZone)) {
+        jumps.push({ ...jump, kind: 'dst' });
+      } else if (otherLeg !== -1) {
+        if (isBackward) jumps.push(pending[otherLeg]);
+        pending.splice(otherLeg, 1);
+        jumps.push(jump);
+      } else if (isBackward) {
+        jumps.push(jump);
+        openBackward.push(jump);
+      } else {
+        pendingForward.push(jump);
+      }
+    }
+
+    previous = time;
+  }
+
+  return jumps.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Total travel clock shift in effect at a timestamp
+ * Readings in the repeated interval after a backward change cannot be placed by time alone and keep the earlier shift.
+ *
+ * @param jumps - Detected clock changes
+ * @param wallClock - Wall-clock milliseconds
+ * @returns Shift in minutes relative to the home clock
+ */
+export function getTravelShiftMinutes(jumps: ClockJump[], wallClock: number): number {
+  return jumps
+    .filter(jump => jump.kind === 'travel' && wallClock >= Math.max(jump.beforeTime, jump.afterTime))
+    .reduce((sum, jump) => sum + jump.shiftMinutes, 0);
+}
+
+/**
+ * Total travel clock shift in effect at a row of the dataset the jumps were detected in
+ */
+function getTravelShiftMinutesAtRow(jumps: ClockJump[], row: number): number {
+  return jumps
+    .filter(jump => jump.kind === 'travel' && row >= jump.index)
+    .reduce((sum, jump) => sum + jump.shiftMinutes, 0);
+}
+
+/**
+ * Find the dataset used to detect clock changes
+ */
+export function getClockJumpSource(datasets: ParsedDatasets): string | undefined {
+  return CLOCK_JUMP_SOURCE_DATASETS.find(name => (datasets[name]?.rowCount ?? 0) > 0);
+}
+
+/**
+ * Create the timestamp resolver for one dataset of an uploaded file
+ *
+ * In 'wallClock' mode timestamps keep the device time. In 'homeTimeZone' mode
+ * travel clock changes are undone so every reading shows the time at home;
+ * the data is assumed to start at home.
+ *
+ * @param jumps - Clock changes detected in the file
+ * @param settings - Time zone settings
+ * @param isJumpSource - Whether the dataset is the one the jumps were detected in (rows are then matched exactly)
+ * @returns Resolver producing browser-local Dates with the chosen wall-clock fields
+ */
+export function createTimestampResolver(
+  jumps: ClockJump[],
+  settings: TimeZoneSettings,
+  isJumpSource: boolean = false
+): TimestampResolver {
+  const travelJumps = jumps.filter(jump => jump.kind === 'travel');
+  if (settings.analysisMode === 'wallClock' || travelJumps.length === 0) {
+    return wallClock => wallClockToLocalDate(wallClock);
+  }
+
+  return (wallClock, row) => {
+    const shiftMinutes = isJumpSource
+      ? getTravelShiftMinutesAtRow(travelJumps, row)
+      : getTravelShiftMinutes(travelJumps, wallClock);
+    return wallClockToLocalDate(wallClock - shiftMinutes * MS_PER_MINUTE);
+  };
+}
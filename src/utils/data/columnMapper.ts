@@ -65,7 +65,7 @@ const COLUMN_MAPPINGS: Record<string, { en: string[]; de: string[] }> = {
   
   // Food/carbs columns
   foodDescription: {
-    en: ['food description'],
+    en: ['food description', 'food item', 'food'],
     de: ['name']
   },
   protein: {
@@ -79,7 +79,7 @@ const COLUMN_MAPPINGS: Record<string, { en: string[]; de: string[] }> = {
   
   // Exercise columns
   activityType: {
-    en: ['activity type'],
+    en: ['activity type', 'exercise type'],
     de: ['name']
   },
   intensity: {
@@ -89,17 +89,17 @@ const COLUMN_MAPPINGS: Record<string, { en: string[]; de: string[] }> = {
   
   // Medication columns
   medicationName: {
-    en: ['medication name'],
+    en: ['medication name', 'medication'],
     de: ['name']
   },
   dosage: {
-    en: ['dosage'],
+    en: ['dosage', 'dose', 'value'],
     de: ['wert']
   },
   
   // Alarm columns
   alarmEvent: {
-    en: ['alarm/event'],
+    en: ['alarm/event', 'alarm type'],
     de: ['alarm/ereignis']
   },
   serialNumber: {
@@ -0,0 +1,146 @@
+/**
+ * Unit tests for columnar dataset utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseCsvToColumnarDataset,
+  concatColumnarDatasets,
+  getCellText,
+  getDatasetTransferables,
+  glucoseReadingsFromDataset,
+  insulinReadingsFromDataset,
+} from './columnarDataset';
+
+const METADATA_LINE = 'Name:Test User\tDate Range:2024-01-01 - 2024-01-31';
+
+function createCsv(header: string, rows: string[]): string {
+  return [METADATA_LINE, header, ...rows].join('\n');
+}
+
+describe('columnarDataset', () => {
+  describe('parseCsvToColumnarDataset', () => {
+    it('should parse timestamps and numeric columns', () => {
+      const dataset = parseCsvToColumnarDataset(createCsv(
+        'Timestamp\tCGM Glucose Value (mmol/l)\tSerial Number',
+        ['2024-01-15 08:00\t5.5\tABC', '2024-01-15 08:05\t6.1\tABC'],
+      ));
+
+      expect(dataset.columnNames).toEqual(['Timestamp', 'CGM Glucose Value (mmol/l)', 'Serial Number']);
+      expect(dataset.rowCount).toBe(2);
+      expect(dataset.timestamps[0]).toBe(Date.UTC(2024, 0, 15, 8, 0));
+      expect(Array.from(dataset.columns[1])).toEqual([5.5, 6.1]);
+      expect(Number.isNaN(dataset.columns[2][0])).toBe(true);
+    });
+
+    it('should detect comma-delimited files and skip blank lines', () => {
+      const dataset = parseCsvToColumnarDataset(createCsv('Timestamp,Value', ['2024-01-15 08:00,5', '', '2024-01-15 08:05,']));
+
+      expect(dataset.rowCount).toBe(2);
+      expect(dataset.columns[1][0]).toBe(5);
+      expect(Number.isNaN(dataset.columns[1][1])).toBe(true);
+    });
+
+    it('should keep the text of columns that are not plain numbers', () => {
+      const dataset = parseCsvToColumnarDataset(createCsv(
+        'Timestamp\tFood\tCarbs (g)\tSerial Number',
+        ['2024-01-15 08:00\t12\t45\t0012', '2024-01-15 12:00\tSandwich\t30\t0012'],
+      ));
+
+      expect(dataset.textColumns[1]).toEqual(['12', 'Sandwich']);
+      expect(dataset.textColumns[2]).toBeNull();
+      expect(getCellText(dataset, 2, 0)).toBe('45');
+      expect(getCellText(dataset, 3, 1)).toBe('0012');
+      expect(getCellText(dataset, -1, 0)).toBe('');
+    });
+
+    it('should return an empty dataset without a header line', () => {
+      expect(parseCsvToColumnarDataset(METADATA_LINE).rowCount).toBe(0);
+    });
+  });
+
+  describe('concatColumnarDatasets', () => {
+    it('should append rows in order', () => {
+      const header = 'Timestamp\tCGM Glucose Value (mmol/l)';
+      const first = parseCsvToColumnarDataset(createCsv(header, ['2024-01-15 08:00\t5']));
+      const second = parseCsvToColumnarDataset(createCsv(header, ['2024-01-15 08:05\t6', '2024-01-15 08:10\t7']));
+      const merged = concatColumnarDatasets([first, second]);
+
+      expect(merged.rowCount).toBe(3);
+      expect(Array.from(merged.columns[1])).toEqual([5, 6, 7]);
+      expect(merged.timestamps[2]).toBe(Date.UTC(2024, 0, 15, 8, 10));
+    });
+
+    it('should keep text columns of any part', () => {
+      const header = 'Timestamp\tAlarm/Event';
+      const first = parseCsvToColumnarDataset(createCsv(header, ['2024-01-15 08:00\t1']));
+      const second = parseCsvToColumnarDataset(createCsv(header, ['2024-01-15 08:05\tLow Glucose']));
+
+      expect(concatColumnarDatasets([first, second]).textColumns[1]).toEqual(['1', 'Low Glucose']);
+    });
+  });
+
+  describe('getDatasetTransferables', () => {
+    it('should list each buffer once', () => {
+      const dataset = parseCsvToColumnarDataset(createCsv('Timestamp\tValue\tOther', ['2024-01-15 08:00\t5\t1']));
+      expect(getDatasetTransferables({ cgm: dataset })).toHaveLength(3);
+    });
+  });
+
+  describe('glucoseReadingsFromDataset', () => {
+    it('should skip invalid timestamps and non-positive values', () => {
+      const dataset = parseCsvToColumnarDataset(createCsv(
+        'Timestamp\tCGM Glucose Value (mmol/l)',
+        ['2024-01-15 08:00\t5.5', 'invalid\t6', '2024-01-15 08:10\t0', '2024-01-15 08:15\t'],
+      ));
+      const readings = glucoseReadingsFromDataset(dataset);
+
+      expect(readings).toHaveLength(1);
+      expect(readings[0].value).toBe(5.5);
+    });
+
+    it('should keep the recorded wall-clock time by default', () => {
+      const dataset = parseCsvToColumnarDataset(createCsv('Timestamp\tCGM Glucose Value (mmol/l)', ['2024-01-15 08:05\t5.5']));
+      const timestamp = glucoseReadingsFromDataset(dataset)[0].timestamp;
+
+      expect(timestamp.getHours()).toBe(8);
+      expect(timestamp.getMinutes()).toBe(5);
+    });
+
+    it('should convert mg/dL values to mmol/L', () => {
+      const dataset = parseCsvToColumnarDataset(createCsv('Timestamp\tCGM Glucose Value (mg/dl)', ['2024-01-15 08:00\t180']));
+      expect(glucoseReadingsFromDataset(dataset, true)[0].value).toBe(10);
+    });
+
+    it('should return no readings without a glucose column', () => {
+      const dataset = parseCsvToColumnarDataset(createCsv('Timestamp\tNotes', ['2024-01-15 08:00\t5']));
+      expect(glucoseReadingsFromDataset(dataset)).toEqual([]);
+    });
+  });
+
+  describe('insulinReadingsFromDataset', () => {
+    it('should convert basal rates to delivered insulin', () => {
+      const dataset = parseCsvToColumnarDataset(createCsv(
+        'Timestamp\tRate\tDuration (minutes)\tInsulin Delivered (U)',
+        ['2024-01-15 08:00\t1.2\t30\t0.6'],
+      ));
+      const readings = insulinReadingsFromDataset(dataset, 'basal');
+
+      // 1.2 U/h for 30 minutes
+      expect(readings).toHaveLength(1);
+      expect(readings[0].dose).toBeCloseTo(0.6);
+      expect(readings[0].insulinType).toBe('basal');
+    });
+
+    it('should keep bolus doses as recorded', () => {
+      const dataset = parseCsvToColumnarDataset(createCsv(
+        'Timestamp\tInsulin Delivered (U)',
+        ['2024-01-15 08:00\t4.5', '2024-01-15 12:00\t-1'],
+      ));
+      const readings = insulinReadingsFromDataset(dataset, 'bolus');
+
+      expect(readings).toHaveLength(1);
+      expect(readings[0].dose).toBe(4.5);
+    });
+  });
+});
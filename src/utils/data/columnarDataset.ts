@@ -0,0 +1,279 @@
+/**
+ * Columnar storage for parsed Glooko CSV datasets
+ *
+ * Each CSV dataset is parsed once into typed arrays (one Float64Array per
+ * column) so that extractors can build readings without splitting CSV text
+ * again. Typed arrays are also transferable, which lets a Web Worker hand
+ * parsed data to the main thread without copying. Columns holding text
+ * (food names, alarm events, ...) keep their cells as strings as well.
+ */
+
+import type { GlucoseReading, InsulinReading } from '../../types';
+import { mgdlToMmol } from './glucoseUnitUtils';
+import { findColumnIndex, getColumnVariants } from './columnMapper';
+import { parseWallClockTime, wallClockToLocalDate } from './timezoneUtils';
+import type { TimestampResolver } from './clockJumpUtils';
+
+/**
+ * A CSV dataset stored column by column
+ */
+export interface ColumnarDataset {
+  columnNames: string[];
+  rowCount: number;
+  /** Row timestamps as wall-clock milliseconds, see timezoneUtils (NaN when missing or invalid) */
+  timestamps: Float64Array;
+  /** Numeric value of every cell, per column (NaN when empty or not numeric); the timestamp column shares `timestamps` */
+  columns: Float64Array[];
+  /** Cell text, per column; null for columns whose cells all read back as the same number */
+  textColumns: (string[] | null)[];
+}
+
+/**
+ * Parsed datasets of one ZIP file, keyed by dataset name (e.g. 'cgm', 'bolus')
+ */
+export type ParsedDatasets = Record<string, ColumnarDataset>;
+
+/**
+ * Detect the delimiter used in CSV content from its header line (line 1)
+ *
+ * @param lines - CSV lines
+ * @returns The detected delimiter (tab or comma)
+ */
+function detectLineDelimiter(lines: string[]): string {
+  if (lines.length < 2) {
+    return '\t';
+  }
+
+  const tabCount = (lines[1].match(/\t/g) || []).length;
+  const commaCount = (lines[1].match(/,/g) || []).length;
+
+  return commaCount > tabCount ? ',' : '\t';
+}
+
+/**
+ * Allocate one NaN-filled array per column, reusing the timestamps array for the timestamp column
+ */
+function createColumns(columnNames: string[], timestampIndex: number, timestamps: Float64Array): Float64Array[] {
+  return columnNames.map((_, index) => (
+    index === timestampIndex ? timestamps : new Float64Array(timestamps.length).fill(NaN)
+  ));
+}
+
+/**
+ * Read the cell text of one column from the rows parsed so far
+ * Used when a column turns out to hold text, so earlier rows keep their text as well.
+ */
+function readTextColumn(dataLines: string[], delimiter: string, column: number, untilRow: number): string[] {
+  const text = new Array<string>(dataLines.length).fill('');
+  for (let row = 0; row < untilRow; row++) {
+    text[row] = dataLines[row].split(delimiter)[column]?.trim() ?? '';
+  }
+  return text;
+}
+
+/**
+ * Parse Glooko CSV content (metadata line, header line, data rows) into columns
+ *
+ * @param csvContent - The CSV file content as string
+ * @returns Columnar dataset; empty when the content has no header line
+ */
+export function parseCsvToColumnarDataset(csvContent: string): ColumnarDataset {
+  const lines = csvContent.trim().split('\n');
+
+  if (lines.length < 2) {
+    return { columnNames: [], rowCount: 0, timestamps: new Float64Array(0), columns: [], textColumns: [] };
+  }
+
+  const delimiter = detectLineDelimiter(lines);
+  const columnNames = lines[1].split(delimiter).map(h => h.trim());
+  const timestampIndex = findColumnIndex(columnNames, getColumnVariants('timestamp'));
+
+  const dataLines = lines.slice(2).map(line => line.trim()).filter(line => line.length > 0);
+  const rowCount = dataLines.length;
+  const timestamps = new Float64Array(rowCount).fill(NaN);
+  const columns = createColumns(columnNames, timestampIndex, timestamps);
+  const textColumns: (string[] | null)[] = columnNames.map(() => null);
+
+  for (let row = 0; row < rowCount; row++) {
+    const values = dataLines[row].split(delimiter);
+
+    for (let column = 0; column < columnNames.length; column++) {
+      const value = values[column]?.trim();
+      if (!value) continue;
+
+      if (column === timestampIndex) {
+        timestamps[row] = parseWallClockTime(value);
+      } else {
+        const number = parseFloat(value);
+        columns[column][row] = number;
+        // Keep the text of cells that are not plain numbers (e.g. "Oatmeal", "one tablet", "0012")
+        if (!textColumns[column] && String(number) !== value) {
+          textColumns[column] = readTextColumn(dataLines, delimiter, column, row);
+        }
+        const text = textColumns[column];
+        if (text) text[row] = value;
+      }
+    }
+  }
+
+  return { columnNames, rowCount, timestamps, columns, textColumns };
+}
+
+/**
+ * Concatenate datasets with identical columns (e.g. cgm_data_1.csv and cgm_data_2.csv)
+ *
+ * @param datasets - Datasets to concatenate, in order
+ * @returns A single dataset containing all rows
+ */
+export function concatColumnarDatasets(datasets: ColumnarDataset[]): ColumnarDataset {
+  if (datasets.length === 1) {
+    return datasets[0];
+  }
+
+  const columnNames = datasets.find(dataset => dataset.columnNames.length > 0)?.columnNames ?? [];
+  const rowCount = datasets.reduce((sum, dataset) => sum + dataset.rowCount, 0);
+  const timestampIndex = findColumnIndex(columnNames, getColumnVariants('timestamp'));
+  const timestamps = new Float64Array(rowCount);
+  const columns = createColumns(columnNames, timestampIndex, timestamps);
+  const textColumns = columnNames.map((_, index) => (
+    datasets.some(dataset => dataset.textColumns[index]) ? new Array<string>(rowCount).fill('') : null
+  ));
+
+  let offset = 0;
+  for (const dataset of datasets) {
+    timestamps.set(dataset.timestamps, offset);
+    dataset.columns.forEach((column, index) => {
+      if (index !== timestampIndex) columns[index]?.set(column, offset);
+    });
+    textColumns.forEach((text, index) => {
+      if (!text) return;
+      for (let row = 0; row < dataset.rowCount; row++) {
+        text[offset + row] = getCellText(dataset, index, row);
+      }
+    });
+    offset += dataset.rowCount;
+  }
+
+  return { columnNames, rowCount, timestamps, columns, textColumns };
+}
+
+/**
+ * Get the text of a cell
+ * Cells of numeric columns are returned as their number, so any column can be read as text.
+ *
+ * @param dataset - Parsed dataset
+ * @param column - Column index (-1 when the column does not exist)
+ * @param row - Row index
+ * @returns Cell text, or an empty string when the cell or column is empty
+ */
+export function getCellText(dataset: ColumnarDataset, column: number, row: number): string {
+  const text = dataset.textColumns[column];
+  if (text) {
+    return text[row] ?? '';
+  }
+
+  const value = dataset.columns[column]?.[row];
+  return value === undefined || isNaN(value) ? '' : String(value);
+}
+
+/**
+ * Collect the underlying buffers of parsed datasets for postMessage transfer
+ *
+ * @param datasets - Parsed datasets
+ * @returns Unique array buffers
+ */
+export function getDatasetTransferables(datasets: ParsedDatasets): ArrayBuffer[] {
+  const buffers = new Set<ArrayBuffer>();
+  for (const dataset of Object.values(datasets)) {
+    buffers.add(dataset.timestamps.buffer as ArrayBuffer);
+    dataset.columns.forEach(column => buffers.add(column.buffer as ArrayBuffer));
+  }
+  return [...buffers];
+}
+
+/**
+ * Default resolver: keep the recorded wall-clock time
+ */
+const keepWallClock: TimestampResolver = wallClock => wallClockToLocalDate(wallClock);
+
+/**
+ * Build glucose readings from a columnar cgm or bg dataset
+ *
+ * @param dataset - Parsed dataset
+ * @param shouldConvertFromMgdl - Whether to convert values from mg/dL to mmol/L
+ * @param resolveTime - Turns wall-clock timestamps into report dates (defaults to the recorded time)
+ * @returns Glucose readings with positive values and valid timestamps
+ */
+export function glucoseReadingsFromDataset(
+  dataset: ColumnarDataset,
+  shouldConvertFromMgdl: boolean = false,
+  resolveTime: TimestampResolver = keepWallClock
+): GlucoseReading[] {
+  const glucoseIndex = findColumnIndex(dataset.columnNames, getColumnVariants('glucoseValue'));
+  const timestampIndex = findColumnIndex(dataset.columnNames, getColumnVariants('timestamp'));
+  if (timestampIndex === -1 || glucoseIndex === -1) {
+    return [];
+  }
+
+  const values = dataset.columns[glucoseIndex];
+  const readings: GlucoseReading[] = [];
+
+  for (let row = 0; row < dataset.rowCount; row++) {
+    const time = dataset.timestamps[row];
+    let value = values[row];
+    if (isNaN(time) || isNaN(value) || value <= 0) continue;
+
+    if (shouldConvertFromMgdl) {
+      value = mgdlToMmol(value);
+    }
+
+    readings.push({ timestamp: resolveTime(time, row), value });
+  }
+
+  return readings;
+}
+
+/**
+ * Build insulin readings from a columnar basal or bolus dataset
+ *
+ * For basal data the dose column holds a rate (U/h); when a duration column
+ * is present the delivered amount is rate × duration.
+ *
+ * @param dataset - Parsed dataset
+ * @param insulinType - The type of insulin ('basal' or 'bolus')
+ * @param resolveTime - Turns wall-clock timestamps into report dates (defaults to the recorded time)
+ * @returns Insulin readings with non-negative doses and valid timestamps
+ */
+export function insulinReadingsFromDataset(
+  dataset: ColumnarDataset,
+  insulinType: 'basal' | 'bolus',
+  resolveTime: TimestampResolver = keepWallClock
+): InsulinReading[] {
+  const timestampIndex = findColumnIndex(dataset.columnNames, getColumnVariants('timestamp'));
+  const doseIndex = findColumnIndex(dataset.columnNames, getColumnVariants('dose'));
+  if (timestampIndex === -1 || doseIndex === -1) {
+    return [];
+  }
+
+  const durationIndex = insulinType === 'basal'
+    ? findColumnIndex(dataset.columnNames, getColumnVariants('duration'))
+    : -1;
+  const doses = dataset.columns[doseIndex];
+  const durations = durationIndex !== -1 ? dataset.columns[durationIndex] : null;
+  const readings: InsulinReading[] = [];
+
+  for (let row = 0; row < dataset.rowCount; row++) {
+    const time = dataset.timestamps[row];
+    let dose = doses[row];
+    if (isNaN(time) || isNaN(dose) || dose < 0) continue;
+
+    const durationMinutes = durations ? durations[row] : NaN;
+    if (!isNaN(durationMinutes) && durationMinutes > 0) {
+      dose = dose * (durationMinutes / 60);
+    }
+
+    readings.push({ timestamp: resolveTime(time, row), dose, insulinType });
+  }
+
+  return readings;
+}
@@ -0,0 +1,146 @@
+/**
+ * Cache of parsed CSV datasets per uploaded ZIP file
+ *
+ * Files parsed by the upload worker are stored here right away. Files that
+ * reach the extractors without it (demo data, files restored from the browser
+ * cache) are parsed on first use and cached, so every ZIP is read only once.
+ * Clock changes found in a file are cached per source time zone as well.
+ */
+
+import JSZip from 'jszip';
+import type { CsvFileMetadata, UploadedFile } from '../../types';
+import {
+  concatColumnarDatasets,
+  parseCsvToColumnarDataset,
+  type ParsedDatasets,
+} from './columnarDataset';
+import {
+  createTimestampResolver,
+  detectClockJumps,
+  getClockJumpSource,
+  type ClockJump,
+  type TimestampResolver,
+} from './clockJumpUtils';
+import { getActiveTimeZoneSettings, resolveSourceTimeZone } from './timezoneUtils';
+
+const datasetCache = new WeakMap<File, Promise<ParsedDatasets>>();
+const clockJumpCache = new WeakMap<ParsedDatasets, Map<string, ClockJump[]>>();
+
+/**
+ * Find the ZIP entries belonging to a dataset
+ *
+ * @param csvFile - Dataset metadata
+ * @param fileNames - All entry names in the ZIP
+ * @returns Entry names, in order
+ */
+export function getDatasetSourceFiles(csvFile: CsvFileMetadata, fileNames: string[]): string[] {
+  if (csvFile.sourceFiles && csvFile.sourceFiles.length > 0) {
+    return csvFile.sourceFiles.filter(name => fileNames.includes(name));
+  }
+
+  // Older metadata without source files - find by pattern
+  const pattern = new RegExp(`${csvFile.name}_data_\\d+\\.csv$`, 'i');
+  const match = fileNames.find(name => pattern.test(name))
+    ?? fileNames.find(name => name.toLowerCase().includes(csvFile.name.toLowerCase()) && name.toLowerCase().endsWith('.csv'));
+  return match ? [match] : [];
+}
+
+/**
+ * Parse every dataset of a ZIP file on the current thread
+ *
+ * @param uploadedFile - The uploaded file with ZIP metadata
+ * @returns Parsed datasets keyed by dataset name
+ */
+async function parseDatasets(uploadedFile: UploadedFile): Promise<ParsedDatasets> {
+  const zip = await JSZip.loadAsync(uploadedFile.file);
+  const fileNames = Object.keys(zip.files);
+  const datasets: ParsedDatasets = {};
+
+  for (const csvFile of uploadedFile.zipMetadata?.csvFiles ?? []) {
+    const parts = [];
+    for (const sourceFile of getDatasetSourceFiles(csvFile, fileNames)) {
+      parts.push(parseCsvToColumnarDataset(await zip.files[sourceFile].async('string')));
+    }
+    if (parts.length > 0) {
+      datasets[csvFile.name] = concatColumnarDatasets(parts);
+    }
+  }
+
+  return datasets;
+}
+
+/**
+ * Store datasets that were parsed elsewhere (e.g. in the upload worker)
+ *
+ * @param file - The ZIP file the datasets belong to
+ * @param datasets - Parsed datasets keyed by dataset name
+ */
+export function cacheParsedDatasets(file: File, datasets: ParsedDatasets): void {
+  datasetCache.set(file, Promise.resolve(datasets));
+}
+
+/**
+ * Get the parsed datasets of an uploaded file, parsing the ZIP on first use
+ *
+ * @param uploadedFile - The uploaded file with ZIP metadata
+ * @returns Promise resolving to parsed datasets keyed by dataset name
+ */
+export function getParsedDatasets(uploadedFile: UploadedFile): Promise<ParsedDatasets> {
+  let datasets = datasetCache.get(uploadedFile.file);
+  if (!datasets) {
+    datasets = parseDatasets(uploadedFile);
+    datasetCache.set(uploadedFile.file, datasets);
+    // Allow a retry when parsing fails
+    datasets.catch(() => datasetCache.delete(uploadedFile.file));
+  }
+  return datasets;
+}
+
+/**
+ * Detect clock changes in parsed datasets
+ *
+ * @param datasets - Parsed datasets of one file
+ * @param timeZone - IANA source time zone of the device
+ * @returns Clock changes found in the CGM (or BG) dataset
+ */
+export function getDatasetClockJumps(datasets: ParsedDatasets, timeZone: string): ClockJump[] {
+  let byTimeZone = clockJumpCache.get(datasets);
+  if (!byTimeZone) {
+    byTimeZone = new Map();
+    clockJumpCache.set(datasets, byTimeZone);
+  }
+
+  let jumps = byTimeZone.get(timeZone);
+  if (!jumps) {
+    const source = getClockJumpSource(datasets);
+    jumps = source ? detectClockJumps(datasets[source].timestamps, timeZone) : [];
+    byTimeZone.set(timeZone, jumps);
+  }
+  return jumps;
+}
+
+/**
+ * Get the clock changes in an uploaded file
+ *
+ * @param uploadedFile - The uploaded file with ZIP metadata
+ * @param timeZone - IANA source time zone of the device
+ * @returns Promise resolving to clock changes in row order
+ */
+export async function getClockJumps(uploadedFile: UploadedFile, timeZone: string): Promise<ClockJump[]> {
+  return getDatasetClockJumps(await getParsedDatasets(uploadedFile), timeZone);
+}
+
+/**
+ * Create the timestamp resolver for one dataset using the active time zone settings
+ *
+ * @param datasets - Parsed datasets of one file
+ * @param datasetName - Dataset the resolver is used for (e.g. 'cgm', 'bolus')
+ * @returns Resolver turning wall-clock timestamps into report dates
+ */
+export function getDatasetTimestampResolver(datasets: ParsedDatasets, datasetName: string): TimestampResolver {
+  const settings = getActiveTimeZoneSettings();
+  const jumps = settings.analysisMode === 'wallClock'
+    ? []
+    : getDatasetClockJumps(datasets, resolveSourceTimeZone(settings.sourceTimeZone));
+  return createTimestampResolver(jumps, settings, getClockJumpSource(datasets) === datasetName);
+}
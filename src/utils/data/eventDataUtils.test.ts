@@ -0,0 +1,380 @@
+/**
+ * Unit tests for carb, exercise, medication and alarm data extraction utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import {
+  extractCarbEntries,
+  extractExerciseSessions,
+  extractMedicationEvents,
+  extractAlarmEvents,
+  parseCarbEntriesFromCSV,
+  parseBolusCarbEntriesFromCSV,
+  parseExerciseSessionsFromCSV,
+  parseMedicationEventsFromCSV,
+  parseAlarmEventsFromCSV,
+} from './eventDataUtils';
+import { cacheParsedDatasets } from './datasetCache';
+import { parseCsvToColumnarDataset } from './columnarDataset';
+import type { UploadedFile } from '../../types';
+
+const METADATA_LINE = 'Name:Test Patient\tDate Range:2025-01-01 - 2025-01-14';
+
+/**
+ * Helper function to create a mock uploaded file with the given CSV files
+ */
+async function createMockUploadedFile(
+  files: Record<string, { datasetName: string; lines: string[] }>
+): Promise<UploadedFile> {
+  const zip = new JSZip();
+  const datasets = new Map<string, string[]>();
+
+  for (const [fileName, { datasetName, lines }] of Object.entries(files)) {
+    zip.file(fileName, [METADATA_LINE, ...lines].join('\n'));
+    datasets.set(datasetName, [...(datasets.get(datasetName) ?? []), fileName]);
+  }
+
+  const blob = await zip.generateAsync({ type: 'blob' });
+  const file = new File([blob], 'test.zip', { type: 'application/zip' });
+
+  return {
+    id: 'test-id',
+    name: 'test.zip',
+    size: blob.size,
+    uploadTime: new Date(),
+    file,
+    zipMetadata: {
+      isValid: true,
+      csvFiles: Array.from(datasets.entries()).map(([name, sourceFiles]) => ({
+        name,
+        rowCount: 0,
+        sourceFiles,
+      })),
+    },
+  };
+}
+
+describe('eventDataUtils', () => {
+  describe('parseCarbEntriesFromCSV', () => {
+    it('should parse English food data', () => {
+      const csv = [
+        METADATA_LINE,
+        'Timestamp\tFood Description\tCarbs (g)\tProtein (g)\tFat (g)',
+        '2025-01-01 08:00:00\tOatmeal\t45\t6\t3',
+        '2025-01-01 12:30:00\tSandwich\t30\t15\t10',
+      ].join('\n');
+
+      const entries = parseCarbEntriesFromCSV(csv);
+
+      expect(entries).toHaveLength(2);
+      expect(entries[0]).toEqual({
+        timestamp: new Date('2025-01-01 08:00:00'),
+        carbs: 45,
+        description: 'Oatmeal',
+        protein: 6,
+        fat: 3,
+        source: 'food',
+      });
+      expect(entries[1].description).toBe('Sandwich');
+    });
+
+    it('should parse German food data', () => {
+      const csv = [
+        METADATA_LINE,
+        'Zeitstempel\tName\tKohlenhydrataufnahme (g)\tEiweiß (g)\tFett (g)',
+        '2025-01-01 08:00:00\tMüsli\t50\t8\t5',
+      ].join('\n');
+
+      const entries = parseCarbEntriesFromCSV(csv);
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0].carbs).toBe(50);
+      expect(entries[0].description).toBe('Müsli');
+      expect(entries[0].protein).toBe(8);
+      expect(entries[0].fat).toBe(5);
+    });
+
+    it('should skip rows without carbs or with invalid timestamps', () => {
+      const csv = [
+        METADATA_LINE,
+        'Timestamp\tCarbs (g)\tFood\tNotes',
+        '2025-01-01 08:00:00\t0\tCoffee\t',
+        'not a date\t20\tApple\t',
+        '2025-01-01 10:00:00\t\tWater\t',
+        '2025-01-01 15:00:00\t20\tApple\t',
+      ].join('\n');
+
+      const entries = parseCarbEntriesFromCSV(csv);
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0].carbs).toBe(20);
+      expect(entries[0].description).toBe('Apple');
+    });
+
+    it('should return empty array when carbs column is missing', () => {
+      const csv = [METADATA_LINE, 'Timestamp\tNotes', '2025-01-01 08:00:00\tTest'].join('\n');
+      expect(parseCarbEntriesFromCSV(csv)).toEqual([]);
+    });
+
+    it('should handle comma-delimited content', () => {
+      const csv = [
+        'Name:Test,Date Range:2025-01-01 - 2025-01-14',
+        'Timestamp,Carbs (g),Food,Notes',
+        '2025-01-01 08:00:00,25,Toast,',
+      ].join('\n');
+
+      const entries = parseCarbEntriesFromCSV(csv);
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0].carbs).toBe(25);
+    });
+  });
+
+  describe('parseBolusCarbEntriesFromCSV', () => {
+    it('should parse carbs from bolus rows and skip correction boluses', () => {
+      const csv = [
+        METADATA_LINE,
+        'Timestamp\tBolus Type\tDose (units)\tCarbs (g)\tNotes',
+        '2025-01-01 07:30:00\tNormal\t4.5\t45\tMeal',
+        '2025-01-01 10:00:00\tNormal\t1.0\t0\tCorrection',
+      ].join('\n');
+
+      const entries = parseBolusCarbEntriesFromCSV(csv);
+
+      expect(entries).toEqual([{
+        timestamp: new Date('2025-01-01 07:30:00'),
+        carbs: 45,
+        source: 'bolus',
+      }]);
+    });
+  });
+
+  describe('parseExerciseSessionsFromCSV', () => {
+    it('should parse activity type, intensity and duration', () => {
+      const csv = [
+        METADATA_LINE,
+        'Timestamp\tActivity Type\tDuration (min)\tIntensity',
+        '2025-01-01 17:00:00\tRunning\t45\tHigh',
+      ].join('\n');
+
+      const sessions = parseExerciseSessionsFromCSV(csv);
+
+      expect(sessions).toEqual([{
+        timestamp: new Date('2025-01-01 17:00:00'),
+        activityType: 'Running',
+        intensity: 'High',
+        durationMinutes: 45,
+      }]);
+    });
+
+    it('should parse German exercise data', () => {
+      const csv = [
+        METADATA_LINE,
+        'Zeitstempel\tName\tDauer (Minuten)\tIntensität',
+        '2025-01-01 17:00:00\tSchwimmen\t30\tMittel',
+      ].join('\n');
+
+      const sessions = parseExerciseSessionsFromCSV(csv);
+
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].activityType).toBe('Schwimmen');
+      expect(sessions[0].intensity).toBe('Mittel');
+      expect(sessions[0].durationMinutes).toBe(30);
+    });
+
+    it('should default activity type to Unknown when missing', () => {
+      const csv = [
+        METADATA_LINE,
+        'Timestamp\tActivity Type\tDuration (min)\tIntensity',
+        '2025-01-01 17:00:00\t\t20\tLow',
+      ].join('\n');
+
+      const sessions = parseExerciseSessionsFromCSV(csv);
+
+      expect(sessions[0].activityType).toBe('Unknown');
+    });
+  });
+
+  describe('parseMedicationEventsFromCSV', () => {
+    it('should parse numeric and textual dosages', () => {
+      const csv = [
+        METADATA_LINE,
+        'Timestamp\tMedication Name\tDosage',
+        '2025-01-01 08:00:00\tMetformin\t500',
+        '2025-01-01 20:00:00\tVitamin D\tone tablet',
+      ].join('\n');
+
+      const events = parseMedicationEventsFromCSV(csv);
+
+      expect(events).toHaveLength(2);
+      expect(events[0]).toEqual({
+        timestamp: new Date('2025-01-01 08:00:00'),
+        medicationName: 'Metformin',
+        dosage: 500,
+        dosageText: '500',
+      });
+      expect(events[1].dosage).toBeUndefined();
+      expect(events[1].dosageText).toBe('one tablet');
+    });
+
+    it('should parse German medication data', () => {
+      const csv = [
+        METADATA_LINE,
+        'Zeitstempel\tName\tWert',
+        '2025-01-01 08:00:00\tMetformin\t850',
+      ].join('\n');
+
+      const events = parseMedicationEventsFromCSV(csv);
+
+      expect(events).toHaveLength(1);
+      expect(events[0].medicationName).toBe('Metformin');
+      expect(events[0].dosage).toBe(850);
+    });
+  });
+
+  describe('parseAlarmEventsFromCSV', () => {
+    it('should parse English alarm data', () => {
+      const csv = [
+        METADATA_LINE,
+        'Timestamp\tAlarm/Event\tSerial Number',
+        '2025-01-01 03:00:00\tLow Glucose\t12345',
+        '2025-01-01 04:00:00\t\t12345',
+      ].join('\n');
+
+      const events = parseAlarmEventsFromCSV(csv);
+
+      expect(events).toEqual([{
+        timestamp: new Date('2025-01-01 03:00:00'),
+        event: 'Low Glucose',
+        serialNumber: '12345',
+      }]);
+    });
+
+    it('should parse German alarm data', () => {
+      const csv = [
+        METADATA_LINE,
+        'Zeitstempel\tAlarm/Ereignis\tSeriennummer',
+        '2025-01-01 03:00:00\tNiedriger Glukosewert\t12345',
+      ].join('\n');
+
+      const events = parseAlarmEventsFromCSV(csv);
+
+      expect(events).toHaveLength(1);
+      expect(events[0].event).toBe('Niedriger Glukosewert');
+      expect(events[0].serialNumber).toBe('12345');
+    });
+  });
+
+  describe('extractors', () => {
+    it('should merge food and carbs datasets sorted by timestamp', async () => {
+      const uploadedFile = await createMockUploadedFile({
+        'food_data_1.csv': {
+          datasetName: 'food',
+          lines: ['Timestamp\tFood Item\tCarbs (g)\tNotes', '2025-01-01 12:00:00\tPasta\t60\t'],
+        },
+        'carbs_data_1.csv': {
+          datasetName: 'carbs',
+          lines: ['Timestamp\tCarbs (g)\tFood\tNotes', '2025-01-01 08:00:00\t30\tToast\t'],
+        },
+      });
+
+      const entries = await extractCarbEntries(uploadedFile);
+
+      expect(entries.map(e => e.description)).toEqual(['Toast', 'Pasta']);
+    });
+
+    it('should include carbs entered with boluses', async () => {
+      const uploadedFile = await createMockUploadedFile({
+        'food_data_1.csv': {
+          datasetName: 'food',
+          lines: ['Timestamp\tFood Item\tCarbs (g)\tNotes', '2025-01-01 12:00:00\tPasta\t60\t'],
+        },
+        'bolus_data_1.csv': {
+          datasetName: 'bolus',
+          lines: ['Timestamp\tBolus Type\tDose (units)\tCarbs (g)\tNotes', '2025-01-01 07:30:00\tNormal\t3\t30\t'],
+        },
+      });
+
+      const entries = await extractCarbEntries(uploadedFile);
+
+      expect(entries.map(e => e.source)).toEqual(['bolus', 'food']);
+    });
+
+    it('should read all source files of a merged dataset', async () => {
+      const uploadedFile = await createMockUploadedFile({
+        'exercise_data_1.csv': {
+          datasetName: 'exercise',
+          lines: ['Timestamp\tExercise Type\tDuration (min)\tIntensity', '2025-01-02 17:00:00\tCycling\t60\tModerate'],
+        },
+        'exercise_data_2.csv': {
+          datasetName: 'exercise',
+          lines: ['Timestamp\tExercise Type\tDuration (min)\tIntensity', '2025-01-01 17:00:00\tWalking\t30\tLow'],
+        },
+      });
+
+      const sessions = await extractExerciseSessions(uploadedFile);
+
+      expect(sessions.map(s => s.activityType)).toEqual(['Walking', 'Cycling']);
+    });
+
+    it('should extract medication and alarm events', async () => {
+      const uploadedFile = await createMockUploadedFile({
+        'medication_data_1.csv': {
+          datasetName: 'medication',
+          lines: ['Timestamp\tMedication\tDose\tNotes', '2025-01-01 08:00:00\tMetformin\t500\t'],
+        },
+        'alarms_data_1.csv': {
+          datasetName: 'alarms',
+          lines: ['Timestamp\tAlarm Type\tDuration\tNotes', '2025-01-01 03:00:00\tUrgent Low\t\t'],
+        },
+      });
+
+      const medications = await extractMedicationEvents(uploadedFile);
+      const alarms = await extractAlarmEvents(uploadedFile);
+
+      expect(medications).toHaveLength(1);
+      expect(medications[0].medicationName).toBe('Metformin');
+      expect(medications[0].dosage).toBe(500);
+      expect(alarms).toHaveLength(1);
+      expect(alarms[0].event).toBe('Urgent Low');
+    });
+
+    it('should read the datasets parsed by the upload worker without loading the ZIP', async () => {
+      const uploadedFile = await createMockUploadedFile({});
+      uploadedFile.file = new File(['not a zip'], 'test.zip', { type: 'application/zip' });
+      uploadedFile.zipMetadata = { isValid: true, csvFiles: [{ name: 'food', rowCount: 1 }] };
+      cacheParsedDatasets(uploadedFile.file, {
+        food: parseCsvToColumnarDataset([
+          METADATA_LINE,
+          'Timestamp\tFood Item\tCarbs (g)',
+          '2025-01-01 12:00:00\tPasta\t60',
+        ].join('\n')),
+      });
+
+      const entries = await extractCarbEntries(uploadedFile);
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ description: 'Pasta', carbs: 60, source: 'food' });
+    });
+
+    it('should return empty array when the dataset is not present', async () => {
+      const uploadedFile = await createMockUploadedFile({
+        'cgm_data_1.csv': {
+          datasetName: 'cgm',
+          lines: ['Timestamp\tGlucose Value (mmol/L)', '2025-01-01 08:00:00\t5.5'],
+        },
+      });
+
+      expect(await extractCarbEntries(uploadedFile)).toEqual([]);
+      expect(await extractExerciseSessions(uploadedFile)).toEqual([]);
+    });
+
+    it('should throw for invalid ZIP metadata', async () => {
+      const uploadedFile = await createMockUploadedFile({});
+      uploadedFile.zipMetadata = { isValid: false, csvFiles: [] };
+
+      await expect(extractAlarmEvents(uploadedFile)).rejects.toThrow('Invalid ZIP file');
+    });
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Utility functions for extracting carb, exercise, medication and alarm data from Glooko ZIP files
+ */
+
+import type {
+  UploadedFile,
+  CarbEntry,
+  ExerciseSession,
+  MedicationEvent,
+  AlarmEvent,
+} from '../../types';
+import { findColumnIndex, getColumnVariants } from './columnMapper';
+import { getCellText, parseCsvToColumnarDataset, type ColumnarDataset } from './columnarDataset';
+import { getDatasetTimestampResolver, getParsedDatasets } from './datasetCache';
+import { wallClockToLocalDate } from './timezoneUtils';
+import type { TimestampResolver } from './clockJumpUtils';
+
+/**
+ * Dataset names that contain food/carb entries
+ */
+const FOOD_DATASETS = ['food', 'carbs'];
+
+/**
+ * Dataset names whose carbs column holds carbs entered with a bolus
+ */
+const BOLUS_DATASETS = ['bolus'];
+
+/**
+ * Dataset names that contain exercise sessions
+ */
+const EXERCISE_DATASETS = ['exercise'];
+
+/**
+ * Dataset names that contain medication events
+ */
+const MEDICATION_DATASETS = ['medication'];
+
+/**
+ * Dataset names that contain alarm/device events
+ */
+const ALARM_DATASETS = ['alarms', 'alarm'];
+
+/**
+ * Default resolver for the CSV parsers: keep the recorded wall-clock time
+ */
+const keepWallClock: TimestampResolver = wallClock => wallClockToLocalDate(wallClock);
+
+/**
+ * Read an optional non-negative numeric cell
+ *
+ * @param dataset - Parsed dataset
+ * @param index - Column index (-1 when the column does not exist)
+ * @param row - Row index
+ * @returns Cell number, or undefined when missing or invalid
+ */
+function readOptionalNumber(dataset: ColumnarDataset, index: number, row: number): number | undefined {
+  if (index === -1) return undefined;
+  const num = dataset.columns[index][row];
+  return isNaN(num) || num < 0 ? undefined : num;
+}
+
+/**
+ * Read an optional text cell
+ *
+ * @param dataset - Parsed dataset
+ * @param index - Column index (-1 when the column does not exist)
+ * @param row - Row index
+ * @returns Cell text, or undefined when missing or empty
+ */
+function readOptionalText(dataset: ColumnarDataset, index: number, row: number): string | undefined {
+  if (index === -1) return undefined;
+  return getCellText(dataset, index, row) || undefined;
+}
+
+/**
+ * Build carb entries from a food dataset
+ *
+ * @param dataset - Parsed dataset
+ * @param resolveTime - Turns wall-clock timestamps into report dates
+ * @returns Array of carb entries (entries without carbs are skipped)
+ */
+function carbEntriesFromDataset(dataset: ColumnarDataset, resolveTime: TimestampResolver): CarbEntry[] {
+  const timestampIndex = findColumnIndex(dataset.columnNames, getColumnVariants('timestamp'));
+  const carbsIndex = findColumnIndex(dataset.columnNames, getColumnVariants('carbs'));
+  const descriptionIndex = findColumnIndex(dataset.columnNames, getColumnVariants('foodDescription'));
+  const proteinIndex = findColumnIndex(dataset.columnNames, getColumnVariants('protein'));
+  const fatIndex = findColumnIndex(dataset.columnNames, getColumnVariants('fat'));
+
+  if (timestampIndex === -1 || carbsIndex === -1) {
+    return [];
+  }
+
+  const entries: CarbEntry[] = [];
+
+  for (let row = 0; row < dataset.rowCount; row++) {
+    const time = dataset.timestamps[row];
+    if (isNaN(time)) continue;
+
+    const carbs = readOptionalNumber(dataset, carbsIndex, row);
+    if (carbs === undefined || carbs === 0) continue;
+
+    entries.push({
+      timestamp: resolveTime(time, row),
+      carbs,
+      description: readOptionalText(dataset, descriptionIndex, row),
+      protein: readOptionalNumber(dataset, proteinIndex, row),
+      fat: readOptionalNumber(dataset, fatIndex, row),
+      source: 'food',
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Build carb entries from the carbs column of a bolus dataset
+ * Boluses delivered without carbs (e.g., corrections) are skipped
+ *
+ * @param dataset - Parsed dataset
+ * @param resolveTime - Turns wall-clock timestamps into report dates
+ * @returns Array of carb entries with source 'bolus'
+ */
+function bolusCarbEntriesFromDataset(dataset: ColumnarDataset, resolveTime: TimestampResolver): CarbEntry[] {
+  const timestampIndex = findColumnIndex(dataset.columnNames, getColumnVariants('timestamp'));
+  const carbsIndex = findColumnIndex(dataset.columnNames, getColumnVariants('carbs'));
+
+  if (timestampIndex === -1 || carbsIndex === -1) {
+    return [];
+  }
+
+  const entries: CarbEntry[] = [];
+
+  for (let row = 0; row < dataset.rowCount; row++) {
+    const time = dataset.timestamps[row];
+    if (isNaN(time)) continue;
+
+    const carbs = readOptionalNumber(dataset, carbsIndex, row);
+    if (carbs === undefined || carbs === 0) continue;
+
+    entries.push({ timestamp: resolveTime(time, row), carbs, source: 'bolus' });
+  }
+
+  return entries;
+}
+
+/**
+ * Build exercise sessions from an exercise dataset
+ *
+ * @param dataset - Parsed dataset
+ * @param resolveTime - Turns wall-clock timestamps into report dates
+ * @returns Array of exercise sessions
+ */
+function exerciseSessionsFromDataset(dataset: ColumnarDataset, resolveTime: TimestampResolver): ExerciseSession[] {
+  const timestampIndex = findColumnIndex(dataset.columnNames, getColumnVariants('timestamp'));
+  const activityIndex = findColumnIndex(dataset.columnNames, getColumnVariants('activityType'));
+  const intensityIndex = findColumnIndex(dataset.columnNames, getColumnVariants('intensity'));
+  const durationIndex = findColumnIndex(dataset.columnNames, getColumnVariants('duration'));
+
+  if (timestampIndex === -1) {
+    return [];
+  }
+
+  const sessions: ExerciseSession[] = [];
+
+  for (let row = 0; row < dataset.rowCount; row++) {
+    const time = dataset.timestamps[row];
+    if (isNaN(time)) continue;
+
+    sessions.push({
+      timestamp: resolveTime(time, row),
+      activityType: readOptionalText(dataset, activityIndex, row) ?? 'Unknown',
+      intensity: readOptionalText(dataset, intensityIndex, row),
+      durationMinutes: readOptionalNumber(dataset, durationIndex, row),
+    });
+  }
+
+  return sessions;
+}
+
+/**
+ * Build medication events from a medication dataset
+ *
+ * @param dataset - Parsed dataset
+ * @param resolveTime - Turns wall-clock timestamps into report dates
+ * @returns Array of medication events (rows without a medication name are skipped)
+ */
+function medicationEventsFromDataset(dataset: ColumnarDataset, resolveTime: TimestampResolver): MedicationEvent[] {
+  const timestampIndex = findColumnIndex(dataset.columnNames, getColumnVariants('timestamp'));
+  const nameIndex = findColumnIndex(dataset.columnNames, getColumnVariants('medicationName'));
+  const dosageIndex = findColumnIndex(dataset.columnNames, getColumnVariants('dosage'));
+
+  if (timestampIndex === -1 || nameIndex === -1) {
+    return [];
+  }
+
+  const events: MedicationEvent[] = [];
+
+  for (let row = 0; row < dataset.rowCount; row++) {
+    const time = dataset.timestamps[row];
+    if (isNaN(time)) continue;
+
+    const medicationName = readOptionalText(dataset, nameIndex, row);
+    if (!medicationName) continue;
+
+    events.push({
+      timestamp: resolveTime(time, row),
+      medicationName,
+      dosage: readOptionalNumber(dataset, dosageIndex, row),
+      dosageText: readOptionalText(dataset, dosageIndex, row),
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Build alarm events from an alarms dataset
+ *
+ * @param dataset - Parsed dataset
+ * @param resolveTime - Turns wall-clock timestamps into report dates
+ * @returns Array of alarm events (rows without an event name are skipped)
+ */
+function alarmEventsFromDataset(dataset: ColumnarDataset, resolveTime: TimestampResolver): AlarmEvent[] {
+  const timestampIndex = findColumnIndex(dataset.columnNames, getColumnVariants('timestamp'));
+  const eventIndex = findColumnIndex(dataset.columnNames, getColumnVariants('alarmEvent'));
+  const serialIndex = findColumnIndex(dataset.columnNames, getColumnVariants('serialNumber'));
+
+  if (timestampIndex === -1 || eventIndex === -1) {
+    return [];
+  }
+
+  const events: AlarmEvent[] = [];
+
+  for (let row = 0; row < dataset.rowCount; row++) {
+    const time = dataset.timestamps[row];
+    if (isNaN(time)) continue;
+
+    const event = readOptionalText(dataset, eventIndex, row);
+    if (!event) continue;
+
+    events.push({
+      timestamp: resolveTime(time, row),
+      event,
+      serialNumber: readOptionalText(dataset, serialIndex, row),
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Parse carb entries from food dataset CSV content
+ *
+ * @param csvContent - The CSV file content as string
+ * @returns Array of carb entries (entries without carbs are skipped)
+ */
+export function parseCarbEntriesFromCSV(csvContent: string): CarbEntry[] {
+  return carbEntriesFromDataset(parseCsvToColumnarDataset(csvContent), keepWallClock);
+}
+
+/**
+ * Parse carb entries from the carbs column of bolus dataset CSV content
+ * Boluses delivered without carbs (e.g., corrections) are skipped
+ *
+ * @param csvContent - The CSV file content as string
+ * @returns Array of carb entries with source 'bolus'
+ */
+export function parseBolusCarbEntriesFromCSV(csvContent: string): CarbEntry[] {
+  return bolusCarbEntriesFromDataset(parseCsvToColumnarDataset(csvContent), keepWallClock);
+}
+
+/**
+ * Parse exercise sessions from exercise dataset CSV content
+ *
+ * @param csvContent - The CSV file content as string
+ * @returns Array of exercise sessions
+ */
+export function parseExerciseSessionsFromCSV(csvContent: string): ExerciseSession[] {
+  return exerciseSessionsFromDataset(parseCsvToColumnarDataset(csvContent), keepWallClock);
+}
+
+/**
+ * Parse medication events from medication dataset CSV content
+ *
+ * @param csvContent - The CSV file content as string
+ * @returns Array of medication events (rows without a medication name are skipped)
+ */
+export function parseMedicationEventsFromCSV(csvContent: string): MedicationEvent[] {
+  return medicationEventsFromDataset(parseCsvToColumnarDataset(csvContent), keepWallClock);
+}
+
+/**
+ * Parse alarm events from alarms dataset CSV content
+ *
+ * @param csvContent - The CSV file content as string
+ * @returns Array of alarm events (rows without an event name are skipped)
+ */
+export function parseAlarmEventsFromCSV(csvContent: string): AlarmEvent[] {
+  return alarmEventsFromDataset(parseCsvToColumnarDataset(csvContent), keepWallClock);
+}
+
+/**
+ * Build items from the parsed datasets with the given names
+ * Datasets are parsed once per ZIP and shared by all reports
+ *
+ * @param uploadedFile - The uploaded file with ZIP metadata
+ * @param datasetNames - Dataset names to read (e.g., ['food', 'carbs'])
+ * @param fromDataset - Builds the items of one dataset
+ * @returns Promise resolving to items sorted by timestamp
+ */
+async function extractFromDatasets<T extends { timestamp: Date }>(
+  uploadedFile: UploadedFile,
+  datasetNames: string[],
+  fromDataset: (dataset: ColumnarDataset, resolveTime: TimestampResolver) => T[]
+): Promise<T[]> {
+  if (!uploadedFile.zipMetadata || !uploadedFile.zipMetadata.isValid) {
+    throw new Error('Invalid ZIP file');
+  }
+
+  if (!uploadedFile.zipMetadata.csvFiles.some(f => datasetNames.includes(f.name))) {
+    return [];
+  }
+
+  const datasets = await getParsedDatasets(uploadedFile);
+
+  const items = datasetNames
+    .filter(name => datasets[name])
+    // Apply the time zone settings (e.g. undo travel clock changes)
+    .flatMap(name => fromDataset(datasets[name], getDatasetTimestampResolver(datasets, name)));
+
+  return items.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Extract carb entries from the food datasets and the bolus carbs column of an uploaded file
+ * The same meal may appear in both sources; use the entry `source` to tell them apart
+ *
+ * @param uploadedFile - The uploaded file with ZIP metadata
+ * @returns Promise resolving to array of carb entries sorted by timestamp
+ */
+export async function extractCarbEntries(uploadedFile: UploadedFile): Promise<CarbEntry[]> {
+  const foodEntries = await extractFromDatasets(uploadedFile, FOOD_DATASETS, carbEntriesFromDataset);
+  const bolusEntries = await extractFromDatasets(uploadedFile, BOLUS_DATASETS, bolusCarbEntriesFromDataset);
+  return [...foodEntries, ...bolusEntries].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Extract exercise sessions from an uploaded file
+ *
+ * @param uploadedFile - The uploaded file with ZIP metadata
+ * @returns Promise resolving to array of exercise sessions sorted by timestamp
+ */
+export async function extractExerciseSessions(uploadedFile: UploadedFile): Promise<ExerciseSession[]> {
+  return extractFromDatasets(uploadedFile, EXERCISE_DATASETS, exerciseSessionsFromDataset);
+}
+
+/**
+ * Extract medication events from an uploaded file
+ *
+ * @param uploadedFile - The uploaded file with ZIP metadata
+ * @returns Promise resolving to array of medication events sorted by timestamp
+ */
+export async function extractMedicationEvents(uploadedFile: UploadedFile): Promise<MedicationEvent[]> {
+  return extractFromDatasets(uploadedFile, MEDICATION_DATASETS, medicationEventsFromDataset);
+}
+
+/**
+ * Extract alarm events from an uploaded file
+ *
+ * @param uploadedFile - The uploaded file with ZIP metadata
+ * @returns Promise resolving to array of alarm events sorted by timestamp
+ */
+export async function extractAlarmEvents(uploadedFile: UploadedFile): Promise<AlarmEvent[]> {
+  return extractFromDatasets(uploadedFile, ALARM_DATASETS, alarmEventsFromDataset);
+}
@@ -0,0 +1,104 @@
+/**
+ * Tests for exercise impact analysis utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeExerciseImpact,
+  groupExerciseImpact,
+  UNSPECIFIED_INTENSITY,
+} from './exerciseImpactUtils';
+import type { ExerciseSession, GlucoseReading, GlucoseThresholds, InsulinReading } from '../../types';
+
+const MINUTE = 60 * 1000;
+const START = new Date(2024, 0, 15, 6, 0);
+
+const thresholds: GlucoseThresholds = {
+  veryHigh: 13.9,
+  high: 10.0,
+  low: 3.9,
+  veryLow: 3.0,
+};
+
+// Readings every 5 minutes from START, with the value given by minutes from start
+function createReadings(hours: number, valueAt: (minutes: number) => number): GlucoseReading[] {
+  const readings: GlucoseReading[] = [];
+  for (let m = 0; m < hours * 60; m += 5) {
+    readings.push({ timestamp: new Date(START.getTime() + m * MINUTE), value: valueAt(m) });
+  }
+  return readings;
+}
+
+function session(minutesFromStart: number, activityType: string, intensity?: string, durationMinutes?: number): ExerciseSession {
+  return { timestamp: new Date(START.getTime() + minutesFromStart * MINUTE), activityType, intensity, durationMinutes };
+}
+
+describe('exerciseImpactUtils', () => {
+  describe('analyzeExerciseImpact', () => {
+    it('should measure the glucose drop and IOB at the start', () => {
+      // Falls 0.1 mmol/L per 5 minutes during a 60-minute run starting at 08:00
+      const readings = createReadings(6, m => (m < 120 ? 8.0 : m <= 180 ? 8.0 - (m - 120) * 0.02 : 6.8));
+      const insulin: InsulinReading[] = [
+        { timestamp: new Date(START.getTime() + 60 * MINUTE), dose: 4, insulinType: 'bolus' },
+        { timestamp: new Date(START.getTime() + 60 * MINUTE), dose: 1, insulinType: 'basal' },
+      ];
+
+      const [impact] = analyzeExerciseImpact([session(120, 'Running', 'High', 60)], readings, insulin, thresholds);
+
+      expect(impact.startGlucose).toBe(8.0);
+      expect(impact.minGlucoseDuring).toBeCloseTo(6.8, 5);
+      expect(impact.glucoseDrop).toBe(1.2);
+      // One hour into a 5-hour linear decay
+      expect(impact.iobAtStart).toBe(3.2);
+      expect(impact.hypoDuring).toBe(false);
+      expect(impact.delayedHypo).toBeNull();
+    });
+
+    it('should find a delayed hypo within 24 hours after the session', () => {
+      // Low from 14:00 to 14:30
+      const readings = createReadings(12, m => (m >= 480 && m < 510 ? 3.4 : 6.0));
+
+      const [impact] = analyzeExerciseImpact([session(60, 'Cycling', 'Moderate', 60)], readings, [], thresholds);
+
+      expect(impact.delayedHypo).not.toBeNull();
+      expect(impact.hoursToDelayedHypo).toBe(6);
+      expect(impact.hypoDuring).toBe(false);
+    });
+
+    it('should detect a hypo during the session', () => {
+      const readings = createReadings(4, m => (m >= 90 && m < 120 ? 3.5 : 6.0));
+
+      const [impact] = analyzeExerciseImpact([session(60, 'Running', undefined, 90)], readings, [], thresholds);
+
+      expect(impact.hypoDuring).toBe(true);
+      expect(impact.delayedHypo).toBeNull();
+    });
+
+    it('should skip sessions without glucose near the start', () => {
+      const readings = createReadings(2, () => 6.0);
+
+      expect(analyzeExerciseImpact([session(300, 'Swimming')], readings, [], thresholds)).toHaveLength(0);
+    });
+  });
+
+  describe('groupExerciseImpact', () => {
+    it('should group by activity type and intensity', () => {
+      const readings = createReadings(10, m => 8.0 - (m % 60) * 0.01);
+      const impacts = analyzeExerciseImpact([
+        session(0, 'Running', 'High'),
+        session(120, 'Running', 'High'),
+        session(240, 'Running'),
+        session(360, 'Walking', 'Low'),
+      ], readings, [], thresholds);
+
+      const groups = groupExerciseImpact(impacts);
+
+      expect(groups.map(g => [g.activityType, g.intensity, g.sessionCount])).toEqual([
+        ['Running', 'High', 2],
+        ['Running', UNSPECIFIED_INTENSITY, 1],
+        ['Walking', 'Low', 1],
+      ]);
+      expect(groups[0].meanGlucoseDrop).toBe(0.3);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Utility functions for analyzing the glucose impact of logged exercise
+ *
+ * Glucose and bolus IOB are aligned around each exercise session:
+ * - Start glucose: the CGM reading closest to the start (within 15 minutes)
+ * - Drop: start glucose minus the lowest reading until the end of the session
+ * - IOB at start: remaining bolus insulin when the session began
+ * - Hypo during: a hypo starting between the start and end of the session
+ * - Delayed hypo: the first hypo starting within 24 hours after the end
+ *
+ * Sessions logged without a duration are assumed to last 30 minutes.
+ */
+
+import type { ExerciseSession, GlucoseReading, GlucoseThresholds, InsulinModelSettings, InsulinReading } from '../../types';
+import { calculateHypoStats, EXERCISE_HYPO_WINDOW_HOURS, getExerciseEndTime, type HypoPeriod } from './hypoDataUtils';
+import { calculateIOB } from './insulinDataUtils';
+import { DEFAULT_INSULIN_MODEL_SETTINGS } from './insulinModelUtils';
+
+/**
+ * Maximum distance between the session start and the reading used as start glucose (minutes)
+ */
+export const EXERCISE_START_READING_TOLERANCE_MINUTES = 15;
+
+/**
+ * Label used for sessions logged without an intensity
+ */
+export const UNSPECIFIED_INTENSITY = 'Unspecified';
+
+/**
+ * Glucose and insulin context of a single exercise session
+ */
+export interface ExerciseImpact {
+  session: ExerciseSession;
+  /** End of the session (start plus logged or default duration) */
+  endTime: Date;
+  /** Glucose at the start in mmol/L */
+  startGlucose: number;
+  /** Lowest glucose between start and end in mmol/L */
+  minGlucoseDuring: number;
+  /** Start glucose minus the lowest glucose during the session in mmol/L (positive for a drop) */
+  glucoseDrop: number;
+  /** Bolus insulin on board at the start in units */
+  iobAtStart: number;
+  /** Whether a hypo started during the session */
+  hypoDuring: boolean;
+  /** First hypo starting within 24 hours after the end, if any */
+  delayedHypo: HypoPeriod | null;
+  /** Hours from the end of the session to the delayed hypo */
+  hoursToDelayedHypo: number | null;
+}
+
+/**
+ * Exercise impact aggregated by activity type and intensity
+ */
+export interface ExerciseImpactGroup {
+  activityType: string;
+  intensity: string;
+  sessionCount: number;
+  /** Mean glucose drop during the sessions in mmol/L */
+  meanGlucoseDrop: number;
+  /** Mean bolus IOB at the start in units */
+  meanIobAtStart: number;
+  /** Sessions with a hypo during exercise */
+  hypoDuringCount: number;
+  /** Sessions followed by a hypo within 24 hours */
+  delayedHypoCount: number;
+}
+
+/**
+ * Options for exercise impact analysis
+ */
+export interface ExerciseImpactOptions {
+  /** Insulin action duration in hours for IOB (default 5) */
+  insulinDuration?: number;
+  /** Insulin activity model for IOB */
+  insulinModel?: InsulinModelSettings;
+}
+
+/**
+ * Analyze the glucose impact of each exercise session
+ *
+ * Sessions without a CGM reading near their start are skipped.
+ *
+ * @param sessions - Logged exercise sessions
+ * @param readings - CGM readings (any order)
+ * @param insulinReadings - Insulin readings; only boluses count towards IOB
+ * @param thresholds - Glucose thresholds (low and veryLow are used for hypo detection)
+ * @param options - IOB settings
+ * @returns Impact per session, sorted by session start
+ */
+export function analyzeExerciseImpact(
+  sessions: ExerciseSession[],
+  readings: GlucoseReading[],
+  insulinReadings: InsulinReading[],
+  thresholds: GlucoseThresholds,
+  options: ExerciseImpactOptions = {}
+): ExerciseImpact[] {
+  const { insulinDuration = 5, insulinModel = DEFAULT_INSULIN_MODEL_SETTINGS } = options;
+  const sortedReadings = [...readings].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const sortedSessions = [...sessions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const boluses = insulinReadings.filter(r => r.insulinType === 'bolus');
+  const hypos = calculateHypoStats(sortedReadings, thresholds).hypoPeriods;
+  const toleranceMs = EXERCISE_START_READING_TOLERANCE_MINUTES * 60 * 1000;
+  const windowMs = EXERCISE_HYPO_WINDOW_HOURS * 60 * 60 * 1000;
+
+  const impacts: ExerciseImpact[] = [];
+
+  for (const session of sortedSessions) {
+    const start = session.timestamp.getTime();
+    const endTime = getExerciseEndTime(session);
+    const end = endTime.getTime();
+
+    // Closest reading to the start
+    let startReading: GlucoseReading | null = null;
+    for (const reading of sortedReadings) {
+      const distance = Math.abs(reading.timestamp.getTime() - start);
+      if (distance <= toleranceMs && (!startReading || distance < Math.abs(startReading.timestamp.getTime() - start))) {
+        startReading = reading;
+      }
+    }
+    if (!startReading) continue;
+
+    const during = sortedReadings.filter(r => r.timestamp.getTime() >= start && r.timestamp.getTime() <= end);
+    const minGlucoseDuring = Math.min(startReading.value, ...during.map(r => r.value));
+
+    const delayedHypo = hypos.find(h => h.startTime.getTime() > end && h.startTime.getTime() - end <= windowMs) ?? null;
+
+    impacts.push({
+      session,
+      endTime,
+      startGlucose: startReading.value,
+      minGlucoseDuring,
+      glucoseDrop: Math.round((startReading.value - minGlucoseDuring) * 10) / 10,
+      iobAtStart: calculateIOB(boluses, session.timestamp, insulinDuration, insulinModel),
+      hypoDuring: hypos.some(h => h.startTime.getTime() >= start && h.startTime.getTime() <= end),
+      delayedHypo,
+      hoursToDelayedHypo: delayedHypo ? Math.round(((delayedHypo.startTime.getTime() - end) / (60 * 60 * 1000)) * 10) / 10 : null,
+    });
+  }
+
+  return impacts;
+}
+
+/**
+ * Group exercise impact by activity type and intensity
+ *
+ * @param impacts - Impact per session
+ * @returns One group per activity type and intensity, most frequent first
+ */
+export function groupExerciseImpact(impacts: ExerciseImpact[]): ExerciseImpactGroup[] {
+  const groups = new Map<string, ExerciseImpact[]>();
+
+  for (const impact of impacts) {
+    const intensity = impact.session.intensity ?? UNSPECIFIED_INTENSITY;
+    const key = `${impact.session.activityType}|${intensity}`;
+    const group = groups.get(key) ?? [];
+    group.push(impact);
+    groups.set(key, group);
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  return Array.from(groups.values())
+    .map(group => ({
+      activityType: group[0].session.activityType,
+      intensity: group[0].session.intensity ?? UNSPECIFIED_INTENSITY,
+      sessionCount: group.length,
+      meanGlucoseDrop: Math.round(mean(group.map(i => i.glucoseDrop)) * 10) / 10,
+      meanIobAtStart: Math.round(mean(group.map(i => i.iobAtStart)) * 100) / 100,
+      hypoDuringCount: group.filter(i => i.hypoDuring).length,
+      delayedHypoCount: group.filter(i => i.delayedHypo !== null).length,
+    }))
+    .sort((a, b) => b.sessionCount - a.sessionCount || a.activityType.localeCompare(b.activityType));
+}
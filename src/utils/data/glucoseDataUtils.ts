@@ -2,96 +2,9 @@
  * Utility functions for extracting glucose data from Glooko ZIP files
  */
 
-import JSZip from 'jszip';
 import type { UploadedFile, GlucoseReading, GlucoseDataSource } from '../../types';
-import { mgdlToMmol } from './glucoseUnitUtils';
-import { findColumnIndex, getColumnVariants } from './columnMapper';
-
-/**
- * Parse glucose readings from CSV content
- * 
- * @param csvContent - The CSV file content as string
- * @param delimiter - The delimiter used in the CSV (tab or comma)
- * @param shouldConvertFromMgdl - Whether to convert values from mg/dL to mmol/L
- * @returns Array of glucose readings
- */
-function parseGlucoseReadingsFromCSV(
-  csvContent: string, 
-  delimiter: string = '\t',
-  shouldConvertFromMgdl: boolean = false
-): GlucoseReading[] {
-  const lines = csvContent.trim().split('\n');
-  
-  if (lines.length < 2) {
-    return [];
-  }
-
-  // Line 0: metadata, Line 1: headers, Lines 2+: data
-  const headerLine = lines[1];
-  const headers = headerLine.split(delimiter).map(h => h.trim());
-  
-  // Find timestamp and glucose value column indices (supports both English and German)
-  const timestampIndex = findColumnIndex(headers, getColumnVariants('timestamp'));
-  const glucoseIndex = findColumnIndex(headers, getColumnVariants('glucoseValue'));
-
-  if (timestampIndex === -1 || glucoseIndex === -1) {
-    return [];
-  }
-
-  const readings: GlucoseReading[] = [];
-
-  // Process data rows (starting from line 2)
-  for (let i = 2; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    const values = line.split(delimiter);
-    
-    const timestampStr = values[timestampIndex]?.trim();
-    const glucoseStr = values[glucoseIndex]?.trim();
-
-    if (!timestampStr || !glucoseStr) continue;
-
-    // Parse timestamp
-    const timestamp = new Date(timestampStr);
-    if (isNaN(timestamp.getTime())) continue;
-
-    // Parse glucose value
-    let value = parseFloat(glucoseStr);
-    if (isNaN(value) || value <= 0) continue;
-
-    // Convert from mg/dL to mmol/L if needed
-    if (shouldConvertFromMgdl) {
-      value = mgdlToMmol(value);
-    }
-
-    readings.push({ timestamp, value });
-  }
-
-  return readings;
-}
-
-/**
- * Detect the delimiter used in CSV content
- * 
- * @param csvContent - The CSV file content as string
- * @returns The detected delimiter (tab or comma)
- */
-function detectDelimiter(csvContent: string): string {
-  const lines = csvContent.trim().split('\n');
-  
-  if (lines.length < 2) {
-    return '\t';
-  }
-  
-  // Check the header line (line 1) for delimiters
-  const headerLine = lines[1];
-  
-  const tabCount = (headerLine.match(/\t/g) || []).length;
-  const commaCount = (headerLine.match(/,/g) || []).length;
-  
-  return commaCount > tabCount ? ',' : '\t';
-}
+import { glucoseReadingsFromDataset } from './columnarDataset';
+import { getDatasetTimestampResolver, getParsedDatasets } from './datasetCache';
 
 /**
  * Extract glucose readings from uploaded file
@@ -119,55 +32,13 @@ export async function extractGlucoseReadings(
   // Determine if we need to convert from mg/dL to mmol/L
   const shouldConvertFromMgdl = csvFile.glucoseUnit === 'mg/dL';
 
-  // Load the ZIP file
-  const zip = await JSZip.loadAsync(uploadedFile.file);
-
-  let allReadings: GlucoseReading[] = [];
+  // Datasets are parsed once per ZIP and shared by all reports
+  const datasets = await getParsedDatasets(uploadedFile);
+  const dataset = datasets[datasetName];
 
-  // Handle multiple source files (merged datasets)
-  if (csvFile.sourceFiles && csvFile.sourceFiles.length > 0) {
-    for (const sourceFileName of csvFile.sourceFiles) {
-      const fileData = zip.files[sourceFileName];
-      if (fileData) {
-        const content = await fileData.async('string');
-        const delimiter = detectDelimiter(content);
-        const readings = parseGlucoseReadingsFromCSV(content, delimiter, shouldConvertFromMgdl);
-        allReadings = allReadings.concat(readings);
-      }
-    }
-  } else {
-    // Single file dataset - find by pattern
-    const fileName = findCSVFileName(Object.keys(zip.files), datasetName);
-    if (fileName) {
-      const fileData = zip.files[fileName];
-      const content = await fileData.async('string');
-      const delimiter = detectDelimiter(content);
-      allReadings = parseGlucoseReadingsFromCSV(content, delimiter, shouldConvertFromMgdl);
-    }
-  }
-
-  return allReadings;
-}
-
-/**
- * Find CSV file name in ZIP that matches the dataset name
- * 
- * @param fileNames - Array of file names in the ZIP
- * @param datasetName - The dataset name to find
- * @returns The matching file name or undefined
- */
-function findCSVFileName(fileNames: string[], datasetName: string): string | undefined {
-  // Look for exact match first (e.g., "bg_data_1.csv" for "bg")
-  const pattern = new RegExp(`${datasetName}_data_\\d+\\.csv$`, 'i');
-  const match = fileNames.find(name => pattern.test(name));
-  
-  if (match) return match;
-  
-  // Fallback: look for any file containing the dataset name
-  return fileNames.find(name => 
-    name.toLowerCase().includes(datasetName.toLowerCase()) && 
-    name.toLowerCase().endsWith('.csv')
-  );
+  return dataset
+    ? glucoseReadingsFromDataset(dataset, shouldConvertFromMgdl, getDatasetTimestampResolver(datasets, datasetName))
+    : [];
 }
 
 /**
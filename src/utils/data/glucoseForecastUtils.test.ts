@@ -0,0 +1,178 @@
+/**
+ * Tests for carbs on board and glucose forecast utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateCOB,
+  calculateGlucoseForecast,
+  detectForecastDeviations,
+  estimateForecastSensitivity,
+  DEFAULT_FORECAST_ICR,
+  DEFAULT_FORECAST_ISF,
+  type ForecastSensitivity,
+  type GlucoseForecastPoint,
+} from './glucoseForecastUtils';
+import { groupCarbEntriesIntoMeals } from './mealDataUtils';
+import type { CarbEntry, GlucoseReading, InsulinReading } from '../../types';
+
+const BASE_DATE = new Date('2024-01-15T08:00:00');
+const MINUTE = 60 * 1000;
+
+const SENSITIVITY: ForecastSensitivity = { isf: 2, icr: 10, csf: 0.2, source: 'estimated' };
+
+function at(minutesFromStart: number): Date {
+  return new Date(BASE_DATE.getTime() + minutesFromStart * MINUTE);
+}
+
+function bolus(minutesFromStart: number, dose: number): InsulinReading {
+  return { timestamp: at(minutesFromStart), dose, insulinType: 'bolus' };
+}
+
+function carbs(minutesFromStart: number, grams: number): CarbEntry {
+  return { timestamp: at(minutesFromStart), carbs: grams, source: 'food' };
+}
+
+// Readings every 5 minutes with a constant value
+function createFlatReadings(startMinutes: number, endMinutes: number, value: number): GlucoseReading[] {
+  const readings: GlucoseReading[] = [];
+  for (let m = startMinutes; m <= endMinutes; m += 5) {
+    readings.push({ timestamp: at(m), value });
+  }
+  return readings;
+}
+
+// Forecast points every 5 minutes predicting 6.0, with the actual value raised in the given ranges
+function createPoints(raised: Array<[from: number, to: number]>): GlucoseForecastPoint[] {
+  const points: GlucoseForecastPoint[] = [];
+  for (let m = 0; m <= 180; m += 5) {
+    const isRaised = raised.some(([from, to]) => m >= from && m <= to);
+    points.push({ timestamp: at(m), actual: isRaised ? 9.0 : 6.0, predicted: 6.0, iob: 0, cob: 0 });
+  }
+  return points;
+}
+
+describe('glucoseForecastUtils', () => {
+  describe('estimateForecastSensitivity', () => {
+    it('should fall back to the defaults without data', () => {
+      expect(estimateForecastSensitivity([], [], [])).toEqual({
+        isf: DEFAULT_FORECAST_ISF,
+        icr: DEFAULT_FORECAST_ICR,
+        csf: DEFAULT_FORECAST_ISF / DEFAULT_FORECAST_ICR,
+        source: 'default',
+      });
+    });
+
+    it('should use the total daily dose rules without isolated boluses', () => {
+      const insulin: InsulinReading[] = [
+        { timestamp: at(0), dose: 30, insulinType: 'basal' },
+        { timestamp: at(60), dose: 10, insulinType: 'bolus' },
+      ];
+      const sensitivity = estimateForecastSensitivity(insulin, [], []);
+
+      expect(sensitivity.source).toBe('totalDailyDose');
+      expect(sensitivity.isf).toBeCloseTo(2.5, 5);
+      expect(sensitivity.icr).toBeCloseTo(12.5, 5);
+      expect(sensitivity.csf).toBeCloseTo(0.2, 5);
+    });
+  });
+
+  describe('calculateCOB', () => {
+    it('should absorb carbs linearly', () => {
+      const meals = groupCarbEntriesIntoMeals([carbs(0, 60)]);
+
+      expect(calculateCOB(meals, at(-5))).toBe(0);
+      expect(calculateCOB(meals, at(0))).toBe(60);
+      expect(calculateCOB(meals, at(90))).toBe(30);
+      expect(calculateCOB(meals, at(180))).toBe(0);
+      expect(calculateCOB(meals, at(60), 120)).toBe(30);
+    });
+  });
+
+  describe('calculateGlucoseForecast', () => {
+    it('should forecast flat glucose without insulin or carbs', () => {
+      const readings = createFlatReadings(0, 120, 6.0);
+      const points = calculateGlucoseForecast(readings, [], [], SENSITIVITY);
+
+      expect(points).toHaveLength(readings.length);
+      expect(points[9].predicted).toBeNull(); // 45 min, no reading an hour earlier
+      expect(points[10].predicted).toBe(6.0);
+      expect(points[24].predicted).toBe(6.0);
+    });
+
+    it('should lower the forecast by the insulin that took effect', () => {
+      const readings = createFlatReadings(0, 60, 8.0);
+      const points = calculateGlucoseForecast(readings, [bolus(0, 2)], [], SENSITIVITY);
+      const last = points[points.length - 1];
+
+      // Linear decay over 5 hours: 0.4 U acted in the first hour
+      expect(last.iob).toBe(1.6);
+      expect(last.predicted).toBe(7.2);
+    });
+
+    it('should raise the forecast by the carbs absorbed', () => {
+      const readings = createFlatReadings(0, 60, 8.0);
+      const points = calculateGlucoseForecast(readings, [bolus(0, 2)], [carbs(0, 30)], SENSITIVITY);
+      const last = points[points.length - 1];
+
+      expect(last.cob).toBe(20);
+      expect(last.predicted).toBe(9.2);
+    });
+
+    it('should count meals after the starting reading from the time they were eaten', () => {
+      const readings = createFlatReadings(0, 60, 8.0);
+      const points = calculateGlucoseForecast(readings, [], [carbs(30, 30)], SENSITIVITY);
+
+      expect(points[points.length - 1].predicted).toBe(9.0);
+    });
+
+    it('should start from the history readings', () => {
+      const history = createFlatReadings(-60, 60, 5.0);
+      const readings = history.filter(r => r.timestamp >= at(0));
+      const points = calculateGlucoseForecast(readings, [], [], SENSITIVITY, { history });
+
+      expect(points[0].predicted).toBe(5.0);
+    });
+
+    it('should follow the insulin model', () => {
+      const readings = createFlatReadings(0, 60, 8.0);
+      const points = calculateGlucoseForecast(readings, [bolus(0, 2)], [], SENSITIVITY, {
+        insulinDuration: 6,
+        insulinModel: { model: 'exponential', preset: 'rapidActing', peakMinutes: 75 },
+      });
+
+      // 22% of the dose acted in the first hour
+      expect(points[points.length - 1].predicted).toBeCloseTo(7.1, 1);
+    });
+  });
+
+  describe('detectForecastDeviations', () => {
+    it('should flag a rise without a bolus as a missed bolus', () => {
+      const deviations = detectForecastDeviations(createPoints([[20, 60]]), [], []);
+
+      expect(deviations).toHaveLength(1);
+      expect(deviations[0].start).toEqual(at(20));
+      expect(deviations[0].end).toEqual(at(60));
+      expect(deviations[0].peakError).toBe(3);
+      expect(deviations[0].type).toBe('missedBolus');
+    });
+
+    it('should flag a rise after a bolus without carbs as an unannounced meal', () => {
+      const deviations = detectForecastDeviations(createPoints([[20, 60]]), [bolus(0, 3)], []);
+
+      expect(deviations.map(d => d.type)).toEqual(['unannouncedMeal']);
+    });
+
+    it('should not flag rises explained by logged carbs', () => {
+      expect(detectForecastDeviations(createPoints([[20, 60]]), [], [carbs(10, 40)])).toHaveLength(0);
+    });
+
+    it('should ignore short deviations and merge close ones', () => {
+      expect(detectForecastDeviations(createPoints([[20, 30]]), [], [])).toHaveLength(0);
+
+      const deviations = detectForecastDeviations(createPoints([[20, 40], [55, 75]]), [], []);
+      expect(deviations).toHaveLength(1);
+      expect(deviations[0].end).toEqual(at(75));
+    });
+  });
+});
@@ -0,0 +1,404 @@
+/**
+ * Utility functions for carbs on board (COB) and a simple physiological glucose forecast
+ *
+ * For every CGM reading the forecast starts from the reading one horizon
+ * earlier and applies what happened since:
+ * - Insulin: bolus insulin that took effect (IOB decrease) × ISF lowers glucose
+ * - Carbs: carbs absorbed (COB decrease) × CSF raises glucose
+ *
+ * Basal insulin is assumed to balance the liver's glucose output and is left
+ * out. Carbs are absorbed linearly, insulin follows the configured activity model.
+ *
+ * Where glucose rises far above the forecast, carbs were eaten that the log
+ * does not explain. Without any bolus around the rise the meal was not covered
+ * (missed bolus); with a bolus but no carbs entry the meal was not announced.
+ */
+
+import type { CarbEntry, GlucoseReading, InsulinModelSettings, InsulinReading } from '../../types';
+import { calculateIOB, aggregateInsulinByDate } from './insulinDataUtils';
+import { DEFAULT_INSULIN_MODEL_SETTINGS, getInsulinOnBoardFraction } from './insulinModelUtils';
+import { groupCarbEntriesIntoMeals, MEAL_GROUPING_WINDOW_MINUTES, type Meal } from './mealDataUtils';
+import { estimateInsulinRatios } from './insulinRatioUtils';
+
+/**
+ * How far ahead the forecast looks (minutes)
+ */
+export const FORECAST_HORIZON_MINUTES = 60;
+
+/**
+ * Time over which the carbs of a meal are absorbed (minutes)
+ */
+export const DEFAULT_CARB_ABSORPTION_MINUTES = 180;
+
+/**
+ * Maximum distance of the starting reading from one horizon earlier (minutes)
+ */
+export const FORECAST_START_TOLERANCE_MINUTES = 10;
+
+/**
+ * Glucose above the forecast by at least this much is a deviation (mmol/L)
+ */
+export const FORECAST_DEVIATION_THRESHOLD = 2.5;
+
+/**
+ * Shortest deviation that is flagged (minutes)
+ */
+export const MIN_DEVIATION_DURATION_MINUTES = 15;
+
+/**
+ * Deviations closer than this are merged into one (minutes)
+ */
+export const DEVIATION_MERGE_GAP_MINUTES = 30;
+
+/**
+ * How far before a deviation to look for boluses and carb entries (minutes)
+ */
+export const DEVIATION_LOOKBACK_MINUTES = 90;
+
+/**
+ * Fallback ratios when neither the data nor the total daily dose give an estimate
+ * ISF in mmol/L per unit, ICR in grams per unit
+ */
+export const DEFAULT_FORECAST_ISF = 2.0;
+export const DEFAULT_FORECAST_ICR = 10;
+
+/**
+ * Rules of thumb based on the total daily dose (TDD):
+ * ISF = 100 / TDD (mmol/L per unit), ICR = 500 / TDD (grams per unit)
+ */
+const ISF_TDD_RULE = 100;
+const ICR_TDD_RULE = 500;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Where the ratios used by the forecast come from
+ */
+export type ForecastSensitivitySource = 'estimated' | 'totalDailyDose' | 'default';
+
+/**
+ * Ratios used by the forecast
+ */
+export interface ForecastSensitivity {
+  /** Insulin sensitivity factor in mmol/L per unit */
+  isf: number;
+  /** Insulin-to-carb ratio in grams per unit */
+  icr: number;
+  /** Carb sensitivity factor (ISF / ICR) in mmol/L per gram */
+  csf: number;
+  source: ForecastSensitivitySource;
+}
+
+/**
+ * Options for the glucose forecast
+ */
+export interface GlucoseForecastOptions {
+  /** Readings (sorted by timestamp) to start the forecast from; defaults to the forecast readings */
+  history?: GlucoseReading[];
+  /** Forecast horizon in minutes (default 60) */
+  horizonMinutes?: number;
+  /** Duration of insulin action in hours (default 5) */
+  insulinDuration?: number;
+  /** Insulin activity model (default linear decay) */
+  insulinModel?: InsulinModelSettings;
+  /** Carb absorption time in minutes (default 180) */
+  carbAbsorptionMinutes?: number;
+}
+
+/**
+ * Forecast and on-board values at a CGM reading
+ */
+export interface GlucoseForecastPoint {
+  timestamp: Date;
+  /** Measured glucose in mmol/L */
+  actual: number;
+  /** Forecast glucose in mmol/L (null without a reading one horizon earlier) */
+  predicted: number | null;
+  /** Bolus insulin on board in units */
+  iob: number;
+  /** Carbs on board in grams */
+  cob: number;
+}
+
+/**
+ * Likely cause of glucose rising far above the forecast
+ */
+export type ForecastDeviationType = 'missedBolus' | 'unannouncedMeal';
+
+/**
+ * A period where glucose stayed far above the forecast
+ */
+export interface ForecastDeviation {
+  start: Date;
+  end: Date;
+  /** Largest difference between measured and forecast glucose in mmol/L */
+  peakError: number;
+  type: ForecastDeviationType;
+}
+
+/**
+ * Estimate the ratios for the forecast
+ * Uses the ISF and ICR estimated from isolated boluses, then the total daily
+ * dose rules, then fixed defaults.
+ *
+ * @param insulinReadings - Insulin readings (basal and bolus)
+ * @param carbEntries - Carb entries (food dataset and bolus carbs)
+ * @param cgmReadings - CGM readings in mmol/L
+ * @returns Ratios and where they come from
+ */
+export function estimateForecastSensitivity(
+  insulinReadings: InsulinReading[],
+  carbEntries: CarbEntry[],
+  cgmReadings: GlucoseReading[]
+): ForecastSensitivity {
+  const boluses = insulinReadings.filter(r => r.insulinType === 'bolus');
+  const { overallIsf, overallIcr } = estimateInsulinRatios(boluses, carbEntries, cgmReadings);
+
+  const dailyTotals = aggregateInsulinByDate(insulinReadings).filter(day => day.totalInsulin > 0);
+  const averageTdd = dailyTotals.length > 0
+    ? dailyTotals.reduce((sum, day) => sum + day.totalInsulin, 0) / dailyTotals.length
+    : null;
+
+  // Ratios that could not be estimated fall back to the TDD rules, then the defaults
+  const isf = overallIsf.mean ?? (averageTdd !== null ? ISF_TDD_RULE / averageTdd : DEFAULT_FORECAST_ISF);
+  const icr = overallIcr.mean ?? (averageTdd !== null ? ICR_TDD_RULE / averageTdd : DEFAULT_FORECAST_ICR);
+  const source: ForecastSensitivitySource = overallIsf.mean !== null && overallIcr.mean !== null
+    ? 'estimated'
+    : averageTdd !== null ? 'totalDailyDose' : 'default';
+
+  return { isf, icr, csf: isf / icr, source };
+}
+
+/**
+ * Fraction of a meal's carbs absorbed a given time after the meal
+ */
+function carbsAbsorbedFraction(minutesSinceMeal: number, absorptionMinutes: number): number {
+  return Math.min(1, Math.max(0, minutesSinceMeal / absorptionMinutes));
+}
+
+/**
+ * Calculate COB (carbs on board) at a specific time
+ *
+ * @param meals - Meals (any order)
+ * @param targetTime - Time to calculate COB for
+ * @param absorptionMinutes - Carb absorption time in minutes (default 180)
+ * @returns Carbs still to be absorbed in grams
+ */
+export function calculateCOB(
+  meals: Meal[],
+  targetTime: Date,
+  absorptionMinutes: number = DEFAULT_CARB_ABSORPTION_MINUTES
+): number {
+  let totalCOB = 0;
+  for (const meal of meals) {
+    if (meal.timestamp > targetTime) continue;
+    const minutesSinceMeal = (targetTime.getTime() - meal.timestamp.getTime()) / MS_PER_MINUTE;
+    totalCOB += meal.carbs * (1 - carbsAbsorbedFraction(minutesSinceMeal, absorptionMinutes));
+  }
+  return Math.round(totalCOB * 10) / 10; // Round to 1 decimal
+}
+
+/**
+ * Find the index of the reading closest to a target time within a tolerance
+ *
+ * @param readings - Readings sorted by timestamp
+ * @param targetTime - Target time in milliseconds
+ * @param toleranceMs - Maximum allowed distance in milliseconds
+ * @returns Index of the closest reading, or -1 when none is close enough
+ */
+function findClosestReadingIndex(readings: GlucoseReading[], targetTime: number, toleranceMs: number): number {
+  let low = 0;
+  let high = readings.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (readings[mid].timestamp.getTime() < targetTime) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  let closest = -1;
+  let closestDistance = Infinity;
+  for (const index of [low - 1, low]) {
+    const reading = readings[index];
+    if (!reading) continue;
+    const distance = Math.abs(reading.timestamp.getTime() - targetTime);
+    if (distance <= toleranceMs && distance < closestDistance) {
+      closest = index;
+      closestDistance = distance;
+    }
+  }
+  return closest;
+}
+
+/**
+ * Forecast glucose at every reading from the reading one horizon earlier
+ *
+ * @param readings - CGM readings to forecast in mmol/L (e.g. one day)
+ * @param insulinReadings - Insulin readings; only boluses are used
+ * @param carbEntries - Carb entries (food dataset and bolus carbs)
+ * @param sensitivity - Ratios from estimateForecastSensitivity
+ * @param options - Horizon, insulin model, carb absorption and starting readings
+ * @returns One forecast point per reading, in the same order
+ */
+export function calculateGlucoseForecast(
+  readings: GlucoseReading[],
+  insulinReadings: InsulinReading[],
+  carbEntries: CarbEntry[],
+  sensitivity: ForecastSensitivity,
+  options: GlucoseForecastOptions = {}
+): GlucoseForecastPoint[] {
+  if (readings.length === 0) {
+    return [];
+  }
+
+  const {
+    history = readings,
+    horizonMinutes = FORECAST_HORIZON_MINUTES,
+    insulinDuration = 5,
+    insulinModel = DEFAULT_INSULIN_MODEL_SETTINGS,
+    carbAbsorptionMinutes = DEFAULT_CARB_ABSORPTION_MINUTES,
+  } = options;
+
+  // Only doses and meals that can still act during the readings matter
+  const firstTime = readings[0].timestamp.getTime();
+  const lastTime = readings[readings.length - 1].timestamp.getTime();
+  const horizonMs = horizonMinutes * MS_PER_MINUTE;
+  const boluses = insulinReadings.filter(r =>
+    r.insulinType === 'bolus' &&
+    r.timestamp.getTime() > firstTime - horizonMs - insulinDuration * 60 * MS_PER_MINUTE &&
+    r.timestamp.getTime() <= lastTime
+  );
+  const meals = groupCarbEntriesIntoMeals(
+    carbEntries.filter(entry =>
+      entry.timestamp.getTime() > firstTime - horizonMs - carbAbsorptionMinutes * MS_PER_MINUTE &&
+      entry.timestamp.getTime() <= lastTime
+    ),
+    MEAL_GROUPING_WINDOW_MINUTES,
+    0
+  );
+  const toleranceMs = FORECAST_START_TOLERANCE_MINUTES * MS_PER_MINUTE;
+
+  return readings.map(reading => {
+    const time = reading.timestamp.getTime();
+    const point: GlucoseForecastPoint = {
+      timestamp: reading.timestamp,
+      actual: reading.value,
+      predicted: null,
+      iob: calculateIOB(boluses, reading.timestamp, insulinDuration, insulinModel),
+      cob: calculateCOB(meals, reading.timestamp, carbAbsorptionMinutes),
+    };
+
+    const startIndex = findClosestReadingIndex(history, time - horizonMs, toleranceMs);
+    if (startIndex === -1) {
+      return point;
+    }
+    const start = history[startIndex];
+    const startTime = start.timestamp.getTime();
+
+    // Insulin and carbs that took effect between the starting reading and now;
+    // doses and meals after the start count in full from the time they were given
+    let insulinActed = 0;
+    for (const bolus of boluses) {
+      const bolusTime = bolus.timestamp.getTime();
+      if (bolusTime > time) continue;
+      const before = getInsulinOnBoardFraction((startTime - bolusTime) / MS_PER_MINUTE, insulinDuration, insulinModel);
+      const after = getInsulinOnBoardFraction((time - bolusTime) / MS_PER_MINUTE, insulinDuration, insulinModel);
+      insulinActed += bolus.dose * (before - after);
+    }
+
+    let carbsAbsorbed = 0;
+    for (const meal of meals) {
+      const mealTime = meal.timestamp.getTime();
+      carbsAbsorbed += meal.carbs * (
+        carbsAbsorbedFraction((time - mealTime) / MS_PER_MINUTE, carbAbsorptionMinutes) -
+        carbsAbsorbedFraction((startTime - mealTime) / MS_PER_MINUTE, carbAbsorptionMinutes)
+      );
+    }
+
+    const predicted = start.value - insulinActed * sensitivity.isf + carbsAbsorbed * sensitivity.csf;
+    point.predicted = Math.round(Math.max(0, predicted) * 10) / 10;
+    return point;
+  });
+}
+
+/**
+ * Classify a deviation by the boluses and carb entries around it
+ * Rises explained by logged carbs are not flagged.
+ */
+function classifyDeviation(
+  start: Date,
+  end: Date,
+  insulinReadings: InsulinReading[],
+  carbEntries: CarbEntry[]
+): ForecastDeviationType | null {
+  const from = start.getTime() - DEVIATION_LOOKBACK_MINUTES * MS_PER_MINUTE;
+  const to = end.getTime();
+  const inWindow = (timestamp: Date) => timestamp.getTime() >= from && timestamp.getTime() <= to;
+
+  if (carbEntries.some(entry => entry.carbs > 0 && inWindow(entry.timestamp))) {
+    return null;
+  }
+  const hasBolus = insulinReadings.some(r => r.insulinType === 'bolus' && r.dose > 0 && inWindow(r.timestamp));
+  return hasBolus ? 'unannouncedMeal' : 'missedBolus';
+}
+
+/**
+ * Find periods where glucose stayed far above the forecast
+ *
+ * @param points - Forecast points sorted by timestamp
+ * @param insulinReadings - Insulin readings; only boluses are used
+ * @param carbEntries - Carb entries (food dataset and bolus carbs)
+ * @param threshold - Minimum difference between measured and forecast glucose in mmol/L (default 2.5)
+ * @returns Flagged deviations sorted by time
+ */
+export function detectForecastDeviations(
+  points: GlucoseForecastPoint[],
+  insulinReadings: InsulinReading[],
+  carbEntries: CarbEntry[],
+  threshold: number = FORECAST_DEVIATION_THRESHOLD
+): ForecastDeviation[] {
+  // Runs of consecutive points above the threshold
+  const runs: Array<{ start: Date; end: Date; peakError: number }> = [];
+  let current: { start: Date; end: Date; peakError: number } | null = null;
+  for (const point of points) {
+    const error = point.predicted === null ? null : point.actual - point.predicted;
+    if (error !== null && error >= threshold) {
+      if (current) {
+        current.end = point.timestamp;
+        current.peakError = Math.max(current.peakError, error);
+      } else {
+        current = { start: point.timestamp, end: point.timestamp, peakError: error };
+      }
+    } else if (current) {
+      runs.push(current);
+      current = null;
+    }
+  }
+  if (current) {
+    runs.push(current);
+  }
+
+  // Merge runs separated by short gaps
+  const merged: typeof runs = [];
+  for (const run of runs) {
+    const last = merged[merged.length - 1];
+    if (last && run.start.getTime() - last.end.getTime() <= DEVIATION_MERGE_GAP_MINUTES * MS_PER_MINUTE) {
+      last.end = run.end;
+      last.peakError = Math.max(last.peakError, run.peakError);
+    } else {
+      merged.push({ ...run });
+    }
+  }
+
+  const deviations: ForecastDeviation[] = [];
+  for (const run of merged) {
+    if (run.end.getTime() - run.start.getTime() < MIN_DEVIATION_DURATION_MINUTES * MS_PER_MINUTE) continue;
+    const type = classifyDeviation(run.start, run.end, insulinReadings, carbEntries);
+    if (type) {
+      deviations.push({ ...run, peakError: Math.round(run.peakError * 10) / 10, type });
+    }
+  }
+  return deviations;
+}
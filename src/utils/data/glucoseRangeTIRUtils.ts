@@ -12,6 +12,7 @@ import type {
 } from '../../types';
 import { calculateGlucoseRangeStats, MS_PER_DAY } from './glucoseRangeCoreUtils';
 import { filterReadingsToLastNDays } from './glucoseRangeGroupingUtils';
+import { toWallClockTime } from './timezoneUtils';
 
 /**
  * Calculate TIR statistics for multiple time periods
@@ -38,7 +39,8 @@ export function calculateTIRByTimePeriods(
   const timestamps = readings.map(r => r.timestamp.getTime());
   const minDate = new Date(Math.min(...timestamps));
   const maxDate = referenceDate ?? new Date(Math.max(...timestamps));
-  const totalDays = Math.ceil((maxDate.getTime() - minDate.getTime()) / MS_PER_DAY);
+  // Measure in wall-clock time so the extra hour of a 25-hour DST day does not add a day
+  const totalDays = Math.ceil((toWallClockTime(maxDate) - toWallClockTime(minDate)) / MS_PER_DAY);
   
   // Filter periods to only include those smaller than or equal to total days
   const applicablePeriods = periods.filter(p => p <= totalDays);
@@ -7,6 +7,7 @@
  * - glucoseRangeGroupingUtils: Date/time grouping functions
  * - glucoseRangeTIRUtils: Time In Range (TIR) calculations
  * - glucoseRangeMetricsUtils: Advanced metrics (HbA1c, CV, BGRI, etc.)
+ * - glucoseVariabilityUtils: Variability and risk metrics (MAGE, MODD, CONGA, GRI, etc.)
  */
 
 // Re-export everything from core utils
@@ -20,3 +21,6 @@ export * from './glucoseRangeTIRUtils';
 
 // Re-export everything from metrics utils
 export * from './glucoseRangeMetricsUtils';
+
+// Re-export everything from variability utils
+export * from './glucoseVariabilityUtils';
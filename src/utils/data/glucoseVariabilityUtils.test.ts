@@ -0,0 +1,248 @@
+/**
+ * Unit tests for glucose variability utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateMAGE,
+  calculateMODD,
+  calculateCONGA,
+  calculateMAG,
+  calculateGRADE,
+  calculateGRADEScore,
+  calculateGRI,
+  getGRIZone,
+  MAG_MAX_GAP_MINUTES,
+} from './glucoseVariabilityUtils';
+import type { GlucoseReading } from '../../types';
+
+const BASE_TIME = new Date('2024-01-15T00:00:00').getTime();
+
+// Create readings from values at a fixed interval
+function createReadings(values: number[], intervalMinutes = 5, startTime = BASE_TIME): GlucoseReading[] {
+  return values.map((value, index) => ({
+    timestamp: new Date(startTime + index * intervalMinutes * 60 * 1000),
+    value,
+  }));
+}
+
+// Reference trace: two days of half-hourly readings with three meals a day
+// and no plateaus, so every published method finds the same turning points.
+// Expected values follow the definitions in the papers and were cross-checked
+// with a separate implementation that finds MAGE by removing excursions below
+// 1 SD from all local peaks and nadirs (as EasyGV does) instead of hysteresis.
+// Each value also differs from common mistakes, which the comments name.
+const REFERENCE_DAY_1 = [
+  6.2, 6.0, 5.8, 5.6, 5.5, 5.4, 5.3, 5.2, 5.1, 5.0, 5.1, 5.3,
+  5.6, 6.1, 8.4, 11.2, 12.6, 11.9, 10.3, 8.7, 7.4, 6.6, 6.1, 5.9,
+  6.3, 9.2, 12.1, 13.4, 12.5, 10.6, 8.8, 7.5, 6.7, 6.2, 5.9, 6.4,
+  8.9, 11.8, 13.9, 14.6, 13.1, 11.0, 9.2, 7.9, 7.1, 6.8, 6.5, 6.3,
+];
+const REFERENCE_DAY_2 = [
+  6.1, 5.7, 5.2, 4.6, 4.1, 3.8, 4.0, 4.5, 5.0, 5.4, 5.8, 6.0,
+  6.2, 6.6, 9.1, 12.3, 13.8, 12.7, 10.5, 8.6, 7.2, 6.4, 5.8, 5.5,
+  5.9, 7.8, 10.4, 11.6, 11.0, 9.4, 7.9, 6.9, 6.3, 6.0, 5.8, 6.6,
+  9.6, 12.9, 14.8, 15.2, 13.6, 11.2, 9.0, 7.6, 6.9, 6.6, 6.4, 6.2,
+];
+const REFERENCE_READINGS = createReadings([...REFERENCE_DAY_1, ...REFERENCE_DAY_2], 30);
+
+describe('glucoseVariabilityUtils', () => {
+  describe('calculateMAGE', () => {
+    it('should return null for fewer than 3 readings', () => {
+      expect(calculateMAGE(createReadings([5, 10]))).toBeNull();
+    });
+
+    it('should return 0 for a flat trace', () => {
+      expect(calculateMAGE(createReadings([6, 6, 6, 6, 6]))).toBe(0);
+    });
+
+    it('should average the amplitude of swings larger than 1 SD', () => {
+      // Swings between 5 and 11 mmol/L (amplitude 6)
+      const values = [5, 7, 9, 11, 9, 7, 5, 7, 9, 11, 9, 7, 5];
+      expect(calculateMAGE(createReadings(values))).toBeCloseTo(6);
+    });
+
+    it('should not let small ripples split a large excursion', () => {
+      // Ripples of 0.5 mmol/L are well below 1 SD of the trace
+      const values = [5, 7, 6.5, 9, 11, 10.5, 11, 9, 9.5, 7, 5, 7, 6.5, 9, 11];
+      expect(calculateMAGE(createReadings(values))).toBeCloseTo(6);
+    });
+
+    it('should match the reference trace (Service et al.)', () => {
+      // SD = 2.94; turning points 5.0, 12.6, 5.9, 13.4, 5.9, 14.6, 3.8, 13.8, 5.5, 11.6, 5.8, 15.2, 6.2
+      // The initial fall from 6.2 to 5.0 is below 1 SD; the 12 excursions sum to 97.4
+      // Rising only (MAGE+) would give 8.2167 and falling only (MAGE-) 8.0167
+      expect(calculateMAGE(REFERENCE_READINGS)).toBeCloseTo(97.4 / 12, 4);
+    });
+
+    it('should be independent of input order', () => {
+      const readings = createReadings([5, 7, 9, 11, 9, 7, 5, 7, 9, 11]);
+      expect(calculateMAGE([...readings].reverse())).toBeCloseTo(calculateMAGE(readings)!);
+    });
+  });
+
+  describe('calculateMODD', () => {
+    it('should return null when no readings are 24 hours apart', () => {
+      expect(calculateMODD(createReadings([5, 6, 7, 8]))).toBeNull();
+    });
+
+    it('should return 0 for identical days', () => {
+      const day = [5, 6, 8, 10, 7, 6];
+      const readings = [...createReadings(day, 60), ...createReadings(day, 60, BASE_TIME + 24 * 3600000)];
+      expect(calculateMODD(readings)).toBe(0);
+    });
+
+    it('should return the mean absolute day-to-day difference', () => {
+      const day1 = [5, 6, 8, 10];
+      const day2 = [6, 4, 8, 13];
+      const readings = [...createReadings(day1, 60), ...createReadings(day2, 60, BASE_TIME + 24 * 3600000)];
+      // |1| + |-2| + |0| + |3| = 6 over 4 pairs
+      expect(calculateMODD(readings)).toBeCloseTo(1.5);
+    });
+
+    it('should match the reference trace (Molnar et al.)', () => {
+      // Sum of |day 2 - day 1| over the 48 half-hourly pairs is 30.7
+      // Averaging the signed differences would give 0.1771
+      expect(calculateMODD(REFERENCE_READINGS)).toBeCloseTo(30.7 / 48, 4);
+    });
+
+    it('should tolerate a few minutes of sensor jitter', () => {
+      const readings = [
+        ...createReadings([5], 60),
+        ...createReadings([7], 60, BASE_TIME + 24 * 3600000 + 4 * 60000),
+      ];
+      expect(calculateMODD(readings)).toBeCloseTo(2);
+    });
+  });
+
+  describe('calculateCONGA', () => {
+    it('should return null with fewer than 2 pairs', () => {
+      expect(calculateCONGA(createReadings([5, 7], 60))).toBeNull();
+    });
+
+    it('should return 0 when glucose changes at a constant rate', () => {
+      expect(calculateCONGA(createReadings([5, 6, 7, 8, 9], 60))).toBeCloseTo(0);
+    });
+
+    it('should return the SD of 1-hour differences', () => {
+      // Differences: +2, -2, +2 -> sample SD = sqrt(16/3)
+      expect(calculateCONGA(createReadings([5, 7, 5, 7], 60))).toBeCloseTo(Math.sqrt(16 / 3));
+    });
+
+    it('should match the reference trace (McDonnell et al.)', () => {
+      // Sample SD of the 94 differences between readings 1 hour apart
+      // The population SD would give 2.5816
+      expect(calculateCONGA(REFERENCE_READINGS)).toBeCloseTo(2.5954, 4);
+    });
+
+    it('should support other lags', () => {
+      // 2-hour differences: 0, 0 -> SD 0
+      expect(calculateCONGA(createReadings([5, 7, 5, 7], 60), 2)).toBeCloseTo(0);
+    });
+  });
+
+  describe('calculateMAG', () => {
+    it('should return null for a single reading', () => {
+      expect(calculateMAG(createReadings([5]))).toBeNull();
+    });
+
+    it('should return the absolute change per hour', () => {
+      // Rises from 5 to 11 mmol/L over 6 hours in 5-minute steps
+      const values = Array.from({ length: 73 }, (_, i) => 5 + i / 12);
+      expect(calculateMAG(createReadings(values))).toBeCloseTo(1);
+    });
+
+    it('should match the reference trace (Hermanides et al.)', () => {
+      // 98.6 mmol/L of absolute change over 95 half-hour steps (47.5 hours)
+      // Dividing by the number of steps instead of hours would give 1.0379
+      expect(calculateMAG(REFERENCE_READINGS)).toBeCloseTo(98.6 / 47.5, 4);
+    });
+
+    it('should count rises and falls alike', () => {
+      // 4 mmol/L of change over 30 minutes
+      expect(calculateMAG(createReadings([5, 7, 5], 15))).toBeCloseTo(8);
+    });
+
+    it('should skip sensor gaps', () => {
+      const readings = [
+        ...createReadings([5, 6], 30),
+        ...createReadings([12, 13], 30, BASE_TIME + (MAG_MAX_GAP_MINUTES + 60) * 60000),
+      ];
+      expect(calculateMAG(readings)).toBeCloseTo(2);
+    });
+  });
+
+  describe('calculateGRADEScore', () => {
+    it('should match reference values from Hill et al.', () => {
+      // At 10 mmol/L log10(log10(10)) = 0, so GRADE = 425 × 0.16²
+      expect(calculateGRADEScore(10)).toBeCloseTo(10.88, 2);
+      expect(calculateGRADEScore(5)).toBeCloseTo(0.0085, 3);
+      expect(calculateGRADEScore(3)).toBeCloseTo(11.07, 1);
+    });
+
+    it('should cap the score at 50', () => {
+      expect(calculateGRADEScore(1.1)).toBe(50);
+      expect(calculateGRADEScore(0.5)).toBe(50);
+      expect(calculateGRADEScore(40)).toBeLessThanOrEqual(50);
+    });
+  });
+
+  describe('calculateGRADE', () => {
+    it('should return null for no readings', () => {
+      expect(calculateGRADE([])).toBeNull();
+    });
+
+    it('should split the score into hypo, eu and hyper contributions', () => {
+      const result = calculateGRADE(createReadings([3, 5, 10, 10]))!;
+      const total = calculateGRADEScore(3) + calculateGRADEScore(5) + 2 * calculateGRADEScore(10);
+
+      expect(result.grade).toBeCloseTo(total / 4);
+      expect(result.hypoPercent).toBeCloseTo((calculateGRADEScore(3) / total) * 100);
+      expect(result.euPercent).toBeCloseTo((calculateGRADEScore(5) / total) * 100);
+      expect(result.hyperPercent).toBeCloseTo(((2 * calculateGRADEScore(10)) / total) * 100);
+      expect(result.hypoPercent + result.euPercent + result.hyperPercent).toBeCloseTo(100);
+    });
+  });
+
+  describe('calculateGRI', () => {
+    it('should return null for no readings', () => {
+      expect(calculateGRI([])).toBeNull();
+    });
+
+    it('should match the published GRI formula', () => {
+      // 1% very low, 3% low, 20% high, 5% very high
+      const values = [
+        2.5,
+        ...Array(3).fill(3.5),
+        ...Array(20).fill(12),
+        ...Array(5).fill(16),
+        ...Array(71).fill(6),
+      ];
+      const result = calculateGRI(createReadings(values))!;
+
+      // GRI = 3.0 × 1 + 2.4 × 3 + 1.6 × 5 + 0.8 × 20
+      expect(result.hypoComponent).toBeCloseTo(3.4);
+      expect(result.hyperComponent).toBeCloseTo(15);
+      expect(result.gri).toBeCloseTo(34.2);
+      expect(result.zone).toBe('B');
+    });
+
+    it('should cap GRI at 100', () => {
+      const result = calculateGRI(createReadings([2, 2, 2]))!;
+      expect(result.hypoComponent).toBeCloseTo(100);
+      expect(result.gri).toBe(100);
+      expect(result.zone).toBe('E');
+    });
+  });
+
+  describe('getGRIZone', () => {
+    it('should map scores to zones A-E', () => {
+      expect(getGRIZone(0)).toBe('A');
+      expect(getGRIZone(20)).toBe('A');
+      expect(getGRIZone(20.1)).toBe('B');
+      expect(getGRIZone(59)).toBe('C');
+      expect(getGRIZone(75)).toBe('D');
+      expect(getGRIZone(81)).toBe('E');
+    });
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Advanced glycemic variability and risk metrics
+ * This module contains MAGE, MODD, CONGA, MAG, GRADE and the Glycemia Risk Index (GRI)
+ *
+ * Amplitude-type metrics (MAGE, MODD, CONGA, MAG) are returned in mmol/L
+ * like the rest of the data utilities and converted for display.
+ */
+
+import type { GlucoseReading } from '../../types';
+import { calculateStandardDeviation } from './glucoseRangeMetricsUtils';
+
+/** Interval used to match readings a fixed time apart (typical CGM sampling interval) */
+const SLOT_MINUTES = 5;
+
+/** Consecutive readings further apart than this are not treated as a continuous trace for MAG */
+export const MAG_MAX_GAP_MINUTES = 30;
+
+/**
+ * Fixed consensus thresholds (mmol/L) used by GRI, independent of the user's thresholds
+ * Very low < 54 mg/dL, low 54-69 mg/dL, high 181-250 mg/dL, very high > 250 mg/dL
+ */
+export const GRI_THRESHOLDS = {
+  veryLow: 3.0,
+  low: 3.9,
+  high: 10.0,
+  veryHigh: 13.9,
+};
+
+/** Upper limits of the GRI zones A-D; values above the last limit are zone E */
+export const GRI_ZONE_LIMITS = [20, 40, 60, 80];
+
+/** GRADE range boundaries in mmol/L (hypo below 3.9, hyper above 7.8) */
+export const GRADE_THRESHOLDS = {
+  hypo: 3.9,
+  hyper: 7.8,
+};
+
+/** Maximum GRADE score of a single reading */
+const GRADE_MAX_SCORE = 50;
+
+/**
+ * GRI zone (A = lowest risk, E = highest risk)
+ */
+export type GRIZone = 'A' | 'B' | 'C' | 'D' | 'E';
+
+/**
+ * Glycemia Risk Index result
+ */
+export interface GRIResult {
+  /** GRI score (0-100) */
+  gri: number;
+  /** Hypoglycemia component: %very low + 0.8 × %low */
+  hypoComponent: number;
+  /** Hyperglycemia component: %very high + 0.5 × %high */
+  hyperComponent: number;
+  zone: GRIZone;
+}
+
+/**
+ * GRADE result with the share of risk contributed by each glucose range
+ */
+export interface GRADEResult {
+  /** Mean GRADE score */
+  grade: number;
+  /** Percentage of the total GRADE score from readings below 3.9 mmol/L */
+  hypoPercent: number;
+  /** Percentage of the total GRADE score from readings between 3.9 and 7.8 mmol/L */
+  euPercent: number;
+  /** Percentage of the total GRADE score from readings above 7.8 mmol/L */
+  hyperPercent: number;
+}
+
+/**
+ * Sort readings by timestamp without modifying the input
+ */
+function sortByTime(readings: GlucoseReading[]): GlucoseReading[] {
+  return [...readings].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+/**
+ * Collect value differences between readings a fixed time apart
+ * Readings are matched on 5-minute slots, allowing one slot of jitter.
+ *
+ * @param readings - Glucose readings (values in mmol/L)
+ * @param offsetMinutes - Time between the paired readings
+ * @returns Differences (later value minus earlier value) for every matched pair
+ */
+function collectLaggedDifferences(readings: GlucoseReading[], offsetMinutes: number): number[] {
+  const slotMs = SLOT_MINUTES * 60 * 1000;
+  const offsetSlots = Math.round(offsetMinutes / SLOT_MINUTES);
+  const valuesBySlot = new Map<number, number>();
+  for (const reading of readings) {
+    valuesBySlot.set(Math.round(reading.timestamp.getTime() / slotMs), reading.value);
+  }
+
+  const differences: number[] = [];
+  valuesBySlot.forEach((value, slot) => {
+    const target = slot + offsetSlots;
+    const later = valuesBySlot.get(target) ?? valuesBySlot.get(target + 1) ?? valuesBySlot.get(target - 1);
+    if (later !== undefined) {
+      differences.push(later - value);
+    }
+  });
+
+  return differences;
+}
+
+/**
+ * Calculate Mean Amplitude of Glycemic Excursions (MAGE)
+ *
+ * Based on Service et al. (1970): only excursions (peak to nadir or nadir
+ * to peak) larger than one standard deviation of all readings count.
+ * Turning points are found with a hysteresis of one SD, so small ripples
+ * inside a larger swing do not split it. Rising and falling excursions are
+ * averaged together (MAGEavg), which avoids depending on the direction of
+ * the first excursion.
+ *
+ * @param readings - Array of glucose readings (values in mmol/L)
+ * @returns MAGE in mmol/L (0 when no excursion exceeds 1 SD), or null if insufficient readings
+ */
+export function calculateMAGE(readings: GlucoseReading[]): number | null {
+  if (readings.length < 3) return null;
+
+  const sd = calculateStandardDeviation(readings);
+  if (sd === null) return null;
+
+  const values = sortByTime(readings).map(r => r.value);
+  const turningPoints: number[] = [];
+  let trend: 1 | -1 | 0 = 0;
+  let extreme = values[0];
+  let min = values[0];
+  let max = values[0];
+
+  for (const value of values) {
+    if (trend === 0) {
+      // Wait for the first move larger than 1 SD to establish a direction
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+      if (max - min > sd) {
+        trend = value === max ? 1 : -1;
+        turningPoints.push(trend === 1 ? min : max);
+        extreme = value;
+      }
+    } else if (trend === 1) {
+      if (value > extreme) {
+        extreme = value;
+      } else if (extreme - value > sd) {
+        turningPoints.push(extreme);
+        trend = -1;
+        extreme = value;
+      }
+    } else if (value < extreme) {
+      extreme = value;
+    } else if (value - extreme > sd) {
+      turningPoints.push(extreme);
+      trend = 1;
+      extreme = value;
+    }
+  }
+
+  if (trend !== 0) {
+    turningPoints.push(extreme);
+  }
+  if (turningPoints.length < 2) return 0;
+
+  let totalAmplitude = 0;
+  for (let i = 1; i < turningPoints.length; i++) {
+    totalAmplitude += Math.abs(turningPoints[i] - turningPoints[i - 1]);
+  }
+  return totalAmplitude / (turningPoints.length - 1);
+}
+
+/**
+ * Calculate Mean Of Daily Differences (MODD)
+ *
+ * Based on Molnar et al. (1972): the mean absolute difference between
+ * readings taken at the same time of day on consecutive days. Captures
+ * day-to-day variability rather than variability within a day.
+ *
+ * @param readings - Array of glucose readings (values in mmol/L)
+ * @returns MODD in mmol/L, or null if no readings are 24 hours apart
+ */
+export function calculateMODD(readings: GlucoseReading[]): number | null {
+  const differences = collectLaggedDifferences(readings, 24 * 60);
+  if (differences.length === 0) return null;
+
+  return differences.reduce((sum, d) => sum + Math.abs(d), 0) / differences.length;
+}
+
+/**
+ * Calculate Continuous Overall Net Glycemic Action (CONGA)
+ *
+ * Based on McDonnell et al. (2005): the standard deviation of the
+ * differences between each reading and the reading n hours earlier.
+ *
+ * @param readings - Array of glucose readings (values in mmol/L)
+ * @param hours - Lag in hours (CONGA1 by default)
+ * @returns CONGA in mmol/L, or null if fewer than 2 reading pairs are n hours apart
+ */
+export function calculateCONGA(readings: GlucoseReading[], hours: number = 1): number | null {
+  const differences = collectLaggedDifferences(readings, hours * 60);
+  if (differences.length < 2) return null;
+
+  const mean = differences.reduce((sum, d) => sum + d, 0) / differences.length;
+  const sumSquaredDiffs = differences.reduce((sum, d) => sum + Math.pow(d - mean, 2), 0);
+  return Math.sqrt(sumSquaredDiffs / (differences.length - 1));
+}
+
+/**
+ * Calculate Mean Absolute Glucose change (MAG)
+ *
+ * Based on Hermanides et al. (2010): the sum of absolute differences
+ * between consecutive readings divided by the time they span. Pairs more
+ * than MAG_MAX_GAP_MINUTES apart are skipped so sensor gaps do not
+ * understate the rate of change.
+ *
+ * @param readings - Array of glucose readings (values in mmol/L)
+ * @returns MAG in mmol/L per hour, or null if there are no consecutive readings
+ */
+export function calculateMAG(readings: GlucoseReading[]): number | null {
+  const sorted = sortByTime(readings);
+  let totalChange = 0;
+  let totalHours = 0;
+
+  for (let i = 1; i < sorted.length; i++) {
+    const gapMinutes = (sorted[i].timestamp.getTime() - sorted[i - 1].timestamp.getTime()) / 60000;
+    if (gapMinutes <= 0 || gapMinutes > MAG_MAX_GAP_MINUTES) continue;
+
+    totalChange += Math.abs(sorted[i].value - sorted[i - 1].value);
+    totalHours += gapMinutes / 60;
+  }
+
+  return totalHours > 0 ? totalChange / totalHours : null;
+}
+
+/**
+ * Calculate the GRADE score of a single glucose value
+ * GRADE = 425 × (log10(log10(glucose mmol/L)) + 0.16)², capped at 50
+ *
+ * @param glucoseMmol - Glucose value in mmol/L
+ * @returns GRADE score (0-50)
+ */
+export function calculateGRADEScore(glucoseMmol: number): number {
+  // log10(log10(g)) is undefined at or below 1 mmol/L, where the score is capped anyway
+  if (glucoseMmol <= 1) return GRADE_MAX_SCORE;
+
+  const score = 425 * Math.pow(Math.log10(Math.log10(glucoseMmol)) + 0.16, 2);
+  return Math.min(score, GRADE_MAX_SCORE);
+}
+
+/**
+ * Calculate Glycaemic Risk Assessment Diabetes Equation (GRADE)
+ *
+ * Based on Hill et al. (2007). The score is lowest around 5 mmol/L and
+ * rises for both hypo- and hyperglycemia; the breakdown shows how much of
+ * the risk comes from each range.
+ *
+ * @param readings - Array of glucose readings (values in mmol/L)
+ * @returns GRADE result, or null if no readings
+ */
+export function calculateGRADE(readings: GlucoseReading[]): GRADEResult | null {
+  if (readings.length === 0) return null;
+
+  let hypoTotal = 0;
+  let euTotal = 0;
+  let hyperTotal = 0;
+
+  for (const reading of readings) {
+    const score = calculateGRADEScore(reading.value);
+    if (reading.value < GRADE_THRESHOLDS.hypo) {
+      hypoTotal += score;
+    } else if (reading.value > GRADE_THRESHOLDS.hyper) {
+      hyperTotal += score;
+    } else {
+      euTotal += score;
+    }
+  }
+
+  const total = hypoTotal + euTotal + hyperTotal;
+  const share = (part: number) => (total > 0 ? (part / total) * 100 : 0);
+
+  return {
+    grade: total / readings.length,
+    hypoPercent: share(hypoTotal),
+    euPercent: share(euTotal),
+    hyperPercent: share(hyperTotal),
+  };
+}
+
+/**
+ * Get the GRI zone of a GRI score
+ *
+ * @param gri - GRI score (0-100)
+ * @returns Zone A (lowest risk) to E (highest risk)
+ */
+export function getGRIZone(gri: number): GRIZone {
+  const zones: GRIZone[] = ['A', 'B', 'C', 'D'];
+  const index = GRI_ZONE_LIMITS.findIndex(limit => gri <= limit);
+  return index === -1 ? 'E' : zones[index];
+}
+
+/**
+ * Calculate the Glycemia Risk Index (GRI)
+ *
+ * Based on Klonoff et al. (2023):
+ * - Hypo component = %very low + 0.8 × %low
+ * - Hyper component = %very high + 0.5 × %high
+ * - GRI = 3.0 × hypo component + 1.6 × hyper component, capped at 100
+ *
+ * Uses the fixed consensus thresholds (GRI_THRESHOLDS) so scores are
+ * comparable with published GRI zones regardless of personal targets.
+ *
+ * @param readings - Array of glucose readings (values in mmol/L)
+ * @returns GRI result, or null if no readings
+ */
+export function calculateGRI(readings: GlucoseReading[]): GRIResult | null {
+  if (readings.length === 0) return null;
+
+  let veryLow = 0;
+  let low = 0;
+  let high = 0;
+  let veryHigh = 0;
+
+  for (const { value } of readings) {
+    if (value < GRI_THRESHOLDS.veryLow) veryLow++;
+    else if (value < GRI_THRESHOLDS.low) low++;
+    else if (value > GRI_THRESHOLDS.veryHigh) veryHigh++;
+    else if (value > GRI_THRESHOLDS.high) high++;
+  }
+
+  const percent = (count: number) => (count / readings.length) * 100;
+  const hypoComponent = percent(veryLow) + 0.8 * percent(low);
+  const hyperComponent = percent(veryHigh) + 0.5 * percent(high);
+  const gri = Math.min(3.0 * hypoComponent + 1.6 * hyperComponent, 100);
+
+  return { gri, hypoComponent, hyperComponent, zone: getGRIZone(gri) };
+}
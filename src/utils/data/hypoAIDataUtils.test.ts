@@ -489,6 +489,22 @@ describe('hypoAIDataUtils', () => {
       expect(result!.dose).toBe(5.0); // Should get the 7:00 bolus
       expect(result!.hoursBeforeHypo).toBe(3.0);
     });
+
+    it('should report the remaining IOB of the bolus with the selected model', () => {
+      const hypoStartTime = new Date('2024-01-15T10:00:00');
+      const bolusReadings = [createBolusReading(5.0, new Date('2024-01-15T07:00:00'))];
+
+      // Linear decay over 5 hours keeps 40% after 3 hours
+      expect(findLastBolusBeforeHypo(hypoStartTime, bolusReadings)!.remainingIOB).toBe(2);
+
+      // Rapid-acting exponential curve (DIA 6h) keeps about 21% after 3 hours
+      const result = findLastBolusBeforeHypo(hypoStartTime, bolusReadings, 6, {
+        model: 'exponential',
+        preset: 'rapidActing',
+        peakMinutes: 75,
+      });
+      expect(result!.remainingIOB).toBe(1.04);
+    });
   });
 
   describe('convertHypoEventSummaryToCSV', () => {
@@ -542,6 +558,7 @@ describe('hypoAIDataUtils', () => {
           timestamp: new Date('2024-01-15T07:00:00'),
           dose: 5.5,
           hoursBeforeHypo: 3.0,
+          remainingIOB: 2.2,
         },
       }];
       
@@ -549,6 +566,7 @@ describe('hypoAIDataUtils', () => {
       
       expect(result).toContain('5.5'); // Dose
       expect(result).toContain('3.0'); // Hours before
+      expect(result).toContain('2.20'); // Remaining IOB
     });
 
     it('should show N/A when no bolus before hypo', () => {
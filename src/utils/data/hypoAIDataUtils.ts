@@ -7,10 +7,11 @@
  * 3. Convert data to CSV format for AI prompts
  */
 
-import type { GlucoseReading, GlucoseThresholds, InsulinReading } from '../../types';
+import type { GlucoseReading, GlucoseThresholds, InsulinModelSettings, InsulinReading } from '../../types';
 import { calculateHypoStats, type HypoPeriod } from './hypoDataUtils';
 import { getUniqueDates, filterReadingsByDate, calculateLBGI } from './glucoseRangeUtils';
 import { convertToDelimitedFormat } from './csvUtils';
+import { DEFAULT_INSULIN_MODEL_SETTINGS, getInsulinOnBoardFraction } from './insulinModelUtils';
 
 /**
  * Time window in hours for finding last bolus before hypo
@@ -35,6 +36,8 @@ export interface LastBolusInfo {
   dose: number;
   /** Hours before the hypo start */
   hoursBeforeHypo: number;
+  /** Units of this bolus still on board at the hypo start */
+  remainingIOB: number;
 }
 
 /**
@@ -116,11 +119,15 @@ export interface HypoAnalysisDatasets {
  * 
  * @param hypoStartTime - Start time of the hypo period
  * @param bolusReadings - Array of bolus insulin readings
+ * @param insulinDuration - Duration of insulin action in hours (default 5)
+ * @param insulinModel - Insulin activity model used for the remaining IOB
  * @returns Last bolus info or null if none found in the window
  */
 export function findLastBolusBeforeHypo(
   hypoStartTime: Date,
-  bolusReadings: InsulinReading[]
+  bolusReadings: InsulinReading[],
+  insulinDuration: number = 5,
+  insulinModel: InsulinModelSettings = DEFAULT_INSULIN_MODEL_SETTINGS
 ): LastBolusInfo | null {
   if (bolusReadings.length === 0) {
     return null;
@@ -146,11 +153,13 @@ export function findLastBolusBeforeHypo(
 
   // Calculate hours before hypo
   const hoursBeforeHypo = (hypoStartTime.getTime() - lastBolus.timestamp.getTime()) / (1000 * 60 * 60);
+  const remainingIOB = lastBolus.dose * getInsulinOnBoardFraction(hoursBeforeHypo * 60, insulinDuration, insulinModel);
 
   return {
     timestamp: lastBolus.timestamp,
     dose: lastBolus.dose,
     hoursBeforeHypo: Math.round(hoursBeforeHypo * 10) / 10, // Round to 1 decimal
+    remainingIOB: Math.round(remainingIOB * 100) / 100, // Round to 2 decimals
   };
 }
 
@@ -161,12 +170,16 @@ export function findLastBolusBeforeHypo(
  * @param allReadings - All glucose readings, sorted by timestamp
  * @param hypoPeriods - Detected hypo periods
  * @param bolusReadings - Optional array of bolus insulin readings
+ * @param insulinDuration - Duration of insulin action in hours (default 5)
+ * @param insulinModel - Insulin activity model used for the last bolus IOB
  * @returns Array of hypo event data with surrounding CGM readings
  */
 export function extractHypoEventData(
   allReadings: GlucoseReading[],
   hypoPeriods: HypoPeriod[],
-  bolusReadings: InsulinReading[] = []
+  bolusReadings: InsulinReading[] = [],
+  insulinDuration: number = 5,
+  insulinModel: InsulinModelSettings = DEFAULT_INSULIN_MODEL_SETTINGS
 ): HypoEventData[] {
   if (allReadings.length === 0 || hypoPeriods.length === 0) {
     return [];
@@ -201,7 +214,7 @@ export function extractHypoEventData(
     });
     
     // Find last bolus 2-4 hours before this hypo
-    const lastBolusBeforeHypo = findLastBolusBeforeHypo(period.startTime, bolusReadings);
+    const lastBolusBeforeHypo = findLastBolusBeforeHypo(period.startTime, bolusReadings, insulinDuration, insulinModel);
     
     events.push({
       eventId,
@@ -309,12 +322,16 @@ export function calculateOverallHypoStats(
  * @param allReadings - All glucose readings, sorted by timestamp
  * @param thresholds - Glucose thresholds for hypo detection
  * @param bolusReadings - Optional array of bolus insulin readings
+ * @param insulinDuration - Duration of insulin action in hours (default 5)
+ * @param insulinModel - Insulin activity model used for the last bolus IOB
  * @returns Complete hypo analysis datasets
  */
 export function extractHypoAnalysisDatasets(
   allReadings: GlucoseReading[],
   thresholds: GlucoseThresholds,
-  bolusReadings: InsulinReading[] = []
+  bolusReadings: InsulinReading[] = [],
+  insulinDuration: number = 5,
+  insulinModel: InsulinModelSettings = DEFAULT_INSULIN_MODEL_SETTINGS
 ): HypoAnalysisDatasets {
   // Sort readings by timestamp
   const sortedReadings = [...allReadings].sort(
@@ -325,7 +342,7 @@ export function extractHypoAnalysisDatasets(
   const overallHypoStats = calculateHypoStats(sortedReadings, thresholds);
   
   // Extract hypo event data with surrounding CGM readings and bolus info
-  const hypoEvents = extractHypoEventData(sortedReadings, overallHypoStats.hypoPeriods, bolusReadings);
+  const hypoEvents = extractHypoEventData(sortedReadings, overallHypoStats.hypoPeriods, bolusReadings, insulinDuration, insulinModel);
   
   // Calculate daily summaries
   const dailySummaries = calculateDailyHypoSummaries(sortedReadings, thresholds);
@@ -399,6 +416,7 @@ export function convertHypoEventSummaryToCSV(hypoEvents: HypoEventData[]): strin
     'Last Bolus Time',
     'Last Bolus Dose (U)',
     'Hours Before Hypo',
+    'Last Bolus IOB At Start (U)',
   ];
 
   const rows: (string | number)[][] = [headers];
@@ -416,6 +434,7 @@ export function convertHypoEventSummaryToCSV(hypoEvents: HypoEventData[]): strin
       lastBolus ? lastBolus.timestamp.toISOString() : 'N/A',
       lastBolus ? lastBolus.dose.toFixed(1) : 'N/A',
       lastBolus ? lastBolus.hoursBeforeHypo.toFixed(1) : 'N/A',
+      lastBolus ? lastBolus.remainingIOB.toFixed(2) : 'N/A',
     ]);
   });
 
@@ -6,6 +6,7 @@ import { describe, it, expect } from 'vitest';
 import {
   detectHypoPeriods,
   calculateHypoStats,
+  findPrecedingExercise,
   formatHypoDuration,
   HYPO_RECOVERY_OFFSET,
   CONSECUTIVE_READINGS_REQUIRED,
@@ -227,6 +228,37 @@ describe('hypoDataUtils', () => {
     });
   });
 
+  describe('exercise tagging', () => {
+    const readings = createReadings([
+      5.0,
+      3.5, 3.4, 3.3, // Hypo starting at 08:05
+      4.5, 4.6, 4.7,
+    ]);
+
+    it('should tag hypos within 24 hours after exercise', () => {
+      const run = { timestamp: new Date('2024-01-14T17:00:00'), activityType: 'Running', durationMinutes: 60 };
+      const walk = { timestamp: new Date('2024-01-14T12:00:00'), activityType: 'Walking', durationMinutes: 30 };
+
+      const result = calculateHypoStats(readings, thresholds, [run, walk]);
+
+      expect(result.hypoPeriods[0].precedingExercise).toBe(run);
+    });
+
+    it('should not tag hypos more than 24 hours after exercise', () => {
+      const session = { timestamp: new Date('2024-01-14T07:00:00'), activityType: 'Running', durationMinutes: 30 };
+
+      expect(calculateHypoStats(readings, thresholds, [session]).hypoPeriods[0].precedingExercise).toBeUndefined();
+      expect(calculateHypoStats(readings, thresholds).hypoPeriods[0].precedingExercise).toBeUndefined();
+    });
+
+    it('should tag hypos during exercise and ignore later sessions', () => {
+      const during = { timestamp: new Date('2024-01-15T07:45:00'), activityType: 'Cycling' };
+      const later = { timestamp: new Date('2024-01-15T09:00:00'), activityType: 'Running' };
+
+      expect(findPrecedingExercise(new Date('2024-01-15T08:05:00'), [later, during])).toBe(during);
+    });
+  });
+
   describe('formatHypoDuration', () => {
     it('should format minutes only', () => {
       expect(formatHypoDuration(30)).toBe('30m');
@@ -7,9 +7,12 @@
  * - Nadir: The minimum glucose value during the hypo period
  * 
  * Severe hypoglycemia uses the veryLow threshold instead.
+ *
+ * Hypos starting during or within 24 hours after a logged exercise session
+ * are tagged with that session.
  */
 
-import type { GlucoseReading, GlucoseThresholds } from '../../types';
+import type { ExerciseSession, GlucoseReading, GlucoseThresholds } from '../../types';
 
 /**
  * Recovery offset in mmol/L - readings must be this much above nadir to end a hypo period
@@ -21,6 +24,16 @@ export const HYPO_RECOVERY_OFFSET = 0.6;
  */
 export const CONSECUTIVE_READINGS_REQUIRED = 3;
 
+/**
+ * Hours after the end of an exercise session in which a hypo is tagged as following it
+ */
+export const EXERCISE_HYPO_WINDOW_HOURS = 24;
+
+/**
+ * Duration assumed for exercise sessions logged without one (minutes)
+ */
+export const DEFAULT_EXERCISE_DURATION_MINUTES = 30;
+
 /**
  * Represents a hypoglycemia period with start/end times and statistics
  */
@@ -41,6 +54,8 @@ export interface HypoPeriod {
   nadirIndex: number;
   /** Time decimal of nadir for chart positioning (hour + minutes/60) */
   nadirTimeDecimal: number;
+  /** Exercise session the hypo started during or within 24 hours after (when sessions were given) */
+  precedingExercise?: ExerciseSession;
 }
 
 /**
@@ -187,6 +202,39 @@ export function detectHypoPeriods(
   return hypoPeriods;
 }
 
+/**
+ * Get the end time of an exercise session
+ *
+ * @param session - Exercise session
+ * @returns Start time plus the logged duration (or the default duration)
+ */
+export function getExerciseEndTime(session: ExerciseSession): Date {
+  const durationMinutes = session.durationMinutes ?? DEFAULT_EXERCISE_DURATION_MINUTES;
+  return new Date(session.timestamp.getTime() + durationMinutes * 60 * 1000);
+}
+
+/**
+ * Find the most recent exercise session a hypo may follow
+ *
+ * @param time - Hypo start time
+ * @param sessions - Exercise sessions (any order)
+ * @returns The latest session started before the time and ended no more than 24 hours before it, if any
+ */
+export function findPrecedingExercise(time: Date, sessions: ExerciseSession[]): ExerciseSession | undefined {
+  const windowMs = EXERCISE_HYPO_WINDOW_HOURS * 60 * 60 * 1000;
+  let preceding: ExerciseSession | undefined;
+
+  for (const session of sessions) {
+    const started = session.timestamp.getTime() <= time.getTime();
+    const recent = time.getTime() - getExerciseEndTime(session).getTime() <= windowMs;
+    if (started && recent && (!preceding || session.timestamp > preceding.timestamp)) {
+      preceding = session;
+    }
+  }
+
+  return preceding;
+}
+
 /**
  * Calculate comprehensive hypoglycemia statistics from glucose readings
  * 
@@ -195,20 +243,26 @@ export function detectHypoPeriods(
  * 
  * @param readings - Array of glucose readings, sorted by timestamp
  * @param thresholds - Glucose thresholds with low and veryLow values
+ * @param exerciseSessions - Logged exercise sessions used to tag hypos that follow exercise (optional)
  * @returns Comprehensive hypo statistics
  */
 export function calculateHypoStats(
   readings: GlucoseReading[],
-  thresholds: GlucoseThresholds
+  thresholds: GlucoseThresholds,
+  exerciseSessions: ExerciseSession[] = []
 ): HypoStats {
   // Detect all hypos (below low threshold)
   const allHypos = detectHypoPeriods(readings, thresholds.low, false);
   
   // Mark severe status on all hypos where nadir went below veryLow
-  const allHyposWithSeverity = allHypos.map(hypo => ({
-    ...hypo,
-    isSevere: hypo.nadir < thresholds.veryLow,
-  }));
+  const allHyposWithSeverity = allHypos.map(hypo => {
+    const precedingExercise = findPrecedingExercise(hypo.startTime, exerciseSessions);
+    return {
+      ...hypo,
+      isSevere: hypo.nadir < thresholds.veryLow,
+      ...(precedingExercise && { precedingExercise }),
+    };
+  });
   
   // Non-severe hypos are those below low threshold but whose nadir never went below veryLow
   const nonSevereHypos = allHyposWithSeverity.filter(hypo => !hypo.isSevere);
@@ -113,6 +113,26 @@ describe('hyposReportAIDataUtils', () => {
       }
     });
 
+    it('should calculate bolus IOB at the start with the selected insulin model', () => {
+      // The hypo starts at 10:55, 235 minutes after the bolus
+      const readings = createHypoReadings(new Date('2024-01-15T10:00:00'));
+      const bolusReadings: InsulinReading[] = [
+        { timestamp: new Date('2024-01-15T07:00:00'), dose: 5.0, insulinType: 'bolus' },
+      ];
+
+      const [linear] = extractDetailedHypoEvents(readings, defaultThresholds, bolusReadings);
+      expect(linear.bolusIOBUnits).toBe(1.08);
+
+      const [exponential] = extractDetailedHypoEvents(readings, defaultThresholds, bolusReadings, [], undefined, 6, {
+        model: 'exponential',
+        preset: 'rapidActing',
+        peakMinutes: 75,
+      });
+      expect(exponential.bolusIOBUnits).toBe(0.4);
+
+      expect(extractDetailedHypoEvents(readings, defaultThresholds)[0].bolusIOBUnits).toBeNull();
+    });
+
     it('should include CGM curve data at specific time offsets', () => {
       const readings = createHypoReadings(new Date('2024-01-15T10:00:00'));
       const result = extractDetailedHypoEvents(readings, defaultThresholds);
@@ -12,10 +12,11 @@
  * - CGM curve data (readings at specific time points)
  */
 
-import type { GlucoseReading, GlucoseThresholds, InsulinReading } from '../../types';
+import type { GlucoseReading, GlucoseThresholds, InsulinModelSettings, InsulinReading } from '../../types';
 import { calculateHypoStats } from './hypoDataUtils';
 import { mmolToMgdl } from './glucoseUnitUtils';
 import { convertToDelimitedFormat } from './csvUtils';
+import { DEFAULT_INSULIN_MODEL_SETTINGS, getInsulinOnBoardFraction } from './insulinModelUtils';
 
 /**
  * Detailed hypo event data for AI analysis
@@ -38,6 +39,7 @@ export interface DetailedHypoEvent {
   lastBolusMinsPrior: number | null;  // Minutes from last bolus to start
   secondBolusUnits: number | null;    // Second-most recent bolus
   secondBolusMinsPrior: number | null;// Minutes from second bolus to start
+  bolusIOBUnits: number | null;       // Bolus insulin still on board at start
   
   // BASAL - Hourly totals before event
   programmedBasalUhr: number | null;  // Standard basal rate for the hour
@@ -203,6 +205,25 @@ function findBolusesBefore(
     .sort((a, b) => a.minutesBefore - b.minutesBefore); // Sort by most recent first
 }
 
+/**
+ * Calculate bolus insulin still on board at the event start
+ */
+function calculateBolusIOB(
+  bolusReadings: InsulinReading[],
+  eventStartTime: Date,
+  insulinDuration: number,
+  insulinModel: InsulinModelSettings
+): number | null {
+  const boluses = findBolusesBefore(bolusReadings, eventStartTime, insulinDuration);
+  if (boluses.length === 0) return null;
+
+  const iob = boluses.reduce(
+    (sum, { bolus, minutesBefore }) => sum + bolus.dose * getInsulinOnBoardFraction(minutesBefore, insulinDuration, insulinModel),
+    0
+  );
+  return Math.round(iob * 100) / 100;
+}
+
 /**
  * Calculate total basal units delivered in a specific hour window before event
  */
@@ -240,13 +261,16 @@ function getGlucoseAtOffset(
 
 /**
  * Extract detailed hypo event data for a single day
+ * The insulin duration and model are used for the bolus IOB at the event start.
  */
 export function extractDetailedHypoEvents(
   glucoseReadings: GlucoseReading[],
   thresholds: GlucoseThresholds,
   bolusReadings: InsulinReading[] = [],
   basalReadings: InsulinReading[] = [],
-  dateFilter?: string
+  dateFilter?: string,
+  insulinDuration: number = 5,
+  insulinModel: InsulinModelSettings = DEFAULT_INSULIN_MODEL_SETTINGS
 ): DetailedHypoEvent[] {
   // Sort readings by timestamp
   const sortedReadings = [...glucoseReadings].sort(
@@ -306,6 +330,7 @@ export function extractDetailedHypoEvents(
       lastBolusMinsPrior: lastBolus ? lastBolus.minutesBefore : null,
       secondBolusUnits: secondBolus ? Math.round(secondBolus.bolus.dose * 10) / 10 : null,
       secondBolusMinsPrior: secondBolus ? secondBolus.minutesBefore : null,
+      bolusIOBUnits: calculateBolusIOB(bolusReadings, period.startTime, insulinDuration, insulinModel),
       
       // BASAL
       programmedBasalUhr: programmedBasal,
@@ -349,6 +374,7 @@ export function convertDetailedHypoEventsToCSV(events: DetailedHypoEvent[]): str
     'Last_Bolus_Mins_Prior',
     'Second_Bolus_Units',
     'Second_Bolus_Mins_Prior',
+    'Bolus_IOB_Units',
     'Programmed_Basal_U_hr',
     'Basal_Units_H5_Prior',
     'Basal_Units_H3_Prior',
@@ -375,6 +401,7 @@ export function convertDetailedHypoEventsToCSV(events: DetailedHypoEvent[]): str
       event.lastBolusMinsPrior ?? 'N/A',
       event.secondBolusUnits ?? 'N/A',
       event.secondBolusMinsPrior ?? 'N/A',
+      event.bolusIOBUnits ?? 'N/A',
       event.programmedBasalUhr ?? 'N/A',
       event.basalUnitsH5Prior ?? 'N/A',
       event.basalUnitsH3Prior ?? 'N/A',
@@ -2,6 +2,9 @@ export * from './csvUtils';
 export * from './glucoseRangeUtils';
 export * from './glucoseDataUtils';
 export * from './insulinDataUtils';
+export * from './eventDataUtils';
+export * from './mealDataUtils';
+export * from './insulinRatioUtils';
 export * from './metadataUtils';
 export * from './glucoseUnitUtils';
 export * from './columnMapper';
@@ -9,3 +12,19 @@ export * from './rocDataUtils';
 export * from './hypoDataUtils';
 export * from './hypoAIDataUtils';
 export * from './hyposReportAIDataUtils';
+export * from './periodComparisonUtils';
+export * from './columnarDataset';
+export * from './datasetCache';
+export * from './timezoneUtils';
+export * from './clockJumpUtils';
+export * from './insulinModelUtils';
+export * from './glucoseForecastUtils';
+export * from './riseEventUtils';
+export * from './basalTestingUtils';
+export * from './nocturnalAnalysisUtils';
+export * from './exerciseImpactUtils';
+export * from './timeOfDaySegmentUtils';
+export * from './trendUtils';
+export * from './annotationUtils';
+export * from './chartFocusUtils';
+export * from './promptSummaryUtils';
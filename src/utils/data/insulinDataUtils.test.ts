@@ -3,8 +3,38 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { aggregateInsulinByDate, prepareInsulinTimelineData, calculateIOB, prepareHourlyIOBData } from './insulinDataUtils';
-import type { InsulinReading } from '../../types';
+import {
+  aggregateInsulinByDate,
+  prepareInsulinTimelineData,
+  calculateIOB,
+  prepareHourlyIOBData,
+  extractDailyInsulinSummaries,
+} from './insulinDataUtils';
+import { cacheParsedDatasets } from './datasetCache';
+import { parseCsvToColumnarDataset } from './columnarDataset';
+import type { InsulinReading, UploadedFile } from '../../types';
+
+const METADATA_LINE = 'Name:Test Patient\tDate Range:2024-01-01 - 2024-01-31';
+
+// Uploaded file whose datasets were already parsed (e.g. by the upload worker)
+function createParsedUploadedFile(datasets: Record<string, string[]>): UploadedFile {
+  const file = new File(['not a zip'], 'test.zip', { type: 'application/zip' });
+  cacheParsedDatasets(file, Object.fromEntries(
+    Object.entries(datasets).map(([name, lines]) => [name, parseCsvToColumnarDataset([METADATA_LINE, ...lines].join('\n'))])
+  ));
+
+  return {
+    id: 'test-id',
+    name: 'test.zip',
+    size: file.size,
+    uploadTime: new Date(),
+    file,
+    zipMetadata: {
+      isValid: true,
+      csvFiles: Object.keys(datasets).map(name => ({ name, rowCount: 0 })),
+    },
+  };
+}
 
 describe('insulinDataUtils', () => {
   describe('aggregateInsulinByDate', () => {
@@ -107,6 +137,34 @@ describe('insulinDataUtils', () => {
     });
   });
 
+  describe('extractDailyInsulinSummaries', () => {
+    it('should read daily totals from the parsed insulin dataset', async () => {
+      const uploadedFile = createParsedUploadedFile({
+        insulin: [
+          'Timestamp\tTotal Bolus (U)\tTotal Insulin (U)\tTotal Basal (U)',
+          '2024-01-01 00:00\t12.34\t30.5\t18.16',
+          '2024-01-02 00:00\t10\t\t',
+        ],
+      });
+
+      expect(await extractDailyInsulinSummaries(uploadedFile)).toEqual([
+        { date: '2024-01-01', basalTotal: 18.2, bolusTotal: 12.3, totalInsulin: 30.5 },
+        { date: '2024-01-02', basalTotal: 0, bolusTotal: 10, totalInsulin: 0 },
+      ]);
+    });
+
+    it('should sum the basal and bolus datasets without a combined insulin dataset', async () => {
+      const uploadedFile = createParsedUploadedFile({
+        basal: ['Timestamp\tRate\tDuration (minutes)', '2024-01-01 00:00\t1\t600'],
+        bolus: ['Timestamp\tInsulin Delivered (U)', '2024-01-01 08:00\t4'],
+      });
+
+      expect(await extractDailyInsulinSummaries(uploadedFile)).toEqual([
+        { date: '2024-01-01', basalTotal: 10, bolusTotal: 4, totalInsulin: 14 },
+      ]);
+    });
+  });
+
   describe('prepareInsulinTimelineData', () => {
     it('should prepare 24-hour timeline data for a specific date', () => {
       const readings: InsulinReading[] = [
@@ -362,6 +420,17 @@ describe('insulinDataUtils', () => {
       const iob = calculateIOB(readings, now, 4);
       expect(iob).toBe(5);
     });
+
+    it('should use the selected insulin activity model', () => {
+      const now = new Date('2024-01-01T12:00:00');
+      const readings: InsulinReading[] = [
+        { timestamp: new Date('2024-01-01T10:00:00'), dose: 10, insulinType: 'bolus' }
+      ];
+
+      // Rapid-acting exponential curve (DIA 6h, peak 75 min) keeps 45% after 2 hours
+      const iob = calculateIOB(readings, now, 6, { model: 'exponential', preset: 'rapidActing', peakMinutes: 75 });
+      expect(iob).toBe(4.5);
+    });
   });
 
   describe('prepareHourlyIOBData', () => {
@@ -2,63 +2,48 @@
  * Utility functions for extracting insulin data from Glooko ZIP files
  */
 
-import JSZip from 'jszip';
-import type { UploadedFile, InsulinReading, DailyInsulinSummary } from '../../types';
+import type { UploadedFile, InsulinReading, DailyInsulinSummary, InsulinModelSettings } from '../../types';
 import { findColumnIndex, getColumnVariants } from './columnMapper';
+import { insulinReadingsFromDataset, type ColumnarDataset } from './columnarDataset';
+import { getDatasetTimestampResolver, getParsedDatasets } from './datasetCache';
+import { DEFAULT_INSULIN_MODEL_SETTINGS, getInsulinOnBoardFraction } from './insulinModelUtils';
+import { wallClockToLocalDate } from './timezoneUtils';
 
 /**
- * Parse daily insulin totals from combined insulin CSV (format: Timestamp, Total Bolus, Total Insulin, Total Basal)
+ * Build daily insulin totals from a combined insulin dataset (format: Timestamp, Total Bolus, Total Insulin, Total Basal)
  * 
- * @param csvContent - The CSV file content as string
- * @param delimiter - The delimiter used in the CSV (tab or comma)
+ * @param dataset - Parsed insulin dataset
  * @returns Array of daily insulin summaries
  */
-function parseDailyInsulinFromCSV(
-  csvContent: string,
-  delimiter: string = '\t'
-): DailyInsulinSummary[] {
-  const lines = csvContent.trim().split('\n');
-  
-  if (lines.length < 2) {
-    return [];
-  }
-
-  // Line 0: metadata, Line 1: headers, Lines 2+: data
-  const headerLine = lines[1];
-  const headers = headerLine.split(delimiter).map(h => h.trim());
-  
+function dailyInsulinFromDataset(dataset: ColumnarDataset): DailyInsulinSummary[] {
   // Find column indices (supports both English and German)
-  const timestampIndex = findColumnIndex(headers, getColumnVariants('timestamp'));
-  const totalBolusIndex = findColumnIndex(headers, getColumnVariants('totalBolus'));
-  const totalBasalIndex = findColumnIndex(headers, getColumnVariants('totalBasal'));
-  const totalInsulinIndex = findColumnIndex(headers, getColumnVariants('totalInsulin'));
+  const timestampIndex = findColumnIndex(dataset.columnNames, getColumnVariants('timestamp'));
+  const totalBolusIndex = findColumnIndex(dataset.columnNames, getColumnVariants('totalBolus'));
+  const totalBasalIndex = findColumnIndex(dataset.columnNames, getColumnVariants('totalBasal'));
+  const totalInsulinIndex = findColumnIndex(dataset.columnNames, getColumnVariants('totalInsulin'));
 
   if (timestampIndex === -1) {
     return [];
   }
 
-  const summaries: DailyInsulinSummary[] = [];
-
-  // Process data rows (starting from line 2)
-  for (let i = 2; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
+  // Empty cells count as 0
+  const readTotal = (index: number, row: number) => {
+    const value = dataset.columns[index][row];
+    return isNaN(value) ? 0 : value;
+  };
 
-    const values = line.split(delimiter);
-    
-    const timestampStr = values[timestampIndex]?.trim();
-    if (!timestampStr) continue;
+  const summaries: DailyInsulinSummary[] = [];
 
-    // Parse timestamp and format as date
-    const timestamp = new Date(timestampStr);
-    if (isNaN(timestamp.getTime())) continue;
+  for (let row = 0; row < dataset.rowCount; row++) {
+    // Daily totals are dated by the device's calendar day
+    const wallClock = dataset.timestamps[row];
+    if (isNaN(wallClock)) continue;
     
-    const date = formatDate(timestamp);
+    const date = formatDate(wallClockToLocalDate(wallClock));
 
-    // Parse insulin values
-    const totalBolus = totalBolusIndex !== -1 ? parseFloat(values[totalBolusIndex]?.trim() || '0') : 0;
-    const totalBasal = totalBasalIndex !== -1 ? parseFloat(values[totalBasalIndex]?.trim() || '0') : 0;
-    const totalInsulin = totalInsulinIndex !== -1 ? parseFloat(values[totalInsulinIndex]?.trim() || '0') : (totalBasal + totalBolus);
+    const totalBolus = totalBolusIndex !== -1 ? readTotal(totalBolusIndex, row) : 0;
+    const totalBasal = totalBasalIndex !== -1 ? readTotal(totalBasalIndex, row) : 0;
+    const totalInsulin = totalInsulinIndex !== -1 ? readTotal(totalInsulinIndex, row) : (totalBasal + totalBolus);
 
     summaries.push({
       date,
@@ -71,127 +56,6 @@ function parseDailyInsulinFromCSV(
   return summaries;
 }
 
-/**
- * Parse insulin readings from CSV content
- * 
- * @param csvContent - The CSV file content as string
- * @param delimiter - The delimiter used in the CSV (tab or comma)
- * @param insulinType - The type of insulin ('basal' or 'bolus')
- * @returns Array of insulin readings
- */
-function parseInsulinReadingsFromCSV(
-  csvContent: string, 
-  delimiter: string = '\t',
-  insulinType: 'basal' | 'bolus'
-): InsulinReading[] {
-  const lines = csvContent.trim().split('\n');
-  
-  if (lines.length < 2) {
-    return [];
-  }
-
-  // Line 0: metadata, Line 1: headers, Lines 2+: data
-  const headerLine = lines[1];
-  const headers = headerLine.split(delimiter).map(h => h.trim());
-  
-  // Find timestamp and dose column indices (supports both English and German)
-  const timestampIndex = findColumnIndex(headers, getColumnVariants('timestamp'));
-  const doseIndex = findColumnIndex(headers, getColumnVariants('dose'));
-
-  if (timestampIndex === -1 || doseIndex === -1) {
-    return [];
-  }
-
-  // For basal data, also find duration column to calculate actual delivered insulin
-  let durationIndex = -1;
-  if (insulinType === 'basal') {
-    durationIndex = findColumnIndex(headers, getColumnVariants('duration'));
-  }
-
-  const readings: InsulinReading[] = [];
-
-  // Process data rows (starting from line 2)
-  for (let i = 2; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    const values = line.split(delimiter);
-    
-    const timestampStr = values[timestampIndex]?.trim();
-    const doseStr = values[doseIndex]?.trim();
-
-    if (!timestampStr || !doseStr) continue;
-
-    // Parse timestamp
-    const timestamp = new Date(timestampStr);
-    if (isNaN(timestamp.getTime())) continue;
-
-    // Parse dose value
-    let dose = parseFloat(doseStr);
-    if (isNaN(dose) || dose < 0) continue;
-
-    // For basal data: dose column contains rate (units/hr), duration in minutes
-    // Calculate actual delivered insulin: rate × (duration / 60)
-    if (insulinType === 'basal' && durationIndex !== -1) {
-      const durationStr = values[durationIndex]?.trim();
-      if (durationStr) {
-        const durationMinutes = parseFloat(durationStr);
-        if (!isNaN(durationMinutes) && durationMinutes > 0) {
-          // Convert rate to actual delivered amount
-          dose = dose * (durationMinutes / 60);
-        }
-      }
-    }
-
-    readings.push({ timestamp, dose, insulinType });
-  }
-
-  return readings;
-}
-
-/**
- * Detect the delimiter used in CSV content
- * 
- * @param csvContent - The CSV file content as string
- * @returns The detected delimiter (tab or comma)
- */
-function detectDelimiter(csvContent: string): string {
-  const lines = csvContent.trim().split('\n');
-  
-  if (lines.length < 2) {
-    return '\t';
-  }
-  
-  // Check the header line (line 1) for delimiters
-  const headerLine = lines[1];
-  
-  const tabCount = (headerLine.match(/\t/g) || []).length;
-  const commaCount = (headerLine.match(/,/g) || []).length;
-  
-  return commaCount > tabCount ? ',' : '\t';
-}
-
-/**
- * Find CSV file name in ZIP that matches the dataset name
- * 
- * @param fileNames - Array of file names in the ZIP
- * @param datasetName - The dataset name to find
- * @returns The matching file name or undefined
- */
-function findCSVFileName(fileNames: string[], datasetName: string): string | undefined {
-  // Look for exact match first (e.g., "basal_data_1.csv" for "basal")
-  const pattern = new RegExp(`${datasetName}_data_\\d+\\.csv$`, 'i');
-  const match = fileNames.find(name => pattern.test(name));
-  
-  if (match) return match;
-  
-  // Fallback: look for any file containing the dataset name
-  return fileNames.find(name => 
-    name.toLowerCase().includes(datasetName.toLowerCase()) && 
-    name.toLowerCase().endsWith('.csv')
-  );
-}
-
 /**
  * Extract daily insulin summaries from uploaded file
  * Supports both combined insulin file format and separate basal/bolus files
@@ -206,29 +70,11 @@ export async function extractDailyInsulinSummaries(
     throw new Error('Invalid ZIP file');
   }
 
-  // Load the ZIP file
-  const zip = await JSZip.loadAsync(uploadedFile.file);
-
   // First check for combined insulin file (insulin_data_*.csv with daily totals)
-  const insulinFile = uploadedFile.zipMetadata.csvFiles.find(f => f.name === 'insulin');
-  if (insulinFile) {
-    // Combined insulin file with daily totals
-    if (insulinFile.sourceFiles && insulinFile.sourceFiles.length > 0) {
-      const sourceFileName = insulinFile.sourceFiles[0]; // Use first file
-      const fileData = zip.files[sourceFileName];
-      if (fileData) {
-        const content = await fileData.async('string');
-        const delimiter = detectDelimiter(content);
-        return parseDailyInsulinFromCSV(content, delimiter);
-      }
-    } else {
-      const fileName = findCSVFileName(Object.keys(zip.files), 'insulin');
-      if (fileName) {
-        const fileData = zip.files[fileName];
-        const content = await fileData.async('string');
-        const delimiter = detectDelimiter(content);
-        return parseDailyInsulinFromCSV(content, delimiter);
-      }
+  if (uploadedFile.zipMetadata.csvFiles.some(f => f.name === 'insulin')) {
+    const datasets = await getParsedDatasets(uploadedFile);
+    if (datasets.insulin) {
+      return dailyInsulinFromDataset(datasets.insulin);
     }
   }
 
@@ -250,65 +96,19 @@ export async function extractInsulinReadings(
     throw new Error('Invalid ZIP file');
   }
 
-  // Load the ZIP file
-  const zip = await JSZip.loadAsync(uploadedFile.file);
+  // Datasets are parsed once per ZIP and shared by all reports
+  const datasets = await getParsedDatasets(uploadedFile);
 
   // Note: Skip the combined 'insulin' file (manual insulin entries like Lantus)
   // as it's not pump data. We want to extract basal and bolus pump data instead.
-
-  let allReadings: InsulinReading[] = [];
-
-  // Extract basal insulin data
-  const basalFile = uploadedFile.zipMetadata.csvFiles.find(f => f.name === 'basal');
-  if (basalFile) {
-    if (basalFile.sourceFiles && basalFile.sourceFiles.length > 0) {
-      for (const sourceFileName of basalFile.sourceFiles) {
-        const fileData = zip.files[sourceFileName];
-        if (fileData) {
-          const content = await fileData.async('string');
-          const delimiter = detectDelimiter(content);
-          const readings = parseInsulinReadingsFromCSV(content, delimiter, 'basal');
-          allReadings = allReadings.concat(readings);
-        }
-      }
-    } else {
-      const fileName = findCSVFileName(Object.keys(zip.files), 'basal');
-      if (fileName) {
-        const fileData = zip.files[fileName];
-        const content = await fileData.async('string');
-        const delimiter = detectDelimiter(content);
-        const readings = parseInsulinReadingsFromCSV(content, delimiter, 'basal');
-        allReadings = allReadings.concat(readings);
-      }
-    }
-  }
-
-  // Extract bolus insulin data
-  const bolusFile = uploadedFile.zipMetadata.csvFiles.find(f => f.name === 'bolus');
-  if (bolusFile) {
-    if (bolusFile.sourceFiles && bolusFile.sourceFiles.length > 0) {
-      for (const sourceFileName of bolusFile.sourceFiles) {
-        const fileData = zip.files[sourceFileName];
-        if (fileData) {
-          const content = await fileData.async('string');
-          const delimiter = detectDelimiter(content);
-          const readings = parseInsulinReadingsFromCSV(content, delimiter, 'bolus');
-          allReadings = allReadings.concat(readings);
-        }
-      }
-    } else {
-      const fileName = findCSVFileName(Object.keys(zip.files), 'bolus');
-      if (fileName) {
-        const fileData = zip.files[fileName];
-        const content = await fileData.async('string');
-        const delimiter = detectDelimiter(content);
-        const readings = parseInsulinReadingsFromCSV(content, delimiter, 'bolus');
-        allReadings = allReadings.concat(readings);
-      }
-    }
-  }
-
-  return allReadings;
+  const basalReadings = datasets.basal
+    ? insulinReadingsFromDataset(datasets.basal, 'basal', getDatasetTimestampResolver(datasets, 'basal'))
+    : [];
+  const bolusReadings = datasets.bolus
+    ? insulinReadingsFromDataset(datasets.bolus, 'bolus', getDatasetTimestampResolver(datasets, 'bolus'))
+    : [];
+
+  return [...basalReadings, ...bolusReadings];
 }
 
 /**
@@ -417,17 +217,19 @@ export function prepareInsulinTimelineData(readings: InsulinReading[], date: str
 }
 
 /**
- * Calculate IOB (Insulin On Board) at a specific time using linear decay
+ * Calculate IOB (Insulin On Board) at a specific time
  * 
  * @param readings - Array of insulin readings
  * @param targetTime - Time to calculate IOB for
  * @param insulinDuration - Duration of insulin action in hours (e.g., 5)
+ * @param insulinModel - Insulin activity model (default linear decay)
  * @returns Active IOB in units
  */
 export function calculateIOB(
   readings: InsulinReading[],
   targetTime: Date,
-  insulinDuration: number
+  insulinDuration: number,
+  insulinModel: InsulinModelSettings = DEFAULT_INSULIN_MODEL_SETTINGS
 ): number {
   let totalIOB = 0;
 
@@ -438,16 +240,11 @@ export function calculateIOB(
       continue;
     }
 
-    // Calculate time elapsed since insulin was delivered (in hours)
-    const timeElapsedMs = targetTime.getTime() - reading.timestamp.getTime();
-    const timeElapsedHours = timeElapsedMs / (1000 * 60 * 60);
+    // Calculate time elapsed since insulin was delivered (in minutes)
+    const timeElapsedMinutes = (targetTime.getTime() - reading.timestamp.getTime()) / (1000 * 60);
 
-    // If insulin is still active (within duration window)
-    if (timeElapsedHours < insulinDuration) {
-      // Linear decay: IOB = dose * (1 - timeElapsed / duration)
-      const remainingFraction = 1 - (timeElapsedHours / insulinDuration);
-      totalIOB += reading.dose * remainingFraction;
-    }
+    // The model returns 0 once the insulin duration has passed
+    totalIOB += reading.dose * getInsulinOnBoardFraction(timeElapsedMinutes, insulinDuration, insulinModel);
   }
 
   return Math.round(totalIOB * 100) / 100; // Round to 2 decimals
@@ -460,12 +257,14 @@ export function calculateIOB(
  * @param readings - Array of insulin readings
  * @param date - Date to prepare data for (YYYY-MM-DD format)
  * @param insulinDuration - Duration of insulin action in hours (default 5)
+ * @param insulinModel - Insulin activity model (default linear decay)
  * @returns Array of hourly IOB data points (24 hours)
  */
 export function prepareHourlyIOBData(
   readings: InsulinReading[],
   date: string,
-  insulinDuration: number = 5
+  insulinDuration: number = 5,
+  insulinModel: InsulinModelSettings = DEFAULT_INSULIN_MODEL_SETTINGS
 ): Array<{
   hour: number;
   timeLabel: string;
@@ -508,7 +307,7 @@ export function prepareHourlyIOBData(
       .reduce((sum, r) => sum + r.dose, 0);
 
     // Calculate active IOB at this hour
-    const activeIOB = calculateIOB(readings, currentHour, insulinDuration);
+    const activeIOB = calculateIOB(readings, currentHour, insulinDuration, insulinModel);
 
     hourlyData.push({
       hour,
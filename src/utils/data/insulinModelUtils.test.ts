@@ -0,0 +1,109 @@
+/**
+ * Unit tests for insulin activity models
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { InsulinModelSettings } from '../../types';
+import {
+  DEFAULT_INSULIN_MODEL_SETTINGS,
+  getInsulinActivity,
+  getInsulinOnBoardFraction,
+  getInsulinPeakMinutes,
+} from './insulinModelUtils';
+
+const RAPID_ACTING: InsulinModelSettings = { model: 'exponential', preset: 'rapidActing', peakMinutes: 75 };
+const ULTRA_RAPID: InsulinModelSettings = { model: 'exponential', preset: 'ultraRapid', peakMinutes: 55 };
+const BIEXPONENTIAL: InsulinModelSettings = { model: 'biexponential', preset: 'rapidActing', peakMinutes: 75 };
+
+/**
+ * Fraction of insulin remaining for the Loop/OpenAPS exponential curves with a
+ * 6-hour DIA (LoopKit ExponentialInsulinModel, oref0 iob/calculate.js)
+ */
+const EXPONENTIAL_REFERENCE: Array<[minutes: number, rapidActing: number, ultraRapid: number]> = [
+  [30, 0.9295, 0.8885],
+  [60, 0.7793, 0.6807],
+  [90, 0.6091, 0.4778],
+  [120, 0.4498, 0.3144],
+  [180, 0.2082, 0.1147],
+  [240, 0.0727, 0.0316],
+  [300, 0.0139, 0.0048],
+];
+
+/**
+ * Find the minute with the highest activity
+ */
+function findPeakMinute(insulinDuration: number, settings: InsulinModelSettings): number {
+  let peak = 0;
+  for (let minute = 1; minute < insulinDuration * 60; minute++) {
+    if (getInsulinActivity(minute, insulinDuration, settings) > getInsulinActivity(peak, insulinDuration, settings)) {
+      peak = minute;
+    }
+  }
+  return peak;
+}
+
+describe('insulinModelUtils', () => {
+  describe('getInsulinPeakMinutes', () => {
+    it('should use the preset peak times', () => {
+      expect(getInsulinPeakMinutes(RAPID_ACTING)).toBe(75);
+      expect(getInsulinPeakMinutes({ ...ULTRA_RAPID, peakMinutes: 90 })).toBe(55);
+      expect(getInsulinPeakMinutes({ ...RAPID_ACTING, preset: 'custom', peakMinutes: 65 })).toBe(65);
+    });
+  });
+
+  describe('getInsulinOnBoardFraction', () => {
+    it('should decay linearly by default', () => {
+      expect(getInsulinOnBoardFraction(120, 5)).toBeCloseTo(0.6, 10);
+      expect(getInsulinOnBoardFraction(120, 5, DEFAULT_INSULIN_MODEL_SETTINGS)).toBeCloseTo(0.6, 10);
+    });
+
+    it.each(EXPONENTIAL_REFERENCE)('should match the exponential reference table at %i minutes', (minutes, rapidActing, ultraRapid) => {
+      expect(getInsulinOnBoardFraction(minutes, 6, RAPID_ACTING)).toBeCloseTo(rapidActing, 4);
+      expect(getInsulinOnBoardFraction(minutes, 6, ULTRA_RAPID)).toBeCloseTo(ultraRapid, 4);
+    });
+
+    it('should start at the full dose and end at the insulin duration for every model', () => {
+      for (const settings of [DEFAULT_INSULIN_MODEL_SETTINGS, RAPID_ACTING, ULTRA_RAPID, BIEXPONENTIAL]) {
+        expect(getInsulinOnBoardFraction(0, 5, settings)).toBe(1);
+        expect(getInsulinOnBoardFraction(1, 5, settings)).toBeGreaterThan(0.99);
+        expect(getInsulinOnBoardFraction(299, 5, settings)).toBeLessThan(0.01);
+        expect(getInsulinOnBoardFraction(300, 5, settings)).toBe(0);
+      }
+    });
+
+    it('should keep the biexponential curve between the linear and exponential curves early on', () => {
+      const biexponential = getInsulinOnBoardFraction(60, 6, BIEXPONENTIAL);
+      expect(biexponential).toBeGreaterThan(getInsulinOnBoardFraction(60, 6, RAPID_ACTING));
+      expect(biexponential).toBeLessThan(1);
+    });
+
+    it('should limit the peak for short insulin durations', () => {
+      const fraction = getInsulinOnBoardFraction(60, 2, RAPID_ACTING);
+      expect(fraction).toBeGreaterThan(0);
+      expect(fraction).toBeLessThan(1);
+    });
+  });
+
+  describe('getInsulinActivity', () => {
+    it('should peak at the configured time', () => {
+      expect(findPeakMinute(6, RAPID_ACTING)).toBe(75);
+      expect(findPeakMinute(6, ULTRA_RAPID)).toBe(55);
+      expect(findPeakMinute(6, BIEXPONENTIAL)).toBe(75);
+    });
+
+    it('should add up to the whole dose over the insulin duration', () => {
+      for (const settings of [DEFAULT_INSULIN_MODEL_SETTINGS, RAPID_ACTING, BIEXPONENTIAL]) {
+        let total = 0;
+        for (let minute = 0.5; minute < 300; minute++) {
+          total += getInsulinActivity(minute, 5, settings);
+        }
+        expect(total).toBeCloseTo(1, 3);
+      }
+    });
+
+    it('should be zero outside the insulin duration', () => {
+      expect(getInsulinActivity(-5, 5, RAPID_ACTING)).toBe(0);
+      expect(getInsulinActivity(300, 5, RAPID_ACTING)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Insulin activity models for IOB (Insulin On Board) calculations
+ *
+ * A model describes how much of a bolus is still active a given time after
+ * it was delivered. All models reach zero at the insulin duration (DIA).
+ *
+ * - Linear: insulin on board falls at a constant rate.
+ * - Exponential: the curve used by Loop and OpenAPS (oref0), published by
+ *   Dragan Maksimovic (LoopKit/Loop issue #388). Activity rises to a peak
+ *   and decays exponentially, scaled so it ends exactly at the DIA.
+ * - Biexponential: a two-compartment model where insulin is absorbed from the
+ *   subcutaneous depot and then eliminated, each with its own exponential
+ *   time constant (absorption twice as fast as elimination). The tail beyond
+ *   the DIA is cut off and the curve rescaled so it also ends at the DIA.
+ */
+
+import type { InsulinModelSettings, InsulinPeakPreset } from '../../types';
+
+/**
+ * Peak activity times of the presets in minutes (Loop/OpenAPS defaults)
+ */
+export const INSULIN_PEAK_PRESETS: Record<Exclude<InsulinPeakPreset, 'custom'>, number> = {
+  rapidActing: 75,
+  ultraRapid: 55,
+};
+
+/** Shortest custom peak time in minutes */
+export const MIN_PEAK_MINUTES = 30;
+/** Longest custom peak time in minutes */
+export const MAX_PEAK_MINUTES = 120;
+
+export const DEFAULT_INSULIN_MODEL_SETTINGS: InsulinModelSettings = {
+  model: 'linear',
+  preset: 'rapidActing',
+  peakMinutes: INSULIN_PEAK_PRESETS.rapidActing,
+};
+
+/**
+ * Longest peak time as a fraction of the insulin duration
+ * The exponential model is only defined for peaks before half the duration.
+ */
+const MAX_PEAK_FRACTION = 0.4;
+
+/** Ratio of the elimination to the absorption time constant of the biexponential model */
+const BIEXPONENTIAL_RATIO = 2;
+
+/**
+ * Get the peak activity time of the model settings
+ *
+ * @param settings - Insulin model settings
+ * @returns Peak time in minutes (the preset's value, or the custom peak)
+ */
+export function getInsulinPeakMinutes(settings: InsulinModelSettings): number {
+  return settings.preset === 'custom'
+    ? settings.peakMinutes
+    : INSULIN_PEAK_PRESETS[settings.preset];
+}
+
+/**
+ * Peak time used for a given insulin duration
+ */
+function getEffectivePeakMinutes(settings: InsulinModelSettings, durationMinutes: number): number {
+  return Math.min(getInsulinPeakMinutes(settings), durationMinutes * MAX_PEAK_FRACTION);
+}
+
+/**
+ * Parameters of the exponential model (tau: decay time constant, a: rise time factor, S: auxiliary scale factor)
+ */
+function getExponentialParameters(peakMinutes: number, durationMinutes: number) {
+  const tau = peakMinutes * (1 - peakMinutes / durationMinutes) / (1 - 2 * peakMinutes / durationMinutes);
+  const a = 2 * tau / durationMinutes;
+  const S = 1 / (1 - a + (1 + a) * Math.exp(-durationMinutes / tau));
+  return { tau, a, S };
+}
+
+/**
+ * Time constants of the biexponential model, chosen so its activity peaks at the given time
+ */
+function getBiexponentialTimeConstants(peakMinutes: number) {
+  const absorption = peakMinutes / (BIEXPONENTIAL_RATIO * Math.log(BIEXPONENTIAL_RATIO) / (BIEXPONENTIAL_RATIO - 1));
+  return { absorption, elimination: absorption * BIEXPONENTIAL_RATIO };
+}
+
+/**
+ * Fraction of a dose remaining in the biexponential model before the tail is cut off
+ */
+function biexponentialRemaining(minutes: number, absorption: number, elimination: number): number {
+  return (elimination * Math.exp(-minutes / elimination) - absorption * Math.exp(-minutes / absorption))
+    / (elimination - absorption);
+}
+
+/**
+ * Get the fraction of a dose still on board
+ *
+ * @param minutesSinceDose - Minutes since the insulin was delivered
+ * @param insulinDuration - Duration of insulin action in hours
+ * @param settings - Insulin model settings
+ * @returns Fraction between 0 and 1 (1 at delivery, 0 from the insulin duration on)
+ */
+export function getInsulinOnBoardFraction(
+  minutesSinceDose: number,
+  insulinDuration: number,
+  settings: InsulinModelSettings = DEFAULT_INSULIN_MODEL_SETTINGS
+): number {
+  const durationMinutes = insulinDuration * 60;
+  if (minutesSinceDose <= 0) return 1;
+  if (minutesSinceDose >= durationMinutes) return 0;
+
+  const t = minutesSinceDose;
+  const peak = getEffectivePeakMinutes(settings, durationMinutes);
+
+  switch (settings.model) {
+    case 'exponential': {
+      const { tau, a, S } = getExponentialParameters(peak, durationMinutes);
+      return 1 - S * (1 - a) * ((t * t / (tau * durationMinutes * (1 - a)) - t / tau - 1) * Math.exp(-t / tau) + 1);
+    }
+    case 'biexponential': {
+      const { absorption, elimination } = getBiexponentialTimeConstants(peak);
+      const tail = biexponentialRemaining(durationMinutes, absorption, elimination);
+      return (biexponentialRemaining(t, absorption, elimination) - tail) / (1 - tail);
+    }
+    default:
+      return 1 - t / durationMinutes;
+  }
+}
+
+/**
+ * Get the insulin activity of a dose (the rate at which it takes effect)
+ *
+ * @param minutesSinceDose - Minutes since the insulin was delivered
+ * @param insulinDuration - Duration of insulin action in hours
+ * @param settings - Insulin model settings
+ * @returns Fraction of the dose acting per minute (0 before delivery and after the insulin duration)
+ */
+export function getInsulinActivity(
+  minutesSinceDose: number,
+  insulinDuration: number,
+  settings: InsulinModelSettings = DEFAULT_INSULIN_MODEL_SETTINGS
+): number {
+  const durationMinutes = insulinDuration * 60;
+  if (minutesSinceDose < 0 || minutesSinceDose >= durationMinutes) return 0;
+
+  const t = minutesSinceDose;
+  const peak = getEffectivePeakMinutes(settings, durationMinutes);
+
+  switch (settings.model) {
+    case 'exponential': {
+      const { tau, S } = getExponentialParameters(peak, durationMinutes);
+      return (S / (tau * tau)) * t * (1 - t / durationMinutes) * Math.exp(-t / tau);
+    }
+    case 'biexponential': {
+      const { absorption, elimination } = getBiexponentialTimeConstants(peak);
+      const tail = biexponentialRemaining(durationMinutes, absorption, elimination);
+      return (Math.exp(-t / elimination) - Math.exp(-t / absorption)) / (elimination - absorption) / (1 - tail);
+    }
+    default:
+      return 1 / durationMinutes;
+  }
+}
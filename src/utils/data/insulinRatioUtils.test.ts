@@ -0,0 +1,189 @@
+/**
+ * Tests for ICR and ISF estimation utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getRatioTimeBlock,
+  findBolusOutcomeEvents,
+  calculateRatioEstimate,
+  estimateInsulinRatios,
+} from './insulinRatioUtils';
+import type { CarbEntry, GlucoseReading, InsulinReading } from '../../types';
+
+const BASE_DATE = new Date('2024-01-15T08:00:00');
+const MINUTE = 60 * 1000;
+
+function at(minutesFromStart: number): Date {
+  return new Date(BASE_DATE.getTime() + minutesFromStart * MINUTE);
+}
+
+function bolus(minutesFromStart: number, dose: number): InsulinReading {
+  return { timestamp: at(minutesFromStart), dose, insulinType: 'bolus' };
+}
+
+function carbs(minutesFromStart: number, grams: number): CarbEntry {
+  return { timestamp: at(minutesFromStart), carbs: grams, source: 'bolus' };
+}
+
+// Readings every 5 minutes, linear from startValue to endValue over the given span
+function createLinearReadings(startMinutes: number, spanMinutes: number, startValue: number, endValue: number): GlucoseReading[] {
+  const readings: GlucoseReading[] = [];
+  for (let m = 0; m <= spanMinutes; m += 5) {
+    readings.push({
+      timestamp: at(startMinutes + m),
+      value: startValue + (endValue - startValue) * (m / spanMinutes),
+    });
+  }
+  return readings;
+}
+
+describe('insulinRatioUtils', () => {
+  describe('getRatioTimeBlock', () => {
+    it('should classify hours into blocks', () => {
+      expect(getRatioTimeBlock(new Date('2024-01-15T03:00:00'))).toBe('night');
+      expect(getRatioTimeBlock(new Date('2024-01-15T08:00:00'))).toBe('morning');
+      expect(getRatioTimeBlock(new Date('2024-01-15T12:00:00'))).toBe('afternoon');
+      expect(getRatioTimeBlock(new Date('2024-01-15T23:59:00'))).toBe('evening');
+    });
+  });
+
+  describe('findBolusOutcomeEvents', () => {
+    it('should find an isolated correction bolus', () => {
+      const readings = createLinearReadings(-30, 300, 12.0, 7.0);
+      const { mealEvents, correctionEvents } = findBolusOutcomeEvents([bolus(0, 2)], [], readings);
+
+      expect(mealEvents).toHaveLength(0);
+      expect(correctionEvents).toHaveLength(1);
+      expect(correctionEvents[0].dose).toBe(2);
+      expect(correctionEvents[0].block).toBe('morning');
+      expect(correctionEvents[0].startGlucose).toBeCloseTo(11.5, 1);
+      expect(correctionEvents[0].endGlucose).toBeCloseTo(7.5, 1);
+    });
+
+    it('should attribute carbs to a meal bolus and combine split boluses', () => {
+      const readings = createLinearReadings(-30, 300, 6.0, 6.0);
+      const { mealEvents } = findBolusOutcomeEvents(
+        [bolus(0, 3), bolus(10, 2)],
+        [carbs(0, 50)],
+        readings
+      );
+
+      expect(mealEvents).toHaveLength(1);
+      expect(mealEvents[0].dose).toBe(5);
+      expect(mealEvents[0].carbs).toBe(50);
+    });
+
+    it('should exclude boluses followed by another bolus within the window', () => {
+      const readings = createLinearReadings(-30, 500, 10.0, 6.0);
+      const { correctionEvents } = findBolusOutcomeEvents([bolus(0, 2), bolus(120, 1)], [], readings);
+
+      // The first is followed by a bolus, the second preceded by one
+      expect(correctionEvents).toHaveLength(0);
+    });
+
+    it('should exclude corrections with carbs in the window', () => {
+      const readings = createLinearReadings(-30, 300, 12.0, 7.0);
+      const { mealEvents, correctionEvents } = findBolusOutcomeEvents([bolus(0, 2)], [carbs(90, 20)], readings);
+
+      expect(mealEvents).toHaveLength(0);
+      expect(correctionEvents).toHaveLength(0);
+    });
+
+    it('should exclude events that went low', () => {
+      const readings = createLinearReadings(-30, 300, 8.0, 3.0);
+      const { correctionEvents } = findBolusOutcomeEvents([bolus(0, 2)], [], readings);
+
+      expect(correctionEvents).toHaveLength(0);
+    });
+
+    it('should match each dose with its own meal and readings across days', () => {
+      const day = 24 * 60;
+      const readings = [
+        ...createLinearReadings(-30, 300, 6.0, 6.0),
+        ...createLinearReadings(day - 30, 300, 12.0, 7.0),
+        ...createLinearReadings(2 * day - 30, 300, 8.0, 8.0),
+      ];
+      const { mealEvents, correctionEvents } = findBolusOutcomeEvents(
+        [bolus(2 * day, 4), bolus(0, 5), bolus(day, 2)],
+        [carbs(0, 50), carbs(2 * day + 5, 40)],
+        readings
+      );
+
+      expect(mealEvents.map(event => [event.dose, event.carbs, event.startGlucose])).toEqual([[5, 50, 6], [4, 40, 8]]);
+      expect(correctionEvents).toHaveLength(1);
+      expect(correctionEvents[0].timestamp).toEqual(at(day));
+      expect(correctionEvents[0].endGlucose).toBeCloseTo(7.5, 1);
+    });
+
+    it('should exclude events without CGM coverage', () => {
+      const readings = createLinearReadings(-30, 60, 12.0, 11.0);
+      const { correctionEvents } = findBolusOutcomeEvents([bolus(0, 2)], [], readings);
+
+      expect(correctionEvents).toHaveLength(0);
+    });
+  });
+
+  describe('calculateRatioEstimate', () => {
+    it('should return nulls without values', () => {
+      expect(calculateRatioEstimate([])).toEqual({ block: null, mean: null, ciLow: null, ciHigh: null, eventCount: 0 });
+    });
+
+    it('should return a mean without interval for a single value', () => {
+      const estimate = calculateRatioEstimate([10], 'morning');
+      expect(estimate.mean).toBe(10);
+      expect(estimate.ciLow).toBeNull();
+      expect(estimate.block).toBe('morning');
+    });
+
+    it('should compute a t-based 95% confidence interval', () => {
+      const estimate = calculateRatioEstimate([8, 10, 12]);
+
+      // sd = 2, se = 2 / sqrt(3), t(2) = 4.303
+      expect(estimate.mean).toBe(10);
+      expect(estimate.ciLow).toBeCloseTo(10 - 4.303 * 2 / Math.sqrt(3), 3);
+      expect(estimate.ciHigh).toBeCloseTo(10 + 4.303 * 2 / Math.sqrt(3), 3);
+      expect(estimate.eventCount).toBe(3);
+    });
+  });
+
+  describe('estimateInsulinRatios', () => {
+    it('should estimate ISF from corrections and use it to adjust ICR', () => {
+      const day = 24 * 60;
+      const readings = [
+        // Day 1 morning: correction of 2 U drops 12 -> 8 (ISF 2)
+        ...createLinearReadings(0, 240, 12.0, 8.0),
+        // Day 2 morning: 50 g with 4 U ends 2 mmol/L higher -> needed 5 U -> ICR 10
+        ...createLinearReadings(day, 240, 6.0, 8.0),
+      ];
+      const result = estimateInsulinRatios(
+        [bolus(0, 2), bolus(day, 4)],
+        [carbs(day, 50)],
+        readings
+      );
+
+      expect(result.overallIsf.eventCount).toBe(1);
+      expect(result.isf.find(e => e.block === 'morning')!.mean).toBeCloseTo(2.0, 1);
+      expect(result.overallIcr.eventCount).toBe(1);
+      expect(result.icr.find(e => e.block === 'morning')!.mean).toBeCloseTo(10, 0);
+      expect(result.icr.find(e => e.block === 'night')!.eventCount).toBe(0);
+    });
+
+    it('should only use balanced meals without an ISF estimate', () => {
+      const day = 24 * 60;
+      const readings = [
+        ...createLinearReadings(-30, 300, 6.0, 6.5),
+        ...createLinearReadings(day - 30, 300, 6.0, 10.0),
+      ];
+      const result = estimateInsulinRatios(
+        [bolus(0, 5), bolus(day, 5)],
+        [carbs(0, 50), carbs(day, 50)],
+        readings
+      );
+
+      expect(result.overallIsf.mean).toBeNull();
+      expect(result.overallIcr.eventCount).toBe(1);
+      expect(result.overallIcr.mean).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,432 @@
+/**
+ * Utility functions for estimating insulin-to-carb ratio (ICR) and insulin
+ * sensitivity factor (ISF) from real boluses and the CGM trace that follows them
+ *
+ * Boluses less than 15 minutes apart are treated as one dose. A dose is only
+ * usable when nothing else interferes with its outcome window:
+ * - No other bolus in the 3 hours before or the 4 hours after
+ * - No other carbs in the 3 hours before or the 4 hours after (besides its own meal)
+ * - No reading below 3.9 mmol/L in the window (likely treated with unlogged carbs)
+ * - CGM readings available at the start, at the end and for most of the window
+ *
+ * Correction doses (no carbs) give ISF = (start glucose - end glucose) / dose.
+ * Meal doses give ICR = carbs / insulin actually needed, where the insulin needed
+ * is the dose adjusted by the glucose change divided by the ISF of the same block.
+ * Without an ISF estimate only meals that ended within 1 mmol/L of the start are used.
+ */
+
+import type { CarbEntry, GlucoseReading, InsulinReading } from '../../types';
+import { groupCarbEntriesIntoMeals } from './mealDataUtils';
+
+/**
+ * Time-of-day block used to group ratio estimates
+ */
+export type RatioTimeBlock = 'night' | 'morning' | 'afternoon' | 'evening';
+
+/**
+ * All time-of-day blocks in display order
+ */
+export const RATIO_TIME_BLOCKS: RatioTimeBlock[] = ['night', 'morning', 'afternoon', 'evening'];
+
+/**
+ * Hour ranges (start inclusive, end exclusive) of the time-of-day blocks
+ */
+export const RATIO_TIME_BLOCK_HOURS: Record<RatioTimeBlock, { start: number; end: number }> = {
+  night: { start: 0, end: 6 },
+  morning: { start: 6, end: 12 },
+  afternoon: { start: 12, end: 18 },
+  evening: { start: 18, end: 24 },
+};
+
+/**
+ * Boluses closer than this are combined into one dose (minutes)
+ */
+export const BOLUS_COMBINE_WINDOW_MINUTES = 15;
+
+/**
+ * Meals within this distance of a dose are attributed to it (minutes)
+ */
+export const CARB_MATCH_WINDOW_MINUTES = 30;
+
+/**
+ * No other bolus or carbs may precede the dose within this period (minutes)
+ */
+export const PRIOR_ACTIVITY_EXCLUSION_MINUTES = 180;
+
+/**
+ * Length of the outcome window after the dose (minutes)
+ */
+export const OUTCOME_WINDOW_MINUTES = 240;
+
+/**
+ * Maximum distance between a target time and the reading used for it (minutes)
+ */
+export const READING_TOLERANCE_MINUTES = 15;
+
+/**
+ * Minimum number of readings in the outcome window (half of 5-minute coverage)
+ */
+export const MIN_OUTCOME_READINGS = 24;
+
+/**
+ * Meals with fewer carbs are not used for ICR estimation (grams)
+ */
+export const MIN_RATIO_MEAL_CARBS = 10;
+
+/**
+ * Correction doses smaller than this are ignored (units)
+ */
+export const MIN_CORRECTION_DOSE = 0.5;
+
+/**
+ * Any reading below this in the outcome window excludes the event (mmol/L)
+ */
+const HYPO_EXCLUSION_MMOL = 3.9;
+
+/**
+ * Maximum glucose change for a meal to be used without an ISF estimate (mmol/L)
+ */
+const BALANCED_MEAL_DELTA_MMOL = 1.0;
+
+/**
+ * Plausible ranges; values outside are treated as confounded events
+ */
+const ICR_PLAUSIBLE_RANGE = { min: 2, max: 60 };
+const ISF_PLAUSIBLE_RANGE = { min: 0.3, max: 12 };
+
+/**
+ * Two-sided 95% critical values of Student's t distribution for 1-30 degrees of freedom
+ */
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+/**
+ * Two-sided 95% critical value of Student's t distribution
+ *
+ * @param degreesOfFreedom - Degrees of freedom (fractional values are rounded down)
+ * @returns Critical value, falling back to the normal approximation above 30 degrees of freedom
+ */
+export function getTCritical95(degreesOfFreedom: number): number {
+  const df = Math.max(1, Math.floor(degreesOfFreedom));
+  return df <= T_CRITICAL_95.length ? T_CRITICAL_95[df - 1] : 1.96;
+}
+
+/**
+ * A bolus dose together with its glucose outcome
+ */
+export interface BolusOutcomeEvent {
+  /** Time of the (first) bolus */
+  timestamp: Date;
+  /** Time-of-day block of the bolus */
+  block: RatioTimeBlock;
+  /** Total insulin in units */
+  dose: number;
+  /** Carbs attributed to the dose in grams (0 for corrections) */
+  carbs: number;
+  /** Glucose at the time of the bolus in mmol/L */
+  startGlucose: number;
+  /** Glucose at the end of the outcome window in mmol/L */
+  endGlucose: number;
+}
+
+/**
+ * Estimate of a ratio for one time-of-day block (or overall)
+ */
+export interface RatioEstimate {
+  /** Block the estimate belongs to (null for the overall estimate) */
+  block: RatioTimeBlock | null;
+  /** Mean ratio (null without usable events) */
+  mean: number | null;
+  /** Lower bound of the 95% confidence interval (null with fewer than 2 events) */
+  ciLow: number | null;
+  /** Upper bound of the 95% confidence interval (null with fewer than 2 events) */
+  ciHigh: number | null;
+  /** Number of usable events */
+  eventCount: number;
+}
+
+/**
+ * ICR and ISF estimates per time-of-day block
+ */
+export interface InsulinRatioEstimates {
+  /** Insulin-to-carb ratio in grams per unit */
+  icr: RatioEstimate[];
+  /** Insulin sensitivity factor in mmol/L per unit */
+  isf: RatioEstimate[];
+  overallIcr: RatioEstimate;
+  overallIsf: RatioEstimate;
+  /** Isolated meal boluses with a measured outcome */
+  mealEvents: BolusOutcomeEvent[];
+  /** Isolated correction boluses with a measured outcome */
+  correctionEvents: BolusOutcomeEvent[];
+}
+
+/**
+ * Get the time-of-day block of a date
+ *
+ * @param date - Date to classify
+ * @returns The block containing the hour of the date
+ */
+export function getRatioTimeBlock(date: Date): RatioTimeBlock {
+  const hour = date.getHours();
+  return RATIO_TIME_BLOCKS.find(block => {
+    const { start, end } = RATIO_TIME_BLOCK_HOURS[block];
+    return hour >= start && hour < end;
+  }) ?? 'evening';
+}
+
+/**
+ * Find the reading closest to a target time within a tolerance
+ *
+ * @param readings - Readings sorted by timestamp
+ * @param targetTime - Target time in milliseconds
+ * @param toleranceMs - Maximum allowed distance in milliseconds
+ * @returns The closest reading, or null when none is close enough
+ */
+function findClosestReading(
+  readings: GlucoseReading[],
+  targetTime: number,
+  toleranceMs: number
+): GlucoseReading | null {
+  let low = 0;
+  let high = readings.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (readings[mid].timestamp.getTime() < targetTime) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  let closest: GlucoseReading | null = null;
+  let closestDistance = Infinity;
+  for (const index of [low - 1, low]) {
+    const reading = readings[index];
+    if (!reading) continue;
+    const distance = Math.abs(reading.timestamp.getTime() - targetTime);
+    if (distance <= toleranceMs && distance < closestDistance) {
+      closest = reading;
+      closestDistance = distance;
+    }
+  }
+  return closest;
+}
+
+/**
+ * Combine boluses given within a few minutes of each other into single doses
+ *
+ * @param bolusReadings - Bolus insulin readings (any order)
+ * @returns Doses sorted by time, each stamped with its first bolus
+ */
+function combineBoluses(bolusReadings: InsulinReading[]): Array<{ timestamp: Date; dose: number }> {
+  const sorted = bolusReadings
+    .filter(r => r.insulinType === 'bolus' && r.dose > 0)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const windowMs = BOLUS_COMBINE_WINDOW_MINUTES * 60 * 1000;
+
+  const doses: Array<{ timestamp: Date; dose: number }> = [];
+  for (const reading of sorted) {
+    const last = doses[doses.length - 1];
+    if (last && reading.timestamp.getTime() - last.timestamp.getTime() <= windowMs) {
+      last.dose += reading.dose;
+    } else {
+      doses.push({ timestamp: reading.timestamp, dose: reading.dose });
+    }
+  }
+  return doses;
+}
+
+/**
+ * Find isolated boluses and measure the glucose change over the outcome window
+ *
+ * @param bolusReadings - Bolus insulin readings
+ * @param carbEntries - Carb entries (food dataset and bolus carbs)
+ * @param cgmReadings - CGM readings in mmol/L
+ * @returns Usable meal and correction events
+ */
+export function findBolusOutcomeEvents(
+  bolusReadings: InsulinReading[],
+  carbEntries: CarbEntry[],
+  cgmReadings: GlucoseReading[]
+): { mealEvents: BolusOutcomeEvent[]; correctionEvents: BolusOutcomeEvent[] } {
+  const mealEvents: BolusOutcomeEvent[] = [];
+  const correctionEvents: BolusOutcomeEvent[] = [];
+
+  const readings = [...cgmReadings].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  if (readings.length === 0) {
+    return { mealEvents, correctionEvents };
+  }
+
+  const doses = combineBoluses(bolusReadings);
+  const meals = groupCarbEntriesIntoMeals(carbEntries);
+  const minute = 60 * 1000;
+  const priorMs = PRIOR_ACTIVITY_EXCLUSION_MINUTES * minute;
+  const windowMs = OUTCOME_WINDOW_MINUTES * minute;
+  const matchMs = CARB_MATCH_WINDOW_MINUTES * minute;
+  const toleranceMs = READING_TOLERANCE_MINUTES * minute;
+
+  // Doses, meals and readings are sorted by time, so the windows around each
+  // dose only move forward: [mealStart, mealEnd) and [readingStart, readingEnd)
+  let mealStart = 0;
+  let mealEnd = 0;
+  let readingStart = 0;
+  let readingEnd = 0;
+
+  for (let i = 0; i < doses.length; i++) {
+    const { timestamp, dose } = doses[i];
+    const time = timestamp.getTime();
+
+    // No other bolus shortly before or during the outcome window
+    const previousDose = doses[i - 1];
+    const nextDose = doses[i + 1];
+    if (previousDose && time - previousDose.timestamp.getTime() < priorMs) continue;
+    if (nextDose && nextDose.timestamp.getTime() - time <= windowMs) continue;
+
+    // The dose's own meal is the one closest to it within the match window
+    while (mealStart < meals.length && meals[mealStart].timestamp.getTime() < time - priorMs) mealStart++;
+    mealEnd = Math.max(mealEnd, mealStart);
+    while (mealEnd < meals.length && meals[mealEnd].timestamp.getTime() <= time + windowMs) mealEnd++;
+    const nearbyMeals = meals.slice(mealStart, mealEnd);
+    const ownMeal = nearbyMeals
+      .filter(meal => Math.abs(meal.timestamp.getTime() - time) <= matchMs)
+      .sort((a, b) => Math.abs(a.timestamp.getTime() - time) - Math.abs(b.timestamp.getTime() - time))[0];
+    if (nearbyMeals.some(meal => meal !== ownMeal)) continue;
+
+    const carbs = ownMeal?.carbs ?? 0;
+    if (ownMeal && carbs < MIN_RATIO_MEAL_CARBS) continue;
+    if (!ownMeal && dose < MIN_CORRECTION_DOSE) continue;
+
+    // Glucose at the start and the end of the window
+    const start = findClosestReading(readings, time, toleranceMs);
+    const end = findClosestReading(readings, time + windowMs, toleranceMs);
+    if (!start || !end) continue;
+
+    while (readingStart < readings.length && readings[readingStart].timestamp.getTime() < time) readingStart++;
+    readingEnd = Math.max(readingEnd, readingStart);
+    while (readingEnd < readings.length && readings[readingEnd].timestamp.getTime() <= time + windowMs) readingEnd++;
+    const windowReadings = readings.slice(readingStart, readingEnd);
+    if (windowReadings.length < MIN_OUTCOME_READINGS) continue;
+    if (windowReadings.some(r => r.value < HYPO_EXCLUSION_MMOL)) continue;
+
+    const event: BolusOutcomeEvent = {
+      timestamp,
+      block: getRatioTimeBlock(timestamp),
+      dose,
+      carbs,
+      startGlucose: start.value,
+      endGlucose: end.value,
+    };
+
+    if (ownMeal) {
+      mealEvents.push(event);
+    } else {
+      correctionEvents.push(event);
+    }
+  }
+
+  return { mealEvents, correctionEvents };
+}
+
+/**
+ * Calculate the mean and 95% confidence interval (Student's t) of a set of values
+ *
+ * @param values - Per-event ratio values
+ * @param block - Block the values belong to (null for overall)
+ * @returns The ratio estimate
+ */
+export function calculateRatioEstimate(values: number[], block: RatioTimeBlock | null = null): RatioEstimate {
+  const n = values.length;
+  if (n === 0) {
+    return { block, mean: null, ciLow: null, ciHigh: null, eventCount: 0 };
+  }
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  if (n < 2) {
+    return { block, mean, ciLow: null, ciHigh: null, eventCount: n };
+  }
+
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1);
+  const margin = getTCritical95(n - 1) * Math.sqrt(variance / n);
+
+  return { block, mean, ciLow: mean - margin, ciHigh: mean + margin, eventCount: n };
+}
+
+/**
+ * Calculate the ISF of a correction event
+ *
+ * @param event - Correction event
+ * @returns ISF in mmol/L per unit, or null when implausible
+ */
+function calculateEventISF(event: BolusOutcomeEvent): number | null {
+  const isf = (event.startGlucose - event.endGlucose) / event.dose;
+  return isf >= ISF_PLAUSIBLE_RANGE.min && isf <= ISF_PLAUSIBLE_RANGE.max ? isf : null;
+}
+
+/**
+ * Calculate the effective ICR of a meal event
+ *
+ * @param event - Meal event
+ * @param isf - ISF used to convert the glucose change to insulin (null if unknown)
+ * @returns ICR in grams per unit, or null when it cannot be estimated
+ */
+function calculateEventICR(event: BolusOutcomeEvent, isf: number | null): number | null {
+  const delta = event.endGlucose - event.startGlucose;
+  let insulinNeeded: number;
+  if (isf !== null) {
+    insulinNeeded = event.dose + delta / isf;
+  } else if (Math.abs(delta) <= BALANCED_MEAL_DELTA_MMOL) {
+    insulinNeeded = event.dose;
+  } else {
+    return null;
+  }
+
+  if (insulinNeeded <= 0) return null;
+  const icr = event.carbs / insulinNeeded;
+  return icr >= ICR_PLAUSIBLE_RANGE.min && icr <= ICR_PLAUSIBLE_RANGE.max ? icr : null;
+}
+
+/**
+ * Estimate ICR and ISF per time-of-day block from boluses and their CGM outcome
+ *
+ * @param bolusReadings - Bolus insulin readings
+ * @param carbEntries - Carb entries (food dataset and bolus carbs)
+ * @param cgmReadings - CGM readings in mmol/L
+ * @returns Ratio estimates per block and overall, with the events used
+ */
+export function estimateInsulinRatios(
+  bolusReadings: InsulinReading[],
+  carbEntries: CarbEntry[],
+  cgmReadings: GlucoseReading[]
+): InsulinRatioEstimates {
+  const { mealEvents, correctionEvents } = findBolusOutcomeEvents(bolusReadings, carbEntries, cgmReadings);
+
+  const isfValues = correctionEvents.map(event => ({ event, value: calculateEventISF(event) }));
+  const validIsf = isfValues.filter((v): v is { event: BolusOutcomeEvent; value: number } => v.value !== null);
+  const overallIsf = calculateRatioEstimate(validIsf.map(v => v.value));
+  const isf = RATIO_TIME_BLOCKS.map(block =>
+    calculateRatioEstimate(validIsf.filter(v => v.event.block === block).map(v => v.value), block)
+  );
+
+  // Prefer the ISF of the same block, fall back to the overall ISF
+  const isfByBlock = new Map(isf.map(estimate => [estimate.block, estimate.mean ?? overallIsf.mean]));
+  const icrValues = mealEvents
+    .map(event => ({ event, value: calculateEventICR(event, isfByBlock.get(event.block) ?? null) }))
+    .filter((v): v is { event: BolusOutcomeEvent; value: number } => v.value !== null);
+  const overallIcr = calculateRatioEstimate(icrValues.map(v => v.value));
+  const icr = RATIO_TIME_BLOCKS.map(block =>
+    calculateRatioEstimate(icrValues.filter(v => v.event.block === block).map(v => v.value), block)
+  );
+
+  return {
+    icr,
+    isf,
+    overallIcr,
+    overallIsf,
+    mealEvents: icrValues.map(v => v.event),
+    correctionEvents: validIsf.map(v => v.event),
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * Tests for meal detection and post-prandial excursion utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getMealSlot,
+  groupCarbEntriesIntoMeals,
+  calculateMealExcursion,
+  calculateMealExcursions,
+  summarizeMealExcursions,
+  summarizeExcursionsByMealSlot,
+  summarizeExcursionsByDayOfWeek,
+  buildMealOverlayData,
+  type Meal,
+} from './mealDataUtils';
+import type { CarbEntry, GlucoseReading } from '../../types';
+
+const BASE_DATE = new Date('2024-01-15T08:00:00'); // Monday
+
+// Helper to create a carb entry
+function createEntry(minutesFromStart: number, carbs: number, source: CarbEntry['source'] = 'food', description?: string): CarbEntry {
+  return {
+    timestamp: new Date(BASE_DATE.getTime() + minutesFromStart * 60 * 1000),
+    carbs,
+    source,
+    description,
+  };
+}
+
+// Create readings array from values (5-minute intervals), starting at an offset
+function createReadings(values: number[], startMinutes = 0): GlucoseReading[] {
+  return values.map((value, index) => ({
+    timestamp: new Date(BASE_DATE.getTime() + (startMinutes + index * 5) * 60 * 1000),
+    value,
+  }));
+}
+
+// Create a meal at the base date
+function createMeal(minutesFromStart = 0, carbs = 50): Meal {
+  return groupCarbEntriesIntoMeals([createEntry(minutesFromStart, carbs)])[0];
+}
+
+// Typical excursion: baseline 6.0, rises 0.5 per reading to 10.0 at 40 min, back down to 6.0 at 80 min, then flat
+function createExcursionReadings(): GlucoseReading[] {
+  const rise = [6.0, 6.5, 7.0, 7.5, 8.0, 8.5, 9.0, 9.5, 10.0];
+  const fall = [9.5, 9.0, 8.5, 8.0, 7.5, 7.0, 6.5, 6.0];
+  const flat = Array(32).fill(5.8);
+  return createReadings([...rise, ...fall, ...flat]);
+}
+
+describe('mealDataUtils', () => {
+  describe('getMealSlot', () => {
+    it('should classify meals by hour of day', () => {
+      expect(getMealSlot(new Date('2024-01-15T07:30:00'))).toBe('breakfast');
+      expect(getMealSlot(new Date('2024-01-15T12:00:00'))).toBe('lunch');
+      expect(getMealSlot(new Date('2024-01-15T19:00:00'))).toBe('dinner');
+      expect(getMealSlot(new Date('2024-01-15T16:00:00'))).toBe('snack');
+      expect(getMealSlot(new Date('2024-01-15T23:30:00'))).toBe('snack');
+    });
+  });
+
+  describe('groupCarbEntriesIntoMeals', () => {
+    it('should return empty array for no entries', () => {
+      expect(groupCarbEntriesIntoMeals([])).toEqual([]);
+    });
+
+    it('should group entries within 30 minutes into one meal', () => {
+      const meals = groupCarbEntriesIntoMeals([
+        createEntry(0, 30, 'food', 'Toast'),
+        createEntry(20, 15, 'food', 'Juice'),
+        createEntry(240, 40, 'food', 'Pasta'),
+      ]);
+
+      expect(meals).toHaveLength(2);
+      expect(meals[0].carbs).toBe(45);
+      expect(meals[0].descriptions).toEqual(['Toast', 'Juice']);
+      expect(meals[0].slot).toBe('breakfast');
+      expect(meals[1].carbs).toBe(40);
+      expect(meals[1].slot).toBe('lunch');
+    });
+
+    it('should not double count a meal logged as food and with a bolus', () => {
+      const meals = groupCarbEntriesIntoMeals([
+        createEntry(0, 45, 'bolus'),
+        createEntry(5, 40, 'food', 'Cereal'),
+      ]);
+
+      expect(meals).toHaveLength(1);
+      expect(meals[0].carbs).toBe(45);
+      expect(meals[0].entries).toHaveLength(2);
+    });
+
+    it('should drop meals below the minimum carbs', () => {
+      const meals = groupCarbEntriesIntoMeals([createEntry(0, 3), createEntry(120, 20)]);
+      expect(meals).toHaveLength(1);
+      expect(meals[0].carbs).toBe(20);
+    });
+  });
+
+  describe('calculateMealExcursion', () => {
+    it('should measure peak, time to peak and return to baseline', () => {
+      const excursion = calculateMealExcursion(createMeal(), createExcursionReadings());
+
+      expect(excursion).not.toBeNull();
+      expect(excursion!.baseline).toBe(6.0);
+      expect(excursion!.peak).toBe(10.0);
+      expect(excursion!.peakDelta).toBe(4.0);
+      expect(excursion!.timeToPeakMinutes).toBe(40);
+      expect(excursion!.timeToBaselineMinutes).toBe(80);
+      expect(excursion!.windowMinutes).toBe(240);
+    });
+
+    it('should compute the area above baseline', () => {
+      const excursion = calculateMealExcursion(createMeal(), createExcursionReadings());
+
+      // Triangle from 0 to 80 minutes with height 4.0 mmol/L: 0.5 * 4.0 * (80/60) h
+      expect(excursion!.auc2h).toBeCloseTo(2.67, 1);
+      // Flat readings below baseline add no area
+      expect(excursion!.auc4h).toBeCloseTo(excursion!.auc2h, 5);
+    });
+
+    it('should use a reading just before the meal as baseline', () => {
+      const readings = [...createReadings([5.0], -5), ...createReadings(Array(30).fill(7.0), 5)];
+      const excursion = calculateMealExcursion(createMeal(), readings);
+
+      expect(excursion!.baseline).toBe(5.0);
+      expect(excursion!.peakDelta).toBe(2.0);
+    });
+
+    it('should return null when there is no baseline reading', () => {
+      const readings = createReadings(Array(30).fill(7.0), 30);
+      expect(calculateMealExcursion(createMeal(), readings)).toBeNull();
+    });
+
+    it('should return null when there are too few readings after the meal', () => {
+      const readings = createReadings([6.0, 7.0, 8.0]);
+      expect(calculateMealExcursion(createMeal(), readings)).toBeNull();
+    });
+
+    it('should report null time to baseline when glucose stays elevated', () => {
+      const readings = createReadings([6.0, ...Array(48).fill(9.0)]);
+      const excursion = calculateMealExcursion(createMeal(), readings);
+
+      expect(excursion!.timeToBaselineMinutes).toBeNull();
+    });
+
+    it('should end the window at the next meal', () => {
+      const excursion = calculateMealExcursion(
+        createMeal(),
+        createExcursionReadings(),
+        new Date(BASE_DATE.getTime() + 90 * 60 * 1000)
+      );
+
+      expect(excursion!.windowMinutes).toBe(90);
+      expect(excursion!.trace[excursion!.trace.length - 1].minutesFromMeal).toBeLessThanOrEqual(90);
+    });
+  });
+
+  describe('calculateMealExcursions', () => {
+    it('should measure every meal with enough data', () => {
+      const meals = groupCarbEntriesIntoMeals([createEntry(0, 50), createEntry(600, 30)]);
+      const excursions = calculateMealExcursions(meals, createExcursionReadings());
+
+      // Second meal has no CGM data
+      expect(excursions).toHaveLength(1);
+      expect(excursions[0].meal.carbs).toBe(50);
+    });
+  });
+
+  describe('summaries', () => {
+    it('should return null for empty groups', () => {
+      expect(summarizeMealExcursions([])).toBeNull();
+    });
+
+    it('should summarize excursions', () => {
+      const excursion = calculateMealExcursion(createMeal(), createExcursionReadings())!;
+      const flat = calculateMealExcursion(createMeal(), createReadings([6.0, ...Array(48).fill(8.0)]))!;
+      const summary = summarizeMealExcursions([excursion, flat])!;
+
+      expect(summary.count).toBe(2);
+      expect(summary.meanCarbs).toBe(50);
+      expect(summary.meanPeakDelta).toBe(3.0);
+      expect(summary.medianPeakDelta).toBe(3.0);
+      expect(summary.returnedToBaselineCount).toBe(1);
+      expect(summary.meanTimeToBaselineMinutes).toBe(80);
+    });
+
+    it('should group by meal slot and day of week', () => {
+      const meals = groupCarbEntriesIntoMeals([createEntry(0, 50)]);
+      const excursions = calculateMealExcursions(meals, createExcursionReadings());
+
+      const bySlot = summarizeExcursionsByMealSlot(excursions);
+      expect(bySlot).toHaveLength(1);
+      expect(bySlot[0].slot).toBe('breakfast');
+
+      const byDay = summarizeExcursionsByDayOfWeek(excursions);
+      expect(byDay).toHaveLength(1);
+      expect(byDay[0].day).toBe('Monday');
+    });
+  });
+
+  describe('buildMealOverlayData', () => {
+    it('should align traces on a fixed grid', () => {
+      const excursion = calculateMealExcursion(createMeal(), createExcursionReadings())!;
+      const overlay = buildMealOverlayData([excursion, excursion], 20, 80);
+
+      expect(overlay.map(p => p.minutesFromMeal)).toEqual([0, 20, 40, 60, 80]);
+      expect(overlay[0].traces).toEqual([0, 0]);
+      expect(overlay[2].median).toBe(4.0);
+      expect(overlay[4].median).toBe(0);
+    });
+
+    it('should leave gaps where no reading is close enough', () => {
+      const excursion = calculateMealExcursion(createMeal(), createExcursionReadings())!;
+      const overlay = buildMealOverlayData([excursion], 10, 300);
+
+      const last = overlay[overlay.length - 1];
+      expect(last.traces).toEqual([null]);
+      expect(last.median).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,491 @@
+/**
+ * Utility functions for meal detection and post-prandial excursion analysis
+ *
+ * Meals are built from carb entries (food dataset and bolus carbs):
+ * - Entries within 30 minutes of each other belong to the same meal
+ * - When a meal is logged in both sources, the larger per-source total is used
+ *
+ * For each meal the glucose excursion is measured against a pre-meal baseline:
+ * - Baseline: last CGM reading from 15 minutes before to 5 minutes after the meal
+ * - Peak: highest reading within 4 hours (or until the next meal starts)
+ * - Return to baseline: first reading after the peak at or below the baseline
+ * - Area above baseline: trapezoidal integral over the first 2h and 4h (mmol/L·h)
+ */
+
+import type { CarbEntry, DayOfWeek, GlucoseReading } from '../../types';
+import { getDayOfWeek } from './glucoseRangeGroupingUtils';
+import { calculatePercentile } from '../visualization/agpUtils';
+
+/**
+ * Meal slot identifier based on time of day
+ */
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+/**
+ * All meal slots in display order
+ */
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+/**
+ * Hour ranges (start inclusive, end exclusive) for main meal slots
+ * Meals outside these ranges are snacks
+ */
+export const MEAL_SLOT_HOURS: Record<Exclude<MealSlot, 'snack'>, { start: number; end: number }> = {
+  breakfast: { start: 5, end: 10 },
+  lunch: { start: 11, end: 15 },
+  dinner: { start: 17, end: 21 },
+};
+
+/**
+ * Carb entries closer than this are grouped into one meal (minutes)
+ */
+export const MEAL_GROUPING_WINDOW_MINUTES = 30;
+
+/**
+ * Meals with fewer carbs than this are ignored (grams)
+ */
+export const MIN_MEAL_CARBS = 5;
+
+/**
+ * How far before the meal to look for a baseline reading (minutes)
+ */
+export const BASELINE_LOOKBACK_MINUTES = 15;
+
+/**
+ * How far after the meal a reading may still serve as baseline (minutes)
+ */
+export const BASELINE_LOOKAHEAD_MINUTES = 5;
+
+/**
+ * Maximum length of the post-meal analysis window (minutes)
+ */
+export const EXCURSION_WINDOW_MINUTES = 240;
+
+/**
+ * Minimum number of readings in the first 2 hours for an excursion to be measured
+ */
+export const MIN_EXCURSION_READINGS = 12;
+
+/**
+ * Step between points of aligned overlay traces (minutes)
+ */
+export const OVERLAY_STEP_MINUTES = 10;
+
+/**
+ * A meal built from one or more carb entries
+ */
+export interface Meal {
+  /** Time of the first carb entry of the meal */
+  timestamp: Date;
+  /** Total carbs in grams */
+  carbs: number;
+  /** Food descriptions of the entries (if logged) */
+  descriptions: string[];
+  /** Meal slot based on time of day */
+  slot: MealSlot;
+  /** Carb entries that make up the meal */
+  entries: CarbEntry[];
+}
+
+/**
+ * A single point of a post-meal glucose trace
+ */
+export interface MealTracePoint {
+  /** Minutes since the meal */
+  minutesFromMeal: number;
+  /** Glucose value in mmol/L */
+  value: number;
+  /** Difference from baseline in mmol/L */
+  delta: number;
+}
+
+/**
+ * Post-prandial glucose excursion of a single meal
+ */
+export interface MealExcursion {
+  meal: Meal;
+  /** Pre-meal baseline glucose in mmol/L */
+  baseline: number;
+  /** Highest glucose value after the meal in mmol/L */
+  peak: number;
+  /** Peak minus baseline in mmol/L (0 when glucose never rose) */
+  peakDelta: number;
+  /** Minutes from meal to peak */
+  timeToPeakMinutes: number;
+  /** Minutes from meal until glucose returned to baseline (null if it did not within the window) */
+  timeToBaselineMinutes: number | null;
+  /** Area above baseline over the first 2 hours in mmol/L·h */
+  auc2h: number;
+  /** Area above baseline over the whole window (up to 4 hours) in mmol/L·h */
+  auc4h: number;
+  /** Length of the analysed window in minutes (shorter when another meal followed) */
+  windowMinutes: number;
+  /** Readings in the analysed window */
+  trace: MealTracePoint[];
+}
+
+/**
+ * Aggregated statistics over a group of meal excursions
+ */
+export interface MealExcursionSummary {
+  /** Number of measured meals */
+  count: number;
+  /** Mean carbs per meal in grams */
+  meanCarbs: number;
+  /** Mean peak delta in mmol/L */
+  meanPeakDelta: number;
+  /** Median peak delta in mmol/L */
+  medianPeakDelta: number;
+  /** Mean minutes to peak */
+  meanTimeToPeakMinutes: number;
+  /** Mean minutes back to baseline over meals that returned (null if none did) */
+  meanTimeToBaselineMinutes: number | null;
+  /** Number of meals that returned to baseline within the window */
+  returnedToBaselineCount: number;
+  /** Mean 2h area above baseline in mmol/L·h */
+  meanAuc2h: number;
+  /** Mean 4h area above baseline in mmol/L·h */
+  meanAuc4h: number;
+}
+
+/**
+ * Aligned overlay point: per-meal deltas plus median and interquartile range
+ */
+export interface MealOverlayPoint {
+  /** Minutes since the meal */
+  minutesFromMeal: number;
+  /** Delta from baseline for each excursion (null when no reading is close enough) */
+  traces: (number | null)[];
+  /** Median delta across excursions in mmol/L */
+  median: number | null;
+  /** 25th percentile delta in mmol/L */
+  p25: number | null;
+  /** 75th percentile delta in mmol/L */
+  p75: number | null;
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Round a value to the given number of decimals
+ */
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Get the meal slot for a given time
+ *
+ * @param date - Meal time
+ * @returns Meal slot based on hour of day
+ */
+export function getMealSlot(date: Date): MealSlot {
+  const hour = date.getHours();
+  for (const slot of ['breakfast', 'lunch', 'dinner'] as const) {
+    const { start, end } = MEAL_SLOT_HOURS[slot];
+    if (hour >= start && hour < end) {
+      return slot;
+    }
+  }
+  return 'snack';
+}
+
+/**
+ * Build a meal from a cluster of carb entries
+ * When both food and bolus entries exist, the larger per-source total is used
+ * to avoid counting the same meal twice
+ */
+function buildMeal(entries: CarbEntry[]): Meal {
+  const foodCarbs = entries.filter(e => e.source === 'food').reduce((sum, e) => sum + e.carbs, 0);
+  const bolusCarbs = entries.filter(e => e.source === 'bolus').reduce((sum, e) => sum + e.carbs, 0);
+  const descriptions = entries
+    .map(e => e.description)
+    .filter((d): d is string => !!d);
+
+  return {
+    timestamp: entries[0].timestamp,
+    carbs: Math.max(foodCarbs, bolusCarbs),
+    descriptions,
+    slot: getMealSlot(entries[0].timestamp),
+    entries,
+  };
+}
+
+/**
+ * Group carb entries into meals
+ *
+ * @param entries - Carb entries (any order)
+ * @param groupingWindowMinutes - Entries closer than this are grouped (default 30)
+ * @param minCarbs - Meals with fewer carbs are dropped (default 5 g)
+ * @returns Meals sorted by time
+ */
+export function groupCarbEntriesIntoMeals(
+  entries: CarbEntry[],
+  groupingWindowMinutes: number = MEAL_GROUPING_WINDOW_MINUTES,
+  minCarbs: number = MIN_MEAL_CARBS
+): Meal[] {
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const sorted = [...entries].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const meals: Meal[] = [];
+  let cluster: CarbEntry[] = [sorted[0]];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const gapMinutes = (sorted[i].timestamp.getTime() - cluster[cluster.length - 1].timestamp.getTime()) / MS_PER_MINUTE;
+    if (gapMinutes <= groupingWindowMinutes) {
+      cluster.push(sorted[i]);
+    } else {
+      meals.push(buildMeal(cluster));
+      cluster = [sorted[i]];
+    }
+  }
+  meals.push(buildMeal(cluster));
+
+  return meals.filter(meal => meal.carbs >= minCarbs);
+}
+
+/**
+ * Trapezoidal area above baseline for trace points up to a time limit
+ *
+ * @param trace - Trace points sorted by time
+ * @param limitMinutes - Integrate up to this many minutes after the meal
+ * @returns Area in mmol/L·h
+ */
+function areaAboveBaseline(trace: MealTracePoint[], limitMinutes: number): number {
+  let area = 0;
+  for (let i = 1; i < trace.length; i++) {
+    const prev = trace[i - 1];
+    const curr = trace[i];
+    if (prev.minutesFromMeal >= limitMinutes) break;
+
+    const endMinutes = Math.min(curr.minutesFromMeal, limitMinutes);
+    const span = curr.minutesFromMeal - prev.minutesFromMeal;
+    if (span <= 0) continue;
+
+    // Interpolate the delta at the limit when the segment crosses it
+    const endDelta = prev.delta + (curr.delta - prev.delta) * ((endMinutes - prev.minutesFromMeal) / span);
+    const width = (endMinutes - prev.minutesFromMeal) / 60;
+    area += ((Math.max(0, prev.delta) + Math.max(0, endDelta)) / 2) * width;
+  }
+  return area;
+}
+
+/**
+ * Measure the glucose excursion after a meal
+ *
+ * @param meal - The meal to analyse
+ * @param readings - Glucose readings sorted by timestamp
+ * @param nextMealTime - Start of the following meal, which ends the window early (optional)
+ * @param windowMinutes - Maximum window length (default 240)
+ * @returns Excursion, or null when there is no baseline or too few readings
+ */
+export function calculateMealExcursion(
+  meal: Meal,
+  readings: GlucoseReading[],
+  nextMealTime?: Date,
+  windowMinutes: number = EXCURSION_WINDOW_MINUTES
+): MealExcursion | null {
+  const mealTime = meal.timestamp.getTime();
+  const baselineStart = mealTime - BASELINE_LOOKBACK_MINUTES * MS_PER_MINUTE;
+  const baselineEnd = mealTime + BASELINE_LOOKAHEAD_MINUTES * MS_PER_MINUTE;
+
+  // Baseline: last reading at or before the meal, else first reading just after it
+  let baselineReading: GlucoseReading | undefined;
+  for (const reading of readings) {
+    const time = reading.timestamp.getTime();
+    if (time < baselineStart) continue;
+    if (time > baselineEnd) break;
+    if (time <= mealTime || !baselineReading) {
+      baselineReading = reading;
+    }
+  }
+  if (!baselineReading) {
+    return null;
+  }
+
+  const maxWindowEnd = mealTime + windowMinutes * MS_PER_MINUTE;
+  const windowEnd = nextMealTime
+    ? Math.min(maxWindowEnd, nextMealTime.getTime())
+    : maxWindowEnd;
+  const effectiveWindowMinutes = Math.round((windowEnd - mealTime) / MS_PER_MINUTE);
+
+  const baseline = baselineReading.value;
+  const trace: MealTracePoint[] = [{ minutesFromMeal: 0, value: baseline, delta: 0 }];
+  for (const reading of readings) {
+    const time = reading.timestamp.getTime();
+    if (time <= mealTime) continue;
+    if (time > windowEnd) break;
+    trace.push({
+      minutesFromMeal: (time - mealTime) / MS_PER_MINUTE,
+      value: reading.value,
+      delta: reading.value - baseline,
+    });
+  }
+
+  const readingsIn2h = trace.filter(p => p.minutesFromMeal > 0 && p.minutesFromMeal <= 120).length;
+  const requiredReadings = Math.min(MIN_EXCURSION_READINGS, Math.floor(Math.min(120, effectiveWindowMinutes) / 10));
+  if (readingsIn2h < Math.max(1, requiredReadings)) {
+    return null;
+  }
+
+  // Peak after the meal
+  let peakPoint = trace[0];
+  for (const point of trace) {
+    if (point.value > peakPoint.value) {
+      peakPoint = point;
+    }
+  }
+
+  // First return to baseline after the peak
+  let timeToBaselineMinutes: number | null = null;
+  if (peakPoint.minutesFromMeal > 0) {
+    const returnPoint = trace.find(p => p.minutesFromMeal > peakPoint.minutesFromMeal && p.value <= baseline);
+    timeToBaselineMinutes = returnPoint ? Math.round(returnPoint.minutesFromMeal) : null;
+  } else {
+    timeToBaselineMinutes = 0;
+  }
+
+  return {
+    meal,
+    baseline,
+    peak: peakPoint.value,
+    peakDelta: round(peakPoint.value - baseline, 2),
+    timeToPeakMinutes: Math.round(peakPoint.minutesFromMeal),
+    timeToBaselineMinutes,
+    auc2h: round(areaAboveBaseline(trace, 120), 2),
+    auc4h: round(areaAboveBaseline(trace, effectiveWindowMinutes), 2),
+    windowMinutes: effectiveWindowMinutes,
+    trace,
+  };
+}
+
+/**
+ * Measure excursions for all meals
+ * Each meal's window ends when the next meal starts
+ *
+ * @param meals - Meals sorted by time
+ * @param readings - Glucose readings (any order)
+ * @returns Measured excursions (meals without enough data are skipped)
+ */
+export function calculateMealExcursions(meals: Meal[], readings: GlucoseReading[]): MealExcursion[] {
+  const sortedReadings = [...readings].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const excursions: MealExcursion[] = [];
+
+  meals.forEach((meal, index) => {
+    const nextMeal = meals[index + 1];
+    const excursion = calculateMealExcursion(meal, sortedReadings, nextMeal?.timestamp);
+    if (excursion) {
+      excursions.push(excursion);
+    }
+  });
+
+  return excursions;
+}
+
+/**
+ * Summarize a group of meal excursions
+ *
+ * @param excursions - Excursions to summarize
+ * @returns Summary statistics, or null when the group is empty
+ */
+export function summarizeMealExcursions(excursions: MealExcursion[]): MealExcursionSummary | null {
+  if (excursions.length === 0) {
+    return null;
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const returned = excursions
+    .map(e => e.timeToBaselineMinutes)
+    .filter((m): m is number => m !== null);
+  const sortedDeltas = excursions.map(e => e.peakDelta).sort((a, b) => a - b);
+
+  return {
+    count: excursions.length,
+    meanCarbs: round(mean(excursions.map(e => e.meal.carbs)), 1),
+    meanPeakDelta: round(mean(sortedDeltas), 2),
+    medianPeakDelta: round(calculatePercentile(sortedDeltas, 50), 2),
+    meanTimeToPeakMinutes: Math.round(mean(excursions.map(e => e.timeToPeakMinutes))),
+    meanTimeToBaselineMinutes: returned.length > 0 ? Math.round(mean(returned)) : null,
+    returnedToBaselineCount: returned.length,
+    meanAuc2h: round(mean(excursions.map(e => e.auc2h)), 2),
+    meanAuc4h: round(mean(excursions.map(e => e.auc4h)), 2),
+  };
+}
+
+/**
+ * Summarize excursions per meal slot
+ *
+ * @param excursions - Excursions to group
+ * @returns Summary per slot in display order (slots without meals are omitted)
+ */
+export function summarizeExcursionsByMealSlot(
+  excursions: MealExcursion[]
+): Array<{ slot: MealSlot; summary: MealExcursionSummary }> {
+  return MEAL_SLOTS
+    .map(slot => ({ slot, summary: summarizeMealExcursions(excursions.filter(e => e.meal.slot === slot)) }))
+    .filter((g): g is { slot: MealSlot; summary: MealExcursionSummary } => g.summary !== null);
+}
+
+/**
+ * Summarize excursions per day of week (Monday first)
+ *
+ * @param excursions - Excursions to group
+ * @returns Summary per day (days without meals are omitted)
+ */
+export function summarizeExcursionsByDayOfWeek(
+  excursions: MealExcursion[]
+): Array<{ day: DayOfWeek; summary: MealExcursionSummary }> {
+  const days: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+  return days
+    .map(day => ({
+      day,
+      summary: summarizeMealExcursions(excursions.filter(e => getDayOfWeek(e.meal.timestamp) === day)),
+    }))
+    .filter((g): g is { day: DayOfWeek; summary: MealExcursionSummary } => g.summary !== null);
+}
+
+/**
+ * Build aligned post-meal traces for an overlay chart
+ * Each excursion is resampled on a fixed grid by taking the closest reading
+ * within half a step of each grid point
+ *
+ * @param excursions - Excursions to overlay
+ * @param stepMinutes - Grid step (default 10)
+ * @param windowMinutes - Grid length (default 240)
+ * @returns Overlay points from 0 to windowMinutes
+ */
+export function buildMealOverlayData(
+  excursions: MealExcursion[],
+  stepMinutes: number = OVERLAY_STEP_MINUTES,
+  windowMinutes: number = EXCURSION_WINDOW_MINUTES
+): MealOverlayPoint[] {
+  const points: MealOverlayPoint[] = [];
+  const tolerance = stepMinutes / 2;
+
+  for (let minute = 0; minute <= windowMinutes; minute += stepMinutes) {
+    const traces = excursions.map(excursion => {
+      let closest: MealTracePoint | null = null;
+      for (const point of excursion.trace) {
+        const distance = Math.abs(point.minutesFromMeal - minute);
+        if (distance <= tolerance && (!closest || distance < Math.abs(closest.minutesFromMeal - minute))) {
+          closest = point;
+        }
+      }
+      return closest ? round(closest.delta, 2) : null;
+    });
+
+    const values = traces.filter((v): v is number => v !== null).sort((a, b) => a - b);
+    points.push({
+      minutesFromMeal: minute,
+      traces,
+      median: values.length > 0 ? round(calculatePercentile(values, 50), 2) : null,
+      p25: values.length > 0 ? round(calculatePercentile(values, 25), 2) : null,
+      p75: values.length > 0 ? round(calculatePercentile(values, 75), 2) : null,
+    });
+  }
+
+  return points;
+}
@@ -0,0 +1,128 @@
+/**
+ * Tests for nocturnal analysis utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeNights,
+  convertNightAnalysesToCSV,
+  getSleepWindowHours,
+  summarizeNights,
+} from './nocturnalAnalysisUtils';
+import type { GlucoseReading } from '../../types';
+
+const MINUTE = 60 * 1000;
+
+// Readings every 5 minutes from the start time, with the value given by minutes from start
+function createNight(start: Date, hours: number, valueAt: (minutes: number) => number): GlucoseReading[] {
+  const readings: GlucoseReading[] = [];
+  for (let m = 0; m < hours * 60; m += 5) {
+    readings.push({ timestamp: new Date(start.getTime() + m * MINUTE), value: valueAt(m) });
+  }
+  return readings;
+}
+
+const NIGHT_START = new Date(2024, 0, 15, 23, 0);
+
+describe('nocturnalAnalysisUtils', () => {
+  describe('getSleepWindowHours', () => {
+    it('should handle windows across midnight', () => {
+      expect(getSleepWindowHours({ startHour: 23, endHour: 7 })).toBe(8);
+      expect(getSleepWindowHours({ startHour: 1, endHour: 9 })).toBe(8);
+    });
+  });
+
+  describe('analyzeNights', () => {
+    it('should classify a flat night as stable', () => {
+      const nights = analyzeNights(createNight(NIGHT_START, 8, () => 6.0));
+
+      expect(nights).toHaveLength(1);
+      expect(nights[0].date).toBe('2024-01-15');
+      expect(nights[0].classification).toBe('stable');
+      expect(nights[0].dawnSlope).toBe(0);
+      expect(nights[0].hadLow).toBe(false);
+    });
+
+    it('should measure the dawn rise and classify drift up', () => {
+      // Flat at 6.0 until 03:00, then rising 0.6 mmol/L per hour
+      const nights = analyzeNights(createNight(NIGHT_START, 8, m => 6.0 + Math.max(0, m - 240) * 0.01));
+
+      expect(nights[0].dawnSlope).toBeCloseTo(0.6, 2);
+      expect(nights[0].classification).toBe('driftUp');
+      expect(nights[0].nadirTime).toEqual(NIGHT_START);
+    });
+
+    it('should classify falling glucose as drift down and find the nadir', () => {
+      const nights = analyzeNights(createNight(NIGHT_START, 8, m => 9.0 - m * 0.006));
+
+      expect(nights[0].classification).toBe('driftDown');
+      expect(nights[0].nadirTime.getHours()).toBe(6);
+    });
+
+    it('should detect a low followed by a high', () => {
+      const nights = analyzeNights(createNight(NIGHT_START, 8, m => (m >= 120 && m < 150 ? 3.2 : m >= 300 ? 11.0 : 6.0)));
+
+      expect(nights[0].hadLow).toBe(true);
+      expect(nights[0].classification).toBe('lowThenHigh');
+      expect(nights[0].nadirGlucose).toBe(3.2);
+    });
+
+    it('should respect the sleep window', () => {
+      const readings = createNight(new Date(2024, 0, 15, 20, 0), 14, () => 6.0);
+
+      const nights = analyzeNights(readings, { startHour: 22, endHour: 6 });
+      expect(nights).toHaveLength(1);
+      expect(nights[0].start).toEqual(new Date(2024, 0, 15, 22, 0));
+      expect(nights[0].end).toEqual(new Date(2024, 0, 16, 6, 0));
+      expect(nights[0].dawnSlope).toBe(0);
+
+      // Waking at 04:00 leaves too little of the dawn window
+      expect(analyzeNights(readings, { startHour: 22, endHour: 4 })[0].dawnSlope).toBeNull();
+    });
+
+    it('should skip nights with incomplete coverage', () => {
+      const readings = createNight(NIGHT_START, 8, () => 6.0).filter(r => r.timestamp.getHours() !== 2);
+      expect(analyzeNights(readings)).toHaveLength(0);
+    });
+  });
+
+  describe('summarizeNights', () => {
+    it('should count classifications and dawn rises', () => {
+      const readings = [
+        ...createNight(NIGHT_START, 8, () => 6.0),
+        ...createNight(new Date(2024, 0, 16, 23, 0), 8, m => 6.0 + Math.max(0, m - 240) * 0.01),
+      ];
+      const summary = summarizeNights(analyzeNights(readings));
+
+      expect(summary.nightCount).toBe(2);
+      expect(summary.classificationCounts).toEqual({ stable: 1, driftUp: 1, driftDown: 0, lowThenHigh: 0 });
+      expect(summary.dawnNightCount).toBe(2);
+      expect(summary.dawnRiseNightCount).toBe(1);
+      expect(summary.meanDawnSlope).toBeCloseTo(0.3, 2);
+      expect(summary.medianNadirMinutes).toBe(23 * 60);
+    });
+
+    it('should handle no nights', () => {
+      const summary = summarizeNights([]);
+      expect(summary.nightCount).toBe(0);
+      expect(summary.meanDawnSlope).toBeNull();
+      expect(summary.medianNadirMinutes).toBeNull();
+    });
+  });
+
+  describe('convertNightAnalysesToCSV', () => {
+    it('should write one row per night', () => {
+      const csv = convertNightAnalysesToCSV(analyzeNights(createNight(NIGHT_START, 8, () => 6.0)));
+      const lines = csv.split('\n');
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toContain('Dawn_Slope_mmol_L_h');
+      expect(lines[1]).toContain('2024-01-15');
+      expect(lines[1]).toContain('stable');
+    });
+
+    it('should return an empty string without nights', () => {
+      expect(convertNightAnalysesToCSV([])).toBe('');
+    });
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * Utility functions for nocturnal glucose pattern analysis
+ *
+ * Each night is the user's sleep window (23:00-07:00 by default) and is only
+ * analysed when CGM coverage is complete enough:
+ * - First and last readings within an hour of the window edges, no gap over an hour
+ * - Start and end glucose are the means of the first and last 30 minutes
+ * - Dawn rise: least-squares slope between 03:00 and 08:00 (within the sleep window)
+ * - Somogyi-like rebound: a low followed by a high later in the same night
+ *
+ * Nights are classified as:
+ * - Low then high: a rebound as above
+ * - Drift up / drift down: glucose changed by at least 1.7 mmol/L (30 mg/dL) overnight
+ * - Stable: everything else
+ */
+
+import type { GlucoseReading, SleepWindow } from '../../types';
+import { calculateDriftPerHour } from './basalTestingUtils';
+import { formatDate } from './glucoseRangeGroupingUtils';
+import { convertToCSV } from './csvUtils';
+
+/**
+ * Default sleep window (23:00-07:00)
+ */
+export const DEFAULT_SLEEP_WINDOW: SleepWindow = { startHour: 23, endHour: 7 };
+
+/**
+ * Dawn phenomenon window (start hour inclusive, end hour exclusive)
+ */
+export const DAWN_START_HOUR = 3;
+export const DAWN_END_HOUR = 8;
+
+/**
+ * Dawn slope from which a night counts as a dawn rise (mmol/L per hour)
+ */
+export const DAWN_RISE_THRESHOLD = 0.3;
+
+/**
+ * Overnight change from which a night drifts up or down (mmol/L)
+ */
+export const NIGHT_DRIFT_THRESHOLD = 1.7;
+
+/** Default low and high thresholds for rebound detection (mmol/L) */
+const DEFAULT_LOW_THRESHOLD = 3.9;
+const DEFAULT_HIGH_THRESHOLD = 10.0;
+
+/** Maximum distance of the first and last readings from the window edges, and maximum gap (minutes) */
+const MAX_COVERAGE_GAP_MINUTES = 60;
+
+/** Length of the start and end averages (minutes) */
+const EDGE_AVERAGE_MINUTES = 30;
+
+/** Minimum span of dawn readings for a slope (minutes) */
+const MIN_DAWN_SPAN_MINUTES = 120;
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+/**
+ * Overall pattern of a night
+ */
+export type NightClassification = 'stable' | 'driftUp' | 'driftDown' | 'lowThenHigh';
+
+/**
+ * All night classifications in display order
+ */
+export const NIGHT_CLASSIFICATIONS: NightClassification[] = ['stable', 'driftUp', 'driftDown', 'lowThenHigh'];
+
+/**
+ * Analysis of a single night
+ */
+export interface NightAnalysis {
+  /** Date the sleep window starts on (YYYY-MM-DD) */
+  date: string;
+  start: Date;
+  end: Date;
+  /** Mean glucose in the first 30 minutes (mmol/L) */
+  startGlucose: number;
+  /** Mean glucose in the last 30 minutes (mmol/L) */
+  endGlucose: number;
+  nadirGlucose: number;
+  nadirTime: Date;
+  peakGlucose: number;
+  /** Dawn slope in mmol/L per hour (null when the dawn window is not covered) */
+  dawnSlope: number | null;
+  /** Whether glucose went below the low threshold */
+  hadLow: boolean;
+  classification: NightClassification;
+}
+
+/**
+ * Options for nocturnal analysis
+ */
+export interface NocturnalAnalysisOptions {
+  /** Low threshold in mmol/L (default 3.9) */
+  lowThreshold?: number;
+  /** High threshold in mmol/L (default 10.0) */
+  highThreshold?: number;
+}
+
+/**
+ * Summary of analysed nights
+ */
+export interface NocturnalSummary {
+  nightCount: number;
+  classificationCounts: Record<NightClassification, number>;
+  /** Nights with a dawn slope */
+  dawnNightCount: number;
+  /** Nights with a dawn slope at or above the threshold */
+  dawnRiseNightCount: number;
+  /** Mean dawn slope in mmol/L per hour (null without dawn data) */
+  meanDawnSlope: number | null;
+  /** Median nadir time as minutes after midnight (null without nights) */
+  medianNadirMinutes: number | null;
+  /** Nights with their nadir in each clock hour */
+  nadirHourCounts: number[];
+}
+
+/**
+ * Sleep window length in hours
+ */
+export function getSleepWindowHours(sleepWindow: SleepWindow): number {
+  return (sleepWindow.endHour - sleepWindow.startHour + 24) % 24 || 24;
+}
+
+/**
+ * Start of the sleep window a reading belongs to, or null outside the window
+ */
+function getNightStart(timestamp: Date, sleepWindow: SleepWindow): Date | null {
+  const hour = timestamp.getHours();
+  const { startHour, endHour } = sleepWindow;
+  const crossesMidnight = startHour >= endHour;
+  const inWindow = crossesMidnight
+    ? hour >= startHour || hour < endHour
+    : hour >= startHour && hour < endHour;
+  if (!inWindow) return null;
+
+  const start = new Date(timestamp.getFullYear(), timestamp.getMonth(), timestamp.getDate(), startHour);
+  if (crossesMidnight && hour < endHour) {
+    start.setDate(start.getDate() - 1);
+  }
+  return start;
+}
+
+/**
+ * Analyse one night of readings, or return null when coverage is incomplete
+ */
+function analyzeNight(
+  nightStart: Date,
+  readings: GlucoseReading[],
+  sleepWindow: SleepWindow,
+  lowThreshold: number,
+  highThreshold: number
+): NightAnalysis | null {
+  const startTime = nightStart.getTime();
+  const endTime = startTime + getSleepWindowHours(sleepWindow) * MS_PER_HOUR;
+  const maxGap = MAX_COVERAGE_GAP_MINUTES * MS_PER_MINUTE;
+
+  if (readings[0].timestamp.getTime() - startTime > maxGap) return null;
+  if (endTime - readings[readings.length - 1].timestamp.getTime() > maxGap) return null;
+  for (let i = 1; i < readings.length; i++) {
+    if (readings[i].timestamp.getTime() - readings[i - 1].timestamp.getTime() > maxGap) return null;
+  }
+
+  const mean = (values: GlucoseReading[]) => values.reduce((sum, r) => sum + r.value, 0) / values.length;
+  const edge = EDGE_AVERAGE_MINUTES * MS_PER_MINUTE;
+  const first = readings.filter(r => r.timestamp.getTime() < readings[0].timestamp.getTime() + edge);
+  const last = readings.filter(r => r.timestamp.getTime() > readings[readings.length - 1].timestamp.getTime() - edge);
+  const startGlucose = mean(first);
+  const endGlucose = mean(last);
+
+  let nadir = readings[0];
+  let peak = readings[0];
+  for (const reading of readings) {
+    if (reading.value < nadir.value) nadir = reading;
+    if (reading.value > peak.value) peak = reading;
+  }
+
+  // Dawn slope from 03:00 to 08:00 on the morning of this night
+  const dawnStart = new Date(endTime);
+  dawnStart.setHours(DAWN_START_HOUR, 0, 0, 0);
+  if (dawnStart.getTime() >= endTime) dawnStart.setDate(dawnStart.getDate() - 1);
+  const dawnEnd = new Date(dawnStart);
+  dawnEnd.setHours(DAWN_END_HOUR);
+  const dawnReadings = readings.filter(r => r.timestamp >= dawnStart && r.timestamp < dawnEnd);
+  const dawnSpan = dawnReadings.length >= 2
+    ? dawnReadings[dawnReadings.length - 1].timestamp.getTime() - dawnReadings[0].timestamp.getTime()
+    : 0;
+  const dawnSlope = dawnSpan >= MIN_DAWN_SPAN_MINUTES * MS_PER_MINUTE
+    ? Math.round(calculateDriftPerHour(dawnReadings) * 100) / 100
+    : null;
+
+  // Rebound: a high after the first low of the night
+  const firstLowIndex = readings.findIndex(r => r.value < lowThreshold);
+  const hadLow = firstLowIndex !== -1;
+  const rebound = hadLow && readings.slice(firstLowIndex + 1).some(r => r.value > highThreshold);
+
+  const change = endGlucose - startGlucose;
+  let classification: NightClassification = 'stable';
+  if (rebound) {
+    classification = 'lowThenHigh';
+  } else if (change >= NIGHT_DRIFT_THRESHOLD) {
+    classification = 'driftUp';
+  } else if (change <= -NIGHT_DRIFT_THRESHOLD) {
+    classification = 'driftDown';
+  }
+
+  return {
+    date: formatDate(nightStart),
+    start: nightStart,
+    end: new Date(endTime),
+    startGlucose: Math.round(startGlucose * 10) / 10,
+    endGlucose: Math.round(endGlucose * 10) / 10,
+    nadirGlucose: nadir.value,
+    nadirTime: nadir.timestamp,
+    peakGlucose: peak.value,
+    dawnSlope,
+    hadLow,
+    classification,
+  };
+}
+
+/**
+ * Analyse every night with enough CGM coverage
+ *
+ * @param readings - CGM readings in mmol/L (any order)
+ * @param sleepWindow - Usual sleep window
+ * @param options - Low and high thresholds for rebound detection
+ * @returns One analysis per covered night, oldest first
+ */
+export function analyzeNights(
+  readings: GlucoseReading[],
+  sleepWindow: SleepWindow = DEFAULT_SLEEP_WINDOW,
+  options: NocturnalAnalysisOptions = {}
+): NightAnalysis[] {
+  const { lowThreshold = DEFAULT_LOW_THRESHOLD, highThreshold = DEFAULT_HIGH_THRESHOLD } = options;
+  const sorted = [...readings].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const nights = new Map<number, GlucoseReading[]>();
+  for (const reading of sorted) {
+    const nightStart = getNightStart(reading.timestamp, sleepWindow);
+    if (!nightStart) continue;
+    const key = nightStart.getTime();
+    const nightReadings = nights.get(key);
+    if (nightReadings) {
+      nightReadings.push(reading);
+    } else {
+      nights.set(key, [reading]);
+    }
+  }
+
+  const analyses: NightAnalysis[] = [];
+  for (const [key, nightReadings] of nights) {
+    const analysis = analyzeNight(new Date(key), nightReadings, sleepWindow, lowThreshold, highThreshold);
+    if (analysis) analyses.push(analysis);
+  }
+  return analyses;
+}
+
+/**
+ * Summarise analysed nights
+ *
+ * @param nights - Night analyses
+ * @returns Classification counts, dawn rise statistics and nadir timing
+ */
+export function summarizeNights(nights: NightAnalysis[]): NocturnalSummary {
+  const classificationCounts: Record<NightClassification, number> = { stable: 0, driftUp: 0, driftDown: 0, lowThenHigh: 0 };
+  const nadirHourCounts = new Array<number>(24).fill(0);
+  for (const night of nights) {
+    classificationCounts[night.classification]++;
+    nadirHourCounts[night.nadirTime.getHours()]++;
+  }
+
+  const dawnSlopes = nights.map(n => n.dawnSlope).filter((slope): slope is number => slope !== null);
+
+  // Nadir times are ordered from the start of each night so that 23:30 comes before 02:00
+  const nadirOffsets = nights
+    .map(n => n.nadirTime.getTime() - n.start.getTime())
+    .sort((a, b) => a - b);
+  let medianNadirMinutes: number | null = null;
+  if (nights.length > 0) {
+    const startMinutes = nights[0].start.getHours() * 60;
+    const medianOffset = nadirOffsets[Math.floor((nadirOffsets.length - 1) / 2)];
+    medianNadirMinutes = Math.round(startMinutes + medianOffset / MS_PER_MINUTE) % (24 * 60);
+  }
+
+  return {
+    nightCount: nights.length,
+    classificationCounts,
+    dawnNightCount: dawnSlopes.length,
+    dawnRiseNightCount: dawnSlopes.filter(slope => slope >= DAWN_RISE_THRESHOLD).length,
+    meanDawnSlope: dawnSlopes.length > 0
+      ? Math.round((dawnSlopes.reduce((sum, s) => sum + s, 0) / dawnSlopes.length) * 100) / 100
+      : null,
+    medianNadirMinutes,
+    nadirHourCounts,
+  };
+}
+
+/**
+ * Convert night analyses to CSV format for AI prompts
+ */
+export function convertNightAnalysesToCSV(nights: NightAnalysis[]): string {
+  if (nights.length === 0) {
+    return '';
+  }
+
+  const formatClock = (date: Date) =>
+    `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+  const rows: (string | number)[][] = [[
+    'Night_Date',
+    'Classification',
+    'Start_Glucose_mmol_L',
+    'End_Glucose_mmol_L',
+    'Nadir_Glucose_mmol_L',
+    'Nadir_Time',
+    'Peak_Glucose_mmol_L',
+    'Dawn_Slope_mmol_L_h',
+    'Had_Low',
+  ]];
+
+  nights.forEach(night => {
+    rows.push([
+      night.date,
+      night.classification,
+      night.startGlucose.toFixed(1),
+      night.endGlucose.toFixed(1),
+      night.nadirGlucose.toFixed(1),
+      formatClock(night.nadirTime),
+      night.peakGlucose.toFixed(1),
+      night.dawnSlope !== null ? night.dawnSlope.toFixed(2) : 'N/A',
+      night.hadLow ? 'Yes' : 'No',
+    ]);
+  });
+
+  return convertToCSV(rows);
+}
@@ -0,0 +1,121 @@
+/**
+ * Tests for period comparison utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculatePeriodMetrics,
+  comparePeriods,
+  testMeanDifference,
+  MIN_DAYS_FOR_SIGNIFICANCE,
+} from './periodComparisonUtils';
+import type { GlucoseReading, GlucoseThresholds } from '../../types';
+
+const thresholds: GlucoseThresholds = {
+  veryHigh: 13.9,
+  high: 10.0,
+  low: 3.9,
+  veryLow: 3.0,
+};
+
+// Create hourly readings for consecutive days; valueForDay returns the readings' value on a given day and hour
+function createDays(
+  startDate: string,
+  days: number,
+  valueForDay: (day: number, hour: number) => number
+): GlucoseReading[] {
+  const readings: GlucoseReading[] = [];
+  const start = new Date(`${startDate}T00:30:00`);
+  for (let day = 0; day < days; day++) {
+    for (let hour = 0; hour < 24; hour++) {
+      const timestamp = new Date(start);
+      timestamp.setDate(start.getDate() + day);
+      timestamp.setHours(hour);
+      readings.push({ timestamp, value: valueForDay(day, hour) });
+    }
+  }
+  return readings;
+}
+
+describe('periodComparisonUtils', () => {
+  describe('calculatePeriodMetrics', () => {
+    it('should return empty metrics for no readings', () => {
+      const metrics = calculatePeriodMetrics([], thresholds);
+      expect(metrics.readingCount).toBe(0);
+      expect(metrics.timeInRange).toBe(0);
+      expect(metrics.gmi).toBeNull();
+      expect(metrics.hyposPerWeek).toBeNull();
+    });
+
+    it('should calculate range percentages and hypo counts', () => {
+      // 20 hours in range, 4 hours high, three-reading hypo at the start of day 0
+      const readings = createDays('2024-03-01', 2, (day, hour) => {
+        if (day === 0 && hour < 3) return 3.5;
+        if (hour >= 20) return 12;
+        return 6;
+      });
+
+      const metrics = calculatePeriodMetrics(readings, thresholds);
+
+      expect(metrics.readingCount).toBe(48);
+      expect(metrics.daysWithData).toBe(2);
+      expect(metrics.timeBelowRange).toBeCloseTo(6.3, 1);
+      expect(metrics.timeAboveRange).toBeCloseTo(16.7, 1);
+      expect(metrics.hypoCount).toBe(1);
+      expect(metrics.severeHypoCount).toBe(0);
+      expect(metrics.hyposPerWeek).toBeCloseTo(3.5);
+    });
+  });
+
+  describe('testMeanDifference', () => {
+    it('should require a minimum number of days in each sample', () => {
+      const few = Array(MIN_DAYS_FOR_SIGNIFICANCE - 1).fill(50);
+      expect(testMeanDifference(few, [60, 61, 62, 63])).toBe('insufficientData');
+    });
+
+    it('should flag a clear shift as significant', () => {
+      expect(testMeanDifference([50, 52, 48, 51, 49, 50], [70, 72, 68, 71, 69, 70])).toBe('significant');
+    });
+
+    it('should treat a small shift within daily noise as not significant', () => {
+      expect(testMeanDifference([40, 70, 55, 30, 80, 60], [45, 75, 50, 35, 82, 62])).toBe('notSignificant');
+    });
+
+    it('should handle constant samples', () => {
+      expect(testMeanDifference([60, 60, 60], [60, 60, 60])).toBe('notSignificant');
+      expect(testMeanDifference([60, 60, 60], [70, 70, 70])).toBe('significant');
+    });
+  });
+
+  describe('comparePeriods', () => {
+    it('should report deltas of period B minus period A', () => {
+      // Period A: 6 of 24 hours high every day; period B: 2 of 24 hours high
+      const readingsA = createDays('2024-03-01', 7, (day, hour) => (hour < 6 ? 11 + (day % 2) : 6 + (day % 3) * 0.3));
+      const readingsB = createDays('2024-03-15', 7, (day, hour) => (hour < 2 ? 11 + (day % 2) : 6 + (day % 3) * 0.3));
+
+      const comparison = comparePeriods(readingsA, readingsB, thresholds);
+      const tir = comparison.metrics.find(metric => metric.key === 'timeInRange')!;
+
+      expect(comparison.periodA.daysWithData).toBe(7);
+      expect(comparison.periodB.daysWithData).toBe(7);
+      expect(tir.valueA).toBe(75);
+      expect(tir.valueB).toBeCloseTo(91.7, 1);
+      expect(tir.delta).toBeCloseTo(16.7, 1);
+      expect(tir.higherIsBetter).toBe(true);
+      expect(tir.significance).toBe('significant');
+      expect(comparison.agpA).toHaveLength(comparison.agpB.length);
+    });
+
+    it('should leave values null for an empty period', () => {
+      const readingsB = createDays('2024-03-15', 3, () => 6);
+
+      const comparison = comparePeriods([], readingsB, thresholds);
+
+      for (const metric of comparison.metrics) {
+        expect(metric.valueA).toBeNull();
+        expect(metric.delta).toBeNull();
+        expect(metric.significance).toBe('insufficientData');
+      }
+    });
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Utility functions for comparing glucose metrics between two periods
+ *
+ * Used to answer questions like "did the pump settings change help?" by
+ * putting two arbitrary date ranges side by side. Overall metrics are
+ * computed from all readings of a period; the significance check compares
+ * the day-by-day values of each metric with Welch's t-test, because
+ * consecutive CGM readings are strongly correlated while separate days are
+ * close to independent.
+ */
+
+import type { AGPTimeSlotStats, GlucoseReading, GlucoseThresholds } from '../../types';
+import { calculateGlucoseRangeStats, calculatePercentage } from './glucoseRangeCoreUtils';
+import { formatDate } from './glucoseRangeGroupingUtils';
+import {
+  calculateAverageGlucose,
+  calculateBGRI,
+  calculateCV,
+  calculateDaysWithData,
+  calculateEstimatedHbA1c,
+} from './glucoseRangeMetricsUtils';
+import { calculateHypoStats } from './hypoDataUtils';
+import { getTCritical95 } from './insulinRatioUtils';
+import { calculateAGPStats } from '../visualization/agpUtils';
+
+/** Minimum number of days with data in each period before significance is assessed */
+export const MIN_DAYS_FOR_SIGNIFICANCE = 3;
+
+/**
+ * Metrics compared between the two periods
+ */
+export type ComparisonMetricKey =
+  | 'timeInRange'
+  | 'timeBelowRange'
+  | 'timeAboveRange'
+  | 'gmi'
+  | 'cv'
+  | 'lbgi'
+  | 'hbgi'
+  | 'hyposPerWeek';
+
+/**
+ * Outcome of the significance check for one metric
+ * - significant: the difference is unlikely to be day-to-day noise (p < 0.05)
+ * - notSignificant: the difference is within day-to-day noise
+ * - insufficientData: too few days in one of the periods to tell
+ */
+export type ComparisonSignificance = 'significant' | 'notSignificant' | 'insufficientData';
+
+/**
+ * Overall metrics of one period
+ */
+export interface PeriodMetrics {
+  readingCount: number;
+  daysWithData: number;
+  /** Percentage of readings between low and high thresholds */
+  timeInRange: number;
+  /** Percentage of readings below the low threshold */
+  timeBelowRange: number;
+  /** Percentage of readings above the high threshold */
+  timeAboveRange: number;
+  /** Glucose management indicator (%) */
+  gmi: number | null;
+  /** Coefficient of variation (%) */
+  cv: number | null;
+  lbgi: number | null;
+  hbgi: number | null;
+  hypoCount: number;
+  severeHypoCount: number;
+  /** Hypo events per 7 days with data */
+  hyposPerWeek: number | null;
+}
+
+/**
+ * Comparison of one metric between the two periods
+ */
+export interface MetricComparison {
+  key: ComparisonMetricKey;
+  valueA: number | null;
+  valueB: number | null;
+  /** Period B minus period A, null when either value is missing */
+  delta: number | null;
+  /** Whether an increase of the metric is an improvement */
+  higherIsBetter: boolean;
+  significance: ComparisonSignificance;
+}
+
+/**
+ * Result of comparing period A (e.g. before a change) with period B (e.g. after it)
+ */
+export interface PeriodComparison {
+  periodA: PeriodMetrics;
+  periodB: PeriodMetrics;
+  metrics: MetricComparison[];
+  agpA: AGPTimeSlotStats[];
+  agpB: AGPTimeSlotStats[];
+}
+
+/** Order of the compared metrics and whether an increase is an improvement */
+const COMPARISON_METRICS: Array<{ key: ComparisonMetricKey; higherIsBetter: boolean }> = [
+  { key: 'timeInRange', higherIsBetter: true },
+  { key: 'timeBelowRange', higherIsBetter: false },
+  { key: 'timeAboveRange', higherIsBetter: false },
+  { key: 'gmi', higherIsBetter: false },
+  { key: 'cv', higherIsBetter: false },
+  { key: 'lbgi', higherIsBetter: false },
+  { key: 'hbgi', higherIsBetter: false },
+  { key: 'hyposPerWeek', higherIsBetter: false },
+];
+
+type DailyValues = Record<ComparisonMetricKey, number[]>;
+
+/**
+ * Calculate time in, below and above range as percentages
+ */
+function calculateRangePercentages(
+  readings: GlucoseReading[],
+  thresholds: GlucoseThresholds
+): Pick<PeriodMetrics, 'timeInRange' | 'timeBelowRange' | 'timeAboveRange'> {
+  const stats = calculateGlucoseRangeStats(readings, thresholds, 3);
+  return {
+    timeInRange: calculatePercentage(stats.inRange, stats.total),
+    timeBelowRange: calculatePercentage(stats.low, stats.total),
+    timeAboveRange: calculatePercentage(stats.high, stats.total),
+  };
+}
+
+/**
+ * Group readings by calendar day (YYYY-MM-DD)
+ */
+function groupReadingsByDay(readings: GlucoseReading[]): Map<string, GlucoseReading[]> {
+  const days = new Map<string, GlucoseReading[]>();
+  for (const reading of readings) {
+    const date = formatDate(reading.timestamp);
+    const day = days.get(date);
+    if (day) {
+      day.push(reading);
+    } else {
+      days.set(date, [reading]);
+    }
+  }
+  return days;
+}
+
+/**
+ * Calculate the overall metrics of one period
+ *
+ * @param readings - Glucose readings of the period (values in mmol/L)
+ * @param thresholds - Glucose thresholds in mmol/L
+ * @returns Period metrics; value metrics are null when there are no readings
+ */
+export function calculatePeriodMetrics(readings: GlucoseReading[], thresholds: GlucoseThresholds): PeriodMetrics {
+  const sorted = [...readings].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const averageGlucose = calculateAverageGlucose(sorted);
+  const bgri = calculateBGRI(sorted);
+  const hypoStats = calculateHypoStats(sorted, thresholds);
+  const daysWithData = calculateDaysWithData(sorted);
+
+  return {
+    readingCount: sorted.length,
+    daysWithData,
+    ...calculateRangePercentages(sorted, thresholds),
+    gmi: averageGlucose !== null ? calculateEstimatedHbA1c(averageGlucose) : null,
+    cv: calculateCV(sorted),
+    lbgi: bgri?.lbgi ?? null,
+    hbgi: bgri?.hbgi ?? null,
+    hypoCount: hypoStats.totalCount,
+    severeHypoCount: hypoStats.severeCount,
+    hyposPerWeek: daysWithData > 0 ? (hypoStats.totalCount / daysWithData) * 7 : null,
+  };
+}
+
+/**
+ * Calculate the value of every compared metric for each day with data
+ *
+ * Hypo events are counted on the day they start.
+ */
+function calculateDailyValues(readings: GlucoseReading[], thresholds: GlucoseThresholds): DailyValues {
+  const sorted = [...readings].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const hyposByDay = new Map<string, number>();
+  for (const period of calculateHypoStats(sorted, thresholds).hypoPeriods) {
+    const date = formatDate(period.startTime);
+    hyposByDay.set(date, (hyposByDay.get(date) ?? 0) + 1);
+  }
+
+  const values: DailyValues = {
+    timeInRange: [],
+    timeBelowRange: [],
+    timeAboveRange: [],
+    gmi: [],
+    cv: [],
+    lbgi: [],
+    hbgi: [],
+    hyposPerWeek: [],
+  };
+
+  groupReadingsByDay(sorted).forEach((dayReadings, date) => {
+    const ranges = calculateRangePercentages(dayReadings, thresholds);
+    values.timeInRange.push(ranges.timeInRange);
+    values.timeBelowRange.push(ranges.timeBelowRange);
+    values.timeAboveRange.push(ranges.timeAboveRange);
+
+    const averageGlucose = calculateAverageGlucose(dayReadings);
+    if (averageGlucose !== null) values.gmi.push(calculateEstimatedHbA1c(averageGlucose));
+
+    const cv = calculateCV(dayReadings);
+    if (cv !== null) values.cv.push(cv);
+
+    const bgri = calculateBGRI(dayReadings);
+    if (bgri) {
+      values.lbgi.push(bgri.lbgi);
+      values.hbgi.push(bgri.hbgi);
+    }
+
+    values.hyposPerWeek.push((hyposByDay.get(date) ?? 0) * 7);
+  });
+
+  return values;
+}
+
+/**
+ * Check whether the means of two samples differ (two-sided Welch's t-test at the 5% level)
+ *
+ * @param samplesA - Values of the first sample
+ * @param samplesB - Values of the second sample
+ * @returns Significance of the difference between the sample means
+ */
+export function testMeanDifference(samplesA: number[], samplesB: number[]): ComparisonSignificance {
+  const nA = samplesA.length;
+  const nB = samplesB.length;
+  if (nA < MIN_DAYS_FOR_SIGNIFICANCE || nB < MIN_DAYS_FOR_SIGNIFICANCE) {
+    return 'insufficientData';
+  }
+
+  const meanA = samplesA.reduce((sum, v) => sum + v, 0) / nA;
+  const meanB = samplesB.reduce((sum, v) => sum + v, 0) / nB;
+  const varianceA = samplesA.reduce((sum, v) => sum + (v - meanA) ** 2, 0) / (nA - 1);
+  const varianceB = samplesB.reduce((sum, v) => sum + (v - meanB) ** 2, 0) / (nB - 1);
+  const seA = varianceA / nA;
+  const seB = varianceB / nB;
+  const standardError = Math.sqrt(seA + seB);
+
+  // Both samples are constant: any difference is real
+  if (standardError === 0) {
+    return meanA === meanB ? 'notSignificant' : 'significant';
+  }
+
+  // Welch–Satterthwaite degrees of freedom
+  const degreesOfFreedom = (seA + seB) ** 2 / (seA ** 2 / (nA - 1) + seB ** 2 / (nB - 1));
+  const t = Math.abs(meanB - meanA) / standardError;
+
+  return t > getTCritical95(degreesOfFreedom) ? 'significant' : 'notSignificant';
+}
+
+/**
+ * Compare glucose metrics and AGP percentiles of two periods
+ *
+ * @param readingsA - Readings of period A (e.g. before a settings change)
+ * @param readingsB - Readings of period B (e.g. after the change)
+ * @param thresholds - Glucose thresholds in mmol/L
+ * @returns Metrics of both periods, per-metric deltas (B - A) with significance, and AGP stats of both periods
+ */
+export function comparePeriods(
+  readingsA: GlucoseReading[],
+  readingsB: GlucoseReading[],
+  thresholds: GlucoseThresholds
+): PeriodComparison {
+  const periodA = calculatePeriodMetrics(readingsA, thresholds);
+  const periodB = calculatePeriodMetrics(readingsB, thresholds);
+  const dailyA = calculateDailyValues(readingsA, thresholds);
+  const dailyB = calculateDailyValues(readingsB, thresholds);
+
+  const metrics = COMPARISON_METRICS.map(({ key, higherIsBetter }): MetricComparison => {
+    const valueA = periodA.readingCount > 0 ? periodA[key] : null;
+    const valueB = periodB.readingCount > 0 ? periodB[key] : null;
+    return {
+      key,
+      valueA,
+      valueB,
+      delta: valueA !== null && valueB !== null ? valueB - valueA : null,
+      higherIsBetter,
+      significance: testMeanDifference(dailyA[key], dailyB[key]),
+    };
+  });
+
+  return {
+    periodA,
+    periodB,
+    metrics,
+    agpA: calculateAGPStats(readingsA),
+    agpB: calculateAGPStats(readingsB),
+  };
+}
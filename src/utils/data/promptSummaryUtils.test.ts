@@ -0,0 +1,150 @@
+/**
+ * Tests for pre-computed AI prompt summary utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getDataSpanDays,
+  convertHourlyGlucoseProfileToCSV,
+  convertDailyGlucoseInsulinSummaryToCSV,
+  convertMealExcursionSummaryToCSV,
+  convertHypoEpisodesToCSV,
+  convertDayOfWeekSummaryToCSV,
+} from './promptSummaryUtils';
+import { calculateMealExcursions, groupCarbEntriesIntoMeals } from './mealDataUtils';
+import type { DailyReport, GlucoseReading, InsulinReading } from '../../types';
+
+const MONDAY = new Date('2024-01-15T00:00:00');
+
+// Create readings every 5 minutes from a start date with a value per reading
+function createReadings(start: Date, values: number[]): GlucoseReading[] {
+  return values.map((value, index) => ({
+    timestamp: new Date(start.getTime() + index * 5 * 60 * 1000),
+    value,
+  }));
+}
+
+function createReport(date: string, inRange: number, totalInsulin?: number): DailyReport {
+  return {
+    date,
+    stats: { low: 10, inRange, high: 90 - inRange, total: 100 },
+    basalInsulin: totalInsulin !== undefined ? 20 : undefined,
+    bolusInsulin: totalInsulin !== undefined ? totalInsulin - 20 : undefined,
+    totalInsulin,
+  };
+}
+
+function createInsulin(time: string, dose: number, insulinType: InsulinReading['insulinType']): InsulinReading {
+  return { timestamp: new Date(time), dose, insulinType };
+}
+
+describe('promptSummaryUtils', () => {
+  describe('getDataSpanDays', () => {
+    it('should round the span of the readings up to whole days', () => {
+      const readings = createReadings(MONDAY, Array(2 * 288 + 10).fill(6));
+      expect(getDataSpanDays(readings)).toBe(3);
+      expect(getDataSpanDays(readings.slice(0, 1))).toBe(1);
+      expect(getDataSpanDays([])).toBe(0);
+    });
+  });
+
+  describe('convertHourlyGlucoseProfileToCSV', () => {
+    it('should compute percentiles per hour for all days, workdays and weekends', () => {
+      // Monday 07:00-07:55 rising from 3.0 to 14.0, Saturday 07:00 at 8.0
+      const monday = createReadings(new Date('2024-01-15T07:00:00'), [3.0, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14.0]);
+      const saturday = createReadings(new Date('2024-01-20T07:00:00'), [8.0]);
+
+      const lines = convertHourlyGlucoseProfileToCSV([...monday, ...saturday]).split('\n');
+
+      expect(lines[0]).toBe('Day Type,Hour,Readings,P10 (mmol/L),P25 (mmol/L),Median (mmol/L),P75 (mmol/L),P90 (mmol/L),Below Range (%),Above Range (%)');
+      expect(lines).toHaveLength(4);
+      expect(lines[1]).toMatch(/^All,07:00,13,/);
+      expect(lines[2]).toBe('Workday,07:00,12,4.1,5.8,8.5,11.3,12.9,8.3,33.3');
+      expect(lines[3]).toBe('Weekend,07:00,1,8.0,8.0,8.0,8.0,8.0,0,0');
+    });
+
+    it('should return an empty string without readings', () => {
+      expect(convertHourlyGlucoseProfileToCSV([])).toBe('');
+    });
+  });
+
+  describe('convertDailyGlucoseInsulinSummaryToCSV', () => {
+    it('should summarize glucose and insulin per day', () => {
+      const readings = createReadings(new Date('2024-01-15T08:00:00'), [3.5, 6.0, 8.0, 12.0]);
+      const bolus = [createInsulin('2024-01-15T08:00:00', 4, 'bolus'), createInsulin('2024-01-15T12:00:00', 2.5, 'bolus')];
+      const basal = [createInsulin('2024-01-15T00:00:00', 10, 'basal'), createInsulin('2024-01-16T00:00:00', 9, 'basal')];
+
+      const lines = convertDailyGlucoseInsulinSummaryToCSV(readings, bolus, basal).split('\n');
+
+      expect(lines[0]).toBe('Date,Day Of Week,Readings,Mean (mmol/L),In Range (%),Below Range (%),Above Range (%),CV (%),Bolus (U),Basal (U),Total Insulin (U),Boluses');
+      expect(lines[1]).toBe('2024-01-15,Monday,4,7.4,50,25,25,48.7,6.5,10.0,16.5,2');
+      // Days with insulin but no glucose readings are kept
+      expect(lines[2]).toBe('2024-01-16,Tuesday,0,,,,,,0.0,9.0,9.0,0');
+    });
+
+    it('should return an empty string without data', () => {
+      expect(convertDailyGlucoseInsulinSummaryToCSV([], [], [])).toBe('');
+    });
+  });
+
+  describe('convertMealExcursionSummaryToCSV', () => {
+    it('should summarize excursions per meal slot and day type', () => {
+      const rise = [6.0, 6.5, 7.0, 7.5, 8.0, 8.5, 9.0, 9.5, 10.0, 9.5, 9.0, 8.5, 8.0, 7.5, 7.0, 6.5, 6.0];
+      const readings = createReadings(new Date('2024-01-15T08:00:00'), [...rise, ...Array(32).fill(5.8)]);
+      const meals = groupCarbEntriesIntoMeals([{ timestamp: new Date('2024-01-15T08:00:00'), carbs: 50, source: 'food' }]);
+
+      const lines = convertMealExcursionSummaryToCSV(calculateMealExcursions(meals, readings)).split('\n');
+
+      expect(lines).toHaveLength(3);
+      expect(lines[1]).toMatch(/^breakfast,All,1,50,4\.0,4\.0,40,100,80,/);
+      expect(lines[2]).toMatch(/^breakfast,Workday,1,/);
+    });
+
+    it('should return an empty string without excursions', () => {
+      expect(convertMealExcursionSummaryToCSV([])).toBe('');
+    });
+  });
+
+  describe('convertHypoEpisodesToCSV', () => {
+    it('should list each hypo episode with its nadir', () => {
+      const readings = createReadings(new Date('2024-01-15T03:00:00'), [5.0, 3.8, 3.5, 2.9, 3.4, 4.5, 5.0, 5.2, 5.5]);
+
+      const lines = convertHypoEpisodesToCSV(readings).split('\n');
+
+      expect(lines[0]).toBe('Start,Day Of Week,Duration (min),Nadir (mmol/L),Is Severe');
+      expect(lines[1]).toMatch(/^2024-01-15 03:05,Monday,\d+,2\.9,true$/);
+    });
+
+    it('should return an empty string without hypos', () => {
+      expect(convertHypoEpisodesToCSV(createReadings(MONDAY, [6, 6, 6]))).toBe('');
+    });
+  });
+
+  describe('convertDayOfWeekSummaryToCSV', () => {
+    it('should summarize the reports per day of week, day type and all days', () => {
+      // Two Mondays, one Tuesday and one Saturday; the Tuesday has no insulin data
+      const reports = [
+        createReport('2024-01-15', 60, 40),
+        createReport('2024-01-22', 80, 50),
+        createReport('2024-01-16', 70),
+        createReport('2024-01-20', 50, 30),
+      ];
+
+      const lines = convertDayOfWeekSummaryToCSV(reports).split('\n');
+
+      expect(lines[0]).toBe('Day,Days,Mean In Range (%),SD In Range (%),Mean Below Range (%),Mean Above Range (%),Days With Insulin,Mean Basal (U),Mean Bolus (U),Mean Total Insulin (U)');
+      expect(lines.slice(1)).toEqual([
+        'Monday,2,70,14.1,10,20,2,20,25,45',
+        'Tuesday,1,70,,10,20,0,,,',
+        'Saturday,1,50,,10,40,1,20,10,30',
+        'All,4,65,12.9,10,25,3,20,20,40',
+        'Workdays,3,70,10.0,10,20,2,20,25,45',
+        'Weekends,1,50,,10,40,1,20,10,30',
+      ]);
+    });
+
+    it('should return an empty string without reports', () => {
+      expect(convertDayOfWeekSummaryToCSV([])).toBe('');
+    });
+  });
+});
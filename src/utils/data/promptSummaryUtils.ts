@@ -0,0 +1,394 @@
+/**
+ * Utility functions for pre-computed statistical summaries in AI prompts
+ *
+ * Raw CGM and insulin data of long periods does not fit the prompt size limit
+ * of the AI providers. These summaries are compact aggregates over the whole
+ * period, so an analysis can cover all days even when only the most recent
+ * raw data is included:
+ * - Hourly glucose profile (AGP percentiles) for all days, workdays and weekends
+ * - Daily glucose statistics and insulin totals
+ * - Post-meal excursions per meal slot
+ * - Table of hypoglycemia episodes
+ * - Day-of-week statistics of daily reports
+ *
+ * All glucose values are in mmol/L, like the raw CSV datasets.
+ */
+
+import type { DailyReport, DayOfWeek, GlucoseReading, GlucoseThresholds, InsulinReading } from '../../types';
+import { formatDate, getDayOfWeek, isWorkday } from './glucoseRangeGroupingUtils';
+import { calculatePercentage } from './glucoseRangeCoreUtils';
+import { calculateCV } from './glucoseRangeMetricsUtils';
+import { convertToDelimitedFormat } from './csvUtils';
+import { aggregateInsulinByDate } from './insulinDataUtils';
+import { calculateHypoStats } from './hypoDataUtils';
+import { MEAL_SLOTS, summarizeMealExcursions, type MealExcursion } from './mealDataUtils';
+import { calculatePercentile } from '../visualization/agpUtils';
+
+/**
+ * Glucose thresholds of the summaries (mmol/L), matching the fixed ranges of the prompts
+ */
+export const PROMPT_SUMMARY_THRESHOLDS: GlucoseThresholds = {
+  veryHigh: 13.9,
+  high: 10.0,
+  low: 3.9,
+  veryLow: 3.0,
+};
+
+/**
+ * Day type of a summary row
+ */
+type DayType = 'All' | 'Workday' | 'Weekend';
+
+const DAY_TYPES: DayType[] = ['All', 'Workday', 'Weekend'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a timestamp belongs to a day type
+ */
+function matchesDayType(timestamp: Date, dayType: DayType): boolean {
+  if (dayType === 'All') {
+    return true;
+  }
+  return isWorkday(getDayOfWeek(timestamp)) === (dayType === 'Workday');
+}
+
+const WEEK_DAYS: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+/**
+ * Mean of values rounded to one decimal, empty without values
+ */
+function mean(values: number[]): number | string {
+  return values.length > 0 ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10 : '';
+}
+
+/**
+ * Percentage of values matching a condition, rounded to one decimal
+ */
+function percentage(values: number[], predicate: (value: number) => boolean): number {
+  return Math.round((values.filter(predicate).length / values.length) * 1000) / 10;
+}
+
+/**
+ * Format a timestamp as local "YYYY-MM-DD HH:mm"
+ */
+function formatLocalDateTime(date: Date): string {
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${formatDate(date)} ${hours}:${minutes}`;
+}
+
+/**
+ * Get the number of days covered by glucose readings
+ *
+ * This is the span from the first to the last reading rounded up to whole days,
+ * so `filterGlucoseReadingsToLastDays(readings, days)` with this value keeps all readings.
+ *
+ * @param readings - Glucose readings (any order)
+ * @returns Number of days, 0 without readings
+ */
+export function getDataSpanDays(readings: GlucoseReading[]): number {
+  if (readings.length === 0) {
+    return 0;
+  }
+
+  let first = Infinity;
+  let last = -Infinity;
+  readings.forEach(reading => {
+    const time = reading.timestamp.getTime();
+    first = Math.min(first, time);
+    last = Math.max(last, time);
+  });
+
+  return Math.max(1, Math.ceil((last - first) / MS_PER_DAY));
+}
+
+/**
+ * Convert glucose readings to an hourly glucose profile CSV
+ *
+ * One row per hour of day for all days, workdays and weekends, with the AGP
+ * percentiles and the share of readings below and above range.
+ *
+ * @param readings - Glucose readings
+ * @param thresholds - Range used for the below/above percentages
+ * @returns CSV formatted string, empty without readings
+ */
+export function convertHourlyGlucoseProfileToCSV(
+  readings: GlucoseReading[],
+  thresholds: GlucoseThresholds = PROMPT_SUMMARY_THRESHOLDS
+): string {
+  if (readings.length === 0) {
+    return '';
+  }
+
+  const rows: (string | number)[][] = [[
+    'Day Type',
+    'Hour',
+    'Readings',
+    'P10 (mmol/L)',
+    'P25 (mmol/L)',
+    'Median (mmol/L)',
+    'P75 (mmol/L)',
+    'P90 (mmol/L)',
+    'Below Range (%)',
+    'Above Range (%)',
+  ]];
+
+  DAY_TYPES.forEach(dayType => {
+    const valuesByHour: number[][] = Array.from({ length: 24 }, () => []);
+    readings
+      .filter(reading => matchesDayType(reading.timestamp, dayType))
+      .forEach(reading => valuesByHour[reading.timestamp.getHours()].push(reading.value));
+
+    valuesByHour.forEach((values, hour) => {
+      if (values.length === 0) {
+        return;
+      }
+      const sorted = [...values].sort((a, b) => a - b);
+      rows.push([
+        dayType,
+        `${String(hour).padStart(2, '0')}:00`,
+        values.length,
+        ...[10, 25, 50, 75, 90].map(p => calculatePercentile(sorted, p).toFixed(1)),
+        percentage(values, v => v < thresholds.low),
+        percentage(values, v => v > thresholds.high),
+      ]);
+    });
+  });
+
+  return convertToDelimitedFormat(rows, 'csv');
+}
+
+/**
+ * Convert glucose and insulin data to a daily summary CSV
+ *
+ * One row per day with the glucose statistics and the insulin totals of the day.
+ *
+ * @param readings - Glucose readings
+ * @param bolusReadings - Bolus insulin readings
+ * @param basalReadings - Basal insulin readings
+ * @param thresholds - Range used for the time in range percentages
+ * @returns CSV formatted string, empty without data
+ */
+export function convertDailyGlucoseInsulinSummaryToCSV(
+  readings: GlucoseReading[],
+  bolusReadings: InsulinReading[],
+  basalReadings: InsulinReading[],
+  thresholds: GlucoseThresholds = PROMPT_SUMMARY_THRESHOLDS
+): string {
+  const readingsByDate = new Map<string, GlucoseReading[]>();
+  readings.forEach(reading => {
+    const date = formatDate(reading.timestamp);
+    const dayReadings = readingsByDate.get(date);
+    if (dayReadings) {
+      dayReadings.push(reading);
+    } else {
+      readingsByDate.set(date, [reading]);
+    }
+  });
+
+  const bolusCountByDate = new Map<string, number>();
+  bolusReadings.forEach(reading => {
+    const date = formatDate(reading.timestamp);
+    bolusCountByDate.set(date, (bolusCountByDate.get(date) ?? 0) + 1);
+  });
+
+  const insulinByDate = new Map(
+    aggregateInsulinByDate([
+      ...bolusReadings.map(r => ({ ...r, insulinType: 'bolus' as const })),
+      ...basalReadings.map(r => ({ ...r, insulinType: 'basal' as const })),
+    ]).map(summary => [summary.date, summary])
+  );
+
+  const dates = Array.from(new Set([...readingsByDate.keys(), ...insulinByDate.keys()])).sort();
+  if (dates.length === 0) {
+    return '';
+  }
+
+  const rows: (string | number)[][] = [[
+    'Date',
+    'Day Of Week',
+    'Readings',
+    'Mean (mmol/L)',
+    'In Range (%)',
+    'Below Range (%)',
+    'Above Range (%)',
+    'CV (%)',
+    'Bolus (U)',
+    'Basal (U)',
+    'Total Insulin (U)',
+    'Boluses',
+  ]];
+
+  dates.forEach(date => {
+    const values = (readingsByDate.get(date) ?? []).map(r => r.value);
+    const insulin = insulinByDate.get(date);
+    const cv = calculateCV(readingsByDate.get(date) ?? []);
+    const hasReadings = values.length > 0;
+
+    rows.push([
+      date,
+      getDayOfWeek(new Date(`${date}T00:00:00`)),
+      values.length,
+      hasReadings ? (values.reduce((sum, v) => sum + v, 0) / values.length).toFixed(1) : '',
+      hasReadings ? percentage(values, v => v >= thresholds.low && v <= thresholds.high) : '',
+      hasReadings ? percentage(values, v => v < thresholds.low) : '',
+      hasReadings ? percentage(values, v => v > thresholds.high) : '',
+      cv !== null ? cv.toFixed(1) : '',
+      insulin ? insulin.bolusTotal.toFixed(1) : '0.0',
+      insulin ? insulin.basalTotal.toFixed(1) : '0.0',
+      insulin ? insulin.totalInsulin.toFixed(1) : '0.0',
+      bolusCountByDate.get(date) ?? 0,
+    ]);
+  });
+
+  return convertToDelimitedFormat(rows, 'csv');
+}
+
+/**
+ * Convert meal excursions to a per meal slot summary CSV
+ *
+ * One row per meal slot and day type (all days, workdays, weekends) with meals.
+ *
+ * @param excursions - Measured meal excursions
+ * @returns CSV formatted string, empty without excursions
+ */
+export function convertMealExcursionSummaryToCSV(excursions: MealExcursion[]): string {
+  if (excursions.length === 0) {
+    return '';
+  }
+
+  const rows: (string | number)[][] = [[
+    'Meal Slot',
+    'Day Type',
+    'Meals',
+    'Mean Carbs (g)',
+    'Mean Peak Rise (mmol/L)',
+    'Median Peak Rise (mmol/L)',
+    'Mean Time To Peak (min)',
+    'Returned To Baseline (%)',
+    'Mean Time To Baseline (min)',
+    'Mean Area Above Baseline 2h (mmol/L·h)',
+  ]];
+
+  MEAL_SLOTS.forEach(slot => {
+    DAY_TYPES.forEach(dayType => {
+      const summary = summarizeMealExcursions(
+        excursions.filter(e => e.meal.slot === slot && matchesDayType(e.meal.timestamp, dayType))
+      );
+      if (!summary) {
+        return;
+      }
+      rows.push([
+        slot,
+        dayType,
+        summary.count,
+        summary.meanCarbs.toFixed(0),
+        summary.meanPeakDelta.toFixed(1),
+        summary.medianPeakDelta.toFixed(1),
+        summary.meanTimeToPeakMinutes,
+        Math.round((summary.returnedToBaselineCount / summary.count) * 100),
+        summary.meanTimeToBaselineMinutes ?? '',
+        summary.meanAuc2h.toFixed(2),
+      ]);
+    });
+  });
+
+  return convertToDelimitedFormat(rows, 'csv');
+}
+
+/**
+ * Convert glucose readings to a compact table of hypoglycemia episodes
+ *
+ * @param readings - Glucose readings, sorted by timestamp
+ * @param thresholds - Thresholds for hypo detection
+ * @returns CSV formatted string, empty when there are no episodes
+ */
+export function convertHypoEpisodesToCSV(
+  readings: GlucoseReading[],
+  thresholds: GlucoseThresholds = PROMPT_SUMMARY_THRESHOLDS
+): string {
+  const { hypoPeriods } = calculateHypoStats(readings, thresholds);
+  if (hypoPeriods.length === 0) {
+    return '';
+  }
+
+  const rows: (string | number)[][] = [['Start', 'Day Of Week', 'Duration (min)', 'Nadir (mmol/L)', 'Is Severe']];
+
+  hypoPeriods.forEach(period => {
+    rows.push([
+      formatLocalDateTime(period.startTime),
+      getDayOfWeek(period.startTime),
+      Math.round(period.durationMinutes),
+      period.nadir.toFixed(1),
+      period.isSevere ? 'true' : 'false',
+    ]);
+  });
+
+  return convertToDelimitedFormat(rows, 'csv');
+}
+
+/**
+ * Convert daily reports to a day-of-week summary CSV
+ *
+ * One row per day of week, then all days, workdays and weekends, with the
+ * mean time in ranges and insulin totals of the days in the group.
+ *
+ * @param reports - Daily glucose range and insulin reports
+ * @returns CSV formatted string, empty without reports
+ */
+export function convertDayOfWeekSummaryToCSV(reports: DailyReport[]): string {
+  if (reports.length === 0) {
+    return '';
+  }
+
+  const rows: (string | number)[][] = [[
+    'Day',
+    'Days',
+    'Mean In Range (%)',
+    'SD In Range (%)',
+    'Mean Below Range (%)',
+    'Mean Above Range (%)',
+    'Days With Insulin',
+    'Mean Basal (U)',
+    'Mean Bolus (U)',
+    'Mean Total Insulin (U)',
+  ]];
+
+  const reportDays = reports.map(report => ({ report, day: getDayOfWeek(new Date(`${report.date}T00:00:00`)) }));
+  const groups: [string, DailyReport[]][] = [
+    ...WEEK_DAYS.map((weekDay): [string, DailyReport[]] => [weekDay, reportDays.filter(r => r.day === weekDay).map(r => r.report)]),
+    ...DAY_TYPES.map((dayType): [string, DailyReport[]] => [
+      dayType === 'All' ? 'All' : `${dayType}s`,
+      reportDays.filter(r => dayType === 'All' || isWorkday(r.day) === (dayType === 'Workday')).map(r => r.report),
+    ]),
+  ];
+
+  groups.forEach(([label, group]) => {
+    if (group.length === 0) {
+      return;
+    }
+    const withGlucose = group.filter(report => report.stats.total > 0);
+    const inRange = withGlucose.map(report => calculatePercentage(report.stats.inRange, report.stats.total));
+    const inRangeMean = inRange.reduce((sum, v) => sum + v, 0) / inRange.length;
+    const inRangeSd = inRange.length > 1
+      ? Math.sqrt(inRange.reduce((sum, v) => sum + Math.pow(v - inRangeMean, 2), 0) / (inRange.length - 1))
+      : null;
+    const withInsulin = group.filter(report => report.totalInsulin !== undefined);
+
+    rows.push([
+      label,
+      group.length,
+      mean(inRange),
+      inRangeSd !== null ? inRangeSd.toFixed(1) : '',
+      mean(withGlucose.map(report => calculatePercentage(report.stats.low, report.stats.total))),
+      mean(withGlucose.map(report => calculatePercentage(report.stats.high, report.stats.total))),
+      withInsulin.length,
+      mean(withInsulin.map(report => report.basalInsulin ?? 0)),
+      mean(withInsulin.map(report => report.bolusInsulin ?? 0)),
+      mean(withInsulin.map(report => report.totalInsulin ?? 0)),
+    ]);
+  });
+
+  return convertToDelimitedFormat(rows, 'csv');
+}
@@ -0,0 +1,144 @@
+/**
+ * Tests for unannounced rise detection utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  convertRiseEventsToCSV,
+  detectUnannouncedRises,
+  summarizeRiseEventsByMealSlot,
+  summarizeRiseEventsByWeek,
+  type RiseEvent,
+} from './riseEventUtils';
+import type { CarbEntry, GlucoseReading, InsulinReading } from '../../types';
+
+const BASE_DATE = new Date('2024-01-15T12:00:00'); // Monday lunchtime
+const MINUTE = 60 * 1000;
+
+function at(minutesFromStart: number): Date {
+  return new Date(BASE_DATE.getTime() + minutesFromStart * MINUTE);
+}
+
+function bolus(minutesFromStart: number, dose: number): InsulinReading {
+  return { timestamp: at(minutesFromStart), dose, insulinType: 'bolus' };
+}
+
+function carbs(minutesFromStart: number, grams: number): CarbEntry {
+  return { timestamp: at(minutesFromStart), carbs: grams, source: 'food' };
+}
+
+// Readings every 5 minutes: flat at 6.0, rising by the given step per reading from 60 to 120 minutes, then flat
+function createRiseReadings(stepPerReading = 0.5, baseline = 6.0): GlucoseReading[] {
+  const readings: GlucoseReading[] = [];
+  for (let m = 0; m <= 240; m += 5) {
+    const risingSteps = Math.min(Math.max(m - 60, 0), 60) / 5;
+    readings.push({ timestamp: at(m), value: baseline + risingSteps * stepPerReading });
+  }
+  return readings;
+}
+
+function createEvent(start: Date, classification: RiseEvent['classification']): RiseEvent {
+  return {
+    start,
+    startGlucose: 6,
+    peakTime: start,
+    peakGlucose: 12,
+    maxRoC: 0.5,
+    durationMinutes: 60,
+    slot: 'lunch',
+    classification,
+    bolusDelayMinutes: null,
+    bolusUnits: null,
+  };
+}
+
+describe('riseEventUtils', () => {
+  describe('detectUnannouncedRises', () => {
+    it('should flag a rise with no bolus as a missed meal bolus', () => {
+      const events = detectUnannouncedRises(createRiseReadings(), [], []);
+
+      expect(events).toHaveLength(1);
+      expect(events[0].start).toEqual(at(60));
+      expect(events[0].startGlucose).toBe(6);
+      expect(events[0].peakGlucose).toBe(12);
+      expect(events[0].maxRoC).toBe(0.5);
+      expect(events[0].slot).toBe('lunch');
+      expect(events[0].classification).toBe('missedMealBolus');
+      expect(events[0].bolusDelayMinutes).toBeNull();
+    });
+
+    it('should skip rises announced by a bolus or carbs', () => {
+      expect(detectUnannouncedRises(createRiseReadings(), [bolus(30, 5)], [])).toHaveLength(0);
+      expect(detectUnannouncedRises(createRiseReadings(), [], [carbs(75, 40)])).toHaveLength(0);
+    });
+
+    it('should classify a later bolus with carbs as a late bolus', () => {
+      const events = detectUnannouncedRises(createRiseReadings(), [bolus(120, 6)], [carbs(125, 60)]);
+
+      expect(events).toHaveLength(1);
+      expect(events[0].classification).toBe('lateBolus');
+      expect(events[0].bolusDelayMinutes).toBe(60);
+      expect(events[0].bolusUnits).toBe(6);
+    });
+
+    it('should classify a later bolus without carbs as correction only', () => {
+      const events = detectUnannouncedRises(createRiseReadings(), [bolus(150, 3)], []);
+
+      expect(events.map(e => e.classification)).toEqual(['correctionOnly']);
+    });
+
+    it('should follow the rate of change threshold', () => {
+      expect(detectUnannouncedRises(createRiseReadings(0.2), [], [])).toHaveLength(0);
+      expect(detectUnannouncedRises(createRiseReadings(0.2), [], [], { rocThreshold: 0.15 })).toHaveLength(1);
+    });
+
+    it('should skip rebounds from a low', () => {
+      const readings = createRiseReadings(0.5, 3.0);
+      expect(detectUnannouncedRises(readings, [], [])).toHaveLength(0);
+    });
+
+    it('should not join readings across a gap', () => {
+      const readings = createRiseReadings().filter(r => r.timestamp < at(75) || r.timestamp > at(100));
+      expect(detectUnannouncedRises(readings, [], [])).toHaveLength(0);
+    });
+  });
+
+  describe('summaries', () => {
+    const events = [
+      createEvent(new Date('2024-01-15T12:00:00'), 'missedMealBolus'),
+      createEvent(new Date('2024-01-17T12:00:00'), 'lateBolus'),
+      createEvent(new Date('2024-01-23T12:00:00'), 'missedMealBolus'),
+    ];
+
+    it('should count events per week', () => {
+      expect(summarizeRiseEventsByWeek(events)).toEqual([
+        { weekStart: '2024-01-15', counts: { total: 2, missedMealBolus: 1, lateBolus: 1, correctionOnly: 0 } },
+        { weekStart: '2024-01-22', counts: { total: 1, missedMealBolus: 1, lateBolus: 0, correctionOnly: 0 } },
+      ]);
+    });
+
+    it('should count events for every meal slot', () => {
+      const bySlot = summarizeRiseEventsByMealSlot(events);
+
+      expect(bySlot.map(s => s.slot)).toEqual(['breakfast', 'lunch', 'dinner', 'snack']);
+      expect(bySlot[1].counts.total).toBe(3);
+      expect(bySlot[0].counts.total).toBe(0);
+    });
+  });
+
+  describe('convertRiseEventsToCSV', () => {
+    it('should return an empty string without events', () => {
+      expect(convertRiseEventsToCSV([])).toBe('');
+    });
+
+    it('should write one row per event', () => {
+      const csv = convertRiseEventsToCSV([createEvent(at(0), 'missedMealBolus')]);
+      const lines = csv.split('\n');
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toContain('Classification');
+      expect(lines[1]).toContain('missedMealBolus');
+      expect(lines[1]).toContain('N/A');
+    });
+  });
+});
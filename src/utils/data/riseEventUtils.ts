@@ -0,0 +1,341 @@
+/**
+ * Utility functions for detecting unannounced glucose rises (missed and late boluses)
+ *
+ * A rise event is a sustained glucose rise with no bolus and no carb entry
+ * around its start:
+ * - Rate of change: the mean of the last three consecutive steps stays at or
+ *   above the threshold (mmol/L/5min) for at least 20 minutes
+ * - Size: glucose rises by at least 2 mmol/L during that stretch
+ * - Unannounced: no bolus or carb entry from 45 minutes before to 30 minutes after the start
+ * - Rises out of a low (within the hour before) are skipped; hypo treatments are rarely logged
+ *
+ * Each event is classified by what happened in the 2 hours after the start:
+ * - Missed meal bolus: no bolus at all
+ * - Late bolus: a bolus logged together with carbs (a meal bolus given after eating)
+ * - Correction only: a bolus without carbs (the rise was corrected, the meal never announced)
+ */
+
+import type { CarbEntry, GlucoseReading, InsulinReading } from '../../types';
+import { ROC_THRESHOLDS, ROC_TIME_SPAN_MINUTES } from './rocDataUtils';
+import { getMealSlot, MEAL_SLOTS, type MealSlot } from './mealDataUtils';
+import { formatDate, getWeekStart } from './glucoseRangeGroupingUtils';
+import { convertToCSV } from './csvUtils';
+
+/**
+ * Default minimum rate of change for a sustained rise (mmol/L/5min)
+ */
+export const DEFAULT_RISE_ROC_THRESHOLD = ROC_THRESHOLDS.good;
+
+/**
+ * Minimum duration of the sustained rise (minutes)
+ */
+export const MIN_RISE_DURATION_MINUTES = 20;
+
+/**
+ * Minimum glucose increase during the sustained rise (mmol/L)
+ */
+export const MIN_RISE_MMOL = 2.0;
+
+/**
+ * How far before the rise start a bolus or carb entry announces it (minutes)
+ */
+export const ANNOUNCEMENT_BEFORE_MINUTES = 45;
+
+/**
+ * How far after the rise start a bolus or carb entry still announces it (minutes)
+ */
+export const ANNOUNCEMENT_AFTER_MINUTES = 30;
+
+/**
+ * Window after the rise start in which a later bolus is looked for (minutes)
+ */
+export const FOLLOW_UP_MINUTES = 120;
+
+/**
+ * How close a carb entry must be to a later bolus to make it a meal bolus (minutes)
+ */
+const BOLUS_CARB_MATCH_MINUTES = 15;
+
+/**
+ * Rises starting within this long after a low are treated as hypo rebounds (minutes)
+ */
+const HYPO_REBOUND_MINUTES = 60;
+
+/**
+ * Glucose below this counts as a low for the rebound check (mmol/L)
+ */
+const HYPO_REBOUND_MMOL = 3.9;
+
+/**
+ * Consecutive readings further apart than this break a rise (minutes)
+ */
+const MAX_STEP_MINUTES = 15;
+
+/**
+ * Number of consecutive steps averaged for the rate of change
+ */
+const ROC_SMOOTHING_STEPS = 3;
+
+/** How long after the sustained rise to keep looking for the peak (minutes) */
+const PEAK_SEARCH_MINUTES = 60;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Likely cause of an unannounced rise
+ */
+export type RiseEventClassification = 'missedMealBolus' | 'lateBolus' | 'correctionOnly';
+
+/**
+ * All classifications in display order
+ */
+export const RISE_EVENT_CLASSIFICATIONS: RiseEventClassification[] = ['missedMealBolus', 'lateBolus', 'correctionOnly'];
+
+/**
+ * A sustained rise with no bolus or carb entry around its start
+ */
+export interface RiseEvent {
+  /** Reading where the sustained rise starts */
+  start: Date;
+  /** Glucose at the start in mmol/L */
+  startGlucose: number;
+  /** Time of the highest reading */
+  peakTime: Date;
+  /** Highest glucose in mmol/L */
+  peakGlucose: number;
+  /** Highest smoothed rate of change in mmol/L/5min */
+  maxRoC: number;
+  /** Length of the sustained rise in minutes */
+  durationMinutes: number;
+  slot: MealSlot;
+  classification: RiseEventClassification;
+  /** Minutes from the start to the first later bolus (null without one) */
+  bolusDelayMinutes: number | null;
+  /** Units of the first later bolus (null without one) */
+  bolusUnits: number | null;
+}
+
+/**
+ * Options for rise detection
+ */
+export interface RiseDetectionOptions {
+  /** Minimum rate of change in mmol/L/5min (default 0.3) */
+  rocThreshold?: number;
+  /** Minimum glucose increase in mmol/L (default 2.0) */
+  minRise?: number;
+  /** Minimum duration in minutes (default 20) */
+  minDurationMinutes?: number;
+}
+
+/**
+ * Rise event counts for one group (week or meal slot)
+ */
+export interface RiseEventCounts extends Record<RiseEventClassification, number> {
+  total: number;
+}
+
+/**
+ * Classify a rise by the boluses and carb entries after it
+ */
+function classifyRise(
+  startTime: number,
+  boluses: InsulinReading[],
+  carbEntries: CarbEntry[]
+): Pick<RiseEvent, 'classification' | 'bolusDelayMinutes' | 'bolusUnits'> {
+  const followUp = boluses.find(b =>
+    b.timestamp.getTime() > startTime + ANNOUNCEMENT_AFTER_MINUTES * MS_PER_MINUTE &&
+    b.timestamp.getTime() <= startTime + FOLLOW_UP_MINUTES * MS_PER_MINUTE
+  );
+  if (!followUp) {
+    return { classification: 'missedMealBolus', bolusDelayMinutes: null, bolusUnits: null };
+  }
+
+  const bolusTime = followUp.timestamp.getTime();
+  const withCarbs = carbEntries.some(entry =>
+    entry.carbs > 0 && Math.abs(entry.timestamp.getTime() - bolusTime) <= BOLUS_CARB_MATCH_MINUTES * MS_PER_MINUTE
+  );
+  return {
+    classification: withCarbs ? 'lateBolus' : 'correctionOnly',
+    bolusDelayMinutes: Math.round((bolusTime - startTime) / MS_PER_MINUTE),
+    bolusUnits: Math.round(followUp.dose * 10) / 10,
+  };
+}
+
+/**
+ * Find sustained rises that no bolus or carb entry announced
+ *
+ * @param cgmReadings - CGM readings in mmol/L (any order)
+ * @param insulinReadings - Insulin readings; only boluses are used
+ * @param carbEntries - Carb entries (food dataset and bolus carbs)
+ * @param options - Rate of change threshold, minimum rise and duration
+ * @returns Rise events sorted by start time
+ */
+export function detectUnannouncedRises(
+  cgmReadings: GlucoseReading[],
+  insulinReadings: InsulinReading[],
+  carbEntries: CarbEntry[],
+  options: RiseDetectionOptions = {}
+): RiseEvent[] {
+  const {
+    rocThreshold = DEFAULT_RISE_ROC_THRESHOLD,
+    minRise = MIN_RISE_MMOL,
+    minDurationMinutes = MIN_RISE_DURATION_MINUTES,
+  } = options;
+
+  const readings = [...cgmReadings].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const boluses = insulinReadings
+    .filter(r => r.insulinType === 'bolus' && r.dose > 0)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  // Runs of readings whose smoothed rate of change stays above the threshold
+  const runs: Array<{ startIndex: number; endIndex: number; maxRoC: number }> = [];
+  let steps: number[] = [];
+  let run: { startIndex: number; endIndex: number; maxRoC: number } | null = null;
+  for (let i = 1; i < readings.length; i++) {
+    const minutes = (readings[i].timestamp.getTime() - readings[i - 1].timestamp.getTime()) / MS_PER_MINUTE;
+    if (minutes < 1 || minutes > MAX_STEP_MINUTES) {
+      if (run) runs.push(run);
+      run = null;
+      steps = [];
+      continue;
+    }
+
+    steps.push(((readings[i].value - readings[i - 1].value) / minutes) * ROC_TIME_SPAN_MINUTES);
+    if (steps.length > ROC_SMOOTHING_STEPS) steps.shift();
+    const roc = steps.reduce((sum, step) => sum + step, 0) / steps.length;
+
+    if (steps.length === ROC_SMOOTHING_STEPS && roc >= rocThreshold) {
+      if (run) {
+        run.endIndex = i;
+        run.maxRoC = Math.max(run.maxRoC, roc);
+      } else {
+        run = { startIndex: i - ROC_SMOOTHING_STEPS, endIndex: i, maxRoC: roc };
+      }
+    } else if (run) {
+      runs.push(run);
+      run = null;
+    }
+  }
+  if (run) runs.push(run);
+
+  const events: RiseEvent[] = [];
+  for (const { startIndex: windowStart, endIndex, maxRoC } of runs) {
+    // The smoothing window can reach back into flat readings before the rise
+    let startIndex = windowStart;
+    while (startIndex < endIndex && readings[startIndex + 1].value <= readings[startIndex].value) startIndex++;
+    const start = readings[startIndex];
+    const end = readings[endIndex];
+    const startTime = start.timestamp.getTime();
+    const durationMinutes = (end.timestamp.getTime() - startTime) / MS_PER_MINUTE;
+    if (durationMinutes < minDurationMinutes || end.value - start.value < minRise) continue;
+
+    const inRange = (time: number, fromMinutes: number, toMinutes: number) =>
+      time >= startTime + fromMinutes * MS_PER_MINUTE && time <= startTime + toMinutes * MS_PER_MINUTE;
+
+    // Announced by a bolus or carb entry around the start
+    const announced =
+      boluses.some(b => inRange(b.timestamp.getTime(), -ANNOUNCEMENT_BEFORE_MINUTES, ANNOUNCEMENT_AFTER_MINUTES)) ||
+      carbEntries.some(e => e.carbs > 0 && inRange(e.timestamp.getTime(), -ANNOUNCEMENT_BEFORE_MINUTES, ANNOUNCEMENT_AFTER_MINUTES));
+    if (announced) continue;
+
+    // Rebound after a low
+    const reboundFromLow = readings.some(r =>
+      inRange(r.timestamp.getTime(), -HYPO_REBOUND_MINUTES, 0) && r.value < HYPO_REBOUND_MMOL
+    );
+    if (reboundFromLow) continue;
+
+    let peak = end;
+    for (let i = endIndex + 1; i < readings.length; i++) {
+      if (readings[i].timestamp.getTime() > end.timestamp.getTime() + PEAK_SEARCH_MINUTES * MS_PER_MINUTE) break;
+      if (readings[i].value > peak.value) peak = readings[i];
+    }
+
+    events.push({
+      start: start.timestamp,
+      startGlucose: start.value,
+      peakTime: peak.timestamp,
+      peakGlucose: peak.value,
+      maxRoC: Math.round(maxRoC * 100) / 100,
+      durationMinutes: Math.round(durationMinutes),
+      slot: getMealSlot(start.timestamp),
+      ...classifyRise(startTime, boluses, carbEntries),
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Count rise events by classification
+ */
+function countRiseEvents(events: RiseEvent[]): RiseEventCounts {
+  const counts: RiseEventCounts = { total: events.length, missedMealBolus: 0, lateBolus: 0, correctionOnly: 0 };
+  for (const event of events) {
+    counts[event.classification]++;
+  }
+  return counts;
+}
+
+/**
+ * Count rise events per week
+ *
+ * @param events - Rise events
+ * @returns Counts per week (Monday in YYYY-MM-DD format), oldest first
+ */
+export function summarizeRiseEventsByWeek(events: RiseEvent[]): Array<{ weekStart: string; counts: RiseEventCounts }> {
+  const byWeek = new Map<string, RiseEvent[]>();
+  for (const event of events) {
+    const weekStart = formatDate(getWeekStart(event.start));
+    byWeek.set(weekStart, [...(byWeek.get(weekStart) ?? []), event]);
+  }
+  return [...byWeek.keys()]
+    .sort()
+    .map(weekStart => ({ weekStart, counts: countRiseEvents(byWeek.get(weekStart)!) }));
+}
+
+/**
+ * Count rise events per meal slot
+ *
+ * @param events - Rise events
+ * @returns Counts for every meal slot in display order
+ */
+export function summarizeRiseEventsByMealSlot(events: RiseEvent[]): Array<{ slot: MealSlot; counts: RiseEventCounts }> {
+  return MEAL_SLOTS.map(slot => ({ slot, counts: countRiseEvents(events.filter(e => e.slot === slot)) }));
+}
+
+/**
+ * Convert rise events to CSV format for AI prompts
+ */
+export function convertRiseEventsToCSV(events: RiseEvent[]): string {
+  if (events.length === 0) {
+    return '';
+  }
+
+  const rows: (string | number)[][] = [[
+    'Start_Time',
+    'Meal_Slot',
+    'Classification',
+    'Start_Glucose_mmol_L',
+    'Peak_Glucose_mmol_L',
+    'Max_RoC_mmol_L_5min',
+    'Rise_Duration_Mins',
+    'Bolus_Delay_Mins',
+    'Bolus_Units',
+  ]];
+
+  events.forEach(event => {
+    rows.push([
+      event.start.toISOString(),
+      event.slot,
+      event.classification,
+      event.startGlucose.toFixed(1),
+      event.peakGlucose.toFixed(1),
+      event.maxRoC.toFixed(2),
+      event.durationMinutes,
+      event.bolusDelayMinutes ?? 'N/A',
+      event.bolusUnits ?? 'N/A',
+    ]);
+  });
+
+  return convertToCSV(rows);
+}
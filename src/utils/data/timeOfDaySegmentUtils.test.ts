@@ -0,0 +1,108 @@
+/**
+ * Tests for time-of-day segment utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateTimeOfDaySegmentStats,
+  filterReadingsBySegment,
+  formatSegmentHours,
+  getSegmentHours,
+  isHourInSegment,
+} from './timeOfDaySegmentUtils';
+import type { GlucoseReading, GlucoseThresholds, TimeOfDaySegment } from '../../types';
+
+const thresholds: GlucoseThresholds = {
+  veryHigh: 13.9,
+  high: 10.0,
+  low: 3.9,
+  veryLow: 3.0,
+};
+
+const school: TimeOfDaySegment = { name: 'School', startHour: 8, endHour: 15 };
+const sleep: TimeOfDaySegment = { name: 'Sleep', startHour: 22, endHour: 6 };
+
+// Readings every 5 minutes over whole days from midnight, with the value given by the clock hour
+function createReadings(days: number, valueAt: (hour: number, minutes: number) => number): GlucoseReading[] {
+  const readings: GlucoseReading[] = [];
+  for (let m = 0; m < days * 24 * 60; m += 5) {
+    const timestamp = new Date(2024, 0, 15, 0, m);
+    readings.push({ timestamp, value: valueAt(timestamp.getHours(), m) });
+  }
+  return readings;
+}
+
+describe('timeOfDaySegmentUtils', () => {
+  describe('isHourInSegment', () => {
+    it('should include the start hour and exclude the end hour', () => {
+      expect(isHourInSegment(8, school)).toBe(true);
+      expect(isHourInSegment(14, school)).toBe(true);
+      expect(isHourInSegment(15, school)).toBe(false);
+      expect(isHourInSegment(7, school)).toBe(false);
+    });
+
+    it('should wrap past midnight', () => {
+      expect(isHourInSegment(22, sleep)).toBe(true);
+      expect(isHourInSegment(0, sleep)).toBe(true);
+      expect(isHourInSegment(5, sleep)).toBe(true);
+      expect(isHourInSegment(6, sleep)).toBe(false);
+      expect(isHourInSegment(12, sleep)).toBe(false);
+    });
+  });
+
+  describe('segment formatting', () => {
+    it('should format hours and length', () => {
+      expect(formatSegmentHours(sleep)).toBe('22:00-06:00');
+      expect(getSegmentHours(school)).toBe(7);
+      expect(getSegmentHours(sleep)).toBe(8);
+      expect(getSegmentHours({ name: 'Evening', startHour: 18, endHour: 0 })).toBe(6);
+    });
+  });
+
+  describe('filterReadingsBySegment', () => {
+    it('should keep readings from every day inside the segment', () => {
+      const readings = createReadings(2, () => 6.0);
+
+      // 8 hours of 12 readings on each of 2 days
+      expect(filterReadingsBySegment(readings, sleep)).toHaveLength(2 * 8 * 12);
+    });
+  });
+
+  describe('calculateTimeOfDaySegmentStats', () => {
+    it('should summarize each segment', () => {
+      // High during school hours, in range otherwise
+      const readings = createReadings(3, hour => (isHourInSegment(hour, school) ? 12.0 : 6.0));
+
+      const [schoolStats, sleepStats] = calculateTimeOfDaySegmentStats(readings, [school, sleep], thresholds);
+
+      expect(schoolStats.label).toBe('08:00-15:00');
+      expect(schoolStats.stats.high).toBe(3 * 7 * 12);
+      expect(schoolStats.stats.inRange).toBe(0);
+      expect(schoolStats.mean).toBe(12.0);
+      expect(schoolStats.cv).toBe(0);
+      expect(sleepStats.stats.inRange).toBe(sleepStats.stats.total);
+      expect(sleepStats.agp).toEqual({ p10: 6.0, p25: 6.0, p50: 6.0, p75: 6.0, p90: 6.0 });
+    });
+
+    it('should count hypos by the segment they start in', () => {
+      // Lows starting at 23:00 and 02:00 on the first night, and at 10:00 on the second day
+      const lowStarts = [23 * 60, 26 * 60, 34 * 60];
+      const readings = createReadings(2, (_, m) => (lowStarts.some(start => m >= start && m < start + 30) ? 3.4 : 6.0));
+
+      const [schoolStats, sleepStats] = calculateTimeOfDaySegmentStats(readings, [school, sleep], thresholds);
+
+      expect(sleepStats.hypoCount).toBe(2);
+      expect(schoolStats.hypoCount).toBe(1);
+      expect(schoolStats.severeHypoCount).toBe(0);
+    });
+
+    it('should return empty statistics for segments without readings', () => {
+      const [stats] = calculateTimeOfDaySegmentStats([], [school], thresholds);
+
+      expect(stats.stats.total).toBe(0);
+      expect(stats.mean).toBeNull();
+      expect(stats.cv).toBeNull();
+      expect(stats.agp).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Utility functions for user-defined time-of-day segments
+ *
+ * A segment is a named range of clock hours such as "School" 08:00-15:00 or
+ * "Sleep" 22:00-06:00. The start hour is inclusive and the end hour is
+ * exclusive; a segment whose start is later than its end wraps past midnight.
+ *
+ * For each segment the readings of every day are pooled and summarized with:
+ * - TIR statistics (3 or 5 categories)
+ * - Mean glucose and CV
+ * - Hypos starting inside the segment (detected on the full reading series,
+ *   so a hypo crossing the segment edge is counted once)
+ * - AGP bands: 10th, 25th, 50th, 75th and 90th percentiles of all readings
+ */
+
+import type {
+  GlucoseReading,
+  GlucoseRangeStats,
+  GlucoseThresholds,
+  RangeCategoryMode,
+  TimeOfDaySegment,
+} from '../../types';
+import { calculateGlucoseRangeStats } from './glucoseRangeCoreUtils';
+import { calculateAverageGlucose, calculateCV } from './glucoseRangeMetricsUtils';
+import { calculateHypoStats } from './hypoDataUtils';
+import { calculatePercentile } from '../visualization/agpUtils';
+
+/**
+ * Maximum number of segments a user can define
+ */
+export const MAX_TIME_OF_DAY_SEGMENTS = 8;
+
+/**
+ * AGP percentile bands of the readings in a segment (mmol/L)
+ */
+export interface SegmentAGPBands {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+/**
+ * Glucose summary of one time-of-day segment
+ */
+export interface TimeOfDaySegmentStats {
+  segment: TimeOfDaySegment;
+  /** Segment hours formatted as HH:00-HH:00 */
+  label: string;
+  stats: GlucoseRangeStats;
+  /** Mean glucose in mmol/L (null without readings) */
+  mean: number | null;
+  /** Coefficient of variation in % (null with fewer than 2 readings) */
+  cv: number | null;
+  /** Hypos starting inside the segment */
+  hypoCount: number;
+  /** Severe hypos starting inside the segment */
+  severeHypoCount: number;
+  /** AGP percentile bands (null without readings) */
+  agp: SegmentAGPBands | null;
+}
+
+/**
+ * Check whether a clock hour falls inside a segment
+ *
+ * @param hour - Clock hour (0-23)
+ * @param segment - Time-of-day segment
+ * @returns True when the hour is in [startHour, endHour), wrapping past midnight
+ */
+export function isHourInSegment(hour: number, segment: TimeOfDaySegment): boolean {
+  if (segment.startHour < segment.endHour) {
+    return hour >= segment.startHour && hour < segment.endHour;
+  }
+  return hour >= segment.startHour || hour < segment.endHour;
+}
+
+/**
+ * Segment length in hours
+ */
+export function getSegmentHours(segment: TimeOfDaySegment): number {
+  return (segment.endHour - segment.startHour + 24) % 24 || 24;
+}
+
+/**
+ * Format the segment hours as HH:00-HH:00
+ */
+export function formatSegmentHours(segment: TimeOfDaySegment): string {
+  const format = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
+  return `${format(segment.startHour)}-${format(segment.endHour)}`;
+}
+
+/**
+ * Filter readings to those taken inside a segment on any day
+ *
+ * @param readings - Array of glucose readings
+ * @param segment - Time-of-day segment
+ * @returns Readings whose clock hour is inside the segment
+ */
+export function filterReadingsBySegment(readings: GlucoseReading[], segment: TimeOfDaySegment): GlucoseReading[] {
+  return readings.filter(reading => isHourInSegment(reading.timestamp.getHours(), segment));
+}
+
+/**
+ * Calculate TIR, mean, CV, hypo counts and AGP bands for each segment
+ *
+ * Segments may overlap; a reading counts towards every segment it falls in.
+ *
+ * @param readings - Array of glucose readings (any order)
+ * @param segments - User-defined segments
+ * @param thresholds - Glucose thresholds
+ * @param mode - 3 or 5 category mode
+ * @returns One summary per segment, in the order given
+ */
+export function calculateTimeOfDaySegmentStats(
+  readings: GlucoseReading[],
+  segments: TimeOfDaySegment[],
+  thresholds: GlucoseThresholds,
+  mode: RangeCategoryMode = 3
+): TimeOfDaySegmentStats[] {
+  const sorted = [...readings].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const hypos = calculateHypoStats(sorted, thresholds).hypoPeriods;
+
+  return segments.map(segment => {
+    const segmentReadings = filterReadingsBySegment(sorted, segment);
+    const segmentHypos = hypos.filter(hypo => isHourInSegment(hypo.startTime.getHours(), segment));
+    const values = segmentReadings.map(r => r.value).sort((a, b) => a - b);
+
+    return {
+      segment,
+      label: formatSegmentHours(segment),
+      stats: calculateGlucoseRangeStats(segmentReadings, thresholds, mode),
+      mean: calculateAverageGlucose(segmentReadings),
+      cv: calculateCV(segmentReadings),
+      hypoCount: segmentHypos.length,
+      severeHypoCount: segmentHypos.filter(hypo => hypo.isSevere).length,
+      agp: values.length > 0
+        ? {
+          p10: calculatePercentile(values, 10),
+          p25: calculatePercentile(values, 25),
+          p50: calculatePercentile(values, 50),
+          p75: calculatePercentile(values, 75),
+          p90: calculatePercentile(values, 90),
+        }
+        : null,
+    };
+  });
+}
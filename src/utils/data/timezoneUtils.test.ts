@@ -0,0 +1,97 @@
+/**
+ * Unit tests for time zone utilities
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  DEFAULT_TIME_ZONE_SETTINGS,
+  getActiveTimeZoneSettings,
+  getDayLengthHours,
+  getTimeZoneOffsetMinutes,
+  isValidTimeZone,
+  parseWallClockTime,
+  resolveSourceTimeZone,
+  setActiveTimeZoneSettings,
+  toWallClockTime,
+  wallClockToInstant,
+  wallClockToLocalDate,
+} from './timezoneUtils';
+
+describe('timezoneUtils', () => {
+  afterEach(() => {
+    setActiveTimeZoneSettings(DEFAULT_TIME_ZONE_SETTINGS);
+  });
+
+  describe('parseWallClockTime', () => {
+    it('should keep the recorded date and time fields', () => {
+      expect(parseWallClockTime('2024-03-31 02:30')).toBe(Date.UTC(2024, 2, 31, 2, 30));
+      expect(parseWallClockTime('2024-10-27T02:15:30')).toBe(Date.UTC(2024, 9, 27, 2, 15, 30));
+    });
+
+    it('should return NaN for invalid timestamps', () => {
+      expect(parseWallClockTime('invalid')).toBeNaN();
+    });
+  });
+
+  describe('wall-clock conversion', () => {
+    it('should round-trip through browser-local dates', () => {
+      const wallClock = Date.UTC(2024, 0, 15, 8, 5);
+      const date = wallClockToLocalDate(wallClock);
+
+      expect(date.getHours()).toBe(8);
+      expect(date.getMinutes()).toBe(5);
+      expect(toWallClockTime(date)).toBe(wallClock);
+    });
+  });
+
+  describe('getTimeZoneOffsetMinutes', () => {
+    it('should follow daylight saving time', () => {
+      expect(getTimeZoneOffsetMinutes('Europe/Berlin', Date.UTC(2024, 0, 15, 12))).toBe(60);
+      expect(getTimeZoneOffsetMinutes('Europe/Berlin', Date.UTC(2024, 6, 15, 12))).toBe(120);
+      expect(getTimeZoneOffsetMinutes('America/New_York', Date.UTC(2024, 0, 15, 12))).toBe(-300);
+    });
+  });
+
+  describe('wallClockToInstant', () => {
+    it('should convert ordinary times', () => {
+      expect(wallClockToInstant(Date.UTC(2024, 6, 15, 8), 'Europe/Berlin')).toBe(Date.UTC(2024, 6, 15, 6));
+    });
+
+    it('should resolve repeated times to their first occurrence', () => {
+      expect(wallClockToInstant(Date.UTC(2024, 9, 27, 2, 30), 'Europe/Berlin')).toBe(Date.UTC(2024, 9, 27, 0, 30));
+    });
+
+    it('should move skipped times past the DST gap', () => {
+      expect(wallClockToInstant(Date.UTC(2024, 2, 31, 2, 30), 'Europe/Berlin')).toBe(Date.UTC(2024, 2, 31, 1, 30));
+    });
+  });
+
+  describe('getDayLengthHours', () => {
+    it('should report 23-hour and 25-hour DST days', () => {
+      expect(getDayLengthHours('2024-03-31', 'Europe/Berlin')).toBe(23);
+      expect(getDayLengthHours('2024-10-27', 'Europe/Berlin')).toBe(25);
+      expect(getDayLengthHours('2024-03-10', 'America/New_York')).toBe(23);
+      expect(getDayLengthHours('2024-06-01', 'Europe/Berlin')).toBe(24);
+      expect(getDayLengthHours('2024-03-31', 'UTC')).toBe(24);
+    });
+  });
+
+  describe('source time zone', () => {
+    it('should validate IANA time zones', () => {
+      expect(isValidTimeZone('Europe/Prague')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    });
+
+    it('should fall back to the browser zone for auto and unknown zones', () => {
+      const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      expect(resolveSourceTimeZone('auto')).toBe(browserZone);
+      expect(resolveSourceTimeZone('Mars/Olympus')).toBe(browserZone);
+      expect(resolveSourceTimeZone('Asia/Tokyo')).toBe('Asia/Tokyo');
+    });
+
+    it('should store the active settings for the extractors', () => {
+      setActiveTimeZoneSettings({ sourceTimeZone: 'Europe/Berlin', analysisMode: 'homeTimeZone' });
+      expect(getActiveTimeZoneSettings().analysisMode).toBe('homeTimeZone');
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Time zone helpers for Glooko timestamps
+ *
+ * Glooko exports store timestamps as device wall-clock time without a zone.
+ * They are parsed into "wall-clock milliseconds": the date and time fields
+ * encoded as if they were UTC. This keeps them independent of the browser's
+ * zone until the reports turn them into Date objects.
+ */
+
+import type { TimeZoneSettings } from '../../types';
+
+/**
+ * Source time zone value that follows the browser's zone
+ */
+export const AUTO_TIME_ZONE = 'auto';
+
+export const DEFAULT_TIME_ZONE_SETTINGS: TimeZoneSettings = {
+  sourceTimeZone: AUTO_TIME_ZONE,
+  analysisMode: 'wallClock',
+};
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+const WALL_CLOCK_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})[ T](\d{1,2}):(\d{2})(?::(\d{2}))?/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+let activeSettings: TimeZoneSettings = DEFAULT_TIME_ZONE_SETTINGS;
+
+/**
+ * Set the time zone settings used by the data extractors
+ * Called by the settings hook whenever the preference changes. Extracted data is
+ * not updated: pages holding it are keyed on the settings and remount (see App).
+ */
+export function setActiveTimeZoneSettings(settings: TimeZoneSettings): void {
+  activeSettings = settings;
+}
+
+/**
+ * Get the time zone settings used by the data extractors
+ */
+export function getActiveTimeZoneSettings(): TimeZoneSettings {
+  return activeSettings;
+}
+
+/**
+ * Get the browser's IANA time zone (e.g. 'Europe/Berlin')
+ */
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Check whether a string is a time zone supported by this browser
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * List the IANA time zones supported by this browser
+ */
+export function getSupportedTimeZones(): string[] {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  const browserZone = getBrowserTimeZone();
+  return zones.includes(browserZone) ? zones : [browserZone, ...zones];
+}
+
+/**
+ * Resolve the source time zone setting to an IANA time zone
+ *
+ * @param sourceTimeZone - Setting value ('auto' or an IANA zone)
+ * @returns The configured zone, or the browser's zone for 'auto' and unknown zones
+ */
+export function resolveSourceTimeZone(sourceTimeZone: string): string {
+  return sourceTimeZone !== AUTO_TIME_ZONE && isValidTimeZone(sourceTimeZone)
+    ? sourceTimeZone
+    : getBrowserTimeZone();
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Get the UTC offset of a time zone at an instant
+ *
+ * @param timeZone - IANA time zone
+ * @param instant - Milliseconds since epoch
+ * @returns Offset in minutes (e.g. 120 for CEST)
+ */
+export function getTimeZoneOffsetMinutes(timeZone: string, instant: number): number {
+  const parts = getFormatter(timeZone).formatToParts(new Date(instant));
+  const field = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(field('year'), field('month') - 1, field('day'), field('hour'), field('minute'), field('second'));
+  const wholeSeconds = instant - (((instant % 1000) + 1000) % 1000);
+  return Math.round((wallClock - wholeSeconds) / MS_PER_MINUTE);
+}
+
+/**
+ * Convert wall-clock time in a time zone to an instant
+ * Times skipped by a DST change resolve past the gap; repeated times resolve to their first occurrence.
+ *
+ * @param wallClock - Wall-clock milliseconds
+ * @param timeZone - IANA time zone
+ * @returns Milliseconds since epoch
+ */
+export function wallClockToInstant(wallClock: number, timeZone: string): number {
+  // Offsets a day before and after cover both sides of any DST change near this time
+  const offsetBefore = getTimeZoneOffsetMinutes(timeZone, wallClock - 24 * MS_PER_HOUR);
+  const offsetAfter = getTimeZoneOffsetMinutes(timeZone, wallClock + 24 * MS_PER_HOUR);
+  const candidates = [...new Set([offsetBefore, offsetAfter])]
+    .map(offset => wallClock - offset * MS_PER_MINUTE)
+    .filter(instant => wallClock - getTimeZoneOffsetMinutes(timeZone, instant) * MS_PER_MINUTE === instant);
+
+  // No valid candidate means the time falls in a DST gap: apply the offset from before the change
+  return candidates.length > 0 ? Math.min(...candidates) : wallClock - offsetBefore * MS_PER_MINUTE;
+}
+
+/**
+ * Parse a Glooko timestamp string into wall-clock milliseconds
+ *
+ * @param value - Timestamp such as '2024-03-31 02:30' or '2024-03-31T02:30:00'
+ * @returns Wall-clock milliseconds, or NaN when invalid
+ */
+export function parseWallClockTime(value: string): number {
+  const match = WALL_CLOCK_PATTERN.exec(value.trim());
+  if (match) {
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    return Date.UTC(year, month - 1, day, hour, minute, second || 0);
+  }
+
+  // Other formats are left to the Date parser
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? NaN : toWallClockTime(date);
+}
+
+/**
+ * Get the wall-clock milliseconds of a browser-local Date
+ */
+export function toWallClockTime(date: Date): number {
+  return Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()
+  );
+}
+
+/**
+ * Create a browser-local Date showing the given wall-clock time
+ * Reports read dates with local getters, so this keeps hours and calendar days as recorded.
+ */
+export function wallClockToLocalDate(wallClock: number): Date {
+  const date = new Date(wallClock);
+  return new Date(
+    date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(),
+    date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds(), date.getUTCMilliseconds()
+  );
+}
+
+/**
+ * Get the length of a calendar day in a time zone
+ *
+ * @param date - Day in YYYY-MM-DD format
+ * @param timeZone - IANA time zone
+ * @returns Hours in the day (23 or 25 on DST change days, otherwise 24)
+ */
+export function getDayLengthHours(date: string, timeZone: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const start = wallClockToInstant(Date.UTC(year, month - 1, day), timeZone);
+  const end = wallClockToInstant(Date.UTC(year, month - 1, day + 1), timeZone);
+  return Math.round((end - start) / MS_PER_HOUR * 100) / 100;
+}
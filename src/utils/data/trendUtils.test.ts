@@ -0,0 +1,124 @@
+/**
+ * Tests for trend report utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateDailyTrendTotals,
+  calculateRollingTrends,
+  detectTrendChangePoints,
+} from './trendUtils';
+import type { GlucoseReading, GlucoseThresholds, InsulinReading } from '../../types';
+
+const thresholds: GlucoseThresholds = {
+  veryHigh: 13.9,
+  high: 10.0,
+  low: 3.9,
+  veryLow: 3.0,
+};
+
+// One reading per hour for a number of days from 1 January 2024, with the value given by day and hour
+function createReadings(days: number, valueAt: (day: number, hour: number) => number): GlucoseReading[] {
+  const readings: GlucoseReading[] = [];
+  for (let day = 0; day < days; day++) {
+    for (let hour = 0; hour < 24; hour++) {
+      readings.push({ timestamp: new Date(2024, 0, 1 + day, hour), value: valueAt(day, hour) });
+    }
+  }
+  return readings;
+}
+
+// Daily basal and bolus entries at noon
+function createInsulin(days: number, totalAt: (day: number) => number): InsulinReading[] {
+  const readings: InsulinReading[] = [];
+  for (let day = 0; day < days; day++) {
+    readings.push({ timestamp: new Date(2024, 0, 1 + day, 12), dose: totalAt(day) / 2, insulinType: 'basal' });
+    readings.push({ timestamp: new Date(2024, 0, 1 + day, 12, 30), dose: totalAt(day) / 2, insulinType: 'bolus' });
+  }
+  return readings;
+}
+
+describe('trendUtils', () => {
+  describe('calculateDailyTrendTotals', () => {
+    it('should count readings, range, hypos and insulin per day', () => {
+      // Day 0: 3 hours low from 02:00; day 1: 6 hours high
+      const readings = createReadings(2, (day, hour) => {
+        if (day === 0 && hour >= 2 && hour < 5) return 3.5;
+        if (day === 1 && hour >= 12 && hour < 18) return 12.0;
+        return 6.0;
+      });
+
+      const totals = calculateDailyTrendTotals(readings, createInsulin(1, () => 40), thresholds);
+
+      expect(totals.map(day => day.date)).toEqual(['2024-01-01', '2024-01-02']);
+      expect(totals[0]).toMatchObject({ readingCount: 24, inRangeCount: 21, belowRangeCount: 3, hypoCount: 1, totalInsulin: 40 });
+      expect(totals[1]).toMatchObject({ inRangeCount: 18, belowRangeCount: 0, hypoCount: 0, totalInsulin: null });
+    });
+  });
+
+  describe('calculateRollingTrends', () => {
+    it('should pool each window and leave sparse windows empty', () => {
+      const readings = createReadings(10, (_day, hour) => (hour < 6 ? 12.0 : 6.0));
+      const totals = calculateDailyTrendTotals(readings, createInsulin(10, day => 30 + day), thresholds);
+
+      const points = calculateRollingTrends(totals, 7);
+
+      expect(points).toHaveLength(10);
+      // The first 3 days have fewer than 4 days of data in the window
+      expect(points[2].timeInRange).toBeNull();
+      expect(points[3].timeInRange).toBe(75);
+      expect(points[3].meanGlucose).toBe(7.5);
+      expect(points[3].timeBelowRange).toBe(0);
+      expect(points[3].hyposPerWeek).toBe(0);
+      expect(points[3].cv).not.toBeNull();
+      // Last 7 days: 33..39 units
+      expect(points[9].totalDailyDose).toBe(36);
+    });
+
+    it('should cover calendar days without data', () => {
+      const readings = [
+        ...createReadings(1, () => 6.0),
+        { timestamp: new Date(2024, 0, 5, 8), value: 7.0 },
+      ];
+
+      const points = calculateRollingTrends(calculateDailyTrendTotals(readings, [], thresholds), 7);
+
+      expect(points.map(point => point.date)).toEqual(['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05']);
+    });
+
+    it('should return no points without data', () => {
+      expect(calculateRollingTrends([], 14)).toEqual([]);
+    });
+  });
+
+  describe('detectTrendChangePoints', () => {
+    it('should find a step change in mean glucose', () => {
+      // Mean glucose rises by 2 mmol/L from day 20, with some day-to-day noise
+      const readings = createReadings(40, (day, hour) => (day >= 20 ? 9.0 : 7.0) + ((day * 7 + hour) % 5) * 0.1);
+      const totals = calculateDailyTrendTotals(readings, [], thresholds);
+
+      const changePoints = detectTrendChangePoints(totals, ['meanGlucose']);
+
+      expect(changePoints).toHaveLength(1);
+      expect(changePoints[0].date).toBe('2024-01-21');
+      expect(changePoints[0].delta).toBeCloseTo(2, 0);
+    });
+
+    it('should ignore stable metrics and small shifts', () => {
+      const readings = createReadings(40, (day, hour) => (day >= 20 ? 7.2 : 7.0) + ((day + hour) % 3) * 0.1);
+      const totals = calculateDailyTrendTotals(readings, createInsulin(40, () => 35), thresholds);
+
+      expect(detectTrendChangePoints(totals)).toEqual([]);
+    });
+
+    it('should find a change in total daily dose', () => {
+      const totals = calculateDailyTrendTotals([], createInsulin(30, day => (day >= 15 ? 45 : 35) + (day % 3)), thresholds);
+
+      const changePoints = detectTrendChangePoints(totals, ['totalDailyDose']);
+
+      expect(changePoints).toHaveLength(1);
+      expect(changePoints[0].date).toBe('2024-01-16');
+      expect(changePoints[0].delta).toBeCloseTo(10, 0);
+    });
+  });
+});
@@ -0,0 +1,350 @@
+/**
+ * Utility functions for the long-term trends report
+ *
+ * Readings and insulin are first reduced to per-day totals, from which two
+ * kinds of series are built across the whole file:
+ * - Rolling metrics: for every calendar day, the readings of the last 7, 14
+ *   or 30 days are pooled into TIR, TBR, GMI, CV and mean glucose; total
+ *   daily dose is the mean over days with insulin and the hypo rate is
+ *   hypos per 7 days with CGM data. A window needs data on at least half of
+ *   its days, otherwise the point is left empty.
+ * - Change points: days where the daily values of the 14 days with data
+ *   before and after differ significantly (Welch's t-test, as in the period
+ *   comparison) and by at least a clinically meaningful amount. Overlapping
+ *   candidates are thinned to the largest shift.
+ */
+
+import type { GlucoseReading, GlucoseThresholds, InsulinReading } from '../../types';
+import { formatDate } from './glucoseRangeGroupingUtils';
+import { calculateEstimatedHbA1c } from './glucoseRangeMetricsUtils';
+import { calculateHypoStats } from './hypoDataUtils';
+import { aggregateInsulinByDate } from './insulinDataUtils';
+import { testMeanDifference } from './periodComparisonUtils';
+
+/**
+ * Metrics charted in the trends report
+ */
+export type TrendMetricKey =
+  | 'timeInRange'
+  | 'timeBelowRange'
+  | 'gmi'
+  | 'cv'
+  | 'meanGlucose'
+  | 'totalDailyDose'
+  | 'hyposPerWeek';
+
+/**
+ * Metrics in the order they are offered in the report
+ */
+export const TREND_METRICS: TrendMetricKey[] = [
+  'timeInRange',
+  'timeBelowRange',
+  'gmi',
+  'cv',
+  'meanGlucose',
+  'totalDailyDose',
+  'hyposPerWeek',
+];
+
+/**
+ * Rolling window lengths offered in the report (days)
+ */
+export const ROLLING_WINDOW_DAYS = [7, 14, 30] as const;
+
+export type RollingWindowDays = typeof ROLLING_WINDOW_DAYS[number];
+
+/**
+ * Share of the days in a rolling window that need data
+ */
+export const MIN_ROLLING_WINDOW_COVERAGE = 0.5;
+
+/**
+ * Days with data compared on each side of a candidate change point
+ */
+export const CHANGE_POINT_WINDOW_DAYS = 14;
+
+/**
+ * Minimum days with data on each side of a candidate change point
+ */
+export const CHANGE_POINT_MIN_DAYS = 7;
+
+/**
+ * Smallest shift reported as a change point, per metric
+ * (percentage points, % GMI, % CV, mmol/L, units per day and hypos per week)
+ */
+export const CHANGE_POINT_MIN_DELTA: Record<TrendMetricKey, number> = {
+  timeInRange: 5,
+  timeBelowRange: 1,
+  gmi: 0.2,
+  cv: 3,
+  meanGlucose: 0.5,
+  totalDailyDose: 3,
+  hyposPerWeek: 1,
+};
+
+/**
+ * Per-day totals from which rolling metrics are pooled
+ */
+export interface DailyTrendTotals {
+  /** Date in YYYY-MM-DD format */
+  date: string;
+  readingCount: number;
+  inRangeCount: number;
+  belowRangeCount: number;
+  /** Sum of glucose values in mmol/L */
+  glucoseSum: number;
+  /** Sum of squared glucose values */
+  glucoseSumOfSquares: number;
+  /** Hypos starting on this day */
+  hypoCount: number;
+  /** Basal plus bolus insulin in units (null without insulin data) */
+  totalInsulin: number | null;
+}
+
+/**
+ * Value of every trend metric on one day (null where it cannot be calculated)
+ */
+export type TrendPoint = { date: string } & Record<TrendMetricKey, number | null>;
+
+/**
+ * A significant shift in one metric
+ */
+export interface TrendChangePoint {
+  metric: TrendMetricKey;
+  /** First day after the shift (YYYY-MM-DD) */
+  date: string;
+  /** Mean daily value before the shift */
+  before: number;
+  /** Mean daily value after the shift */
+  after: number;
+  /** After minus before */
+  delta: number;
+}
+
+/**
+ * Round to one decimal place
+ */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Calendar day after a YYYY-MM-DD date
+ */
+function nextDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return formatDate(new Date(year, month - 1, day + 1));
+}
+
+/**
+ * Reduce readings and insulin to per-day totals
+ *
+ * @param readings - Glucose readings (any order, values in mmol/L)
+ * @param insulinReadings - Basal and bolus insulin readings
+ * @param thresholds - Glucose thresholds (low/high bound the target range)
+ * @returns One entry per day with glucose or insulin data, sorted by date
+ */
+export function calculateDailyTrendTotals(
+  readings: GlucoseReading[],
+  insulinReadings: InsulinReading[],
+  thresholds: GlucoseThresholds
+): DailyTrendTotals[] {
+  const sorted = [...readings].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const days = new Map<string, DailyTrendTotals>();
+  const getDay = (date: string): DailyTrendTotals => {
+    let day = days.get(date);
+    if (!day) {
+      day = {
+        date,
+        readingCount: 0,
+        inRangeCount: 0,
+        belowRangeCount: 0,
+        glucoseSum: 0,
+        glucoseSumOfSquares: 0,
+        hypoCount: 0,
+        totalInsulin: null,
+      };
+      days.set(date, day);
+    }
+    return day;
+  };
+
+  for (const reading of sorted) {
+    const day = getDay(formatDate(reading.timestamp));
+    day.readingCount++;
+    if (reading.value < thresholds.low) {
+      day.belowRangeCount++;
+    } else if (reading.value <= thresholds.high) {
+      day.inRangeCount++;
+    }
+    day.glucoseSum += reading.value;
+    day.glucoseSumOfSquares += reading.value * reading.value;
+  }
+
+  for (const hypo of calculateHypoStats(sorted, thresholds).hypoPeriods) {
+    getDay(formatDate(hypo.startTime)).hypoCount++;
+  }
+
+  for (const summary of aggregateInsulinByDate(insulinReadings)) {
+    getDay(summary.date).totalInsulin = summary.totalInsulin;
+  }
+
+  return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Pool per-day totals into trend metrics
+ */
+function poolTotals(date: string, totals: DailyTrendTotals[], minDays: number): TrendPoint {
+  const glucoseDays = totals.filter(day => day.readingCount > 0);
+  const insulinDays = totals.filter(day => day.totalInsulin !== null);
+  const point: TrendPoint = {
+    date,
+    timeInRange: null,
+    timeBelowRange: null,
+    gmi: null,
+    cv: null,
+    meanGlucose: null,
+    totalDailyDose: null,
+    hyposPerWeek: null,
+  };
+
+  if (glucoseDays.length >= minDays) {
+    const n = glucoseDays.reduce((sum, day) => sum + day.readingCount, 0);
+    const sum = glucoseDays.reduce((total, day) => total + day.glucoseSum, 0);
+    const sumOfSquares = glucoseDays.reduce((total, day) => total + day.glucoseSumOfSquares, 0);
+    const mean = sum / n;
+
+    point.timeInRange = round1((glucoseDays.reduce((total, day) => total + day.inRangeCount, 0) / n) * 100);
+    point.timeBelowRange = round1((glucoseDays.reduce((total, day) => total + day.belowRangeCount, 0) / n) * 100);
+    point.meanGlucose = round1(mean);
+    point.gmi = round1(calculateEstimatedHbA1c(mean));
+    if (n >= 2 && mean > 0) {
+      // Sample variance, as in calculateCV
+      const variance = Math.max(0, (sumOfSquares - n * mean * mean) / (n - 1));
+      point.cv = round1((Math.sqrt(variance) / mean) * 100);
+    }
+    point.hyposPerWeek = round1((glucoseDays.reduce((total, day) => total + day.hypoCount, 0) / glucoseDays.length) * 7);
+  }
+
+  if (insulinDays.length >= minDays) {
+    point.totalDailyDose = round1(insulinDays.reduce((total, day) => total + (day.totalInsulin ?? 0), 0) / insulinDays.length);
+  }
+
+  return point;
+}
+
+/**
+ * Calculate rolling trend metrics for every calendar day of the file
+ *
+ * @param dailyTotals - Per-day totals sorted by date
+ * @param windowDays - Rolling window length in days (the window ends on the point's day)
+ * @returns One point per calendar day from the first to the last day with data
+ */
+export function calculateRollingTrends(dailyTotals: DailyTrendTotals[], windowDays: number): TrendPoint[] {
+  if (dailyTotals.length === 0) return [];
+
+  const minDays = Math.ceil(windowDays * MIN_ROLLING_WINDOW_COVERAGE);
+  const byDate = new Map(dailyTotals.map(day => [day.date, day]));
+  const lastDate = dailyTotals[dailyTotals.length - 1].date;
+
+  const points: TrendPoint[] = [];
+  const window: DailyTrendTotals[] = [];
+  const windowDates: string[] = [];
+
+  for (let date = dailyTotals[0].date; date <= lastDate; date = nextDate(date)) {
+    windowDates.push(date);
+    const day = byDate.get(date);
+    if (day) window.push(day);
+
+    // Drop the day that just left the window
+    if (windowDates.length > windowDays) {
+      const dropped = windowDates.shift();
+      if (window.length > 0 && window[0].date === dropped) window.shift();
+    }
+
+    points.push(poolTotals(date, window, minDays));
+  }
+
+  return points;
+}
+
+/**
+ * Value of a metric on a single day (null where it cannot be calculated)
+ */
+function getDailyValue(day: DailyTrendTotals, metric: TrendMetricKey): number | null {
+  if (metric === 'totalDailyDose') return day.totalInsulin;
+  if (day.readingCount === 0) return null;
+
+  const mean = day.glucoseSum / day.readingCount;
+  switch (metric) {
+    case 'timeInRange':
+      return (day.inRangeCount / day.readingCount) * 100;
+    case 'timeBelowRange':
+      return (day.belowRangeCount / day.readingCount) * 100;
+    case 'meanGlucose':
+      return mean;
+    case 'gmi':
+      return calculateEstimatedHbA1c(mean);
+    case 'hyposPerWeek':
+      return day.hypoCount * 7;
+    case 'cv': {
+      if (day.readingCount < 2 || mean <= 0) return null;
+      const variance = Math.max(0, (day.glucoseSumOfSquares - day.readingCount * mean * mean) / (day.readingCount - 1));
+      return (Math.sqrt(variance) / mean) * 100;
+    }
+  }
+}
+
+/**
+ * Find days where a metric shifts significantly
+ *
+ * @param dailyTotals - Per-day totals sorted by date
+ * @param metrics - Metrics to check (default: all)
+ * @returns Change points of all requested metrics, sorted by date
+ */
+export function detectTrendChangePoints(
+  dailyTotals: DailyTrendTotals[],
+  metrics: TrendMetricKey[] = TREND_METRICS
+): TrendChangePoint[] {
+  const changePoints: TrendChangePoint[] = [];
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  for (const metric of metrics) {
+    const series = dailyTotals
+      .map(day => ({ date: day.date, value: getDailyValue(day, metric) }))
+      .filter((entry): entry is { date: string; value: number } => entry.value !== null);
+
+    const candidates: Array<{ changePoint: TrendChangePoint; index: number }> = [];
+    for (let i = CHANGE_POINT_MIN_DAYS; i <= series.length - CHANGE_POINT_MIN_DAYS; i++) {
+      const before = series.slice(Math.max(0, i - CHANGE_POINT_WINDOW_DAYS), i).map(entry => entry.value);
+      const after = series.slice(i, i + CHANGE_POINT_WINDOW_DAYS).map(entry => entry.value);
+      const delta = mean(after) - mean(before);
+      if (Math.abs(delta) < CHANGE_POINT_MIN_DELTA[metric]) continue;
+      if (testMeanDifference(before, after) !== 'significant') continue;
+
+      candidates.push({
+        changePoint: {
+          metric,
+          date: series[i].date,
+          before: round1(mean(before)),
+          after: round1(mean(after)),
+          delta: round1(delta),
+        },
+        index: i,
+      });
+    }
+
+    // Keep the largest shift among candidates closer than one comparison window
+    const selected: typeof candidates = [];
+    for (const candidate of [...candidates].sort((a, b) => Math.abs(b.changePoint.delta) - Math.abs(a.changePoint.delta))) {
+      if (selected.every(other => Math.abs(other.index - candidate.index) >= CHANGE_POINT_WINDOW_DAYS)) {
+        selected.push(candidate);
+      }
+    }
+
+    changePoints.push(...selected.map(candidate => candidate.changePoint));
+  }
+
+  return changePoints.sort((a, b) => a.date.localeCompare(b.date) || TREND_METRICS.indexOf(a.metric) - TREND_METRICS.indexOf(b.metric));
+}
@@ -1,13 +1,15 @@
 /**
  * File caching utilities for permanent browser storage
- * Uses IndexedDB for file storage and localStorage for metadata
+ * Uses IndexedDB for file storage and user annotations, and localStorage for metadata
  */
 
-import type { UploadedFile, ZipMetadata } from '../types';
+import type { DataAnnotation, UploadedFile, ZipMetadata } from '../types';
+import { normalizeAnnotations } from './data/annotationUtils';
 
 const DB_NAME = 'GlookoDataCache';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = 'files';
+const ANNOTATIONS_STORE_NAME = 'annotations';
 const METADATA_KEY_PREFIX = 'cached_file_';
 
 /**
@@ -37,6 +39,9 @@ async function openDatabase(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: 'id' });
       }
+      if (!db.objectStoreNames.contains(ANNOTATIONS_STORE_NAME)) {
+        db.createObjectStore(ANNOTATIONS_STORE_NAME, { keyPath: 'datasetKey' });
+      }
     };
   });
 }
@@ -247,6 +252,88 @@ export function isFileCached(fileId: string): boolean {
   return localStorage.getItem(`${METADATA_KEY_PREFIX}${fileId}`) !== null;
 }
 
+/**
+ * Load the annotations of all datasets
+ *
+ * Annotations are kept by dataset key (see getDatasetKey), so they are not
+ * removed with a cached file and return when the same export is uploaded again.
+ *
+ * @returns {Promise<Record<string, DataAnnotation[]>>} Annotations by dataset key (empty on failure)
+ */
+export async function loadAllAnnotations(): Promise<Record<string, DataAnnotation[]>> {
+  let db: IDBDatabase | null = null;
+
+  try {
+    db = await openDatabase();
+
+    const transaction = db.transaction([ANNOTATIONS_STORE_NAME], 'readonly');
+    const store = transaction.objectStore(ANNOTATIONS_STORE_NAME);
+
+    const records = await new Promise<Array<{ datasetKey: string; annotations: unknown }>>((resolve, reject) => {
+      const request = store.getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    const annotations: Record<string, DataAnnotation[]> = {};
+    for (const record of records) {
+      const list = normalizeAnnotations(record.annotations);
+      if (list.length > 0) {
+        annotations[record.datasetKey] = list;
+      }
+    }
+    return annotations;
+  } catch (error) {
+    console.error('Failed to load annotations:', error);
+    return {};
+  } finally {
+    // Always close the database connection
+    if (db) {
+      db.close();
+    }
+  }
+}
+
+/**
+ * Save the annotations of one dataset, replacing the stored ones
+ * @param {string} datasetKey - Key of the dataset (see getDatasetKey)
+ * @param {DataAnnotation[]} annotations - All annotations of the dataset; an empty list removes the record
+ * @returns {Promise<void>}
+ * @throws {Error} If the annotations cannot be saved to IndexedDB
+ */
+export async function saveDatasetAnnotations(datasetKey: string, annotations: DataAnnotation[]): Promise<void> {
+  let db: IDBDatabase | null = null;
+
+  try {
+    db = await openDatabase();
+
+    const transaction = db.transaction([ANNOTATIONS_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(ANNOTATIONS_STORE_NAME);
+
+    await new Promise<void>((resolve, reject) => {
+      const request = annotations.length > 0
+        ? store.put({ datasetKey, annotations })
+        : store.delete(datasetKey);
+
+      // Handle request-level errors
+      request.onerror = () => reject(request.error);
+
+      // Handle transaction-level errors and completion
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(new Error('Transaction aborted'));
+      transaction.oncomplete = () => resolve();
+    });
+  } catch (error) {
+    console.error('Failed to save annotations:', error);
+    throw error;
+  } finally {
+    // Always close the database connection
+    if (db) {
+      db.close();
+    }
+  }
+}
+
 /**
  * Clear all cached files
  * @returns {Promise<void>}
@@ -30,6 +30,9 @@ export default defineConfig({
       clientPort: 443 // Required for Codespaces port forwarding over HTTPS
     }
   },
+  worker: {
+    format: 'es' // ZIP parser worker shares code-split modules with the app
+  },
   build: {
     chunkSizeWarningLimit: 5000 // Increase chunk size warning limit to 5000 kB (main bundle is ~4.7 MB)
   }